@@ -6,7 +6,12 @@
  * - install: Install extension and native messaging host
  * - uninstall: Remove extension and native messaging host
  * - serve: Start MCP server for Claude Code
+ * - run: Execute a YAML/JSON workflow file without an LLM
  * - sessions: List or clear sessions
+ * - audit: Verify and search the tamper-evident audit log
+ * - trace: List and unpack trace bundles recorded with `serve --trace`
+ * - secrets: Manage the encrypted secrets vault for {{secret:name}} placeholders
+ * - totp: Manage TOTP seeds used by the totp tool for 2FA prompts
  * - launch: Start Claude Code with isolated config
  * - doctor: Check installation status
  * - recover: Recover corrupted .claude.json
@@ -193,11 +198,22 @@ program
   .option('-p, --port <port>', 'Chrome remote debugging port', '9222')
   .option('--auto-launch', 'Auto-launch Chrome if not running (default: false)')
   .option('--dashboard', 'Enable terminal dashboard for real-time monitoring')
+  .option('--dashboard-http <port>', 'Serve a web dashboard on 127.0.0.1 at this port (live activity, tab thumbnails, pause/kill)')
   .option('--hybrid', 'Enable hybrid mode (Lightpanda + Chrome routing)')
   .option('--lp-port <port>', 'Lightpanda debugging port (default: 9223)', '9223')
   .option('--persist-storage', 'Enable browser state persistence (cookies + localStorage)')
   .option('--storage-dir <path>', 'Directory for storage state files (default: .openchrome/storage-state/)')
-  .action(async (options: { port: string; autoLaunch?: boolean; dashboard?: boolean; hybrid?: boolean; lpPort?: string; persistStorage?: boolean; storageDir?: string }) => {
+  .option('--http <port>', 'Serve MCP over Streamable HTTP on this port instead of stdio')
+  .option('--http-host <host>', 'Interface for --http to bind (use 0.0.0.0 to share across the LAN; needs --http-token)', '127.0.0.1')
+  .option('--http-token <token>', 'Bearer token required on every --http request (default: $OPENCHROME_HTTP_TOKEN)')
+  .option('--policy <file>', 'Security policy file (YAML/JSON): domain allowlist and per-domain tool permissions')
+  .option('--audit-log [path]', 'Enable the hash-chained audit log (default path: ~/.openchrome/audit.log)')
+  .option('--secrets <file>', 'Secrets vault for {{secret:name}} placeholders (default: ~/.openchrome/secrets.json)')
+  .option('--trace [dir]', 'Record tool calls into per-session trace bundles with an HTML viewer (default dir: .openchrome/traces/)')
+  .option('--otlp <target>', 'Export OpenTelemetry spans and metrics as OTLP/JSON to a collector URL (e.g. http://localhost:4318) or a file (default: $OTEL_EXPORTER_OTLP_ENDPOINT)')
+  .option('--prometheus <port>', 'Serve Prometheus metrics on this port at /metrics')
+  .option('--prometheus-host <host>', 'Interface for --prometheus to bind', '127.0.0.1')
+  .action(async (options: { port: string; autoLaunch?: boolean; dashboard?: boolean; dashboardHttp?: string; hybrid?: boolean; lpPort?: string; persistStorage?: boolean; storageDir?: string; http?: string; httpHost?: string; httpToken?: string; policy?: string; auditLog?: boolean | string; secrets?: string; trace?: boolean | string; otlp?: string; prometheus?: string; prometheusHost?: string }) => {
     const port = parseInt(options.port, 10);
     const autoLaunch = options.autoLaunch || false;
     const dashboard = options.dashboard || false;
@@ -241,7 +257,7 @@ program
 
     // Import from built dist/ files (relative to dist/cli/)
     // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const { setGlobalConfig } = require('../config/global');
+    const { setGlobalConfig, getGlobalConfig } = require('../config/global');
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     const { getMCPServer, setMCPServerOptions } = require('../mcp-server');
     // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -250,6 +266,33 @@ program
     // Set global config before initializing anything
     setGlobalConfig({ port, autoLaunch });
 
+    // Load security policy file if provided
+    if (options.policy) {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { loadPolicyFile } = require('../security/policy');
+      try {
+        const policy = loadPolicyFile(options.policy);
+        setGlobalConfig({ security: { policy } });
+        console.error(`[openchrome] Security policy: ${options.policy} (mode: ${policy.mode ?? 'blocklist'}, ${policy.rules?.length ?? 0} tool rule(s))`);
+      } catch (error) {
+        console.error(`[openchrome] ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    }
+
+    // Configure audit logging if enabled
+    if (options.auditLog) {
+      const auditLogPath = typeof options.auditLog === 'string' ? path.resolve(options.auditLog) : undefined;
+      setGlobalConfig({
+        security: { ...getGlobalConfig().security, audit_log: true, ...(auditLogPath && { audit_log_path: auditLogPath }) },
+      });
+      console.error(`[openchrome] Audit logging: enabled${auditLogPath ? ` (${auditLogPath})` : ''}`);
+    }
+
+    if (options.secrets) {
+      setGlobalConfig({ security: { ...getGlobalConfig().security, secrets_path: path.resolve(options.secrets) } });
+    }
+
     // Configure hybrid mode if enabled
     const hybrid = options.hybrid || false;
     const lpPort = parseInt(options.lpPort || '9223', 10);
@@ -271,6 +314,27 @@ program
     const server = getMCPServer();
     registerAllTools(server);
 
+    if (options.trace) {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { getDefaultTraceDir } = require('../trace/trace-bundle');
+      const traceDir = server.enableTracing({ dir: typeof options.trace === 'string' ? path.resolve(options.trace) : getDefaultTraceDir() });
+      console.error(`[openchrome] Trace bundles: ${traceDir}`);
+    }
+
+    const otlpTarget = options.otlp || process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+    if (otlpTarget) {
+      server.startOtlpExport({ target: otlpTarget });
+    }
+
+    if (options.prometheus) {
+      const prometheusPort = parseInt(options.prometheus, 10);
+      if (isNaN(prometheusPort) || prometheusPort < 0 || prometheusPort > 65535) {
+        console.error(`[openchrome] Invalid --prometheus port: ${options.prometheus}`);
+        process.exit(1);
+      }
+      await server.startPrometheus({ port: prometheusPort, host: options.prometheusHost });
+    }
+
     // Initialize hybrid routing if enabled
     if (hybrid) {
       const { getSessionManager } = require('../session-manager');
@@ -283,9 +347,141 @@ program
       });
     }
 
+    if (options.dashboardHttp) {
+      const dashboardPort = parseInt(options.dashboardHttp, 10);
+      if (isNaN(dashboardPort) || dashboardPort < 0 || dashboardPort > 65535) {
+        console.error(`[openchrome] Invalid --dashboard-http port: ${options.dashboardHttp}`);
+        process.exit(1);
+      }
+      await server.startWebDashboard({ port: dashboardPort });
+    }
+
+    if (options.http) {
+      const httpPort = parseInt(options.http, 10);
+      if (isNaN(httpPort) || httpPort < 0 || httpPort > 65535) {
+        console.error(`[openchrome] Invalid --http port: ${options.http}`);
+        process.exit(1);
+      }
+      const shutdown = async (signal: string) => {
+        console.error(`[openchrome] Received ${signal}, shutting down...`);
+        await server.stop();
+        process.exit(0);
+      };
+      process.on('SIGTERM', () => shutdown('SIGTERM'));
+      process.on('SIGINT', () => shutdown('SIGINT'));
+      try {
+        await server.startHttp({
+          port: httpPort,
+          host: options.httpHost,
+          authToken: options.httpToken || process.env.OPENCHROME_HTTP_TOKEN,
+        });
+      } catch (error) {
+        console.error(`[openchrome] ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+      return;
+    }
+
     server.start();
   });
 
+program
+  .command('run <file>')
+  .description('Run a YAML/JSON workflow file directly against the browser tools (no LLM)')
+  .option('-p, --port <port>', 'Chrome remote debugging port', '9222')
+  .option('--auto-launch', 'Auto-launch Chrome if not running (default: false)')
+  .option('--var <key=value...>', 'Set or override a workflow variable (repeatable)')
+  .option('--report <path>', 'Write the JSON results report to a file instead of stdout')
+  .option('--session <id>', 'Browser session ID to run in', 'oc-run')
+  .option('--policy <file>', 'Security policy file (YAML/JSON) to enforce on every step')
+  .action(async (file: string, options: { port: string; autoLaunch?: boolean; var?: string[]; report?: string; session: string; policy?: string }) => {
+    const port = parseInt(options.port, 10);
+
+    const vars: Record<string, string> = {};
+    for (const pair of options.var || []) {
+      const eq = pair.indexOf('=');
+      if (eq <= 0) {
+        console.error(`[openchrome] Invalid --var "${pair}", expected key=value`);
+        process.exit(1);
+      }
+      vars[pair.slice(0, eq)] = pair.slice(eq + 1);
+    }
+
+    // Import from built dist/ files (relative to dist/cli/)
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { loadWorkflowFile } = require('../orchestration/workflow-file');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { WorkflowRunner } = require('../orchestration/workflow-runner');
+
+    let workflow;
+    try {
+      workflow = await loadWorkflowFile(file);
+    } catch (err) {
+      console.error(`[openchrome] ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { setGlobalConfig } = require('../config/global');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { getMCPServer } = require('../mcp-server');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { registerAllTools } = require('../tools');
+
+    setGlobalConfig({ port, autoLaunch: options.autoLaunch || false });
+    if (options.policy) {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { loadPolicyFile } = require('../security/policy');
+      try {
+        setGlobalConfig({ security: { policy: loadPolicyFile(options.policy) } });
+      } catch (error) {
+        console.error(`[openchrome] ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    }
+    const server = getMCPServer();
+    registerAllTools(server);
+
+    console.error(`[openchrome] Running workflow "${workflow.definition.name}" (${workflow.file})`);
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    process.once('SIGTERM', () => controller.abort());
+
+    let exitCode = 0;
+    try {
+      await server.getSessionManager().getOrCreateSession(options.session);
+      const runner = new WorkflowRunner((toolName: string) => server.getToolHandler(toolName));
+      const report = await runner.run(workflow, {
+        sessionId: options.session,
+        vars,
+        signal: controller.signal,
+        onStep: (step: { path: string; tool?: string; kind: string; status: string; durationMs: number; error?: string }) => {
+          const label = step.tool || step.kind;
+          const suffix = step.error ? `: ${step.error.split('\n')[0]}` : '';
+          console.error(`[openchrome]   ${step.status === 'passed' ? '✓' : '✗'} ${step.path} ${label} (${step.durationMs}ms)${suffix}`);
+        },
+      });
+
+      const json = JSON.stringify(report, null, 2);
+      if (options.report) {
+        fs.mkdirSync(path.dirname(path.resolve(options.report)), { recursive: true });
+        fs.writeFileSync(options.report, json + '\n');
+        console.error(`[openchrome] Report written to ${options.report}`);
+      } else {
+        console.log(json);
+      }
+      console.error(`[openchrome] Workflow ${report.success ? 'passed' : 'FAILED'} in ${report.durationMs}ms`);
+      exitCode = report.success ? 0 : 1;
+    } catch (err) {
+      console.error(`[openchrome] Workflow error: ${err instanceof Error ? err.message : String(err)}`);
+      exitCode = 1;
+    } finally {
+      await server.stop();
+    }
+    process.exit(exitCode);
+  });
+
 program
   .command('sessions')
   .description('List or clear sessions')
@@ -299,6 +495,380 @@ program
     }
   });
 
+const audit = program
+  .command('audit')
+  .description('Verify and search the tamper-evident audit log');
+
+/** Audit log path from --path, falling back to the server default */
+function resolveAuditLogPath(option?: string): string {
+  return option ? path.resolve(option) : path.join(os.homedir(), '.openchrome', 'audit.log');
+}
+
+audit
+  .command('verify')
+  .description('Verify the hash chain across the audit log and its rotated files')
+  .option('--path <file>', 'Audit log path (default: ~/.openchrome/audit.log)')
+  .option('--json', 'Print the result as JSON')
+  .action((options: { path?: string; json?: boolean }) => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { verifyAuditLog } = require('../security/audit-chain');
+    const logPath = resolveAuditLogPath(options.path);
+    const result = verifyAuditLog(logPath);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (result.files.length === 0) {
+      console.log(`No audit log found at ${logPath}`);
+    } else {
+      console.log(`Files:   ${result.files.length} (${result.files.map((f: string) => path.basename(f)).join(', ')})`);
+      console.log(`Entries: ${result.entries} chained${result.legacyEntries ? `, ${result.legacyEntries} legacy (unchained)` : ''}`);
+      if (result.firstTimestamp) {
+        console.log(`Range:   ${result.firstTimestamp} .. ${result.lastTimestamp}`);
+      }
+      if (!result.anchored) {
+        console.log('Note:    chain does not start at genesis (older rotated files were removed)');
+      }
+      if (result.valid) {
+        console.log('\n✓ Chain intact');
+      } else {
+        console.log(`\n✗ Chain broken at ${result.error.file}:${result.error.line}: ${result.error.reason}`);
+      }
+    }
+    process.exit(result.valid ? 0 : 1);
+  });
+
+audit
+  .command('list')
+  .description('List audit entries, filtered by session, tool, domain, outcome or time range')
+  .option('--path <file>', 'Audit log path (default: ~/.openchrome/audit.log)')
+  .option('--session <id>', 'Only entries for this session ID')
+  .option('--tool <name>', 'Only entries for this tool')
+  .option('--domain <pattern>', 'Only entries for matching domains (globs: "*.bank.com", "**.bank.com")')
+  .option('--outcome <outcome>', 'Only entries with this outcome (success, error, denied)')
+  .option('--since <time>', 'Entries at or after this time (ISO 8601 or relative: 30m, 12h, 7d)')
+  .option('--until <time>', 'Entries at or before this time (ISO 8601 or relative)')
+  .option('--limit <n>', 'Show only the last N matching entries')
+  .option('--json', 'Print entries as JSON lines')
+  .action((options: { path?: string; session?: string; tool?: string; domain?: string; outcome?: string; since?: string; until?: string; limit?: string; json?: boolean }) => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { queryAuditLog, parseAuditTime } = require('../security/audit-chain');
+    if (options.outcome && !['success', 'error', 'denied'].includes(options.outcome)) {
+      console.error(`Invalid --outcome "${options.outcome}". Use success, error or denied`);
+      process.exit(1);
+    }
+
+    let entries;
+    try {
+      entries = queryAuditLog(resolveAuditLogPath(options.path), {
+        sessionId: options.session,
+        tool: options.tool,
+        domain: options.domain,
+        outcome: options.outcome,
+        since: options.since ? parseAuditTime(options.since) : undefined,
+        until: options.until ? parseAuditTime(options.until) : undefined,
+      });
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    const limit = options.limit ? parseInt(options.limit, 10) : 0;
+    if (limit > 0) entries = entries.slice(-limit);
+
+    for (const entry of entries) {
+      if (options.json) {
+        console.log(JSON.stringify(entry));
+        continue;
+      }
+      const duration = typeof entry.duration_ms === 'number' ? `${entry.duration_ms}ms` : '-';
+      console.log([
+        entry.timestamp,
+        (entry.outcome ?? '-').padEnd(7),
+        (entry.tool ?? '-').padEnd(18),
+        (entry.domain ?? '-').padEnd(28),
+        entry.sessionId ?? '-',
+        duration,
+      ].join('  ') + (entry.error ? `\n    ${entry.error}` : ''));
+    }
+    if (!options.json) {
+      console.error(`${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`);
+    }
+  });
+
+const trace = program
+  .command('trace')
+  .description('List and unpack trace bundles recorded with `serve --trace`');
+
+trace
+  .command('list')
+  .description('List trace bundles, newest first')
+  .option('--dir <dir>', 'Bundle directory (default: .openchrome/traces/)')
+  .option('--json', 'Print bundles as JSON')
+  .action((options: { dir?: string; json?: boolean }) => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { listTraceBundles, getDefaultTraceDir } = require('../trace/trace-bundle');
+    const dir = options.dir ? path.resolve(options.dir) : getDefaultTraceDir();
+    const bundles = listTraceBundles(dir);
+
+    if (options.json) {
+      console.log(JSON.stringify(bundles, null, 2));
+      return;
+    }
+    if (bundles.length === 0) {
+      console.log(`No trace bundles in ${dir}`);
+      return;
+    }
+    for (const bundle of bundles) {
+      console.log([
+        new Date(bundle.startedAt).toISOString(),
+        `${bundle.steps} step(s)`.padEnd(11),
+        `${bundle.failed} failed`.padEnd(9),
+        bundle.sessionId.padEnd(20),
+        bundle.path,
+      ].join('  '));
+    }
+  });
+
+trace
+  .command('open <bundle>')
+  .description('Unpack a trace bundle and print the path of its HTML viewer')
+  .option('--out <dir>', 'Directory to unpack into (default: next to the bundle, without .zip)')
+  .action((bundle: string, options: { out?: string }) => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { extractTraceBundle } = require('../trace/trace-bundle');
+    const bundlePath = path.resolve(bundle);
+    const outDir = options.out ? path.resolve(options.out) : bundlePath.replace(/\.zip$/i, '');
+    if (outDir === bundlePath) {
+      console.error('Use --out for bundles without a .zip extension');
+      process.exit(1);
+    }
+    try {
+      const viewer = extractTraceBundle(bundlePath, outDir);
+      console.log(viewer);
+      console.error(`Open ${viewer} in a browser to step through the trace`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const secrets = program
+  .command('secrets')
+  .description('Manage encrypted secrets referenced as {{secret:name}} in fill_form, form_input and http_auth');
+
+/** Secrets vault at --path, falling back to the server default */
+function openSecretsVault(option?: string) {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { SecretsVault } = require('../security/secrets-vault');
+  return new SecretsVault(option ? path.resolve(option) : path.join(os.homedir(), '.openchrome', 'secrets.json'));
+}
+
+/** Read a secret from piped stdin, or prompt without echo on a terminal */
+function readSecretValue(name: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      process.stdin.setEncoding('utf8');
+      process.stdin.on('data', (chunk) => { data += chunk; });
+      process.stdin.on('end', () => resolve(data.replace(/\r?\n$/, '')));
+      process.stdin.on('error', reject);
+    });
+  }
+
+  return new Promise((resolve) => {
+    process.stdout.write(`Value for "${name}": `);
+    let value = '';
+    process.stdin.setRawMode(true);
+    process.stdin.setEncoding('utf8');
+    process.stdin.resume();
+    const onData = (key: string) => {
+      for (const ch of key) {
+        if (ch === '\r' || ch === '\n') {
+          process.stdin.setRawMode(false);
+          process.stdin.pause();
+          process.stdin.off('data', onData);
+          process.stdout.write('\n');
+          resolve(value);
+          return;
+        }
+        if (ch === '\u0003') {
+          process.stdout.write('\n');
+          process.exit(130);
+        }
+        if (ch === '\u007f' || ch === '\b') {
+          value = value.slice(0, -1);
+        } else {
+          value += ch;
+        }
+      }
+    };
+    process.stdin.on('data', onData);
+  });
+}
+
+secrets
+  .command('set <name>')
+  .description('Store a secret. The value is read from stdin or a hidden prompt, never from the command line')
+  .option('--path <file>', 'Vault path (default: ~/.openchrome/secrets.json)')
+  .option('--from-env <var>', 'Read the value from this environment variable instead')
+  .action(async (name: string, options: { path?: string; fromEnv?: string }) => {
+    try {
+      const vault = openSecretsVault(options.path);
+      let value: string | undefined;
+      if (options.fromEnv) {
+        value = process.env[options.fromEnv];
+        if (value === undefined) {
+          console.error(`Environment variable ${options.fromEnv} is not set`);
+          process.exit(1);
+        }
+      } else {
+        value = await readSecretValue(name);
+      }
+      if (!value) {
+        console.error('Refusing to store an empty secret');
+        process.exit(1);
+      }
+      vault.set(name, value);
+      console.log(`Stored secret "${name}" in ${vault.vaultPath}`);
+      console.log(`Use it in tool arguments as {{secret:${name}}}`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+secrets
+  .command('list')
+  .description('List secret names (values are never shown)')
+  .option('--path <file>', 'Vault path (default: ~/.openchrome/secrets.json)')
+  .option('--json', 'Print names as JSON')
+  .action((options: { path?: string; json?: boolean }) => {
+    try {
+      const entries: Array<{ name: string; updatedAt: string }> = openSecretsVault(options.path).list();
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else if (entries.length === 0) {
+        console.log('No secrets stored. Add one with: oc secrets set <name>');
+      } else {
+        for (const entry of entries) {
+          console.log(`${entry.name.padEnd(32)}  updated ${entry.updatedAt}`);
+        }
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+secrets
+  .command('rm <name>')
+  .description('Remove a secret')
+  .option('--path <file>', 'Vault path (default: ~/.openchrome/secrets.json)')
+  .action((name: string, options: { path?: string }) => {
+    try {
+      if (!openSecretsVault(options.path).remove(name)) {
+        console.error(`Secret "${name}" not found`);
+        process.exit(1);
+      }
+      console.log(`Removed secret "${name}"`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const totp = program
+  .command('totp')
+  .description('Manage encrypted TOTP seeds the totp tool uses to answer 2FA prompts');
+
+/** TOTP store at --path, falling back to the server default */
+function openTotpStore(option?: string) {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { TotpStore } = require('../security/totp');
+  return new TotpStore(option ? path.resolve(option) : path.join(os.homedir(), '.openchrome', 'totp.json'));
+}
+
+totp
+  .command('add <name>')
+  .description('Store a seed: an otpauth://totp/ URI or a base32 secret, read from stdin or a hidden prompt')
+  .option('--path <file>', 'Store path (default: ~/.openchrome/totp.json)')
+  .option('--from-env <var>', 'Read the URI or secret from this environment variable instead')
+  .action(async (name: string, options: { path?: string; fromEnv?: string }) => {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { parseTotpSeed } = require('../security/totp');
+      const store = openTotpStore(options.path);
+      const input = options.fromEnv ? process.env[options.fromEnv] : await readSecretValue(`${name} (otpauth:// URI or base32 secret)`);
+      if (!input) {
+        console.error(options.fromEnv ? `Environment variable ${options.fromEnv} is not set` : 'No seed given');
+        process.exit(1);
+      }
+      const config = parseTotpSeed(input);
+      store.add(name, config);
+      const { expiresIn } = store.generate(name);
+      console.log(`Stored TOTP seed "${name}"${config.issuer ? ` (${config.issuer}${config.account ? `: ${config.account}` : ''})` : ''} in ${store.storePath}`);
+      console.log(`${config.digits} digits, ${config.period}s period, ${config.algorithm}; current code rotates in ${expiresIn}s`);
+      console.log(`Check it against your authenticator with: oc totp code ${name}`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+totp
+  .command('list')
+  .description('List seed names (seeds are never shown)')
+  .option('--path <file>', 'Store path (default: ~/.openchrome/totp.json)')
+  .option('--json', 'Print names as JSON')
+  .action((options: { path?: string; json?: boolean }) => {
+    try {
+      const entries: Array<{ name: string; updatedAt: string }> = openTotpStore(options.path).list();
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else if (entries.length === 0) {
+        console.log('No TOTP seeds stored. Add one with: oc totp add <name>');
+      } else {
+        for (const entry of entries) {
+          console.log(`${entry.name.padEnd(32)}  updated ${entry.updatedAt}`);
+        }
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+totp
+  .command('code <name>')
+  .description('Print the current code (for checking enrollment; agents never see codes)')
+  .option('--path <file>', 'Store path (default: ~/.openchrome/totp.json)')
+  .action((name: string, options: { path?: string }) => {
+    try {
+      const { code, expiresIn } = openTotpStore(options.path).generate(name);
+      console.log(`${code}  (rotates in ${expiresIn}s)`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+totp
+  .command('rm <name>')
+  .description('Remove a seed')
+  .option('--path <file>', 'Store path (default: ~/.openchrome/totp.json)')
+  .action((name: string, options: { path?: string }) => {
+    try {
+      if (!openTotpStore(options.path).remove(name)) {
+        console.error(`TOTP seed "${name}" not found`);
+        process.exit(1);
+      }
+      console.log(`Removed TOTP seed "${name}"`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('doctor')
   .description('Check installation status')
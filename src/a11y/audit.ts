@@ -0,0 +1,567 @@
+/**
+ * Accessibility Audit - Rule engine over the AX tree and a DOM snapshot.
+ *
+ * Inputs are the raw results of Accessibility.getFullAXTree and
+ * DOMSnapshot.captureSnapshot, so the rules are pure functions that can be
+ * tested without a browser. Findings carry backendNodeIds, which form_input and
+ * the other ref-accepting tools take directly (as "142" or "node_142").
+ */
+
+export type A11yRuleId =
+  | 'missing-label'
+  | 'image-alt'
+  | 'empty-button'
+  | 'empty-link'
+  | 'color-contrast'
+  | 'heading-order'
+  | 'landmarks'
+  | 'focusable-hidden'
+  | 'aria-misuse';
+
+export type A11ySeverity = 'error' | 'warning';
+
+export interface A11yRuleInfo {
+  id: A11yRuleId;
+  description: string;
+  severity: A11ySeverity;
+  /** WCAG 2.x success criteria */
+  wcag: string[];
+  helpUri: string;
+}
+
+export interface A11yFinding {
+  rule: A11yRuleId;
+  severity: A11ySeverity;
+  message: string;
+  /** Absent for page-level findings (e.g. missing main landmark) */
+  backendNodeId?: number;
+  /** "node_<backendNodeId>", accepted by ref parameters */
+  ref?: string;
+  role?: string;
+  name?: string;
+  /** Short element description, e.g. button#save.primary */
+  element?: string;
+}
+
+export interface A11yReport {
+  url: string;
+  timestamp: string;
+  rulesRun: A11yRuleId[];
+  summary: {
+    errors: number;
+    warnings: number;
+    byRule: Partial<Record<A11yRuleId, number>>;
+    /** Findings dropped by maxFindingsPerRule */
+    truncated: number;
+  };
+  findings: A11yFinding[];
+}
+
+/** Subset of the CDP Accessibility.AXNode shape the rules read */
+export interface AuditAXNode {
+  nodeId: string | number;
+  ignored?: boolean;
+  backendDOMNodeId?: number;
+  role?: { value: unknown };
+  name?: { value: unknown };
+  properties?: Array<{ name: string; value: { value: unknown } }>;
+}
+
+/** Subset of the CDP DOMSnapshot.captureSnapshot response */
+export interface AuditDOMSnapshot {
+  strings: string[];
+  documents: Array<{
+    nodes: {
+      parentIndex?: number[];
+      nodeType?: number[];
+      nodeName?: number[];
+      nodeValue?: number[];
+      backendNodeId?: number[];
+      attributes?: number[][];
+    };
+    layout: {
+      nodeIndex: number[];
+      styles: number[][];
+    };
+  }>;
+}
+
+/** Computed styles requested from DOMSnapshot.captureSnapshot, in this order */
+export const AUDIT_COMPUTED_STYLES = [
+  'color',
+  'background-color',
+  'background-image',
+  'font-size',
+  'font-weight',
+  'visibility',
+  'display',
+  'opacity',
+] as const;
+
+export interface A11yAuditOptions {
+  /** Rules to run (default: all) */
+  rules?: A11yRuleId[];
+  /** Cap per rule to keep reports readable. Default: 50 */
+  maxFindingsPerRule?: number;
+}
+
+const HELP_BASE = 'https://www.w3.org/WAI/WCAG22/Understanding/';
+
+export const A11Y_RULES: Record<A11yRuleId, A11yRuleInfo> = {
+  'missing-label': {
+    id: 'missing-label',
+    description: 'Form controls must have an accessible name',
+    severity: 'error',
+    wcag: ['1.3.1', '4.1.2'],
+    helpUri: `${HELP_BASE}name-role-value.html`,
+  },
+  'image-alt': {
+    id: 'image-alt',
+    description: 'Images must have alternative text or be marked decorative',
+    severity: 'error',
+    wcag: ['1.1.1'],
+    helpUri: `${HELP_BASE}non-text-content.html`,
+  },
+  'empty-button': {
+    id: 'empty-button',
+    description: 'Buttons must have discernible text',
+    severity: 'error',
+    wcag: ['4.1.2'],
+    helpUri: `${HELP_BASE}name-role-value.html`,
+  },
+  'empty-link': {
+    id: 'empty-link',
+    description: 'Links must have discernible text',
+    severity: 'error',
+    wcag: ['2.4.4', '4.1.2'],
+    helpUri: `${HELP_BASE}link-purpose-in-context.html`,
+  },
+  'color-contrast': {
+    id: 'color-contrast',
+    description: 'Text must have a contrast ratio of at least 4.5:1 (3:1 for large text)',
+    severity: 'error',
+    wcag: ['1.4.3'],
+    helpUri: `${HELP_BASE}contrast-minimum.html`,
+  },
+  'heading-order': {
+    id: 'heading-order',
+    description: 'Heading levels should only increase by one',
+    severity: 'warning',
+    wcag: ['1.3.1'],
+    helpUri: `${HELP_BASE}info-and-relationships.html`,
+  },
+  landmarks: {
+    id: 'landmarks',
+    description: 'Pages should have exactly one main landmark and at most one banner/contentinfo',
+    severity: 'warning',
+    wcag: ['1.3.1', '2.4.1'],
+    helpUri: `${HELP_BASE}bypass-blocks.html`,
+  },
+  'focusable-hidden': {
+    id: 'focusable-hidden',
+    description: 'Focusable elements must not be inside aria-hidden content',
+    severity: 'error',
+    wcag: ['4.1.2'],
+    helpUri: `${HELP_BASE}name-role-value.html`,
+  },
+  'aria-misuse': {
+    id: 'aria-misuse',
+    description: 'ARIA roles and attributes must be valid and reference existing elements',
+    severity: 'error',
+    wcag: ['4.1.2'],
+    helpUri: `${HELP_BASE}name-role-value.html`,
+  },
+};
+
+export const ALL_A11Y_RULES = Object.keys(A11Y_RULES) as A11yRuleId[];
+
+const DEFAULT_MAX_FINDINGS_PER_RULE = 50;
+
+const LABELLED_CONTROL_ROLES = new Set([
+  'textbox', 'searchbox', 'combobox', 'checkbox', 'radio', 'slider',
+  'spinbutton', 'listbox', 'switch', 'menuitemcheckbox', 'menuitemradio',
+]);
+
+const VALID_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption',
+  'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'comment', 'complementary', 'contentinfo',
+  'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form',
+  'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'image', 'insertion', 'link', 'list',
+  'listbox', 'listitem', 'log', 'main', 'mark', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none', 'note', 'option', 'paragraph',
+  'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader',
+  'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status', 'strong',
+  'subscript', 'suggestion', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term',
+  'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+  // DPUB-ARIA and Graphics-ARIA modules
+  'doc-abstract', 'doc-acknowledgments', 'doc-afterword', 'doc-appendix', 'doc-backlink',
+  'doc-biblioentry', 'doc-bibliography', 'doc-biblioref', 'doc-chapter', 'doc-colophon',
+  'doc-conclusion', 'doc-cover', 'doc-credit', 'doc-credits', 'doc-dedication', 'doc-endnote',
+  'doc-endnotes', 'doc-epigraph', 'doc-epilogue', 'doc-errata', 'doc-example', 'doc-footnote',
+  'doc-foreword', 'doc-glossary', 'doc-glossref', 'doc-index', 'doc-introduction', 'doc-noteref',
+  'doc-notice', 'doc-pagebreak', 'doc-pagefooter', 'doc-pageheader', 'doc-pagelist', 'doc-part',
+  'doc-preface', 'doc-prologue', 'doc-pullquote', 'doc-qna', 'doc-subtitle', 'doc-tip', 'doc-toc',
+  'graphics-document', 'graphics-object', 'graphics-symbol',
+]);
+
+const VALID_ARIA_ATTRIBUTES = new Set([
+  'aria-activedescendant', 'aria-atomic', 'aria-autocomplete', 'aria-braillelabel',
+  'aria-brailleroledescription', 'aria-busy', 'aria-checked', 'aria-colcount', 'aria-colindex',
+  'aria-colindextext', 'aria-colspan', 'aria-controls', 'aria-current', 'aria-describedby',
+  'aria-description', 'aria-details', 'aria-disabled', 'aria-dropeffect', 'aria-errormessage',
+  'aria-expanded', 'aria-flowto', 'aria-grabbed', 'aria-haspopup', 'aria-hidden', 'aria-invalid',
+  'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-level', 'aria-live', 'aria-modal',
+  'aria-multiline', 'aria-multiselectable', 'aria-orientation', 'aria-owns', 'aria-placeholder',
+  'aria-posinset', 'aria-pressed', 'aria-readonly', 'aria-relevant', 'aria-required',
+  'aria-roledescription', 'aria-rowcount', 'aria-rowindex', 'aria-rowindextext', 'aria-rowspan',
+  'aria-selected', 'aria-setsize', 'aria-sort', 'aria-valuemax', 'aria-valuemin', 'aria-valuenow',
+  'aria-valuetext',
+]);
+
+/** ARIA attributes whose value is a list of element IDs */
+const ID_REFERENCE_ATTRIBUTES = [
+  'aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns',
+  'aria-activedescendant', 'aria-errormessage', 'aria-details', 'aria-flowto',
+];
+
+const NATIVELY_FOCUSABLE = new Set(['BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'IFRAME', 'SUMMARY']);
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+interface DOMElement {
+  backendNodeId: number;
+  tag: string;
+  attrs: Record<string, string>;
+  parent: number;
+  /** Computed styles, present only for rendered nodes */
+  styles?: Record<string, string>;
+}
+
+interface ParsedSnapshot {
+  /** Indexed by node index across all documents (offset per document) */
+  elements: Map<number, DOMElement>;
+  /** Text node index → [parent element index, text] */
+  texts: Array<{ parent: number; text: string }>;
+  ids: Set<string>;
+}
+
+/**
+ * Run the audit rules over an AX tree and DOM snapshot.
+ */
+export function runA11yAudit(
+  input: { url: string; axNodes: AuditAXNode[]; snapshot?: AuditDOMSnapshot },
+  options: A11yAuditOptions = {}
+): A11yReport {
+  const rules = options.rules && options.rules.length > 0 ? options.rules : ALL_A11Y_RULES;
+  const maxPerRule = options.maxFindingsPerRule ?? DEFAULT_MAX_FINDINGS_PER_RULE;
+  const axNodes = input.axNodes.filter(n => !n.ignored);
+  const dom = input.snapshot ? parseSnapshot(input.snapshot) : null;
+  const elementsByBackendId = new Map<number, DOMElement>();
+  if (dom) {
+    for (const el of dom.elements.values()) elementsByBackendId.set(el.backendNodeId, el);
+  }
+
+  const findings: A11yFinding[] = [];
+  const byRule: Partial<Record<A11yRuleId, number>> = {};
+  let truncated = 0;
+
+  const add = (rule: A11yRuleId, message: string, node?: { backendNodeId?: number; role?: string; name?: string }) => {
+    byRule[rule] = (byRule[rule] ?? 0) + 1;
+    if (byRule[rule]! > maxPerRule) {
+      truncated++;
+      return;
+    }
+    const backendNodeId = node?.backendNodeId;
+    const el = backendNodeId !== undefined ? elementsByBackendId.get(backendNodeId) : undefined;
+    findings.push({
+      rule,
+      severity: A11Y_RULES[rule].severity,
+      message,
+      ...(backendNodeId !== undefined && { backendNodeId, ref: `node_${backendNodeId}` }),
+      ...(node?.role && { role: node.role }),
+      ...(node?.name && { name: node.name }),
+      ...(el && { element: describeElement(el) }),
+    });
+  };
+
+  const ruleSet = new Set(rules);
+  const axInfo = (n: AuditAXNode) => ({
+    backendNodeId: n.backendDOMNodeId,
+    role: axString(n.role),
+    name: axString(n.name),
+  });
+
+  // AX-based rules
+  for (const node of axNodes) {
+    const role = axString(node.role);
+    const name = axString(node.name).trim();
+    if (name) continue;
+
+    if (ruleSet.has('missing-label') && LABELLED_CONTROL_ROLES.has(role)) {
+      add('missing-label', `${role} has no accessible name (add a <label>, aria-label or aria-labelledby)`, axInfo(node));
+    } else if (ruleSet.has('image-alt') && (role === 'image' || role === 'img')) {
+      add('image-alt', 'Image has no alternative text (add alt, or alt="" if decorative)', axInfo(node));
+    } else if (ruleSet.has('empty-button') && role === 'button') {
+      add('empty-button', 'Button has no discernible text', axInfo(node));
+    } else if (ruleSet.has('empty-link') && role === 'link') {
+      add('empty-link', 'Link has no discernible text', axInfo(node));
+    }
+  }
+
+  if (ruleSet.has('heading-order')) {
+    let previous = 0;
+    for (const node of axNodes) {
+      if (axString(node.role) !== 'heading') continue;
+      const level = Number(node.properties?.find(p => p.name === 'level')?.value.value ?? 0);
+      if (!level) continue;
+      if (previous > 0 && level > previous + 1) {
+        add('heading-order', `Heading level jumps from h${previous} to h${level}`, axInfo(node));
+      }
+      previous = level;
+    }
+  }
+
+  if (ruleSet.has('landmarks')) {
+    const count = (role: string) => axNodes.filter(n => axString(n.role) === role);
+    const mains = count('main');
+    if (mains.length === 0) {
+      add('landmarks', 'Page has no main landmark (<main> or role="main")');
+    } else if (mains.length > 1) {
+      for (const node of mains.slice(1)) add('landmarks', `Page has ${mains.length} main landmarks`, axInfo(node));
+    }
+    for (const role of ['banner', 'contentinfo']) {
+      const nodes = count(role);
+      for (const node of nodes.slice(1)) add('landmarks', `Page has ${nodes.length} ${role} landmarks`, axInfo(node));
+    }
+  }
+
+  // DOM-based rules
+  if (dom) {
+    if (ruleSet.has('color-contrast')) {
+      checkContrast(dom, (el, message) => add('color-contrast', message, { backendNodeId: el.backendNodeId }));
+    }
+    if (ruleSet.has('focusable-hidden')) {
+      for (const [index, el] of dom.elements) {
+        if (el.styles && isFocusable(el) && hasHiddenAncestor(dom, index)) {
+          add('focusable-hidden', `Focusable <${el.tag.toLowerCase()}> is inside aria-hidden="true" content`, { backendNodeId: el.backendNodeId });
+        }
+      }
+    }
+    if (ruleSet.has('aria-misuse')) {
+      for (const el of dom.elements.values()) {
+        for (const message of ariaProblems(el, dom.ids)) {
+          add('aria-misuse', message, { backendNodeId: el.backendNodeId });
+        }
+      }
+    }
+  }
+
+  const errors = findings.filter(f => f.severity === 'error').length;
+  return {
+    url: input.url,
+    timestamp: new Date().toISOString(),
+    rulesRun: rules,
+    summary: { errors, warnings: findings.length - errors, byRule, truncated },
+    findings,
+  };
+}
+
+function axString(value: { value: unknown } | undefined): string {
+  return typeof value?.value === 'string' ? value.value : '';
+}
+
+function parseSnapshot(snapshot: AuditDOMSnapshot): ParsedSnapshot {
+  const str = (i: number | undefined) => (i !== undefined && i >= 0 ? snapshot.strings[i] ?? '' : '');
+  const elements = new Map<number, DOMElement>();
+  const texts: ParsedSnapshot['texts'] = [];
+  const ids = new Set<string>();
+  let offset = 0;
+
+  for (const doc of snapshot.documents) {
+    const { nodes, layout } = doc;
+    const count = nodes.nodeType?.length ?? 0;
+    const styled = new Map<number, number[]>();
+    layout.nodeIndex.forEach((nodeIndex, i) => styled.set(nodeIndex, layout.styles[i] ?? []));
+
+    for (let i = 0; i < count; i++) {
+      const parentIndex = nodes.parentIndex?.[i] ?? -1;
+      const parent = parentIndex >= 0 ? parentIndex + offset : -1;
+      if (nodes.nodeType![i] === TEXT_NODE) {
+        const text = str(nodes.nodeValue?.[i]).trim();
+        if (text && styled.has(i)) texts.push({ parent, text });
+        continue;
+      }
+      if (nodes.nodeType![i] !== ELEMENT_NODE) continue;
+
+      const attrs: Record<string, string> = {};
+      const raw = nodes.attributes?.[i] ?? [];
+      for (let a = 0; a + 1 < raw.length; a += 2) {
+        attrs[str(raw[a]).toLowerCase()] = str(raw[a + 1]);
+      }
+      if (attrs.id) ids.add(attrs.id);
+
+      const styleIndexes = styled.get(i);
+      elements.set(i + offset, {
+        backendNodeId: nodes.backendNodeId?.[i] ?? 0,
+        tag: str(nodes.nodeName?.[i]).toUpperCase(),
+        attrs,
+        parent,
+        ...(styleIndexes && {
+          styles: Object.fromEntries(AUDIT_COMPUTED_STYLES.map((name, s) => [name, str(styleIndexes[s])])),
+        }),
+      });
+    }
+    offset += count;
+  }
+
+  return { elements, texts, ids };
+}
+
+function describeElement(el: DOMElement): string {
+  let desc = el.tag.toLowerCase();
+  if (el.attrs.id) desc += `#${el.attrs.id}`;
+  const classes = (el.attrs.class ?? '').trim().split(/\s+/).filter(Boolean).slice(0, 2);
+  if (classes.length > 0) desc += `.${classes.join('.')}`;
+  return desc;
+}
+
+function isFocusable(el: DOMElement): boolean {
+  if ('disabled' in el.attrs) return false;
+  const tabindex = el.attrs.tabindex;
+  if (tabindex !== undefined) return parseInt(tabindex, 10) >= 0;
+  if (el.tag === 'A' || el.tag === 'AREA') return 'href' in el.attrs;
+  if (el.tag === 'INPUT' && el.attrs.type === 'hidden') return false;
+  return NATIVELY_FOCUSABLE.has(el.tag) || el.attrs.contenteditable === 'true' || el.attrs.contenteditable === '';
+}
+
+function hasHiddenAncestor(dom: ParsedSnapshot, index: number): boolean {
+  for (let i: number = index; i >= 0;) {
+    const el = dom.elements.get(i);
+    if (!el) return false;
+    if (el.attrs['aria-hidden'] === 'true') return true;
+    i = el.parent;
+  }
+  return false;
+}
+
+function ariaProblems(el: DOMElement, ids: Set<string>): string[] {
+  const problems: string[] = [];
+  const role = el.attrs.role?.trim();
+  if (role !== undefined) {
+    // The first recognised token wins; flag when none are valid
+    const tokens = role.toLowerCase().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0 || !tokens.some(t => VALID_ROLES.has(t))) {
+      problems.push(`Invalid ARIA role "${role}"`);
+    }
+  }
+  for (const [name, value] of Object.entries(el.attrs)) {
+    if (!name.startsWith('aria-')) continue;
+    if (!VALID_ARIA_ATTRIBUTES.has(name)) {
+      problems.push(`Unknown ARIA attribute "${name}"`);
+    } else if (ID_REFERENCE_ATTRIBUTES.includes(name)) {
+      const missing = value.split(/\s+/).filter(id => id && !ids.has(id));
+      if (missing.length > 0) {
+        problems.push(`${name} references missing id${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+      }
+    }
+  }
+  return problems;
+}
+
+// ─── Contrast ───
+
+type RGBA = [number, number, number, number];
+
+/** Parse a computed "rgb(...)" / "rgba(...)" value */
+export function parseColor(value: string): RGBA | null {
+  const match = value.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (!match) return null;
+  let alpha = 1;
+  if (match[4] !== undefined) {
+    alpha = match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+  }
+  return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha];
+}
+
+/** WCAG contrast ratio between two opaque colours */
+export function contrastRatio(a: RGBA, b: RGBA): number {
+  const l1 = luminance(a);
+  const l2 = luminance(b);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+function luminance([r, g, b]: RGBA): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/** Composite a (possibly translucent) colour over an opaque backdrop */
+function composite(top: RGBA, bottom: RGBA): RGBA {
+  const a = top[3];
+  return [
+    top[0] * a + bottom[0] * (1 - a),
+    top[1] * a + bottom[1] * (1 - a),
+    top[2] * a + bottom[2] * (1 - a),
+    1,
+  ];
+}
+
+/**
+ * Effective background behind an element: translucent layers are composited
+ * up the ancestor chain onto white. Null when a background image is in the way.
+ */
+function effectiveBackground(dom: ParsedSnapshot, index: number): RGBA | null {
+  const layers: RGBA[] = [];
+  for (let i = index; i >= 0;) {
+    const el = dom.elements.get(i);
+    if (!el) break;
+    if (el.styles) {
+      if (el.styles['background-image'] && el.styles['background-image'] !== 'none') return null;
+      const color = parseColor(el.styles['background-color'] ?? '');
+      if (color && color[3] > 0) {
+        layers.push(color);
+        if (color[3] >= 1) break;
+      }
+    }
+    i = el.parent;
+  }
+  let result: RGBA = [255, 255, 255, 1];
+  for (let l = layers.length - 1; l >= 0; l--) {
+    result = composite(layers[l], result);
+  }
+  return result;
+}
+
+function checkContrast(dom: ParsedSnapshot, report: (el: DOMElement, message: string) => void): void {
+  const checked = new Set<number>();
+  for (const { parent } of dom.texts) {
+    if (checked.has(parent)) continue;
+    checked.add(parent);
+
+    const el = dom.elements.get(parent);
+    const styles = el?.styles;
+    if (!el || !styles) continue;
+    if (styles.visibility === 'hidden' || styles.display === 'none' || parseFloat(styles.opacity) === 0) continue;
+
+    const fg = parseColor(styles.color ?? '');
+    const bg = effectiveBackground(dom, parent);
+    if (!fg || !bg || fg[3] === 0) continue;
+
+    const ratio = contrastRatio(composite(fg, bg), bg);
+    const size = parseFloat(styles['font-size']) || 16;
+    const weight = parseInt(styles['font-weight'], 10) || 400;
+    const large = size >= 24 || (size >= 18.66 && weight >= 700);
+    const required = large ? 3 : 4.5;
+    if (ratio < required) {
+      report(el, `Contrast ratio ${ratio.toFixed(2)}:1 is below ${required}:1 (${styles.color} on ${formatColor(bg)}, ${size}px)`);
+    }
+  }
+}
+
+function formatColor([r, g, b]: RGBA): string {
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+}
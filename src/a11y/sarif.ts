@@ -0,0 +1,88 @@
+/**
+ * SARIF 2.1.0 export for accessibility audit reports, for code scanning pipelines.
+ */
+
+import { A11Y_RULES, A11yReport } from './audit';
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: Array<{
+          id: string;
+          shortDescription: { text: string };
+          helpUri: string;
+          defaultConfiguration: { level: 'error' | 'warning' };
+          properties: { tags: string[] };
+        }>;
+      };
+    };
+    results: Array<{
+      ruleId: string;
+      ruleIndex: number;
+      level: 'error' | 'warning';
+      message: { text: string };
+      locations: Array<{
+        physicalLocation: { artifactLocation: { uri: string } };
+        logicalLocations?: Array<{ name: string; fullyQualifiedName: string; kind: string }>;
+      }>;
+      partialFingerprints?: Record<string, string>;
+    }>;
+  }>;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/shaun0927/openchrome';
+
+/**
+ * Convert an audit report to a SARIF log. The page URL is the artifact;
+ * elements are logical locations keyed by their node ref.
+ */
+export function toSarif(report: A11yReport, toolVersion: string): SarifLog {
+  const rules = report.rulesRun.map(id => A11Y_RULES[id]);
+  const ruleIndex = new Map(rules.map((r, i) => [r.id, i]));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'openchrome-a11y',
+          version: toolVersion,
+          informationUri: INFORMATION_URI,
+          rules: rules.map(r => ({
+            id: r.id,
+            shortDescription: { text: r.description },
+            helpUri: r.helpUri,
+            defaultConfiguration: { level: r.severity },
+            properties: { tags: ['accessibility', ...r.wcag.map(c => `wcag${c.replace(/\./g, '')}`)] },
+          })),
+        },
+      },
+      results: report.findings.map(f => ({
+        ruleId: f.rule,
+        ruleIndex: ruleIndex.get(f.rule) ?? 0,
+        level: f.severity,
+        message: { text: f.message },
+        locations: [{
+          physicalLocation: { artifactLocation: { uri: report.url } },
+          ...(f.ref && {
+            logicalLocations: [{
+              name: f.element ?? f.ref,
+              fullyQualifiedName: f.element ? `${f.element} (${f.ref})` : f.ref,
+              kind: 'element',
+            }],
+          }),
+        }],
+        // Stable across runs as long as the element description and message are
+        ...(f.element && { partialFingerprints: { elementMessage: `${f.rule}:${f.element}:${f.message}` } }),
+      })),
+    }],
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * Assertion Checks - Pass/fail checks of page state for the assert tool
+ *
+ * Each assertion is a plain object with a `type`; element assertions take a CSS
+ * `selector` or a semantic `locator` (locators only match visible elements), which
+ * also scope text assertions.
+ */
+
+import type { Page } from 'puppeteer-core';
+import type { MCPResult } from '../types/mcp';
+import { LOCATOR_FUNCTION, parseLocator } from '../locator';
+import { safeTitle } from '../utils/safe-title';
+import type { PageWatch } from './page-watch';
+
+export const ASSERTION_TYPES = [
+  'text_present',
+  'text_absent',
+  'element_visible',
+  'element_hidden',
+  'element_enabled',
+  'element_disabled',
+  'element_count',
+  'url_matches',
+  'title_matches',
+  'form_value',
+  'request_made',
+  'no_console_errors',
+  'screenshot_matches',
+] as const;
+
+export type AssertionType = typeof ASSERTION_TYPES[number];
+
+export interface Assertion {
+  type: AssertionType;
+  /** Label in results and reports; generated from the assertion when omitted */
+  description?: string;
+  /** text_present / text_absent */
+  text?: string;
+  caseSensitive?: boolean;
+  /** Element assertions; either also scopes text_present / text_absent */
+  selector?: string;
+  locator?: string;
+  /** element_count: exact, or a range */
+  count?: number;
+  min?: number;
+  max?: number;
+  /** url_matches / title_matches: regex, or substring if not a valid regex */
+  pattern?: string;
+  /** form_value: expected value ("true"/"false" for checkboxes, comma-joined for multi-selects) */
+  value?: string;
+  /** request_made */
+  urlPattern?: string;
+  method?: string;
+  status?: number;
+  /** no_console_errors: regex of messages to ignore */
+  ignore?: string;
+  /** screenshot_matches: visual_snapshot baseline name */
+  snapshot?: string;
+  maxMismatchPercent?: number;
+  threshold?: number;
+}
+
+export interface AssertionOutcome {
+  type: AssertionType;
+  description: string;
+  passed: boolean;
+  /** What was found (why it failed, for failures) */
+  message: string;
+  durationMs: number;
+}
+
+export interface AssertionContext {
+  page: Page;
+  /** Console errors and requests since the test started; undefined before any `start` */
+  watch?: PageWatch;
+  /** Run a visual_snapshot comparison */
+  compareSnapshot: (args: Record<string, unknown>) => Promise<MCPResult>;
+}
+
+const ELEMENT_TYPES = new Set<AssertionType>([
+  'element_visible', 'element_hidden', 'element_enabled', 'element_disabled', 'element_count', 'form_value',
+]);
+
+interface ElementSummary {
+  count: number;
+  visible: number;
+  firstEnabled: boolean | null;
+  firstValue: string | null;
+}
+
+/** In-page: counts and the state of the first element, from an element array */
+const ELEMENT_SUMMARY_FUNCTION = `function(els) {
+  const isVisible = (el) => {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+    const style = getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+  };
+  const valueOf = (el) => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' && (el.type === 'checkbox' || el.type === 'radio')) return String(el.checked);
+    if (tag === 'select') return Array.from(el.selectedOptions).map((o) => o.value).join(',');
+    if (tag === 'input' || tag === 'textarea') return el.value;
+    if (el.isContentEditable) return el.innerText;
+    return el.getAttribute('value');
+  };
+  const first = els[0];
+  return {
+    count: els.length,
+    visible: els.filter(isVisible).length,
+    firstEnabled: first ? !(first.matches(':disabled') || first.getAttribute('aria-disabled') === 'true') : null,
+    firstValue: first ? valueOf(first) : null,
+  };
+}`;
+
+/** In-page: whether the elements' text (or the page body's) contains the text */
+const TEXT_MATCH_FUNCTION = `function(roots, text, caseSensitive) {
+  const normalize = (s) => s.replace(/\\s+/g, ' ');
+  const content = normalize(roots.map((r) => r.innerText || r.textContent || '').join('\\n'));
+  const needle = normalize(text);
+  return caseSensitive ? content.includes(needle) : content.toLowerCase().includes(needle.toLowerCase());
+}`;
+
+const NO_WATCH_MESSAGE = 'nothing is being watched on this tab; call assert with action: "start" first';
+
+/**
+ * Regex test, falling back to a substring match when the pattern is not a valid regex.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return value.includes(pattern);
+  }
+}
+
+/**
+ * Check an assertion's fields. Returns an error message, or null if it is well-formed.
+ */
+export function validateAssertion(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'each assertion must be an object with a "type"';
+  const a = input as Assertion;
+  if (!ASSERTION_TYPES.includes(a.type)) {
+    return `unknown assertion type "${a.type}". Use: ${ASSERTION_TYPES.join(', ')}`;
+  }
+
+  const needs = (field: keyof Assertion) => a[field] === undefined || a[field] === '' ? `${a.type} needs "${field}"` : null;
+  if (ELEMENT_TYPES.has(a.type) && !a.selector && !a.locator) {
+    return `${a.type} needs "selector" or "locator"`;
+  }
+  if (a.locator) {
+    try {
+      parseLocator(a.locator);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  switch (a.type) {
+    case 'text_present':
+    case 'text_absent':
+      return needs('text');
+    case 'element_count':
+      return a.count === undefined && a.min === undefined && a.max === undefined
+        ? 'element_count needs "count", "min" or "max"'
+        : null;
+    case 'url_matches':
+    case 'title_matches':
+      return needs('pattern');
+    case 'form_value':
+      return needs('value');
+    case 'request_made':
+      return needs('urlPattern');
+    case 'screenshot_matches':
+      return needs('snapshot');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Human-readable statement of what an assertion expects.
+ */
+export function describeAssertion(a: Assertion): string {
+  if (a.description) return a.description;
+  const target = a.locator || a.selector || '';
+  switch (a.type) {
+    case 'text_present':
+      return `text "${a.text}" is present${target ? ` in ${target}` : ''}`;
+    case 'text_absent':
+      return `text "${a.text}" is absent${target ? ` from ${target}` : ''}`;
+    case 'element_visible':
+      return `${target} is visible`;
+    case 'element_hidden':
+      return `${target} is hidden`;
+    case 'element_enabled':
+      return `${target} is enabled`;
+    case 'element_disabled':
+      return `${target} is disabled`;
+    case 'element_count': {
+      const range = a.count !== undefined
+        ? `${a.count}`
+        : [a.min !== undefined && `>= ${a.min}`, a.max !== undefined && `<= ${a.max}`].filter(Boolean).join(' and ');
+      return `${target} count is ${range}`;
+    }
+    case 'url_matches':
+      return `URL matches ${a.pattern}`;
+    case 'title_matches':
+      return `title matches ${a.pattern}`;
+    case 'form_value':
+      return `${target} has value "${a.value}"`;
+    case 'request_made':
+      return `${a.method ? `${a.method.toUpperCase()} ` : ''}request to ${a.urlPattern} was made${a.status !== undefined ? ` with status ${a.status}` : ''}`;
+    case 'no_console_errors':
+      return 'no console errors';
+    case 'screenshot_matches':
+      return `screenshot matches baseline "${a.snapshot}"`;
+  }
+}
+
+/**
+ * request_made against the requests seen since the test started.
+ */
+export function checkRequests(watch: PageWatch | undefined, a: Assertion): { passed: boolean; message: string } {
+  if (!watch) return { passed: false, message: NO_WATCH_MESSAGE };
+  const method = a.method?.toUpperCase();
+  const urlMatches = watch.requests.filter((r) => matchesPattern(r.url, a.urlPattern || ''));
+  const matching = urlMatches.filter((r) =>
+    (!method || r.method === method) && (a.status === undefined || r.status === a.status)
+  );
+
+  if (matching.length > 0) {
+    const last = matching[matching.length - 1];
+    return { passed: true, message: `${matching.length} matching request(s), last: ${last.method} ${last.url} → ${last.status ?? last.error ?? 'pending'}` };
+  }
+  if (urlMatches.length > 0) {
+    const seen = urlMatches.slice(-3).map((r) => `${r.method} ${r.status ?? r.error ?? 'pending'}`).join(', ');
+    return { passed: false, message: `requests to ${a.urlPattern} were made, but none matched (${seen})` };
+  }
+  return {
+    passed: false,
+    message: `no request to ${a.urlPattern} among ${watch.requests.length} request(s) since ${new Date(watch.startedAt).toISOString()}`,
+  };
+}
+
+/**
+ * no_console_errors against the console errors and uncaught exceptions since the test started.
+ */
+export function checkConsoleErrors(watch: PageWatch | undefined, a: Assertion): { passed: boolean; message: string } {
+  if (!watch) return { passed: false, message: NO_WATCH_MESSAGE };
+  const errors = watch.errors.filter((e) => !a.ignore || !matchesPattern(e.text, a.ignore));
+  if (errors.length === 0) {
+    return { passed: true, message: `no console errors since ${new Date(watch.startedAt).toISOString()}` };
+  }
+  const shown = errors.slice(0, 3).map((e) => `[${e.type}] ${e.text.slice(0, 200)}`).join('; ');
+  return { passed: false, message: `${errors.length} console error(s): ${shown}` };
+}
+
+function checkElements(a: Assertion, summary: ElementSummary): { passed: boolean; message: string } {
+  const found = `${summary.count} match(es), ${summary.visible} visible`;
+  switch (a.type) {
+    case 'element_visible':
+      return { passed: summary.visible > 0, message: found };
+    case 'element_hidden':
+      return { passed: summary.visible === 0, message: found };
+    case 'element_enabled':
+    case 'element_disabled': {
+      if (summary.count === 0) return { passed: false, message: 'no matching element' };
+      const enabled = summary.firstEnabled === true;
+      return { passed: enabled === (a.type === 'element_enabled'), message: `first match is ${enabled ? 'enabled' : 'disabled'}` };
+    }
+    case 'element_count': {
+      const passed = (a.count === undefined || summary.count === a.count) &&
+        (a.min === undefined || summary.count >= a.min) &&
+        (a.max === undefined || summary.count <= a.max);
+      return { passed, message: found };
+    }
+    default: {
+      if (summary.count === 0) return { passed: false, message: 'no matching element' };
+      return { passed: summary.firstValue === a.value, message: `value is ${JSON.stringify(summary.firstValue)}` };
+    }
+  }
+}
+
+/** In-page expression for the elements an assertion's locator or selector matches */
+function elementsExpression(a: Assertion): string {
+  return a.locator
+    ? `Array.from((${LOCATOR_FUNCTION})(${JSON.stringify(parseLocator(a.locator))}, 1000))`
+    : `Array.from(document.querySelectorAll(${JSON.stringify(a.selector)}))`;
+}
+
+async function evaluateAssertion(ctx: AssertionContext, a: Assertion): Promise<{ passed: boolean; message: string }> {
+  const { page } = ctx;
+
+  if (ELEMENT_TYPES.has(a.type)) {
+    const summary = await page.evaluate(`(${ELEMENT_SUMMARY_FUNCTION})(${elementsExpression(a)})`) as ElementSummary;
+    return checkElements(a, summary);
+  }
+
+  switch (a.type) {
+    case 'text_present':
+    case 'text_absent': {
+      const roots = a.locator || a.selector ? elementsExpression(a) : '[document.body]';
+      const found = await page.evaluate(
+        `(${TEXT_MATCH_FUNCTION})(${roots}, ${JSON.stringify(a.text || '')}, ${a.caseSensitive ?? false})`
+      ) as boolean;
+      const passed = found === (a.type === 'text_present');
+      return { passed, message: found ? 'text found' : 'text not found' };
+    }
+
+    case 'url_matches': {
+      const url = page.url();
+      return { passed: matchesPattern(url, a.pattern || ''), message: `URL is ${url}` };
+    }
+
+    case 'title_matches': {
+      const title = await safeTitle(page);
+      return { passed: matchesPattern(title, a.pattern || ''), message: `title is "${title}"` };
+    }
+
+    case 'request_made':
+      return checkRequests(ctx.watch, a);
+
+    case 'no_console_errors':
+      return checkConsoleErrors(ctx.watch, a);
+
+    case 'screenshot_matches': {
+      const result = await ctx.compareSnapshot({
+        name: a.snapshot,
+        ...(a.maxMismatchPercent !== undefined && { maxMismatchPercent: a.maxMismatchPercent }),
+        ...(a.threshold !== undefined && { threshold: a.threshold }),
+      });
+      const text = result.content?.[0]?.text ?? '';
+      if (result.isError) return { passed: false, message: text };
+      const snapshot = JSON.parse(text) as { status: string; passed: boolean; mismatchPercent?: number; diff?: string };
+      if (snapshot.status === 'baseline_created') {
+        // Nothing was compared: the screenshot just became the baseline
+        return { passed: false, message: `no baseline "${a.snapshot}" existed; saved this screenshot as the baseline, re-run to compare` };
+      }
+      const detail = snapshot.mismatchPercent !== undefined ? ` (${snapshot.mismatchPercent}% mismatch)` : '';
+      return { passed: snapshot.passed, message: `${snapshot.status}${detail}${snapshot.diff ? `, diff: ${snapshot.diff}` : ''}` };
+    }
+
+    default:
+      return { passed: false, message: `unknown assertion type "${a.type}"` };
+  }
+}
+
+/**
+ * Run one assertion. Page errors (bad selector, closed tab) fail it rather than throw.
+ */
+export async function runAssertion(ctx: AssertionContext, a: Assertion): Promise<AssertionOutcome> {
+  const startTime = Date.now();
+  let result: { passed: boolean; message: string };
+  try {
+    result = await evaluateAssertion(ctx, a);
+  } catch (error) {
+    result = { passed: false, message: `error: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  return {
+    type: a.type,
+    description: describeAssertion(a),
+    passed: result.passed,
+    message: result.message,
+    durationMs: Date.now() - startTime,
+  };
+}
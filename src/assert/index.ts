@@ -0,0 +1,29 @@
+export {
+  ASSERTION_TYPES,
+  validateAssertion,
+  describeAssertion,
+  runAssertion,
+  matchesPattern,
+  checkRequests,
+  checkConsoleErrors,
+  type Assertion,
+  type AssertionType,
+  type AssertionOutcome,
+  type AssertionContext,
+} from './checks';
+export {
+  startPageWatch,
+  getPageWatch,
+  stopPageWatch,
+  type PageWatch,
+  type WatchedRequest,
+  type WatchedError,
+} from './page-watch';
+export {
+  TestResults,
+  getTestResults,
+  DEFAULT_SUITE,
+  type TestCaseResult,
+  type TestResultsSummary,
+} from './test-results';
+export { renderJUnitXml, escapeXml } from './junit';
@@ -0,0 +1,78 @@
+/**
+ * JUnit XML - Renders recorded test cases in the format CI systems ingest
+ *
+ * One <testsuite> per suite name; a test case fails if any of its assertions
+ * failed, with every failed assertion listed in the <failure> body.
+ */
+
+import type { TestCaseResult } from './test-results';
+
+/** Escape text for XML content and attributes, dropping characters XML 1.0 forbids */
+export function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function renderCase(testCase: TestCaseResult): string {
+  const failed = testCase.assertions.filter((a) => !a.passed);
+  const lines = [
+    `    <testcase classname="${escapeXml(testCase.suite)}" name="${escapeXml(testCase.name)}" time="${seconds(testCase.durationMs)}">`,
+  ];
+
+  if (failed.length > 0) {
+    const message = failed.length === 1
+      ? `${failed[0].description}: ${failed[0].message}`
+      : `${failed.length} of ${testCase.assertions.length} assertions failed`;
+    const body = failed.map((a) => `${a.description}: ${a.message}`).join('\n');
+    lines.push(`      <failure message="${escapeXml(message)}" type="AssertionError">${escapeXml(body)}</failure>`);
+  }
+
+  const output = testCase.assertions.map((a) => `${a.passed ? '✓' : '✗'} ${a.description} (${a.message})`);
+  if (testCase.skipped > 0) {
+    output.push(`- ${testCase.skipped} assertion(s) skipped after a failure`);
+  }
+  if (output.length > 0) {
+    lines.push(`      <system-out>${escapeXml(output.join('\n'))}</system-out>`);
+  }
+
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * Render test cases as a JUnit XML document.
+ */
+export function renderJUnitXml(cases: TestCaseResult[], options: { name?: string; timestamp?: Date } = {}): string {
+  const suites = new Map<string, TestCaseResult[]>();
+  for (const testCase of cases) {
+    const list = suites.get(testCase.suite) ?? [];
+    list.push(testCase);
+    suites.set(testCase.suite, list);
+  }
+
+  const timestamp = (options.timestamp ?? new Date()).toISOString().replace(/\.\d{3}Z$/, '');
+  const failuresOf = (list: TestCaseResult[]) => list.filter((c) => c.assertions.some((a) => !a.passed)).length;
+  const timeOf = (list: TestCaseResult[]) => list.reduce((sum, c) => sum + c.durationMs, 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(options.name ?? 'openchrome')}" tests="${cases.length}" failures="${failuresOf(cases)}" errors="0" time="${seconds(timeOf(cases))}">`,
+  ];
+  for (const [suite, list] of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(suite)}" tests="${list.length}" failures="${failuresOf(list)}" errors="0" skipped="0" time="${seconds(timeOf(list))}" timestamp="${timestamp}">`
+    );
+    lines.push(...list.map(renderCase));
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,134 @@
+/**
+ * Page Watch - Console errors and requests seen on a tab, for assertions
+ *
+ * `assert` starts watching a tab when a test starts, so request_made and
+ * no_console_errors can look back at what happened since.
+ */
+
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from 'puppeteer-core';
+import { getSessionManager } from '../session-manager';
+
+const MAX_REQUESTS = 1000;
+const MAX_ERRORS = 200;
+const MAX_TEXT_CHARS = 1000;
+
+export interface WatchedRequest {
+  url: string;
+  method: string;
+  resourceType: string;
+  /** HTTP status, once the response arrived */
+  status?: number;
+  /** Network error text for requests that never got a response */
+  error?: string;
+  timestamp: number;
+}
+
+export interface WatchedError {
+  /** "error" console message or uncaught "pageerror" */
+  type: 'error' | 'pageerror';
+  text: string;
+  timestamp: number;
+}
+
+export interface PageWatch {
+  startedAt: number;
+  requests: WatchedRequest[];
+  errors: WatchedError[];
+  detach: () => void;
+}
+
+// Module-level state storage, keyed by tab
+const watches: Map<string, PageWatch> = new Map();
+
+// Stop watching tabs that close
+const setupCleanupListener = (() => {
+  let initialized = false;
+  return () => {
+    if (initialized) return;
+    initialized = true;
+
+    getSessionManager().addEventListener((event) => {
+      if (
+        (event.type === 'session:target-closed' || event.type === 'session:target-removed') &&
+        event.targetId
+      ) {
+        stopPageWatch(event.targetId);
+      }
+    });
+  };
+})();
+
+/**
+ * Start watching a tab, replacing any earlier watch (a new test starts clean).
+ */
+export function startPageWatch(tabId: string, page: Page): PageWatch {
+  setupCleanupListener();
+  stopPageWatch(tabId);
+
+  const pending = new Map<HTTPRequest, WatchedRequest>();
+  const watch: PageWatch = { startedAt: Date.now(), requests: [], errors: [], detach: () => {} };
+
+  const pushError = (type: WatchedError['type'], text: string) => {
+    if (watch.errors.length < MAX_ERRORS) {
+      watch.errors.push({ type, text: text.slice(0, MAX_TEXT_CHARS), timestamp: Date.now() });
+    }
+  };
+  const onConsole = (msg: ConsoleMessage) => {
+    if (msg.type() === 'error') pushError('error', msg.text());
+  };
+  const onPageError = (error: unknown) => pushError('pageerror', error instanceof Error ? error.message : String(error));
+  const onRequest = (request: HTTPRequest) => {
+    if (watch.requests.length >= MAX_REQUESTS) return;
+    const entry: WatchedRequest = {
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      timestamp: Date.now(),
+    };
+    watch.requests.push(entry);
+    pending.set(request, entry);
+  };
+  const onResponse = (response: HTTPResponse) => {
+    const entry = pending.get(response.request());
+    if (entry) {
+      entry.status = response.status();
+      pending.delete(response.request());
+    }
+  };
+  const onRequestFailed = (request: HTTPRequest) => {
+    const entry = pending.get(request);
+    if (entry) {
+      entry.error = request.failure()?.errorText || 'failed';
+      pending.delete(request);
+    }
+  };
+
+  page.on('console', onConsole);
+  page.on('pageerror', onPageError);
+  page.on('request', onRequest);
+  page.on('response', onResponse);
+  page.on('requestfailed', onRequestFailed);
+  watch.detach = () => {
+    page.off('console', onConsole);
+    page.off('pageerror', onPageError);
+    page.off('request', onRequest);
+    page.off('response', onResponse);
+    page.off('requestfailed', onRequestFailed);
+    pending.clear();
+  };
+
+  watches.set(tabId, watch);
+  return watch;
+}
+
+export function getPageWatch(tabId: string): PageWatch | undefined {
+  return watches.get(tabId);
+}
+
+export function stopPageWatch(tabId: string): void {
+  const watch = watches.get(tabId);
+  if (watch) {
+    watch.detach();
+    watches.delete(tabId);
+  }
+}
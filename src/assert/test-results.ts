@@ -0,0 +1,112 @@
+/**
+ * Test Results - Assertion outcomes collected per session for JUnit reports
+ *
+ * Every `assert` check is recorded as part of a test case: the test named by the
+ * last `start` (or the check's own `test`), else one case per check.
+ */
+
+import { getSessionManager } from '../session-manager';
+import type { AssertionOutcome } from './checks';
+
+export interface TestCaseResult {
+  suite: string;
+  name: string;
+  startedAt: number;
+  durationMs: number;
+  assertions: AssertionOutcome[];
+  /** Assertions not run because an earlier hard assertion failed */
+  skipped: number;
+}
+
+export interface TestResultsSummary {
+  tests: number;
+  failures: number;
+  assertions: number;
+  failedAssertions: number;
+}
+
+export const DEFAULT_SUITE = 'openchrome';
+
+export class TestResults {
+  private cases: TestCaseResult[] = [];
+  private current: TestCaseResult | null = null;
+
+  /**
+   * Start a named test case; later checks without their own `test` are added to it.
+   */
+  startTest(name: string, suite: string = DEFAULT_SUITE): TestCaseResult {
+    this.current = { suite, name, startedAt: Date.now(), durationMs: 0, assertions: [], skipped: 0 };
+    this.cases.push(this.current);
+    return this.current;
+  }
+
+  /**
+   * Record the outcomes of one check, returning the test case they were added to.
+   */
+  record(outcomes: AssertionOutcome[], skipped: number, options: { suite?: string; test?: string } = {}): TestCaseResult {
+    const suite = options.suite ?? this.current?.suite ?? DEFAULT_SUITE;
+    let testCase: TestCaseResult | undefined;
+    if (options.test) {
+      testCase = this.cases.find((c) => c.name === options.test && c.suite === suite);
+    } else if (this.current && this.current.suite === suite) {
+      testCase = this.current;
+    }
+    if (!testCase) {
+      const name = options.test ?? outcomes.map((o) => o.description).join('; ').slice(0, 200);
+      testCase = { suite, name: name || 'assertions', startedAt: Date.now(), durationMs: 0, assertions: [], skipped: 0 };
+      this.cases.push(testCase);
+    }
+
+    testCase.assertions.push(...outcomes);
+    testCase.skipped += skipped;
+    testCase.durationMs = Date.now() - testCase.startedAt;
+    return testCase;
+  }
+
+  getCases(): TestCaseResult[] {
+    return [...this.cases];
+  }
+
+  summary(): TestResultsSummary {
+    const assertions = this.cases.flatMap((c) => c.assertions);
+    return {
+      tests: this.cases.length,
+      failures: this.cases.filter((c) => c.assertions.some((a) => !a.passed)).length,
+      assertions: assertions.length,
+      failedAssertions: assertions.filter((a) => !a.passed).length,
+    };
+  }
+
+  clear(): void {
+    this.cases = [];
+    this.current = null;
+  }
+}
+
+// Module-level state storage, keyed by session
+const resultsBySession: Map<string, TestResults> = new Map();
+
+// Drop results of sessions that are deleted (explicitly or after inactivity)
+const setupCleanupListener = (() => {
+  let initialized = false;
+  return () => {
+    if (initialized) return;
+    initialized = true;
+
+    getSessionManager().addEventListener((event) => {
+      if (event.type === 'session:deleted') {
+        resultsBySession.delete(event.sessionId);
+      }
+    });
+  };
+})();
+
+export function getTestResults(sessionId: string): TestResults {
+  setupCleanupListener();
+  let results = resultsBySession.get(sessionId);
+  if (!results) {
+    results = new TestResults();
+    resultsBySession.set(sessionId, results);
+  }
+  return results;
+}
@@ -8,6 +8,9 @@ import { getGlobalConfig } from '../config/global';
 import { smartGoto } from '../utils/smart-goto';
 import { getTargetId } from '../utils/puppeteer-helpers';
 import { getRefIdManager } from '../utils/ref-id-manager';
+import { getTelemetry } from '../telemetry/telemetry';
+import { getDomainDenial, hasNavigationRestrictions, recordBlockedNavigation } from '../security/domain-guard';
+import { getDownloadManager } from '../network/download-manager';
 import {
   DEFAULT_VIEWPORT,
   DEFAULT_NAVIGATION_TIMEOUT_MS,
@@ -72,6 +75,8 @@ export class CDPClient {
   private cookieSourceCache: Map<string, { targetId: string; timestamp: number }> = new Map();
   private cookieDataCache: Map<string, { cookies: CookieEntry[]; timestamp: number }> = new Map();
   private targetIdIndex: Map<string, Page> = new Map();
+  // Policy navigation guard per page; a page is handed out only once its guard is installed
+  private navigationGuards: WeakMap<Page, Promise<void>> = new WeakMap();
   private inFlightCookieScans: Map<string, Promise<string | null>> = new Map();
   /** Coalesces concurrent connect() calls — only one connectInternal() runs at a time. */
   private pendingConnect: Promise<void> | null = null;
@@ -460,7 +465,7 @@ export class CDPClient {
           const page = await target.page();
           if (page) {
             this.targetIdIndex.set(targetId, page);
-            this.configurePageDefenses(page);
+            await this.configurePageDefenses(page);
             console.error(`[CDPClient] Indexed popup target ${targetId} (URL: ${url})`);
           }
         } catch {
@@ -1025,7 +1030,8 @@ export class CDPClient {
     // Index page for O(1) target-to-page lookups (replaces eager targetcreated indexing)
     this.targetIdIndex.set(getTargetId(page.target()), page);
 
-    this.configurePageDefenses(page);
+    // The navigation guard must be in place before the first navigation
+    await this.configurePageDefenses(page);
 
     // Set default viewport for consistent debugging experience (non-critical; swallow timeout)
     await Promise.race([
@@ -1050,11 +1056,12 @@ export class CDPClient {
 
   /**
    * Register defense handlers on a page: dialog auto-dismiss, crash eviction,
-   * print suppression, download deny. Idempotent — safe to call multiple times.
+   * print suppression, download deny, policy navigation guard. Idempotent — safe to call multiple times.
+   * Resolves once the navigation guard, if any, is installed.
    */
-  private configurePageDefenses(page: Page): void {
+  private configurePageDefenses(page: Page): Promise<void> {
     // Idempotent guard — prevent double-registration
-    if ((page as any).__defensesConfigured) return;
+    if ((page as any).__defensesConfigured) return this.navigationGuards.get(page) ?? Promise.resolve();
     (page as any).__defensesConfigured = true;
 
     // Auto-dismiss native JavaScript dialogs (alert/confirm/prompt/beforeunload).
@@ -1098,8 +1105,12 @@ export class CDPClient {
     }).catch(() => {});
 
     // Deny file downloads by default — Content-Disposition: attachment
-    // responses block the navigation promise indefinitely.
-    this.send(page, 'Page.setDownloadBehavior', { behavior: 'deny' }).catch(() => {});
+    // responses block the navigation promise indefinitely. The setting covers the
+    // page's whole browser context, so contexts whose workers save downloads to a
+    // directory (see DownloadManager) are left alone.
+    if (!this.downloadsManagedFor(page)) {
+      this.send(page, 'Page.setDownloadBehavior', { behavior: 'deny' }).catch(() => {});
+    }
 
     // Clear refs when main frame navigates (SPA navigation invalidates all backendDOMNodeIds)
     page.on('framenavigated', (frame) => {
@@ -1112,6 +1123,48 @@ export class CDPClient {
         }
       }
     });
+
+    if (!hasNavigationRestrictions()) return Promise.resolve();
+    const guard = this.installNavigationGuard(page).catch((err) => {
+      console.error('[CDPClient] Failed to install navigation guard:', err);
+    });
+    this.navigationGuards.set(page, guard);
+    return guard;
+  }
+
+  /** Whether the page's browser context saves downloads to a worker directory */
+  private downloadsManagedFor(page: Page): boolean {
+    try {
+      return getDownloadManager().managesContext(page.browser(), page.browserContext().id);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Enforce the domain policy on every main-frame document request, so clicks,
+   * redirects and script navigations are covered, not just the navigate tool.
+   * Uses its own CDP session so it composes with request_intercept.
+   */
+  private async installNavigationGuard(page: Page): Promise<void> {
+    const targetId = getTargetId(page.target());
+    const session = await page.createCDPSession();
+
+    session.on('Fetch.requestPaused', (event: { requestId: string; frameId: string; request: { url: string } }) => {
+      // The main frame's ID is the target ID; subframe documents are left to the page
+      const denial = event.frameId === targetId ? getDomainDenial(event.request.url) : null;
+      if (denial) {
+        console.error(`[CDPClient] Blocked navigation to ${event.request.url.slice(0, 200)} (${targetId})`);
+        recordBlockedNavigation(targetId, event.request.url, denial);
+        session.send('Fetch.failRequest', { requestId: event.requestId, errorReason: 'BlockedByClient' }).catch(() => {});
+      } else {
+        session.send('Fetch.continueRequest', { requestId: event.requestId }).catch(() => {});
+      }
+    });
+
+    await session.send('Fetch.enable', {
+      patterns: [{ urlPattern: '*', resourceType: 'Document', requestStage: 'Request' }],
+    });
   }
 
   /**
@@ -1156,6 +1209,7 @@ export class CDPClient {
     // Fast path: check index first (O(1))
     const indexed = this.targetIdIndex.get(targetId);
     if (indexed && !indexed.isClosed()) {
+      await this.navigationGuards.get(indexed);
       return indexed;
     }
 
@@ -1172,7 +1226,7 @@ export class CDPClient {
         if (page) {
           // Populate index for future lookups
           this.targetIdIndex.set(targetId, page);
-          this.configurePageDefenses(page);
+          await this.configurePageDefenses(page);
         }
         return page;
       }
@@ -1207,8 +1261,23 @@ export class CDPClient {
     method: string,
     params?: Record<string, unknown>
   ): Promise<T> {
-    const session = await this.getCDPSession(page);
-    return session.send(method as any, params as any) as Promise<T>;
+    const telemetry = getTelemetry();
+    if (!telemetry.isEnabled) {
+      const session = await this.getCDPSession(page);
+      return session.send(method as any, params as any) as Promise<T>;
+    }
+
+    let status = 'error';
+    try {
+      const result = await telemetry.withSpan(`cdp ${method}`, async () => {
+        const session = await this.getCDPSession(page);
+        return session.send(method as any, params as any) as Promise<T>;
+      }, { kind: 'client', requireParent: true, attributes: { 'cdp.method': method } });
+      status = 'ok';
+      return result;
+    } finally {
+      telemetry.addCounter('openchrome.cdp.commands', 1, { method, status });
+    }
   }
 
   /**
@@ -0,0 +1,172 @@
+/**
+ * Frame Sessions - CDP sessions for a page's out-of-process iframes (OOPIFs)
+ *
+ * Cross-origin iframes (payment fields, embedded sign-in) run in their own
+ * renderer process, so the page's DOM and Runtime domains cannot see inside
+ * them. A dedicated page session with `Target.setAutoAttach` (flatten) gets a
+ * child session per OOPIF, nested ones included. Node IDs from a frame are only
+ * valid on that frame's session.
+ */
+
+import type { CDPSession, Page } from 'puppeteer-core';
+
+export interface FrameSession {
+  /** Frame ID, which is also the OOPIF's target ID */
+  frameId: string;
+  url: string;
+  session: CDPSession;
+  /** Frame whose document holds the <iframe> element; null when that is the page */
+  parent: FrameSession | null;
+}
+
+/**
+ * Where CDP commands about a node go: the page itself or one of its OOPIFs
+ */
+export interface NodeScope {
+  /** The OOPIF, or null for the page (including its same-process iframes) */
+  frame: FrameSession | null;
+  send<T = unknown>(method: string, params?: Record<string, unknown>): Promise<T>;
+  /** Top-left of the scope's viewport in page coordinates */
+  offset(): Promise<{ x: number; y: number }>;
+}
+
+// CDPClient interface to avoid circular imports
+interface CDPClientLike {
+  send<T = unknown>(page: Page, method: string, params?: Record<string, unknown>): Promise<T>;
+}
+
+interface AttachedToTargetEvent {
+  sessionId: string;
+  targetInfo: { targetId: string; type: string; url: string };
+}
+
+interface BoxModel {
+  model: { content: number[] };
+}
+
+class PageFrameSessions {
+  private frames: Map<string, FrameSession> = new Map();
+  private attaching: Promise<void> | null = null;
+
+  constructor(private readonly page: Page) {}
+
+  async list(): Promise<FrameSession[]> {
+    if (!this.attaching) {
+      this.attaching = this.page.createCDPSession().then((session) => this.autoAttach(session, null));
+      // Let a later call try again if the page session could not be set up
+      this.attaching.catch(() => { this.attaching = null; });
+    }
+    await this.attaching;
+    return Array.from(this.frames.values());
+  }
+
+  private async autoAttach(session: CDPSession, parent: FrameSession | null): Promise<void> {
+    session.on('Target.attachedToTarget', (event: AttachedToTargetEvent) => {
+      if (event.targetInfo.type !== 'iframe') return;
+      const child = session.connection()?.session(event.sessionId);
+      if (!child) return;
+
+      const frame: FrameSession = {
+        frameId: event.targetInfo.targetId,
+        url: event.targetInfo.url,
+        session: child,
+        parent,
+      };
+      this.frames.set(frame.frameId, frame);
+      child.on('Page.frameNavigated', (navigated: { frame: { id: string; parentId?: string; url: string } }) => {
+        if (!navigated.frame.parentId) frame.url = navigated.frame.url;
+      });
+      void Promise.all([
+        child.send('Page.enable'),
+        this.autoAttach(child, frame),
+      ]).catch(() => {
+        // Frame went away while attaching
+      });
+    });
+
+    session.on('Target.detachedFromTarget', (event: { sessionId: string }) => {
+      for (const frame of this.frames.values()) {
+        if (frame.session.id() === event.sessionId) this.remove(frame);
+      }
+    });
+
+    // Already-present iframes are attached (and reported) before this resolves
+    await session.send('Target.setAutoAttach', { autoAttach: true, waitForDebuggerOnStart: false, flatten: true });
+  }
+
+  /** Drop a frame and every frame nested in it */
+  private remove(frame: FrameSession): void {
+    this.frames.delete(frame.frameId);
+    for (const other of this.frames.values()) {
+      if (other.parent === frame) this.remove(other);
+    }
+  }
+}
+
+const trackers: WeakMap<Page, PageFrameSessions> = new WeakMap();
+
+/**
+ * Sessions for every out-of-process iframe in the page. The first call starts
+ * auto-attaching; iframes added later show up on later calls.
+ */
+export async function getFrameSessions(page: Page): Promise<FrameSession[]> {
+  let tracker = trackers.get(page);
+  if (!tracker) {
+    tracker = new PageFrameSessions(page);
+    trackers.set(page, tracker);
+  }
+  try {
+    return await tracker.list();
+  } catch (error) {
+    console.error('[FrameSessions] Could not attach to iframes:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Top-left of an OOPIF's viewport in page coordinates: the content boxes of its
+ * <iframe> element and of every <iframe> above it, added up
+ */
+export async function getFrameOffset(
+  page: Page,
+  cdpClient: CDPClientLike,
+  frame: FrameSession
+): Promise<{ x: number; y: number }> {
+  let x = 0;
+  let y = 0;
+  for (let current: FrameSession | null = frame; current; current = current.parent) {
+    const owner = current.parent;
+    const send = <T>(method: string, params: Record<string, unknown>): Promise<T> => (owner
+      ? owner.session.send(method as any, params as any) as Promise<T>
+      : cdpClient.send<T>(page, method, params));
+    const { backendNodeId } = await send<{ backendNodeId: number }>('DOM.getFrameOwner', { frameId: current.frameId });
+    const { model } = await send<BoxModel>('DOM.getBoxModel', { backendNodeId });
+    x += model.content[0];
+    y += model.content[1];
+  }
+  return { x, y };
+}
+
+/**
+ * Scope for commands about nodes of a frame (a ref's frameId), or of the page
+ * when frameId is undefined. Throws if the frame is gone.
+ */
+export async function getNodeScope(page: Page, cdpClient: CDPClientLike, frameId?: string): Promise<NodeScope> {
+  if (!frameId) {
+    return {
+      frame: null,
+      send: (method, params) => cdpClient.send(page, method, params),
+      offset: async () => ({ x: 0, y: 0 }),
+    };
+  }
+
+  const frame = (await getFrameSessions(page)).find((f) => f.frameId === frameId);
+  if (!frame) {
+    throw new Error(`Frame ${frameId} is no longer attached (the iframe navigated or was removed)`);
+  }
+  return {
+    frame,
+    send: <T>(method: string, params?: Record<string, unknown>) => frame.session.send(method as any, params as any) as Promise<T>,
+    offset: () => getFrameOffset(page, cdpClient, frame),
+  };
+}
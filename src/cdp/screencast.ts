@@ -0,0 +1,179 @@
+/**
+ * Tab Screencast - Live frames from a tab and input forwarded back into it
+ *
+ * Streams `Page.startScreencast` JPEG frames over a dedicated CDP session, so a
+ * person can watch a headless tab and take it over (CAPTCHAs, bot checks). Input
+ * arrives in frame-relative coordinates and is replayed with `Input.dispatch*`.
+ */
+
+import { EventEmitter } from 'events';
+import type { CDPSession, Page } from 'puppeteer-core';
+
+const FRAME_QUALITY = 60;
+const MAX_FRAME_WIDTH = 1600;
+const MAX_FRAME_HEIGHT = 1200;
+
+export interface ScreencastFrame {
+  /** Base64 JPEG */
+  data: string;
+  /** Viewport size in CSS pixels the frame shows */
+  width: number;
+  height: number;
+}
+
+/** Mouse input. x and y are fractions (0-1) of the frame's width and height. */
+export interface ScreencastMouseInput {
+  type: 'mouse';
+  action: 'down' | 'up' | 'move' | 'wheel';
+  x: number;
+  y: number;
+  button?: 'left' | 'middle' | 'right' | 'none';
+  clickCount?: number;
+  deltaX?: number;
+  deltaY?: number;
+  modifiers?: number;
+}
+
+export interface ScreencastKeyInput {
+  type: 'key';
+  action: 'down' | 'up';
+  key: string;
+  code?: string;
+  /** Windows virtual key code (KeyboardEvent.keyCode) */
+  keyCode?: number;
+  modifiers?: number;
+}
+
+/** Text insertion, e.g. a paste */
+export interface ScreencastTextInput {
+  type: 'text';
+  text: string;
+}
+
+export type ScreencastInput = ScreencastMouseInput | ScreencastKeyInput | ScreencastTextInput;
+
+export interface TabScreencastEvents {
+  'frame': (frame: ScreencastFrame) => void;
+}
+
+interface ScreencastFrameEvent {
+  data: string;
+  sessionId: number;
+  metadata: { deviceWidth: number; deviceHeight: number };
+}
+
+const MOUSE_EVENT_TYPES: Record<ScreencastMouseInput['action'], 'mousePressed' | 'mouseReleased' | 'mouseMoved' | 'mouseWheel'> = {
+  down: 'mousePressed',
+  up: 'mouseReleased',
+  move: 'mouseMoved',
+  wheel: 'mouseWheel',
+};
+
+/**
+ * Parse an input message from a viewer. Returns null for anything malformed.
+ */
+export function parseScreencastInput(raw: unknown): ScreencastInput | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const input = raw as Record<string, unknown>;
+
+  if (input.type === 'mouse') {
+    if (typeof input.action !== 'string' || !(input.action in MOUSE_EVENT_TYPES)) return null;
+    if (typeof input.x !== 'number' || typeof input.y !== 'number') return null;
+    return input as unknown as ScreencastMouseInput;
+  }
+  if (input.type === 'key') {
+    if ((input.action !== 'down' && input.action !== 'up') || typeof input.key !== 'string') return null;
+    return input as unknown as ScreencastKeyInput;
+  }
+  if (input.type === 'text') {
+    return typeof input.text === 'string' ? input as unknown as ScreencastTextInput : null;
+  }
+  return null;
+}
+
+export class TabScreencast extends EventEmitter {
+  private session: CDPSession | null = null;
+  private viewport = { width: 0, height: 0 };
+
+  constructor(private readonly page: Page) {
+    super();
+  }
+
+  /**
+   * Start streaming frames. Each frame is acknowledged so Chrome sends the next one.
+   */
+  async start(): Promise<void> {
+    if (this.session) return;
+
+    const session = await this.page.createCDPSession();
+    this.session = session;
+    session.on('Page.screencastFrame', (event: ScreencastFrameEvent) => {
+      this.viewport = { width: event.metadata.deviceWidth, height: event.metadata.deviceHeight };
+      session.send('Page.screencastFrameAck', { sessionId: event.sessionId }).catch(() => {});
+      this.emit('frame', { data: event.data, ...this.viewport });
+    });
+    await session.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: FRAME_QUALITY,
+      maxWidth: MAX_FRAME_WIDTH,
+      maxHeight: MAX_FRAME_HEIGHT,
+    });
+  }
+
+  /**
+   * Stop streaming and detach the CDP session
+   */
+  async stop(): Promise<void> {
+    const session = this.session;
+    this.session = null;
+    if (!session) return;
+    try {
+      await session.send('Page.stopScreencast');
+      await session.detach();
+    } catch {
+      // Tab already closed
+    }
+  }
+
+  /**
+   * Replay viewer input in the tab
+   */
+  async dispatch(input: ScreencastInput): Promise<void> {
+    if (!this.session) return;
+
+    if (input.type === 'mouse') {
+      await this.session.send('Input.dispatchMouseEvent', {
+        type: MOUSE_EVENT_TYPES[input.action],
+        x: Math.round(clamp01(input.x) * this.viewport.width),
+        y: Math.round(clamp01(input.y) * this.viewport.height),
+        button: input.button || (input.action === 'move' || input.action === 'wheel' ? 'none' : 'left'),
+        clickCount: input.clickCount ?? (input.action === 'down' || input.action === 'up' ? 1 : 0),
+        modifiers: input.modifiers || 0,
+        ...(input.action === 'wheel' && { deltaX: input.deltaX || 0, deltaY: input.deltaY || 0 }),
+      });
+      return;
+    }
+
+    if (input.type === 'key') {
+      // Printable keys and Enter carry text so the page receives a keypress/input.
+      // Not with Alt/Ctrl/Meta held (bits 1, 2, 4): those are shortcuts, not typing.
+      const typing = ((input.modifiers || 0) & 7) === 0;
+      const text = !typing ? undefined : input.key.length === 1 ? input.key : input.key === 'Enter' ? '\r' : undefined;
+      await this.session.send('Input.dispatchKeyEvent', {
+        type: input.action === 'up' ? 'keyUp' : text ? 'keyDown' : 'rawKeyDown',
+        key: input.key,
+        ...(input.code && { code: input.code }),
+        ...(input.keyCode && { windowsVirtualKeyCode: input.keyCode }),
+        ...(input.action === 'down' && text && { text, unmodifiedText: text }),
+        modifiers: input.modifiers || 0,
+      });
+      return;
+    }
+
+    await this.session.send('Input.insertText', { text: input.text });
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
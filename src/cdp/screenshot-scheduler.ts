@@ -11,6 +11,7 @@
 import { Page } from 'puppeteer-core';
 import { CDPClient } from './client';
 import { DEFAULT_SCREENSHOT_QUALITY } from '../config/defaults';
+import { getTelemetry } from '../telemetry/telemetry';
 
 /** Default maximum time to wait in the screenshot queue before giving up (ms) */
 const DEFAULT_SCREENSHOT_QUEUE_TIMEOUT_MS = 30_000;
@@ -97,6 +98,11 @@ export class ScreenshotScheduler {
 
     this.active++;
     const waitMs = Date.now() - queuedAt;
+    const telemetry = getTelemetry();
+    telemetry.recordHistogram('openchrome.screenshot.queue_wait', waitMs);
+    if (waitMs > 0) {
+      telemetry.recordSpan('screenshot.queue_wait', queuedAt, queuedAt + waitMs, { 'openchrome.queue.depth': this.queue.length });
+    }
     const captureStart = Date.now();
 
     try {
@@ -105,10 +111,14 @@ export class ScreenshotScheduler {
 
       const params: Record<string, unknown> = {
         format,
-        quality,
         optimizeForSpeed: options.optimizeForSpeed ?? true,
       };
 
+      // quality only applies to lossy formats
+      if (format !== 'png') {
+        params.quality = quality;
+      }
+
       if (options.clip) {
         params.clip = options.clip;
       }
@@ -33,6 +33,12 @@ export interface LaunchOptions {
   restartChrome?: boolean;
   /** Chrome profile directory name (e.g., "Profile 1"). Passed as --profile-directory flag */
   profileDirectory?: string;
+  /**
+   * Launch a dedicated instance with its own persistent user data dir, keyed by this name
+   * (multi-profile sessions). profileDirectory is synced in from the real Chrome profile and
+   * the global --profile-directory is not inherited.
+   */
+  instanceName?: string;
 }
 
 const DEFAULT_PORT = 9222;
@@ -204,6 +210,8 @@ export class ChromeLauncher {
     type: 'real',
     extensionsAvailable: true,
   };
+  /** Set once launched as a dedicated profile instance, so relaunches keep that profile */
+  private dedicatedProfile: Pick<LaunchOptions, 'instanceName' | 'profileDirectory'> | null = null;
 
   constructor(port: number = DEFAULT_PORT) {
     this.port = port;
@@ -214,6 +222,11 @@ export class ChromeLauncher {
    */
   async ensureChrome(options: LaunchOptions = {}): Promise<ChromeInstance> {
     const port = options.port || this.port;
+    if (options.instanceName) {
+      this.dedicatedProfile = { instanceName: options.instanceName, profileDirectory: options.profileDirectory };
+    } else if (this.dedicatedProfile) {
+      options = { ...options, ...this.dedicatedProfile };
+    }
 
     // Check if already connected and instance is still valid
     if (this.instance) {
@@ -363,14 +376,20 @@ export class ChromeLauncher {
       ? this.isProfileLocked(realProfileDir)
       : false;
 
-    const resolution = this.profileManager.resolveProfile({
-      realProfileDir,
-      isProfileLocked: isLocked,
-      explicitUserDataDir,
-      useTempProfile: options.useTempProfile,
-      usingHeadlessShell,
-      isAutoLaunch: true,  // Chrome 136+: force non-default --user-data-dir
-    });
+    const resolution = options.instanceName && !options.userDataDir
+      ? this.profileManager.resolveProfileInstance({
+        instanceName: options.instanceName,
+        realProfileDir,
+        profileDirectory: options.profileDirectory,
+      })
+      : this.profileManager.resolveProfile({
+        realProfileDir,
+        isProfileLocked: isLocked,
+        explicitUserDataDir,
+        useTempProfile: options.useTempProfile,
+        usingHeadlessShell,
+        isAutoLaunch: true,  // Chrome 136+: force non-default --user-data-dir
+      });
 
     const userDataDir = resolution.userDataDir;
     const profileType = resolution.profileType;
@@ -380,17 +399,19 @@ export class ChromeLauncher {
     // After oc_stop force-kills Chrome, stale locks and crashed exit_type
     // can leave the profile in a degraded state.
     // Non-fatal: a stale lock is better than a failed launch.
+    const profileDirectory = options.instanceName
+      ? options.profileDirectory
+      : options.profileDirectory || globalConfig.profileDirectory;
+
     if (profileType === 'persistent') {
       try {
-        const profileSubdir = options.profileDirectory || globalConfig.profileDirectory || 'Default';
+        const profileSubdir = profileDirectory || 'Default';
         this.profileManager.cleanStaleLocks(userDataDir, profileSubdir);
       } catch (err) {
         console.error('[ChromeLauncher] cleanStaleLocks failed (non-fatal):', err);
       }
     }
 
-    const profileDirectory = options.profileDirectory || globalConfig.profileDirectory;
-
     // Track profile state for MCP consumers
     this.profileState = {
       type: profileType,
@@ -887,16 +908,17 @@ export class ChromeLauncher {
   }
 }
 
-// Singleton instance
-let launcherInstance: ChromeLauncher | null = null;
+// One launcher per debugging port: the primary instance plus any pooled/profile instances.
+// Keeping them apart preserves each instance's profile state when clients on different
+// ports reconnect.
+const launchers: Map<number, ChromeLauncher> = new Map();
 
 export function getChromeLauncher(port?: number): ChromeLauncher {
   const resolvedPort = port || DEFAULT_PORT;
-  if (!launcherInstance || launcherInstance.getPort() !== resolvedPort) {
-    if (launcherInstance) {
-      console.error(`[ChromeLauncher] Replacing singleton (port ${launcherInstance.getPort()} → ${resolvedPort})`);
-    }
-    launcherInstance = new ChromeLauncher(resolvedPort);
+  let launcher = launchers.get(resolvedPort);
+  if (!launcher) {
+    launcher = new ChromeLauncher(resolvedPort);
+    launchers.set(resolvedPort, launcher);
   }
-  return launcherInstance;
+  return launcher;
 }
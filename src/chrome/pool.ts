@@ -4,7 +4,9 @@
  */
 
 import * as http from 'http';
-import { ChromeLauncher, ChromeInstance, LaunchOptions } from './launcher';
+import { ChromeLauncher, ChromeInstance, LaunchOptions, getChromeLauncher } from './launcher';
+import { ProfileManager } from './profile-manager';
+import { getGlobalConfig } from '../config/global';
 
 export interface ChromePoolConfig {
   maxInstances: number; // default: 5
@@ -18,6 +20,8 @@ export interface PooledInstance {
   origins: Set<string>;  // origins currently using this instance
   tabCount: number;
   isPreExisting: boolean; // was it already running when we found it?
+  profile?: string;       // profile this instance is dedicated to (directory name, or a custom name)
+  profileName?: string;   // display name from Chrome's Local State, when it is a real Chrome profile
 }
 
 const DEFAULT_POOL_CONFIG: ChromePoolConfig = {
@@ -64,6 +68,7 @@ async function checkDebugPort(port: number): Promise<boolean> {
 export class ChromePool {
   private config: ChromePoolConfig;
   private instances: Map<number, PooledInstance> = new Map();
+  private profileLaunches: Map<string, Promise<PooledInstance>> = new Map();
 
   constructor(config: Partial<ChromePoolConfig> = {}) {
     this.config = { ...DEFAULT_POOL_CONFIG, ...config };
@@ -76,6 +81,7 @@ export class ChromePool {
   async acquireInstance(origin: string): Promise<PooledInstance> {
     // 1. Find an existing instance that does NOT have this origin
     for (const [, instance] of this.instances) {
+      if (instance.profile) continue;
       if (!instance.origins.has(origin)) {
         instance.origins.add(origin);
         instance.tabCount++;
@@ -104,6 +110,7 @@ export class ChromePool {
     );
     let leastLoaded: PooledInstance | null = null;
     for (const [, instance] of this.instances) {
+      if (instance.profile) continue;
       if (!leastLoaded || instance.tabCount < leastLoaded.tabCount) {
         leastLoaded = instance;
       }
@@ -118,6 +125,69 @@ export class ChromePool {
     return leastLoaded;
   }
 
+  /**
+   * Acquire the Chrome instance dedicated to a profile, launching one on the next free
+   * port when none is running yet. `profile` is a Chrome profile directory ("Profile 1")
+   * or display name ("Work"); other names get a fresh persistent profile of their own.
+   *
+   * @returns null when the primary instance already runs this profile
+   */
+  async acquireProfileInstance(profile: string): Promise<PooledInstance | null> {
+    const globalConfig = getGlobalConfig();
+    const match = new ProfileManager().findProfile(profile);
+    if (match && !globalConfig.userDataDir && match.directory === (globalConfig.profileDirectory || 'Default')) {
+      return null;
+    }
+
+    const key = match ? match.directory : profile;
+    for (const [, instance] of this.instances) {
+      if (instance.profile === key) {
+        instance.tabCount++;
+        return instance;
+      }
+    }
+
+    let launch = this.profileLaunches.get(key);
+    if (!launch) {
+      if (this.instances.size >= this.config.maxInstances) {
+        throw new Error(
+          `[ChromePool] At max capacity (${this.config.maxInstances}); cannot launch an instance for profile "${profile}"`
+        );
+      }
+      if (!this.config.autoLaunch) {
+        throw new Error(
+          `Profile "${profile}" needs its own Chrome instance. Start the server with --auto-launch to launch it.`
+        );
+      }
+      launch = this.launchProfileInstance(key, match?.name, !!match).finally(() => {
+        this.profileLaunches.delete(key);
+      });
+      this.profileLaunches.set(key, launch);
+    }
+
+    const instance = await launch;
+    instance.tabCount++;
+    return instance;
+  }
+
+  /**
+   * Mark that a worker no longer uses a profile instance. The instance keeps running
+   * so the profile's next session reuses it; cleanup() closes it.
+   */
+  releaseProfileInstance(port: number): void {
+    const instance = this.instances.get(port);
+    if (!instance || !instance.profile) {
+      return;
+    }
+    if (instance.tabCount > 0) {
+      instance.tabCount--;
+    }
+    console.error(
+      `[ChromePool] Released profile "${instance.profile}" on port ${port}. ` +
+        `Remaining workers: ${instance.tabCount}`
+    );
+  }
+
   /**
    * Mark that an origin is no longer using a port.
    */
@@ -205,6 +275,55 @@ export class ChromePool {
     return pooled;
   }
 
+  private async launchProfileInstance(
+    profile: string,
+    profileName: string | undefined,
+    isChromeProfile: boolean
+  ): Promise<PooledInstance> {
+    const port = await this.nextFreeProfilePort();
+    // Registered launcher, so CDP clients connecting to this port share its profile state
+    const launcher = getChromeLauncher(port);
+
+    await launcher.ensureChrome({
+      port,
+      autoLaunch: true,
+      instanceName: profile,
+      ...(isChromeProfile && { profileDirectory: profile }),
+    });
+
+    const pooled: PooledInstance = {
+      port,
+      launcher,
+      origins: new Set(),
+      tabCount: 0,
+      isPreExisting: false,
+      profile,
+      ...(profileName && { profileName }),
+    };
+
+    this.instances.set(port, pooled);
+    console.error(`[ChromePool] Launched instance on port ${port} for profile "${profile}"`);
+    return pooled;
+  }
+
+  /**
+   * Next port above basePort that is neither pooled, the primary instance, nor answering
+   * as a debug port. Profile instances never attach to a Chrome someone else started.
+   */
+  private async nextFreeProfilePort(): Promise<number> {
+    const primaryPort = getGlobalConfig().port;
+    for (let offset = 1; offset < this.config.maxInstances + 10; offset++) {
+      const candidate = this.config.basePort + offset;
+      if (candidate === primaryPort || this.instances.has(candidate)) {
+        continue;
+      }
+      if (!(await checkDebugPort(candidate))) {
+        return candidate;
+      }
+    }
+    throw new Error('[ChromePool] No free debugging port for a profile instance');
+  }
+
   private nextAvailablePort(): number {
     // Find the next port not already in use by our pool
     for (let offset = 0; offset < this.config.maxInstances + 10; offset++) {
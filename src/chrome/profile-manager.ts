@@ -79,6 +79,13 @@ export class ProfileManager {
     'sync-metadata.json'
   );
 
+  /** Root directory for dedicated per-profile instances (multi-profile sessions). */
+  static readonly PROFILE_INSTANCES_DIR = path.join(
+    os.homedir(),
+    '.openchrome',
+    'profiles'
+  );
+
   /** Cookie data is considered fresh if synced within this window (30 min). */
   static readonly COOKIE_FRESHNESS_MS = 30 * 60 * 1000;
 
@@ -144,6 +151,16 @@ export class ProfileManager {
     }
   }
 
+  /**
+   * Find a Chrome profile by directory name ("Profile 1") or display name ("Work").
+   * Directory names match exactly; display names match case-insensitively.
+   */
+  findProfile(name: string, userDataDir?: string): ChromeProfileInfo | undefined {
+    const profiles = this.listProfiles(userDataDir);
+    return profiles.find((p) => p.directory === name)
+      || profiles.find((p) => p.name.toLowerCase() === name.toLowerCase());
+  }
+
   /**
    * Return the persistent profile directory, creating it (including the
    * `Default/` subdirectory) if it does not already exist.
@@ -176,8 +193,12 @@ export class ProfileManager {
    *   mtime or size), OR
    * - The last sync is older than `COOKIE_FRESHNESS_MS`.
    */
-  needsSync(sourceDir: string, profileSubdir: string = 'Default'): boolean {
-    const metadata = this.getSyncMetadata();
+  needsSync(
+    sourceDir: string,
+    profileSubdir: string = 'Default',
+    metadataPath: string = ProfileManager.SYNC_METADATA_PATH
+  ): boolean {
+    const metadata = this.getSyncMetadata(metadataPath);
 
     if (!metadata) {
       return true; // Never synced
@@ -226,7 +247,8 @@ export class ProfileManager {
   syncProfileData(
     sourceDir: string,
     destDir: string,
-    profileSubdir: string = 'Default'
+    profileSubdir: string = 'Default',
+    metadataPath: string = ProfileManager.SYNC_METADATA_PATH
   ): { atomic: boolean; success: boolean } {
     try {
       const destDefault = path.join(destDir, profileSubdir);
@@ -354,7 +376,7 @@ export class ProfileManager {
       }
 
       // --- 4. Update metadata -----------------------------------------------
-      this.updateSyncMetadata(sourceDir, profileSubdir);
+      this.updateSyncMetadata(sourceDir, profileSubdir, metadataPath);
 
       console.error(
         `[ProfileManager] Profile data sync complete (atomic=${atomic}) from ${sourceDir} → ${destDir}`
@@ -375,9 +397,9 @@ export class ProfileManager {
    * @returns Parsed `SyncMetadata` or `null` if the file does not exist or
    *          cannot be parsed.
    */
-  getSyncMetadata(): SyncMetadata | null {
+  getSyncMetadata(metadataPath: string = ProfileManager.SYNC_METADATA_PATH): SyncMetadata | null {
     try {
-      const raw = fs.readFileSync(ProfileManager.SYNC_METADATA_PATH, 'utf8');
+      const raw = fs.readFileSync(metadataPath, 'utf8');
       return JSON.parse(raw) as SyncMetadata;
     } catch {
       return null;
@@ -388,7 +410,11 @@ export class ProfileManager {
    * Persist sync metadata for `sourceDir` using a temp-file + rename pattern
    * to prevent corruption on concurrent writes.
    */
-  updateSyncMetadata(sourceDir: string, profileSubdir: string = 'Default'): void {
+  updateSyncMetadata(
+    sourceDir: string,
+    profileSubdir: string = 'Default',
+    metadataPath: string = ProfileManager.SYNC_METADATA_PATH
+  ): void {
     try {
       // Compute source hash
       const sourceCookiesPath = path.join(sourceDir, profileSubdir, 'Cookies');
@@ -400,7 +426,7 @@ export class ProfileManager {
         // Cookies file missing — leave hash empty
       }
 
-      const existing = this.getSyncMetadata();
+      const existing = this.getSyncMetadata(metadataPath);
       const updated: SyncMetadata = {
         lastSyncTimestamp: Date.now(),
         sourceProfileHash,
@@ -408,8 +434,7 @@ export class ProfileManager {
         sourceProfileDir: sourceDir,
       };
 
-      const metaPath = ProfileManager.SYNC_METADATA_PATH;
-      const metaDir = path.dirname(metaPath);
+      const metaDir = path.dirname(metadataPath);
 
       // Ensure parent directory exists
       if (!fs.existsSync(metaDir)) {
@@ -417,9 +442,9 @@ export class ProfileManager {
       }
 
       // Atomic write: write to temp file, then rename
-      const tmpPath = `${metaPath}.tmp-${Date.now()}`;
+      const tmpPath = `${metadataPath}.tmp-${Date.now()}`;
       fs.writeFileSync(tmpPath, JSON.stringify(updated, null, 2), 'utf8');
-      fs.renameSync(tmpPath, metaPath);
+      fs.renameSync(tmpPath, metadataPath);
     } catch (err) {
       console.error('[ProfileManager] updateSyncMetadata failed (non-fatal):', err);
     }
@@ -526,6 +551,45 @@ export class ProfileManager {
     };
   }
 
+  /**
+   * Resolve the user data directory for a dedicated per-profile Chrome instance.
+   *
+   * Chrome allows one process per user data directory, so each profile that runs
+   * next to the primary instance gets its own persistent directory under
+   * `PROFILE_INSTANCES_DIR`. When `profileDirectory` names a profile of the real
+   * Chrome install, its cookies and storage are synced in (same freshness rules
+   * as `resolveProfile`, tracked per instance). Without it the instance starts
+   * empty and keeps whatever the user logs into.
+   */
+  resolveProfileInstance(options: {
+    instanceName: string;
+    realProfileDir: string | null;
+    profileDirectory?: string;
+  }): ProfileResolution {
+    const { instanceName, realProfileDir, profileDirectory } = options;
+    const userDataDir = path.join(
+      ProfileManager.PROFILE_INSTANCES_DIR,
+      instanceName.replace(/[^A-Za-z0-9_-]+/g, '-')
+    );
+    fs.mkdirSync(path.join(userDataDir, profileDirectory || 'Default'), { recursive: true });
+
+    let syncPerformed = false;
+    if (realProfileDir && profileDirectory) {
+      const metadataPath = path.join(userDataDir, 'sync-metadata.json');
+      if (this.needsSync(realProfileDir, profileDirectory, metadataPath)) {
+        const syncResult = this.syncProfileData(realProfileDir, userDataDir, profileDirectory, metadataPath);
+        syncPerformed = syncResult.atomic || syncResult.success;
+      }
+    }
+
+    return {
+      userDataDir,
+      profileType: 'persistent',
+      syncPerformed,
+      ...(profileDirectory && { profileDirectory }),
+    };
+  }
+
   /**
    * Remove stale lock files from a profile directory.
    * Called before launching Chrome with the persistent profile to prevent
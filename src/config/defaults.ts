@@ -54,6 +54,9 @@ export const DEFAULT_QUEUE_ITEM_TIMEOUT_MS = 120000;
 /** Global tool execution timeout in milliseconds. Absolute safety net against indefinitely hung handlers. */
 export const DEFAULT_TOOL_EXECUTION_TIMEOUT_MS = 120000;
 
+/** How long a cancelled or timed-out handler gets to stop before the call returns anyway (ms). */
+export const DEFAULT_ABORT_SETTLE_TIMEOUT_MS = 5000;
+
 /** Session initialization timeout (getOrCreateSession). Prevents pre-handler hangs. */
 export const DEFAULT_SESSION_INIT_TIMEOUT_MS = 30000;
 
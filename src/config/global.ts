@@ -2,6 +2,8 @@
  * Global Configuration - Runtime settings for the MCP server
  */
 
+import type { SecurityPolicy } from '../security/policy';
+
 export interface GlobalConfig {
   /** Chrome remote debugging port */
   port: number;
@@ -32,12 +34,20 @@ export interface GlobalConfig {
   };
   /** Security settings */
   security?: {
-    /** Domains to block AI agent access to. Supports glob patterns (e.g., "*.bank.com") */
+    /** Domains to block AI agent access to. Supports glob patterns (e.g., "*.bank.com", "**.bank.com") */
     blocked_domains?: string[];
+    /** Allowlist and per-domain tool permissions, loaded from --policy <file> */
+    policy?: SecurityPolicy;
     /** Enable audit logging of tool invocations (default: false) */
     audit_log?: boolean;
     /** Custom audit log path (default: ~/.openchrome/audit.log) */
     audit_log_path?: string;
+    /** Rotate the audit log when it would exceed this size (default: 10) */
+    audit_log_max_size_mb?: number;
+    /** Rotate the audit log when the UTC day changes (default: true) */
+    audit_log_rotate_daily?: boolean;
+    /** Encrypted secrets vault for {{secret:name}} placeholders (default: ~/.openchrome/secrets.json) */
+    secrets_path?: string;
   };
   /** Hybrid mode settings (Lightpanda + Chrome routing) */
   hybrid?: {
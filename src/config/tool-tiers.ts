@@ -40,17 +40,26 @@ export const TOOL_TIERS: Record<string, ToolTier> = {
   drag_drop: 2,
   network: 2,
   request_intercept: 2,
+  network_record: 2,
   http_auth: 2,
+  totp: 2,
+  request_human: 2,
   user_agent: 2,
   geolocation: 2,
   emulate_device: 2,
   page_pdf: 2,
+  visual_snapshot: 2,
+  a11y_audit: 2,
+  assert: 2,
   page_content: 2,
   console_capture: 2,
   performance_metrics: 2,
   file_upload: 2,
+  downloads: 2,
   batch_execute: 2,
   batch_paginate: 2,
+  extract: 2,
+  detect_records: 2,
 
   // Tier 3: Orchestration only
   workflow_init: 3,
@@ -62,6 +71,7 @@ export const TOOL_TIERS: Record<string, ToolTier> = {
   worker_update: 3,
   worker_complete: 3,
   execute_plan: 3,
+  record_plan: 3,
 };
 
 /** Get the tier for a tool (defaults to 1 if not configured) */
@@ -5,7 +5,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { EventEmitter } from 'events';
-import type { ToolCallEvent, ToolCallResult } from './types.js';
+import type { RecordedRefTarget, ToolCallEvent, ToolCallResult } from './types.js';
 
 export interface ActivityTrackerEvents {
   'call:start': (event: ToolCallEvent) => void;
@@ -53,7 +53,8 @@ export class ActivityTracker extends EventEmitter {
     toolName: string,
     sessionId: string,
     args?: Record<string, unknown>,
-    requestId?: number | string
+    requestId?: number | string,
+    refTarget?: RecordedRefTarget
   ): string {
     const callId = `call-${Date.now()}-${++this.callCounter}`;
 
@@ -65,6 +66,7 @@ export class ActivityTracker extends EventEmitter {
       startTime: Date.now(),
       result: 'pending',
       ...(requestId !== undefined && { requestId }),
+      ...(refTarget && { refTarget }),
     };
 
     this.calls.set(callId, event);
@@ -0,0 +1,178 @@
+/**
+ * Human Requests - Hand a tab to a person and wait until they are done
+ *
+ * `request_human` opens a request for a tab (CAPTCHA, bot check, unusual login step).
+ * While anyone is waiting on an open request the operation gate stays paused, so no
+ * other tool call touches the browser under the person's hands. The web dashboard
+ * lists open requests and completes them when the person clicks "Done".
+ */
+
+import { EventEmitter } from 'events';
+import { OperationController, getOperationController } from './operation-controller.js';
+
+/** Completed requests kept so a late `request_human` retry still sees the outcome */
+const MAX_COMPLETED_REQUESTS = 20;
+
+export interface HumanRequest {
+  id: string;
+  sessionId: string;
+  tabId: string;
+  reason: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface HumanRequestRegistryEvents {
+  'changed': (open: HumanRequest[]) => void;
+}
+
+export type HumanWaitOutcome = 'done' | 'timeout';
+
+export class HumanRequestRegistry extends EventEmitter {
+  private requests: Map<string, HumanRequest> = new Map();
+  private waiters: Map<string, Set<() => void>> = new Map();
+  private counter = 0;
+  /** Waits in progress. The gate is paused by us while this is above zero. */
+  private activeWaits = 0;
+  private pausedGate = false;
+
+  constructor(private readonly controller: OperationController = getOperationController()) {
+    super();
+  }
+
+  /**
+   * Open a request for a tab. An open request for the same tab is reused.
+   */
+  open(sessionId: string, tabId: string, reason: string): HumanRequest {
+    for (const request of this.requests.values()) {
+      if (request.tabId === tabId && request.completedAt === undefined) {
+        return request;
+      }
+    }
+    const request: HumanRequest = {
+      id: `human-${Date.now()}-${++this.counter}`,
+      sessionId,
+      tabId,
+      reason,
+      createdAt: Date.now(),
+    };
+    this.requests.set(request.id, request);
+    this.emitChanged();
+    return request;
+  }
+
+  get(id: string): HumanRequest | undefined {
+    return this.requests.get(id);
+  }
+
+  /**
+   * Requests still waiting for a person, oldest first
+   */
+  getOpen(): HumanRequest[] {
+    return Array.from(this.requests.values()).filter(r => r.completedAt === undefined);
+  }
+
+  /**
+   * Mark a request done and wake everyone waiting on it.
+   * Returns false for unknown or already completed requests.
+   */
+  complete(id: string): boolean {
+    const request = this.requests.get(id);
+    if (!request || request.completedAt !== undefined) return false;
+
+    request.completedAt = Date.now();
+    for (const wake of this.waiters.get(id) || []) {
+      wake();
+    }
+    this.waiters.delete(id);
+    this.pruneCompleted();
+    this.emitChanged();
+    return true;
+  }
+
+  /**
+   * Wait until the request is completed, the timeout passes or the signal aborts.
+   * The operation gate is held paused for the duration, unless it was already paused.
+   */
+  async wait(id: string, timeoutMs: number, signal?: AbortSignal): Promise<HumanWaitOutcome> {
+    const request = this.requests.get(id);
+    if (!request) {
+      throw new Error(`Unknown human request: ${id}`);
+    }
+    if (request.completedAt !== undefined) return 'done';
+
+    this.holdGate();
+    let wake: (() => void) | undefined;
+    let tid: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+      return await new Promise<HumanWaitOutcome>((resolve, reject) => {
+        wake = () => resolve('done');
+        let waiters = this.waiters.get(id);
+        if (!waiters) {
+          waiters = new Set();
+          this.waiters.set(id, waiters);
+        }
+        waiters.add(wake);
+
+        tid = setTimeout(() => resolve('timeout'), timeoutMs);
+        if (signal) {
+          onAbort = () => reject(signal.reason instanceof Error ? signal.reason : new Error('Request cancelled'));
+          if (signal.aborted) {
+            onAbort();
+          } else {
+            signal.addEventListener('abort', onAbort, { once: true });
+          }
+        }
+      });
+    } finally {
+      clearTimeout(tid);
+      if (signal && onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      if (wake) {
+        this.waiters.get(id)?.delete(wake);
+      }
+      this.releaseGate();
+    }
+  }
+
+  private holdGate(): void {
+    if (this.activeWaits++ === 0 && !this.controller.isPaused) {
+      this.controller.pause();
+      this.pausedGate = true;
+    }
+  }
+
+  private releaseGate(): void {
+    if (--this.activeWaits === 0 && this.pausedGate) {
+      this.pausedGate = false;
+      this.controller.resume();
+    }
+  }
+
+  private pruneCompleted(): void {
+    const completed = Array.from(this.requests.values()).filter(r => r.completedAt !== undefined);
+    for (const request of completed.slice(0, Math.max(0, completed.length - MAX_COMPLETED_REQUESTS))) {
+      this.requests.delete(request.id);
+    }
+  }
+
+  private emitChanged(): void {
+    this.emit('changed', this.getOpen());
+  }
+}
+
+// Singleton instance
+let instance: HumanRequestRegistry | null = null;
+
+export function getHumanRequests(): HumanRequestRegistry {
+  if (!instance) {
+    instance = new HumanRequestRegistry();
+  }
+  return instance;
+}
+
+export function setHumanRequests(registry: HumanRequestRegistry): void {
+  instance = registry;
+}
@@ -380,13 +380,22 @@ export class Dashboard extends EventEmitter {
     }
 
     const sessionInfos = this.sessionManager.getAllSessionInfos();
-    return sessionInfos.map(info => ({
-      id: info.id,
-      workerCount: info.workerCount,
-      tabCount: info.targetCount,
-      createdAt: info.createdAt,
-      lastActivity: info.lastActivityAt,
-    }));
+    return sessionInfos.map(info => {
+      const profiles = new Set<string>();
+      for (const worker of info.workers) {
+        if (worker.profile) {
+          profiles.add(`${worker.profile}:${worker.port}`);
+        }
+      }
+      return {
+        id: info.id,
+        workerCount: info.workerCount,
+        tabCount: info.targetCount,
+        createdAt: info.createdAt,
+        lastActivity: info.lastActivityAt,
+        ...(profiles.size > 0 && { profiles: Array.from(profiles) }),
+      };
+    });
   }
 
   /**
@@ -448,5 +457,8 @@ export { ActivityTracker, getActivityTracker, setActivityTracker } from './activ
 export { OperationController, getOperationController, setOperationController } from './operation-controller.js';
 export { KeyboardHandler, getKeyboardHandler } from './keyboard-handler.js';
 export { Renderer, getRenderer } from './renderer.js';
+export { WebDashboard } from './web-dashboard.js';
+export { HumanRequestRegistry, getHumanRequests, setHumanRequests } from './human-requests.js';
+export type { WebDashboardOptions } from './web-dashboard.js';
 export * from './types.js';
 export * from './ansi.js';
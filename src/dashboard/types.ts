@@ -23,6 +23,18 @@ export interface ToolCallEvent {
   duration?: number;
   result: ToolCallResult;
   error?: string;
+  /** Element a `ref` argument pointed at, or the focused field typed text went to */
+  refTarget?: RecordedRefTarget;
+}
+
+export interface RecordedRefTarget {
+  role: string;
+  name?: string;
+  tagName?: string;
+  textContent?: string;
+  /** `type` attribute of an input, e.g. "password" */
+  inputType?: string;
+  autocomplete?: string;
 }
 
 export interface DashboardStats {
@@ -41,6 +53,8 @@ export interface SessionInfo {
   tabCount: number;
   createdAt: number;
   lastActivity: number;
+  /** Chrome profiles used by the session's workers, as "profile:port" */
+  profiles?: string[];
 }
 
 export interface TabInfo {
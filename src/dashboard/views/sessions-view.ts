@@ -64,6 +64,7 @@ export class SessionsView {
       pad('SESSION ID', 12),
       pad('WORKERS', 8),
       pad('TABS', 6),
+      pad('PROFILE', 18),
       pad('CREATED', 10),
       pad('LAST ACTIVITY', 15),
     ];
@@ -98,10 +99,11 @@ export class SessionsView {
     const id = pad(truncate(session.id, 12), 12);
     const workers = pad(String(session.workerCount), 8);
     const tabs = pad(String(session.tabCount), 6);
+    const profiles = pad(truncate(session.profiles ? session.profiles.join(', ') : '-', 18), 18);
     const created = pad(formatTime(session.createdAt), 10);
     const lastActivity = pad(this.formatRelativeTime(session.lastActivity), 15);
 
-    let content = ` ${id}  ${workers}  ${tabs}  ${created}  ${lastActivity}`;
+    let content = ` ${id}  ${workers}  ${tabs}  ${profiles}  ${created}  ${lastActivity}`;
 
     if (isSelected) {
       content = `${ANSI.inverse}${content}${ANSI.reset}`;
@@ -0,0 +1,559 @@
+/**
+ * Web Dashboard - Local browser view of tool activity, sessions and tabs
+ *
+ * Optional companion to the terminal dashboard, started with `--dashboard-http <port>`:
+ * - GET  /                               Single-page UI
+ * - GET  /events                         SSE stream: snapshot, call:start, call:end, sessions, status
+ * - GET  /api/sessions                   Sessions with their workers and tabs
+ * - GET  /api/tabs/<targetId>/thumbnail  Small JPEG of the tab's viewport
+ * - POST /api/pause, /api/resume         Hold or release new tool calls
+ * - POST /api/calls/<callId>/cancel      Kill a waiting or running tool call
+ * - GET  /tabs/<targetId>                Live view of a tab for human takeover
+ * - WS   /api/tabs/<targetId>/screencast Screencast frames out, mouse/keyboard input in
+ * - POST /api/human/<requestId>/done     Finish a `request_human` hand-off
+ *
+ * Listens on loopback only. Requests must name a loopback Host (DNS rebinding) and,
+ * when the browser sends one, a loopback Origin (cross-site POSTs).
+ */
+
+import * as http from 'http';
+import type { Duplex } from 'stream';
+import type { SessionManager } from '../session-manager';
+import type { SessionEvent, SessionInfo, WorkerInfo } from '../types/session';
+import { getScreenshotScheduler } from '../cdp/screenshot-scheduler';
+import { ScreencastFrame, TabScreencast, parseScreencastInput } from '../cdp/screencast';
+import { WebSocketConnection, acceptWebSocket } from '../transport/websocket';
+import { ActivityTracker } from './activity-tracker.js';
+import { OperationController } from './operation-controller.js';
+import { HumanRequest, HumanRequestRegistry, getHumanRequests } from './human-requests.js';
+import { ToolCallEvent, ToolCallResult } from './types.js';
+import { renderScreencastPage, renderWebDashboardPage } from './web-page.js';
+
+/** Session list refresh (tab URLs change without events) and SSE keep-alive for open streams */
+const SESSIONS_REFRESH_INTERVAL_MS = 5000;
+
+/** Coalesce bursts of session events (worker + tab creation) into one update */
+const SESSIONS_DEBOUNCE_MS = 250;
+
+/** Thumbnails are reused for this long so several open dashboards share one capture */
+const THUMBNAIL_TTL_MS = 2000;
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 50;
+
+/** Completed calls sent with the initial snapshot */
+const SNAPSHOT_RECENT_CALLS = 50;
+
+/** Argument keys safe to show as a call's one-line detail (never typed text or scripts) */
+const DETAIL_ARG_KEYS = ['url', 'selector', 'query', 'ref', 'tabId'];
+const MAX_DETAIL_LENGTH = 100;
+
+/** Screencast frames are dropped while this much is still queued for a slow viewer */
+const MAX_SCREENCAST_BACKLOG_BYTES = 1024 * 1024;
+
+const PAGE_CSP = "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src 'self' data:";
+
+export interface WebDashboardOptions {
+  /** TCP port to listen on on 127.0.0.1 (0 = ephemeral, useful for tests) */
+  port: number;
+}
+
+/** Tool call as shown in the browser. Arguments are reduced to a one-line detail. */
+export interface WebCallEvent {
+  id: string;
+  toolName: string;
+  sessionId: string;
+  startTime: number;
+  endTime?: number;
+  duration?: number;
+  result: ToolCallResult;
+  error?: string;
+  detail?: string;
+}
+
+export interface WebTabInfo {
+  targetId: string;
+  url: string;
+}
+
+export interface WebWorkerInfo extends WorkerInfo {
+  tabs: WebTabInfo[];
+}
+
+export interface WebSessionInfo extends Omit<SessionInfo, 'workers'> {
+  workers: WebWorkerInfo[];
+}
+
+interface CachedThumbnail {
+  capturedAt: number;
+  image: Promise<Buffer | null>;
+}
+
+export function toWebCall(call: ToolCallEvent): WebCallEvent {
+  let detail: string | undefined;
+  for (const key of DETAIL_ARG_KEYS) {
+    const value = call.args?.[key];
+    if (typeof value === 'string' && value) {
+      detail = value.length > MAX_DETAIL_LENGTH ? `${value.slice(0, MAX_DETAIL_LENGTH - 1)}…` : value;
+      break;
+    }
+  }
+  return {
+    id: call.id,
+    toolName: call.toolName,
+    sessionId: call.sessionId,
+    startTime: call.startTime,
+    result: call.result,
+    ...(call.endTime !== undefined && { endTime: call.endTime }),
+    ...(call.duration !== undefined && { duration: call.duration }),
+    ...(call.error && { error: call.error }),
+    ...(detail && { detail }),
+  };
+}
+
+export class WebDashboard {
+  private server: http.Server | null = null;
+  private streams: Set<http.ServerResponse> = new Set();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private sessionsDebounce: NodeJS.Timeout | null = null;
+  private thumbnails: Map<string, CachedThumbnail> = new Map();
+  /** Last session list sent, so the periodic refresh only goes out when something changed */
+  private lastSessionsJson = '';
+  private viewers: Set<WebSocketConnection> = new Set();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly activityTracker: ActivityTracker,
+    private readonly operationController: OperationController,
+    private readonly options: WebDashboardOptions,
+    private readonly humanRequests: HumanRequestRegistry = getHumanRequests()
+  ) {}
+
+  /**
+   * Start listening. Resolves with the bound port (differs from options.port when 0).
+   */
+  async start(): Promise<number> {
+    if (this.server) {
+      return this.getPort();
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[WebDashboard] Unhandled request error:', error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal error' });
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.server.on('upgrade', (req: http.IncomingMessage, socket: Duplex) => {
+      this.handleUpgrade(req, socket).catch((error) => {
+        console.error('[WebDashboard] Screencast error:', error);
+        socket.destroy();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, '127.0.0.1', () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.activityTracker.on('call:start', this.onCallStart);
+    this.activityTracker.on('call:end', this.onCallEnd);
+    this.operationController.on('paused', this.onStatusChange);
+    this.operationController.on('resumed', this.onStatusChange);
+    this.humanRequests.on('changed', this.onHumanRequestsChange);
+    this.sessionManager.addEventListener(this.onSessionEvent);
+
+    this.refreshTimer = setInterval(() => {
+      if (this.streams.size === 0) return;
+      for (const stream of this.streams) {
+        stream.write(': keepalive\n\n');
+      }
+      void this.broadcastSessions();
+    }, SESSIONS_REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+
+    const port = this.getPort();
+    console.error(`[WebDashboard] Listening on http://127.0.0.1:${port}/`);
+    return port;
+  }
+
+  /**
+   * Stop listening, detach from the tracker and close all open streams.
+   */
+  async stop(): Promise<void> {
+    this.activityTracker.off('call:start', this.onCallStart);
+    this.activityTracker.off('call:end', this.onCallEnd);
+    this.operationController.off('paused', this.onStatusChange);
+    this.operationController.off('resumed', this.onStatusChange);
+    this.humanRequests.off('changed', this.onHumanRequestsChange);
+    this.sessionManager.removeEventListener(this.onSessionEvent);
+
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.sessionsDebounce) {
+      clearTimeout(this.sessionsDebounce);
+      this.sessionsDebounce = null;
+    }
+
+    for (const stream of this.streams) {
+      stream.end();
+    }
+    this.streams.clear();
+    this.thumbnails.clear();
+    for (const viewer of this.viewers) {
+      viewer.close(1001);
+    }
+    this.viewers.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections?.();
+      });
+    }
+  }
+
+  /**
+   * Get the bound port (0 if not listening)
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+
+  /**
+   * Sessions with their workers and tabs. Reads pages without refreshing session TTLs.
+   */
+  async collectSessions(): Promise<WebSessionInfo[]> {
+    return Promise.all(this.sessionManager.getAllSessionInfos().map(async (session) => ({
+      ...session,
+      workers: await Promise.all(session.workers.map(async (worker) => ({
+        ...worker,
+        tabs: await this.collectTabs(session.id, worker.id),
+      }))),
+    })));
+  }
+
+  // ==================== EVENT FORWARDING ====================
+
+  private readonly onCallStart = (call: ToolCallEvent): void => {
+    this.broadcast('call:start', toWebCall(call));
+  };
+
+  private readonly onCallEnd = (call: ToolCallEvent): void => {
+    this.broadcast('call:end', toWebCall(call));
+  };
+
+  private readonly onStatusChange = (): void => {
+    this.broadcast('status', this.operationController.getStatus());
+  };
+
+  private readonly onHumanRequestsChange = (open: HumanRequest[]): void => {
+    this.broadcast('human', open);
+  };
+
+  private readonly onSessionEvent = (event: SessionEvent): void => {
+    if (event.targetId && event.type !== 'session:target-added') {
+      this.thumbnails.delete(event.targetId);
+    }
+    if (this.streams.size === 0 || this.sessionsDebounce) return;
+    this.sessionsDebounce = setTimeout(() => {
+      this.sessionsDebounce = null;
+      void this.broadcastSessions();
+    }, SESSIONS_DEBOUNCE_MS);
+    this.sessionsDebounce.unref();
+  };
+
+  private async broadcastSessions(): Promise<void> {
+    try {
+      const json = JSON.stringify(await this.collectSessions());
+      if (json === this.lastSessionsJson) return;
+      this.lastSessionsJson = json;
+      for (const stream of this.streams) {
+        this.writeSseData(stream, 'sessions', json);
+      }
+    } catch (error) {
+      console.error('[WebDashboard] Failed to collect sessions:', error);
+    }
+  }
+
+  private broadcast(event: string, data: unknown): void {
+    for (const stream of this.streams) {
+      this.writeSseEvent(stream, event, data);
+    }
+  }
+
+  // ==================== REQUEST HANDLING ====================
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.isRequestAllowed(req)) {
+      this.sendJson(res, 403, { error: 'Forbidden' });
+      return;
+    }
+
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET') {
+      if (pathname === '/') {
+        this.sendHtml(res, renderWebDashboardPage());
+        return;
+      }
+      if (/^\/tabs\/[^/]+$/.test(pathname)) {
+        this.sendHtml(res, renderScreencastPage());
+        return;
+      }
+      if (pathname === '/events') {
+        await this.handleEvents(req, res);
+        return;
+      }
+      if (pathname === '/api/sessions') {
+        this.sendJson(res, 200, { sessions: await this.collectSessions() });
+        return;
+      }
+      const thumbnail = pathname.match(/^\/api\/tabs\/([^/]+)\/thumbnail$/);
+      if (thumbnail) {
+        await this.handleThumbnail(decodeURIComponent(thumbnail[1]), res);
+        return;
+      }
+    } else if (req.method === 'POST') {
+      if (pathname === '/api/pause') {
+        this.operationController.pause();
+        this.sendJson(res, 200, this.operationController.getStatus());
+        return;
+      }
+      if (pathname === '/api/resume') {
+        this.operationController.resume();
+        this.sendJson(res, 200, this.operationController.getStatus());
+        return;
+      }
+      const cancel = pathname.match(/^\/api\/calls\/([^/]+)\/cancel$/);
+      if (cancel) {
+        this.handleCancel(decodeURIComponent(cancel[1]), res);
+        return;
+      }
+      const done = pathname.match(/^\/api\/human\/([^/]+)\/done$/);
+      if (done) {
+        const id = decodeURIComponent(done[1]);
+        if (this.humanRequests.complete(id)) {
+          this.sendJson(res, 200, { completed: id });
+        } else {
+          this.sendJson(res, 404, { error: `No open human request ${id}` });
+        }
+        return;
+      }
+    } else {
+      res.writeHead(405, { Allow: 'GET, POST' }).end();
+      return;
+    }
+
+    this.sendJson(res, 404, { error: 'Not found' });
+  }
+
+  private async handleEvents(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    this.streams.add(res);
+    req.on('close', () => {
+      this.streams.delete(res);
+    });
+
+    // Calls are read after the await, so nothing forwarded meanwhile is older than the snapshot
+    const sessions = await this.collectSessions();
+    this.writeSseEvent(res, 'snapshot', {
+      status: this.operationController.getStatus(),
+      active: this.activityTracker.getActiveCalls().map(toWebCall),
+      recent: this.activityTracker.getRecentCalls(SNAPSHOT_RECENT_CALLS).map(toWebCall),
+      sessions,
+      humanRequests: this.humanRequests.getOpen(),
+    });
+  }
+
+  /**
+   * Screencast WebSocket: frames go out as JSON text messages, input comes back the same way
+   */
+  private async handleUpgrade(req: http.IncomingMessage, socket: Duplex): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const match = pathname.match(/^\/api\/tabs\/([^/]+)\/screencast$/);
+    if (!this.isRequestAllowed(req) || !match) {
+      socket.end(`HTTP/1.1 ${match ? '403 Forbidden' : '404 Not Found'}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+
+    const targetId = decodeURIComponent(match[1]);
+    const page = await this.sessionManager.peekPage(targetId);
+    if (!page) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const viewer = acceptWebSocket(req, socket);
+    if (!viewer) return;
+    this.viewers.add(viewer);
+
+    const screencast = new TabScreencast(page);
+    screencast.on('frame', (frame: ScreencastFrame) => {
+      if (viewer.bufferedAmount < MAX_SCREENCAST_BACKLOG_BYTES) {
+        viewer.send(JSON.stringify({ type: 'frame', ...frame }));
+      }
+    });
+    viewer.on('message', (message: string) => {
+      let input;
+      try {
+        input = parseScreencastInput(JSON.parse(message));
+      } catch {
+        input = null;
+      }
+      if (input) {
+        screencast.dispatch(input).catch((error) => {
+          console.error(`[WebDashboard] Input to ${targetId} failed:`, error);
+        });
+      }
+    });
+    viewer.on('close', () => {
+      this.viewers.delete(viewer);
+      void screencast.stop();
+    });
+
+    try {
+      await screencast.start();
+    } catch (error) {
+      console.error(`[WebDashboard] Screencast of ${targetId} failed to start:`, error);
+      viewer.close(1011);
+    }
+  }
+
+  private async handleThumbnail(targetId: string, res: http.ServerResponse): Promise<void> {
+    let image: Buffer | null;
+    try {
+      image = await this.getThumbnail(targetId);
+    } catch (error) {
+      this.sendJson(res, 502, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    if (!image) {
+      this.sendJson(res, 404, { error: `Tab ${targetId} not found` });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'image/jpeg', 'Cache-Control': 'no-store' });
+    res.end(image);
+  }
+
+  private handleCancel(callId: string, res: http.ServerResponse): void {
+    const call = this.activityTracker.getCall(callId);
+    if (!call || call.result !== 'pending') {
+      this.sendJson(res, 404, { error: `No running call ${callId}` });
+      return;
+    }
+    const wasWaiting = this.operationController.cancel(callId);
+    this.sendJson(res, 200, { cancelled: callId, wasWaiting });
+  }
+
+  // ==================== HELPERS ====================
+
+  private async collectTabs(sessionId: string, workerId: string): Promise<WebTabInfo[]> {
+    return Promise.all(this.sessionManager.getWorkerTargetIds(sessionId, workerId).map(async (targetId) => {
+      const page = await this.sessionManager.peekPage(targetId);
+      return { targetId, url: page ? page.url() : '' };
+    }));
+  }
+
+  private getThumbnail(targetId: string): Promise<Buffer | null> {
+    const now = Date.now();
+    for (const [id, cached] of this.thumbnails) {
+      if (now - cached.capturedAt >= THUMBNAIL_TTL_MS) {
+        this.thumbnails.delete(id);
+      }
+    }
+
+    const cached = this.thumbnails.get(targetId);
+    if (cached) {
+      return cached.image;
+    }
+
+    const image = this.captureThumbnail(targetId);
+    this.thumbnails.set(targetId, { capturedAt: now, image });
+    image.catch(() => this.thumbnails.delete(targetId));
+    return image;
+  }
+
+  private async captureThumbnail(targetId: string): Promise<Buffer | null> {
+    const page = await this.sessionManager.peekPage(targetId);
+    if (!page) return null;
+
+    const cdpClient = this.sessionManager.getCDPClient();
+    const { cssVisualViewport: viewport } = await cdpClient.send<{
+      cssVisualViewport: { pageX: number; pageY: number; clientWidth: number; clientHeight: number };
+    }>(page, 'Page.getLayoutMetrics');
+    const capture = await getScreenshotScheduler().capture(page, cdpClient, {
+      format: 'jpeg',
+      quality: THUMBNAIL_QUALITY,
+      clip: {
+        x: viewport.pageX,
+        y: viewport.pageY,
+        width: viewport.clientWidth,
+        height: viewport.clientHeight,
+        scale: Math.min(1, THUMBNAIL_WIDTH / Math.max(viewport.clientWidth, 1)),
+      },
+    });
+    return Buffer.from(capture.data, 'base64');
+  }
+
+  /**
+   * Guard against DNS rebinding and cross-site requests: the Host must be this
+   * dashboard's loopback address, and so must the Origin when a browser sends one.
+   * Other loopback ports are other local apps, so they are refused too.
+   */
+  private isRequestAllowed(req: http.IncomingMessage): boolean {
+    if (!req.headers.host || !this.isOwnOrigin(`http://${req.headers.host}`)) {
+      return false;
+    }
+    return !req.headers.origin || this.isOwnOrigin(req.headers.origin);
+  }
+
+  private isOwnOrigin(url: string): boolean {
+    try {
+      const { protocol, hostname, port } = new URL(url);
+      const loopback = hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+      return protocol === 'http:' && loopback && Number(port || 80) === this.getPort();
+    } catch {
+      return false;
+    }
+  }
+
+  private writeSseEvent(res: http.ServerResponse, event: string, data: unknown): void {
+    this.writeSseData(res, event, JSON.stringify(data));
+  }
+
+  private writeSseData(res: http.ServerResponse, event: string, json: string): void {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${json}\n\n`);
+    }
+  }
+
+  private sendHtml(res: http.ServerResponse, html: string): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'Content-Security-Policy': PAGE_CSP,
+    });
+    res.end(html);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
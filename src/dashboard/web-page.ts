@@ -0,0 +1,352 @@
+/**
+ * Web Dashboard Page - Self-contained HTML for the web dashboard and the live tab view
+ *
+ * No build step or external assets. The dashboard renders the /events stream and the
+ * live view renders screencast frames; tab URLs and page text go in with textContent only.
+ */
+
+const STYLE = `
+  body { margin: 0; font: 13px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #0f1115; color: #d8dde6; }
+  header { display: flex; align-items: center; gap: 12px; padding: 10px 16px; background: #171a21; border-bottom: 1px solid #262b36; }
+  header h1 { font-size: 15px; margin: 0; flex: 1; }
+  main { display: grid; grid-template-columns: minmax(0, 3fr) minmax(0, 2fr); gap: 16px; padding: 16px; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: .05em; color: #8a93a6; margin: 0 0 8px; }
+  section { margin-bottom: 20px; }
+  button { background: #262b36; color: #d8dde6; border: 1px solid #3a4150; border-radius: 4px; padding: 3px 10px; cursor: pointer; }
+  button:hover { background: #323846; }
+  .status { font-weight: 600; }
+  .status.running { color: #4ade80; }
+  .status.paused { color: #facc15; }
+  .status.offline { color: #f87171; }
+  .session { background: #171a21; border: 1px solid #262b36; border-radius: 6px; padding: 10px; margin-bottom: 10px; }
+  .session-title { font-weight: 600; margin-bottom: 6px; }
+  .worker { margin: 6px 0 0 8px; color: #8a93a6; }
+  .tabs { display: flex; flex-wrap: wrap; gap: 8px; margin: 6px 0 0 8px; }
+  .tab { width: 200px; }
+  .tab img { width: 200px; height: 125px; object-fit: cover; object-position: top; background: #262b36; border-radius: 4px; display: block; }
+  .tab .url, .call .detail { color: #8a93a6; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .call { display: grid; grid-template-columns: 70px minmax(0, 1fr) auto; gap: 8px; align-items: center; padding: 4px 0; border-bottom: 1px solid #1e222b; }
+  .call .time { color: #8a93a6; font-variant-numeric: tabular-nums; }
+  .call.error .tool { color: #f87171; }
+  .call.pending .tool { color: #60a5fa; }
+  .empty { color: #5b6375; }
+  .human { background: #3b2f0b; border: 1px solid #854d0e; border-radius: 6px; padding: 8px 10px; margin-bottom: 8px; display: flex; gap: 10px; align-items: center; }
+  .human .reason { flex: 1; }
+  a { color: #60a5fa; }
+`;
+
+const SCRIPT = `
+  const THUMBNAIL_REFRESH_MS = 3000;
+  const MAX_RECENT = 100;
+  const state = { status: null, active: new Map(), recent: [], sessions: [], human: [] };
+  const $ = (id) => document.getElementById(id);
+
+  function el(tag, className, text) {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function post(path) {
+    return fetch(path, { method: 'POST' }).catch(() => {});
+  }
+
+  function formatTime(ms) {
+    return new Date(ms).toLocaleTimeString([], { hour12: false });
+  }
+
+  function renderStatus(connected) {
+    const label = $('status');
+    const toggle = $('toggle');
+    if (!connected) {
+      label.textContent = 'disconnected';
+      label.className = 'status offline';
+      toggle.disabled = true;
+      return;
+    }
+    const paused = state.status && state.status.isPaused;
+    label.textContent = paused ? 'paused' : 'running';
+    label.className = 'status ' + (paused ? 'paused' : 'running');
+    toggle.disabled = false;
+    toggle.textContent = paused ? 'Resume' : 'Pause';
+  }
+
+  function renderCall(call, withKill) {
+    const row = el('div', 'call ' + call.result);
+    row.appendChild(el('span', 'time', call.duration !== undefined ? call.duration + 'ms' : formatTime(call.startTime)));
+    const body = el('div');
+    body.appendChild(el('div', 'tool', call.toolName + '  ·  ' + call.sessionId));
+    if (call.detail || call.error) body.appendChild(el('div', 'detail', call.error || call.detail));
+    row.appendChild(body);
+    if (withKill) {
+      const kill = el('button', '', 'Kill');
+      kill.onclick = () => post('/api/calls/' + encodeURIComponent(call.id) + '/cancel');
+      row.appendChild(kill);
+    } else {
+      row.appendChild(el('span'));
+    }
+    return row;
+  }
+
+  function renderCalls() {
+    const active = $('active');
+    active.replaceChildren();
+    if (state.active.size === 0) active.appendChild(el('div', 'empty', 'No tool calls running'));
+    for (const call of state.active.values()) active.appendChild(renderCall(call, true));
+
+    const recent = $('recent');
+    recent.replaceChildren();
+    if (state.recent.length === 0) recent.appendChild(el('div', 'empty', 'No tool calls yet'));
+    for (const call of state.recent) recent.appendChild(renderCall(call, false));
+  }
+
+  function thumbnailUrl(targetId) {
+    return '/api/tabs/' + encodeURIComponent(targetId) + '/thumbnail?t=' + Date.now();
+  }
+
+  function renderHuman() {
+    const container = $('human');
+    container.replaceChildren();
+    $('human-section').hidden = state.human.length === 0;
+    for (const request of state.human) {
+      const row = el('div', 'human');
+      row.appendChild(el('span', 'reason', request.reason + '  ·  ' + request.sessionId));
+      const open = el('a', '', 'Take over');
+      open.href = '/tabs/' + encodeURIComponent(request.tabId) + '?request=' + encodeURIComponent(request.id);
+      open.target = '_blank';
+      row.appendChild(open);
+      const done = el('button', '', 'Done');
+      done.onclick = () => post('/api/human/' + encodeURIComponent(request.id) + '/done');
+      row.appendChild(done);
+      container.appendChild(row);
+    }
+  }
+
+  function renderSessions() {
+    const container = $('sessions');
+    container.replaceChildren();
+    if (state.sessions.length === 0) container.appendChild(el('div', 'empty', 'No sessions'));
+    for (const session of state.sessions) {
+      const box = el('div', 'session');
+      box.appendChild(el('div', 'session-title', session.name + ' (' + session.id + ')'));
+      for (const worker of session.workers) {
+        const profile = worker.profile ? '  ·  profile ' + worker.profile : '';
+        box.appendChild(el('div', 'worker', 'Worker ' + worker.name + profile + '  ·  ' + worker.tabs.length + ' tab(s)'));
+        const tabs = el('div', 'tabs');
+        for (const tab of worker.tabs) {
+          const card = el('div', 'tab');
+          const link = el('a');
+          link.href = '/tabs/' + encodeURIComponent(tab.targetId);
+          link.target = '_blank';
+          link.title = 'Open live view';
+          const img = el('img');
+          img.alt = tab.url;
+          img.dataset.targetId = tab.targetId;
+          img.src = thumbnailUrl(tab.targetId);
+          link.appendChild(img);
+          card.appendChild(link);
+          card.appendChild(el('div', 'url', tab.url || tab.targetId));
+          tabs.appendChild(card);
+        }
+        box.appendChild(tabs);
+      }
+      container.appendChild(box);
+    }
+  }
+
+  function connect() {
+    const events = new EventSource('/events');
+    events.addEventListener('snapshot', (e) => {
+      const data = JSON.parse(e.data);
+      state.status = data.status;
+      state.active = new Map(data.active.map((call) => [call.id, call]));
+      state.recent = data.recent;
+      state.sessions = data.sessions;
+      state.human = data.humanRequests;
+      renderStatus(true);
+      renderCalls();
+      renderSessions();
+      renderHuman();
+    });
+    events.addEventListener('human', (e) => {
+      state.human = JSON.parse(e.data);
+      renderHuman();
+    });
+    events.addEventListener('call:start', (e) => {
+      const call = JSON.parse(e.data);
+      state.active.set(call.id, call);
+      renderCalls();
+    });
+    events.addEventListener('call:end', (e) => {
+      const call = JSON.parse(e.data);
+      state.active.delete(call.id);
+      state.recent.unshift(call);
+      state.recent.length = Math.min(state.recent.length, MAX_RECENT);
+      renderCalls();
+    });
+    events.addEventListener('status', (e) => {
+      state.status = JSON.parse(e.data);
+      renderStatus(true);
+    });
+    events.addEventListener('sessions', (e) => {
+      state.sessions = JSON.parse(e.data);
+      renderSessions();
+    });
+    events.onerror = () => renderStatus(false);
+  }
+
+  $('toggle').onclick = () => post(state.status && state.status.isPaused ? '/api/resume' : '/api/pause');
+
+  setInterval(() => {
+    if (document.hidden) return;
+    for (const img of document.querySelectorAll('img[data-target-id]')) {
+      img.src = thumbnailUrl(img.dataset.targetId);
+    }
+  }, THUMBNAIL_REFRESH_MS);
+
+  connect();
+`;
+
+/**
+ * Render the dashboard page
+ */
+export function renderWebDashboardPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>OpenChrome Dashboard</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>OpenChrome</h1>
+  <span id="status" class="status">connecting…</span>
+  <button id="toggle" disabled>Pause</button>
+</header>
+<main>
+  <div>
+    <section id="human-section" hidden><h2>Needs a human</h2><div id="human"></div></section>
+    <section><h2>Sessions</h2><div id="sessions"></div></section>
+  </div>
+  <div>
+    <section><h2>Running</h2><div id="active"></div></section>
+    <section><h2>Recent</h2><div id="recent"></div></section>
+  </div>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+const SCREENCAST_STYLE = `
+  body { margin: 0; font: 13px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #0f1115; color: #d8dde6; }
+  header { display: flex; align-items: center; gap: 12px; padding: 8px 16px; background: #171a21; border-bottom: 1px solid #262b36; }
+  header .info { flex: 1; color: #8a93a6; }
+  button { background: #15803d; color: #fff; border: 0; border-radius: 4px; padding: 5px 14px; cursor: pointer; font-weight: 600; }
+  button[hidden] { display: none; }
+  #screen { display: block; margin: 12px auto; max-width: calc(100vw - 24px); max-height: calc(100vh - 70px); cursor: default; outline: none; background: #171a21; }
+`;
+
+const SCREENCAST_SCRIPT = `
+  const params = new URLSearchParams(location.search);
+  const targetId = decodeURIComponent(location.pathname.split('/').pop());
+  const requestId = params.get('request');
+  const screen = document.getElementById('screen');
+  const info = document.getElementById('info');
+  const done = document.getElementById('done');
+  let socket = null;
+
+  function modifiers(e) {
+    return (e.altKey ? 1 : 0) | (e.ctrlKey ? 2 : 0) | (e.metaKey ? 4 : 0) | (e.shiftKey ? 8 : 0);
+  }
+
+  function send(input) {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(input));
+  }
+
+  function position(e) {
+    const rect = screen.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  }
+
+  const BUTTONS = ['left', 'middle', 'right'];
+  screen.addEventListener('mousedown', (e) => {
+    screen.focus();
+    send({ type: 'mouse', action: 'down', button: BUTTONS[e.button] || 'left', clickCount: e.detail || 1, modifiers: modifiers(e), ...position(e) });
+    e.preventDefault();
+  });
+  screen.addEventListener('mouseup', (e) => {
+    send({ type: 'mouse', action: 'up', button: BUTTONS[e.button] || 'left', clickCount: e.detail || 1, modifiers: modifiers(e), ...position(e) });
+  });
+  screen.addEventListener('mousemove', (e) => {
+    send({ type: 'mouse', action: 'move', button: e.buttons & 1 ? 'left' : 'none', modifiers: modifiers(e), ...position(e) });
+  });
+  screen.addEventListener('wheel', (e) => {
+    send({ type: 'mouse', action: 'wheel', deltaX: e.deltaX, deltaY: e.deltaY, modifiers: modifiers(e), ...position(e) });
+    e.preventDefault();
+  }, { passive: false });
+  screen.addEventListener('contextmenu', (e) => e.preventDefault());
+  screen.addEventListener('keydown', (e) => {
+    send({ type: 'key', action: 'down', key: e.key, code: e.code, keyCode: e.keyCode, modifiers: modifiers(e) });
+    e.preventDefault();
+  });
+  screen.addEventListener('keyup', (e) => {
+    send({ type: 'key', action: 'up', key: e.key, code: e.code, keyCode: e.keyCode, modifiers: modifiers(e) });
+    e.preventDefault();
+  });
+  screen.addEventListener('paste', (e) => {
+    send({ type: 'text', text: e.clipboardData.getData('text') });
+    e.preventDefault();
+  });
+
+  function connect() {
+    socket = new WebSocket((location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + '/api/tabs/' + encodeURIComponent(targetId) + '/screencast');
+    socket.onopen = () => { info.textContent = 'Live: click the page to control it'; };
+    socket.onmessage = (e) => {
+      const message = JSON.parse(e.data);
+      if (message.type === 'frame') screen.src = 'data:image/jpeg;base64,' + message.data;
+    };
+    socket.onclose = () => {
+      info.textContent = 'Disconnected. The tab may have closed.';
+      socket = null;
+    };
+  }
+
+  if (requestId) {
+    done.hidden = false;
+    done.onclick = () => {
+      fetch('/api/human/' + encodeURIComponent(requestId) + '/done', { method: 'POST' }).then((res) => {
+        done.hidden = true;
+        info.textContent = res.ok ? 'Handed back to the agent.' : 'This request was already finished.';
+      });
+    };
+  }
+
+  connect();
+`;
+
+/**
+ * Render the live view of one tab. The tab ID and optional human request ID come from the URL.
+ */
+export function renderScreencastPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>OpenChrome Live View</title>
+<style>${SCREENCAST_STYLE}</style>
+</head>
+<body>
+<header>
+  <span class="info" id="info">Connecting…</span>
+  <button id="done" hidden>Done: hand back to the agent</button>
+</header>
+<img id="screen" tabindex="0" alt="Live view of the tab">
+<script>${SCREENCAST_SCRIPT}</script>
+</body>
+</html>
+`;
+}
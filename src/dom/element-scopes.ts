@@ -0,0 +1,289 @@
+/**
+ * Element Scopes - Element search where the page's own scripts cannot reach
+ *
+ * find, interact and click_element search the page's document and its open
+ * shadow roots in-page. This covers the rest: same-process iframe documents and
+ * closed shadow roots (found in the pierced CDP DOM tree), and the documents of
+ * out-of-process iframes, searched over their own sessions.
+ */
+
+import type { Page } from 'puppeteer-core';
+import { FrameSession, getFrameOffset, getFrameSessions, getNodeScope } from '../cdp/frame-sessions';
+import { FoundElement, INTERACTIVE_SELECTORS, LearnedWeights, scoreElement, tokenizeQuery } from '../utils/element-finder';
+
+export interface ScopedElement extends FoundElement {
+  /** Out-of-process iframe the element is in; undefined for the page's own process */
+  frameId?: string;
+  /** URL of the iframe document the element is in, if any */
+  frameUrl?: string;
+}
+
+// CDPClient interface to avoid circular imports
+interface CDPClientLike {
+  send<T = unknown>(page: Page, method: string, params?: Record<string, unknown>): Promise<T>;
+}
+
+type Send = <T>(method: string, params?: Record<string, unknown>) => Promise<T>;
+
+interface DOMNode {
+  backendNodeId: number;
+  nodeName: string;
+  documentURL?: string;
+  children?: DOMNode[];
+  contentDocument?: DOMNode;
+  shadowRoots?: DOMNode[];
+  shadowRootType?: 'user-agent' | 'open' | 'closed';
+}
+
+interface ScopeRoot {
+  backendNodeId: number;
+  /** Set for iframe documents */
+  documentUrl?: string;
+}
+
+const OBJECT_GROUP = 'openchrome-element-scopes';
+const MAX_RESULTS_PER_SCOPE = 30;
+
+/**
+ * Runs with `this` = a document or shadow root. Searches it and the open shadow
+ * roots under it; returns the matching elements, with their info in `.infos`.
+ */
+const SCOPE_SEARCH_FUNCTION = `function(searchQuery, selectors, maxResults) {
+  const stopWords = ['the', 'a', 'an', 'to', 'for', 'of', 'in', 'on', 'at', 'and', 'or'];
+  const searchLower = searchQuery.toLowerCase();
+  const tokens = searchLower.split(/\\s+/).filter(t => t.length > 1 && !stopWords.includes(t));
+
+  const roots = [this];
+  for (let i = 0; i < roots.length; i++) {
+    for (const el of roots[i].querySelectorAll('*')) {
+      if (el.shadowRoot) roots.push(el.shadowRoot);
+    }
+  }
+
+  const found = [];
+  const infos = [];
+  const seen = new Set();
+  const consider = (el) => {
+    if (seen.has(el) || found.length >= maxResults) return;
+    seen.add(el);
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    const style = window.getComputedStyle(el);
+    if (style.visibility === 'hidden' || style.display === 'none' || style.opacity === '0') return;
+
+    const name = el.getAttribute('aria-label') || el.getAttribute('title') || (el.textContent || '').trim().slice(0, 100) || '';
+    const combined = (name + ' ' + (el.textContent || '') + ' ' + (el.placeholder || '')).toLowerCase();
+    if (!combined.includes(searchLower) && !tokens.some(t => combined.includes(t))) return;
+
+    const isContentEditable = el.getAttribute('contenteditable') === 'true';
+    const role = el.getAttribute('role') ||
+      (el.tagName === 'BUTTON' ? 'button' : el.tagName === 'A' ? 'link'
+        : el.tagName === 'INPUT' ? (el.type || 'textbox')
+        : isContentEditable ? 'textbox' : el.tagName.toLowerCase());
+    found.push(el);
+    infos.push({
+      backendDOMNodeId: 0,
+      role,
+      name,
+      tagName: el.tagName.toLowerCase(),
+      type: el.type,
+      placeholder: el.placeholder,
+      ariaLabel: el.getAttribute('aria-label') || undefined,
+      textContent: (el.textContent || '').trim().slice(0, 50),
+      rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+      score: 0,
+    });
+  };
+
+  for (const selector of selectors) {
+    for (const root of roots) {
+      try {
+        root.querySelectorAll(selector).forEach(consider);
+      } catch (e) {
+        // Invalid selector
+      }
+    }
+  }
+  for (const root of roots) {
+    root.querySelectorAll('*').forEach(consider);
+  }
+
+  found.infos = infos;
+  return found;
+}`;
+
+/**
+ * Iframe documents and closed shadow roots in a pierced DOM tree. Open shadow
+ * roots are searched together with the document that hosts them.
+ */
+function collectScopeRoots(node: DOMNode, roots: ScopeRoot[]): void {
+  if (node.contentDocument) {
+    roots.push({ backendNodeId: node.contentDocument.backendNodeId, documentUrl: node.contentDocument.documentURL });
+    collectScopeRoots(node.contentDocument, roots);
+  }
+  for (const shadowRoot of node.shadowRoots || []) {
+    if (shadowRoot.shadowRootType === 'closed') {
+      roots.push({ backendNodeId: shadowRoot.backendNodeId });
+    }
+    collectScopeRoots(shadowRoot, roots);
+  }
+  for (const child of node.children || []) {
+    collectScopeRoots(child, roots);
+  }
+}
+
+/**
+ * Run the search in one document or shadow root. Rects are in the coordinates
+ * of the session's viewport (the page, or the OOPIF).
+ */
+async function searchRoot(send: Send, root: ScopeRoot, query: string): Promise<ScopedElement[]> {
+  const { object } = await send<{ object?: { objectId?: string } }>('DOM.resolveNode', {
+    backendNodeId: root.backendNodeId,
+    objectGroup: OBJECT_GROUP,
+  });
+  if (!object?.objectId) return [];
+
+  const { result: matches } = await send<{ result?: { objectId?: string } }>('Runtime.callFunctionOn', {
+    objectId: object.objectId,
+    functionDeclaration: SCOPE_SEARCH_FUNCTION,
+    arguments: [{ value: query }, { value: INTERACTIVE_SELECTORS }, { value: MAX_RESULTS_PER_SCOPE }],
+    objectGroup: OBJECT_GROUP,
+  });
+  if (!matches?.objectId) return [];
+
+  const { result: infoResult } = await send<{ result?: { value?: ScopedElement[] } }>('Runtime.callFunctionOn', {
+    objectId: matches.objectId,
+    functionDeclaration: 'function() { return this.infos; }',
+    returnByValue: true,
+  });
+  const infos = infoResult?.value || [];
+  if (infos.length === 0) return [];
+
+  const { result: properties } = await send<{ result: Array<{ name: string; value?: { objectId?: string } }> }>(
+    'Runtime.getProperties',
+    { objectId: matches.objectId, ownProperties: true }
+  );
+
+  await Promise.all(properties.map(async (prop) => {
+    const index = parseInt(prop.name, 10);
+    if (isNaN(index) || index >= infos.length || !prop.value?.objectId) return;
+    try {
+      const { node } = await send<{ node: { backendNodeId: number } }>('DOM.describeNode', { objectId: prop.value.objectId });
+      // Element rects are relative to their own iframe; the box model is relative to the session's viewport
+      const { model } = await send<{ model: { border: number[]; width: number; height: number } }>('DOM.getBoxModel', {
+        backendNodeId: node.backendNodeId,
+      });
+      infos[index].backendDOMNodeId = node.backendNodeId;
+      infos[index].rect = { x: model.border[0], y: model.border[1], width: model.width, height: model.height };
+    } catch {
+      // Element went away or has no layout
+    }
+  }));
+
+  return infos
+    .filter((info) => info.backendDOMNodeId)
+    .map((info) => (root.documentUrl ? { ...info, frameUrl: root.documentUrl } : info));
+}
+
+/**
+ * Search every scope of one session: its iframe documents and closed shadow
+ * roots, plus its own document for OOPIFs
+ */
+async function searchSession(send: Send, query: string, includeDocument: boolean): Promise<ScopedElement[]> {
+  const { root } = await send<{ root?: DOMNode }>('DOM.getDocument', { depth: -1, pierce: true });
+  if (!root) return [];
+
+  const roots: ScopeRoot[] = includeDocument ? [{ backendNodeId: root.backendNodeId, documentUrl: root.documentURL }] : [];
+  collectScopeRoots(root, roots);
+
+  const results: ScopedElement[] = [];
+  try {
+    for (const scopeRoot of roots) {
+      try {
+        results.push(...await searchRoot(send, scopeRoot, query));
+      } catch {
+        // Scope detached while searching
+      }
+    }
+  } finally {
+    await send('Runtime.releaseObjectGroup', { objectGroup: OBJECT_GROUP }).catch(() => {});
+  }
+  return results;
+}
+
+async function searchFrame(page: Page, cdpClient: CDPClientLike, frame: FrameSession, query: string): Promise<ScopedElement[]> {
+  const send: Send = (method, params) => frame.session.send(method as any, params as any) as Promise<any>;
+  const found = await searchSession(send, query, true);
+  if (found.length === 0) return [];
+
+  const offset = await getFrameOffset(page, cdpClient, frame);
+  return found.map((el) => ({
+    ...el,
+    frameId: frame.frameId,
+    frameUrl: el.frameUrl || frame.url,
+    rect: { ...el.rect, x: el.rect.x + offset.x, y: el.rect.y + offset.y },
+  }));
+}
+
+/**
+ * Find elements matching a query in the page's iframes (same- and out-of-process)
+ * and closed shadow roots. Scored like in-page results; rects are top-left in page
+ * coordinates. Never throws: scopes that fail are skipped.
+ */
+export async function searchElementScopes(
+  page: Page,
+  cdpClient: CDPClientLike,
+  query: string,
+  learnedWeights?: LearnedWeights
+): Promise<ScopedElement[]> {
+  const queryLower = query.toLowerCase();
+  const queryTokens = tokenizeQuery(query);
+  const results: ScopedElement[] = [];
+
+  try {
+    results.push(...await searchSession((method, params) => cdpClient.send(page, method, params), queryLower, false));
+  } catch {
+    // The page's tree could not be read; in-page results still stand
+  }
+
+  for (const frame of await getFrameSessions(page)) {
+    try {
+      results.push(...await searchFrame(page, cdpClient, frame, queryLower));
+    } catch {
+      // Frame navigated, detached or is not rendered
+    }
+  }
+
+  for (const el of results) {
+    el.score = scoreElement(el, queryLower, queryTokens, learnedWeights);
+  }
+  return results;
+}
+
+/**
+ * Scroll a found element into view and return its center in page coordinates,
+ * or null if it has no layout any more
+ */
+export async function getScopedElementCenter(
+  page: Page,
+  cdpClient: CDPClientLike,
+  el: ScopedElement
+): Promise<{ x: number; y: number } | null> {
+  try {
+    const scope = await getNodeScope(page, cdpClient, el.frameId);
+    await scope.send('DOM.scrollIntoViewIfNeeded', { backendNodeId: el.backendDOMNodeId });
+    const { model } = await scope.send<{ model: { content: number[] } }>('DOM.getBoxModel', { backendNodeId: el.backendDOMNodeId });
+    const offset = await scope.offset();
+    return {
+      x: (model.content[0] + model.content[2]) / 2 + offset.x,
+      y: (model.content[1] + model.content[5]) / 2 + offset.y,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Suffix for tool output naming the iframe an element is in */
+export function describeElementScope(el: ScopedElement): string {
+  return el.frameUrl ? ` (in iframe ${el.frameUrl})` : '';
+}
@@ -1 +1,2 @@
 export { serializeDOM, type DOMSerializerOptions, type PageStats } from './dom-serializer';
+export { searchElementScopes, getScopedElementCenter, describeElementScope, type ScopedElement } from './element-scopes';
@@ -1,5 +1,5 @@
 /**
- * Blocking Page Rules — detect CAPTCHAs, bot-checks, and access-denied pages.
+ * Blocking Page Rules — detect CAPTCHAs, bot-checks, access-denied pages and OTP prompts.
  * Fires on successful navigate results that contain a blockingPage field,
  * providing immediate guidance instead of waiting for the progress tracker.
  */
@@ -19,7 +19,7 @@ export const blockingPageRules: HintRule[] = [
         return (
           'Hint: CAPTCHA detected on this page. OpenChrome cannot solve CAPTCHAs programmatically. ' +
           'STOP all interaction attempts with this page. ' +
-          'Ask the user to solve the CAPTCHA in their Chrome browser, then use wait_for to detect when the page changes, and resume automation.'
+          'Call request_human with this tabId so a person can solve it in the live view (or ask the user to solve it in their Chrome browser and use wait_for to detect when the page changes), then resume automation.'
         );
       }
 
@@ -36,7 +36,7 @@ export const blockingPageRules: HintRule[] = [
       if (/"blockingPage"\s*:\s*\{[^}]*"type"\s*:\s*"bot-check"/i.test(ctx.resultText)) {
         return (
           'Hint: Bot verification detected. OpenChrome cannot bypass bot checks. ' +
-          'Ask the user to complete the verification in their Chrome browser, then retry navigation.'
+          'Call request_human with this tabId so a person can complete it in the live view (or ask the user to complete it in their Chrome browser), then retry navigation.'
         );
       }
 
@@ -57,6 +57,23 @@ export const blockingPageRules: HintRule[] = [
         );
       }
 
+      return null;
+    },
+  },
+  {
+    name: 'otp-detected',
+    priority: 123,
+    match(ctx) {
+      if (ctx.isError) return null;
+
+      if (/"blockingPage"\s*:\s*\{[^}]*"type"\s*:\s*"otp"/i.test(ctx.resultText)) {
+        return (
+          'Hint: One-time code prompt detected. If a TOTP seed is configured for this account, ' +
+          'call totp with action "fill", the seed name and this tabId to enter the current code (use action "list" to see seed names). ' +
+          'Otherwise ask the user for the code.'
+        );
+      }
+
       return null;
     },
   },
@@ -8,9 +8,12 @@
  */
 
 import { Command } from 'commander';
+import * as path from 'path';
 import { getMCPServer, setMCPServerOptions } from './mcp-server';
 import { registerAllTools } from './tools';
 import { getGlobalConfig, setGlobalConfig } from './config/global';
+import { loadPolicyFile } from './security/policy';
+import { getDefaultTraceDir } from './trace/trace-bundle';
 import { ToolTier } from './config/tool-tiers';
 import { writePidFile } from './utils/pid-manager';
 import { getVersion } from './version';
@@ -46,10 +49,20 @@ program
   .option('--hybrid', 'Enable hybrid mode (Lightpanda + Chrome routing)')
   .option('--lp-port <port>', 'Lightpanda debugging port (default: 9223)', '9223')
   .option('--blocked-domains <domains>', 'Comma-separated list of blocked domains (e.g., "*.bank.com,mail.google.com")')
+  .option('--policy <file>', 'Security policy file (YAML/JSON): domain allowlist and per-domain tool permissions')
   .option('--audit-log', 'Enable security audit logging (default: false)')
+  .option('--secrets <file>', 'Secrets vault for {{secret:name}} placeholders (default: ~/.openchrome/secrets.json)')
   .option('--all-tools', 'Expose all tools from startup (bypass progressive disclosure)')
   .option('--server-mode', 'Server/headless mode: auto-launch headless Chrome, skip cookie bridge')
-  .action(async (options: { port: string; autoLaunch?: boolean; userDataDir?: string; profileDirectory?: string; chromeBinary?: string; headlessShell?: boolean; visible?: boolean; restartChrome?: boolean; hybrid?: boolean; lpPort?: string; blockedDomains?: string; auditLog?: boolean; allTools?: boolean; serverMode?: boolean }) => {
+  .option('--http <port>', 'Serve MCP over Streamable HTTP on this port instead of stdio')
+  .option('--http-host <host>', 'Interface for --http to bind (use 0.0.0.0 to share across the LAN; needs --http-token)', '127.0.0.1')
+  .option('--http-token <token>', 'Bearer token required on every --http request (default: $OPENCHROME_HTTP_TOKEN)')
+  .option('--dashboard-http <port>', 'Serve a web dashboard on 127.0.0.1 at this port (live activity, tab thumbnails, pause/kill)')
+  .option('--trace [dir]', 'Record tool calls into per-session trace bundles with an HTML viewer (default dir: .openchrome/traces/)')
+  .option('--otlp <target>', 'Export OpenTelemetry spans and metrics as OTLP/JSON to a collector URL (e.g. http://localhost:4318) or a file (default: $OTEL_EXPORTER_OTLP_ENDPOINT)')
+  .option('--prometheus <port>', 'Serve Prometheus metrics on this port at /metrics')
+  .option('--prometheus-host <host>', 'Interface for --prometheus to bind', '127.0.0.1')
+  .action(async (options: { port: string; autoLaunch?: boolean; userDataDir?: string; profileDirectory?: string; chromeBinary?: string; headlessShell?: boolean; visible?: boolean; restartChrome?: boolean; hybrid?: boolean; lpPort?: string; blockedDomains?: string; policy?: string; auditLog?: boolean; secrets?: string; allTools?: boolean; serverMode?: boolean; http?: string; httpHost?: string; httpToken?: string; dashboardHttp?: string; trace?: boolean | string; otlp?: string; prometheus?: string; prometheusHost?: string }) => {
     const port = parseInt(options.port, 10);
     let autoLaunch = options.autoLaunch || false;
 
@@ -126,6 +139,21 @@ program
       console.error(`[openchrome] Blocked domains: ${blockedList.join(', ')}`);
     }
 
+    // Load security policy file if provided
+    if (options.policy) {
+      try {
+        const policy = loadPolicyFile(options.policy);
+        const existing = getGlobalConfig().security || {};
+        setGlobalConfig({
+          security: { ...existing, policy },
+        });
+        console.error(`[openchrome] Security policy: ${options.policy} (mode: ${policy.mode ?? 'blocklist'}, ${policy.rules?.length ?? 0} tool rule(s))`);
+      } catch (error) {
+        console.error(`[openchrome] ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    }
+
     // Configure audit logging if enabled
     if (options.auditLog) {
       const existing = getGlobalConfig().security || {};
@@ -135,6 +163,13 @@ program
       console.error('[openchrome] Audit logging: enabled');
     }
 
+    if (options.secrets) {
+      const existing = getGlobalConfig().security || {};
+      setGlobalConfig({
+        security: { ...existing, secrets_path: path.resolve(options.secrets) },
+      });
+    }
+
     // Tool tier configuration
     const envTier = parseInt(process.env.OPENCHROME_TOOL_TIER || '', 10);
     if (options.allTools || envTier >= 3) {
@@ -148,6 +183,25 @@ program
     const server = getMCPServer();
     registerAllTools(server);
 
+    if (options.trace) {
+      const traceDir = server.enableTracing({ dir: typeof options.trace === 'string' ? path.resolve(options.trace) : getDefaultTraceDir() });
+      console.error(`[openchrome] Trace bundles: ${traceDir}`);
+    }
+
+    const otlpTarget = options.otlp || process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+    if (otlpTarget) {
+      server.startOtlpExport({ target: otlpTarget });
+    }
+
+    if (options.prometheus) {
+      const prometheusPort = parseInt(options.prometheus, 10);
+      if (isNaN(prometheusPort) || prometheusPort < 0 || prometheusPort > 65535) {
+        console.error(`[openchrome] Invalid --prometheus port: ${options.prometheus}`);
+        process.exit(1);
+      }
+      await server.startPrometheus({ port: prometheusPort, host: options.prometheusHost });
+    }
+
     // Write PID file for zombie process detection
     writePidFile(port);
 
@@ -164,6 +218,34 @@ program
     if (process.platform === 'win32') {
       process.on('SIGHUP', () => shutdown('SIGHUP'));
     }
+
+    if (options.dashboardHttp) {
+      const dashboardPort = parseInt(options.dashboardHttp, 10);
+      if (isNaN(dashboardPort) || dashboardPort < 0 || dashboardPort > 65535) {
+        console.error(`[openchrome] Invalid --dashboard-http port: ${options.dashboardHttp}`);
+        process.exit(1);
+      }
+      await server.startWebDashboard({ port: dashboardPort });
+    }
+
+    if (options.http) {
+      const httpPort = parseInt(options.http, 10);
+      if (isNaN(httpPort) || httpPort < 0 || httpPort > 65535) {
+        console.error(`[openchrome] Invalid --http port: ${options.http}`);
+        process.exit(1);
+      }
+      try {
+        await server.startHttp({
+          port: httpPort,
+          host: options.httpHost,
+          authToken: options.httpToken || process.env.OPENCHROME_HTTP_TOKEN,
+        });
+      } catch (error) {
+        console.error(`[openchrome] ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+      return;
+    }
     server.start();
   });
 
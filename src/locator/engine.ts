@@ -0,0 +1,339 @@
+/**
+ * Locator Engine - Resolves parsed locators in the page
+ *
+ * Steps run in-page over the document and its open shadow roots; matches come
+ * back as backend node IDs with their role, accessible name and rect, ready for
+ * refs, clicks and form input. Only visible elements match.
+ */
+
+import type { Page } from 'puppeteer-core';
+import { FoundElement } from '../utils/element-finder';
+import { LocatorStep, parseLocator } from './parser';
+
+export type LocatedElement = Omit<FoundElement, 'score'>;
+
+export interface LocatorResult {
+  /** Matches in locator order (document order, or nearest first after near()) */
+  elements: LocatedElement[];
+  /** Number of matches before the limit */
+  total: number;
+}
+
+// CDPClient interface to avoid circular imports
+interface CDPClientLike {
+  send<T = unknown>(page: Page, method: string, params?: Record<string, unknown>): Promise<T>;
+}
+
+const OBJECT_GROUP = 'openchrome-locator';
+const DEFAULT_LIMIT = 50;
+
+/**
+ * In-page resolver: `function(steps, limit)` returning the matching elements
+ * (at most `limit`), with their info in `.infos` and the full count in `.total`.
+ */
+export const LOCATOR_FUNCTION = `function(steps, limit) {
+  const norm = (s) => (s || '').replace(/\\s+/g, ' ').trim();
+  const textMatches = (text, m) => m.exact
+    ? norm(text) === m.value
+    : norm(text).toLowerCase().includes(m.value.toLowerCase());
+
+  const deepAll = (root) => {
+    const out = [];
+    const walk = (r) => {
+      if (r.shadowRoot) walk(r.shadowRoot);
+      for (const el of r.querySelectorAll('*')) {
+        out.push(el);
+        if (el.shadowRoot) walk(el.shadowRoot);
+      }
+    };
+    walk(root);
+    return out;
+  };
+  const parentOf = (el) => el.parentElement || (el.parentNode && el.parentNode.host) || null;
+  const containsDeep = (ancestor, el) => {
+    for (let p = parentOf(el); p; p = parentOf(p)) if (p === ancestor) return true;
+    return false;
+  };
+  const isVisible = (el) => {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+    const style = window.getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+  };
+  const textOf = (ids, doc) => ids.split(/\\s+/).map((id) => {
+    const ref = doc.getElementById(id);
+    return ref ? ref.textContent : '';
+  }).join(' ');
+
+  const roleOf = (el) => {
+    const explicit = (el.getAttribute('role') || '').trim().split(/\\s+/)[0];
+    if (explicit) return explicit;
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') || 'text').toLowerCase();
+    switch (tag) {
+      case 'button': return 'button';
+      case 'a': case 'area': return el.hasAttribute('href') ? 'link' : null;
+      case 'input':
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox') return 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return el.hasAttribute('list') ? 'combobox' : 'searchbox';
+        if (type === 'hidden' || type === 'file' || type === 'color') return null;
+        return el.hasAttribute('list') ? 'combobox' : 'textbox';
+      case 'textarea': return 'textbox';
+      case 'select': return el.multiple || el.size > 1 ? 'listbox' : 'combobox';
+      case 'option': return 'option';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
+      case 'img': return el.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'ul': case 'ol': return 'list';
+      case 'li': return 'listitem';
+      case 'nav': return 'navigation';
+      case 'main': return 'main';
+      case 'header': return 'banner';
+      case 'footer': return 'contentinfo';
+      case 'aside': return 'complementary';
+      case 'form': return 'form';
+      case 'dialog': return 'dialog';
+      case 'table': return 'table';
+      case 'tr': return 'row';
+      case 'td': return 'cell';
+      case 'th': return 'columnheader';
+      case 'progress': return 'progressbar';
+      case 'summary': return 'button';
+    }
+    return el.getAttribute('contenteditable') === 'true' ? 'textbox' : null;
+  };
+
+  const NAME_FROM_CONTENT = ['button', 'link', 'heading', 'option', 'tab', 'menuitem', 'menuitemcheckbox',
+    'menuitemradio', 'checkbox', 'radio', 'switch', 'cell', 'columnheader', 'rowheader', 'treeitem', 'listitem', 'tooltip'];
+
+  const labelsOf = (el) => {
+    const texts = [];
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) texts.push(textOf(labelledBy, el.getRootNode()));
+    if (el.getAttribute('aria-label')) texts.push(el.getAttribute('aria-label'));
+    for (const label of el.labels || []) texts.push(label.textContent);
+    return texts.map(norm).filter(Boolean);
+  };
+
+  const nameOf = (el, role) => {
+    const labels = labelsOf(el);
+    if (labels.length > 0) return labels[0];
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'img' || (tag === 'input' && el.type === 'image')) {
+      if (el.getAttribute('alt')) return norm(el.getAttribute('alt'));
+    }
+    if (tag === 'input' && ['button', 'submit', 'reset'].includes(el.type)) {
+      return norm(el.value) || (el.type === 'submit' ? 'Submit' : el.type === 'reset' ? 'Reset' : '');
+    }
+    if (NAME_FROM_CONTENT.includes(role)) {
+      const content = norm(el.innerText !== undefined ? el.innerText : el.textContent);
+      if (content) return content;
+    }
+    return norm(el.getAttribute('title') || el.getAttribute('placeholder') || '');
+  };
+
+  const ariaState = (el, attr, native) => {
+    const value = el.getAttribute('aria-' + attr);
+    if (value !== null) return value === 'true' || (attr === 'checked' && value === 'mixed');
+    return !!native;
+  };
+
+  const matchesStep = (el, step) => {
+    switch (step.kind) {
+      case 'role': {
+        const role = roleOf(el);
+        if (role !== step.role) return false;
+        if (step.name && !textMatches(nameOf(el, role), step.name)) return false;
+        if (step.checked !== undefined && ariaState(el, 'checked', el.checked) !== step.checked) return false;
+        if (step.disabled !== undefined && (el.disabled === true || el.getAttribute('aria-disabled') === 'true') !== step.disabled) return false;
+        if (step.expanded !== undefined && ariaState(el, 'expanded', el.open) !== step.expanded) return false;
+        if (step.selected !== undefined && ariaState(el, 'selected', el.selected) !== step.selected) return false;
+        if (step.pressed !== undefined && ariaState(el, 'pressed', false) !== step.pressed) return false;
+        if (step.level !== undefined) {
+          const level = Number(el.getAttribute('aria-level')) || Number((el.tagName.match(/^H([1-6])$/) || [])[1]);
+          if (level !== step.level) return false;
+        }
+        return true;
+      }
+      case 'label':
+        return labelsOf(el).some((text) => textMatches(text, step.match));
+      case 'placeholder':
+        return el.hasAttribute('placeholder') && textMatches(el.getAttribute('placeholder'), step.match);
+      case 'alt':
+        return el.hasAttribute('alt') && textMatches(el.getAttribute('alt'), step.match);
+      case 'title':
+        return el.hasAttribute('title') && textMatches(el.getAttribute('title'), step.match);
+      case 'testid':
+        return ['data-testid', 'data-test-id', 'data-test'].some((a) => el.getAttribute(a) === step.value);
+      case 'css':
+        return el.matches(step.selector);
+      default:
+        return false;
+    }
+  };
+
+  const SKIP_TEXT = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'TITLE'];
+  const select = (step, scopes) => {
+    if (step.kind === 'xpath') {
+      const found = [];
+      for (const scope of scopes) {
+        const result = document.evaluate(step.expression, scope, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        for (let i = 0; i < result.snapshotLength; i++) {
+          const node = result.snapshotItem(i);
+          if (node instanceof Element) found.push(node);
+        }
+      }
+      return found;
+    }
+    const candidates = [];
+    for (const scope of scopes) candidates.push(...deepAll(scope));
+    if (step.kind === 'text') {
+      // The innermost elements holding the text, not every ancestor of it
+      const hits = candidates.filter((el) => !SKIP_TEXT.includes(el.tagName) && textMatches(el.textContent, step.match));
+      const hitSet = new Set(hits);
+      return hits.filter((el) => !Array.from(el.children).some((child) => hitSet.has(child)));
+    }
+    return candidates.filter((el) => matchesStep(el, step));
+  };
+
+  const distance = (a, b) => {
+    const ra = a.getBoundingClientRect();
+    const rb = b.getBoundingClientRect();
+    const dx = Math.max(0, ra.left - rb.right, rb.left - ra.right);
+    const dy = Math.max(0, ra.top - rb.bottom, rb.top - ra.bottom);
+    return Math.hypot(dx, dy);
+  };
+
+  const run = (chain, scopes) => {
+    let current = null;
+    for (const step of chain) {
+      if (step.kind === 'nth') {
+        const list = current || [];
+        const el = list[step.index < 0 ? list.length + step.index : step.index];
+        current = el ? [el] : [];
+      } else if (step.kind === 'has-text') {
+        current = (current || []).filter((el) => textMatches(el.textContent, step.match));
+      } else if (step.kind === 'has') {
+        current = (current || []).filter((el) => run(step.locator, [el]).length > 0);
+      } else if (step.kind === 'within') {
+        const anchors = run(step.locator, [document]);
+        current = (current || []).filter((el) => anchors.some((a) => containsDeep(a, el)));
+      } else if (step.kind === 'near') {
+        const anchors = run(step.locator, [document]);
+        current = (current || [])
+          .filter((el) => !anchors.includes(el))
+          .map((el) => ({ el, d: Math.min(...anchors.filter((a) => !containsDeep(el, a) && !containsDeep(a, el)).map((a) => distance(el, a))) }))
+          .filter((entry) => entry.d <= step.maxDistance)
+          .sort((x, y) => x.d - y.d)
+          .map((entry) => entry.el);
+      } else {
+        const found = [];
+        const seen = new Set();
+        for (const el of select(step, current || scopes)) {
+          if (!seen.has(el) && isVisible(el)) {
+            seen.add(el);
+            found.push(el);
+          }
+        }
+        current = found;
+      }
+    }
+    return current || [];
+  };
+
+  const matched = run(steps, [document]);
+  const found = matched.slice(0, limit);
+  found.total = matched.length;
+  found.infos = found.map((el) => {
+    const rect = el.getBoundingClientRect();
+    const role = roleOf(el) || el.tagName.toLowerCase();
+    return {
+      backendDOMNodeId: 0,
+      role,
+      name: nameOf(el, role).slice(0, 100),
+      tagName: el.tagName.toLowerCase(),
+      type: el.type || undefined,
+      placeholder: el.getAttribute('placeholder') || undefined,
+      ariaLabel: el.getAttribute('aria-label') || undefined,
+      textContent: norm(el.textContent).slice(0, 50),
+      rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+    };
+  });
+  return found;
+}`;
+
+/**
+ * In-page expression that is true when a locator has at least one match, or
+ * none when `present` is false. For polling with page.waitForFunction.
+ */
+export function locatorConditionExpression(steps: LocatorStep[], present: boolean): string {
+  return `(${LOCATOR_FUNCTION})(${JSON.stringify(steps)}, 1).total ${present ? '>' : '==='} 0`;
+}
+
+/**
+ * Resolve a locator in the page. Throws on bad syntax or an invalid CSS/XPath step.
+ */
+export async function resolveLocator(
+  page: Page,
+  cdpClient: CDPClientLike,
+  locator: string,
+  limit: number = DEFAULT_LIMIT
+): Promise<LocatorResult> {
+  const steps = parseLocator(locator);
+
+  try {
+    const { result: matches, exceptionDetails } = await cdpClient.send<{
+      result: { objectId?: string };
+      exceptionDetails?: { exception?: { description?: string }; text?: string };
+    }>(page, 'Runtime.evaluate', {
+      expression: `(${LOCATOR_FUNCTION})(${JSON.stringify(steps)}, ${limit})`,
+      objectGroup: OBJECT_GROUP,
+      returnByValue: false,
+    });
+    if (exceptionDetails) {
+      const detail = exceptionDetails.exception?.description?.split('\n')[0] || exceptionDetails.text || 'evaluation failed';
+      throw new Error(`Locator "${locator}" failed: ${detail}`);
+    }
+    if (!matches?.objectId) return { elements: [], total: 0 };
+
+    const { result: summary } = await cdpClient.send<{ result?: { value?: { infos: LocatedElement[]; total: number } } }>(
+      page,
+      'Runtime.callFunctionOn',
+      {
+        objectId: matches.objectId,
+        functionDeclaration: 'function() { return { infos: this.infos, total: this.total }; }',
+        returnByValue: true,
+      }
+    );
+    const elements = summary?.value?.infos || [];
+    if (elements.length === 0) return { elements: [], total: 0 };
+
+    const { result: properties } = await cdpClient.send<{ result: Array<{ name: string; value?: { objectId?: string } }> }>(
+      page,
+      'Runtime.getProperties',
+      { objectId: matches.objectId, ownProperties: true }
+    );
+    await Promise.all(properties.map(async (prop) => {
+      const index = parseInt(prop.name, 10);
+      if (isNaN(index) || index >= elements.length || !prop.value?.objectId) return;
+      try {
+        const { node } = await cdpClient.send<{ node: { backendNodeId: number } }>(page, 'DOM.describeNode', {
+          objectId: prop.value.objectId,
+        });
+        elements[index].backendDOMNodeId = node.backendNodeId;
+      } catch {
+        // Element went away while resolving
+      }
+    }));
+
+    return {
+      elements: elements.filter((el) => el.backendDOMNodeId),
+      total: summary?.value?.total ?? elements.length,
+    };
+  } finally {
+    await cdpClient.send(page, 'Runtime.releaseObjectGroup', { objectGroup: OBJECT_GROUP }).catch(() => {});
+  }
+}
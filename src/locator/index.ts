@@ -0,0 +1,17 @@
+export {
+  parseLocator,
+  isLocator,
+  quoteLocatorText,
+  buildRoleLocator,
+  DEFAULT_NEAR_DISTANCE,
+  type LocatorStep,
+  type RoleStep,
+  type TextMatch,
+} from './parser';
+export {
+  resolveLocator,
+  locatorConditionExpression,
+  LOCATOR_FUNCTION,
+  type LocatedElement,
+  type LocatorResult,
+} from './engine';
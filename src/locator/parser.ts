@@ -0,0 +1,289 @@
+/**
+ * Locator Parser - Semantic locator syntax shared by action and query tools
+ *
+ * A locator is a chain of steps joined by `>>`. Each step narrows the previous
+ * result, so the whole string stays readable and survives page loads:
+ *
+ *   role=button[name="Save"] >> near(text="Billing")
+ *   label="Email"
+ *   testid=checkout
+ *   css=form.signup >> role=textbox >> nth=1
+ *   role=listitem >> has-text("Invoice 42") >> role=link
+ *
+ * Selector steps (search inside the previous matches, or the page for the first step):
+ *   role=<role>[name=...][checked][disabled][expanded][selected][pressed][level=N]
+ *   label=, text=, placeholder=, alt=, title=   — "quoted" is exact, bare is a
+ *                                                 case-insensitive substring
+ *   testid=<id>                                  — data-testid / data-test-id / data-test
+ *   css=<selector>, xpath=<expression>           — a bare step is CSS too; `//…` is XPath
+ *
+ * Filter steps (keep some of the previous matches):
+ *   nth=<i>                       — 0-based; negative counts from the end
+ *   has-text(<text>)              — text anywhere inside
+ *   has(<locator>)                — contains a match of the inner locator
+ *   within(<locator>)             — inside a match of the inner locator
+ *   near(<locator>[, <px>])       — within px (default 200) of a match, nearest first
+ */
+
+export interface TextMatch {
+  value: string;
+  /** Quoted: whole normalized text must be equal (case-sensitive) */
+  exact: boolean;
+}
+
+export interface RoleStep {
+  kind: 'role';
+  role: string;
+  name?: TextMatch;
+  checked?: boolean;
+  disabled?: boolean;
+  expanded?: boolean;
+  selected?: boolean;
+  pressed?: boolean;
+  level?: number;
+}
+
+export type LocatorStep =
+  | RoleStep
+  | { kind: 'label' | 'text' | 'placeholder' | 'alt' | 'title'; match: TextMatch }
+  | { kind: 'testid'; value: string }
+  | { kind: 'css'; selector: string }
+  | { kind: 'xpath'; expression: string }
+  | { kind: 'nth'; index: number }
+  | { kind: 'has-text'; match: TextMatch }
+  | { kind: 'has' | 'within'; locator: LocatorStep[] }
+  | { kind: 'near'; locator: LocatorStep[]; maxDistance: number };
+
+export const DEFAULT_NEAR_DISTANCE = 200;
+
+const TEXT_ENGINES = new Set(['label', 'text', 'placeholder', 'alt', 'title']);
+const FILTER_KINDS = new Set(['nth', 'has-text', 'has', 'within', 'near']);
+const ROLE_FLAGS = new Set(['checked', 'disabled', 'expanded', 'selected', 'pressed']);
+
+/** Longer accessible names are matched by their start */
+const MAX_NAME_CHARS = 80;
+/** Text that cannot appear in an unquoted value */
+const UNQUOTED_UNSAFE = /[[\]()"'\\]|>>/;
+
+/**
+ * Parse a locator string into steps. Throws with the offending part on bad syntax.
+ */
+export function parseLocator(source: string): LocatorStep[] {
+  const parts = splitTopLevel(source, '>>');
+  if (parts.length === 0 || parts.some(part => part.trim() === '')) {
+    throw new Error(`Invalid locator "${source}": empty step`);
+  }
+
+  const steps = parts.map(part => parseStep(part.trim(), source));
+  if (FILTER_KINDS.has(steps[0].kind)) {
+    throw new Error(`Invalid locator "${source}": must start with a selector (role=, label=, text=, testid=, css=, ...), not ${steps[0].kind}`);
+  }
+  return steps;
+}
+
+/**
+ * Whether a string is meant as a locator rather than a natural-language query.
+ */
+export function isLocator(text: string): boolean {
+  return /^\s*(role|label|text|placeholder|alt|title|testid|css|xpath)=/.test(text);
+}
+
+/**
+ * Quote a value for use in a locator (exact match).
+ */
+export function quoteLocatorText(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * A readable, stable locator for an element known by role and accessible name,
+ * e.g. role=button[name="Sign in"]. Long names become a substring match on their
+ * start. Returns null when there is nothing stable to use.
+ */
+export function buildRoleLocator(role: string | undefined, name: string | undefined): string | null {
+  const trimmedName = name?.replace(/\s+/g, ' ').trim();
+  if (!role || role === 'generic' || role === 'none' || role === 'presentation' || !trimmedName) return null;
+  const prefix = trimmedName.slice(0, MAX_NAME_CHARS).trim();
+  if (prefix.length < trimmedName.length && !UNQUOTED_UNSAFE.test(prefix)) {
+    return `role=${role}[name=${prefix}]`;
+  }
+  return `role=${role}[name=${quoteLocatorText(trimmedName)}]`;
+}
+
+function parseStep(step: string, source: string): LocatorStep {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid locator "${source}": ${reason} in "${step}"`);
+  };
+
+  const call = step.match(/^(has-text|has|within|near)\s*\(/);
+  if (call) {
+    if (!step.endsWith(')')) fail(`missing ")"`);
+    const inner = step.slice(call[0].length, -1).trim();
+    if (!inner) fail(`${call[1]}() needs an argument`);
+    switch (call[1]) {
+      case 'has-text':
+        return { kind: 'has-text', match: parseText(inner, fail) };
+      case 'has':
+      case 'within':
+        return { kind: call[1], locator: parseLocator(inner) };
+      default: {
+        const args = splitTopLevel(inner, ',');
+        if (args.length > 2) fail('near() takes a locator and an optional distance');
+        let maxDistance = DEFAULT_NEAR_DISTANCE;
+        if (args.length === 2) {
+          maxDistance = Number(args[1].trim().replace(/px$/, ''));
+          if (!Number.isFinite(maxDistance) || maxDistance < 0) fail(`bad distance "${args[1].trim()}"`);
+        }
+        return { kind: 'near', locator: parseLocator(args[0].trim()), maxDistance };
+      }
+    }
+  }
+
+  const engine = step.match(/^([a-z][a-z-]*)\s*=\s*/);
+  if (!engine) {
+    // Bare steps are CSS, or XPath when they look like it
+    return step.startsWith('/') || step.startsWith('(')
+      ? { kind: 'xpath', expression: step }
+      : { kind: 'css', selector: step };
+  }
+
+  const rest = step.slice(engine[0].length);
+  const name = engine[1];
+  if (TEXT_ENGINES.has(name)) {
+    return { kind: name as 'label', match: parseText(rest, fail) };
+  }
+  switch (name) {
+    case 'role':
+      return parseRole(rest, fail);
+    case 'testid':
+      return { kind: 'testid', value: parseText(rest, fail).value };
+    case 'css':
+      if (!rest.trim()) fail('empty CSS selector');
+      return { kind: 'css', selector: rest.trim() };
+    case 'xpath':
+      if (!rest.trim()) fail('empty XPath expression');
+      return { kind: 'xpath', expression: rest.trim() };
+    case 'nth': {
+      const index = Number(rest.trim());
+      if (!Number.isInteger(index)) fail(`nth needs an integer, got "${rest.trim()}"`);
+      return { kind: 'nth', index };
+    }
+    default:
+      return fail(`unknown engine "${name}="`);
+  }
+}
+
+function parseRole(rest: string, fail: (reason: string) => never): RoleStep {
+  const roleMatch = rest.match(/^[a-z]+/i);
+  if (!roleMatch) fail('role= needs a role name');
+  const step: RoleStep = { kind: 'role', role: roleMatch![0].toLowerCase() };
+
+  let remaining = rest.slice(roleMatch![0].length).trim();
+  while (remaining) {
+    if (!remaining.startsWith('[')) fail(`unexpected "${remaining}"`);
+    const end = findClosing(remaining, 0, '[', ']');
+    if (end < 0) fail('missing "]"');
+    const attr = remaining.slice(1, end).trim();
+    remaining = remaining.slice(end + 1).trim();
+
+    const eq = attr.indexOf('=');
+    const key = (eq < 0 ? attr : attr.slice(0, eq)).trim();
+    const value = eq < 0 ? undefined : attr.slice(eq + 1).trim();
+    if (key === 'name') {
+      if (value === undefined) fail('[name] needs a value');
+      step.name = parseText(value!, fail);
+    } else if (key === 'level') {
+      const level = Number(value);
+      if (!Number.isInteger(level) || level < 1) fail(`bad level "${value}"`);
+      step.level = level;
+    } else if (ROLE_FLAGS.has(key)) {
+      if (value !== undefined && value !== 'true' && value !== 'false') fail(`[${key}] must be true or false`);
+      step[key as 'checked'] = value !== 'false';
+    } else {
+      fail(`unknown role attribute "${key}"`);
+    }
+  }
+  return step;
+}
+
+function parseText(raw: string, fail: (reason: string) => never): TextMatch {
+  const text = raw.trim();
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0];
+    let value = '';
+    for (let i = 1; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\\' && i + 1 < text.length) {
+        value += text[++i];
+      } else if (ch === quote) {
+        if (text.slice(i + 1).trim()) fail(`unexpected text after closing quote`);
+        return { value, exact: true };
+      } else {
+        value += ch;
+      }
+    }
+    return fail('unterminated quote');
+  }
+  if (!text) fail('empty text');
+  return { value: text, exact: false };
+}
+
+/**
+ * Split on a separator outside quotes, parentheses and brackets.
+ */
+function splitTopLevel(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (opensQuote(source, i)) {
+      quote = ch;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth--;
+    } else if (depth === 0 && source.startsWith(separator, i)) {
+      parts.push(source.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+  parts.push(source.slice(start));
+  return parts;
+}
+
+/** Index of the bracket closing the one at `open`, or -1 */
+function findClosing(source: string, open: number, openChar: string, closeChar: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (opensQuote(source, i)) {
+      quote = ch;
+    } else if (ch === openChar) {
+      depth++;
+    } else if (ch === closeChar) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Whether the quote character at `i` starts a quoted value: only at the start of a
+ * step, an argument or an attribute value, so apostrophes in bare text (Don't) stay text.
+ */
+function opensQuote(source: string, i: number): boolean {
+  if (source[i] !== '"' && source[i] !== "'") return false;
+  const before = source.slice(0, i).trimEnd();
+  return before === '' || /[=([,>]$/.test(before);
+}
@@ -1,5 +1,5 @@
 /**
- * MCP Server - Implements MCP protocol over stdio
+ * MCP Server - Implements MCP protocol over stdio or Streamable HTTP
  */
 
 import * as readline from 'readline';
@@ -7,29 +7,43 @@ import * as path from 'path';
 import {
   MCPRequest,
   MCPResponse,
+  MCPNotification,
   MCPResult,
   MCPError,
   MCPToolDefinition,
+  MCPRequestContext,
+  ToolContext,
   ToolHandler,
   ToolRegistry,
   MCPErrorCodes,
 } from './types/mcp';
 import { SessionManager, getSessionManager } from './session-manager';
-import { Dashboard, getDashboard, ActivityTracker, getActivityTracker, OperationController } from './dashboard/index.js';
+import { Dashboard, getDashboard, ActivityTracker, getActivityTracker, OperationController, getOperationController, WebDashboard, WebDashboardOptions } from './dashboard/index.js';
+import type { RecordedRefTarget } from './dashboard/types';
+import { TraceRecorder, TraceOptions } from './trace/trace-recorder';
+import { getTelemetry } from './telemetry/telemetry';
+import { OtlpExporter, OtlpExporterOptions } from './telemetry/otlp-exporter';
+import { PrometheusServer, PrometheusServerOptions } from './telemetry/prometheus';
+import { createServerGaugeProvider } from './telemetry/gauges';
 import { usageGuideResource, getUsageGuideContent, MCPResourceDefinition } from './resources/usage-guide';
 import { HintEngine } from './hints';
 import { validateToolSchema } from './utils/schema-validator';
 import { formatAge } from './utils/format-age';
 import { formatError } from './utils/format-error';
+import { waitToSettle, withTimeout } from './utils/with-timeout';
+import { getRefIdManager } from './utils/ref-id-manager';
 import { getCDPConnectionPool } from './cdp/connection-pool';
 import { getCDPClient } from './cdp/client';
 import { getChromeLauncher } from './chrome/launcher';
 import { ToolManifest, ToolEntry, ToolCategory } from './types/tool-manifest';
-import { DEFAULT_TOOL_EXECUTION_TIMEOUT_MS, DEFAULT_SESSION_INIT_TIMEOUT_MS, DEFAULT_SESSION_INIT_TIMEOUT_AUTO_LAUNCH_MS, DEFAULT_RECONNECT_TIMEOUT_MS, DEFAULT_OPERATION_GATE_TIMEOUT_MS } from './config/defaults';
+import { DEFAULT_TOOL_EXECUTION_TIMEOUT_MS, DEFAULT_SESSION_INIT_TIMEOUT_MS, DEFAULT_SESSION_INIT_TIMEOUT_AUTO_LAUNCH_MS, DEFAULT_RECONNECT_TIMEOUT_MS, DEFAULT_OPERATION_GATE_TIMEOUT_MS, DEFAULT_ABORT_SETTLE_TIMEOUT_MS } from './config/defaults';
 import { getGlobalConfig } from './config/global';
 import { getToolTier, ToolTier } from './config/tool-tiers';
 import { logAuditEntry } from './security/audit-logger';
+import { assertToolAllowed, hasToolRestrictions, PolicyDeniedError, takeBlockedNavigations } from './security/domain-guard';
+import { redactSecrets, redactSecretsInResult } from './security/secrets-vault';
 import { getVersion } from './version';
+import { StreamableHttpTransport, HttpTransportOptions } from './transport/streamable-http';
 
 /**
  * Detect if an error is a Chrome/CDP connection error that may be recoverable
@@ -87,6 +101,17 @@ export class MCPServer {
   private options: MCPServerOptions;
   private profileWarningShown = false;
   private exposedTier: ToolTier = 1;
+  private httpTransport: StreamableHttpTransport | null = null;
+  /** Abort controllers for in-flight tools/call requests, keyed by client + request ID */
+  private inFlightCalls: Map<string, AbortController> = new Map();
+  /** Same controllers keyed by activity call ID, so dashboards can kill running calls */
+  private runningCalls: Map<string, AbortController> = new Map();
+  private webDashboard: WebDashboard | null = null;
+  private traceRecorder: TraceRecorder | null = null;
+  private otlpExporter: OtlpExporter | null = null;
+  private prometheusServer: PrometheusServer | null = null;
+  /** Removes the session/pool/screenshot gauges from the telemetry registry */
+  private removeServerGauges: (() => void) | null = null;
 
   constructor(sessionManager?: SessionManager, options: MCPServerOptions = {}) {
     this.sessionManager = sessionManager || getSessionManager();
@@ -136,7 +161,7 @@ export class MCPServer {
     });
     this.dashboard.setSessionManager(this.sessionManager);
     this.activityTracker = this.dashboard.getActivityTracker();
-    this.operationController = this.dashboard.getOperationController();
+    this.attachOperationController(this.dashboard.getOperationController());
 
     // Handle quit event
     this.dashboard.on('quit', () => {
@@ -160,6 +185,21 @@ export class MCPServer {
     });
   }
 
+  /**
+   * Gate tool calls on the controller and abort running calls it cancels
+   */
+  private attachOperationController(controller: OperationController): void {
+    this.operationController = controller;
+    controller.on('cancelled', (callId: string) => {
+      const running = this.runningCalls.get(callId);
+      if (!running) return;
+      // The abort ends the call, so the cancel mark would never be consumed
+      controller.clearCancelled(callId);
+      console.error(`[MCPServer] Cancelling call ${callId} from the dashboard`);
+      running.abort(new Error('Operation cancelled from the dashboard'));
+    });
+  }
+
   /**
    * Register a tool
    */
@@ -169,7 +209,7 @@ export class MCPServer {
     definition: MCPToolDefinition
   ): void {
     validateToolSchema(name, definition.inputSchema);
-    this.tools.set(name, { name, handler, definition });
+    this.tools.set(name, { name, handler: this.withToolPolicy(name, handler), definition });
     this.manifestVersion++;
   }
 
@@ -186,24 +226,30 @@ export class MCPServer {
   }
 
   /**
-   * Send a JSON-RPC notification (no id, no response expected)
+   * Send a JSON-RPC notification (no id, no response expected).
+   * Request-scoped notifications go through context.notify when the transport provides it.
    */
-  private sendNotification(method: string, params?: Record<string, unknown>): void {
-    const notification = {
-      jsonrpc: '2.0' as const,
+  private sendNotification(method: string, params?: Record<string, unknown>, context?: MCPRequestContext): void {
+    const notification: MCPNotification = {
+      jsonrpc: '2.0',
       method,
       ...(params ? { params } : {}),
     };
+    if (context?.notify) {
+      context.notify(notification);
+      return;
+    }
+    if (this.httpTransport) {
+      this.httpTransport.broadcast(notification);
+      return;
+    }
     this.sendResponse(notification as unknown as MCPResponse);
   }
 
   /**
-   * Start the stdio server
+   * Start the dashboard if enabled
    */
-  start(): void {
-    console.error('[MCPServer] Starting stdio server...');
-
-    // Start dashboard if enabled
+  private startDashboard(): void {
     if (this.dashboard) {
       const started = this.dashboard.start();
       if (started) {
@@ -212,6 +258,92 @@ export class MCPServer {
         console.error('[MCPServer] Dashboard could not start (non-TTY environment)');
       }
     }
+  }
+
+  /**
+   * Start the Streamable HTTP server instead of stdio.
+   * Resolves with the bound port once listening.
+   */
+  async startHttp(options: HttpTransportOptions): Promise<number> {
+    console.error('[MCPServer] Starting Streamable HTTP server...');
+
+    this.startDashboard();
+
+    this.httpTransport = new StreamableHttpTransport(this, options);
+    const port = await this.httpTransport.start();
+
+    console.error('[MCPServer] Ready, waiting for requests...');
+    return port;
+  }
+
+  /**
+   * Serve the web dashboard on a local port, alongside either transport.
+   * Enables pause/resume/kill for tool calls. Resolves with the bound port.
+   */
+  async startWebDashboard(options: WebDashboardOptions): Promise<number> {
+    if (!this.operationController) {
+      this.attachOperationController(getOperationController());
+    }
+    if (!this.webDashboard) {
+      this.webDashboard = new WebDashboard(this.sessionManager, this.activityTracker!, this.operationController!, options);
+    }
+    return this.webDashboard.start();
+  }
+
+  /**
+   * Record every tool call into per-session trace bundles (see TraceRecorder).
+   * Returns the resolved bundle directory.
+   */
+  enableTracing(options: TraceOptions): string {
+    if (!this.traceRecorder) {
+      this.traceRecorder = new TraceRecorder(this.sessionManager, options);
+      console.error(`[MCPServer] Tracing tool calls to ${this.traceRecorder.getDir()}`);
+    }
+    return this.traceRecorder.getDir();
+  }
+
+  /**
+   * Export spans and metrics as OTLP/JSON to a collector endpoint or a file.
+   * Returns where the data goes.
+   */
+  startOtlpExport(options: OtlpExporterOptions): string {
+    if (!this.otlpExporter) {
+      this.registerServerGauges();
+      getTelemetry().enable({ spans: true, metrics: true });
+      this.otlpExporter = new OtlpExporter(getTelemetry(), options);
+      this.otlpExporter.start();
+      console.error(`[MCPServer] Exporting OTLP telemetry to ${this.otlpExporter.describe()}`);
+    }
+    return this.otlpExporter.describe();
+  }
+
+  /**
+   * Serve metrics in the Prometheus text format on /metrics. Resolves with the bound port.
+   */
+  async startPrometheus(options: PrometheusServerOptions): Promise<number> {
+    if (!this.prometheusServer) {
+      this.registerServerGauges();
+      getTelemetry().enable({ metrics: true });
+      this.prometheusServer = new PrometheusServer(getTelemetry(), options);
+    }
+    return this.prometheusServer.start();
+  }
+
+  private registerServerGauges(): void {
+    if (!this.removeServerGauges) {
+      this.removeServerGauges = getTelemetry().addGaugeProvider(
+        createServerGaugeProvider(this.sessionManager, this.activityTracker!)
+      );
+    }
+  }
+
+  /**
+   * Start the stdio server
+   */
+  start(): void {
+    console.error('[MCPServer] Starting stdio server...');
+
+    this.startDashboard();
 
     this.rl = readline.createInterface({
       input: process.stdin,
@@ -260,11 +392,7 @@ export class MCPServer {
 
       // Notifications have no `id` field — must NOT receive a response per JSON-RPC 2.0 spec
       if (parsed.id === undefined || parsed.id === null) {
-        const method = parsed.method as string;
-        if (method === 'notifications/initialized' || method === 'initialized') {
-          console.error(`[MCPServer] Received notification: ${method}`);
-        }
-        // All notifications are silently ignored (no response sent)
+        this.handleNotification(parsed as unknown as MCPNotification);
         return;
       }
 
@@ -306,10 +434,34 @@ export class MCPServer {
     console.log(JSON.stringify(response));
   }
 
+  /**
+   * Handle an incoming JSON-RPC notification (no response is ever sent)
+   */
+  handleNotification(notification: MCPNotification, context: MCPRequestContext = {}): void {
+    const { method, params } = notification;
+
+    if (method === 'notifications/initialized' || method === 'initialized') {
+      console.error(`[MCPServer] Received notification: ${method}`);
+      return;
+    }
+
+    if (method === 'notifications/cancelled') {
+      const requestId = params?.requestId as number | string | undefined;
+      if (requestId === undefined || requestId === null) return;
+      const controller = this.inFlightCalls.get(this.inFlightKey(requestId, context.clientId));
+      if (!controller) return; // Already finished or unknown — ignore per MCP spec
+      const reason = typeof params?.reason === 'string' ? params.reason : undefined;
+      console.error(`[MCPServer] Cancelling request ${requestId}${reason ? `: ${reason}` : ''}`);
+      controller.abort(new Error(reason ? `Request cancelled by client: ${reason}` : 'Request cancelled by client'));
+    }
+
+    // All other notifications are silently ignored
+  }
+
   /**
    * Handle incoming MCP request
    */
-  async handleRequest(request: MCPRequest): Promise<MCPResponse> {
+  async handleRequest(request: MCPRequest, context: MCPRequestContext = {}): Promise<MCPResponse> {
     const requestReceivedAt = Date.now();
     const { id, method, params } = request;
 
@@ -326,7 +478,7 @@ export class MCPServer {
           break;
 
         case 'tools/call':
-          result = await this.handleToolsCall(params, id);
+          result = await this.traceToolCall(params, id, context);
           break;
 
         case 'resources/list':
@@ -468,10 +620,55 @@ export class MCPServer {
     };
   }
 
+  /**
+   * Run a tools/call inside a server span and record the call metrics.
+   * CDP commands, navigation and queue waits of the call become child spans.
+   */
+  private async traceToolCall(
+    params?: Record<string, unknown>,
+    requestId?: number | string,
+    requestContext: MCPRequestContext = {}
+  ): Promise<MCPResult> {
+    const telemetry = getTelemetry();
+    if (!telemetry.isEnabled) {
+      return this.handleToolsCall(params, requestId, requestContext);
+    }
+
+    const requested = typeof params?.name === 'string' ? params.name : '';
+    // Label unknown names as such so clients cannot grow the metric cardinality
+    const toolName = this.tools.has(requested) || requested === 'expand_tools' ? requested : 'unknown';
+    const toolArgs = (params?.arguments || {}) as Record<string, unknown>;
+    const sessionId = String(toolArgs.sessionId || params?.sessionId || 'default');
+    const startTime = Date.now();
+    let status = 'error';
+    try {
+      return await telemetry.withSpan(`tools/call ${toolName}`, async (span) => {
+        const result = await this.handleToolsCall(params, requestId, requestContext);
+        if (result.isError) {
+          const text = result.content?.find(c => c.type === 'text')?.text;
+          span?.setError(text || 'Tool returned an error');
+        } else {
+          status = 'ok';
+        }
+        return result;
+      }, {
+        kind: 'server',
+        attributes: { 'mcp.tool.name': toolName, 'openchrome.session.id': sessionId },
+      });
+    } finally {
+      telemetry.addCounter('openchrome.tool.calls', 1, { tool: toolName, status });
+      telemetry.recordHistogram('openchrome.tool.duration', Date.now() - startTime, { tool: toolName });
+    }
+  }
+
   /**
    * Handle tools/call request
    */
-  private async handleToolsCall(params?: Record<string, unknown>, requestId?: number | string): Promise<MCPResult> {
+  private async handleToolsCall(
+    params?: Record<string, unknown>,
+    requestId?: number | string,
+    requestContext: MCPRequestContext = {}
+  ): Promise<MCPResult> {
     if (!params) {
       throw new Error('Missing params for tools/call');
     }
@@ -534,43 +731,86 @@ export class MCPServer {
         ? DEFAULT_SESSION_INIT_TIMEOUT_AUTO_LAUNCH_MS
         : DEFAULT_SESSION_INIT_TIMEOUT_MS;
       let sessionInitTid: ReturnType<typeof setTimeout>;
-      await Promise.race([
+      await getTelemetry().withSpan('session.init', () => Promise.race([
         this.sessionManager.getOrCreateSession(sessionId).finally(() => clearTimeout(sessionInitTid)),
         new Promise<never>((_, reject) => {
           sessionInitTid = setTimeout(() => reject(new Error(`Session initialization timed out after ${sessionInitTimeout}ms`)), sessionInitTimeout);
         }),
-      ]);
+      ]), { requireParent: true });
     }
 
-    // Start activity tracking
-    const callId = this.activityTracker!.startCall(toolName, sessionId || 'default', toolArgs, requestId);
+    // Start activity tracking. Remember what a ref pointed at so recorded plans can re-locate it,
+    // and which field typed text went to so recorded plans never keep a password as a default.
+    const refEntry = typeof toolArgs.ref === 'string' && typeof toolArgs.tabId === 'string'
+      ? getRefIdManager().findRef(sessionId, toolArgs.tabId, toolArgs.ref)
+      : undefined;
+    const refTarget: RecordedRefTarget | undefined = refEntry
+      ? { role: refEntry.role, name: refEntry.name, tagName: refEntry.tagName, textContent: refEntry.textContent }
+      : toolName === 'computer' && toolArgs.action === 'type'
+        ? await this.describeFocusedField(sessionId, toolArgs.tabId)
+        : undefined;
+    const callId = this.activityTracker!.startCall(
+      toolName,
+      sessionId || 'default',
+      toolArgs,
+      requestId,
+      refTarget
+    );
+
+    // Cancellation + progress plumbing
+    const controller = new AbortController();
+    const inFlightKey = requestId !== undefined ? this.inFlightKey(requestId, requestContext.clientId) : null;
+    if (inFlightKey) {
+      this.inFlightCalls.set(inFlightKey, controller);
+    }
+    this.runningCalls.set(callId, controller);
+    const progressToken = (params._meta as Record<string, unknown> | undefined)?.progressToken as string | number | undefined;
+    const toolContext: ToolContext = {
+      signal: controller.signal,
+      reportProgress: (progress: number, total?: number, message?: string) => {
+        if (progressToken === undefined || controller.signal.aborted) return;
+        this.sendNotification('notifications/progress', {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message && { message }),
+        }, requestContext);
+      },
+    };
+
+    // URL of the page the call acts on, for tool policy and the audit log
+    let pageUrl: string | undefined;
 
     try {
       // Wait at gate if paused
       if (this.operationController) {
         let gateTid: ReturnType<typeof setTimeout>;
+        const gateStart = Date.now();
         await Promise.race([
           this.operationController.gate(callId).finally(() => clearTimeout(gateTid)),
           new Promise<never>((_, reject) => {
             gateTid = setTimeout(() => reject(new Error(`Operation gate timed out after ${DEFAULT_OPERATION_GATE_TIMEOUT_MS}ms`)), DEFAULT_OPERATION_GATE_TIMEOUT_MS);
           }),
-        ]);
+        ]).finally(() => {
+          const gateEnd = Date.now();
+          getTelemetry().recordHistogram('openchrome.gate.wait', gateEnd - gateStart);
+          getTelemetry().recordSpan('queue.gate', gateStart, gateEnd);
+        });
+      }
+
+      if (getGlobalConfig().security?.audit_log) {
+        pageUrl = await this.resolveTabUrl(sessionId, toolArgs.tabId);
+      }
+
+      if (this.traceRecorder) {
+        await this.traceRecorder.begin(callId, sessionId, toolArgs);
       }
 
       let result: MCPResult;
       try {
-        let tid: ReturnType<typeof setTimeout>;
-        result = await Promise.race([
-          Promise.resolve(tool.handler(sessionId, toolArgs)).finally(() => clearTimeout(tid)),
-          new Promise<never>((_, reject) => {
-            tid = setTimeout(
-              () => reject(new Error(`Tool '${toolName}' timed out after ${DEFAULT_TOOL_EXECUTION_TIMEOUT_MS}ms`)),
-              DEFAULT_TOOL_EXECUTION_TIMEOUT_MS,
-            );
-          }),
-        ]);
+        result = await this.runToolHandler(tool, sessionId, toolArgs, controller, toolContext);
       } catch (handlerError) {
-        if (isConnectionError(handlerError)) {
+        if (isConnectionError(handlerError) && !controller.signal.aborted) {
           // Attempt internal reconnection before surfacing error to LLM
           console.error(`[MCPServer] Connection error during ${toolName}, attempting auto-reconnect...`);
           const cdpClient = getCDPClient();
@@ -590,16 +830,7 @@ export class MCPServer {
               console.error('[MCPServer] Post-reconnect reconciliation failed, aborting retry:', reconcileErr);
               throw handlerError; // Abort retry — stale state would cause wrong-target errors
             }
-            let tid2: ReturnType<typeof setTimeout>;
-            result = await Promise.race([
-              Promise.resolve(tool.handler(sessionId, toolArgs)).finally(() => clearTimeout(tid2)),
-              new Promise<never>((_, reject) => {
-                tid2 = setTimeout(
-                  () => reject(new Error(`Tool '${toolName}' timed out after ${DEFAULT_TOOL_EXECUTION_TIMEOUT_MS}ms (retry)`)),
-                  DEFAULT_TOOL_EXECUTION_TIMEOUT_MS,
-                );
-              }),
-            ]);
+            result = await this.runToolHandler(tool, sessionId, toolArgs, controller, toolContext, ' (retry)');
           } catch (retryError) {
             throw handlerError; // throw ORIGINAL error
           }
@@ -608,12 +839,20 @@ export class MCPServer {
         }
       }
 
-      // Audit log successful invocation
-      logAuditEntry(toolName, sessionId, toolArgs);
+      // Values typed from {{secret:name}} placeholders must not come back in any result text
+      redactSecretsInResult(result);
 
       // End activity tracking (success)
       this.activityTracker!.endCall(callId, 'success');
 
+      // Audit log the invocation; handlers report most failures as isError results
+      const resultText = result.content?.find(c => c.type === 'text')?.text;
+      logAuditEntry(toolName, sessionId, toolArgs, pageUrl, {
+        outcome: result.isError ? 'error' : 'success',
+        durationMs: this.activityTracker!.getCall(callId)?.duration,
+        ...(result.isError && resultText && { error: resultText }),
+      });
+
       if (callId) {
         const timing = this.activityTracker!.getCall(callId);
         if (timing?.duration !== undefined) {
@@ -625,6 +864,8 @@ export class MCPServer {
         }
       }
 
+      this.appendBlockedNavigations(result, toolArgs);
+
       // Inject profile state
       const profileInfo = this.buildProfileInfo();
       if (profileInfo) {
@@ -657,13 +898,23 @@ export class MCPServer {
         }
       }
 
+      if (this.traceRecorder) {
+        await this.traceRecorder.end(callId, this.activityTracker!.getCall(callId), result);
+      }
+
       return result;
     } catch (error) {
-      const message = formatError(error);
+      const message = redactSecrets(formatError(error));
 
       // End activity tracking (error)
       this.activityTracker!.endCall(callId, 'error', message);
 
+      logAuditEntry(toolName, sessionId, toolArgs, pageUrl, {
+        outcome: error instanceof PolicyDeniedError ? 'denied' : 'error',
+        durationMs: this.activityTracker!.getCall(callId)?.duration,
+        error: message,
+      });
+
       // Append reconnection guidance for connection errors
       const displayMessage = isConnectionError(error)
         ? message + RECONNECTION_GUIDANCE
@@ -685,6 +936,8 @@ export class MCPServer {
         }
       }
 
+      this.appendBlockedNavigations(errResult, toolArgs);
+
       // Inject profile state (no warning on error responses)
       const profileInfoErr = this.buildProfileInfo();
       if (profileInfoErr) {
@@ -709,10 +962,77 @@ export class MCPServer {
         }
       }
 
+      if (this.traceRecorder) {
+        await this.traceRecorder.end(callId, this.activityTracker!.getCall(callId), errResult);
+      }
+
       return errResult;
+    } finally {
+      if (inFlightKey) {
+        this.inFlightCalls.delete(inFlightKey);
+      }
+      this.runningCalls.delete(callId);
     }
   }
 
+  /**
+   * Run a tool handler raced against the global execution timeout and client cancellation.
+   * A timeout also aborts the signal so cooperative handlers stop and release their tabs;
+   * either way the call returns once the handler has stopped (or the settle timeout passed).
+   */
+  private async runToolHandler(
+    tool: ToolRegistry,
+    sessionId: string,
+    toolArgs: Record<string, unknown>,
+    controller: AbortController,
+    toolContext: ToolContext,
+    label = ''
+  ): Promise<MCPResult> {
+    let tid: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const running = Promise.resolve(tool.handler(sessionId, toolArgs, toolContext));
+    try {
+      return await Promise.race([
+        running,
+        new Promise<never>((_, reject) => {
+          tid = setTimeout(() => {
+            const timeoutError = new Error(`Tool '${tool.name}' timed out after ${DEFAULT_TOOL_EXECUTION_TIMEOUT_MS}ms${label}`);
+            reject(timeoutError);
+            controller.abort(timeoutError);
+          }, DEFAULT_TOOL_EXECUTION_TIMEOUT_MS);
+        }),
+        new Promise<never>((_, reject) => {
+          onAbort = () => {
+            const reason = controller.signal.reason;
+            reject(reason instanceof Error ? reason : new Error('Request cancelled'));
+          };
+          if (controller.signal.aborted) {
+            onAbort();
+          } else {
+            controller.signal.addEventListener('abort', onAbort, { once: true });
+          }
+        }),
+      ]);
+    } catch (error) {
+      if (controller.signal.aborted && !(await waitToSettle(running, DEFAULT_ABORT_SETTLE_TIMEOUT_MS))) {
+        console.error(`[MCPServer] ${tool.name} still running ${DEFAULT_ABORT_SETTLE_TIMEOUT_MS}ms after it was aborted${label}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(tid);
+      if (onAbort) {
+        controller.signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * Key for the in-flight call map. Request IDs are only unique per client.
+   */
+  private inFlightKey(requestId: number | string, clientId?: string): string {
+    return `${clientId ?? ''}:${typeof requestId}:${requestId}`;
+  }
+
   /**
    * Handle sessions/list request
    */
@@ -734,10 +1054,12 @@ export class MCPServer {
   private async handleSessionsCreate(params?: Record<string, unknown>): Promise<MCPResult> {
     const sessionId = params?.sessionId as string | undefined;
     const name = params?.name as string | undefined;
+    const profile = params?.profile as string | undefined;
 
     const session = await this.sessionManager.createSession({
       id: sessionId,
       name,
+      profile,
     });
 
     return {
@@ -749,6 +1071,7 @@ export class MCPServer {
               sessionId: session.id,
               name: session.name,
               targetCount: session.targets.size,
+              ...(profile && { profile }),
             },
             null,
             2
@@ -855,14 +1178,14 @@ export class MCPServer {
    */
   private inferToolCategory(toolName: string): ToolCategory {
     if (['navigate', 'page_reload'].includes(toolName)) return 'navigation';
-    if (['computer', 'form_input', 'drag_drop'].includes(toolName)) return 'interaction';
-    if (['read_page', 'find', 'page_content', 'query_dom'].includes(toolName)) return 'content';
+    if (['computer', 'form_input', 'drag_drop', 'request_human'].includes(toolName)) return 'interaction';
+    if (['read_page', 'find', 'page_content', 'query_dom', 'extract', 'detect_records', 'a11y_audit', 'assert'].includes(toolName)) return 'content';
     if (toolName === 'javascript_tool') return 'javascript';
-    if (['network', 'cookies', 'storage', 'request_intercept', 'http_auth'].includes(toolName)) return 'network';
+    if (['network', 'cookies', 'storage', 'request_intercept', 'http_auth', 'totp', 'network_record'].includes(toolName)) return 'network';
     if (['tabs_context', 'tabs_create', 'tabs_close'].includes(toolName)) return 'tabs';
-    if (['page_pdf', 'console_capture', 'performance_metrics', 'file_upload'].includes(toolName)) return 'media';
+    if (['page_pdf', 'visual_snapshot', 'console_capture', 'performance_metrics', 'file_upload', 'downloads'].includes(toolName)) return 'media';
     if (['user_agent', 'geolocation', 'emulate_device'].includes(toolName)) return 'emulation';
-    if (['workflow_init', 'workflow_status', 'workflow_collect', 'workflow_collect_partial', 'workflow_cleanup', 'execute_plan'].includes(toolName)) return 'orchestration';
+    if (['workflow_init', 'workflow_status', 'workflow_collect', 'workflow_collect_partial', 'workflow_cleanup', 'execute_plan', 'record_plan'].includes(toolName)) return 'orchestration';
     if (['worker', 'worker_update', 'worker_complete'].includes(toolName)) return 'worker';
     if (['click_element', 'fill_form', 'wait_and_click', 'wait_for'].includes(toolName)) return 'composite';
     if (['batch_execute', 'lightweight_scroll'].includes(toolName)) return 'performance';
@@ -871,6 +1194,96 @@ export class MCPServer {
     return 'interaction';
   }
 
+  /**
+   * Describe the element that has focus in a tab, i.e. where `computer type` will send keys.
+   */
+  private async describeFocusedField(sessionId: string, tabId: unknown): Promise<RecordedRefTarget | undefined> {
+    if (typeof tabId !== 'string') return undefined;
+    try {
+      const page = await this.sessionManager.getPage(sessionId, tabId);
+      if (!page) return undefined;
+      const field = await withTimeout(page.evaluate(() => {
+        const el = document.activeElement as HTMLInputElement | null;
+        if (!el || el === document.body) return null;
+        return {
+          tagName: el.tagName,
+          name: el.getAttribute('aria-label') || el.getAttribute('name') || el.id || undefined,
+          inputType: el.getAttribute('type') || undefined,
+          autocomplete: el.getAttribute('autocomplete') || undefined,
+        };
+      }), 1000, 'Reading the focused field');
+      return field ? { role: 'textbox', ...field } : undefined;
+    } catch {
+      // Unknown field: the recorder treats it as a possible credential
+      return undefined;
+    }
+  }
+
+  /**
+   * URL of the tab a call targets, if it has a tabId that resolves to a page.
+   */
+  private async resolveTabUrl(sessionId: string, tabId: unknown): Promise<string | undefined> {
+    if (typeof tabId !== 'string') return undefined;
+    try {
+      return (await this.sessionManager.getPage(sessionId, tabId))?.url();
+    } catch {
+      // Missing or blocked tab: let the handler report it
+      return undefined;
+    }
+  }
+
+  /**
+   * Wrap a handler so per-domain tool rules are enforced on every call: from clients,
+   * and from tools that call other tools (execute_plan steps, oc run workflows).
+   */
+  private withToolPolicy(toolName: string, handler: ToolHandler): ToolHandler {
+    return async (sessionId, args, context) => {
+      await this.assertToolPolicy(toolName, sessionId, args);
+      return handler(sessionId, args, context);
+    };
+  }
+
+  /**
+   * Enforce per-domain tool rules from the security policy. The tool is checked against
+   * every page it acts on (its tabId, and each batch_execute task's tabId); navigate is
+   * checked against its destination. Throws PolicyDeniedError.
+   */
+  private async assertToolPolicy(toolName: string, sessionId: string, toolArgs: Record<string, unknown>): Promise<void> {
+    if (!hasToolRestrictions()) return;
+
+    if (toolName === 'navigate' && typeof toolArgs.url === 'string') {
+      assertToolAllowed(toolName, toolArgs.url, toolArgs);
+      return;
+    }
+
+    const tabIds = new Set<unknown>([toolArgs.tabId]);
+    if (Array.isArray(toolArgs.tasks)) {
+      for (const task of toolArgs.tasks) {
+        if (task && typeof task === 'object') tabIds.add((task as Record<string, unknown>).tabId);
+      }
+    }
+    for (const tabId of tabIds) {
+      const pageUrl = await this.resolveTabUrl(sessionId, tabId);
+      if (pageUrl) {
+        assertToolAllowed(toolName, pageUrl, toolArgs);
+      }
+    }
+  }
+
+  /**
+   * Report navigations the policy guard cancelled while the tool ran (e.g. a click
+   * that followed a link to a blocked domain).
+   */
+  private appendBlockedNavigations(result: MCPResult, toolArgs: Record<string, unknown>): void {
+    if (typeof toolArgs.tabId !== 'string') return;
+    const blocked = takeBlockedNavigations(toolArgs.tabId);
+    if (blocked.length === 0 || !Array.isArray(result.content)) return;
+    result.content.push({
+      type: 'text',
+      text: blocked.map(b => `Navigation to ${b.url.slice(0, 200)} was cancelled. ${b.reason}`).join('\n'),
+    });
+  }
+
   /**
    * Build the _profile metadata object and optional one-time warning.
    * Returns null if profile state cannot be determined (e.g., launcher not initialized).
@@ -930,14 +1343,47 @@ export class MCPServer {
       this.rl = null;
     }
 
+    if (this.httpTransport) {
+      await this.httpTransport.stop();
+      this.httpTransport = null;
+    }
+
+    if (this.webDashboard) {
+      await this.webDashboard.stop();
+      this.webDashboard = null;
+    }
+
+    if (this.traceRecorder) {
+      await this.traceRecorder.close();
+      this.traceRecorder = null;
+    }
+
+    if (this.otlpExporter) {
+      await this.otlpExporter.shutdown();
+      this.otlpExporter = null;
+    }
+
+    if (this.prometheusServer) {
+      await this.prometheusServer.stop();
+      this.prometheusServer = null;
+    }
+
+    if (this.removeServerGauges) {
+      this.removeServerGauges();
+      this.removeServerGauges = null;
+    }
+
     // Await cleanup with safety timeout to prevent hanging forever
     const timeoutMs = 5000;
+    let cleanupTid: ReturnType<typeof setTimeout>;
     await Promise.race([
-      this.cleanup(),
-      new Promise<void>((resolve) => setTimeout(() => {
-        console.error('[MCPServer] Cleanup timed out after 5s, forcing exit');
-        resolve();
-      }, timeoutMs)),
+      this.cleanup().finally(() => clearTimeout(cleanupTid)),
+      new Promise<void>((resolve) => {
+        cleanupTid = setTimeout(() => {
+          console.error('[MCPServer] Cleanup timed out after 5s, forcing exit');
+          resolve();
+        }, timeoutMs);
+      }),
     ]);
   }
 
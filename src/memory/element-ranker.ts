@@ -0,0 +1,368 @@
+/**
+ * ElementRanker — Learns per-site element ranking from what agents do next.
+ *
+ * find, interact and click_element rank candidates with the fixed heuristic in
+ * scoreElement. Every pick is remembered per tab, and the follow-up says whether
+ * it was right:
+ * - Same query again on a different element (retry) → the new pick was right
+ * - Acting on another find result by ref → that result was right
+ * - Going back right after acting (undo) → the runner-up was probably right
+ * - Acting on the top result, or moving on to another query → the pick was right
+ *
+ * Each outcome moves the weights of the features that tell the two elements
+ * apart (pairwise perceptron), so features both share cancel out.
+ * Storage: ~/.openchrome/memory/element-ranking.json, next to DomainKnowledge.
+ * Learning only marks the weights dirty; they are written asynchronously at most
+ * once per SAVE_DEBOUNCE_MS, and synchronously on process exit.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { elementFeatures, FoundElement, LearnedWeights, tokenizeQuery } from '../utils/element-finder';
+import { extractDomainFromUrl } from './domain-memory';
+
+export interface DomainWeights {
+  domain: string;
+  weights: Record<string, number>;
+  /** Outcomes learned from */
+  updates: number;
+  updatedAt: number;
+}
+
+interface RankingStore {
+  version: number;
+  domains: DomainWeights[];
+  updatedAt: number;
+}
+
+interface Candidate {
+  backendNodeId: number;
+  features: string[];
+}
+
+interface PendingChoice {
+  domain: string;
+  queryKey: string;
+  candidates: Candidate[];
+  /** Index into candidates of the element picked (or acted on, for find) */
+  chosen: number;
+  /** Whether the pick was acted on (interact/click_element, or a ref action after find) */
+  acted: boolean;
+  /** Whether an outcome was already learned for this pick */
+  learned: boolean;
+  at: number;
+}
+
+export class ElementRanker {
+  private domains: Map<string, DomainWeights> = new Map();
+  private pending: Map<string, PendingChoice> = new Map();
+  private filePath: string | null = null;
+  private dirty = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Serializes writes */
+  private saving: Promise<void> = Promise.resolve();
+
+  static readonly LEARNING_RATE = 8;
+  /** Confirmations are weaker evidence than corrections */
+  static readonly CONFIRM_RATE = 2;
+  static readonly MAX_WEIGHT = 60;
+  static readonly MAX_FEATURES = 500;
+  static readonly MAX_DOMAINS = 200;
+  static readonly MAX_PENDING = 100;
+  static readonly MAX_CANDIDATES = 10;
+  static readonly FOLLOW_UP_WINDOW_MS = 2 * 60 * 1000;
+  static readonly STALE_DAYS = 90;
+  static readonly SAVE_DEBOUNCE_MS = 2000;
+
+  /**
+   * Enable persistence and drop stale sites.
+   */
+  enablePersistence(dirPath: string): void {
+    try {
+      fs.mkdirSync(dirPath, { recursive: true });
+      this.filePath = path.join(dirPath, 'element-ranking.json');
+      this.load();
+      this.compress();
+    } catch {
+      // Best-effort
+    }
+  }
+
+  /**
+   * Learned weights for the site of a URL; empty when nothing was learned there.
+   */
+  weightsFor(url: string): LearnedWeights {
+    return this.domains.get(extractDomainFromUrl(url))?.weights || {};
+  }
+
+  /**
+   * Remember the elements a query ranked on a tab and which one was picked.
+   * `acted` is true when the pick was clicked/hovered right away (interact,
+   * click_element) and false for find, where the agent picks by ref later.
+   */
+  recordChoice(
+    sessionId: string,
+    tabId: string,
+    url: string,
+    query: string,
+    ranked: FoundElement[],
+    chosen: FoundElement,
+    acted: boolean
+  ): void {
+    const domain = extractDomainFromUrl(url);
+    if (!domain || ranked.length === 0) return;
+
+    const queryTokens = tokenizeQuery(query);
+    const queryKey = [...queryTokens].sort().join(' ') || query.toLowerCase().trim();
+    const candidates: Candidate[] = ranked.slice(0, ElementRanker.MAX_CANDIDATES).map((el) => ({
+      backendNodeId: el.backendDOMNodeId,
+      features: elementFeatures(el, queryTokens),
+    }));
+    let chosenIndex = ranked.indexOf(chosen);
+    if (chosenIndex < 0 || chosenIndex >= candidates.length) {
+      candidates.push({ backendNodeId: chosen.backendDOMNodeId, features: elementFeatures(chosen, queryTokens) });
+      chosenIndex = candidates.length - 1;
+    }
+
+    const key = `${sessionId}:${tabId}`;
+    const previous = this.getPending(key);
+    if (previous && previous.domain === domain && previous.queryKey === queryKey) {
+      // Retry: the same query again ended on a different element
+      if (previous.acted && acted && !sameFeatures(previous.candidates[previous.chosen].features, candidates[chosenIndex].features)) {
+        this.learn(domain, candidates[chosenIndex].features, previous.candidates[previous.chosen].features, ElementRanker.LEARNING_RATE);
+      }
+    } else if (previous) {
+      // Moved on to something else: the previous pick did its job
+      this.confirm(previous);
+    }
+
+    this.setPending(key, {
+      domain,
+      queryKey,
+      candidates,
+      chosen: chosenIndex,
+      acted,
+      learned: false,
+      at: Date.now(),
+    });
+  }
+
+  /**
+   * An action by ref (computer, form_input) on a tab. If the element is one a
+   * recent find ranked, the agent's choice among its results is the outcome.
+   */
+  recordRefAction(sessionId: string, tabId: string, backendNodeId: number): void {
+    const pending = this.getPending(`${sessionId}:${tabId}`);
+    if (!pending) return;
+
+    const index = pending.candidates.findIndex((c) => c.backendNodeId === backendNodeId);
+    // Only the first follow-up counts: later ones are usually the next step (e.g. the next form field)
+    if (index < 0 || pending.learned) return;
+
+    pending.acted = true;
+    if (index === pending.chosen) {
+      this.confirm(pending);
+    } else {
+      this.learn(pending.domain, pending.candidates[index].features, pending.candidates[pending.chosen].features, ElementRanker.LEARNING_RATE);
+      pending.chosen = index;
+      pending.learned = true;
+    }
+  }
+
+  /**
+   * Back navigation on a tab. Right after acting on a pick, that reads as
+   * undoing a wrong element.
+   */
+  recordUndo(sessionId: string, tabId: string): void {
+    const key = `${sessionId}:${tabId}`;
+    const pending = this.getPending(key);
+    this.pending.delete(key);
+    if (!pending || !pending.acted) return;
+
+    const runnerUp = pending.candidates.find((_, i) => i !== pending.chosen);
+    if (runnerUp) {
+      this.learn(pending.domain, runnerUp.features, pending.candidates[pending.chosen].features, ElementRanker.LEARNING_RATE / 2);
+    }
+  }
+
+  /**
+   * Drop sites not updated for STALE_DAYS and cap the number of sites kept.
+   */
+  compress(): { pruned: number; remaining: number } {
+    const before = this.domains.size;
+    const staleCutoff = Date.now() - ElementRanker.STALE_DAYS * 24 * 60 * 60 * 1000;
+
+    const kept = Array.from(this.domains.values())
+      .filter((d) => d.updatedAt >= staleCutoff)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, ElementRanker.MAX_DOMAINS);
+    this.domains = new Map(kept.map((d) => [d.domain, d]));
+
+    const pruned = before - this.domains.size;
+    if (pruned > 0) {
+      this.dirty = true;
+      this.scheduleSave();
+      console.error(`[ElementRanker] Compressed: pruned ${pruned}, remaining ${this.domains.size}`);
+    }
+    return { pruned, remaining: this.domains.size };
+  }
+
+  /**
+   * Get all learned sites (for testing/inspection).
+   */
+  getAll(): DomainWeights[] {
+    return Array.from(this.domains.values());
+  }
+
+  /** The pick was right: reinforce it over the best-ranked alternative */
+  private confirm(pending: PendingChoice): void {
+    if (pending.learned || !pending.acted) return;
+    pending.learned = true;
+    const runnerUp = pending.candidates.find((_, i) => i !== pending.chosen);
+    if (runnerUp) {
+      this.learn(pending.domain, pending.candidates[pending.chosen].features, runnerUp.features, ElementRanker.CONFIRM_RATE);
+    }
+  }
+
+  private learn(domain: string, better: string[], worse: string[], rate: number): void {
+    const betterSet = new Set(better);
+    const worseSet = new Set(worse);
+    let entry = this.domains.get(domain);
+    if (!entry) {
+      entry = { domain, weights: {}, updates: 0, updatedAt: Date.now() };
+      this.domains.set(domain, entry);
+    }
+
+    const adjust = (feature: string, delta: number) => {
+      const weight = Math.max(-ElementRanker.MAX_WEIGHT, Math.min(ElementRanker.MAX_WEIGHT, (entry!.weights[feature] || 0) + delta));
+      if (weight === 0) {
+        delete entry!.weights[feature];
+      } else {
+        entry!.weights[feature] = weight;
+      }
+    };
+    for (const feature of betterSet) {
+      if (!worseSet.has(feature)) adjust(feature, rate);
+    }
+    for (const feature of worseSet) {
+      if (!betterSet.has(feature)) adjust(feature, -rate);
+    }
+
+    // Keep the strongest weights when a site grows too many features
+    const features = Object.entries(entry.weights);
+    if (features.length > ElementRanker.MAX_FEATURES) {
+      features.sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]));
+      entry.weights = Object.fromEntries(features.slice(0, ElementRanker.MAX_FEATURES));
+    }
+
+    entry.updates++;
+    entry.updatedAt = Date.now();
+    this.dirty = true;
+    this.scheduleSave();
+  }
+
+  private getPending(key: string): PendingChoice | undefined {
+    const pending = this.pending.get(key);
+    if (pending && Date.now() - pending.at > ElementRanker.FOLLOW_UP_WINDOW_MS) {
+      this.pending.delete(key);
+      return undefined;
+    }
+    return pending;
+  }
+
+  private setPending(key: string, choice: PendingChoice): void {
+    this.pending.delete(key);
+    this.pending.set(key, choice);
+    // Map keeps insertion order: drop the oldest tab first
+    if (this.pending.size > ElementRanker.MAX_PENDING) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest !== undefined) this.pending.delete(oldest);
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath) return;
+    try {
+      const data = fs.readFileSync(this.filePath, 'utf-8');
+      const store: RankingStore = JSON.parse(data);
+      this.domains = new Map((store.domains || []).map((d) => [d.domain, d]));
+    } catch {
+      this.domains = new Map();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, ElementRanker.SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write pending changes now instead of after the debounce.
+   */
+  save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.saving = this.saving.then(async () => {
+      const filePath = this.filePath;
+      if (!filePath || !this.dirty) return;
+      this.dirty = false;
+      try {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(this.toStore(), null, 2));
+        await fs.promises.rename(tmpPath, filePath);
+      } catch {
+        // Best-effort; retried with the next change
+        this.dirty = true;
+      }
+    });
+    return this.saving;
+  }
+
+  /**
+   * Write pending changes synchronously. For process exit, where async work never runs.
+   */
+  saveSync(): void {
+    if (!this.filePath || !this.dirty) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.toStore(), null, 2));
+      this.dirty = false;
+    } catch {
+      // Best-effort
+    }
+  }
+
+  private toStore(): RankingStore {
+    return {
+      version: 1,
+      domains: Array.from(this.domains.values()),
+      updatedAt: Date.now(),
+    };
+  }
+}
+
+function sameFeatures(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((feature, i) => feature === b[i]);
+}
+
+// Singleton
+let instance: ElementRanker | null = null;
+
+export function getElementRanker(): ElementRanker {
+  if (!instance) {
+    instance = new ElementRanker();
+    const memoryDir = path.join(os.homedir(), '.openchrome', 'memory');
+    instance.enablePersistence(memoryDir);
+    const ranker = instance;
+    process.on('exit', () => ranker.saveSync());
+  }
+  return instance;
+}
@@ -0,0 +1,405 @@
+/**
+ * Download Manager - Per-worker download directories and completion tracking
+ *
+ * Chrome is told (Browser.setDownloadBehavior with allowAndName) to save each worker's
+ * downloads into its own directory, scoped by browser context, so parallel workers
+ * exporting the same report never overwrite each other. Chrome names files by GUID;
+ * once a download completes the file is renamed to its suggested filename and its
+ * size, MIME type and SHA-256 are recorded.
+ *
+ * The download path of Chrome's default browser context is browser-wide, so workers
+ * without their own context (shareCookies) cannot be isolated: they all share one
+ * directory, and their downloads are told apart by the tab that started them.
+ * Directories are created on the first download, not when workers are set up.
+ */
+
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, CDPSession } from 'puppeteer-core';
+import type { Worker } from '../types/session';
+
+export type DownloadState = 'inProgress' | 'completed' | 'canceled' | 'failed';
+
+export interface DownloadRecord {
+  guid: string;
+  url: string;
+  suggestedFilename: string;
+  sessionId?: string;
+  workerId?: string;
+  /** Tab that started the download, when it was a main frame */
+  tabId?: string;
+  state: DownloadState;
+  receivedBytes: number;
+  totalBytes: number;
+  startedAt: number;
+  completedAt?: number;
+  path?: string;
+  size?: number;
+  mimeType?: string;
+  sha256?: string;
+  error?: string;
+}
+
+export interface DownloadFilter {
+  sessionId: string;
+  workerId?: string;
+  tabId?: string;
+}
+
+interface DirectoryOwner {
+  sessionId: string;
+  workerId: string;
+  dir: string;
+  /** Live reference to the worker's target set, used to attribute downloads to tabs */
+  targets: Set<string>;
+}
+
+/** Directory under the root shared by workers in Chrome's default browser context */
+const DEFAULT_CONTEXT_DIR = '_default-context';
+
+/** Completed downloads kept for list/wait */
+const MAX_RECORDS = 200;
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.ics': 'text/calendar',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+};
+
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/** Default root for worker download directories */
+export function getDefaultDownloadRoot(): string {
+  return path.join(process.cwd(), '.openchrome', 'downloads');
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, '_').slice(0, 64) || '_';
+}
+
+/** Strip directory parts and characters that are invalid in file names */
+function safeFilename(name: string, fallback: string): string {
+  const base = path.basename(name.replace(/\\/g, '/')).replace(/[<>:"|?*\x00-\x1f]/g, '_').trim();
+  return base && base !== '.' && base !== '..' ? base : fallback;
+}
+
+/** First free path for a filename in dir: report.csv, report (1).csv, ... */
+function uniquePath(dir: string, filename: string): string {
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  let candidate = path.join(dir, filename);
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = path.join(dir, `${stem} (${i})${ext}`);
+  }
+  return candidate;
+}
+
+async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+export class DownloadManager extends EventEmitter {
+  private readonly browserSessions = new WeakMap<Browser, Promise<CDPSession | null>>();
+  /** Download path set for each browser's default context */
+  private readonly defaultContextDirs = new WeakMap<Browser, string>();
+  /** Browser contexts of workers with their own download directory */
+  private readonly contextIds = new Set<string>();
+  /** Keyed by session and worker ID */
+  private readonly owners = new Map<string, DirectoryOwner>();
+  private readonly records = new Map<string, DownloadRecord>();
+  /** GUIDs already returned by wait() */
+  private readonly reported = new Set<string>();
+  /** GUIDs whose final progress event is being handled */
+  private readonly finishing = new Set<string>();
+
+  constructor(private readonly root: string = getDefaultDownloadRoot()) {
+    super();
+  }
+
+  /** Default directory for a worker: <root>/<sessionId>/<workerId> */
+  getWorkerDirectory(sessionId: string, workerId: string): string {
+    return path.join(this.root, safeSegment(sessionId), safeSegment(workerId));
+  }
+
+  /** Directory shared by all workers in Chrome's default browser context */
+  getDefaultContextDirectory(): string {
+    return path.join(this.root, DEFAULT_CONTEXT_DIR);
+  }
+
+  /**
+   * Route a worker's downloads into its own directory, or the shared default-context
+   * directory for a worker without its own browser context. Sets worker.downloadDir on
+   * success. Failures (e.g. a browser without Browser domain access) are logged and
+   * leave the worker on Chrome's default download behavior.
+   * Throws if a directory is requested for a worker without its own context.
+   */
+  async configureWorker(browser: Browser, sessionId: string, worker: Worker, directory?: string): Promise<string | null> {
+    const contextId = worker.context?.id;
+    if (!contextId && directory) {
+      throw new Error(
+        `Worker ${worker.id} uses Chrome's default browser context, whose download directory is shared by every ` +
+        'worker in it. Create the worker with its own context (shareCookies: false) to give it a separate directory.'
+      );
+    }
+
+    const dir = path.resolve(contextId ? directory ?? this.getWorkerDirectory(sessionId, worker.id) : this.getDefaultContextDirectory());
+    try {
+      const session = await this.getBrowserSession(browser);
+      if (!session) return null;
+
+      // The default context's path is set once; resetting it per worker would move every worker's downloads
+      if (contextId || this.defaultContextDirs.get(browser) !== dir) {
+        await session.send('Browser.setDownloadBehavior', {
+          behavior: 'allowAndName',
+          downloadPath: dir,
+          eventsEnabled: true,
+          ...(contextId && { browserContextId: contextId }),
+        });
+        if (!contextId) this.defaultContextDirs.set(browser, dir);
+      }
+      if (contextId) this.contextIds.add(contextId);
+
+      this.owners.set(this.ownerKey(sessionId, worker.id), { sessionId, workerId: worker.id, dir, targets: worker.targets });
+      worker.downloadDir = dir;
+      return dir;
+    } catch (error) {
+      console.error(`[DownloadManager] Could not set download directory for worker ${worker.id}:`, error);
+      return null;
+    }
+  }
+
+  /** Stop attributing downloads to a deleted worker (files are kept) */
+  releaseWorker(sessionId: string, worker: Worker): void {
+    this.owners.delete(this.ownerKey(sessionId, worker.id));
+    if (worker.context?.id) this.contextIds.delete(worker.context.id);
+  }
+
+  /**
+   * Whether downloads in a browser context (the default one when contextId is
+   * undefined) are routed to a directory. Page.setDownloadBehavior applies to the
+   * page's whole context, so pages there must not deny downloads.
+   */
+  managesContext(browser: Browser, contextId?: string): boolean {
+    return contextId ? this.contextIds.has(contextId) : this.defaultContextDirs.has(browser);
+  }
+
+  /** Downloads for a session (optionally one worker or tab), oldest first */
+  list(filter: DownloadFilter): DownloadRecord[] {
+    return Array.from(this.records.values()).filter(record => this.matches(record, filter));
+  }
+
+  /**
+   * Resolve with the oldest finished download matching the filter that wait() has not
+   * returned yet, waiting up to timeoutMs for one. Resolves null on timeout.
+   */
+  wait(filter: DownloadFilter, timeoutMs: number): Promise<DownloadRecord | null> {
+    const take = (): DownloadRecord | null => {
+      for (const record of this.records.values()) {
+        if (record.state !== 'inProgress' && !this.reported.has(record.guid) && this.matches(record, filter)) {
+          this.reported.add(record.guid);
+          return record;
+        }
+      }
+      return null;
+    };
+
+    const ready = take();
+    if (ready) return Promise.resolve(ready);
+
+    return new Promise(resolve => {
+      const onFinished = () => {
+        const record = take();
+        if (record) {
+          cleanup();
+          resolve(record);
+        }
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve(null);
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('finished', onFinished);
+      };
+      this.on('finished', onFinished);
+    });
+  }
+
+  /** Downloads matching the filter that are still in progress */
+  pending(filter: DownloadFilter): DownloadRecord[] {
+    return this.list(filter).filter(record => record.state === 'inProgress');
+  }
+
+  private ownerKey(sessionId: string, workerId: string): string {
+    return `${sessionId}\u0000${workerId}`;
+  }
+
+  private matches(record: DownloadRecord, filter: DownloadFilter): boolean {
+    if (record.sessionId !== filter.sessionId) return false;
+    if (filter.workerId && record.workerId !== filter.workerId) return false;
+    if (filter.tabId && record.tabId !== filter.tabId) return false;
+    return true;
+  }
+
+  private getBrowserSession(browser: Browser): Promise<CDPSession | null> {
+    let session = this.browserSessions.get(browser);
+    if (!session) {
+      session = Promise.resolve()
+        .then(() => browser.target().createCDPSession())
+        .then(client => {
+          client.on('Browser.downloadWillBegin', event => this.onWillBegin(event));
+          client.on('Browser.downloadProgress', event => this.onProgress(event));
+          return client;
+        })
+        .catch(error => {
+          console.error('[DownloadManager] Could not open a browser CDP session; downloads use Chrome defaults:', error);
+          return null;
+        });
+      this.browserSessions.set(browser, session);
+    }
+    return session;
+  }
+
+  /** @internal exposed for tests */
+  onWillBegin(event: { frameId: string; guid: string; url: string; suggestedFilename: string }): void {
+    let owner: DirectoryOwner | undefined;
+    for (const candidate of this.owners.values()) {
+      if (candidate.targets.has(event.frameId)) {
+        owner = candidate;
+        break;
+      }
+    }
+
+    // Subframe downloads do not say which directory Chrome picked, so make sure all exist
+    for (const dir of owner ? [owner.dir] : this.directories()) {
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+      } catch (error) {
+        console.error(`[DownloadManager] Could not create download directory ${dir}:`, error);
+      }
+    }
+
+    this.records.set(event.guid, {
+      guid: event.guid,
+      url: event.url,
+      suggestedFilename: event.suggestedFilename,
+      ...(owner && { sessionId: owner.sessionId, workerId: owner.workerId, tabId: event.frameId }),
+      state: 'inProgress',
+      receivedBytes: 0,
+      totalBytes: 0,
+      startedAt: Date.now(),
+    });
+    this.prune();
+  }
+
+  /** @internal exposed for tests */
+  async onProgress(event: { guid: string; totalBytes: number; receivedBytes: number; state: 'inProgress' | 'completed' | 'canceled' }): Promise<void> {
+    const record = this.records.get(event.guid);
+    if (!record || record.state !== 'inProgress' || this.finishing.has(event.guid)) return;
+
+    record.receivedBytes = event.receivedBytes;
+    record.totalBytes = event.totalBytes;
+    if (event.state === 'inProgress') return;
+
+    this.finishing.add(event.guid);
+    if (event.state === 'canceled') {
+      record.state = 'canceled';
+    } else {
+      await this.finalize(record);
+    }
+    this.finishing.delete(event.guid);
+    record.completedAt = Date.now();
+    this.emit('finished', record);
+  }
+
+  /** Give the GUID-named file its suggested name and record its metadata */
+  private async finalize(record: DownloadRecord): Promise<void> {
+    let source: string | undefined;
+    for (const dir of this.directories()) {
+      const candidate = path.join(dir, record.guid);
+      if (fs.existsSync(candidate)) {
+        source = candidate;
+        // Subframe downloads are only attributable by where Chrome saved them, if only one worker saves there
+        const owners = Array.from(this.owners.values()).filter(owner => owner.dir === dir);
+        if (!record.sessionId && owners.length === 1) {
+          record.sessionId = owners[0].sessionId;
+          record.workerId = owners[0].workerId;
+        }
+        break;
+      }
+    }
+    if (!source) {
+      record.state = 'failed';
+      record.error = 'Download finished but the file was not found in any worker download directory';
+      return;
+    }
+
+    try {
+      const target = uniquePath(path.dirname(source), safeFilename(record.suggestedFilename, record.guid));
+      await fs.promises.rename(source, target);
+      record.path = target;
+      record.size = (await fs.promises.stat(target)).size;
+      record.mimeType = guessMimeType(target);
+      record.sha256 = await sha256File(target);
+      record.state = 'completed';
+    } catch (error) {
+      record.state = 'failed';
+      record.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private directories(): string[] {
+    return Array.from(new Set(Array.from(this.owners.values(), owner => owner.dir)));
+  }
+
+  private prune(): void {
+    for (const [guid, record] of this.records) {
+      if (this.records.size <= MAX_RECORDS) break;
+      if (record.state === 'inProgress') continue;
+      this.records.delete(guid);
+      this.reported.delete(guid);
+    }
+  }
+}
+
+let manager: DownloadManager | null = null;
+
+export function getDownloadManager(): DownloadManager {
+  if (!manager) {
+    manager = new DownloadManager();
+  }
+  return manager;
+}
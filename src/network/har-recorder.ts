@@ -0,0 +1,471 @@
+/**
+ * HAR Recorder - Builds HAR 1.2 entries from CDP Network.* events
+ *
+ * Pure state machine: the caller subscribes to CDP events and feeds them in.
+ * Header, cookie, query and body field values whose names match the audit-logger
+ * redaction list are replaced with [REDACTED] when the HAR is built.
+ */
+
+import { isSensitiveKey } from '../security/audit-logger';
+import {
+  HarContent,
+  HarEntry,
+  HarFile,
+  HarNameValue,
+  HarPostData,
+  HarResponse,
+  HarTimings,
+} from '../types/har';
+import { getVersion } from '../version';
+
+const REDACTED = '[REDACTED]';
+
+// Subset of the CDP Network domain payloads used by the recorder
+
+export interface CdpResourceTiming {
+  requestTime: number;
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  receiveHeadersEnd: number;
+}
+
+export interface CdpRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  postData?: string;
+}
+
+export interface CdpResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  mimeType: string;
+  protocol?: string;
+  remoteIPAddress?: string;
+  timing?: CdpResourceTiming;
+  encodedDataLength?: number;
+}
+
+export interface RequestWillBeSentEvent {
+  requestId: string;
+  request: CdpRequest;
+  timestamp: number;
+  wallTime: number;
+  type?: string;
+  redirectResponse?: CdpResponse;
+}
+
+export interface ResponseReceivedEvent {
+  requestId: string;
+  timestamp: number;
+  type?: string;
+  response: CdpResponse;
+}
+
+export interface LoadingFinishedEvent {
+  requestId: string;
+  timestamp: number;
+  encodedDataLength: number;
+}
+
+export interface LoadingFailedEvent {
+  requestId: string;
+  timestamp: number;
+  errorText: string;
+  canceled?: boolean;
+}
+
+export interface RecordedBody {
+  text: string;
+  base64Encoded: boolean;
+  truncated?: boolean;
+}
+
+export interface RecordedRequest {
+  requestId: string;
+  request: CdpRequest;
+  /** Monotonic CDP timestamp (seconds) */
+  timestamp: number;
+  /** Wall clock (seconds since epoch) */
+  wallTime: number;
+  resourceType?: string;
+  response?: CdpResponse;
+  redirectURL?: string;
+  endTimestamp?: number;
+  encodedDataLength?: number;
+  errorText?: string;
+  body?: RecordedBody;
+}
+
+export interface HarRecorderOptions {
+  /** Stop recording new requests after this many (default: 1000) */
+  maxEntries?: number;
+}
+
+export class HarRecorder {
+  private readonly maxEntries: number;
+  private inFlight: Map<string, RecordedRequest> = new Map();
+  private completed: RecordedRequest[] = [];
+  private dropped = 0;
+
+  constructor(options: HarRecorderOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  onRequestWillBeSent(event: RequestWillBeSentEvent): void {
+    const previous = this.inFlight.get(event.requestId);
+    if (previous && event.redirectResponse) {
+      // Redirect hops reuse the requestId: close out the previous hop
+      previous.response = event.redirectResponse;
+      previous.redirectURL = event.request.url;
+      previous.endTimestamp = event.timestamp;
+      this.complete(previous);
+    }
+
+    if (this.size >= this.maxEntries) {
+      this.dropped++;
+      return;
+    }
+
+    this.inFlight.set(event.requestId, {
+      requestId: event.requestId,
+      request: event.request,
+      timestamp: event.timestamp,
+      wallTime: event.wallTime,
+      resourceType: event.type,
+    });
+  }
+
+  onResponseReceived(event: ResponseReceivedEvent): void {
+    const entry = this.inFlight.get(event.requestId);
+    if (!entry) return;
+    entry.response = event.response;
+    entry.resourceType = event.type ?? entry.resourceType;
+  }
+
+  /** Returns the finished entry so the caller can attach a response body */
+  onLoadingFinished(event: LoadingFinishedEvent): RecordedRequest | null {
+    const entry = this.inFlight.get(event.requestId);
+    if (!entry) return null;
+    entry.endTimestamp = event.timestamp;
+    entry.encodedDataLength = event.encodedDataLength;
+    this.complete(entry);
+    return entry;
+  }
+
+  onLoadingFailed(event: LoadingFailedEvent): void {
+    const entry = this.inFlight.get(event.requestId);
+    if (!entry) return;
+    entry.endTimestamp = event.timestamp;
+    entry.errorText = event.canceled ? `${event.errorText} (canceled)` : event.errorText;
+    this.complete(entry);
+  }
+
+  /** Number of recorded requests (completed + in flight) */
+  get size(): number {
+    return this.completed.length + this.inFlight.size;
+  }
+
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  clear(): void {
+    this.inFlight.clear();
+    this.completed = [];
+    this.dropped = 0;
+  }
+
+  /**
+   * Build a HAR document. In-flight requests are included with status 0.
+   */
+  toHar(comment?: string): HarFile {
+    const all = [...this.completed, ...this.inFlight.values()]
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'openchrome', version: getVersion() },
+        entries: all.map(toHarEntry),
+        ...(comment && { comment }),
+      },
+    };
+  }
+
+  private complete(entry: RecordedRequest): void {
+    this.inFlight.delete(entry.requestId);
+    this.completed.push(entry);
+  }
+}
+
+// ============================================
+// HAR conversion
+// ============================================
+
+function toHarEntry(entry: RecordedRequest): HarEntry {
+  const requestHeaders = headerList(entry.request.headers);
+  const url = redactUrl(entry.request.url);
+  const timings = computeTimings(entry);
+  const time = [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive]
+    .filter(t => t > 0)
+    .reduce((sum, t) => sum + t, 0);
+  const postData = entry.request.postData !== undefined
+    ? buildPostData(entry.request.postData, headerValue(entry.request.headers, 'content-type'))
+    : undefined;
+
+  return {
+    startedDateTime: new Date(entry.wallTime * 1000).toISOString(),
+    time: round(time),
+    request: {
+      method: entry.request.method,
+      url,
+      httpVersion: httpVersion(entry.response?.protocol),
+      cookies: parseCookieHeader(headerValue(entry.request.headers, 'cookie')),
+      headers: redactHeaders(requestHeaders),
+      queryString: queryString(url),
+      ...(postData && { postData }),
+      headersSize: -1,
+      bodySize: entry.request.postData !== undefined ? Buffer.byteLength(entry.request.postData) : 0,
+    },
+    response: buildResponse(entry),
+    cache: {},
+    timings,
+    ...(entry.response?.remoteIPAddress && { serverIPAddress: entry.response.remoteIPAddress }),
+    ...(entry.resourceType && { _resourceType: entry.resourceType }),
+  };
+}
+
+function buildResponse(entry: RecordedRequest): HarResponse {
+  const response = entry.response;
+  if (!response) {
+    return {
+      status: 0,
+      statusText: '',
+      httpVersion: '',
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: 'x-unknown' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+      ...(entry.errorText && { _error: entry.errorText }),
+    };
+  }
+
+  const content: HarContent = {
+    size: entry.body ? bodyByteLength(entry.body) : 0,
+    mimeType: response.mimeType || 'x-unknown',
+  };
+  if (entry.body) {
+    if (entry.body.base64Encoded) {
+      content.text = entry.body.text;
+      content.encoding = 'base64';
+    } else {
+      content.text = redactBodyText(entry.body.text, response.mimeType);
+    }
+    if (entry.body.truncated) {
+      content.comment = 'Body truncated';
+    }
+  }
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    httpVersion: httpVersion(response.protocol),
+    cookies: parseSetCookieHeader(headerValue(response.headers, 'set-cookie')),
+    headers: redactHeaders(headerList(response.headers)),
+    content,
+    redirectURL: entry.redirectURL ?? '',
+    headersSize: -1,
+    bodySize: entry.encodedDataLength ?? response.encodedDataLength ?? -1,
+    ...(entry.errorText && { _error: entry.errorText }),
+  };
+}
+
+/**
+ * Map CDP ResourceTiming (ms offsets from requestTime) onto HAR phases.
+ */
+function computeTimings(entry: RecordedRequest): HarTimings {
+  const totalMs = entry.endTimestamp !== undefined
+    ? Math.max(0, (entry.endTimestamp - entry.timestamp) * 1000)
+    : 0;
+  const t = entry.response?.timing;
+  if (!t) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: round(totalMs), receive: 0 };
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? round(end - start) : -1);
+  const firstStart = [t.dnsStart, t.connectStart, t.sendStart].find(v => v >= 0) ?? 0;
+  const requestStartOffset = (t.requestTime - entry.timestamp) * 1000;
+  const endOffset = entry.endTimestamp !== undefined
+    ? (entry.endTimestamp - t.requestTime) * 1000
+    : t.receiveHeadersEnd;
+
+  return {
+    blocked: round(Math.max(0, requestStartOffset + firstStart)),
+    dns: span(t.dnsStart, t.dnsEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.sslStart, t.sslEnd),
+    send: round(Math.max(0, t.sendEnd - t.sendStart)),
+    wait: round(Math.max(0, t.receiveHeadersEnd - t.sendEnd)),
+    receive: round(Math.max(0, endOffset - t.receiveHeadersEnd)),
+  };
+}
+
+// ============================================
+// Redaction helpers
+// ============================================
+
+function headerList(headers: Record<string, string> | undefined): HarNameValue[] {
+  if (!headers) return [];
+  const list: HarNameValue[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    // CDP joins repeated headers with newlines
+    for (const line of String(value).split('\n')) {
+      list.push({ name, value: line });
+    }
+  }
+  return list;
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+function redactHeaders(headers: HarNameValue[]): HarNameValue[] {
+  return headers.map(h => (isSensitiveKey(h.name) ? { name: h.name, value: REDACTED } : h));
+}
+
+function parseCookieHeader(header: string | undefined): HarNameValue[] {
+  if (!header) return [];
+  return header
+    .split(';')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => ({ name: part.split('=')[0].trim(), value: REDACTED }));
+}
+
+function parseSetCookieHeader(header: string | undefined): HarNameValue[] {
+  if (!header) return [];
+  return header
+    .split('\n')
+    .map(line => line.split(';')[0].trim())
+    .filter(Boolean)
+    .map(pair => ({ name: pair.split('=')[0].trim(), value: REDACTED }));
+}
+
+/**
+ * Replace sensitive query parameter values in a URL. Unparseable URLs are returned as-is.
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  let changed = false;
+  for (const key of Array.from(new Set(parsed.searchParams.keys()))) {
+    if (isSensitiveKey(key)) {
+      parsed.searchParams.set(key, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? parsed.toString() : url;
+}
+
+function queryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function buildPostData(text: string, contentType: string | undefined): HarPostData {
+  const mimeType = contentType ?? '';
+  const redacted = redactRequestBody(text, contentType);
+  if (mimeType.includes('application/x-www-form-urlencoded')) {
+    return {
+      mimeType,
+      text: redacted,
+      params: Array.from(new URLSearchParams(redacted).entries()).map(([name, value]) => ({ name, value })),
+    };
+  }
+  return { mimeType, text: redacted };
+}
+
+/**
+ * Redact a request body the way it is stored in postData.text.
+ * Replay hashes live request bodies through this so they match recorded ones.
+ */
+export function redactRequestBody(text: string, contentType: string | undefined): string {
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    const params = new URLSearchParams(text);
+    const redacted = new URLSearchParams();
+    for (const [name, value] of params.entries()) {
+      redacted.append(name, isSensitiveKey(name) ? REDACTED : value);
+    }
+    return redacted.toString();
+  }
+  return redactBodyText(text, contentType);
+}
+
+/**
+ * Redact sensitive keys in JSON bodies; other body types pass through unchanged.
+ */
+function redactBodyText(text: string, mimeType: string | undefined): string {
+  if (!mimeType || !/json/i.test(mimeType)) return text;
+  try {
+    return JSON.stringify(redactJson(JSON.parse(text)));
+  } catch {
+    return text;
+  }
+}
+
+function redactJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactJson);
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      result[k] = isSensitiveKey(k) ? REDACTED : redactJson(v);
+    }
+    return result;
+  }
+  return value;
+}
+
+// ============================================
+// Misc
+// ============================================
+
+function httpVersion(protocol: string | undefined): string {
+  if (!protocol) return '';
+  const lower = protocol.toLowerCase();
+  if (lower === 'h2') return 'HTTP/2';
+  if (lower === 'h3' || lower.startsWith('h3-')) return 'HTTP/3';
+  return protocol.toUpperCase();
+}
+
+function bodyByteLength(body: RecordedBody): number {
+  return body.base64Encoded ? Buffer.from(body.text, 'base64').length : Buffer.byteLength(body.text);
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 1000) / 1000;
+}
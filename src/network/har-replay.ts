@@ -0,0 +1,191 @@
+/**
+ * HAR Replayer - Serves recorded HAR responses for matching live requests
+ *
+ * Loads one HAR file or a directory of them (e.g. the output of network_record)
+ * and indexes entries by a configurable key (URL, method, body hash). Entries that
+ * share a key are played back in recorded order; the last one repeats once exhausted.
+ */
+
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { HarEntry, HarFile } from '../types/har';
+import { redactRequestBody, redactUrl } from './har-recorder';
+
+export type HarMatchField = 'url' | 'method' | 'body';
+
+export const DEFAULT_HAR_MATCH_FIELDS: HarMatchField[] = ['url', 'method'];
+
+export interface ReplayRequest {
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  postData?: string;
+}
+
+export interface ReplayResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  contentType: string;
+  body: Buffer;
+}
+
+// Headers that describe the original wire encoding, not the decoded body we replay
+const STRIPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+/**
+ * Read HAR entries from a .har file or every .har file in a directory (sorted by name).
+ */
+export async function loadHarEntries(source: string): Promise<HarEntry[]> {
+  const stat = await fs.stat(source);
+  const files = stat.isDirectory()
+    ? (await fs.readdir(source))
+        .filter(name => name.endsWith('.har'))
+        .sort()
+        .map(name => path.join(source, name))
+    : [source];
+
+  const entries: HarEntry[] = [];
+  for (const file of files) {
+    let har: HarFile;
+    try {
+      har = JSON.parse(await fs.readFile(file, 'utf8')) as HarFile;
+    } catch (err) {
+      throw new Error(`Invalid HAR file ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!har?.log || !Array.isArray(har.log.entries)) {
+      throw new Error(`Invalid HAR file ${file}: missing log.entries`);
+    }
+    entries.push(...har.log.entries);
+  }
+  return entries;
+}
+
+export class HarReplayer {
+  private readonly matchOn: HarMatchField[];
+  private index: Map<string, { entries: HarEntry[]; next: number }> = new Map();
+  private indexedCount = 0;
+
+  constructor(entries: HarEntry[], matchOn: HarMatchField[] = DEFAULT_HAR_MATCH_FIELDS) {
+    this.matchOn = matchOn.length > 0 ? matchOn : DEFAULT_HAR_MATCH_FIELDS;
+    for (const entry of entries) {
+      // Requests that never got a response can't be replayed
+      if (!entry.response || entry.response.status === 0) continue;
+      const key = this.keyFor({
+        url: entry.request.url,
+        method: entry.request.method,
+        postData: entry.request.postData?.text,
+      }, true);
+      const bucket = this.index.get(key);
+      if (bucket) {
+        bucket.entries.push(entry);
+      } else {
+        this.index.set(key, { entries: [entry], next: 0 });
+      }
+      this.indexedCount++;
+    }
+  }
+
+  static async fromPath(source: string, matchOn?: HarMatchField[]): Promise<HarReplayer> {
+    return new HarReplayer(await loadHarEntries(source), matchOn);
+  }
+
+  get entryCount(): number {
+    return this.indexedCount;
+  }
+
+  get fields(): HarMatchField[] {
+    return [...this.matchOn];
+  }
+
+  /**
+   * Find the recorded response for a live request, or null if nothing matches.
+   */
+  match(request: ReplayRequest): ReplayResponse | null {
+    const bucket = this.index.get(this.keyFor(request, false));
+    if (!bucket) return null;
+    const entry = bucket.entries[Math.min(bucket.next, bucket.entries.length - 1)];
+    bucket.next++;
+    return toReplayResponse(entry);
+  }
+
+  /** Rewind sequential playback to the first recorded response for every key */
+  reset(): void {
+    for (const bucket of this.index.values()) {
+      bucket.next = 0;
+    }
+  }
+
+  private keyFor(request: ReplayRequest, recorded: boolean): string {
+    const parts: string[] = [];
+    for (const field of this.matchOn) {
+      switch (field) {
+        case 'url':
+          parts.push(normalizeUrl(request.url, recorded));
+          break;
+        case 'method':
+          parts.push(request.method.toUpperCase());
+          break;
+        case 'body': {
+          // Recorded bodies are already redacted; live bodies are redacted the same way before hashing
+          const body = request.postData === undefined
+            ? ''
+            : recorded
+              ? request.postData
+              : redactRequestBody(request.postData, headerValue(request.headers, 'content-type'));
+          parts.push(crypto.createHash('sha256').update(body).digest('hex'));
+          break;
+        }
+      }
+    }
+    return parts.join(' ');
+  }
+}
+
+/**
+ * Drop the fragment and sort query params so param order doesn't affect matching.
+ * Live URLs get the recorder's redaction so redacted recorded params still match.
+ */
+function normalizeUrl(url: string, recorded: boolean): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(recorded ? url : redactUrl(url));
+  } catch {
+    return url;
+  }
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+function toReplayResponse(entry: HarEntry): ReplayResponse {
+  const headers: Record<string, string | string[]> = {};
+  for (const { name, value } of entry.response.headers) {
+    const lower = name.toLowerCase();
+    if (STRIPPED_RESPONSE_HEADERS.has(lower) || value === '[REDACTED]') continue;
+    const existing = headers[lower];
+    if (existing === undefined) {
+      headers[lower] = value;
+    } else {
+      headers[lower] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+
+  const content = entry.response.content;
+  const body = content?.text === undefined
+    ? Buffer.alloc(0)
+    : Buffer.from(content.text, content.encoding === 'base64' ? 'base64' : 'utf8');
+
+  return {
+    status: entry.response.status,
+    headers,
+    contentType: content?.mimeType && content.mimeType !== 'x-unknown' ? content.mimeType : '',
+    body,
+  };
+}
@@ -3,23 +3,31 @@
  *
  * Bypasses per-step agent LLM round-trips by resolving and calling tool handlers
  * directly from the MCP server's internal registry.
+ *
+ * With a selector healer, CSS selector args are checked before each step: the
+ * element behind a selector is fingerprinted the first time it is found, and a
+ * selector that stops matching is replaced by one for the element most like the
+ * fingerprint. The updated plan is handed back with a version bump.
  */
 
-import { MCPResult, ToolHandler } from '../types/mcp';
+import { MCPResult, ToolContext, ToolHandler } from '../types/mcp';
 import {
   CompiledPlan,
   CompiledStep,
+  ElementFingerprint,
+  HealedSelector,
   PlanErrorHandler,
   PlanExecutionResult,
 } from '../types/plan-cache';
-import { withTimeout } from '../utils/with-timeout';
+import { DEFAULT_ABORT_SETTLE_TIMEOUT_MS } from '../config/defaults';
+import { waitToSettle, withTimeout } from '../utils/with-timeout';
 
 /**
  * Recursively substitute ${varName} templates in a value using the params map.
  * Handles strings, objects, and arrays. Non-string primitives are returned as-is.
  * Missing vars are left as-is (no crash).
  */
-function substituteParams(value: unknown, params: Record<string, unknown>): unknown {
+export function substituteParams(value: unknown, params: Record<string, unknown>): unknown {
   if (typeof value === 'string') {
     return value.replace(/\$\{([^}]+)\}/g, (match, varName) => {
       const resolved = params[varName];
@@ -46,7 +54,7 @@ function substituteParams(value: unknown, params: Record<string, unknown>): unkn
  * Extract result data from an MCPResult according to parseResult spec.
  * Returns the extracted value (raw text, parsed JSON, or a specific field).
  */
-function extractResult(
+export function extractResult(
   mcpResult: MCPResult,
   parseResult: NonNullable<CompiledStep['parseResult']>
 ): unknown {
@@ -130,17 +138,108 @@ function validateSuccessCriteria(
   return null;
 }
 
+/** An element re-identified from a fingerprint */
+export interface HealedElement {
+  /** CSS selector that matches only the element */
+  selector: string;
+  fingerprint: ElementFingerprint;
+  similarity: number;
+}
+
+/** Page access used to fingerprint and re-identify the elements behind CSS selector args */
+export interface StepSelectorHealer {
+  /** Number of elements the selector matches in the tab */
+  count(sessionId: string, tabId: string, selector: string): Promise<number>;
+  /** Fingerprint of the element the selector matches, or null */
+  capture(sessionId: string, tabId: string, selector: string): Promise<ElementFingerprint | null>;
+  /** The element most like the fingerprint, or null when none is close enough */
+  heal(sessionId: string, tabId: string, fingerprint: ElementFingerprint): Promise<HealedElement | null>;
+}
+
+export interface PlanExecutorOptions {
+  healer?: StepSelectorHealer;
+  /** Called after a run that fingerprinted elements or healed selectors, with the updated plan */
+  onPlanUpdated?: (plan: CompiledPlan) => void;
+  /** How long a missing selector may take to appear before it is healed. Default: 2000 */
+  healGraceMs?: number;
+}
+
+/** Step args holding CSS selectors. wait_for is left out: its element is expected to be missing at first. */
+const SELECTOR_ARGS = ['selector', 'sourceSelector', 'targetSelector', 'nextSelector'];
+const DEFAULT_HEAL_GRACE_MS = 2000;
+const HEAL_POLL_MS = 250;
+
+/** Arg changes and fingerprints to write back into a step */
+interface StepUpdate {
+  args: Record<string, string>;
+  fingerprints: Record<string, ElementFingerprint>;
+}
+
+/** Selector args of a step that can be fingerprinted (literal selectors, no ${param}) */
+function selectorArgs(step: CompiledStep): string[] {
+  if (step.tool === 'wait_for') return [];
+  return SELECTOR_ARGS.filter((arg) => typeof step.args[arg] === 'string' && !(step.args[arg] as string).includes('${'));
+}
+
+/**
+ * Bump the patch part of a plan version ("1.0.0" → "1.0.1").
+ */
+export function bumpPlanVersion(version: string): string {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)$/);
+  return match ? `${match[1]}.${match[2]}.${Number(match[3]) + 1}` : `${version}.1`;
+}
+
 export class PlanExecutor {
   private toolResolver: (toolName: string) => ToolHandler | null;
+  private options: PlanExecutorOptions;
 
-  constructor(toolResolver: (toolName: string) => ToolHandler | null) {
+  constructor(toolResolver: (toolName: string) => ToolHandler | null, options: PlanExecutorOptions = {}) {
     this.toolResolver = toolResolver;
+    this.options = options;
   }
 
   async execute(
     plan: CompiledPlan,
     sessionId: string,
-    runtimeParams: Record<string, unknown>
+    runtimeParams: Record<string, unknown>,
+    context?: ToolContext
+  ): Promise<PlanExecutionResult> {
+    const updates = new Map<CompiledStep, StepUpdate>();
+    const healed: HealedSelector[] = [];
+    const result = await this.run(plan, sessionId, runtimeParams, context, updates, healed);
+
+    // Heals that worked stay valid even if a later step failed
+    if (updates.size > 0 && this.options.onPlanUpdated) {
+      const updated: CompiledPlan = {
+        ...plan,
+        version: healed.length > 0 ? bumpPlanVersion(plan.version) : plan.version,
+        steps: plan.steps.map((step) => {
+          const update = updates.get(step);
+          if (!update) return step;
+          return {
+            ...step,
+            args: { ...step.args, ...update.args },
+            fingerprints: { ...step.fingerprints, ...update.fingerprints },
+          };
+        }),
+      };
+      try {
+        this.options.onPlanUpdated(updated);
+      } catch (err) {
+        console.error(`[PlanExecutor] Failed to save updated plan=${plan.id}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    return healed.length > 0 ? { ...result, healedSelectors: healed } : result;
+  }
+
+  private async run(
+    plan: CompiledPlan,
+    sessionId: string,
+    runtimeParams: Record<string, unknown>,
+    context: ToolContext | undefined,
+    updates: Map<CompiledStep, StepUpdate>,
+    healed: HealedSelector[]
   ): Promise<PlanExecutionResult> {
     const startTime = Date.now();
     let stepsExecuted = 0;
@@ -167,6 +266,10 @@ export class PlanExecutor {
     for (const step of plan.steps) {
       const stepLabel = `plan=${plan.id} step=${step.order} tool=${step.tool}`;
 
+      if (context?.signal.aborted) {
+        return failure(`Cancelled before step ${step.order} (${step.tool})`);
+      }
+
       // a. Resolve handler
       const handler = this.toolResolver(step.tool);
       if (!handler) {
@@ -176,16 +279,18 @@ export class PlanExecutor {
       }
 
       // b. Substitute template variables in args
-      const substitutedArgs = substituteParams(step.args, params) as Record<string, unknown>;
+      let substitutedArgs = substituteParams(step.args, params) as Record<string, unknown>;
+
+      // Fingerprint the elements behind CSS selectors, or re-identify them if a selector stopped matching
+      const selectorCheck = await this.checkSelectors(step, substitutedArgs, sessionId, stepLabel);
+      if (selectorCheck) {
+        substitutedArgs = { ...substitutedArgs, ...selectorCheck.update.args };
+      }
 
       // c. Call handler with timeout
       let mcpResult: MCPResult;
       try {
-        mcpResult = await withTimeout(
-          handler(sessionId, substitutedArgs),
-          step.timeout,
-          stepLabel
-        );
+        mcpResult = await this.runStepHandler(handler, sessionId, substitutedArgs, step.timeout, stepLabel, context?.signal);
         stepsExecuted++;
       } catch (err) {
         const errMsg = err instanceof Error ? err.message : String(err);
@@ -198,7 +303,8 @@ export class PlanExecutor {
           plan.errorHandlers,
           sessionId,
           params,
-          stepsExecuted
+          stepsExecuted,
+          context?.signal
         );
         if (recovered !== null) {
           stepsExecuted = recovered.stepsExecuted;
@@ -221,7 +327,8 @@ export class PlanExecutor {
           plan.errorHandlers,
           sessionId,
           params,
-          stepsExecuted
+          stepsExecuted,
+          context?.signal
         );
         if (recovered !== null) {
           stepsExecuted = recovered.stepsExecuted;
@@ -232,6 +339,15 @@ export class PlanExecutor {
         return failure(`Step ${step.order} (${step.tool}) returned error: ${errMsg}`);
       }
 
+      // New fingerprints and healed selectors are kept once the step worked with them
+      if (selectorCheck && (Object.keys(selectorCheck.captured).length > 0 || selectorCheck.healed.length > 0)) {
+        updates.set(step, {
+          args: selectorCheck.update.args,
+          fingerprints: { ...selectorCheck.captured, ...selectorCheck.update.fingerprints },
+        });
+        healed.push(...selectorCheck.healed);
+      }
+
       // e. Check for empty result (before storing) — may trigger empty_result handler
       if (isEmptyResult(mcpResult)) {
         const conditionKey = `step${step.order}_empty_result`;
@@ -240,7 +356,8 @@ export class PlanExecutor {
           plan.errorHandlers,
           sessionId,
           params,
-          stepsExecuted
+          stepsExecuted,
+          context?.signal
         );
         if (recovered !== null) {
           stepsExecuted = recovered.stepsExecuted;
@@ -264,6 +381,8 @@ export class PlanExecutor {
           // Non-fatal: continue without storing
         }
       }
+
+      context?.reportProgress(stepsExecuted, plan.steps.length, `Step ${step.order} (${step.tool}) done`);
     }
 
     // 3. Validate success criteria
@@ -291,6 +410,115 @@ export class PlanExecutor {
     };
   }
 
+  /**
+   * Check a step's CSS selector args in the page before running it. Selectors that
+   * match one element get a fingerprint if they have none; selectors that match
+   * nothing are healed from their fingerprint, after a short grace period in case
+   * the element is still rendering. Without a fingerprint there is nothing to wait for.
+   * Returns null when there is nothing to check.
+   */
+  private async checkSelectors(
+    step: CompiledStep,
+    args: Record<string, unknown>,
+    sessionId: string,
+    stepLabel: string
+  ): Promise<{ captured: Record<string, ElementFingerprint>; update: StepUpdate; healed: HealedSelector[] } | null> {
+    const healer = this.options.healer;
+    const tabId = args.tabId;
+    const selectorArgNames = selectorArgs(step);
+    if (!healer || typeof tabId !== 'string' || selectorArgNames.length === 0) return null;
+
+    const graceMs = this.options.healGraceMs ?? DEFAULT_HEAL_GRACE_MS;
+    const captured: Record<string, ElementFingerprint> = {};
+    const update: StepUpdate = { args: {}, fingerprints: {} };
+    const healed: HealedSelector[] = [];
+
+    for (const arg of selectorArgNames) {
+      const selector = step.args[arg] as string;
+      const original = step.fingerprints?.[arg];
+      try {
+        let matches = await healer.count(sessionId, tabId, selector);
+        const deadline = original ? Date.now() + graceMs : 0;
+        while (matches === 0 && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, HEAL_POLL_MS));
+          matches = await healer.count(sessionId, tabId, selector);
+        }
+
+        if (matches > 0) {
+          // Selectors for lists are not fingerprinted: healing them to one element would change the step
+          if (matches === 1 && !original) {
+            const fingerprint = await healer.capture(sessionId, tabId, selector);
+            if (fingerprint) captured[arg] = fingerprint;
+          }
+          continue;
+        }
+
+        if (!original) continue;
+        const found = await healer.heal(sessionId, tabId, original);
+        if (!found) {
+          console.error(`[PlanExecutor] No element like the one behind ${arg} "${selector}" at ${stepLabel}`);
+          continue;
+        }
+
+        console.error(
+          `[PlanExecutor] Healed ${arg} at ${stepLabel}: "${selector}" → "${found.selector}" (similarity ${found.similarity.toFixed(2)})`
+        );
+        update.args[arg] = found.selector;
+        update.fingerprints[arg] = found.fingerprint;
+        healed.push({
+          order: step.order,
+          arg,
+          from: selector,
+          to: found.selector,
+          similarity: Math.round(found.similarity * 100) / 100,
+        });
+      } catch (err) {
+        console.error(
+          `[PlanExecutor] Selector check failed for ${arg} at ${stepLabel}: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }
+
+    return { captured, update, healed };
+  }
+
+  /**
+   * Run one step's handler within the step timeout. The handler gets its own signal,
+   * aborted by the caller's signal or by the timeout; after an abort the step ends
+   * only once the handler has stopped, so the next step never races a stale one.
+   */
+  private async runStepHandler(
+    handler: ToolHandler,
+    sessionId: string,
+    args: Record<string, unknown>,
+    timeoutMs: number,
+    stepLabel: string,
+    parentSignal?: AbortSignal
+  ): Promise<MCPResult> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(parentSignal!.reason);
+    if (parentSignal?.aborted) {
+      onAbort();
+    } else {
+      parentSignal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    // Progress is reported per plan, not per step
+    const stepContext: ToolContext = { signal: controller.signal, reportProgress: () => {} };
+    const running = Promise.resolve(handler(sessionId, args, stepContext));
+    try {
+      return await withTimeout(running, timeoutMs, stepLabel);
+    } catch (err) {
+      if (!controller.signal.aborted) controller.abort(err);
+      if (!(await waitToSettle(running, DEFAULT_ABORT_SETTLE_TIMEOUT_MS))) {
+        console.error(`[PlanExecutor] Handler still running ${DEFAULT_ABORT_SETTLE_TIMEOUT_MS}ms after it was aborted at ${stepLabel}`);
+      }
+      throw err;
+    } finally {
+      parentSignal?.removeEventListener('abort', onAbort);
+    }
+  }
+
   /**
    * Attempt to find and run a recovery handler for a given condition.
    * Returns updated stepsExecuted + params snapshot on success, null if no handler.
@@ -300,7 +528,8 @@ export class PlanExecutor {
     errorHandlers: PlanErrorHandler[],
     sessionId: string,
     params: Record<string, unknown>,
-    currentStepsExecuted: number
+    currentStepsExecuted: number,
+    signal?: AbortSignal
   ): Promise<{ stepsExecuted: number; params: Record<string, unknown> } | null> {
     const handler = errorHandlers.find((h) => h.condition === conditionKey);
     if (!handler) return null;
@@ -324,11 +553,7 @@ export class PlanExecutor {
 
       let mcpResult: MCPResult;
       try {
-        mcpResult = await withTimeout(
-          toolHandler(sessionId, substitutedArgs),
-          step.timeout,
-          stepLabel
-        );
+        mcpResult = await this.runStepHandler(toolHandler, sessionId, substitutedArgs, step.timeout, stepLabel, signal);
         stepsExecuted++;
       } catch (err) {
         console.error(
@@ -0,0 +1,301 @@
+/**
+ * PlanRecorder — Compiles recorded tool calls into replayable CompiledPlans.
+ *
+ * Reads the ActivityTracker timeline (.openchrome/timeline/*.jsonl), selects the
+ * calls made against one tab, and rewrites them so they survive a fresh page load:
+ * ephemeral ref_N arguments become role locators or element descriptions
+ * (interact / fill_form), tab IDs and typed values become ${param} templates.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RecordedRefTarget, ToolCallEvent } from '../dashboard/types';
+import type { CompiledPlan, CompiledStep, TaskPattern } from '../types/plan-cache';
+import { DEFAULT_TOOL_EXECUTION_TIMEOUT_MS } from '../config/defaults';
+import { buildRoleLocator } from '../locator';
+
+/** Read-only tools that never need to be replayed mid-plan */
+const OBSERVATION_TOOLS = new Set([
+  'read_page', 'find', 'query_dom', 'page_content', 'inspect', 'tabs_context',
+  'console_capture', 'performance_metrics', 'memory', 'oc_profile_status', 'list_profiles',
+  'workflow_init', 'workflow_status', 'workflow_collect', 'workflow_collect_partial',
+  'workflow_cleanup', 'worker_update', 'worker_complete', 'execute_plan', 'record_plan',
+]);
+
+/** Tools whose output is worth keeping when they end the recording */
+const EXTRACTION_TOOLS = new Set(['javascript_tool', 'read_page', 'query_dom', 'page_content']);
+
+/** computer actions that are pure observation */
+const OBSERVATION_ACTIONS = new Set(['screenshot', 'zoom']);
+
+/** computer ref actions that map onto interact */
+const INTERACT_ACTIONS: Record<string, string> = {
+  left_click: 'click',
+  double_click: 'double_click',
+  hover: 'hover',
+};
+
+/** Field names whose recorded values must not be stored as plan defaults */
+const CREDENTIAL_FIELD = /pass(word|code)?|secret|token|otp|\bpin\b|cvv|cvc|credential/i;
+
+/** autocomplete tokens that mark a field as holding a secret */
+const CREDENTIAL_AUTOCOMPLETE = /password|one-time-code|cc-number|cc-csc/i;
+
+const MIN_STEP_TIMEOUT_MS = 10_000;
+const RESULT_PARAM = 'result';
+
+export interface TimelineSelection {
+  tabId: string;
+  /** Only include calls from this session */
+  sessionId?: string;
+  /** Only include calls started at or after this time (epoch ms) */
+  since?: number;
+  /** Only include calls started at or before this time (epoch ms) */
+  until?: number;
+  /** Keep only the last N selected calls */
+  lastN?: number;
+}
+
+export interface RecordPlanOptions {
+  planId: string;
+  description?: string;
+  /** Keywords for PlanRegistry.matchTask */
+  taskKeywords?: string[];
+}
+
+export interface RecordedPlan {
+  plan: CompiledPlan;
+  pattern: TaskPattern;
+  /** Calls that were dropped or kept with caveats */
+  warnings: string[];
+}
+
+/**
+ * Read every timeline-*.jsonl file in a directory, oldest first.
+ * Malformed lines (e.g. a partially flushed write) are skipped.
+ */
+export function readTimelineEvents(dirPath: string): ToolCallEvent[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dirPath).filter(f => f.startsWith('timeline-') && f.endsWith('.jsonl')).sort();
+  } catch {
+    return [];
+  }
+
+  const events: ToolCallEvent[] = [];
+  for (const file of files) {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(path.join(dirPath, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as ToolCallEvent;
+        if (event && typeof event.toolName === 'string' && typeof event.startTime === 'number') {
+          events.push(event);
+        }
+      } catch {
+        // Skip malformed line
+      }
+    }
+  }
+  return events;
+}
+
+/**
+ * Select the successful calls made against one tab, in call order.
+ * Duplicate call IDs (timeline + in-memory history) are collapsed.
+ */
+export function selectTimelineCalls(events: ToolCallEvent[], selection: TimelineSelection): ToolCallEvent[] {
+  const seen = new Set<string>();
+  const selected = events
+    .filter(e => {
+      if (seen.has(e.id)) return false;
+      seen.add(e.id);
+      return e.result === 'success'
+        && e.args?.tabId === selection.tabId
+        && (selection.sessionId === undefined || e.sessionId === selection.sessionId)
+        && (selection.since === undefined || e.startTime >= selection.since)
+        && (selection.until === undefined || e.startTime <= selection.until);
+    })
+    .sort((a, b) => a.startTime - b.startTime);
+
+  return selection.lastN !== undefined && selection.lastN > 0
+    ? selected.slice(-selection.lastN)
+    : selected;
+}
+
+/**
+ * Compile selected calls into a CompiledPlan plus the TaskPattern to register it under.
+ * Throws if a call depends on an element reference that cannot be re-located.
+ */
+export function compilePlanFromCalls(calls: ToolCallEvent[], options: RecordPlanOptions): RecordedPlan {
+  const warnings: string[] = [];
+  const unresolved: string[] = [];
+  const parameters: CompiledPlan['parameters'] = {};
+  const steps: CompiledStep[] = [];
+
+  const addParam = (hint: string, value: unknown, secret = CREDENTIAL_FIELD.test(hint)): string => {
+    const base = toParamName(hint);
+    let name = base;
+    for (let n = 2; name in parameters || name === 'tabId' || name === RESULT_PARAM; n++) {
+      name = `${base}_${n}`;
+    }
+    if (secret) {
+      parameters[name] = { source: 'task_args' };
+      warnings.push(`Parameter "${name}" has no default (credential field); pass it in execute_plan params`);
+    } else {
+      parameters[name] = { source: 'task_args', default: value };
+    }
+    return `\${${name}}`;
+  };
+
+  const lastIndex = calls.length - 1;
+  calls.forEach((call, index) => {
+    const args = { ...(call.args ?? {}) } as Record<string, unknown>;
+    const label = `${call.toolName}${typeof args.action === 'string' ? ` ${args.action}` : ''}`;
+    const isLast = index === lastIndex;
+
+    if (OBSERVATION_TOOLS.has(call.toolName) && !(isLast && EXTRACTION_TOOLS.has(call.toolName))) {
+      return;
+    }
+    if (call.toolName === 'computer' && OBSERVATION_ACTIONS.has(args.action as string)) {
+      return;
+    }
+
+    delete args.sessionId;
+    args.tabId = '${tabId}';
+
+    let tool = call.toolName;
+    let stepArgs = args;
+
+    if (typeof args.ref === 'string') {
+      const rewritten = rewriteRefCall(call.toolName, args, call.refTarget, addParam);
+      if (!rewritten) {
+        unresolved.push(`${label} (ref ${args.ref})`);
+        return;
+      }
+      tool = rewritten.tool;
+      stepArgs = rewritten.args;
+    } else if (call.toolName === 'computer' && args.action === 'type' && typeof args.text === 'string') {
+      // Typed text goes to the focused field; keep it only when that field is known not to hold a secret
+      stepArgs.text = addParam('text', args.text, !call.refTarget || isCredentialTarget(call.refTarget));
+    } else if (call.toolName === 'fill_form' && args.fields && typeof args.fields === 'object') {
+      const fields: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(args.fields as Record<string, unknown>)) {
+        fields[field] = typeof value === 'string' ? addParam(field, value) : value;
+      }
+      stepArgs.fields = fields;
+    } else if (call.toolName === 'computer' && Array.isArray(args.coordinate)) {
+      warnings.push(`${label} uses screen coordinates, which may not survive layout changes`);
+    }
+
+    const step: CompiledStep = {
+      order: steps.length + 1,
+      tool,
+      args: stepArgs,
+      timeout: stepTimeout(call.duration),
+    };
+    if (isLast && EXTRACTION_TOOLS.has(call.toolName)) {
+      step.parseResult = { format: 'json', storeAs: RESULT_PARAM };
+    }
+    steps.push(step);
+  });
+
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Cannot compile stable selectors for: ${unresolved.join(', ')}. ` +
+      'The element behind each ref was not recorded; re-run those steps with find/read_page refs or interact queries.'
+    );
+  }
+  if (steps.length === 0) {
+    throw new Error('No replayable tool calls in the selected range');
+  }
+
+  const lastStep = steps[steps.length - 1];
+  const firstUrl = calls.find(c => c.toolName === 'navigate' && typeof c.args?.url === 'string')?.args?.url as string | undefined;
+
+  const plan: CompiledPlan = {
+    id: options.planId,
+    version: '1.0.0',
+    description: options.description ?? `Recorded ${steps.length}-step plan`,
+    parameters,
+    steps,
+    errorHandlers: [],
+    successCriteria: lastStep.parseResult ? { requiredFields: [RESULT_PARAM] } : {},
+  };
+
+  const pattern: TaskPattern = {
+    ...(firstUrl && { urlPattern: originPattern(firstUrl) }),
+    taskKeywords: options.taskKeywords ?? [],
+    toolSequence: steps.map(s => s.tool),
+  };
+
+  return { plan, pattern, warnings };
+}
+
+/**
+ * Replace a ref argument with a description of the element it pointed at.
+ */
+function rewriteRefCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  target: RecordedRefTarget | undefined,
+  addParam: (hint: string, value: unknown, secret?: boolean) => string
+): { tool: string; args: Record<string, unknown> } | null {
+  if (!target) return null;
+
+  if (toolName === 'form_input' && target.name) {
+    return {
+      tool: 'fill_form',
+      args: { tabId: args.tabId, fields: { [target.name]: addParam(target.name, args.value, isCredentialTarget(target)) } },
+    };
+  }
+
+  const action = toolName === 'computer' ? INTERACT_ACTIONS[args.action as string] : undefined;
+  if (!action) return null;
+  // A role locator replays exactly; the natural-language query is the fallback when it
+  // no longer matches (renamed button) and the only option for unnamed elements
+  const locator = buildRoleLocator(target.role, target.name);
+  const query = describeTarget(target);
+  if (!locator && !query) return null;
+  return {
+    tool: 'interact',
+    args: { tabId: args.tabId, ...(locator && { locator }), ...(query && { query }), action },
+  };
+}
+
+function isCredentialTarget(target: RecordedRefTarget): boolean {
+  return target.inputType?.toLowerCase() === 'password'
+    || CREDENTIAL_AUTOCOMPLETE.test(target.autocomplete ?? '')
+    || CREDENTIAL_FIELD.test(target.name ?? '');
+}
+
+function describeTarget(target: RecordedRefTarget): string | null {
+  const label = target.name?.trim() || target.textContent?.trim().slice(0, 60) || '';
+  const role = target.role && target.role !== 'generic' && target.role !== 'none' ? target.role : target.tagName?.toLowerCase();
+  if (!label) return null;
+  return role ? `${label} ${role}` : label;
+}
+
+function toParamName(hint: string): string {
+  const slug = hint.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) return 'input';
+  return /^[0-9]/.test(slug) ? `p_${slug}` : slug;
+}
+
+function stepTimeout(durationMs?: number): number {
+  return Math.min(DEFAULT_TOOL_EXECUTION_TIMEOUT_MS, Math.max(MIN_STEP_TIMEOUT_MS, (durationMs ?? 0) * 3));
+}
+
+function originPattern(url: string): string | undefined {
+  try {
+    const origin = new URL(url).origin;
+    return `^${origin.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}/`;
+  } catch {
+    return undefined;
+  }
+}
@@ -126,16 +126,30 @@ export class PlanRegistry {
    */
   loadPlan(entry: PlanEntry): CompiledPlan | null {
     try {
-      const planPath = path.isAbsolute(entry.planPath)
-        ? entry.planPath
-        : path.join(this.basePath, entry.planPath);
-      const raw = fs.readFileSync(planPath, 'utf-8');
+      const raw = fs.readFileSync(this.resolvePlanPath(entry), 'utf-8');
       return JSON.parse(raw) as CompiledPlan;
     } catch {
       return null;
     }
   }
 
+  /**
+   * Overwrite the plan file of a registered plan (e.g. with healed selectors),
+   * keeping its pattern and stats. Returns false if the plan is not registered.
+   */
+  updatePlan(plan: CompiledPlan): boolean {
+    const entry = this.getEntry(plan.id);
+    if (!entry) return false;
+    try {
+      const planPath = this.resolvePlanPath(entry);
+      fs.mkdirSync(path.dirname(planPath), { recursive: true });
+      fs.writeFileSync(planPath, JSON.stringify(plan, null, 2));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Update execution stats for a plan and recalculate confidence.
    */
@@ -229,6 +243,12 @@ export class PlanRegistry {
     return this.data.plans.find(p => p.id === planId) ?? null;
   }
 
+  private resolvePlanPath(entry: PlanEntry): string {
+    return path.isAbsolute(entry.planPath)
+      ? entry.planPath
+      : path.join(this.basePath, entry.planPath);
+  }
+
 }
 
 // Singleton instance cache
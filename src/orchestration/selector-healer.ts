@@ -0,0 +1,297 @@
+/**
+ * SelectorHealer - Re-identifies plan elements whose CSS selector stopped matching.
+ *
+ * PlanExecutor fingerprints the element behind each CSS selector arg the first
+ * time a plan finds it (role, accessible name, text, identifying attributes,
+ * ancestor path and nearby text). After a site redesign, the elements of the
+ * same tag or role are fingerprinted in the page and compared to the stored
+ * one; a clear best match comes back with a selector that matches only it.
+ */
+
+import { getSessionManager } from '../session-manager';
+import type { ElementFingerprint } from '../types/plan-cache';
+import type { HealedElement, StepSelectorHealer } from './plan-executor';
+
+export interface HealCandidate {
+  /** CSS selector that matches only this element */
+  selector: string;
+  fingerprint: ElementFingerprint;
+}
+
+interface InspectQuery {
+  /** Fingerprint the first match of this selector */
+  selector?: string;
+  /** Or fingerprint elements of this tag / role, with unique selectors */
+  tagName?: string;
+  role?: string;
+  limit: number;
+}
+
+/** Attributes compared when re-identifying, with their weight */
+const ATTRIBUTE_WEIGHTS: Record<string, number> = {
+  'data-testid': 3,
+  id: 2,
+  name: 2,
+  'aria-label': 2,
+  href: 1.5,
+  placeholder: 1.5,
+  class: 1.5,
+  type: 1,
+  title: 1,
+  alt: 1,
+};
+
+export const MIN_SIMILARITY = 0.6;
+/** The best match must beat the runner-up by this much, or the page is ambiguous */
+export const MIN_MARGIN = 0.05;
+const MAX_CANDIDATES = 300;
+
+function tokens(text: string | undefined): Set<string> {
+  return new Set((text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+}
+
+/** 1 for equal normalized text, token overlap otherwise */
+export function textSimilarity(a: string | undefined, b: string | undefined): number {
+  const left = (a || '').replace(/\s+/g, ' ').trim().toLowerCase();
+  const right = (b || '').replace(/\s+/g, ' ').trim().toLowerCase();
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftTokens = tokens(left);
+  const rightTokens = tokens(right);
+  let shared = 0;
+  for (const token of leftTokens) {
+    if (rightTokens.has(token)) shared++;
+  }
+  const union = leftTokens.size + rightTokens.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/** Share of path segments that line up, from the element outwards; same tag counts half */
+function pathSimilarity(a: string, b: string): number {
+  const left = a.split(' > ').reverse();
+  const right = b.split(' > ').reverse();
+  const length = Math.max(left.length, right.length);
+  if (length === 0) return 1;
+  let score = 0;
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] === right[i]) score += 1;
+    else if (left[i].split(/[#.]/)[0] === right[i].split(/[#.]/)[0]) score += 0.5;
+  }
+  return score / length;
+}
+
+/**
+ * How alike a candidate is to the stored fingerprint (0.0 - 1.0). Only what the
+ * stored element had is compared, so a candidate gains nothing from extra attributes.
+ */
+export function fingerprintSimilarity(original: ElementFingerprint, candidate: ElementFingerprint): number {
+  let score = 0;
+  let total = 0;
+  const add = (weight: number, similarity: number) => {
+    score += weight * similarity;
+    total += weight;
+  };
+
+  add(1, original.tagName === candidate.tagName ? 1 : 0);
+  if (original.role) add(1.5, original.role === candidate.role ? 1 : 0);
+  if (original.name) add(3, textSimilarity(original.name, candidate.name));
+  if (original.text) add(2, textSimilarity(original.text, candidate.text));
+  for (const [attr, weight] of Object.entries(ATTRIBUTE_WEIGHTS)) {
+    const value = original.attributes[attr];
+    if (value === undefined) continue;
+    add(weight, textSimilarity(value, candidate.attributes[attr]));
+  }
+  add(1.5, pathSimilarity(original.domPath, candidate.domPath));
+  if (original.neighborText.length > 0) {
+    add(1.5, textSimilarity(original.neighborText.join(' '), candidate.neighborText.join(' ')));
+  }
+
+  return total === 0 ? 0 : score / total;
+}
+
+/**
+ * The candidate most like the stored fingerprint, or null when none is close
+ * enough or two are too close to tell apart.
+ */
+export function pickHealedCandidate(
+  original: ElementFingerprint,
+  candidates: HealCandidate[]
+): { candidate: HealCandidate; similarity: number } | null {
+  const scored = candidates
+    .map((candidate) => ({ candidate, similarity: fingerprintSimilarity(original, candidate.fingerprint) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const [best, runnerUp] = scored;
+  if (!best || best.similarity < MIN_SIMILARITY) return null;
+  if (runnerUp && best.similarity - runnerUp.similarity < MIN_MARGIN) return null;
+  return best;
+}
+
+/**
+ * In-page: fingerprint the first match of `query.selector`, or the visible
+ * elements of `query.tagName` / `query.role` along with unique selectors for them.
+ */
+function inspectElements(query: InspectQuery): HealCandidate[] {
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+  const clip = (text: string | null | undefined, max: number) => normalize(text).slice(0, max);
+
+  const implicitRole = (el: Element): string | undefined => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'a' && el.hasAttribute('href')) return 'link';
+    if (tag === 'button') return 'button';
+    if (tag === 'select') return 'combobox';
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'img') return 'img';
+    if (/^h[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'input') {
+      const type = (el.getAttribute('type') || 'text').toLowerCase();
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'submit' || type === 'button' || type === 'reset' || type === 'image') return 'button';
+      if (type === 'hidden') return undefined;
+      return 'textbox';
+    }
+    const roles: Record<string, string> = { nav: 'navigation', li: 'listitem', ul: 'list', ol: 'list', tr: 'row', td: 'cell', th: 'columnheader', table: 'table', form: 'form', dialog: 'dialog', main: 'main' };
+    return roles[tag];
+  };
+
+  const accessibleName = (el: Element): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    const labels = (el as HTMLInputElement).labels;
+    return clip(
+      el.getAttribute('aria-label') ||
+      (labelledBy && labelledBy.split(/\s+/).map((id) => document.getElementById(id)?.textContent || '').join(' ')) ||
+      (labels && labels.length > 0 ? labels[0].textContent : '') ||
+      el.getAttribute('alt') ||
+      el.getAttribute('title') ||
+      el.getAttribute('placeholder') ||
+      (el as HTMLElement).innerText,
+      80
+    );
+  };
+
+  const segment = (el: Element): string => {
+    const tag = el.tagName.toLowerCase();
+    if (el.id) return `${tag}#${el.id}`;
+    const firstClass = el.classList[0];
+    return firstClass ? `${tag}.${firstClass}` : tag;
+  };
+
+  const fingerprint = (el: Element): ElementFingerprint => {
+    const attributes: Record<string, string> = {};
+    for (const attr of ['id', 'name', 'type', 'class', 'href', 'data-testid', 'aria-label', 'placeholder', 'title', 'alt']) {
+      const value = el.getAttribute(attr);
+      if (value) attributes[attr] = value.slice(0, 120);
+    }
+
+    const path: string[] = [];
+    for (let node: Element | null = el; node && node !== document.documentElement && path.length < 6; node = node.parentElement) {
+      path.unshift(segment(node));
+    }
+
+    const neighborText: string[] = [];
+    const addNeighbor = (text: string | null | undefined) => {
+      const value = clip(text, 40);
+      if (value && !neighborText.includes(value)) neighborText.push(value);
+    };
+    addNeighbor(el.previousElementSibling?.textContent);
+    addNeighbor(el.nextElementSibling?.textContent);
+    const container = el.closest('fieldset, section, form, li, tr, [role="group"], [role="dialog"]');
+    addNeighbor(container?.querySelector('legend, h1, h2, h3, h4, h5, h6, label, th')?.textContent);
+
+    return {
+      tagName: el.tagName.toLowerCase(),
+      role: el.getAttribute('role') || implicitRole(el),
+      name: accessibleName(el) || undefined,
+      text: clip((el as HTMLElement).innerText || el.textContent, 100) || undefined,
+      attributes,
+      domPath: path.join(' > '),
+      neighborText: neighborText.slice(0, 4),
+    };
+  };
+
+  const isUnique = (selector: string): boolean => {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+
+  const uniqueSelector = (el: Element): string => {
+    const tag = el.tagName.toLowerCase();
+    if (el.id && isUnique(`#${CSS.escape(el.id)}`)) return `#${CSS.escape(el.id)}`;
+    for (const attr of ['data-testid', 'name', 'aria-label', 'placeholder', 'title', 'alt', 'href']) {
+      const value = el.getAttribute(attr);
+      if (!value) continue;
+      const selector = `${tag}[${attr}="${value.replace(/["\\]/g, '\\$&')}"]`;
+      if (isUnique(selector)) return selector;
+    }
+    // Positional path up to the nearest ancestor with a unique id
+    const parts: string[] = [];
+    for (let node: Element | null = el; node && node !== document.documentElement; node = node.parentElement) {
+      if (node !== el && node.id && isUnique(`#${CSS.escape(node.id)}`)) {
+        parts.unshift(`#${CSS.escape(node.id)}`);
+        break;
+      }
+      const nodeTag = node.tagName.toLowerCase();
+      const sameTag = node.parentElement
+        ? Array.from(node.parentElement.children).filter((child) => child.tagName === node!.tagName)
+        : [node];
+      parts.unshift(sameTag.length > 1 ? `${nodeTag}:nth-of-type(${sameTag.indexOf(node) + 1})` : nodeTag);
+    }
+    return parts.join(' > ');
+  };
+
+  if (query.selector) {
+    const el = document.querySelector(query.selector);
+    return el ? [{ selector: query.selector, fingerprint: fingerprint(el) }] : [];
+  }
+
+  const seen = new Set<Element>();
+  const candidates: HealCandidate[] = [];
+  const matching = [
+    ...(query.tagName ? Array.from(document.querySelectorAll(query.tagName)) : []),
+    ...(query.role ? Array.from(document.querySelectorAll(`[role="${query.role}"]`)) : []),
+  ];
+  for (const el of matching) {
+    if (candidates.length >= query.limit) break;
+    if (seen.has(el) || el.getClientRects().length === 0) continue;
+    seen.add(el);
+    candidates.push({ selector: uniqueSelector(el), fingerprint: fingerprint(el) });
+  }
+  return candidates;
+}
+
+export class SelectorHealer implements StepSelectorHealer {
+  async count(sessionId: string, tabId: string, selector: string): Promise<number> {
+    const page = await this.getPage(sessionId, tabId);
+    return page.evaluate((sel: string) => document.querySelectorAll(sel).length, selector);
+  }
+
+  async capture(sessionId: string, tabId: string, selector: string): Promise<ElementFingerprint | null> {
+    const page = await this.getPage(sessionId, tabId);
+    const [match] = await page.evaluate(inspectElements, { selector, limit: 1 });
+    return match ? match.fingerprint : null;
+  }
+
+  async heal(sessionId: string, tabId: string, fingerprint: ElementFingerprint): Promise<HealedElement | null> {
+    const page = await this.getPage(sessionId, tabId);
+    const candidates = await page.evaluate(inspectElements, {
+      tagName: fingerprint.tagName,
+      role: fingerprint.role,
+      limit: MAX_CANDIDATES,
+    });
+
+    const best = pickHealedCandidate(fingerprint, candidates);
+    if (!best) return null;
+    return { selector: best.candidate.selector, fingerprint: best.candidate.fingerprint, similarity: best.similarity };
+  }
+
+  private async getPage(sessionId: string, tabId: string) {
+    const page = await getSessionManager().getPage(sessionId, tabId, undefined, 'execute_plan');
+    if (!page) throw new Error(`Tab ${tabId} not found`);
+    return page;
+  }
+}
@@ -661,8 +661,12 @@ export class WorkflowEngine {
   /**
    * Collect final results from all workers.
    * Uses in-memory orchestration status for correctness; reads per-worker detail from files.
+   * Throws if the optional signal is aborted before all workers are collected.
    */
-  async collectResults(): Promise<WorkflowResult | null> {
+  async collectResults(options: {
+    signal?: AbortSignal;
+    onProgress?: (collected: number, total: number) => void;
+  } = {}): Promise<WorkflowResult | null> {
     const orch = await this.getOrchestrationStatus();
     if (!orch) return null;
 
@@ -670,6 +674,9 @@ export class WorkflowEngine {
     const workerStates = await this.stateManager.getAllWorkerStates();
 
     for (const state of workerStates) {
+      if (options.signal?.aborted) {
+        throw new Error(`Cancelled after collecting ${workerResults.length}/${workerStates.length} workers`);
+      }
       workerResults.push({
         workerId: state.workerId,
         workerName: state.workerName,
@@ -682,6 +689,7 @@ export class WorkflowEngine {
         iterations: state.iteration,
         errors: state.errors,
       });
+      options.onProgress?.(workerResults.length, workerStates.length);
     }
 
     const completedCount = workerResults.filter(r => r.status === 'SUCCESS' || r.status === 'PARTIAL').length;
@@ -0,0 +1,267 @@
+/**
+ * Workflow File - Declarative YAML/JSON workflow definitions for `oc run`
+ *
+ * A workflow is a list of steps executed directly against the registered tool
+ * handlers. Example:
+ *
+ *   name: search
+ *   vars:
+ *     query: openchrome
+ *   steps:
+ *     - tool: navigate
+ *       args: { url: "https://example.com/?q=${query}" }
+ *     - tool: read_page
+ *       args: { tabId: "${tabId}" }
+ *       save: page
+ *     - assert: { value: "${page}", contains: "Example" }
+ *     - forEach: rows.csv
+ *       as: row
+ *       steps:
+ *         - tool: fill_form
+ *           args: { tabId: "${tabId}", fields: { Name: "${row.name}" } }
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export interface WorkflowSaveSpec {
+  /** Variable name to store the result under */
+  as: string;
+  /** Parse result text as JSON (default) or keep raw text */
+  format?: 'json' | 'text';
+  /** JSON field to extract from the parsed result */
+  field?: string;
+}
+
+export interface WorkflowToolStep {
+  name?: string;
+  tool: string;
+  args?: Record<string, unknown>;
+  /** Store the tool result as a variable: name, or full spec */
+  save?: string | WorkflowSaveSpec;
+  /** Per-step timeout in ms */
+  timeout?: number;
+  /** Record a failure and keep going without failing the run */
+  continueOnError?: boolean;
+}
+
+export interface WorkflowAssertion {
+  value: unknown;
+  equals?: unknown;
+  contains?: string;
+  matches?: string;
+  exists?: boolean;
+  message?: string;
+}
+
+export interface WorkflowAssertStep {
+  name?: string;
+  assert: WorkflowAssertion;
+  continueOnError?: boolean;
+}
+
+export interface WorkflowLoopStep {
+  name?: string;
+  /** Inline array, "${var}" holding an array, or a .csv/.json file relative to the workflow */
+  forEach: unknown[] | string;
+  /** Loop variable name (default: row). Object fields are also exposed as ${row.field} */
+  as?: string;
+  steps: WorkflowStep[];
+}
+
+export type WorkflowStep = WorkflowToolStep | WorkflowAssertStep | WorkflowLoopStep;
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  vars?: Record<string, unknown>;
+  steps: WorkflowStep[];
+}
+
+export interface LoadedWorkflow {
+  definition: WorkflowDefinition;
+  /** Absolute path of the workflow file */
+  file: string;
+  /** Directory relative data files resolve against */
+  baseDir: string;
+}
+
+export function isToolStep(step: WorkflowStep): step is WorkflowToolStep {
+  return typeof (step as WorkflowToolStep).tool === 'string';
+}
+
+export function isAssertStep(step: WorkflowStep): step is WorkflowAssertStep {
+  return (step as WorkflowAssertStep).assert !== undefined;
+}
+
+export function isLoopStep(step: WorkflowStep): step is WorkflowLoopStep {
+  return (step as WorkflowLoopStep).forEach !== undefined;
+}
+
+/**
+ * Read and validate a workflow file (.yaml, .yml or .json).
+ */
+export async function loadWorkflowFile(filePath: string): Promise<LoadedWorkflow> {
+  const file = path.resolve(filePath);
+  const raw = await fs.readFile(file, 'utf8');
+
+  let parsed: unknown;
+  try {
+    parsed = file.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw);
+  } catch (err) {
+    throw new Error(`Failed to parse workflow ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return {
+    definition: validateWorkflow(parsed, path.basename(file, path.extname(file))),
+    file,
+    baseDir: path.dirname(file),
+  };
+}
+
+/**
+ * Validate a parsed workflow document. Throws with the offending step path.
+ */
+export function validateWorkflow(value: unknown, defaultName = 'workflow'): WorkflowDefinition {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Workflow must be an object with a "steps" array');
+  }
+  const doc = value as Record<string, unknown>;
+  if (doc.vars !== undefined && (doc.vars === null || typeof doc.vars !== 'object' || Array.isArray(doc.vars))) {
+    throw new Error('Workflow "vars" must be an object');
+  }
+  validateSteps(doc.steps, 'steps');
+
+  return {
+    name: typeof doc.name === 'string' && doc.name ? doc.name : defaultName,
+    description: typeof doc.description === 'string' ? doc.description : undefined,
+    vars: doc.vars as Record<string, unknown> | undefined,
+    steps: doc.steps as WorkflowStep[],
+  };
+}
+
+function validateSteps(steps: unknown, at: string): void {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error(`${at} must be a non-empty array`);
+  }
+  steps.forEach((step, i) => validateStep(step, `${at}[${i}]`));
+}
+
+function validateStep(step: unknown, at: string): void {
+  if (step === null || typeof step !== 'object' || Array.isArray(step)) {
+    throw new Error(`${at} must be an object`);
+  }
+  const s = step as Record<string, unknown>;
+  const kinds = ['tool', 'assert', 'forEach'].filter(k => s[k] !== undefined);
+  if (kinds.length !== 1) {
+    throw new Error(`${at} must have exactly one of "tool", "assert" or "forEach"`);
+  }
+
+  if (s.tool !== undefined) {
+    if (typeof s.tool !== 'string' || !s.tool) throw new Error(`${at}.tool must be a tool name`);
+    if (s.args !== undefined && (s.args === null || typeof s.args !== 'object' || Array.isArray(s.args))) {
+      throw new Error(`${at}.args must be an object`);
+    }
+    if (s.save !== undefined) {
+      const save = s.save as Record<string, unknown> | string;
+      const ok = typeof save === 'string'
+        ? save.length > 0
+        : save !== null && typeof save === 'object' && typeof save.as === 'string'
+          && (save.format === undefined || save.format === 'json' || save.format === 'text');
+      if (!ok) throw new Error(`${at}.save must be a variable name or { as, format?, field? }`);
+    }
+    if (s.timeout !== undefined && (typeof s.timeout !== 'number' || s.timeout <= 0)) {
+      throw new Error(`${at}.timeout must be a positive number of ms`);
+    }
+    return;
+  }
+
+  if (s.assert !== undefined) {
+    const a = s.assert as Record<string, unknown>;
+    if (a === null || typeof a !== 'object' || !('value' in a)) {
+      throw new Error(`${at}.assert must be an object with a "value"`);
+    }
+    if (!['equals', 'contains', 'matches', 'exists'].some(k => k in a)) {
+      throw new Error(`${at}.assert needs one of equals, contains, matches, exists`);
+    }
+    if (a.matches !== undefined) {
+      if (typeof a.matches !== 'string') throw new Error(`${at}.assert.matches must be a regular expression string`);
+      try {
+        new RegExp(a.matches);
+      } catch (error) {
+        throw new Error(`${at}.assert.matches is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return;
+  }
+
+  if (!Array.isArray(s.forEach) && typeof s.forEach !== 'string') {
+    throw new Error(`${at}.forEach must be an array, "\${var}" or a data file path`);
+  }
+  if (s.as !== undefined && (typeof s.as !== 'string' || !s.as)) {
+    throw new Error(`${at}.as must be a variable name`);
+  }
+  validateSteps(s.steps, `${at}.steps`);
+}
+
+/**
+ * Load loop rows from a .json (array) or .csv (header row + records) file.
+ */
+export async function loadDataRows(filePath: string): Promise<unknown[]> {
+  const raw = await fs.readFile(filePath, 'utf8');
+  if (filePath.endsWith('.csv')) {
+    return parseCsv(raw);
+  }
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Data file ${filePath} must contain a JSON array`);
+  }
+  return parsed;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes, CRLF. First row is the header.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.length > 1 || r[0] !== '');
+  if (nonEmpty.length === 0) return [];
+  const [header, ...rows] = nonEmpty;
+  return rows.map(row => Object.fromEntries(header.map((name, i) => [name.trim(), row[i] ?? ''])));
+}
@@ -0,0 +1,357 @@
+/**
+ * WorkflowRunner - Executes declarative workflow files against tool handlers.
+ *
+ * Like PlanExecutor, steps call the registered handlers directly, so a workflow
+ * recorded from a successful agent session can be re-run without an LLM.
+ */
+
+import * as path from 'path';
+import { MCPResult, ToolContext, ToolHandler } from '../types/mcp';
+import { DEFAULT_ABORT_SETTLE_TIMEOUT_MS, DEFAULT_TOOL_EXECUTION_TIMEOUT_MS } from '../config/defaults';
+import { isSensitiveKey } from '../security/audit-logger';
+import { waitToSettle, withTimeout } from '../utils/with-timeout';
+import { extractResult, substituteParams } from './plan-executor';
+import {
+  LoadedWorkflow,
+  WorkflowAssertion,
+  WorkflowDefinition,
+  WorkflowLoopStep,
+  WorkflowStep,
+  WorkflowToolStep,
+  isAssertStep,
+  isLoopStep,
+  loadDataRows,
+} from './workflow-file';
+
+export interface WorkflowStepReport {
+  /** 1-based position; loop children are "<loop>[<iteration>].<child>" */
+  path: string;
+  name?: string;
+  kind: 'tool' | 'assert' | 'loop';
+  tool?: string;
+  status: 'passed' | 'failed';
+  durationMs: number;
+  error?: string;
+  /** Variable the result was stored under */
+  saved?: string;
+  iterations?: number;
+}
+
+export interface WorkflowRunReport {
+  workflow: string;
+  file?: string;
+  sessionId: string;
+  success: boolean;
+  startedAt: string;
+  durationMs: number;
+  steps: WorkflowStepReport[];
+  /** Final variables (sensitive names redacted) */
+  vars: Record<string, unknown>;
+  error?: string;
+}
+
+export interface WorkflowRunOptions {
+  sessionId: string;
+  /** Overrides for the workflow's vars */
+  vars?: Record<string, unknown>;
+  signal?: AbortSignal;
+  /** Called after each step finishes */
+  onStep?: (step: WorkflowStepReport) => void;
+}
+
+/** Thrown internally to unwind the step tree on a fatal failure */
+class StopRun extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StopRun';
+  }
+}
+
+const EXACT_VAR_REF = /^\$\{([^}]+)\}$/;
+
+export class WorkflowRunner {
+  private toolResolver: (toolName: string) => ToolHandler | null;
+
+  constructor(toolResolver: (toolName: string) => ToolHandler | null) {
+    this.toolResolver = toolResolver;
+  }
+
+  async run(workflow: LoadedWorkflow | WorkflowDefinition, options: WorkflowRunOptions): Promise<WorkflowRunReport> {
+    const loaded = 'definition' in workflow ? workflow : null;
+    const definition = loaded ? loaded.definition : (workflow as WorkflowDefinition);
+    const baseDir = loaded?.baseDir ?? process.cwd();
+    const startTime = Date.now();
+    const vars: Record<string, unknown> = { ...definition.vars, ...options.vars };
+    const steps: WorkflowStepReport[] = [];
+    const context: ToolContext = {
+      signal: options.signal ?? new AbortController().signal,
+      reportProgress: () => {},
+    };
+
+    const record = (step: WorkflowStepReport) => {
+      steps.push(step);
+      options.onStep?.(step);
+    };
+
+    let error: string | undefined;
+    try {
+      await this.runSteps(definition.steps, '', vars, { baseDir, sessionId: options.sessionId, context, record });
+    } catch (err) {
+      if (!(err instanceof StopRun)) throw err;
+      error = err.message;
+    }
+
+    return {
+      workflow: definition.name,
+      ...(loaded && { file: loaded.file }),
+      sessionId: options.sessionId,
+      success: error === undefined,
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: Date.now() - startTime,
+      steps,
+      vars: redactVars(vars),
+      ...(error !== undefined && { error }),
+    };
+  }
+
+  private async runSteps(
+    steps: WorkflowStep[],
+    prefix: string,
+    vars: Record<string, unknown>,
+    run: RunState
+  ): Promise<void> {
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const stepPath = `${prefix}${i + 1}`;
+      if (run.context.signal.aborted) {
+        throw new StopRun(`Cancelled before step ${stepPath}`);
+      }
+
+      if (isLoopStep(step)) {
+        await this.runLoop(step, stepPath, vars, run);
+      } else if (isAssertStep(step)) {
+        const start = Date.now();
+        const failure = evaluateAssertion(step.assert, vars);
+        this.finish(run, {
+          path: stepPath,
+          ...(step.name && { name: step.name }),
+          kind: 'assert',
+          status: failure ? 'failed' : 'passed',
+          durationMs: Date.now() - start,
+          ...(failure && { error: failure }),
+        }, step.continueOnError);
+      } else {
+        await this.runTool(step as WorkflowToolStep, stepPath, vars, run);
+      }
+    }
+  }
+
+  /**
+   * Call a step's handler within its timeout. The handler gets its own signal, aborted
+   * by the run's signal or by the timeout, and the step ends once the handler has stopped.
+   */
+  private async callHandler(
+    handler: ToolHandler,
+    args: Record<string, unknown>,
+    timeoutMs: number,
+    label: string,
+    run: RunState
+  ): Promise<MCPResult> {
+    const controller = new AbortController();
+    const runSignal = run.context.signal;
+    const onAbort = () => controller.abort(runSignal.reason);
+    runSignal.addEventListener('abort', onAbort, { once: true });
+
+    const running = Promise.resolve(handler(run.sessionId, args, { ...run.context, signal: controller.signal }));
+    try {
+      return await withTimeout(running, timeoutMs, label);
+    } catch (err) {
+      if (!controller.signal.aborted) controller.abort(err);
+      if (!(await waitToSettle(running, DEFAULT_ABORT_SETTLE_TIMEOUT_MS))) {
+        console.error(`[WorkflowRunner] ${label} still running ${DEFAULT_ABORT_SETTLE_TIMEOUT_MS}ms after it was aborted`);
+      }
+      throw err;
+    } finally {
+      runSignal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async runTool(step: WorkflowToolStep, stepPath: string, vars: Record<string, unknown>, run: RunState): Promise<void> {
+    const start = Date.now();
+    const report: WorkflowStepReport = {
+      path: stepPath,
+      ...(step.name && { name: step.name }),
+      kind: 'tool',
+      tool: step.tool,
+      status: 'passed',
+      durationMs: 0,
+    };
+
+    const handler = this.toolResolver(step.tool);
+    if (!handler) {
+      this.finish(run, { ...report, status: 'failed', error: `No handler found for tool "${step.tool}"` }, step.continueOnError);
+      return;
+    }
+
+    const args = substituteParams(step.args ?? {}, vars) as Record<string, unknown>;
+    let result: MCPResult;
+    try {
+      result = await this.callHandler(handler, args, step.timeout ?? DEFAULT_TOOL_EXECUTION_TIMEOUT_MS, `Step ${stepPath} (${step.tool})`, run);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.finish(run, { ...report, status: 'failed', durationMs: Date.now() - start, error: message }, step.continueOnError);
+      return;
+    }
+
+    if (result.isError) {
+      const message = result.content?.[0]?.text ?? 'Unknown tool error';
+      this.finish(run, { ...report, status: 'failed', durationMs: Date.now() - start, error: message }, step.continueOnError);
+      return;
+    }
+
+    // Track the most recent tab so later steps can use ${tabId}
+    const text = result.content?.[0]?.text;
+    if (text) {
+      try {
+        const parsed = JSON.parse(text) as Record<string, unknown>;
+        if (parsed && typeof parsed.tabId === 'string') {
+          vars.tabId = parsed.tabId;
+        }
+      } catch {
+        // Non-JSON result
+      }
+    }
+
+    if (step.save) {
+      const spec = typeof step.save === 'string' ? { as: step.save } : step.save;
+      vars[spec.as] = extractResult(result, { format: spec.format ?? 'json', extractField: spec.field });
+      report.saved = spec.as;
+    }
+
+    this.finish(run, { ...report, durationMs: Date.now() - start }, step.continueOnError);
+  }
+
+  private async runLoop(step: WorkflowLoopStep, stepPath: string, vars: Record<string, unknown>, run: RunState): Promise<void> {
+    const start = Date.now();
+    const report: WorkflowStepReport = {
+      path: stepPath,
+      ...(step.name && { name: step.name }),
+      kind: 'loop',
+      status: 'passed',
+      durationMs: 0,
+    };
+
+    let rows: unknown[];
+    try {
+      rows = await this.resolveRows(step.forEach, vars, run.baseDir);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.finish(run, { ...report, status: 'failed', durationMs: Date.now() - start, error: message });
+      return;
+    }
+
+    const as = step.as ?? 'row';
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      vars[as] = row;
+      if (row !== null && typeof row === 'object' && !Array.isArray(row)) {
+        for (const [key, value] of Object.entries(row as Record<string, unknown>)) {
+          vars[`${as}.${key}`] = value;
+        }
+      }
+      await this.runSteps(step.steps, `${stepPath}[${i}].`, vars, run);
+    }
+
+    this.finish(run, { ...report, durationMs: Date.now() - start, iterations: rows.length });
+  }
+
+  private async resolveRows(source: unknown[] | string, vars: Record<string, unknown>, baseDir: string): Promise<unknown[]> {
+    if (Array.isArray(source)) {
+      return source;
+    }
+    const ref = source.match(EXACT_VAR_REF);
+    if (ref) {
+      const value = vars[ref[1]];
+      if (!Array.isArray(value)) {
+        throw new Error(`forEach variable "${ref[1]}" is not an array`);
+      }
+      return value;
+    }
+    const file = substituteParams(source, vars) as string;
+    return loadDataRows(path.resolve(baseDir, file));
+  }
+
+  /**
+   * Record a finished step; a failure stops the run unless continueOnError is set.
+   */
+  private finish(run: RunState, report: WorkflowStepReport, continueOnError?: boolean): void {
+    run.record(report);
+    if (report.status === 'failed' && !continueOnError) {
+      throw new StopRun(`Step ${report.path}${report.tool ? ` (${report.tool})` : ''} failed: ${report.error}`);
+    }
+  }
+}
+
+interface RunState {
+  baseDir: string;
+  sessionId: string;
+  context: ToolContext;
+  record: (step: WorkflowStepReport) => void;
+}
+
+/**
+ * Evaluate an assert step. Returns a failure message, or null if it holds.
+ */
+function evaluateAssertion(assertion: WorkflowAssertion, vars: Record<string, unknown>): string | null {
+  const actual = resolveValue(assertion.value, vars);
+  const describe = (v: unknown) => (typeof v === 'string' ? JSON.stringify(v.slice(0, 200)) : JSON.stringify(v));
+  const fail = (detail: string) => assertion.message ? `${assertion.message} (${detail})` : detail;
+
+  if (assertion.exists !== undefined) {
+    const present = actual !== undefined && actual !== null && actual !== ''
+      && !(typeof actual === 'string' && /\$\{[^}]+\}/.test(actual));
+    if (present !== assertion.exists) {
+      return fail(`expected value to ${assertion.exists ? 'exist' : 'be absent'}, got ${describe(actual)}`);
+    }
+  }
+  if (assertion.equals !== undefined) {
+    const expected = resolveValue(assertion.equals, vars);
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      return fail(`expected ${describe(expected)}, got ${describe(actual)}`);
+    }
+  }
+  if (assertion.contains !== undefined) {
+    const haystack = typeof actual === 'string' ? actual : JSON.stringify(actual) ?? '';
+    const needle = String(substituteParams(assertion.contains, vars));
+    if (!haystack.includes(needle)) {
+      return fail(`expected ${describe(actual)} to contain ${JSON.stringify(needle)}`);
+    }
+  }
+  if (assertion.matches !== undefined) {
+    const haystack = typeof actual === 'string' ? actual : JSON.stringify(actual) ?? '';
+    if (!new RegExp(assertion.matches).test(haystack)) {
+      return fail(`expected ${describe(actual)} to match /${assertion.matches}/`);
+    }
+  }
+  return null;
+}
+
+/**
+ * An exact "${name}" reference yields the raw variable (arrays/objects intact);
+ * anything else goes through substituteParams.
+ */
+function resolveValue(value: unknown, vars: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const ref = value.match(EXACT_VAR_REF);
+    if (ref && ref[1] in vars) return vars[ref[1]];
+  }
+  return substituteParams(value, vars);
+}
+
+function redactVars(vars: Record<string, unknown>): Record<string, unknown> {
+  const safe: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(vars)) {
+    safe[key] = isSensitiveKey(key) ? '[REDACTED]' : value;
+  }
+  return safe;
+}
@@ -0,0 +1,215 @@
+/**
+ * Audit Chain - Hashing, verification and querying of the audit log
+ *
+ * Every entry stores the previous entry's hash (prev_hash) and its own hash over
+ * all other fields, so editing, removing or reordering a line breaks the chain.
+ * The chain continues across rotated files; `oc audit verify` walks them oldest first.
+ */
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { domainGlobToRegex } from './policy';
+
+export type AuditOutcome = 'success' | 'error' | 'denied';
+
+export interface AuditEntry {
+  /** 1-based position in the chain */
+  seq: number;
+  timestamp: string;      // ISO 8601
+  tool: string;           // tool name
+  domain: string | null;  // extracted from page URL, null if N/A
+  sessionId: string;
+  outcome: AuditOutcome;
+  duration_ms: number | null;
+  error?: string;         // truncated error message for error/denied outcomes
+  args_summary: string;   // brief summary, no sensitive data
+  prev_hash: string;
+  hash: string;
+}
+
+/** prev_hash of the first entry in a chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Hash an entry: SHA-256 over its JSON serialization without the hash field.
+ * Field order is the order the writer emits, which JSON.parse preserves.
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'> | AuditEntry): string {
+  const rest: Partial<AuditEntry> = { ...entry };
+  delete rest.hash;
+  return createHash('sha256').update(JSON.stringify(rest)).digest('hex');
+}
+
+/**
+ * Rotated file name for a log path: audit.log -> audit.2026-01-31T23-59-59-000Z.log
+ */
+export function rotatedLogName(logPath: string, rotatedAt: Date): string {
+  const ext = path.extname(logPath);
+  const base = path.basename(logPath, ext);
+  return path.join(path.dirname(logPath), `${base}.${rotatedAt.toISOString().replace(/[:.]/g, '-')}${ext}`);
+}
+
+/**
+ * All files of a log, oldest first: rotated files by timestamp, then the active file.
+ */
+export function listAuditLogFiles(logPath: string): string[] {
+  const dir = path.dirname(logPath);
+  const ext = path.extname(logPath);
+  const base = path.basename(logPath, ext);
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const rotated = new RegExp(`^${escape(base)}\\.\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z${escape(ext)}$`);
+
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(dir).filter(name => rotated.test(name)).sort();
+  } catch {
+    return [];
+  }
+  const files = names.map(name => path.join(dir, name));
+  if (fs.existsSync(logPath)) files.push(logPath);
+  return files;
+}
+
+function readLines(file: string): string[] {
+  return fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim() !== '');
+}
+
+/**
+ * Last chained entry across a log's files, or null if none (empty or legacy-only log).
+ */
+export function readLastAuditEntry(logPath: string): AuditEntry | null {
+  const files = listAuditLogFiles(logPath);
+  for (let f = files.length - 1; f >= 0; f--) {
+    const lines = readLines(files[f]);
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        const entry = JSON.parse(lines[i]) as AuditEntry;
+        if (typeof entry.hash === 'string') return entry;
+      } catch {
+        // Skip malformed line; verify reports it
+      }
+    }
+  }
+  return null;
+}
+
+export interface AuditVerifyResult {
+  valid: boolean;
+  files: string[];
+  /** Chained entries checked */
+  entries: number;
+  /** Entries written before hash chaining was introduced (no hash field) */
+  legacyEntries: number;
+  /** True if the chain starts at the genesis hash; false if older files were removed */
+  anchored: boolean;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  /** First problem found; verification stops there */
+  error?: { file: string; line: number; reason: string };
+}
+
+/**
+ * Verify the hash chain across all files of a log.
+ */
+export function verifyAuditLog(logPath: string): AuditVerifyResult {
+  const files = listAuditLogFiles(logPath);
+  const result: AuditVerifyResult = { valid: true, files, entries: 0, legacyEntries: 0, anchored: true };
+  let previous: AuditEntry | null = null;
+
+  for (const file of files) {
+    const lines = readLines(file);
+    for (let i = 0; i < lines.length; i++) {
+      const fail = (reason: string): AuditVerifyResult => ({ ...result, valid: false, error: { file, line: i + 1, reason } });
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        return fail('malformed JSON');
+      }
+
+      if (typeof entry.hash !== 'string') {
+        if (previous) return fail('unchained entry after the chain started');
+        result.legacyEntries++;
+        continue;
+      }
+
+      if (hashAuditEntry(entry) !== entry.hash) {
+        return fail(`hash mismatch at seq ${entry.seq}: entry was modified`);
+      }
+      if (previous) {
+        if (entry.prev_hash !== previous.hash) {
+          return fail(`prev_hash does not match seq ${previous.seq}: entries were removed, reordered or inserted`);
+        }
+        if (entry.seq !== previous.seq + 1) {
+          return fail(`sequence jumps from ${previous.seq} to ${entry.seq}`);
+        }
+      } else {
+        result.anchored = entry.prev_hash === GENESIS_HASH && entry.seq === 1;
+        result.firstTimestamp = entry.timestamp;
+      }
+
+      previous = entry;
+      result.entries++;
+      result.lastTimestamp = entry.timestamp;
+    }
+  }
+
+  return result;
+}
+
+export interface AuditFilter {
+  sessionId?: string;
+  tool?: string;
+  /** Domain glob, e.g. "**.bank.com" */
+  domain?: string;
+  outcome?: AuditOutcome;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Read all entries of a log (legacy entries included), oldest first, applying the filter.
+ * Malformed lines are skipped.
+ */
+export function queryAuditLog(logPath: string, filter: AuditFilter = {}): Array<Partial<AuditEntry>> {
+  const domainRegex = filter.domain ? domainGlobToRegex(filter.domain) : null;
+  const results: Array<Partial<AuditEntry>> = [];
+
+  for (const file of listAuditLogFiles(logPath)) {
+    for (const line of readLines(file)) {
+      let entry: Partial<AuditEntry>;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+      if (filter.tool && entry.tool !== filter.tool) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (domainRegex && !(entry.domain && domainRegex.test(entry.domain))) continue;
+      const time = entry.timestamp ? Date.parse(entry.timestamp) : NaN;
+      if (filter.since && !(time >= filter.since.getTime())) continue;
+      if (filter.until && !(time <= filter.until.getTime())) continue;
+      results.push(entry);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Parse a time argument: ISO 8601 / date string, or a relative age such as "30m", "12h", "7d".
+ */
+export function parseAuditTime(value: string, now: Date = new Date()): Date {
+  const relative = value.match(/^(\d+)\s*([smhd])$/);
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+    return new Date(now.getTime() - parseInt(relative[1], 10) * unit);
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid time "${value}". Use ISO 8601 (2026-01-31T12:00:00Z) or a relative age (30m, 12h, 7d)`);
+  }
+  return new Date(time);
+}
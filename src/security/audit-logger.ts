@@ -1,25 +1,34 @@
 /**
  * Audit Logger - Logs tool invocations for security review
- * Writes structured JSONL to ~/.openchrome/audit.log
+ * Writes hash-chained JSONL to ~/.openchrome/audit.log, rotated by size and day.
+ * See audit-chain.ts for the entry format and verification.
  */
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { getGlobalConfig } from '../config/global';
 import { extractHostname } from '../utils/url-utils';
+import {
+  AuditEntry,
+  AuditOutcome,
+  GENESIS_HASH,
+  hashAuditEntry,
+  readLastAuditEntry,
+  rotatedLogName,
+} from './audit-chain';
 
-interface AuditEntry {
-  timestamp: string;      // ISO 8601
-  tool: string;           // tool name
-  domain: string | null;  // extracted from page URL, null if N/A
-  sessionId: string;
-  args_summary: string;   // brief summary, no sensitive data
-}
+const DEFAULT_MAX_SIZE_MB = 10;
+const MAX_ERROR_CHARS = 200;
 
-let logDirEnsured = false;
+/** How a logged call ended */
+export interface AuditCallResult {
+  outcome: AuditOutcome;
+  durationMs?: number;
+  error?: string;
+}
 
-// Get log file path
-function getLogPath(): string {
+/** Resolved audit log path (security.audit_log_path or ~/.openchrome/audit.log) */
+export function getAuditLogPath(): string {
   const config = getGlobalConfig();
   return config.security?.audit_log_path ||
     path.join(os.homedir(), '.openchrome', 'audit.log');
@@ -33,7 +42,8 @@ function extractDomain(url?: string): string | null {
 
 const SENSITIVE_KEYS = ['password', 'cookie', 'token', 'secret', 'auth', 'credential', 'value', 'text'];
 
-function isSensitiveKey(key: string): boolean {
+/** True if a key/header/param name matches the audit redaction list */
+export function isSensitiveKey(key: string): boolean {
   const lower = key.toLowerCase();
   return SENSITIVE_KEYS.some(s => lower.includes(s));
 }
@@ -54,32 +64,129 @@ function summarizeArgs(args: Record<string, unknown>): string {
   return JSON.stringify(safe);
 }
 
-export function logAuditEntry(tool: string, sessionId: string, args: Record<string, unknown>, pageUrl?: string): void {
-  const config = getGlobalConfig();
-  if (!config.security?.audit_log) return; // Disabled by default
+function utcDay(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+/**
+ * Appends chained entries to one log file. Entries are hashed synchronously in call
+ * order and written through a promise queue, so the file order always matches the chain.
+ * Assumes a single writer process per log file.
+ */
+export class AuditLogWriter {
+  private lastHash = GENESIS_HASH;
+  private seq = 0;
+  private size = 0;
+  private day: string | null = null;
+  private initialized = false;
+  private queue: Promise<void> = Promise.resolve();
 
-  const entry: AuditEntry = {
-    timestamp: new Date().toISOString(),
-    tool,
-    domain: extractDomain(pageUrl || (args.url as string)),
-    sessionId,
-    args_summary: summarizeArgs(args),
-  };
+  constructor(
+    readonly logPath: string,
+    private readonly options: { maxBytes: number; rotateDaily: boolean }
+  ) {}
 
-  const logPath = getLogPath();
-  const logDir = path.dirname(logPath);
+  /** Pick up the chain from existing files (first append only) */
+  private init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
 
-  // Ensure directory exists (first time only)
-  if (!logDirEnsured) {
+    const last = readLastAuditEntry(this.logPath);
+    if (last) {
+      this.lastHash = last.hash;
+      this.seq = last.seq;
+    }
     try {
-      fs.mkdirSync(logDir, { recursive: true });
-      logDirEnsured = true;
+      const stat = fs.statSync(this.logPath);
+      this.size = stat.size;
+      this.day = last ? utcDay(last.timestamp) : utcDay(stat.mtime.toISOString());
     } catch {
-      return; // Non-fatal
+      // No active file yet
     }
   }
 
-  // Non-blocking append
-  const line = JSON.stringify(entry) + '\n';
-  fs.appendFile(logPath, line, (err) => { if (err) console.error('[audit-logger] write failed:', err.code); });
+  append(fields: Omit<AuditEntry, 'seq' | 'prev_hash' | 'hash'>): AuditEntry {
+    this.init();
+    const unhashed = { seq: this.seq + 1, ...fields, prev_hash: this.lastHash };
+    const entry: AuditEntry = { ...unhashed, hash: hashAuditEntry(unhashed) };
+    this.seq = entry.seq;
+    this.lastHash = entry.hash;
+
+    const line = JSON.stringify(entry) + '\n';
+    const day = utcDay(entry.timestamp);
+    this.queue = this.queue
+      .then(() => this.write(line, day))
+      .catch((err) => { console.error('[audit-logger] write failed:', err.code ?? err); });
+    return entry;
+  }
+
+  /** Resolves once every queued entry is on disk */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private async write(line: string, day: string): Promise<void> {
+    const bytes = Buffer.byteLength(line);
+    const sizeExceeded = this.size > 0 && this.size + bytes > this.options.maxBytes;
+    const dayChanged = this.options.rotateDaily && this.day !== null && this.day !== day;
+    if (this.size > 0 && (sizeExceeded || dayChanged)) {
+      await this.rotate();
+    }
+    await fs.promises.appendFile(this.logPath, line);
+    this.size += bytes;
+    this.day = day;
+  }
+
+  private async rotate(): Promise<void> {
+    let rotatedAt = new Date();
+    // Never overwrite an earlier rotated file
+    while (fs.existsSync(rotatedLogName(this.logPath, rotatedAt))) {
+      rotatedAt = new Date(rotatedAt.getTime() + 1);
+    }
+    await fs.promises.rename(this.logPath, rotatedLogName(this.logPath, rotatedAt));
+    this.size = 0;
+  }
+}
+
+let writer: AuditLogWriter | null = null;
+
+/**
+ * Writer for the configured log path, recreated if the path changes.
+ */
+export function getAuditLogWriter(): AuditLogWriter {
+  const security = getGlobalConfig().security;
+  const logPath = getAuditLogPath();
+  const maxBytes = (security?.audit_log_max_size_mb ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+  const rotateDaily = security?.audit_log_rotate_daily ?? true;
+  if (!writer || writer.logPath !== logPath) {
+    writer = new AuditLogWriter(logPath, { maxBytes, rotateDaily });
+  }
+  return writer;
+}
+
+export function logAuditEntry(
+  tool: string,
+  sessionId: string,
+  args: Record<string, unknown>,
+  pageUrl?: string,
+  result: AuditCallResult = { outcome: 'success' }
+): void {
+  const config = getGlobalConfig();
+  if (!config.security?.audit_log) return; // Disabled by default
+
+  try {
+    getAuditLogWriter().append({
+      timestamp: new Date().toISOString(),
+      tool,
+      domain: extractDomain(pageUrl || (args.url as string)),
+      sessionId,
+      outcome: result.outcome,
+      duration_ms: result.durationMs ?? null,
+      ...(result.error && { error: result.error.slice(0, MAX_ERROR_CHARS) }),
+      args_summary: summarizeArgs(args),
+    });
+  } catch (err) {
+    console.error('[audit-logger] append failed:', err instanceof Error ? err.message : err); // Non-fatal
+  }
 }
@@ -1,32 +1,29 @@
 /**
- * Domain Guard - Blocks AI agent access to configured domains
- * Default-allow: no domains blocked unless explicitly configured.
+ * Domain Guard - Applies the security policy to URLs and tool calls
+ * Default-allow: no domains blocked unless blocked_domains or a policy file is configured.
  */
 import { getGlobalConfig } from '../config/global';
 import { extractHostname as extractHostnameFromUrl } from '../utils/url-utils';
+import { SecurityPolicy, evaluateDomain, evaluateTool, restrictsNavigation } from './policy';
 
-/**
- * Convert a glob pattern to a RegExp.
- * Supports "*" as a wildcard matching any sequence of non-dot characters,
- * and "**" or leading "*." to match across subdomains.
- * Examples:
- *   "*.bank.com"      -> matches "www.bank.com", "login.bank.com"
- *   "mail.google.com" -> exact match only
- */
-function globToRegex(pattern: string): RegExp {
-  // Reject overly long patterns (DNS max is 253 chars)
-  if (pattern.length > 253) {
-    throw new Error(`Domain pattern too long (${pattern.length} chars, max 253): "${pattern.slice(0, 50)}..."`);
-  }
+/** A navigation the guard cancelled outside the navigate tool (click, redirect, script) */
+export interface BlockedNavigation {
+  url: string;
+  reason: string;
+  timestamp: number;
+}
 
-  // Escape all regex special chars except "*"
-  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
-  // Replace "*" with "[^.]*" to match any non-dot characters (single-level wildcard)
-  // This means "*.bank.com" matches "www.bank.com" but NOT "a.b.bank.com"
-  const regexStr = escaped.replace(/\*/g, '[^.]*');
-  return new RegExp(`^${regexStr}$`, 'i');
+/** Thrown when the security policy denies a URL or a tool call, so callers can tell denials from failures */
+export class PolicyDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyDeniedError';
+  }
 }
 
+const MAX_BLOCKED_PER_TARGET = 10;
+const blockedNavigations = new Map<string, BlockedNavigation[]>();
+
 /**
  * Extract the hostname from a URL string.
  * Returns null for invalid URLs or special schemes (about:, chrome:, etc.).
@@ -58,37 +55,83 @@ function extractHostname(url: string): string | null {
 }
 
 /**
- * Check whether a URL's domain is blocked by the configured blocklist.
- * Returns false (allowed) if no blocked_domains are configured.
+ * The active policy: the policy file merged with the legacy blocked_domains list.
  */
-export function isDomainBlocked(url: string): boolean {
-  const config = getGlobalConfig();
-  const blockedDomains = config.security?.blocked_domains;
+export function getActivePolicy(): SecurityPolicy {
+  const security = getGlobalConfig().security;
+  const policy = security?.policy ?? {};
+  const blockedDomains = security?.blocked_domains ?? [];
+  if (blockedDomains.length === 0) return policy;
+  return { ...policy, block: [...(policy.block ?? []), ...blockedDomains] };
+}
+
+/**
+ * True if the policy can deny navigations, so navigation guards are worth installing.
+ */
+export function hasNavigationRestrictions(): boolean {
+  return restrictsNavigation(getActivePolicy());
+}
+
+/**
+ * True if the policy has per-domain tool rules.
+ */
+export function hasToolRestrictions(): boolean {
+  return (getActivePolicy().rules?.length ?? 0) > 0;
+}
 
-  if (!blockedDomains || blockedDomains.length === 0) {
-    return false;
+/**
+ * Describe why a URL is denied, or null if it may be loaded.
+ */
+export function getDomainDenial(url: string): string | null {
+  const policy = getActivePolicy();
+  if (!restrictsNavigation(policy)) {
+    return null;
   }
 
   const hostname = extractHostname(url);
   if (!hostname) {
-    return false;
+    return null;
   }
 
-  return blockedDomains.some((pattern) => {
-    const regex = globToRegex(pattern);
-    return regex.test(hostname);
-  });
+  const decision = evaluateDomain(policy, hostname);
+  if (decision.allowed) {
+    return null;
+  }
+  if (decision.matched) {
+    return (
+      `Access to domain "${hostname}" is blocked by security policy (matched pattern: "${decision.matched}"). ` +
+      `Configure blocked_domains or the policy file in your OpenChrome security settings to change this.`
+    );
+  }
+  return `Access to domain "${hostname}" is blocked by security policy: ${decision.reason}.`;
+}
+
+/**
+ * Check whether a URL's domain is blocked by the configured policy.
+ * Returns false (allowed) if no blocked_domains or policy are configured.
+ */
+export function isDomainBlocked(url: string): boolean {
+  return getDomainDenial(url) !== null;
 }
 
 /**
  * Assert that the given URL is not blocked.
- * Throws a descriptive error if the domain is on the blocklist.
+ * Throws a descriptive error if the domain is denied by the policy.
  */
 export function assertDomainAllowed(url: string): void {
-  const config = getGlobalConfig();
-  const blockedDomains = config.security?.blocked_domains;
+  const denial = getDomainDenial(url);
+  if (denial) {
+    throw new PolicyDeniedError(denial);
+  }
+}
 
-  if (!blockedDomains || blockedDomains.length === 0) {
+/**
+ * Assert that a tool may run against a page at the given URL.
+ * Throws with the rule's reason if a per-domain tool rule denies it.
+ */
+export function assertToolAllowed(toolName: string, url: string, args: Record<string, unknown> = {}): void {
+  const policy = getActivePolicy();
+  if (!policy.rules || policy.rules.length === 0) {
     return;
   }
 
@@ -97,15 +140,26 @@ export function assertDomainAllowed(url: string): void {
     return;
   }
 
-  const matchedPattern = blockedDomains.find((pattern) => {
-    const regex = globToRegex(pattern);
-    return regex.test(hostname);
-  });
-
-  if (matchedPattern) {
-    throw new Error(
-      `Access to domain "${hostname}" is blocked by security policy (matched pattern: "${matchedPattern}"). ` +
-        `Configure blocked_domains in your OpenChrome security settings to change this.`
-    );
+  const decision = evaluateTool(policy, toolName, hostname, args);
+  if (!decision.allowed) {
+    throw new PolicyDeniedError(`Tool "${toolName}" is blocked by security policy on "${hostname}": ${decision.reason}`);
   }
 }
+
+/**
+ * Remember a navigation cancelled by the navigation guard so the next tool result can report it.
+ */
+export function recordBlockedNavigation(targetId: string, url: string, reason: string): void {
+  const list = blockedNavigations.get(targetId) ?? [];
+  list.push({ url, reason, timestamp: Date.now() });
+  blockedNavigations.set(targetId, list.slice(-MAX_BLOCKED_PER_TARGET));
+}
+
+/**
+ * Return and clear the navigations blocked on a target since the last call.
+ */
+export function takeBlockedNavigations(targetId: string): BlockedNavigation[] {
+  const list = blockedNavigations.get(targetId) ?? [];
+  blockedNavigations.delete(targetId);
+  return list;
+}
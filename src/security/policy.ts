@@ -0,0 +1,259 @@
+/**
+ * Security Policy - Domain allowlist/blocklist and per-domain tool permissions
+ *
+ * Loaded from a YAML or JSON file (serve --policy <file>). Example:
+ *
+ *   mode: allowlist
+ *   allow: ["**.example.com", "docs.vendor.io"]
+ *   block: ["*.bank.com"]
+ *   rules:
+ *     - domains: ["**.bank.com"]
+ *       deny_tools: [javascript_tool, file_upload]
+ *       reason: No scripting or uploads on banking sites
+ *     - domains: ["admin.prod.example.com"]
+ *       allow_tools: ["@read-only"]
+ *       reason: Production admin is read-only
+ *
+ * Evaluation functions are pure; domain-guard.ts applies them to the active config.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export interface PolicyRule {
+  /** Domain patterns this rule applies to */
+  domains: string[];
+  /** Only these tools may run on matching domains. "@read-only" expands to READ_ONLY_TOOLS */
+  allow_tools?: string[];
+  /** These tools may not run on matching domains */
+  deny_tools?: string[];
+  /** Human-readable explanation returned with denials */
+  reason?: string;
+}
+
+export interface SecurityPolicy {
+  /** blocklist (default): everything not blocked is allowed. allowlist: only "allow" domains are reachable */
+  mode?: 'allowlist' | 'blocklist';
+  /** Reachable domains in allowlist mode */
+  allow?: string[];
+  /** Domains that are never reachable (checked before the allowlist) */
+  block?: string[];
+  rules?: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  /** Why the request was denied; absent when allowed */
+  reason?: string;
+  /** Pattern or rule that produced the decision */
+  matched?: string;
+}
+
+/** Tool group for "@read-only": tools that observe a page without changing it */
+export const READ_ONLY_TOOLS = [
+  'navigate', 'page_reload', 'tabs_context', 'tabs_create', 'tabs_close',
+  'read_page', 'find', 'page_content', 'query_dom', 'selector_query', 'xpath_query',
+  'inspect', 'wait_for', 'lightweight_scroll', 'console_capture', 'performance_metrics',
+  'page_pdf', 'visual_snapshot', 'a11y_audit', 'assert', 'memory_query',
+];
+
+/** computer actions that only observe the page; other actions are treated as writes */
+const READ_ONLY_COMPUTER_ACTIONS = ['screenshot', 'zoom', 'scroll', 'scroll_to'];
+
+/** Tools that also do what another tool does, and are checked under that name too */
+const IMPLIED_TOOLS: Record<string, string[]> = {
+  // Runs a script in every task's tab
+  batch_execute: ['javascript_tool'],
+};
+
+const TOOL_GROUPS: Record<string, string[]> = {
+  '@read-only': READ_ONLY_TOOLS,
+};
+
+/**
+ * Convert a domain glob to a RegExp.
+ *   "*"  matches one label (any run of non-dot characters)
+ *   "**" matches any number of labels, including none when followed by "."
+ * Examples:
+ *   "*.bank.com"      -> "www.bank.com", not "a.b.bank.com" or "bank.com"
+ *   "**.bank.com"     -> "bank.com", "www.bank.com", "a.b.bank.com"
+ *   "mail.google.com" -> exact match only
+ */
+export function domainGlobToRegex(pattern: string): RegExp {
+  // Reject overly long patterns (DNS max is 253 chars)
+  if (pattern.length > 253) {
+    throw new Error(`Domain pattern too long (${pattern.length} chars, max 253): "${pattern.slice(0, 50)}..."`);
+  }
+
+  let regexStr = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '.') {
+        regexStr += '(?:[^.]+\\.)*';
+        i += 2;
+      } else {
+        regexStr += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      regexStr += '[^.]*';
+    } else {
+      regexStr += ch.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regexStr}$`, 'i');
+}
+
+function matchDomain(hostname: string, patterns: string[] | undefined): string | undefined {
+  return patterns?.find(pattern => domainGlobToRegex(pattern).test(hostname));
+}
+
+/**
+ * Decide whether a hostname may be loaded.
+ */
+export function evaluateDomain(policy: SecurityPolicy, hostname: string): PolicyDecision {
+  const blocked = matchDomain(hostname, policy.block);
+  if (blocked) {
+    return { allowed: false, matched: blocked, reason: `matched blocked pattern "${blocked}"` };
+  }
+  if (policy.mode === 'allowlist') {
+    const allowed = matchDomain(hostname, policy.allow);
+    if (!allowed) {
+      return { allowed: false, reason: 'domain is not on the allowlist' };
+    }
+    return { allowed: true, matched: allowed };
+  }
+  return { allowed: true };
+}
+
+function expandTools(tools: string[]): string[] {
+  return tools.flatMap(t => TOOL_GROUPS[t] ?? [t]);
+}
+
+/**
+ * Decide whether a tool may run against a page on the given hostname.
+ * Every matching rule applies; the first denial wins.
+ */
+export function evaluateTool(
+  policy: SecurityPolicy,
+  toolName: string,
+  hostname: string,
+  args: Record<string, unknown> = {}
+): PolicyDecision {
+  const names = [toolName, ...(IMPLIED_TOOLS[toolName] ?? [])];
+  for (const rule of policy.rules ?? []) {
+    const matched = matchDomain(hostname, rule.domains);
+    if (!matched) continue;
+
+    const deniedName = rule.deny_tools && names.find(name => expandTools(rule.deny_tools!).includes(name));
+    const denied = !!deniedName;
+    let permitted = true;
+    if (rule.allow_tools) {
+      const allowed = expandTools(rule.allow_tools);
+      permitted = names.every(name => allowed.includes(name)) || (
+        toolName === 'computer' &&
+        rule.allow_tools.includes('@read-only') &&
+        READ_ONLY_COMPUTER_ACTIONS.includes(args.action as string)
+      );
+    }
+
+    if (denied || !permitted) {
+      return {
+        allowed: false,
+        matched,
+        reason: rule.reason ?? (denied
+          ? `"${deniedName}" is denied on domains matching "${matched}"`
+          : `only ${rule.allow_tools!.join(', ')} may run on domains matching "${matched}"`),
+      };
+    }
+  }
+  return { allowed: true };
+}
+
+/** True if the policy restricts which domains can be loaded */
+export function restrictsNavigation(policy: SecurityPolicy): boolean {
+  return policy.mode === 'allowlist' || (policy.block?.length ?? 0) > 0;
+}
+
+function assertStringArray(value: unknown, field: string): void {
+  if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+    throw new Error(`Policy field "${field}" must be a list of strings`);
+  }
+}
+
+/**
+ * Validate a parsed policy document. Throws with the offending field on error.
+ */
+export function validatePolicy(raw: unknown): SecurityPolicy {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Policy must be an object');
+  }
+  const policy = raw as Record<string, unknown>;
+  const known = ['mode', 'allow', 'block', 'rules'];
+  const unknown = Object.keys(policy).filter(k => !known.includes(k));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown policy field(s): ${unknown.join(', ')}`);
+  }
+  if (policy.mode !== undefined && policy.mode !== 'allowlist' && policy.mode !== 'blocklist') {
+    throw new Error('Policy field "mode" must be "allowlist" or "blocklist"');
+  }
+  assertStringArray(policy.allow, 'allow');
+  assertStringArray(policy.block, 'block');
+  if (policy.mode === 'allowlist' && !(policy.allow as string[] | undefined)?.length) {
+    throw new Error('Policy in allowlist mode needs at least one "allow" pattern');
+  }
+
+  if (policy.rules !== undefined) {
+    if (!Array.isArray(policy.rules)) {
+      throw new Error('Policy field "rules" must be a list');
+    }
+    policy.rules.forEach((rule: unknown, i: number) => {
+      const r = rule as Record<string, unknown>;
+      if (!r || typeof r !== 'object' || !Array.isArray(r.domains) || r.domains.length === 0) {
+        throw new Error(`rules[${i}].domains must be a non-empty list`);
+      }
+      assertStringArray(r.domains, `rules[${i}].domains`);
+      assertStringArray(r.allow_tools, `rules[${i}].allow_tools`);
+      assertStringArray(r.deny_tools, `rules[${i}].deny_tools`);
+      if (!r.allow_tools && !r.deny_tools) {
+        throw new Error(`rules[${i}] needs allow_tools or deny_tools`);
+      }
+      if (r.reason !== undefined && typeof r.reason !== 'string') {
+        throw new Error(`rules[${i}].reason must be a string`);
+      }
+      for (const tool of [...(r.allow_tools as string[] ?? []), ...(r.deny_tools as string[] ?? [])]) {
+        if (tool.startsWith('@') && !TOOL_GROUPS[tool]) {
+          throw new Error(`rules[${i}]: unknown tool group "${tool}"`);
+        }
+      }
+    });
+  }
+
+  // Compile every pattern once so bad globs fail at load time
+  const rules = (policy.rules as PolicyRule[] | undefined) ?? [];
+  for (const pattern of [...((policy.allow as string[]) ?? []), ...((policy.block as string[]) ?? []), ...rules.flatMap(r => r.domains)]) {
+    domainGlobToRegex(pattern);
+  }
+
+  return policy as SecurityPolicy;
+}
+
+/**
+ * Load and validate a policy file (.yaml, .yml or .json).
+ */
+export function loadPolicyFile(filePath: string): SecurityPolicy {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const ext = path.extname(filePath).toLowerCase();
+  let raw: unknown;
+  try {
+    raw = ext === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Cannot parse policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return validatePolicy(raw);
+  } catch (error) {
+    throw new Error(`Invalid policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Secrets Vault - Local encrypted store for credentials referenced by placeholder
+ *
+ * Tools such as fill_form, form_input and http_auth accept "{{secret:name}}" in place
+ * of a plaintext value. The placeholder is resolved server-side just before use, so the
+ * value never appears in tool arguments, the timeline or the audit log. Every resolved
+ * value is remembered for the life of the process and redacted from tool results.
+ *
+ * Entries are encrypted with AES-256-GCM (the secret name is bound as additional data).
+ * The key comes from OPENCHROME_SECRETS_KEY (scrypt passphrase) when set, otherwise
+ * from a random key file created next to the vault with 0600 permissions.
+ */
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { getGlobalConfig } from '../config/global';
+import type { MCPResult } from '../types/mcp';
+
+const VAULT_VERSION = 1;
+const KEY_BYTES = 32;
+const PASSPHRASE_ENV = 'OPENCHROME_SECRETS_KEY';
+
+/** Shortest partial secret that is still redacted (results often truncate values) */
+const MIN_REDACTED_PREFIX = 12;
+
+const SECRET_NAME = /^[A-Za-z0-9_.-]{1,64}$/;
+const PLACEHOLDER = /\{\{\s*secret:([^}\s]+)\s*\}\}/g;
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+  updatedAt: string;
+}
+
+interface VaultFile {
+  version: number;
+  /** keyfile: random key in <vault>.key; scrypt: derived from OPENCHROME_SECRETS_KEY */
+  kdf: 'keyfile' | 'scrypt';
+  salt?: string;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+export interface SecretInfo {
+  name: string;
+  updatedAt: string;
+}
+
+/** Resolved vault path (security.secrets_path or ~/.openchrome/secrets.json) */
+export function getSecretsVaultPath(): string {
+  return getGlobalConfig().security?.secrets_path ||
+    path.join(os.homedir(), '.openchrome', 'secrets.json');
+}
+
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
+
+/**
+ * Encrypted name -> value store backed by one JSON file. The file is re-read on every
+ * access so `oc secrets set` takes effect in a running server.
+ */
+export class SecretsVault {
+  private derivedKeys = new Map<string, Buffer>();
+
+  constructor(
+    readonly vaultPath: string,
+    private readonly passphrase: string | undefined = process.env[PASSPHRASE_ENV]
+  ) {}
+
+  /** Key file used when no passphrase is configured: secrets.json -> secrets.key */
+  get keyPath(): string {
+    const ext = path.extname(this.vaultPath);
+    return path.join(path.dirname(this.vaultPath), `${path.basename(this.vaultPath, ext)}.key`);
+  }
+
+  list(): SecretInfo[] {
+    const vault = this.read();
+    if (!vault) return [];
+    return Object.entries(vault.secrets)
+      .map(([name, entry]) => ({ name, updatedAt: entry.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(name: string): string | undefined {
+    const vault = this.read();
+    const entry = vault?.secrets[name];
+    if (!vault || !entry) return undefined;
+
+    const decipher = createDecipheriv('aes-256-gcm', this.key(vault, false), Buffer.from(entry.iv, 'base64'));
+    decipher.setAAD(Buffer.from(name, 'utf8'));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(`Cannot decrypt secret "${name}": wrong key or the vault was modified`);
+    }
+  }
+
+  set(name: string, value: string): void {
+    if (!isValidSecretName(name)) {
+      throw new Error(`Invalid secret name "${name}". Use letters, digits, ".", "_" or "-" (max 64)`);
+    }
+    const vault = this.read() ?? this.create();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key(vault, true), iv);
+    cipher.setAAD(Buffer.from(name, 'utf8'));
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+    vault.secrets[name] = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+      updatedAt: new Date().toISOString(),
+    };
+    this.write(vault);
+  }
+
+  /** @returns false if the secret did not exist */
+  remove(name: string): boolean {
+    const vault = this.read();
+    if (!vault?.secrets[name]) return false;
+    delete vault.secrets[name];
+    this.write(vault);
+    return true;
+  }
+
+  private create(): VaultFile {
+    return this.passphrase
+      ? { version: VAULT_VERSION, kdf: 'scrypt', salt: randomBytes(16).toString('base64'), secrets: {} }
+      : { version: VAULT_VERSION, kdf: 'keyfile', secrets: {} };
+  }
+
+  private read(): VaultFile | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.vaultPath, 'utf8');
+    } catch {
+      return null;
+    }
+    const vault = JSON.parse(raw) as VaultFile;
+    if (vault.version !== VAULT_VERSION || !vault.secrets) {
+      throw new Error(`Unsupported secrets vault format in ${this.vaultPath}`);
+    }
+    return vault;
+  }
+
+  private write(vault: VaultFile): void {
+    fs.mkdirSync(path.dirname(this.vaultPath), { recursive: true, mode: 0o700 });
+    const tmp = `${this.vaultPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(vault, null, 2) + '\n', { mode: 0o600 });
+    fs.renameSync(tmp, this.vaultPath);
+  }
+
+  private key(vault: VaultFile, createIfMissing: boolean): Buffer {
+    if (vault.kdf === 'scrypt') {
+      if (!this.passphrase) {
+        throw new Error(`Secrets vault ${this.vaultPath} is passphrase-protected; set ${PASSPHRASE_ENV}`);
+      }
+      const cacheKey = `${vault.salt}:${this.passphrase}`;
+      let key = this.derivedKeys.get(cacheKey);
+      if (!key) {
+        key = scryptSync(this.passphrase, Buffer.from(vault.salt ?? '', 'base64'), KEY_BYTES);
+        this.derivedKeys.set(cacheKey, key);
+      }
+      return key;
+    }
+
+    try {
+      const key = Buffer.from(fs.readFileSync(this.keyPath, 'utf8').trim(), 'base64');
+      if (key.length === KEY_BYTES) return key;
+      throw new Error(`Invalid key file ${this.keyPath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      if (!createIfMissing) throw new Error(`Key file ${this.keyPath} is missing; cannot decrypt the secrets vault`);
+    }
+    const key = randomBytes(KEY_BYTES);
+    fs.mkdirSync(path.dirname(this.keyPath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.keyPath, key.toString('base64') + '\n', { mode: 0o600, flag: 'wx' });
+    return key;
+  }
+}
+
+let vault: SecretsVault | null = null;
+
+/**
+ * Vault for the configured path, recreated if the path changes.
+ */
+export function getSecretsVault(): SecretsVault {
+  const vaultPath = getSecretsVaultPath();
+  if (!vault || vault.vaultPath !== vaultPath) {
+    vault = new SecretsVault(vaultPath);
+  }
+  return vault;
+}
+
+// Values handed to tools so far, with the name used to redact them
+const revealed = new Map<string, string>();
+let redactionPatterns: Array<{ pattern: RegExp; name: string }> | null = null;
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Matches the whole value, or any truncated prefix of at least MIN_REDACTED_PREFIX chars */
+function buildRedactionPattern(value: string): RegExp {
+  if (value.length <= MIN_REDACTED_PREFIX) return new RegExp(escapeRegex(value), 'g');
+  const head = escapeRegex(value.slice(0, MIN_REDACTED_PREFIX));
+  const tail = Array.from(value.slice(MIN_REDACTED_PREFIX))
+    .reduceRight((rest, ch) => `(?:${escapeRegex(ch)}${rest})?`, '');
+  return new RegExp(head + tail, 'g');
+}
+
+export function containsSecretPlaceholder(value: unknown): boolean {
+  return typeof value === 'string' && new RegExp(PLACEHOLDER.source).test(value);
+}
+
+/**
+ * Replace every {{secret:name}} in a value with the stored secret. Throws if a
+ * referenced secret does not exist. Resolved values are registered for redaction.
+ */
+export function resolveSecretPlaceholders(value: string): string {
+  if (!containsSecretPlaceholder(value)) return value;
+  const secrets = getSecretsVault();
+  return value.replace(PLACEHOLDER, (_match, name: string) => {
+    const secret = secrets.get(name);
+    if (secret === undefined) {
+      throw new Error(`Secret "${name}" not found. Add it with: oc secrets set ${name}`);
+    }
+    if (secret && !revealed.has(secret)) {
+      revealed.set(secret, name);
+      redactionPatterns = null;
+    }
+    return secret;
+  });
+}
+
+/**
+ * Replace any secret value resolved in this process (or a truncated prefix of one)
+ * with its placeholder.
+ */
+export function redactSecrets(text: string): string {
+  if (revealed.size === 0 || !text) return text;
+  if (!redactionPatterns) {
+    // Longest first, so a secret containing another is redacted as a whole
+    redactionPatterns = Array.from(revealed.entries())
+      .sort((a, b) => b[0].length - a[0].length)
+      .map(([value, name]) => ({ pattern: buildRedactionPattern(value), name }));
+  }
+  let redacted = text;
+  for (const { pattern, name } of redactionPatterns) {
+    redacted = redacted.replace(pattern, `{{secret:${name}}}`);
+  }
+  return redacted;
+}
+
+/** Redact the text content of a tool result in place */
+export function redactSecretsInResult(result: MCPResult): MCPResult {
+  if (revealed.size === 0) return result;
+  for (const item of result.content ?? []) {
+    if (item.type === 'text' && typeof item.text === 'string') {
+      item.text = redactSecrets(item.text);
+    }
+  }
+  return result;
+}
+
+/** Forget all revealed values (tests) */
+export function clearRevealedSecrets(): void {
+  revealed.clear();
+  redactionPatterns = null;
+}
@@ -0,0 +1,162 @@
+/**
+ * TOTP - RFC 6238 one-time codes from seeds kept in an encrypted store
+ *
+ * Seeds live in their own vault file (totp.json next to the secrets vault) so they
+ * can never be typed into a page through a {{secret:name}} placeholder. Only codes
+ * leave this module, and the totp tool types them without returning them.
+ */
+import { createHmac } from 'crypto';
+import * as path from 'path';
+import { SecretsVault, getSecretsVaultPath, SecretInfo } from './secrets-vault';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface TotpConfig {
+  /** Base32 seed */
+  secret: string;
+  digits: number;
+  /** Time step in seconds */
+  period: number;
+  algorithm: TotpAlgorithm;
+  issuer?: string;
+  account?: string;
+}
+
+export interface TotpCode {
+  code: string;
+  /** Seconds until the code rotates */
+  expiresIn: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const ALGORITHMS: TotpAlgorithm[] = ['SHA1', 'SHA256', 'SHA512'];
+
+/** Decode an RFC 4648 base32 string (case-insensitive; spaces, dashes and padding ignored) */
+export function decodeBase32(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const ch of clean) {
+    const index = BASE32_ALPHABET.indexOf(ch);
+    if (index === -1) throw new Error(`Invalid base32 character "${ch}" in TOTP seed`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate the code for a time (RFC 6238, dynamic truncation from RFC 4226).
+ */
+export function generateTotp(config: TotpConfig, now: number = Date.now()): TotpCode {
+  const seconds = Math.floor(now / 1000);
+  const counter = Math.floor(seconds / config.period);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(config.algorithm.toLowerCase(), decodeBase32(config.secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** config.digits;
+
+  return {
+    code: String(binary).padStart(config.digits, '0'),
+    expiresIn: config.period - (seconds % config.period),
+  };
+}
+
+/**
+ * Parse an otpauth://totp/ URI (as encoded in enrollment QR codes) or a bare base32 seed.
+ */
+export function parseTotpSeed(input: string): TotpConfig {
+  const trimmed = input.trim();
+  if (!trimmed.toLowerCase().startsWith('otpauth://')) {
+    const config: TotpConfig = { secret: trimmed.toUpperCase().replace(/[\s=-]/g, ''), digits: 6, period: 30, algorithm: 'SHA1' };
+    validateTotpConfig(config);
+    return config;
+  }
+
+  const url = new URL(trimmed);
+  if (url.hostname.toLowerCase() !== 'totp') {
+    throw new Error(`Unsupported OTP type "${url.hostname}". Only TOTP (otpauth://totp/...) is supported`);
+  }
+  const params = url.searchParams;
+  const label = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  const [labelIssuer, account] = label.includes(':') ? label.split(':', 2) : [undefined, label];
+
+  const config: TotpConfig = {
+    secret: (params.get('secret') ?? '').toUpperCase().replace(/[\s=-]/g, ''),
+    digits: params.has('digits') ? parseInt(params.get('digits')!, 10) : 6,
+    period: params.has('period') ? parseInt(params.get('period')!, 10) : 30,
+    algorithm: (params.get('algorithm')?.toUpperCase() ?? 'SHA1') as TotpAlgorithm,
+    ...((params.get('issuer') || labelIssuer) && { issuer: params.get('issuer') || labelIssuer }),
+    ...(account && { account: account.trim() }),
+  };
+  validateTotpConfig(config);
+  return config;
+}
+
+function validateTotpConfig(config: TotpConfig): void {
+  if (!config.secret) throw new Error('TOTP seed is empty');
+  if (decodeBase32(config.secret).length < 10) {
+    throw new Error('TOTP seed is too short (expected at least 16 base32 characters)');
+  }
+  if (!(config.digits >= 6 && config.digits <= 8)) throw new Error(`Invalid TOTP digits ${config.digits} (expected 6-8)`);
+  if (!(config.period > 0 && config.period <= 300)) throw new Error(`Invalid TOTP period ${config.period}`);
+  if (!ALGORITHMS.includes(config.algorithm)) throw new Error(`Unsupported TOTP algorithm "${config.algorithm}"`);
+}
+
+/** TOTP store path: totp.json in the secrets vault directory */
+export function getTotpStorePath(): string {
+  return path.join(path.dirname(getSecretsVaultPath()), 'totp.json');
+}
+
+/**
+ * Named TOTP seeds in an encrypted vault file.
+ */
+export class TotpStore {
+  private readonly vault: SecretsVault;
+
+  constructor(readonly storePath: string, passphrase?: string) {
+    this.vault = new SecretsVault(storePath, passphrase);
+  }
+
+  add(name: string, config: TotpConfig): void {
+    validateTotpConfig(config);
+    this.vault.set(name, JSON.stringify(config));
+  }
+
+  list(): SecretInfo[] {
+    return this.vault.list();
+  }
+
+  remove(name: string): boolean {
+    return this.vault.remove(name);
+  }
+
+  /** Current code for a seed; throws if the seed does not exist */
+  generate(name: string, now: number = Date.now()): TotpCode {
+    const stored = this.vault.get(name);
+    if (stored === undefined) {
+      throw new Error(`TOTP seed "${name}" not found. Add it with: oc totp add ${name}`);
+    }
+    return generateTotp(JSON.parse(stored) as TotpConfig, now);
+  }
+}
+
+let store: TotpStore | null = null;
+
+/**
+ * Store for the configured path, recreated if the path changes.
+ */
+export function getTotpStore(): TotpStore {
+  const storePath = getTotpStorePath();
+  if (!store || store.storePath !== storePath) {
+    store = new TotpStore(storePath);
+  }
+  return store;
+}
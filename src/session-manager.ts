@@ -5,7 +5,7 @@
 
 import path from 'path';
 import { Page, Target, BrowserContext } from 'puppeteer-core';
-import { Session, SessionInfo, SessionCreateOptions, SessionEvent, Worker, WorkerInfo, WorkerCreateOptions } from './types/session';
+import { Session, SessionInfo, SessionCreateOptions, SessionEvent, Worker, WorkerInfo, WorkerCreateOptions, ProfileInstanceInfo } from './types/session';
 import { CDPClient, getCDPClient, CDPClientFactory, getCDPClientFactory } from './cdp/client';
 import { CDPConnectionPool, getCDPConnectionPool, PoolStats } from './cdp/connection-pool';
 import { ChromePool, getChromePool } from './chrome/pool';
@@ -19,8 +19,9 @@ import { BrowserRouter } from './router';
 import { HybridConfig } from './types/browser-backend';
 import { StorageStateManager } from './storage-state';
 import { StorageStateConfig } from './config';
-import { assertDomainAllowed } from './security/domain-guard';
+import { assertDomainAllowed, PolicyDeniedError } from './security/domain-guard';
 import { getTargetId } from './utils/puppeteer-helpers';
+import { getDownloadManager } from './network/download-manager';
 
 /** The primary session ID used by most single-agent workflows. */
 const DEFAULT_SESSION_ID = 'default';
@@ -82,6 +83,8 @@ export class SessionManager {
   private cdpClient: CDPClient;
   private connectionPool: CDPConnectionPool | null = null;
   private chromePool: ChromePool | null = null;
+  private profilePool: ChromePool | null = null;
+  private profileClientPorts = new Set<number>();
   private cdpFactory: CDPClientFactory;
   private queueManager: RequestQueueManager;
   private eventListeners: ((event: SessionEvent) => void)[] = [];
@@ -157,6 +160,68 @@ export class SessionManager {
     return this.cdpClient;
   }
 
+  /**
+   * Pool that runs per-profile Chrome instances. Shares the origin pool when that is enabled.
+   */
+  private getProfilePool(): ChromePool {
+    if (this.chromePool) return this.chromePool;
+    if (!this.profilePool) {
+      this.profilePool = getChromePool({
+        autoLaunch: getGlobalConfig().autoLaunch,
+        basePort: getGlobalConfig().port,
+      });
+    }
+    return this.profilePool;
+  }
+
+  /**
+   * Start (or reuse) the Chrome instance for a profile and connect to it.
+   * @returns the instance port, or undefined when the primary instance runs this profile
+   */
+  private async connectProfileInstance(profile: string): Promise<number | undefined> {
+    const pool = this.getProfilePool();
+    const instance = await pool.acquireProfileInstance(profile);
+    if (!instance) return undefined;
+
+    const client = this.cdpFactory.getOrCreate(instance.port, { autoLaunch: true });
+    try {
+      if (!client.isConnected()) {
+        await client.connect();
+      }
+    } catch (err) {
+      pool.releaseProfileInstance(instance.port);
+      throw err;
+    }
+
+    if (!this.profileClientPorts.has(instance.port)) {
+      this.profileClientPorts.add(instance.port);
+      client.addTargetDestroyedListener((targetId) => {
+        this.onTargetClosed(targetId);
+      });
+    }
+
+    console.error(`[SessionManager] Profile "${profile}" runs on Chrome instance port ${instance.port}`);
+    return instance.port;
+  }
+
+  /**
+   * Point a worker's downloads at its own directory (default: .openchrome/downloads/<session>/<worker>).
+   * @returns the directory, or null if Chrome rejected the download behavior
+   */
+  async configureWorkerDownloads(sessionId: string, workerId: string, directory?: string): Promise<string | null> {
+    const worker = this.getWorker(sessionId, workerId);
+    if (!worker) {
+      throw new Error(`Worker ${workerId} not found in session ${sessionId}`);
+    }
+    let browser;
+    try {
+      browser = this.getCDPClientForWorker(sessionId, workerId).getBrowser();
+    } catch {
+      return null;
+    }
+    return getDownloadManager().configureWorker(browser, sessionId, worker, directory);
+  }
+
   /**
    * Start automatic cleanup interval
    */
@@ -292,9 +357,15 @@ export class SessionManager {
     const name = options.name || `Session ${id.slice(0, 8)}`;
     const defaultWorkerId = 'default';
 
+    // A profile session runs its default worker in that profile's Chrome instance
+    const profilePort = options.profile
+      ? await this.connectProfileInstance(options.profile)
+      : undefined;
+
     // Create default worker - use default context if configured (shares Chrome profile's cookies)
-    // or create isolated browser context for session isolation
-    const defaultContext = this.config.useDefaultContext
+    // or create isolated browser context for session isolation. Profile workers always use the
+    // profile's own default context, which holds its logins.
+    const defaultContext = this.config.useDefaultContext || options.profile
       ? null  // null means use default browser context (shares cookies with Chrome profile)
       : await this.cdpClient.createBrowserContext();
     const defaultWorker: Worker = {
@@ -304,6 +375,7 @@ export class SessionManager {
       context: defaultContext,
       createdAt: Date.now(),
       lastActivityAt: Date.now(),
+      ...(options.profile && { profile: options.profile, port: profilePort }),
     };
 
     const session: Session = {
@@ -318,10 +390,11 @@ export class SessionManager {
     };
 
     this.sessions.set(id, session);
+    await this.configureWorkerDownloads(id, defaultWorkerId);
     this.totalSessionsCreated++;
     this.emitEvent({ type: 'session:created', sessionId: id, timestamp: Date.now() });
 
-    console.error(`[SessionManager] Created session ${id} with default worker`);
+    console.error(`[SessionManager] Created session ${id} with default worker${options.profile ? ` (profile "${options.profile}")` : ''}`);
     return session;
   }
 
@@ -468,10 +541,12 @@ export class SessionManager {
     }
 
     // Clean up Chrome pool and factory connections
-    if (this.chromePool) {
-      await this.chromePool.cleanup();
+    const pool = this.chromePool || this.profilePool;
+    if (pool) {
+      await pool.cleanup();
     }
     await this.cdpFactory.disconnectAll();
+    this.profileClientPorts.clear();
 
     return count;
   }
@@ -500,15 +575,22 @@ export class SessionManager {
 
     const name = options.name || `Worker ${workerId}`;
 
-    // Create browser context: shared (null = copies cookies from Chrome profile) or isolated
-    const context = options.shareCookies
+    // A profile worker runs in that profile's Chrome instance. No fallback on failure:
+    // running in another profile would act under the wrong account.
+    let workerPort: number | undefined;
+    let workerPoolOrigin: string | undefined;
+    if (options.profile) {
+      workerPort = await this.connectProfileInstance(options.profile);
+    }
+
+    // Create browser context: shared (null = copies cookies from Chrome profile) or isolated.
+    // Profile workers use the profile's default context, which holds its logins.
+    const context = options.shareCookies || options.profile
       ? null
       : await this.cdpClient.createBrowserContext();
 
     // If pool is enabled and targetUrl provided, acquire a separate Chrome instance
-    let workerPort: number | undefined;
-    let workerPoolOrigin: string | undefined;
-    if (this.chromePool && options.targetUrl) {
+    if (this.chromePool && options.targetUrl && !options.profile) {
       try {
         const origin = new URL(options.targetUrl).origin;
         const poolInstance = await this.chromePool.acquireInstance(origin);
@@ -540,9 +622,11 @@ export class SessionManager {
       lastActivityAt: Date.now(),
       port: workerPort,
       poolOrigin: workerPoolOrigin,
+      ...(options.profile && { profile: options.profile }),
     };
 
     session.workers.set(workerId, worker);
+    await this.configureWorkerDownloads(sessionId, workerId);
     this.touchSession(sessionId);
 
     this.emitEvent({
@@ -552,7 +636,7 @@ export class SessionManager {
       timestamp: Date.now(),
     });
 
-    console.error(`[SessionManager] Created worker ${workerId} in session ${sessionId}`);
+    console.error(`[SessionManager] Created worker ${workerId} in session ${sessionId}${options.profile ? ` (profile "${options.profile}")` : ''}`);
     return worker;
   }
 
@@ -597,6 +681,7 @@ export class SessionManager {
         targetCount: worker.targets.size,
         createdAt: worker.createdAt,
         lastActivityAt: worker.lastActivityAt,
+        ...(worker.profile && { profile: worker.profile, port: worker.port ?? getGlobalConfig().port }),
       });
     }
 
@@ -670,6 +755,11 @@ export class SessionManager {
       this.chromePool.releaseInstance(worker.port, worker.poolOrigin);
       console.error(`[SessionManager] Released pool instance port ${worker.port} for origin ${worker.poolOrigin}`);
     }
+    if (worker.port && worker.profile) {
+      this.getProfilePool().releaseProfileInstance(worker.port);
+    }
+
+    getDownloadManager().releaseWorker(session.id, worker);
 
     // Clean up ref IDs for this worker
     for (const targetId of worker.targets) {
@@ -735,7 +825,8 @@ export class SessionManager {
         .map(t => getTargetId(t))
     );
 
-    if (this.connectionPool && this.config.useConnectionPool) {
+    // Pre-warmed pages live in the primary browser; workers on other instances create their own
+    if (this.connectionPool && this.config.useConnectionPool && !worker.port) {
       let poolPage: Page | null = null;
       try {
         poolPage = await this.connectionPool.acquirePage();
@@ -937,9 +1028,8 @@ export class SessionManager {
       return page;
     } catch (error) {
       // Re-throw domain guard errors — they must not be silently swallowed
-      if (error instanceof Error && (
-        error.message.includes('blocked by security policy') ||
-        error.message.includes('blocked when domain restrictions are active')
+      if (error instanceof PolicyDeniedError || (
+        error instanceof Error && error.message.includes('blocked when domain restrictions are active')
       )) {
         throw error;
       }
@@ -948,6 +1038,22 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Get the page for a tracked target without refreshing the session TTL.
+   * For observers (the web dashboard) that must not keep idle sessions alive.
+   */
+  async peekPage(targetId: string): Promise<Page | null> {
+    const ownerInfo = this.targetToWorker.get(targetId);
+    if (!ownerInfo) return null;
+
+    try {
+      const page = await this.getCDPClientForWorker(ownerInfo.sessionId, ownerInfo.workerId).getPageByTargetId(targetId);
+      return page && !page.isClosed() ? page : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Attempt to recover an untracked target that exists in Chrome.
    * Cross-origin navigations (OAuth, SSO) can cause Chrome to replace the target
@@ -1400,6 +1506,7 @@ export class SessionManager {
         targetCount: worker.targets.size,
         createdAt: worker.createdAt,
         lastActivityAt: worker.lastActivityAt,
+        ...(worker.profile && { profile: worker.profile, port: worker.port ?? getGlobalConfig().port }),
       });
     }
 
@@ -1428,6 +1535,44 @@ export class SessionManager {
     return infos;
   }
 
+  /**
+   * Chrome profiles in use and the instance running each, with the workers assigned to it.
+   * Includes idle profile instances that are still running for reuse.
+   */
+  getProfileInstances(): ProfileInstanceInfo[] {
+    const byKey = new Map<string, ProfileInstanceInfo>();
+    const primaryPort = getGlobalConfig().port;
+
+    const pool = this.chromePool || this.profilePool;
+    if (pool) {
+      for (const instance of pool.getInstances().values()) {
+        if (!instance.profile) continue;
+        byKey.set(`${instance.port}`, {
+          profile: instance.profile,
+          ...(instance.profileName && { profileName: instance.profileName }),
+          port: instance.port,
+          primary: false,
+          workers: [],
+        });
+      }
+    }
+
+    for (const session of this.sessions.values()) {
+      for (const worker of session.workers.values()) {
+        if (!worker.profile) continue;
+        const key = worker.port ? `${worker.port}` : `primary:${worker.profile}`;
+        let info = byKey.get(key);
+        if (!info) {
+          info = { profile: worker.profile, port: worker.port ?? primaryPort, primary: !worker.port, workers: [] };
+          byKey.set(key, info);
+        }
+        info.workers.push({ sessionId: session.id, workerId: worker.id });
+      }
+    }
+
+    return Array.from(byKey.values());
+  }
+
   // ==================== EVENT HANDLING ====================
 
   /**
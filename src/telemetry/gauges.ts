@@ -0,0 +1,58 @@
+/**
+ * Server gauges - Reads the existing ad-hoc stats into telemetry samples
+ *
+ * Sources: SessionManager.getStats (sessions, workers, tabs, CDPConnectionPool),
+ * ScreenshotScheduler.getStats, BrowserRouter.getStats (hybrid mode only) and the
+ * ActivityTracker's in-progress calls.
+ */
+
+import type { SessionManager } from '../session-manager';
+import type { ActivityTracker } from '../dashboard/activity-tracker';
+import { getScreenshotScheduler } from '../cdp/screenshot-scheduler';
+import { GaugeSample } from './telemetry';
+
+export function createServerGaugeProvider(
+  sessionManager: SessionManager,
+  activityTracker: ActivityTracker
+): () => GaugeSample[] {
+  return () => {
+    const stats = sessionManager.getStats();
+    const samples: GaugeSample[] = [
+      { name: 'openchrome.sessions.active', description: 'Open browser sessions', unit: '1', value: stats.activeSessions },
+      { name: 'openchrome.workers.active', description: 'Workers across all sessions', unit: '1', value: stats.totalWorkers },
+      { name: 'openchrome.tabs.open', description: 'Tabs owned by sessions', unit: '1', value: stats.totalTargets },
+      { name: 'openchrome.tool.calls.active', description: 'Tool calls in progress', unit: '1', value: activityTracker.getActiveCalls().length },
+    ];
+
+    const pool = stats.connectionPool;
+    if (pool) {
+      const total = pool.inUsePages + pool.availablePages;
+      samples.push(
+        { name: 'openchrome.pool.pages', description: 'Pooled pages by state', unit: '1', value: pool.inUsePages, labels: { state: 'in_use' } },
+        { name: 'openchrome.pool.pages', description: 'Pooled pages by state', unit: '1', value: pool.availablePages, labels: { state: 'available' } },
+        { name: 'openchrome.pool.utilization', description: 'Share of pooled pages in use (0-1)', unit: '1', value: total > 0 ? pool.inUsePages / total : 0 },
+        { name: 'openchrome.pool.acquire_time.avg', description: 'Average time to acquire a pooled page', unit: 'ms', value: pool.avgAcquireTimeMs },
+        { name: 'openchrome.pool.pages.created', description: 'Pages created by the pool', unit: '1', value: pool.totalPagesCreated, monotonic: true },
+      );
+    }
+
+    const screenshots = getScreenshotScheduler().getStats();
+    samples.push(
+      { name: 'openchrome.screenshot.queue_depth', description: 'Screenshots waiting for a capture slot', unit: '1', value: screenshots.pending },
+      { name: 'openchrome.screenshot.active', description: 'Screenshots being captured', unit: '1', value: screenshots.active },
+      { name: 'openchrome.screenshot.captures', description: 'Screenshots captured', unit: '1', value: screenshots.completed, monotonic: true },
+    );
+
+    const router = sessionManager.getBrowserRouter();
+    if (router) {
+      const routing = router.getStats();
+      samples.push(
+        { name: 'openchrome.router.requests', description: 'Hybrid-mode requests by backend', unit: '1', value: routing.chromeRequests, labels: { backend: 'chrome' }, monotonic: true },
+        { name: 'openchrome.router.requests', description: 'Hybrid-mode requests by backend', unit: '1', value: routing.lightpandaRequests, labels: { backend: 'lightpanda' }, monotonic: true },
+        { name: 'openchrome.router.fallbacks', description: 'Lightpanda requests that fell back to Chrome', unit: '1', value: routing.fallbacks, monotonic: true },
+        { name: 'openchrome.router.circuit_breaker_trips', description: 'Times the Lightpanda circuit breaker opened', unit: '1', value: routing.circuitBreakerTrips, monotonic: true },
+      );
+    }
+    return samples;
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * OTLP Exporter - Periodic OTLP/JSON export of spans and metrics
+ *
+ * The target is either a collector's OTLP/HTTP endpoint (`http://localhost:4318`,
+ * posted to /v1/traces and /v1/metrics) or a file path, which gets one
+ * ExportTraceServiceRequest / ExportMetricsServiceRequest JSON object per line
+ * (the format the collector's otlpjsonfile receiver reads).
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { getVersion } from '../version';
+import {
+  AttributeValue,
+  Attributes,
+  CounterPoint,
+  HISTOGRAM_BOUNDS,
+  HistogramPoint,
+  Labels,
+  MetricSnapshot,
+  SpanData,
+  Telemetry,
+} from './telemetry';
+
+const DEFAULT_EXPORT_INTERVAL_MS = 10000;
+const EXPORT_TIMEOUT_MS = 5000;
+const SCOPE = { name: 'openchrome', version: getVersion() };
+
+const SPAN_KIND: Record<SpanData['kind'], number> = { internal: 1, server: 2, client: 3 };
+const STATUS_CODE: Record<SpanData['status'], number> = { unset: 0, ok: 1, error: 2 };
+/** AGGREGATION_TEMPORALITY_CUMULATIVE */
+const CUMULATIVE = 2;
+
+export interface OtlpExporterOptions {
+  /** Collector endpoint (http:// or https://) or a file path */
+  target: string;
+  /** resource service.name (default: OTEL_SERVICE_NAME or "openchrome") */
+  serviceName?: string;
+  exportIntervalMs?: number;
+}
+
+type OtlpAnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+function toAnyValue(value: AttributeValue): OtlpAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toKeyValues(attributes: Attributes | Labels): Array<{ key: string; value: OtlpAnyValue }> {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function resourceOf(serviceName: string) {
+  return {
+    attributes: toKeyValues({
+      'service.name': serviceName,
+      'service.version': getVersion(),
+      'process.pid': process.pid,
+    }),
+  };
+}
+
+/**
+ * ExportTraceServiceRequest for a batch of spans
+ */
+export function encodeSpans(spans: SpanData[], serviceName: string): object {
+  return {
+    resourceSpans: [{
+      resource: resourceOf(serviceName),
+      scopeSpans: [{
+        scope: SCOPE,
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          kind: SPAN_KIND[span.kind],
+          startTimeUnixNano: span.startTimeUnixNano.toString(),
+          endTimeUnixNano: span.endTimeUnixNano.toString(),
+          attributes: toKeyValues(span.attributes),
+          status: {
+            code: STATUS_CODE[span.status],
+            ...(span.statusMessage && { message: span.statusMessage }),
+          },
+        })),
+      }],
+    }],
+  };
+}
+
+/**
+ * ExportMetricsServiceRequest for a collection of metrics
+ */
+export function encodeMetrics(metrics: MetricSnapshot[], serviceName: string, startTimeUnixNano: bigint, timeUnixNano: bigint): object {
+  const times = { startTimeUnixNano: startTimeUnixNano.toString(), timeUnixNano: timeUnixNano.toString() };
+  const numberPoint = (point: CounterPoint) => ({
+    attributes: toKeyValues(point.labels),
+    ...times,
+    ...(Number.isInteger(point.value) ? { asInt: String(point.value) } : { asDouble: point.value }),
+  });
+  const histogramPoint = (point: HistogramPoint) => ({
+    attributes: toKeyValues(point.labels),
+    ...times,
+    count: String(point.count),
+    sum: point.sum,
+    bucketCounts: point.bucketCounts.map(String),
+    explicitBounds: HISTOGRAM_BOUNDS,
+  });
+
+  return {
+    resourceMetrics: [{
+      resource: resourceOf(serviceName),
+      scopeMetrics: [{
+        scope: SCOPE,
+        metrics: metrics.map((metric) => {
+          const base = { name: metric.name, description: metric.description, unit: metric.unit };
+          switch (metric.kind) {
+            case 'counter':
+              return { ...base, sum: { dataPoints: metric.points.map(numberPoint), aggregationTemporality: CUMULATIVE, isMonotonic: true } };
+            case 'histogram':
+              return { ...base, histogram: { dataPoints: metric.points.map(histogramPoint), aggregationTemporality: CUMULATIVE } };
+            default:
+              return { ...base, gauge: { dataPoints: metric.points.map(numberPoint) } };
+          }
+        }),
+      }],
+    }],
+  };
+}
+
+export class OtlpExporter {
+  private readonly target: string;
+  private readonly isHttp: boolean;
+  private readonly serviceName: string;
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  /** Serializes exports so file lines and collector requests stay in order */
+  private exporting: Promise<void> = Promise.resolve();
+
+  constructor(private readonly telemetry: Telemetry, options: OtlpExporterOptions) {
+    this.isHttp = /^https?:\/\//i.test(options.target);
+    this.target = this.isHttp ? options.target.replace(/\/+$/, '') : path.resolve(options.target);
+    this.serviceName = options.serviceName || process.env.OTEL_SERVICE_NAME || 'openchrome';
+    this.intervalMs = options.exportIntervalMs ?? DEFAULT_EXPORT_INTERVAL_MS;
+  }
+
+  /** Where data goes, for logging */
+  describe(): string {
+    return this.isHttp ? `${this.target}/v1/{traces,metrics}` : this.target;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Export finished spans and the current metrics. Failures are logged, not thrown.
+   */
+  flush(): Promise<void> {
+    this.exporting = this.exporting.then(async () => {
+      const spans = this.telemetry.drainSpans();
+      if (spans.length > 0) {
+        await this.send('traces', encodeSpans(spans, this.serviceName));
+      }
+      const metrics = this.telemetry.collectMetrics();
+      if (metrics.length > 0) {
+        const payload = encodeMetrics(metrics, this.serviceName, this.telemetry.getStartTimeUnixNano(), BigInt(Date.now()) * 1_000_000n);
+        await this.send('metrics', payload);
+      }
+    });
+    return this.exporting;
+  }
+
+  /**
+   * Stop the timer and export what is left
+   */
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  private async send(signal: 'traces' | 'metrics', payload: object): Promise<void> {
+    const body = JSON.stringify(payload);
+    try {
+      if (this.isHttp) {
+        await this.post(`${this.target}/v1/${signal}`, body);
+      } else {
+        await fs.promises.mkdir(path.dirname(this.target), { recursive: true });
+        await fs.promises.appendFile(this.target, body + '\n');
+      }
+    } catch (error) {
+      console.error(`[Telemetry] OTLP ${signal} export to ${this.describe()} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private post(url: string, body: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const client = url.startsWith('https:') ? https : http;
+      const req = client.request(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+        timeout: EXPORT_TIMEOUT_MS,
+      }, (res) => {
+        res.resume();
+        res.on('end', () => {
+          const status = res.statusCode || 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(new Error(`HTTP ${status}`));
+          }
+        });
+      });
+      req.on('timeout', () => req.destroy(new Error(`timed out after ${EXPORT_TIMEOUT_MS}ms`)));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Prometheus - Text exposition format for the telemetry metrics, served on /metrics
+ */
+
+import * as http from 'http';
+import { HISTOGRAM_BOUNDS, Labels, MetricSnapshot, Telemetry } from './telemetry';
+
+const UNIT_SUFFIX: Record<string, string> = { ms: 'milliseconds', By: 'bytes', s: 'seconds' };
+
+export interface PrometheusServerOptions {
+  port: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+}
+
+function metricName(metric: MetricSnapshot): string {
+  let name = metric.name.replace(/[^a-zA-Z0-9_:]/g, '_');
+  const suffix = UNIT_SUFFIX[metric.unit];
+  if (suffix && !name.endsWith(`_${suffix}`)) name += `_${suffix}`;
+  if (metric.kind === 'counter') name += '_total';
+  return name;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(([key, value]) => `${key.replace(/[^a-zA-Z0-9_]/g, '_')}="${escapeLabelValue(value)}"`);
+  return parts.length > 0 ? `{${parts.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderPrometheus(metrics: MetricSnapshot[]): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    const name = metricName(metric);
+    const base = metric.kind === 'counter' ? name.replace(/_total$/, '') : name;
+    lines.push(`# HELP ${base} ${metric.description.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${base} ${metric.kind}`);
+
+    if (metric.kind === 'histogram') {
+      for (const point of metric.points) {
+        let cumulative = 0;
+        HISTOGRAM_BOUNDS.forEach((bound, i) => {
+          cumulative += point.bucketCounts[i];
+          lines.push(`${name}_bucket${formatLabels(point.labels, { le: String(bound) })} ${cumulative}`);
+        });
+        lines.push(`${name}_bucket${formatLabels(point.labels, { le: '+Inf' })} ${point.count}`);
+        lines.push(`${name}_sum${formatLabels(point.labels)} ${formatValue(point.sum)}`);
+        lines.push(`${name}_count${formatLabels(point.labels)} ${point.count}`);
+      }
+      continue;
+    }
+    for (const point of metric.points) {
+      lines.push(`${name}${formatLabels(point.labels)} ${formatValue(point.value)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serves GET /metrics for a Prometheus scraper
+ */
+export class PrometheusServer {
+  private server: http.Server | null = null;
+  private port = 0;
+
+  constructor(private readonly telemetry: Telemetry, private readonly options: PrometheusServerOptions) {}
+
+  /**
+   * Start listening. Resolves with the bound port.
+   */
+  async start(): Promise<number> {
+    if (this.server) return this.port;
+
+    const server = http.createServer((req, res) => {
+      const pathname = (req.url || '/').split('?')[0];
+      if (req.method !== 'GET' || pathname !== '/metrics') {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+      let body: string;
+      try {
+        body = renderPrometheus(this.telemetry.collectMetrics());
+      } catch (error) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(`${error instanceof Error ? error.message : String(error)}\n`);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(body);
+    });
+
+    const host = this.options.host || '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    const address = server.address();
+    this.port = typeof address === 'object' && address ? address.port : this.options.port;
+    console.error(`[Telemetry] Prometheus metrics at http://${host}:${this.port}/metrics`);
+    return this.port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Telemetry - Spans and metrics for tool calls, CDP commands, navigation and queues
+ *
+ * One registry replaces reading SessionManager, CDPConnectionPool, ScreenshotScheduler
+ * and BrowserRouter stats separately: instrumented code records spans and counters
+ * here, and the server registers gauge providers that read those stats at export
+ * time. Exporters (OTLP/JSON, Prometheus text) only read from this registry.
+ *
+ * Disabled by default. While disabled, `withSpan` just runs the function and
+ * counters are dropped, so instrumentation costs nothing.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue>;
+export type Labels = Record<string, string>;
+
+/** OTLP span kinds used here */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Attributes;
+  status: 'unset' | 'ok' | 'error';
+  statusMessage?: string;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /** Only record the span inside another one (e.g. CDP commands of a tool call) */
+  requireParent?: boolean;
+}
+
+/** Counters and histograms recorded by instrumented code */
+export const METRICS = {
+  'openchrome.tool.calls': { kind: 'counter', unit: '1', description: 'Tool calls by tool and status' },
+  'openchrome.tool.duration': { kind: 'histogram', unit: 'ms', description: 'Tool call duration' },
+  'openchrome.cdp.commands': { kind: 'counter', unit: '1', description: 'CDP commands sent, by method and status' },
+  'openchrome.navigations': { kind: 'counter', unit: '1', description: 'Page navigations by status' },
+  'openchrome.navigation.duration': { kind: 'histogram', unit: 'ms', description: 'Navigation duration' },
+  'openchrome.screenshot.queue_wait': { kind: 'histogram', unit: 'ms', description: 'Time screenshots waited for a capture slot' },
+  'openchrome.gate.wait': { kind: 'histogram', unit: 'ms', description: 'Time tool calls waited at the paused operation gate' },
+} as const;
+
+export type MetricName = keyof typeof METRICS;
+
+/** Upper bounds (ms) of the histogram buckets; the last bucket is +Inf */
+export const HISTOGRAM_BOUNDS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+export interface CounterPoint {
+  labels: Labels;
+  value: number;
+}
+
+export interface HistogramPoint {
+  labels: Labels;
+  count: number;
+  sum: number;
+  /** One count per bound plus the +Inf bucket (not cumulative) */
+  bucketCounts: number[];
+}
+
+/** A value read from existing stats when metrics are collected */
+export interface GaugeSample {
+  name: string;
+  description: string;
+  unit: string;
+  value: number;
+  labels?: Labels;
+  /** Cumulative totals (e.g. requests served) are exported as monotonic counters */
+  monotonic?: boolean;
+}
+
+export type MetricSnapshot =
+  | { name: string; description: string; unit: string; kind: 'counter'; points: CounterPoint[] }
+  | { name: string; description: string; unit: string; kind: 'histogram'; points: HistogramPoint[] }
+  | { name: string; description: string; unit: string; kind: 'gauge'; points: CounterPoint[] };
+
+/** Finished spans kept for the exporter; the oldest are dropped beyond this */
+const MAX_BUFFERED_SPANS = 4096;
+
+const EPOCH_OFFSET_NS = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint();
+
+function nowNanos(): bigint {
+  return process.hrtime.bigint() + EPOCH_OFFSET_NS;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((k) => [k, labels[k]]));
+}
+
+export class Span {
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly traceId: string;
+  readonly startTimeUnixNano: bigint;
+  private status: SpanData['status'] = 'unset';
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(
+    private readonly telemetry: Telemetry,
+    readonly name: string,
+    readonly kind: SpanKind,
+    private readonly attributes: Attributes,
+    readonly parent?: Span,
+    startTimeUnixNano?: bigint
+  ) {
+    this.traceId = parent ? parent.traceId : randomBytes(16).toString('hex');
+    this.startTimeUnixNano = startTimeUnixNano ?? nowNanos();
+  }
+
+  setAttribute(key: string, value: AttributeValue): void {
+    this.attributes[key] = value;
+  }
+
+  setError(message: string): void {
+    this.status = 'error';
+    this.statusMessage = message.slice(0, 500);
+  }
+
+  end(endTimeUnixNano: bigint = nowNanos()): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.telemetry.onSpanEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parent && { parentSpanId: this.parent.spanId }),
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTimeUnixNano,
+      endTimeUnixNano,
+      attributes: this.attributes,
+      status: this.status,
+      ...(this.statusMessage && { statusMessage: this.statusMessage }),
+    });
+  }
+}
+
+export class Telemetry {
+  private spansEnabled = false;
+  private metricsEnabled = false;
+  private readonly context = new AsyncLocalStorage<Span>();
+  private finishedSpans: SpanData[] = [];
+  private droppedSpans = 0;
+  private readonly startTimeUnixNano = nowNanos();
+  private counters: Map<string, Map<string, CounterPoint>> = new Map();
+  private histograms: Map<string, Map<string, HistogramPoint>> = new Map();
+  private gaugeProviders: Set<() => GaugeSample[]> = new Set();
+
+  /**
+   * Turn on span recording (for OTLP export) and/or metrics (OTLP or Prometheus)
+   */
+  enable(options: { spans?: boolean; metrics?: boolean }): void {
+    if (options.spans) this.spansEnabled = true;
+    if (options.metrics) this.metricsEnabled = true;
+  }
+
+  get isEnabled(): boolean {
+    return this.spansEnabled || this.metricsEnabled;
+  }
+
+  /** Time the registry was created; start of every cumulative metric */
+  getStartTimeUnixNano(): bigint {
+    return this.startTimeUnixNano;
+  }
+
+  /**
+   * Run fn inside a new span, a child of the current one. The span ends when fn
+   * settles, with error status if it throws. fn gets null when no span is recorded.
+   */
+  async withSpan<T>(name: string, fn: (span: Span | null) => Promise<T>, options: SpanOptions = {}): Promise<T> {
+    const parent = this.context.getStore();
+    if (!this.spansEnabled || (options.requireParent && !parent)) {
+      return fn(null);
+    }
+
+    const span = new Span(this, name, options.kind || 'internal', { ...options.attributes }, parent);
+    try {
+      return await this.context.run(span, () => fn(span));
+    } catch (error) {
+      span.setError(error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Record an already finished interval (e.g. a queue wait measured afterwards)
+   * as a child of the current span
+   */
+  recordSpan(name: string, startTimeMs: number, endTimeMs: number, attributes: Attributes = {}): void {
+    const parent = this.context.getStore();
+    if (!this.spansEnabled || !parent) return;
+    const toNanos = (ms: number) => BigInt(Math.round(ms * 1000)) * 1000n;
+    new Span(this, name, 'internal', { ...attributes }, parent, toNanos(startTimeMs)).end(toNanos(endTimeMs));
+  }
+
+  addCounter(name: MetricName, value = 1, labels: Labels = {}): void {
+    if (!this.metricsEnabled) return;
+    let points = this.counters.get(name);
+    if (!points) {
+      points = new Map();
+      this.counters.set(name, points);
+    }
+    const key = labelKey(labels);
+    const point = points.get(key);
+    if (point) {
+      point.value += value;
+    } else {
+      points.set(key, { labels, value });
+    }
+  }
+
+  recordHistogram(name: MetricName, value: number, labels: Labels = {}): void {
+    if (!this.metricsEnabled) return;
+    let points = this.histograms.get(name);
+    if (!points) {
+      points = new Map();
+      this.histograms.set(name, points);
+    }
+    const key = labelKey(labels);
+    let point = points.get(key);
+    if (!point) {
+      point = { labels, count: 0, sum: 0, bucketCounts: new Array(HISTOGRAM_BOUNDS.length + 1).fill(0) };
+      points.set(key, point);
+    }
+    point.count++;
+    point.sum += value;
+    const bucket = HISTOGRAM_BOUNDS.findIndex((bound) => value <= bound);
+    point.bucketCounts[bucket === -1 ? HISTOGRAM_BOUNDS.length : bucket]++;
+  }
+
+  /**
+   * Register a function read on every collection. Returns a function that removes it.
+   */
+  addGaugeProvider(provider: () => GaugeSample[]): () => void {
+    this.gaugeProviders.add(provider);
+    return () => this.gaugeProviders.delete(provider);
+  }
+
+  /**
+   * Current value of every metric. Providers that throw are skipped.
+   */
+  collectMetrics(): MetricSnapshot[] {
+    const snapshots: MetricSnapshot[] = [];
+    for (const [name, points] of this.counters) {
+      const { description, unit } = METRICS[name as MetricName];
+      snapshots.push({ name, description, unit, kind: 'counter', points: Array.from(points.values()) });
+    }
+    for (const [name, points] of this.histograms) {
+      const { description, unit } = METRICS[name as MetricName];
+      snapshots.push({ name, description, unit, kind: 'histogram', points: Array.from(points.values()) });
+    }
+
+    const sampled: Map<string, { sample: GaugeSample; points: CounterPoint[] }> = new Map();
+    for (const provider of this.gaugeProviders) {
+      let samples: GaugeSample[];
+      try {
+        samples = provider();
+      } catch (error) {
+        console.error('[Telemetry] Gauge provider failed:', error);
+        continue;
+      }
+      for (const sample of samples) {
+        let entry = sampled.get(sample.name);
+        if (!entry) {
+          entry = { sample, points: [] };
+          sampled.set(sample.name, entry);
+        }
+        entry.points.push({ labels: sample.labels || {}, value: sample.value });
+      }
+    }
+    for (const { sample, points } of sampled.values()) {
+      const { name, description, unit } = sample;
+      snapshots.push({ name, description, unit, kind: sample.monotonic ? 'counter' : 'gauge', points });
+    }
+    return snapshots;
+  }
+
+  /**
+   * Take the finished spans (for an exporter)
+   */
+  drainSpans(): SpanData[] {
+    const spans = this.finishedSpans;
+    this.finishedSpans = [];
+    return spans;
+  }
+
+  /** Spans dropped because the exporter fell behind */
+  getDroppedSpans(): number {
+    return this.droppedSpans;
+  }
+
+  /** @internal Called by Span.end() */
+  onSpanEnd(span: SpanData): void {
+    this.finishedSpans.push(span);
+    if (this.finishedSpans.length > MAX_BUFFERED_SPANS) {
+      this.finishedSpans.shift();
+      this.droppedSpans++;
+    }
+  }
+
+  /**
+   * Disable and clear everything (tests)
+   */
+  reset(): void {
+    this.spansEnabled = false;
+    this.metricsEnabled = false;
+    this.finishedSpans = [];
+    this.droppedSpans = 0;
+    this.counters.clear();
+    this.histograms.clear();
+    this.gaugeProviders.clear();
+  }
+}
+
+// Singleton instance
+let instance: Telemetry | null = null;
+
+export function getTelemetry(): Telemetry {
+  if (!instance) {
+    instance = new Telemetry();
+  }
+  return instance;
+}
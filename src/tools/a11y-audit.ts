@@ -0,0 +1,155 @@
+/**
+ * A11y Audit Tool - Accessibility checks over the AX tree and computed styles
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { withTimeout } from '../utils/with-timeout';
+import { isSensitiveOutputPath, resolveOutputPath } from '../utils/output-path';
+import {
+  ALL_A11Y_RULES,
+  AUDIT_COMPUTED_STYLES,
+  A11yRuleId,
+  AuditAXNode,
+  AuditDOMSnapshot,
+  runA11yAudit,
+} from '../a11y/audit';
+import { toSarif } from '../a11y/sarif';
+import { getVersion } from '../version';
+
+const definition: MCPToolDefinition = {
+  name: 'a11y_audit',
+  description: 'Accessibility audit: labels, alt text, empty buttons/links, contrast, heading order, landmarks, hidden focusables, ARIA misuse. Findings include refs usable with form_input/interact. Export as JSON or SARIF.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab ID to audit',
+      },
+      rules: {
+        type: 'array',
+        items: { type: 'string', enum: ALL_A11Y_RULES },
+        description: 'Rules to run. Default: all',
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'sarif'],
+        description: 'Report format. Default: json',
+      },
+      path: {
+        type: 'string',
+        description: 'Write the report to this file instead of returning all findings inline',
+      },
+      maxFindingsPerRule: {
+        type: 'number',
+        description: 'Maximum findings reported per rule. Default: 50',
+      },
+    },
+    required: ['tabId'],
+  },
+};
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const tabId = args.tabId as string;
+  const rules = args.rules as A11yRuleId[] | undefined;
+  const format = (args.format as string | undefined) ?? 'json';
+  const outputPath = args.path as string | undefined;
+  const maxFindingsPerRule = args.maxFindingsPerRule as number | undefined;
+
+  if (!tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: tabId is required' }],
+      isError: true,
+    };
+  }
+  if (format !== 'json' && format !== 'sarif') {
+    return {
+      content: [{ type: 'text', text: `Error: Unknown format "${format}". Use json or sarif` }],
+      isError: true,
+    };
+  }
+  const unknownRules = (rules ?? []).filter(r => !ALL_A11Y_RULES.includes(r));
+  if (unknownRules.length > 0) {
+    return {
+      content: [{ type: 'text', text: `Error: Unknown rule(s): ${unknownRules.join(', ')}. Available: ${ALL_A11Y_RULES.join(', ')}` }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+
+  try {
+    const page = await sessionManager.getPage(sessionId, tabId, undefined, 'a11y_audit');
+    if (!page) {
+      return {
+        content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+        isError: true,
+      };
+    }
+
+    const cdpClient = sessionManager.getCDPClient();
+    const { nodes } = await withTimeout(
+      cdpClient.send<{ nodes: AuditAXNode[] }>(page, 'Accessibility.getFullAXTree', {}),
+      15000,
+      'Accessibility.getFullAXTree'
+    );
+    const snapshot = await withTimeout(
+      cdpClient.send<AuditDOMSnapshot>(page, 'DOMSnapshot.captureSnapshot', {
+        computedStyles: [...AUDIT_COMPUTED_STYLES],
+      }),
+      15000,
+      'DOMSnapshot.captureSnapshot'
+    );
+
+    const report = runA11yAudit({ url: page.url(), axNodes: nodes, snapshot }, { rules, maxFindingsPerRule });
+    const output = format === 'sarif' ? toSarif(report, getVersion()) : report;
+
+    if (outputPath) {
+      const resolvedPath = resolveOutputPath(outputPath);
+      if (isSensitiveOutputPath(resolvedPath)) {
+        return {
+          content: [{ type: 'text', text: `Error: Cannot write report to sensitive directory "${path.dirname(resolvedPath)}"` }],
+          isError: true,
+        };
+      }
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+      await fs.writeFile(resolvedPath, JSON.stringify(output, null, 2), 'utf8');
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            url: report.url,
+            format,
+            path: resolvedPath,
+            summary: report.summary,
+            message: `${report.findings.length} finding(s) written to ${resolvedPath}`,
+          }, null, 2),
+        }],
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `A11y audit error: ${error instanceof Error ? error.message : String(error)}`,
+      }],
+      isError: true,
+    };
+  }
+};
+
+export function registerA11yAuditTool(server: MCPServer): void {
+  server.registerTool('a11y_audit', handler, definition);
+}
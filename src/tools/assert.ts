@@ -0,0 +1,263 @@
+/**
+ * Assert Tool - Pass/fail checks of page state, with soft assertions and JUnit XML reports
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MCPServer, getMCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { isSensitiveOutputPath, resolveOutputPath } from '../utils/output-path';
+import {
+  ASSERTION_TYPES,
+  Assertion,
+  AssertionOutcome,
+  DEFAULT_SUITE,
+  getPageWatch,
+  getTestResults,
+  renderJUnitXml,
+  runAssertion,
+  startPageWatch,
+  validateAssertion,
+} from '../assert';
+
+const definition: MCPToolDefinition = {
+  name: 'assert',
+  description: 'Assert page state (text, elements, URL/title, form values, requests, console errors, screenshots). Results collect into a JUnit XML report.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab ID to check (not needed for report/clear)',
+      },
+      action: {
+        type: 'string',
+        enum: ['check', 'start', 'report', 'clear'],
+        description: 'check (default): run assertions. start: begin a named test; request/console checks look back to here. report: write JUnit XML. clear: drop recorded results',
+      },
+      assertions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: [...ASSERTION_TYPES] },
+            description: { type: 'string', description: 'Label in results and the report' },
+            text: { type: 'string', description: 'text_present / text_absent' },
+            caseSensitive: { type: 'boolean', description: 'Text match case. Default: false' },
+            selector: { type: 'string', description: 'CSS selector (element checks; scopes text checks)' },
+            locator: { type: 'string', description: 'Semantic locator instead of selector, e.g. role=button[name="Save"]' },
+            count: { type: 'number', description: 'element_count: exact count' },
+            min: { type: 'number', description: 'element_count: at least' },
+            max: { type: 'number', description: 'element_count: at most' },
+            pattern: { type: 'string', description: 'url_matches / title_matches: regex (or substring)' },
+            value: { type: 'string', description: 'form_value: expected value; "true"/"false" for checkboxes' },
+            urlPattern: { type: 'string', description: 'request_made: regex (or substring) of the request URL' },
+            method: { type: 'string', description: 'request_made: HTTP method' },
+            status: { type: 'number', description: 'request_made: response status' },
+            ignore: { type: 'string', description: 'no_console_errors: regex of messages to ignore' },
+            snapshot: { type: 'string', description: 'screenshot_matches: visual_snapshot baseline name' },
+            maxMismatchPercent: { type: 'number', description: 'screenshot_matches: allowed mismatch %. Default: 0' },
+            threshold: { type: 'number', description: 'screenshot_matches: per-pixel tolerance 0-1' },
+          },
+          required: ['type'],
+        },
+        description: 'Assertions to check, in order',
+      },
+      soft: {
+        type: 'boolean',
+        description: 'Run every assertion and report all failures instead of stopping at the first. Default: false',
+      },
+      suite: {
+        type: 'string',
+        description: `Test suite name in the report. Default: "${DEFAULT_SUITE}"`,
+      },
+      test: {
+        type: 'string',
+        description: 'Test case name (start: required; check: add to this test)',
+      },
+      path: {
+        type: 'string',
+        description: 'report: output path. Default: .openchrome/reports/junit-<time>.xml',
+      },
+      clear: {
+        type: 'boolean',
+        description: 'report: drop recorded results after writing. Default: false',
+      },
+    },
+    required: [],
+  },
+};
+
+const errorResult = (text: string): MCPResult => ({
+  content: [{ type: 'text', text: `Error: ${text}` }],
+  isError: true,
+});
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const tabId = args.tabId as string | undefined;
+  const action = (args.action as string | undefined) ?? 'check';
+  const assertions = args.assertions as Assertion[] | undefined;
+  const soft = (args.soft as boolean | undefined) ?? false;
+  const suite = args.suite as string | undefined;
+  const test = args.test as string | undefined;
+  const outputPath = args.path as string | undefined;
+  const clearAfterReport = (args.clear as boolean | undefined) ?? false;
+
+  const results = getTestResults(sessionId);
+
+  try {
+    switch (action) {
+      case 'report': {
+        const cases = results.getCases();
+        const resolvedPath = outputPath
+          ? resolveOutputPath(outputPath)
+          : path.join(
+              process.cwd(),
+              '.openchrome',
+              'reports',
+              `junit-${new Date().toISOString().replace(/[:.]/g, '-')}.xml`
+            );
+        if (isSensitiveOutputPath(resolvedPath)) {
+          return errorResult(`Cannot write report to sensitive directory "${path.dirname(resolvedPath)}"`);
+        }
+
+        await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+        await fs.writeFile(resolvedPath, renderJUnitXml(cases, { name: suite ?? DEFAULT_SUITE }), 'utf8');
+        const summary = results.summary();
+        if (clearAfterReport) {
+          results.clear();
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              action: 'report',
+              path: resolvedPath,
+              ...summary,
+              message: `Wrote ${summary.tests} test(s), ${summary.failures} failed, to ${resolvedPath}`,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'clear': {
+        const { tests } = results.summary();
+        results.clear();
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ action: 'clear', cleared: tests, message: `Cleared ${tests} recorded test(s)` }, null, 2),
+          }],
+        };
+      }
+
+      case 'start':
+      case 'check':
+        break;
+
+      default:
+        return errorResult(`Unknown action "${action}". Use: check, start, report, or clear`);
+    }
+
+    if (!tabId) {
+      return errorResult('tabId is required');
+    }
+    if (action === 'start' && !test) {
+      return errorResult('test is required to start a test');
+    }
+    if (action === 'check') {
+      if (!Array.isArray(assertions) || assertions.length === 0) {
+        return errorResult('assertions is required (a non-empty array)');
+      }
+      for (let i = 0; i < assertions.length; i++) {
+        const problem = validateAssertion(assertions[i]);
+        if (problem) return errorResult(`assertions[${i}]: ${problem}`);
+      }
+    }
+
+    const page = await getSessionManager().getPage(sessionId, tabId, undefined, 'assert');
+    if (!page) {
+      return errorResult(`Tab ${tabId} not found`);
+    }
+
+    if (action === 'start') {
+      startPageWatch(tabId, page);
+      results.startTest(test!, suite);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            action: 'start',
+            suite: suite ?? DEFAULT_SUITE,
+            test,
+            message: `Started test "${test}"; request and console checks look back to now`,
+          }, null, 2),
+        }],
+      };
+    }
+
+    // Request/console checks fail until a test is started: before that nothing was recorded
+    const ctx = {
+      page,
+      watch: getPageWatch(tabId),
+      compareSnapshot: (snapshotArgs: Record<string, unknown>) => {
+        const visualSnapshot = getMCPServer().getToolHandler('visual_snapshot');
+        return visualSnapshot
+          ? visualSnapshot(sessionId, { tabId, action: 'compare', ...snapshotArgs })
+          : Promise.resolve(errorResult('visual_snapshot is not available'));
+      },
+    };
+
+    const outcomes: AssertionOutcome[] = [];
+    for (const assertion of assertions!) {
+      const outcome = await runAssertion(ctx, assertion);
+      outcomes.push(outcome);
+      if (!outcome.passed && !soft) break;
+    }
+
+    const skipped = assertions!.length - outcomes.length;
+    const testCase = results.record(outcomes, skipped, { suite, test });
+    const failed = outcomes.filter((o) => !o.passed);
+    const passed = failed.length === 0;
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          action: 'check',
+          passed,
+          total: assertions!.length,
+          passedCount: outcomes.length - failed.length,
+          failedCount: failed.length,
+          ...(skipped > 0 && { skipped }),
+          results: outcomes,
+          test: testCase.name,
+          message: passed
+            ? `All ${outcomes.length} assertion(s) passed`
+            : soft
+              ? `${failed.length} of ${outcomes.length} assertion(s) failed: ${failed.map((o) => o.description).join('; ')}`
+              : `Assertion failed: ${failed[0].description} (${failed[0].message})${skipped > 0 ? `; ${skipped} not run` : ''}`,
+        }, null, 2),
+      }],
+      // Soft checks report failures in the result without failing the call
+      ...(!passed && !soft && { isError: true }),
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Assert error: ${error instanceof Error ? error.message : String(error)}`,
+      }],
+      isError: true,
+    };
+  }
+};
+
+export function registerAssertTool(server: MCPServer): void {
+  server.registerTool('assert', handler, definition);
+}
@@ -8,7 +8,7 @@
  */
 
 import { MCPServer } from '../mcp-server';
-import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { MCPToolDefinition, MCPResult, ToolContext, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
 
 const definition: MCPToolDefinition = {
@@ -98,7 +98,8 @@ function createLimiter(concurrency: number) {
 
 const handler: ToolHandler = async (
   sessionId: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context?: ToolContext
 ): Promise<MCPResult> => {
   const tasks = args.tasks as BatchTask[];
   const concurrency = (args.concurrency as number) || 10;
@@ -116,6 +117,7 @@ const handler: ToolHandler = async (
   const limiter = createLimiter(concurrency);
   const startTime = Date.now();
   let aborted = false;
+  let completed = 0;
 
   const executeTask = async (task: BatchTask): Promise<BatchTaskResult> => {
     const taskStart = Date.now();
@@ -131,6 +133,16 @@ const handler: ToolHandler = async (
       };
     }
 
+    if (context?.signal.aborted) {
+      return {
+        tabId: task.tabId,
+        workerId,
+        success: false,
+        error: 'Cancelled',
+        durationMs: 0,
+      };
+    }
+
     try {
       const page = await sessionManager.getPage(sessionId, task.tabId, undefined, 'batch_execute');
       if (!page) {
@@ -232,7 +244,12 @@ const handler: ToolHandler = async (
 
   // Execute all tasks with concurrency control
   const results = await Promise.all(
-    tasks.map((task) => limiter(() => executeTask(task)))
+    tasks.map((task) => limiter(async () => {
+      const result = await executeTask(task);
+      completed++;
+      context?.reportProgress(completed, tasks.length, `${completed}/${tasks.length} tasks done`);
+      return result;
+    }))
   );
 
   const wallClockMs = Date.now() - startTime;
@@ -246,6 +263,7 @@ const handler: ToolHandler = async (
       total: results.length,
       succeeded,
       failed,
+      ...(context?.signal.aborted && { cancelled: true }),
       totalDurationMs,
       wallClockDurationMs: wallClockMs,
       concurrency,
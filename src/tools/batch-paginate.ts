@@ -3,15 +3,18 @@
  *
  * Eliminates N LLM round-trips by executing the pagination loop server-side.
  * Supports keyboard navigation, click-based pagination, URL-based parallel extraction,
- * and infinite scroll.
+ * and infinite scroll. captureMode "records" runs the extract tool on every page and
+ * merges the results into one dataset.
  */
 
 import { KeyInput } from 'puppeteer-core';
 import { MCPServer } from '../mcp-server';
-import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { MCPToolDefinition, MCPResult, ToolContext, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
 import { DEFAULT_SCREENSHOT_QUALITY, DEFAULT_SCREENSHOT_RACE_TIMEOUT_MS, DEFAULT_SCREENSHOT_TIMEOUT_MS, MAX_OUTPUT_CHARS } from '../config/defaults';
 import { withTimeout } from '../utils/with-timeout';
+import { ExtractionSpec, extractRecords, parseExtractionSpec, summarizeRecords } from '../utils/record-extractor';
+import { extractInputProperties } from './extract';
 
 const definition: MCPToolDefinition = {
   name: 'batch_paginate',
@@ -38,8 +41,17 @@ const definition: MCPToolDefinition = {
       },
       captureMode: {
         type: 'string',
-        enum: ['screenshot', 'text', 'dom', 'both'],
-        description: 'Capture format per page. Default: text',
+        enum: ['screenshot', 'text', 'dom', 'both', 'records'],
+        description: 'Capture format per page. records: typed records via extract (see extract). Default: text',
+      },
+      extract: {
+        type: 'object',
+        description: 'Arguments of the extract tool (schema, container, fields, limit per page). Required for captureMode "records"',
+        properties: extractInputProperties,
+      },
+      dedupeKey: {
+        type: 'string',
+        description: 'Record field that identifies a record; records repeating a value already seen are dropped (records mode). Without it, only pages repeating an earlier page are dropped',
       },
       keyAction: {
         type: 'string',
@@ -76,6 +88,7 @@ interface PageResult {
   screenshot?: string; // base64
   screenshotMimeType?: 'image/webp' | 'image/png';
   dom?: string;
+  records?: Record<string, unknown>[];
   error?: string;
 }
 
@@ -103,9 +116,58 @@ function createLimiter(concurrency: number) {
   };
 }
 
+/** Invalid records listed in a records dataset; the rest are counted */
+const MAX_INVALID_REPORTED = 10;
+
+/**
+ * Merge per-page records into one dataset. With a dedupeKey, records whose key value
+ * was already seen are dropped (scroll captures overlap). Without one, equal records
+ * on different pages are legitimate, so only a page that repeats an earlier page in
+ * full is dropped, as when a next-page click did nothing.
+ */
+function buildDataset(pages: PageResult[], spec: ExtractionSpec, dedupeKey?: string) {
+  const records: Record<string, unknown>[] = [];
+  const seenKeys = new Set<string>();
+  const seenPages = new Set<string>();
+  for (const p of pages) {
+    if (!p.records) continue;
+    if (!dedupeKey) {
+      const pageKey = JSON.stringify(p.records);
+      if (p.records.length > 0 && seenPages.has(pageKey)) continue;
+      seenPages.add(pageKey);
+      records.push(...p.records);
+      continue;
+    }
+    for (const record of p.records) {
+      const value = record[dedupeKey];
+      if (value !== undefined && value !== null) {
+        const key = JSON.stringify(value);
+        if (seenKeys.has(key)) continue;
+        seenKeys.add(key);
+      }
+      records.push(record);
+    }
+  }
+  const { misses, invalid } = summarizeRecords(records, spec.schema);
+  return {
+    pages: pages.map(p => ({
+      pageNumber: p.pageNumber,
+      ...(p.records && { recordCount: p.records.length }),
+      ...(p.error && { error: p.error }),
+    })),
+    dataset: {
+      count: records.length,
+      records,
+      ...(Object.keys(misses).length > 0 && { misses }),
+      ...(invalid.length > 0 && { invalidCount: invalid.length, invalid: invalid.slice(0, MAX_INVALID_REPORTED) }),
+    },
+  };
+}
+
 const handler: ToolHandler = async (
   sessionId: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context?: ToolContext
 ): Promise<MCPResult> => {
   const tabId = args.tabId as string;
   const strategy = args.strategy as string;
@@ -114,6 +176,7 @@ const handler: ToolHandler = async (
   const captureMode = (args.captureMode as string) || 'text';
   const keyAction = (args.keyAction as string) || 'ArrowRight';
   const nextSelector = args.nextSelector as string | undefined;
+  const dedupeKey = args.dedupeKey as string | undefined;
   const urlTemplate = args.urlTemplate as string | undefined;
   const waitBetweenPages = (args.waitBetweenPages as number) ?? 500;
   const scrollAmount = (args.scrollAmount as number) || 1;
@@ -167,9 +230,26 @@ const handler: ToolHandler = async (
     };
   }
 
+  let extractionSpec: ExtractionSpec | undefined;
+  if (captureMode === 'records') {
+    try {
+      extractionSpec = parseExtractionSpec((args.extract as Record<string, unknown>) ?? {});
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error: extract: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  }
+
   const sessionManager = getSessionManager();
   const startTime = Date.now();
   const pages: PageResult[] = [];
+  const isCancelled = () => context?.signal.aborted ?? false;
+  const expectedPages = strategy === 'scroll' ? maxScrolls + 1 : totalPages! - startPage + 1;
+  const reportCaptured = () => {
+    context?.reportProgress(pages.length, expectedPages, `Captured ${pages.length} page(s)`);
+  };
 
   /**
    * Capture content from the current page state
@@ -223,6 +303,10 @@ const handler: ToolHandler = async (
         result.text = await withTimeout(page.evaluate(() => document.body.innerText), 10000, 'batch_paginate.evaluate');
       }
 
+      if (captureMode === 'records') {
+        result.records = (await extractRecords(page, extractionSpec!)).records;
+      }
+
       if (captureMode === 'dom') {
         const rawHtml = await withTimeout(page.evaluate(() => document.body.innerHTML), 10000, 'batch_paginate.evaluate');
         // Trim to avoid huge payloads
@@ -251,8 +335,10 @@ const handler: ToolHandler = async (
       let failureCount = 0;
 
       for (let i = startPage; i <= totalPages!; i++) {
+        if (isCancelled()) break;
         const pageResult = await capturePageContent(page, i);
         pages.push(pageResult);
+        reportCaptured();
 
         if (pageResult.error) {
           failureCount++;
@@ -285,8 +371,10 @@ const handler: ToolHandler = async (
       let failureCount = 0;
 
       for (let i = startPage; i <= totalPages!; i++) {
+        if (isCancelled()) break;
         const pageResult = await capturePageContent(page, i);
         pages.push(pageResult);
+        reportCaptured();
 
         if (pageResult.error) {
           failureCount++;
@@ -337,8 +425,10 @@ const handler: ToolHandler = async (
       // Capture initial view
       const initialResult = await capturePageContent(page, stepNumber);
       pages.push(initialResult);
+      reportCaptured();
 
       for (let step = 1; step <= maxScrolls; step++) {
+        if (isCancelled()) break;
         // Scroll and measure in a single CDP round-trip
         const { newScrollHeight, atBottom } = await withTimeout(page.evaluate((amount: number) => {
           window.scrollBy(0, window.innerHeight * amount);
@@ -356,6 +446,7 @@ const handler: ToolHandler = async (
         stepNumber++;
         const stepResult = await capturePageContent(page, stepNumber);
         pages.push(stepResult);
+        reportCaptured();
 
         // Stop if reached bottom and height didn't change
         if (atBottom && newScrollHeight === lastScrollHeight) {
@@ -376,9 +467,15 @@ const handler: ToolHandler = async (
         (_, i) => startPage + i
       );
 
+      let urlCompleted = 0;
       const urlResults = await Promise.all(
         pageNumbers.map((pageNum) =>
           limiter(async (): Promise<PageResult> => {
+            // Don't open new tabs once cancelled; in-flight tabs still close below
+            if (isCancelled()) {
+              return { pageNumber: pageNum, error: 'Cancelled' };
+            }
+
             const url = urlTemplate!.replace(/\{N\}|\{page\}|\{offset\}/g, String(pageNum));
             let newTabId: string | null = null;
 
@@ -398,6 +495,8 @@ const handler: ToolHandler = async (
               // Close the tab
               await sessionManager.closeTarget(sessionId, targetId);
 
+              urlCompleted++;
+              context?.reportProgress(urlCompleted, pageNumbers.length, `Captured ${urlCompleted} page(s)`);
               return result;
             } catch (err) {
               // Attempt cleanup if tab was created
@@ -461,15 +560,30 @@ const handler: ToolHandler = async (
     const output = {
       totalCaptured: capturedCount,
       totalFailed: failedCount,
+      ...(isCancelled() && { cancelled: true }),
       strategy,
       captureMode,
       durationMs,
       summary: summaryText,
-      pages: pagesForOutput,
+      ...(extractionSpec ? buildDataset(pages, extractionSpec, dedupeKey) : { pages: pagesForOutput }),
     };
 
+    let text = JSON.stringify(output, null, 2);
+    if ('dataset' in output && text.length > MAX_OUTPUT_CHARS) {
+      // Drop records from the end until the result fits
+      const { dataset } = output;
+      const records = dataset.records.slice();
+      while (records.length > 1 && text.length > MAX_OUTPUT_CHARS) {
+        records.splice(Math.floor(records.length * 0.8));
+        text = JSON.stringify({
+          ...output,
+          dataset: { ...dataset, count: records.length, records, truncated: `Output limited to ${records.length} of ${dataset.records.length} records; extract fewer pages or lower limit` },
+        }, null, 2);
+      }
+    }
+
     const content: import('../types/mcp').MCPContent[] = [
-      { type: 'text', text: JSON.stringify(output, null, 2) },
+      { type: 'text', text },
     ];
 
     // Include screenshots inline only when count is manageable
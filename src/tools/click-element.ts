@@ -12,7 +12,10 @@ import { DEFAULT_DOM_SETTLE_DELAY_MS, DEFAULT_SCREENSHOT_QUALITY, DEFAULT_SCREEN
 import { withDomDelta } from '../utils/dom-delta';
 import { generateVisualSummary } from '../utils/visual-summary';
 import { AdaptiveScreenshot } from '../utils/adaptive-screenshot';
-import { FoundElement, scoreElement, tokenizeQuery } from '../utils/element-finder';
+import { DEEP_ELEMENTS_EXPRESSION, FoundElement, scoreElement, tokenizeQuery } from '../utils/element-finder';
+import { getElementRanker } from '../memory/element-ranker';
+import { resolveLocator } from '../locator';
+import { describeElementScope, getScopedElementCenter, ScopedElement, searchElementScopes } from '../dom';
 import { withTimeout } from '../utils/with-timeout';
 
 const definition: MCPToolDefinition = {
@@ -29,6 +32,10 @@ const definition: MCPToolDefinition = {
         type: 'string',
         description: 'Element to click, e.g. "Login button"',
       },
+      locator: {
+        type: 'string',
+        description: 'Instead of query: semantic locator, e.g. role=button[name="Save"] >> near(text="Billing")',
+      },
       wait_after: {
         type: 'number',
         description: 'Wait after click in ms. Default: 100, max: 5000',
@@ -50,7 +57,7 @@ const definition: MCPToolDefinition = {
         description: 'How often to retry while waiting, in ms. Default 200, range 50-2000.',
       },
     },
-    required: ['tabId', 'query'],
+    required: ['tabId'],
   },
 };
 
@@ -59,7 +66,8 @@ const handler: ToolHandler = async (
   args: Record<string, unknown>
 ): Promise<MCPResult> => {
   const tabId = args.tabId as string;
-  const query = args.query as string;
+  const query = (args.query as string) || '';
+  const locator = args.locator as string | undefined;
   const waitAfter = Math.min(Math.max((args.wait_after as number) || 100, 0), 5000);
   const verify = args.verify as boolean | undefined;
   const doubleClick = args.double_click as boolean | undefined;
@@ -76,9 +84,9 @@ const handler: ToolHandler = async (
     };
   }
 
-  if (!query) {
+  if (!query && !locator) {
     return {
-      content: [{ type: 'text', text: 'Error: query is required' }],
+      content: [{ type: 'text', text: 'Error: query is required (or a locator)' }],
       isError: true,
     };
   }
@@ -97,11 +105,33 @@ const handler: ToolHandler = async (
 
     // Optional polling for dynamic/lazy content
     const maxWait = waitForMs ? Math.min(Math.max(waitForMs, 100), 30000) : 0;
-    let bestMatch: FoundElement | null = null;
+    let bestMatch: ScopedElement | null = null;
+    let scoped: ScopedElement[] = [];
+    let ranked: ScopedElement[] = [];
+    let locatorMatches = 0;
+    const learnedWeights = getElementRanker().weightsFor(page.url());
     const startTime = Date.now();
     const cdpClient = sessionManager.getCDPClient();
 
     do { // --- polling loop start ---
+    if (locator) {
+      // Locators match exactly; waiting only helps until the element shows up
+      const { elements, total } = await resolveLocator(page, cdpClient, locator, 1);
+      if (elements.length > 0) {
+        bestMatch = { ...elements[0], score: 100 };
+        locatorMatches = total;
+        break;
+      }
+      if (maxWait > 0 && Date.now() - startTime < maxWait) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        continue;
+      }
+      return {
+        content: [{ type: 'text', text: `No visible element matches locator ${locator} on ${page.url()}` }],
+        isError: true,
+      };
+    }
+
     // Find elements matching the query
     let results: Omit<FoundElement, 'score'>[];
     try {
@@ -192,11 +222,19 @@ const handler: ToolHandler = async (
 
       const seen = new Set<Element>();
 
+      // The document plus every open shadow root in it (web components)
+      const roots: Array<Document | ShadowRoot> = [document];
+      for (let i = 0; i < roots.length; i++) {
+        for (const el of roots[i].querySelectorAll('*')) {
+          if (el.shadowRoot) roots.push(el.shadowRoot);
+        }
+      }
+
       // First pass: interactive elements
       for (const selector of interactiveSelectors) {
         if (elements.length >= maxResults) break;
         try {
-          for (const el of document.querySelectorAll(selector)) {
+          for (const el of roots.flatMap((root) => Array.from(root.querySelectorAll(selector)))) {
             if (seen.has(el) || elements.length >= maxResults) continue;
             const info = getElementInfo(el);
             if (info) {
@@ -216,23 +254,25 @@ const handler: ToolHandler = async (
       }
 
       // Second pass: text content search on all elements
-      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-      let node = walker.nextNode();
-      while (node && elements.length < maxResults) {
-        const el = node as Element;
-        if (!seen.has(el)) {
-          const info = getElementInfo(el);
-          if (info) {
-            const combinedText = `${info.name} ${info.textContent || ''} ${info.ariaLabel || ''} ${info.placeholder || ''}`.toLowerCase();
-            if (combinedText.includes(searchLower) || queryTokens.some(token => combinedText.includes(token))) {
-              seen.add(el);
-              (el as unknown as { __clickIndex: number }).__clickIndex = elements.length;
-              domElements.push(el);
-              elements.push(info);
+      for (const root of roots) {
+        const walker = document.createTreeWalker(root === document ? document.body : root, NodeFilter.SHOW_ELEMENT);
+        let node = walker.nextNode();
+        while (node && elements.length < maxResults) {
+          const el = node as Element;
+          if (!seen.has(el)) {
+            const info = getElementInfo(el);
+            if (info) {
+              const combinedText = `${info.name} ${info.textContent || ''} ${info.ariaLabel || ''} ${info.placeholder || ''}`.toLowerCase();
+              if (combinedText.includes(searchLower) || queryTokens.some(token => combinedText.includes(token))) {
+                seen.add(el);
+                (el as unknown as { __clickIndex: number }).__clickIndex = elements.length;
+                domElements.push(el);
+                elements.push(info);
+              }
             }
           }
+          node = walker.nextNode();
         }
-        node = walker.nextNode();
       }
 
       return elements;
@@ -246,7 +286,13 @@ const handler: ToolHandler = async (
       results = [];
     }
 
-    if (results.length === 0) {
+    // Iframes (including cross-origin ones) and closed shadow roots; clicks go to the center
+    scoped = await searchElementScopes(page, cdpClient, query, learnedWeights);
+    for (const el of scoped) {
+      el.rect = { ...el.rect, x: el.rect.x + el.rect.width / 2, y: el.rect.y + el.rect.height / 2 };
+    }
+
+    if (results.length === 0 && scoped.length === 0) {
       if (maxWait > 0 && Date.now() - startTime < maxWait) {
         await new Promise(resolve => setTimeout(resolve, pollInterval));
         continue;
@@ -272,10 +318,7 @@ const handler: ToolHandler = async (
     }>(page, 'Runtime.evaluate', {
       expression: `(() => {
         const indexedEls = [];
-        const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-        let node;
-        while (node = walker.nextNode()) {
-          const el = node;
+        for (const el of ${DEEP_ELEMENTS_EXPRESSION}) {
           if (el.__clickIndex !== undefined) {
             indexedEls.push({ el, index: el.__clickIndex });
           }
@@ -318,9 +361,11 @@ const handler: ToolHandler = async (
     }
 
     // Score and sort elements
-    const scoredResults: FoundElement[] = results
-      .map(el => ({ ...el, score: scoreElement(el as FoundElement, queryLower, queryTokens) }))
+    const scoredResults: ScopedElement[] = results
+      .map(el => ({ ...el, score: scoreElement(el as FoundElement, queryLower, queryTokens, learnedWeights) }))
+      .concat(scoped)
       .sort((a, b) => b.score - a.score);
+    ranked = scoredResults;
 
     if (scoredResults.length > 0 && scoredResults[0].score >= 10) {
       bestMatch = scoredResults[0];
@@ -355,7 +400,14 @@ const handler: ToolHandler = async (
     const clickY = Math.round(bestMatch.rect.y);
 
     // Scroll into view first if needed
-    if (bestMatch.backendDOMNodeId) {
+    if (locator || scoped.includes(bestMatch)) {
+      // No in-page index marker on this element; position it by node (in its own frame session if any)
+      const center = await getScopedElementCenter(page, cdpClient, bestMatch);
+      if (center) {
+        bestMatch.rect.x = center.x;
+        bestMatch.rect.y = center.y;
+      }
+    } else if (bestMatch.backendDOMNodeId) {
       try {
         await cdpClient.send(page, 'DOM.scrollIntoViewIfNeeded', {
           backendNodeId: bestMatch.backendDOMNodeId,
@@ -369,10 +421,7 @@ const handler: ToolHandler = async (
           result: { value: { x: number; y: number; width: number; height: number } | null };
         }>(page, 'Runtime.evaluate', {
           expression: `(() => {
-            const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-            let node;
-            while (node = walker.nextNode()) {
-              const el = node;
+            for (const el of ${DEEP_ELEMENTS_EXPRESSION}) {
               if (el.__clickIndex === 0) {
                 const rect = el.getBoundingClientRect();
                 return { x: rect.x + rect.width/2, y: rect.y + rect.height/2, width: rect.width, height: rect.height };
@@ -395,6 +444,11 @@ const handler: ToolHandler = async (
     const finalX = Math.round(bestMatch.rect.x);
     const finalY = Math.round(bestMatch.rect.y);
 
+    // What happens next (moving on, or retrying on another element) tells the ranker if this was right
+    if (!locator) {
+      getElementRanker().recordChoice(sessionId, tabId, page.url(), query, ranked, bestMatch, true);
+    }
+
     // Perform the click with DOM delta capture (settleMs includes waitAfter)
     const { delta } = await withDomDelta(page, async () => {
       if (doubleClick) {
@@ -414,7 +468,8 @@ const handler: ToolHandler = async (
         bestMatch.role,
         bestMatch.name,
         bestMatch.tagName,
-        bestMatch.textContent
+        bestMatch.textContent,
+        bestMatch.frameId
       );
     }
 
@@ -425,7 +480,7 @@ const handler: ToolHandler = async (
     const confidenceNote = bestMatch.score < 50 ? ` (low confidence: ${bestMatch.score}/100)` : '';
     const summary = await generateVisualSummary(page);
     const summaryText = summary ? `\n${summary}` : '';
-    const resultText = `${clickType} ${bestMatch.role} "${bestMatch.name.slice(0, 50)}" at (${finalX}, ${finalY})${refId ? ` [${refId}]` : ''}${confidenceNote}${delta}${summaryText}`;
+    const resultText = `${clickType} ${bestMatch.role} "${bestMatch.name.slice(0, 50)}" at (${finalX}, ${finalY})${describeElementScope(bestMatch)}${refId ? ` [${refId}]` : ''}${locatorMatches > 1 ? ` (first of ${locatorMatches} locator matches)` : ''}${confidenceNote}${delta}${summaryText}`;
 
     // Optional verification screenshot — WebP via CDP for speed and consistency
     if (verify) {
@@ -13,6 +13,8 @@ import { generateVisualSummary } from '../utils/visual-summary';
 import { AdaptiveScreenshot } from '../utils/adaptive-screenshot';
 import { withTimeout } from '../utils/with-timeout';
 import { retryWithFallback } from '../utils/retry-with-fallback';
+import { getNodeScope } from '../cdp/frame-sessions';
+import { getElementRanker } from '../memory/element-ranker';
 
 const definition: MCPToolDefinition = {
   name: 'computer',
@@ -616,9 +618,10 @@ const handler: ToolHandler = async (
           };
         }
 
-        // Use CDP to scroll element into view
+        // Use CDP to scroll element into view (on the iframe's session for refs inside an OOPIF)
         const cdpClient = sessionManager.getCDPClient();
-        await cdpClient.send(page, 'DOM.scrollIntoViewIfNeeded', {
+        const scope = await getNodeScope(page, cdpClient, refIdManager.getRef(sessionId, tabId, ref)?.frameId);
+        await scope.send('DOM.scrollIntoViewIfNeeded', {
           backendNodeId,
         });
 
@@ -677,11 +680,13 @@ async function resolveRefToCoordinates(
   try {
     // Validate ref identity before clicking (only for ref_N refs with stored fingerprint)
     const refEntry = refIdManager.getRef(sessionId, tabId, ref);
+    // Nodes of a cross-origin iframe are only known to that iframe's session
+    const scope = await getNodeScope(page, cdpClient, refEntry?.frameId);
     if (refEntry && refEntry.tagName) {
       try {
-        const { node } = await cdpClient.send<{
+        const { node } = await scope.send<{
           node: { localName: string };
-        }>(page, 'DOM.describeNode', { backendNodeId });
+        }>('DOM.describeNode', { backendNodeId });
 
         const validation = refIdManager.validateRef(
           sessionId, tabId, ref,
@@ -720,18 +725,22 @@ async function resolveRefToCoordinates(
       console.error(`[ref-validation] ${ref} is ${age}s old — may be stale`);
     }
 
-    await cdpClient.send(page, 'DOM.scrollIntoViewIfNeeded', {
+    await scope.send('DOM.scrollIntoViewIfNeeded', {
       backendNodeId,
     });
 
-    const { model } = await cdpClient.send<{
+    const { model } = await scope.send<{
       model: { content: number[] };
-    }>(page, 'DOM.getBoxModel', {
+    }>('DOM.getBoxModel', {
       backendNodeId,
     });
 
-    const x = (model.content[0] + model.content[2]) / 2;
-    const y = (model.content[1] + model.content[5]) / 2;
+    // Box models are relative to the scope's viewport; offset is zero for the page itself
+    const offset = await scope.offset();
+    const x = (model.content[0] + model.content[2]) / 2 + offset.x;
+    const y = (model.content[1] + model.content[5]) / 2 + offset.y;
+    // Acting on one of a recent find's results is feedback for the ranker
+    getElementRanker().recordRefAction(sessionId, tabId, backendNodeId);
     return { coord: [Math.round(x), Math.round(y)] };
   } catch (e) {
     return {
@@ -0,0 +1,152 @@
+/**
+ * Detect Records Tool - Tables and repeated structures as rows, without a scraper
+ *
+ * Finds <table>s and repeated sibling elements (product grids, search results),
+ * infers column names and returns rows as JSON, CSV or Markdown. Each group has a
+ * reusable selector and an `extract` spec for typed extraction across pages.
+ */
+
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { MAX_OUTPUT_CHARS } from '../config/defaults';
+import { RecordFormat, RecordGroup, detectRecordGroups, rowsToObjects, toCsv, toMarkdown } from '../utils/record-detector';
+
+const DEFAULT_MAX_ROWS = 50;
+const MAX_ROWS_LIMIT = 500;
+const DEFAULT_MAX_GROUPS = 3;
+const MAX_GROUPS_LIMIT = 10;
+
+const definition: MCPToolDefinition = {
+  name: 'detect_records',
+  description: 'Find tables and repeated items (product grids, result lists) and return them as rows with inferred columns, as JSON, CSV or Markdown. Each group includes a reusable selector and an extract spec.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab ID to analyze',
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'csv', 'markdown'],
+        description: 'Row format. Default: json',
+      },
+      selector: {
+        type: 'string',
+        description: 'Only look inside this element (CSS selector)',
+      },
+      maxGroups: {
+        type: 'number',
+        description: `Groups to return, best first. Default: ${DEFAULT_MAX_GROUPS}, max: ${MAX_GROUPS_LIMIT}`,
+      },
+      maxRows: {
+        type: 'number',
+        description: `Rows per group. Default: ${DEFAULT_MAX_ROWS}, max: ${MAX_ROWS_LIMIT}`,
+      },
+    },
+    required: ['tabId'],
+  },
+};
+
+function describeGroup(group: RecordGroup, index: number): string {
+  const shown = group.rows.length < group.rowCount ? `, showing ${group.rows.length}` : '';
+  return `Group ${index + 1}: ${group.kind}, ${group.rowCount} rows${shown}. Selector: ${group.selector}`;
+}
+
+function formatGroups(groups: RecordGroup[], format: RecordFormat): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      action: 'detect_records',
+      groups: groups.map(group => ({
+        kind: group.kind,
+        selector: group.selector,
+        rowCount: group.rowCount,
+        columns: group.columns,
+        rows: rowsToObjects(group),
+        extract: { container: { selector: group.selector }, fields: group.fields },
+      })),
+      hint: 'Pass a group\'s extract (container, fields) with a JSON Schema to extract, or to batch_paginate with captureMode "records" for every page.',
+    });
+  }
+
+  return groups.map((group, i) => {
+    if (format === 'csv') {
+      return `# ${describeGroup(group, i)}\n${toCsv(group.columns, group.rows)}`;
+    }
+    return `### ${describeGroup(group, i).replace(/Selector: (.*)$/, 'Selector: `$1`')}\n\n${toMarkdown(group.columns, group.rows)}`;
+  }).join('\n\n');
+}
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const tabId = args.tabId as string;
+  const format = ((args.format as string) || 'json') as RecordFormat;
+  const selector = args.selector as string | undefined;
+  const maxGroups = Math.min(Math.max(Math.floor((args.maxGroups as number) ?? DEFAULT_MAX_GROUPS), 1), MAX_GROUPS_LIMIT);
+  const maxRows = Math.min(Math.max(Math.floor((args.maxRows as number) ?? DEFAULT_MAX_ROWS), 1), MAX_ROWS_LIMIT);
+
+  if (!tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: tabId is required' }],
+      isError: true,
+    };
+  }
+
+  if (!['json', 'csv', 'markdown'].includes(format)) {
+    return {
+      content: [{ type: 'text', text: `Error: Invalid format "${format}". Must be "json", "csv", or "markdown".` }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+
+  try {
+    const page = await sessionManager.getPage(sessionId, tabId, undefined, 'detect_records');
+    if (!page) {
+      return {
+        content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+        isError: true,
+      };
+    }
+
+    const groups = await detectRecordGroups(page, { rootSelector: selector, maxGroups, maxRows });
+    if (groups === null) {
+      return {
+        content: [{ type: 'text', text: `Error: No element found matching "${selector}"` }],
+        isError: true,
+      };
+    }
+    if (groups.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'No tables or repeated items found. The list may not be rendered yet (wait_for), or use read_page mode "dom" to inspect the structure.',
+        }],
+      };
+    }
+
+    let text = formatGroups(groups, format);
+    let rowLimit = maxRows;
+    while (text.length > MAX_OUTPUT_CHARS && rowLimit > 1) {
+      rowLimit = Math.floor(rowLimit / 2);
+      text = formatGroups(groups.map(group => ({ ...group, rows: group.rows.slice(0, rowLimit) })), format);
+    }
+
+    return {
+      content: [{ type: 'text', text }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `detect_records error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+};
+
+export function registerDetectRecordsTool(server: MCPServer): void {
+  server.registerTool('detect_records', handler, definition);
+}
@@ -0,0 +1,184 @@
+/**
+ * Downloads Tool - Wait for and inspect files downloaded by a worker's tabs
+ *
+ * Every worker with its own browser context saves downloads into its own directory
+ * (see DownloadManager), so parallel workers can export the same report without
+ * colliding. Workers sharing the default context share one directory.
+ */
+
+import * as path from 'path';
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { getDownloadManager, DownloadRecord } from '../network/download-manager';
+import { isSensitiveOutputPath, resolveOutputPath } from '../utils/output-path';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+const MAX_WAIT_TIMEOUT_MS = 300000;
+
+const definition: MCPToolDefinition = {
+  name: 'downloads',
+  description: 'Wait for a download to finish and get its path, size, MIME type and SHA-256, list downloads, or change the download directory. Each worker with its own browser context downloads into its own directory.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['wait', 'list', 'configure'],
+        description: 'wait: next finished download (trigger it first, e.g. click the export link). list: downloads so far. configure: set the download directory',
+      },
+      tabId: {
+        type: 'string',
+        description: 'Tab whose worker the download belongs to',
+      },
+      workerId: {
+        type: 'string',
+        description: 'Worker ID (alternative to tabId). Default: the default worker',
+      },
+      timeout: {
+        type: 'number',
+        description: 'wait: max milliseconds to wait for the download to finish (default: 30000, max: 300000)',
+      },
+      directory: {
+        type: 'string',
+        description: 'configure: directory for this worker\'s downloads (absolute, ~ or relative to cwd)',
+      },
+    },
+    required: ['action'],
+  },
+};
+
+function describe(record: DownloadRecord): Record<string, unknown> {
+  return {
+    filename: record.path ? path.basename(record.path) : record.suggestedFilename,
+    state: record.state,
+    url: record.url,
+    ...(record.path && { path: record.path }),
+    ...(record.size !== undefined && { size: record.size }),
+    ...(record.mimeType && { mimeType: record.mimeType }),
+    ...(record.sha256 && { sha256: record.sha256 }),
+    ...(record.workerId && { workerId: record.workerId }),
+    ...(record.tabId && { tabId: record.tabId }),
+    ...(record.state === 'inProgress' && { receivedBytes: record.receivedBytes, totalBytes: record.totalBytes }),
+    ...(record.error && { error: record.error }),
+  };
+}
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const action = args.action as string;
+  const tabId = args.tabId as string | undefined;
+  const timeout = Math.min(Math.max((args.timeout as number) ?? DEFAULT_WAIT_TIMEOUT_MS, 0), MAX_WAIT_TIMEOUT_MS);
+  const directory = args.directory as string | undefined;
+
+  if (!['wait', 'list', 'configure'].includes(action)) {
+    return {
+      content: [{ type: 'text', text: `Error: Unknown action "${action}". Use: wait, list or configure` }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+  const downloads = getDownloadManager();
+
+  try {
+    let workerId = args.workerId as string | undefined;
+    if (!workerId && tabId) {
+      workerId = sessionManager.getTargetWorkerId(tabId);
+      if (!workerId) {
+        return {
+          content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+          isError: true,
+        };
+      }
+    }
+    const worker = await sessionManager.getOrCreateWorker(sessionId, workerId);
+
+    if (action === 'configure') {
+      if (!directory) {
+        return {
+          content: [{ type: 'text', text: 'Error: directory is required for configure' }],
+          isError: true,
+        };
+      }
+      const resolved = resolveOutputPath(directory);
+      if (isSensitiveOutputPath(resolved)) {
+        return {
+          content: [{ type: 'text', text: `Error: Cannot download into sensitive directory "${resolved}"` }],
+          isError: true,
+        };
+      }
+      const configured = await sessionManager.configureWorkerDownloads(sessionId, worker.id, resolved);
+      if (!configured) {
+        return {
+          content: [{ type: 'text', text: 'Error: Chrome did not accept the download directory. Downloads keep the previous behavior.' }],
+          isError: true,
+        };
+      }
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ action: 'downloads_configure', workerId: worker.id, directory: configured }),
+        }],
+      };
+    }
+
+    if (action === 'list') {
+      const records = downloads.list({ sessionId, workerId: worker.id });
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            action: 'downloads_list',
+            workerId: worker.id,
+            directory: worker.downloadDir ?? null,
+            ...(!worker.context && { sharedDirectory: true }),
+            downloads: records.map(describe),
+          }),
+        }],
+      };
+    }
+
+    const record = await downloads.wait({ sessionId, workerId: worker.id }, timeout);
+    if (!record) {
+      const inProgress = downloads.pending({ sessionId, workerId: worker.id });
+      return {
+        content: [{
+          type: 'text',
+          text: inProgress.length > 0
+            ? `Error: Download still in progress after ${timeout}ms: ${inProgress.map(r => `${r.suggestedFilename} (${r.receivedBytes}/${r.totalBytes || '?'} bytes)`).join(', ')}. Call wait again.`
+            : `Error: No download finished within ${timeout}ms for worker ${worker.id}. Trigger the download first (e.g. click the export link), then wait.`,
+        }],
+        isError: true,
+      };
+    }
+
+    if (record.state !== 'completed') {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: Download of ${record.suggestedFilename} ${record.state}${record.error ? `: ${record.error}` : ''}`,
+        }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ action: 'downloads_wait', ...describe(record) }),
+      }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Downloads error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+};
+
+export function registerDownloadsTool(server: MCPServer): void {
+  server.registerTool('downloads', handler, definition);
+}
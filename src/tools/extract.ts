@@ -0,0 +1,157 @@
+/**
+ * Extract Tool - Structured records from a page, typed by a JSON Schema
+ *
+ * Replaces ad-hoc javascript_tool scrapers: the caller describes one record with a
+ * JSON Schema, optionally with selector hints per field, and gets validated records
+ * plus per-field miss counts. For paginated listings use batch_paginate with
+ * captureMode "records" and the same arguments under `extract`.
+ */
+
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { MAX_OUTPUT_CHARS } from '../config/defaults';
+import { extractRecords, parseExtractionSpec, DEFAULT_EXTRACT_LIMIT, MAX_EXTRACT_LIMIT } from '../utils/record-extractor';
+import { formatDiagnosticsMessage, gatherDiagnostics } from './query-dom';
+
+/** Invalid records listed in the result; the rest are counted */
+const MAX_INVALID_REPORTED = 10;
+
+const selectorHintProperties = {
+  selector: { type: 'string', description: 'CSS selector' },
+  xpath: { type: 'string', description: 'XPath expression' },
+};
+
+export const extractInputProperties: MCPToolDefinition['inputSchema']['properties'] = {
+  schema: {
+    type: 'object',
+    description: 'JSON Schema of one record, e.g. {"type":"object","properties":{"title":{"type":"string"},"price":{"type":"number"}},"required":["title"]}',
+  },
+  container: {
+    type: 'object',
+    description: 'Element repeated once per record, e.g. {"selector":".product-card"}. Omit to extract one record from the whole page',
+    properties: selectorHintProperties,
+  },
+  fields: {
+    type: 'object',
+    description: 'Hint per field: a CSS selector relative to the container, or {selector|xpath, attribute, scope: "container"|"page", all}. XPath starting with "." is relative to the container. Fields without a hint are located by name (itemprop, data-field, class, dt/dd, th/td)',
+  },
+  limit: {
+    type: 'number',
+    description: `Max records. Default: ${DEFAULT_EXTRACT_LIMIT}, max: ${MAX_EXTRACT_LIMIT}`,
+  },
+};
+
+const definition: MCPToolDefinition = {
+  name: 'extract',
+  description: 'Extract a list of records typed by a JSON Schema, with optional CSS/XPath hints per field. Returns validated records and per-field misses. For paginated listings use batch_paginate with captureMode "records".',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab ID to extract from',
+      },
+      ...extractInputProperties,
+    },
+    required: ['tabId', 'schema'],
+  },
+};
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const tabId = args.tabId as string;
+
+  if (!tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: tabId is required' }],
+      isError: true,
+    };
+  }
+
+  let spec;
+  try {
+    spec = parseExtractionSpec(args);
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+
+  try {
+    const page = await sessionManager.getPage(sessionId, tabId, undefined, 'extract');
+    if (!page) {
+      return {
+        content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+        isError: true,
+      };
+    }
+
+    const result = await extractRecords(page, spec);
+
+    if (result.containerCount === 0 && spec.container) {
+      const selector = spec.container.selector ?? spec.container.xpath!;
+      const diag = spec.container.selector ? await gatherDiagnostics(page, selector) : null;
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            action: 'extract',
+            count: 0,
+            records: [],
+            message: `${formatDiagnosticsMessage(selector, diag, true)}. Check the container selector with query_dom.`,
+          }),
+        }],
+      };
+    }
+
+    const output: Record<string, unknown> = {
+      action: 'extract',
+      count: result.records.length,
+      ...(result.containerCount > result.records.length && {
+        containerCount: result.containerCount,
+        note: `Limited to ${result.records.length} of ${result.containerCount} records (limit)`,
+      }),
+      records: result.records,
+      ...(Object.keys(result.misses).length > 0 && { misses: result.misses }),
+      ...(result.autoDetected.length > 0 && { autoDetected: result.autoDetected }),
+      ...(result.invalid.length > 0 && {
+        invalidCount: result.invalid.length,
+        invalid: result.invalid.slice(0, MAX_INVALID_REPORTED),
+      }),
+    };
+
+    const missed = Object.keys(result.misses).filter(name => result.misses[name] === result.records.length);
+    if (missed.length > 0 && result.records.length > 0) {
+      output.hint = `Not found in any record: ${missed.join(', ')}. Pass a selector for them in fields.`;
+    }
+
+    let text = JSON.stringify(output);
+    if (text.length > MAX_OUTPUT_CHARS) {
+      // Drop records from the end until the result fits
+      const records = result.records.slice();
+      while (records.length > 1 && text.length > MAX_OUTPUT_CHARS) {
+        records.splice(Math.floor(records.length * 0.8));
+        text = JSON.stringify({ ...output, count: records.length, records, truncated: `Output limited to ${records.length} of ${result.records.length} records; lower limit or paginate` });
+      }
+    }
+
+    return {
+      content: [{ type: 'text', text }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Extract error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+};
+
+export function registerExtractTool(server: MCPServer): void {
+  server.registerTool('extract', handler, definition);
+}
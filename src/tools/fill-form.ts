@@ -10,6 +10,8 @@ import { getSessionManager } from '../session-manager';
 import { DEFAULT_DOM_SETTLE_DELAY_MS, DEFAULT_FORM_SUBMIT_SETTLE_MS } from '../config/defaults';
 import { withDomDelta } from '../utils/dom-delta';
 import { withTimeout } from '../utils/with-timeout';
+import { detectOtpField } from '../utils/otp-detector';
+import { containsSecretPlaceholder, resolveSecretPlaceholders } from '../security/secrets-vault';
 
 const definition: MCPToolDefinition = {
   name: 'fill_form',
@@ -23,7 +25,7 @@ const definition: MCPToolDefinition = {
       },
       fields: {
         type: 'object',
-        description: 'Map of field labels/names/placeholders to values (string). For checkboxes use "true"/"false".',
+        description: 'Map of field labels/names/placeholders to values (string). For checkboxes use "true"/"false". Use {{secret:name}} for stored credentials.',
         additionalProperties: {
           type: 'string',
         },
@@ -268,6 +270,9 @@ const handler: ToolHandler = async (
         }
 
         try {
+          // {{secret:name}} is resolved here; fieldValue keeps the placeholder for the result text
+          const inputValue = typeof fieldValue === 'string' ? resolveSecretPlaceholders(fieldValue) : fieldValue;
+
           // Scroll into view
           if (bestMatch.backendDOMNodeId) {
             await cdpClient.send(page, 'DOM.scrollIntoViewIfNeeded', {
@@ -287,7 +292,7 @@ const handler: ToolHandler = async (
               return el?.checked;
             }, formFields.indexOf(bestMatch)), 10000, 'fill_form');
 
-            const shouldBeChecked = fieldValue === true || fieldValue === 'true' || fieldValue === '1';
+            const shouldBeChecked = inputValue === true || inputValue === 'true' || inputValue === '1';
             if (isChecked !== shouldBeChecked) {
               await page.mouse.click(Math.round(bestMatch.rect.x), Math.round(bestMatch.rect.y));
             }
@@ -299,7 +304,7 @@ const handler: ToolHandler = async (
                 el.value = val;
                 el.dispatchEvent(new Event('change', { bubbles: true }));
               }
-            }, formFields.indexOf(bestMatch), String(fieldValue)), 10000, 'fill_form');
+            }, formFields.indexOf(bestMatch), String(inputValue)), 10000, 'fill_form');
           } else {
             // For text inputs/textareas
             if (clearFirst) {
@@ -310,10 +315,13 @@ const handler: ToolHandler = async (
               await page.keyboard.up(modifier);
               await page.keyboard.press('Backspace');
             }
-            await page.keyboard.type(String(fieldValue));
+            await page.keyboard.type(String(inputValue));
           }
 
-          filledFields.push(`${fieldKey}: "${String(fieldValue).slice(0, 20)}${String(fieldValue).length > 20 ? '...' : ''}"`);
+          const shown = containsSecretPlaceholder(fieldValue)
+            ? String(fieldValue)
+            : `${String(fieldValue).slice(0, 20)}${String(fieldValue).length > 20 ? '...' : ''}`;
+          filledFields.push(`${fieldKey}: "${shown}"`);
         } catch (e) {
           errors.push(`Failed to fill "${fieldKey}": ${e instanceof Error ? e.message : String(e)}`);
         }
@@ -375,6 +383,11 @@ const handler: ToolHandler = async (
 
     if (formResult.submitted) {
       resultParts.push(`Submitted form via "${submit}"`);
+      // Login forms often lead to a 2FA step
+      const otpField = await detectOtpField(page);
+      if (otpField) {
+        resultParts.push(`One-time code field detected (${otpField.description}). Use totp action "fill" to enter a code from a stored seed.`);
+      }
     }
 
     if (errors.length > 0) {
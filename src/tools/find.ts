@@ -7,10 +7,13 @@ import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
 import { getRefIdManager } from '../utils/ref-id-manager';
 import { withTimeout } from '../utils/with-timeout';
+import { DEEP_ELEMENTS_EXPRESSION, learnedAdjustment, tokenizeQuery } from '../utils/element-finder';
+import { getElementRanker } from '../memory/element-ranker';
+import { describeElementScope, ScopedElement, searchElementScopes } from '../dom';
 
 const definition: MCPToolDefinition = {
   name: 'find',
-  description: 'Find elements by natural language query. Returns up to 20 matches with refs.',
+  description: 'Find elements by natural language query, including inside iframes and shadow DOM. Returns up to 20 matches with refs.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -30,6 +33,10 @@ const definition: MCPToolDefinition = {
         type: 'number',
         description: 'How often to retry while waiting, in ms. Default 200, range 50-2000.',
       },
+      deep: {
+        type: 'boolean',
+        description: 'Also search iframes and closed shadow roots when the page itself has matches. Default: false (searched only when the page has none)',
+      },
     },
     required: ['query', 'tabId'],
   },
@@ -43,6 +50,7 @@ const handler: ToolHandler = async (
   const query = args.query as string;
   const waitForMs = args.waitForMs as number | undefined;
   const pollInterval = Math.min(Math.max((args.pollInterval as number) || 200, 50), 2000);
+  const deep = args.deep === true;
 
   const sessionManager = getSessionManager();
   const refIdManager = getRefIdManager();
@@ -248,11 +256,19 @@ const handler: ToolHandler = async (
 
       const seen = new Set<Element>();
 
+      // The document plus every open shadow root in it (web components)
+      const roots: Array<Document | ShadowRoot> = [document];
+      for (let i = 0; i < roots.length; i++) {
+        for (const el of roots[i].querySelectorAll('*')) {
+          if (el.shadowRoot) roots.push(el.shadowRoot);
+        }
+      }
+
       // First pass: role-matched elements
       for (const selector of roleSelectors) {
         if (elements.length >= maxResults) break;
         try {
-          const matched = document.querySelectorAll(selector);
+          const matched = roots.flatMap((root) => Array.from(root.querySelectorAll(selector)));
           for (const el of matched) {
             if (seen.has(el) || elements.length >= maxResults) continue;
             const info = getElementInfo(el);
@@ -269,32 +285,34 @@ const handler: ToolHandler = async (
       }
 
       // Second pass: all elements with text matching
-      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-      let node = walker.nextNode();
-      while (node && elements.length < maxResults) {
-        const el = node as Element;
-        if (!seen.has(el)) {
-          const inputEl = el as HTMLInputElement;
-          const text = el.textContent?.toLowerCase() || '';
-          const ariaLabel = el.getAttribute('aria-label')?.toLowerCase() || '';
-          const placeholder = inputEl.placeholder?.toLowerCase() || '';
-          const title = el.getAttribute('title')?.toLowerCase() || '';
-          const combinedText = `${text} ${ariaLabel} ${placeholder} ${title}`;
-
-          const matchesToken = queryTokens.some((token) => combinedText.includes(token));
-          const matchesFull = combinedText.includes(searchLower);
-
-          if (matchesToken || matchesFull) {
-            const info = getElementInfo(el);
-            if (info && info.score > 0) {
-              seen.add(el);
-              (el as unknown as { __findIndex: number }).__findIndex = elements.length;
-              domElements.push(el);
-              elements.push(info);
+      for (const root of roots) {
+        const walker = document.createTreeWalker(root === document ? document.body : root, NodeFilter.SHOW_ELEMENT);
+        let node = walker.nextNode();
+        while (node && elements.length < maxResults) {
+          const el = node as Element;
+          if (!seen.has(el)) {
+            const inputEl = el as HTMLInputElement;
+            const text = el.textContent?.toLowerCase() || '';
+            const ariaLabel = el.getAttribute('aria-label')?.toLowerCase() || '';
+            const placeholder = inputEl.placeholder?.toLowerCase() || '';
+            const title = el.getAttribute('title')?.toLowerCase() || '';
+            const combinedText = `${text} ${ariaLabel} ${placeholder} ${title}`;
+
+            const matchesToken = queryTokens.some((token) => combinedText.includes(token));
+            const matchesFull = combinedText.includes(searchLower);
+
+            if (matchesToken || matchesFull) {
+              const info = getElementInfo(el);
+              if (info && info.score > 0) {
+                seen.add(el);
+                (el as unknown as { __findIndex: number }).__findIndex = elements.length;
+                domElements.push(el);
+                elements.push(info);
+              }
             }
           }
+          node = walker.nextNode();
         }
-        node = walker.nextNode();
       }
 
       // Sort by score (highest first) and return top 20
@@ -331,10 +349,8 @@ const handler: ToolHandler = async (
       result: { objectId?: string };
     }>(page, 'Runtime.evaluate', {
       expression: `(() => {
-        const results = [];
-        const allEls = document.querySelectorAll('*');
         const indexedEls = [];
-        for (const el of allEls) {
+        for (const el of ${DEEP_ELEMENTS_EXPRESSION}) {
           if (el.__findIndex !== undefined) {
             indexedEls.push({ el, index: el.__findIndex });
           }
@@ -377,9 +393,23 @@ const handler: ToolHandler = async (
       await Promise.all(describePromises);
     }
 
-    // Generate refs for found elements (already sorted by score)
-    output = [];
+    // Per-site adjustments learned from which results agents went on to use
+    const learnedWeights = getElementRanker().weightsFor(page.url());
+    const queryTokens = tokenizeQuery(query);
     for (const el of results) {
+      el.score += learnedAdjustment(el, queryTokens, learnedWeights);
+    }
+
+    // Iframes (including cross-origin ones) and closed shadow roots. This walks the
+    // whole pierced DOM tree, so it runs only when the page itself has no match.
+    const scoped = deep || results.length === 0
+      ? await searchElementScopes(page, cdpClient, query, learnedWeights)
+      : [];
+    const ranked: ScopedElement[] = [...results, ...scoped].sort((a, b) => b.score - a.score).slice(0, 20);
+
+    // Generate refs for found elements (sorted by score)
+    output = [];
+    for (const el of ranked) {
       if (el.backendDOMNodeId) {
         const refId = refIdManager.generateRef(
           sessionId,
@@ -388,18 +418,22 @@ const handler: ToolHandler = async (
           el.role,
           el.name,
           el.tagName,
-          el.textContent
+          el.textContent,
+          el.frameId
         );
 
         // Include score in output for transparency
         const scoreLabel = el.score >= 100 ? '★★★' : el.score >= 50 ? '★★' : el.score >= 20 ? '★' : '';
         output.push(
-          `[${refId}] ${el.role}: "${el.name}" at (${Math.round(el.rect.x)}, ${Math.round(el.rect.y)}) ${scoreLabel}`.trim()
+          `[${refId}] ${el.role}: "${el.name}" at (${Math.round(el.rect.x)}, ${Math.round(el.rect.y)}) ${scoreLabel}`.trim() + describeElementScope(el)
         );
       }
     }
 
     if (output.length > 0) {
+      // Which result the agent goes on to use tells the ranker whether the top one was right
+      const withRefs = ranked.filter((el) => el.backendDOMNodeId);
+      getElementRanker().recordChoice(sessionId, tabId, page.url(), query, withRefs, withRefs[0], false);
       break;
     }
 
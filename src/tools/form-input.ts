@@ -7,10 +7,14 @@ import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
 import { getRefIdManager } from '../utils/ref-id-manager';
 import { withDomDelta } from '../utils/dom-delta';
+import { resolveSecretPlaceholders } from '../security/secrets-vault';
+import { getNodeScope } from '../cdp/frame-sessions';
+import { getElementRanker } from '../memory/element-ranker';
+import { resolveLocator } from '../locator';
 
 const definition: MCPToolDefinition = {
   name: 'form_input',
-  description: 'Set form element value using ref from read_page or find.',
+  description: 'Set form element value using ref from read_page or find, or a locator.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -22,12 +26,16 @@ const definition: MCPToolDefinition = {
         type: 'string',
         description: 'ref_N from read_page or backendNodeId from DOM mode',
       },
+      locator: {
+        type: 'string',
+        description: 'Instead of ref: semantic locator, e.g. label="Email" or role=textbox[name="Email"]',
+      },
       value: {
         type: 'string',
-        description: 'Value to set. For checkboxes use "true"/"false", for number inputs use the numeric string.',
+        description: 'Value to set. For checkboxes use "true"/"false", for number inputs use the numeric string. Use {{secret:name}} for stored credentials.',
       },
     },
-    required: ['ref', 'value', 'tabId'],
+    required: ['value', 'tabId'],
   },
 };
 
@@ -37,6 +45,7 @@ const handler: ToolHandler = async (
 ): Promise<MCPResult> => {
   const tabId = args.tabId as string;
   const ref = args.ref as string;
+  const locator = args.locator as string | undefined;
   const value = args.value;
 
   const sessionManager = getSessionManager();
@@ -49,9 +58,9 @@ const handler: ToolHandler = async (
     };
   }
 
-  if (!ref) {
+  if (!ref && !locator) {
     return {
-      content: [{ type: 'text', text: 'Error: ref is required' }],
+      content: [{ type: 'text', text: 'Error: ref is required (or a locator)' }],
       isError: true,
     };
   }
@@ -72,29 +81,43 @@ const handler: ToolHandler = async (
       };
     }
 
+    const cdpClient = sessionManager.getCDPClient();
+
     // Get the backend node ID
-    let backendNodeId = refIdManager.resolveToBackendNodeId(sessionId, tabId, ref);
-    if (backendNodeId === undefined) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: Reference '${ref}' not found. Use read_page first to get element references (ref_N or backendNodeId).`,
-          },
-        ],
-        isError: true,
-      };
+    let backendNodeId: number | undefined;
+    if (locator) {
+      const { elements } = await resolveLocator(page, cdpClient, locator, 1);
+      if (elements.length === 0) {
+        return {
+          content: [{ type: 'text', text: `Error: No visible element matches locator ${locator}` }],
+          isError: true,
+        };
+      }
+      backendNodeId = elements[0].backendDOMNodeId;
+    } else {
+      backendNodeId = refIdManager.resolveToBackendNodeId(sessionId, tabId, ref);
+      if (backendNodeId === undefined) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Reference '${ref}' not found. Use read_page first to get element references (ref_N or backendNodeId).`,
+            },
+          ],
+          isError: true,
+        };
+      }
     }
 
-    const cdpClient = sessionManager.getCDPClient();
-
     // Validate ref identity if fingerprint is available
-    const refEntry = refIdManager.getRef(sessionId, tabId, ref);
+    const refEntry = ref ? refIdManager.getRef(sessionId, tabId, ref) : undefined;
+    // Nodes of a cross-origin iframe are only known to that iframe's session
+    const scope = await getNodeScope(page, cdpClient, refEntry?.frameId);
     if (refEntry && refEntry.tagName) {
       try {
-        const { node } = await cdpClient.send<{
+        const { node } = await scope.send<{
           node: { localName: string };
-        }>(page, 'DOM.describeNode', { backendNodeId });
+        }>('DOM.describeNode', { backendNodeId });
 
         const validation = refIdManager.validateRef(
           sessionId, tabId, ref,
@@ -125,9 +148,11 @@ const handler: ToolHandler = async (
       }
     }
 
+    // Resolve {{secret:name}} placeholders only now, just before typing
+    const resolvedValue = typeof value === 'string' ? resolveSecretPlaceholders(value) : value;
+
     // Resolve the node
-    const { object } = await cdpClient.send<{ object: { objectId: string } }>(
-      page,
+    const { object } = await scope.send<{ object: { objectId: string } }>(
       'DOM.resolveNode',
       { backendNodeId }
     );
@@ -137,7 +162,7 @@ const handler: ToolHandler = async (
         content: [
           {
             type: 'text',
-            text: `Error: Could not resolve element ${ref}. The element may no longer exist.`,
+            text: `Error: Could not resolve element ${ref || locator}. The element may no longer exist.`,
           },
         ],
         isError: true,
@@ -146,9 +171,9 @@ const handler: ToolHandler = async (
 
     // Set the value based on element type with DOM delta capture
     const { result, delta } = await withDomDelta(page, () =>
-      cdpClient.send<{
+      scope.send<{
         result: { value: { success: boolean; message?: string; error?: string } };
-      }>(page, 'Runtime.callFunctionOn', {
+      }>('Runtime.callFunctionOn', {
         objectId: object.objectId,
         functionDeclaration: `
           function(newValue) {
@@ -211,7 +236,7 @@ const handler: ToolHandler = async (
             }
           }
         `,
-        arguments: [{ value }],
+        arguments: [{ value: resolvedValue }],
         returnByValue: true,
       })
     );
@@ -219,6 +244,8 @@ const handler: ToolHandler = async (
     const response = result.result.value;
 
     if (response.success) {
+      // Filling one of a recent find's results is feedback for the ranker
+      getElementRanker().recordRefAction(sessionId, tabId, backendNodeId);
       return {
         content: [{ type: 'text', text: (response.message || 'Value set successfully') + delta }],
       };
@@ -5,6 +5,7 @@
 import { MCPServer } from '../mcp-server';
 import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
+import { resolveSecretPlaceholders } from '../security/secrets-vault';
 
 const definition: MCPToolDefinition = {
   name: 'http_auth',
@@ -23,11 +24,11 @@ const definition: MCPToolDefinition = {
       },
       username: {
         type: 'string',
-        description: 'Username for HTTP auth',
+        description: 'Username for HTTP auth. Accepts {{secret:name}} placeholders',
       },
       password: {
         type: 'string',
-        description: 'Password for HTTP auth',
+        description: 'Password for HTTP auth. Use a {{secret:name}} placeholder to keep it out of the conversation',
       },
     },
     required: ['tabId', 'action'],
@@ -83,8 +84,12 @@ const handler: ToolHandler = async (
           };
         }
 
-        await page.authenticate({ username, password });
+        await page.authenticate({
+          username: resolveSecretPlaceholders(username),
+          password: resolveSecretPlaceholders(password),
+        });
 
+        // Echo the username as given, so a placeholder stays a placeholder
         return {
           content: [
             {
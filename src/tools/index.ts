@@ -28,13 +28,20 @@ import { registerUserAgentTool } from './user-agent';
 import { registerGeolocationTool } from './geolocation';
 import { registerEmulateDeviceTool } from './emulate-device';
 import { registerPagePdfTool } from './page-pdf';
+import { registerVisualSnapshotTool } from './visual-snapshot';
+import { registerA11yAuditTool } from './a11y-audit';
 import { registerConsoleCaptureTool } from './console-capture';
 import { registerPerformanceMetricsTool } from './performance-metrics';
 import { registerRequestInterceptTool } from './request-intercept';
+import { registerNetworkRecordTool } from './network-record';
+import { registerAssertTool } from './assert';
 
 // Phase 3 tools
 import { registerFileUploadTool } from './file-upload';
 import { registerHttpAuthTool } from './http-auth';
+import { registerTotpTool } from './totp';
+import { registerRequestHumanTool } from './request-human';
+import { registerDownloadsTool } from './downloads';
 import { registerDragDropTool } from './drag-drop';
 
 // UX improvement composite tools
@@ -54,6 +61,8 @@ import { registerMemoryTools } from './memory';
 
 // Consolidated DOM query tool
 import { registerQueryDomTool } from './query-dom';
+import { registerExtractTool } from './extract';
+import { registerDetectRecordsTool } from './detect-records';
 
 // Lifecycle tools
 import { registerShutdownTool } from './shutdown';
@@ -74,6 +83,8 @@ export function registerAllTools(server: MCPServer): void {
   registerPageReloadTool(server);
   registerCookiesTool(server);
   registerQueryDomTool(server);
+  registerExtractTool(server);
+  registerDetectRecordsTool(server);
   registerPageContentTool(server);
   registerWaitForTool(server);
   registerStorageTool(server);
@@ -83,13 +94,20 @@ export function registerAllTools(server: MCPServer): void {
   registerGeolocationTool(server);
   registerEmulateDeviceTool(server);
   registerPagePdfTool(server);
+  registerVisualSnapshotTool(server);
+  registerA11yAuditTool(server);
   registerConsoleCaptureTool(server);
   registerPerformanceMetricsTool(server);
   registerRequestInterceptTool(server);
+  registerNetworkRecordTool(server);
+  registerAssertTool(server);
 
   // Phase 3: Advanced tools
   registerFileUploadTool(server);
   registerHttpAuthTool(server);
+  registerTotpTool(server);
+  registerRequestHumanTool(server);
+  registerDownloadsTool(server);
   registerDragDropTool(server);
 
   // UX improvement composite tools (reduce tool call count)
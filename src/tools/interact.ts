@@ -11,7 +11,10 @@ import { getSessionManager } from '../session-manager';
 import { getRefIdManager } from '../utils/ref-id-manager';
 import { withDomDelta } from '../utils/dom-delta';
 import { DEFAULT_DOM_SETTLE_DELAY_MS, DEFAULT_SCREENSHOT_RACE_TIMEOUT_MS, DEFAULT_SCREENSHOT_TIMEOUT_MS } from '../config/defaults';
-import { FoundElement, scoreElement, tokenizeQuery } from '../utils/element-finder';
+import { DEEP_ELEMENTS_EXPRESSION, FoundElement, scoreElement, tokenizeQuery } from '../utils/element-finder';
+import { getElementRanker } from '../memory/element-ranker';
+import { resolveLocator } from '../locator';
+import { describeElementScope, getScopedElementCenter, ScopedElement, searchElementScopes } from '../dom';
 import { withTimeout } from '../utils/with-timeout';
 
 const definition: MCPToolDefinition = {
@@ -28,6 +31,10 @@ const definition: MCPToolDefinition = {
         type: 'string',
         description: 'Element to interact with (natural language)',
       },
+      locator: {
+        type: 'string',
+        description: 'Instead of query: semantic locator, e.g. role=button[name="Save"] >> near(text="Billing"). With both, query is the fallback when the locator matches nothing',
+      },
       action: {
         type: 'string',
         enum: ['click', 'double_click', 'hover'],
@@ -55,7 +62,7 @@ const definition: MCPToolDefinition = {
         description: 'Poll interval when using waitForMs. Default: 200',
       },
     },
-    required: ['tabId', 'query'],
+    required: ['tabId'],
   },
 };
 
@@ -64,7 +71,8 @@ const handler: ToolHandler = async (
   args: Record<string, unknown>
 ): Promise<MCPResult> => {
   const tabId = args.tabId as string;
-  const query = args.query as string;
+  const query = (args.query as string) || '';
+  const locator = args.locator as string | undefined;
   const action = (args.action as string) || 'click';
   const waitAfter = Math.min(Math.max((args.waitAfter as number) || 500, 0), 10000);
   const returnFormat = (args.returnFormat as string) || 'both';
@@ -82,9 +90,9 @@ const handler: ToolHandler = async (
     };
   }
 
-  if (!query) {
+  if (!query && !locator) {
     return {
-      content: [{ type: 'text', text: 'Error: query is required' }],
+      content: [{ type: 'text', text: 'Error: query is required (or a locator)' }],
       isError: true,
     };
   }
@@ -103,10 +111,38 @@ const handler: ToolHandler = async (
 
     // Optional polling for dynamic/lazy content
     const maxWait = waitForMs ? Math.min(Math.max(waitForMs, 100), 30000) : 0;
-    let bestElement: FoundElement | null = null;
+    let bestElement: ScopedElement | null = null;
+    let scoped: ScopedElement[] = [];
+    let ranked: ScopedElement[] = [];
+    let locatorMatches = 0;
+    // Cleared when the locator matches nothing and the query is searched instead
+    let useLocator = !!locator;
+    const learnedWeights = getElementRanker().weightsFor(page.url());
+    const cdpClient = sessionManager.getCDPClient();
     const startTime = Date.now();
 
     do {
+    if (useLocator) {
+      // Locators match exactly; waiting only helps until the element shows up
+      const { elements, total } = await resolveLocator(page, cdpClient, locator!, 1);
+      if (elements.length > 0) {
+        bestElement = { ...elements[0], score: 100 };
+        locatorMatches = total;
+        break;
+      }
+      if (maxWait > 0 && Date.now() - startTime < maxWait) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        continue;
+      }
+      if (!query) {
+        return {
+          content: [{ type: 'text', text: `No visible element matches locator ${locator} on ${page.url()}` }],
+          isError: true,
+        };
+      }
+      useLocator = false;
+    }
+
     // Find elements matching the query using same approach as click-element.ts
     let results: Omit<FoundElement, 'score'>[];
     try {
@@ -195,11 +231,19 @@ const handler: ToolHandler = async (
 
       const seen = new Set<Element>();
 
+      // The document plus every open shadow root in it (web components)
+      const roots: Array<Document | ShadowRoot> = [document];
+      for (let i = 0; i < roots.length; i++) {
+        for (const el of roots[i].querySelectorAll('*')) {
+          if (el.shadowRoot) roots.push(el.shadowRoot);
+        }
+      }
+
       // First pass: interactive elements
       for (const selector of interactiveSelectors) {
         if (elements.length >= maxResults) break;
         try {
-          for (const el of document.querySelectorAll(selector)) {
+          for (const el of roots.flatMap((root) => Array.from(root.querySelectorAll(selector)))) {
             if (seen.has(el) || elements.length >= maxResults) continue;
             const info = getElementInfo(el);
             if (info) {
@@ -219,24 +263,26 @@ const handler: ToolHandler = async (
       }
 
       // Second pass: text content search on all elements
-      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-      let node = walker.nextNode();
-      while (node && elements.length < maxResults) {
-        const el = node as Element;
-        if (!seen.has(el)) {
-          const info = getElementInfo(el);
-          if (info) {
-            const combinedText =
-              `${info.name} ${info.textContent || ''} ${info.ariaLabel || ''} ${info.placeholder || ''}`.toLowerCase();
-            if (combinedText.includes(searchLower) || queryTokens.some(token => combinedText.includes(token))) {
-              seen.add(el);
-              (el as unknown as { __interactIndex: number }).__interactIndex = elements.length;
-              domElements.push(el);
-              elements.push(info);
+      for (const root of roots) {
+        const walker = document.createTreeWalker(root === document ? document.body : root, NodeFilter.SHOW_ELEMENT);
+        let node = walker.nextNode();
+        while (node && elements.length < maxResults) {
+          const el = node as Element;
+          if (!seen.has(el)) {
+            const info = getElementInfo(el);
+            if (info) {
+              const combinedText =
+                `${info.name} ${info.textContent || ''} ${info.ariaLabel || ''} ${info.placeholder || ''}`.toLowerCase();
+              if (combinedText.includes(searchLower) || queryTokens.some(token => combinedText.includes(token))) {
+                seen.add(el);
+                (el as unknown as { __interactIndex: number }).__interactIndex = elements.length;
+                domElements.push(el);
+                elements.push(info);
+              }
             }
           }
+          node = walker.nextNode();
         }
-        node = walker.nextNode();
       }
 
       return elements;
@@ -250,7 +296,13 @@ const handler: ToolHandler = async (
       results = [];
     }
 
-      if (results.length === 0) {
+      // Iframes (including cross-origin ones) and closed shadow roots; actions go to the center
+      scoped = await searchElementScopes(page, cdpClient, query, learnedWeights);
+      for (const el of scoped) {
+        el.rect = { ...el.rect, x: el.rect.x + el.rect.width / 2, y: el.rect.y + el.rect.height / 2 };
+      }
+
+      if (results.length === 0 && scoped.length === 0) {
         if (maxWait > 0 && Date.now() - startTime < maxWait) {
           await new Promise(resolve => setTimeout(resolve, pollInterval));
           continue;
@@ -262,17 +314,12 @@ const handler: ToolHandler = async (
       }
 
       // Get backend DOM node IDs via batched CDP approach
-      const cdpClient = sessionManager.getCDPClient();
-
       const { result: batchResult } = await cdpClient.send<{
         result: { objectId?: string };
       }>(page, 'Runtime.evaluate', {
         expression: `(() => {
           const indexedEls = [];
-          const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-          let node;
-          while (node = walker.nextNode()) {
-            const el = node;
+          for (const el of ${DEEP_ELEMENTS_EXPRESSION}) {
             if (el.__interactIndex !== undefined) {
               indexedEls.push({ el, index: el.__interactIndex });
             }
@@ -314,9 +361,11 @@ const handler: ToolHandler = async (
       }
 
       // Score and sort
-      const scoredResults: FoundElement[] = results
-        .map(el => ({ ...el, score: scoreElement(el as FoundElement, queryLower, queryTokens) }))
+      const scoredResults: ScopedElement[] = results
+        .map(el => ({ ...el, score: scoreElement(el as FoundElement, queryLower, queryTokens, learnedWeights) }))
+        .concat(scoped)
         .sort((a, b) => b.score - a.score);
+      ranked = scoredResults;
 
       if (scoredResults.length > 0 && scoredResults[0].score >= 10) {
         bestElement = scoredResults[0];
@@ -348,10 +397,15 @@ const handler: ToolHandler = async (
       };
     }
 
-    const cdpClient = sessionManager.getCDPClient();
-
     // Scroll into view first if needed
-    if (bestMatch.backendDOMNodeId) {
+    if (useLocator || scoped.includes(bestMatch)) {
+      // No in-page index marker on this element; position it by node (in its own frame session if any)
+      const center = await getScopedElementCenter(page, cdpClient, bestMatch);
+      if (center) {
+        bestMatch.rect.x = center.x;
+        bestMatch.rect.y = center.y;
+      }
+    } else if (bestMatch.backendDOMNodeId) {
       try {
         await cdpClient.send(page, 'DOM.scrollIntoViewIfNeeded', {
           backendNodeId: bestMatch.backendDOMNodeId,
@@ -363,10 +417,7 @@ const handler: ToolHandler = async (
           result: { value: { x: number; y: number; width: number; height: number } | null };
         }>(page, 'Runtime.evaluate', {
           expression: `(() => {
-            const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-            let node;
-            while (node = walker.nextNode()) {
-              const el = node;
+            for (const el of ${DEEP_ELEMENTS_EXPRESSION}) {
               if (el.__interactIndex === 0) {
                 const rect = el.getBoundingClientRect();
                 return { x: rect.x + rect.width/2, y: rect.y + rect.height/2, width: rect.width, height: rect.height };
@@ -389,6 +440,11 @@ const handler: ToolHandler = async (
     const finalX = Math.round(bestMatch.rect.x);
     const finalY = Math.round(bestMatch.rect.y);
 
+    // What happens next (moving on, or retrying on another element) tells the ranker if this was right
+    if (!useLocator) {
+      getElementRanker().recordChoice(sessionId, tabId, page.url(), query, ranked, bestMatch, true);
+    }
+
     // Perform the action with DOM delta capture
     const { delta } = await withDomDelta(
       page,
@@ -414,13 +470,14 @@ const handler: ToolHandler = async (
         bestMatch.role,
         bestMatch.name,
         bestMatch.tagName,
-        bestMatch.textContent
+        bestMatch.textContent,
+        bestMatch.frameId
       );
     }
 
     // Build action label
     const actionLabel = action === 'double_click' ? 'double-clicked' : action === 'hover' ? 'hovered' : 'clicked';
-    const interactedLine = `Interacted: ${actionLabel} on <${bestMatch.tagName}> "${bestMatch.name.slice(0, 50)}" at (${finalX}, ${finalY})${refId ? ` [${refId}]` : ''}`;
+    const interactedLine = `Interacted: ${actionLabel} on <${bestMatch.tagName}> "${bestMatch.name.slice(0, 50)}" at (${finalX}, ${finalY})${describeElementScope(bestMatch)}${refId ? ` [${refId}]` : ''}${locatorMatches > 1 ? ` (first of ${locatorMatches} locator matches)` : ''}${locator && !useLocator ? ' (locator matched nothing; found by query)' : ''}`;
 
     // Gather state summary via page.evaluate
     const stateSummary = await withTimeout(page.evaluate(() => {
@@ -63,7 +63,8 @@ const handler: ToolHandler = async (
     }
 
     lines.push('');
-    lines.push('To use a specific profile, restart the server with --profile-directory "<directory>" (e.g., --profile-directory "Profile 1").');
+    lines.push('To work in another profile alongside the current one, use worker action "create" with profile "<directory or name>" (launches a Chrome instance for it; needs --auto-launch).');
+    lines.push('To change the server\'s own profile, restart it with --profile-directory "<directory>" (e.g., --profile-directory "Profile 1").');
 
     return {
       content: [
@@ -12,6 +12,7 @@ import { generateVisualSummary } from '../utils/visual-summary';
 import { AdaptiveScreenshot } from '../utils/adaptive-screenshot';
 import { assertDomainAllowed } from '../security/domain-guard';
 import { detectBlockingPage } from '../utils/page-diagnostics';
+import { getElementRanker } from '../memory/element-ranker';
 
 const definition: MCPToolDefinition = {
   name: 'navigate',
@@ -223,6 +224,8 @@ const handler: ToolHandler = async (
     if (url === 'back') {
       await page.goBack({ waitUntil: 'domcontentloaded', timeout: DEFAULT_NAVIGATION_TIMEOUT_MS });
       AdaptiveScreenshot.getInstance().reset(tabId);
+      // Going back right after clicking a found element usually means it was the wrong one
+      getElementRanker().recordUndo(sessionId, tabId);
       const [backSummary, backBlocking] = await Promise.all([
         generateVisualSummary(page),
         Promise.race([
@@ -0,0 +1,404 @@
+/**
+ * Network Record Tool - Record a tab's network traffic and export it as HAR 1.2
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CDPSession } from 'puppeteer-core';
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import {
+  HarRecorder,
+  LoadingFailedEvent,
+  LoadingFinishedEvent,
+  RequestWillBeSentEvent,
+  ResponseReceivedEvent,
+} from '../network/har-recorder';
+import { DEFAULT_CDP_SESSION_OP_TIMEOUT_MS } from '../config/defaults';
+import { withTimeout } from '../utils/with-timeout';
+import { isSensitiveOutputPath, resolveOutputPath } from '../utils/output-path';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+// Recording state for each tab
+interface RecordState {
+  recorder: HarRecorder;
+  cdpSession: CDPSession | null;
+  listeners: Array<[string, (event: any) => void]>;
+  captureBodies: boolean;
+  maxBodyBytes: number;
+  pendingBodies: Set<Promise<void>>;
+  startedAt: number;
+  stoppedAt?: number;
+}
+
+// Module-level state storage
+const recordStates: Map<string, RecordState> = new Map();
+
+const definition: MCPToolDefinition = {
+  name: 'network_record',
+  description: 'Record network traffic for a tab and export it as a HAR 1.2 file (start, stop, export, status).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab ID to record',
+      },
+      action: {
+        type: 'string',
+        enum: ['start', 'stop', 'export', 'status'],
+        description: 'Action to perform',
+      },
+      captureBodies: {
+        type: 'boolean',
+        description: 'Include response bodies (start). Default: false',
+      },
+      maxEntries: {
+        type: 'number',
+        description: 'Max requests to record (start). Default: 1000',
+      },
+      maxBodyBytes: {
+        type: 'number',
+        description: 'Per-body size cap when captureBodies is on (start). Default: 1MB',
+      },
+      path: {
+        type: 'string',
+        description: 'HAR output path (export). Default: .openchrome/har/<tab>-<time>.har',
+      },
+      clear: {
+        type: 'boolean',
+        description: 'Discard recorded entries after export. Default: false',
+      },
+    },
+    required: ['tabId', 'action'],
+  },
+};
+
+/**
+ * Detach CDP listeners and wait for outstanding body fetches.
+ */
+async function detachRecorder(state: RecordState): Promise<void> {
+  if (state.pendingBodies.size > 0) {
+    await withTimeout(
+      Promise.all(state.pendingBodies),
+      DEFAULT_CDP_SESSION_OP_TIMEOUT_MS,
+      'Response body capture'
+    ).catch(() => {});
+  }
+  const session = state.cdpSession;
+  if (!session) return;
+  for (const [event, listener] of state.listeners) {
+    session.off(event as any, listener);
+  }
+  state.listeners = [];
+  state.cdpSession = null;
+  await session.detach().catch(() => {});
+}
+
+// Cleanup listener when session ends
+const setupCleanupListener = (() => {
+  let initialized = false;
+  return () => {
+    if (initialized) return;
+    initialized = true;
+
+    const sessionManager = getSessionManager();
+    sessionManager.addEventListener((event) => {
+      if (
+        event.type === 'session:target-closed' ||
+        event.type === 'session:target-removed'
+      ) {
+        const targetId = event.targetId;
+        if (targetId) {
+          const state = recordStates.get(targetId);
+          if (state) {
+            recordStates.delete(targetId);
+            detachRecorder(state).catch(() => {});
+            console.error(`[NetworkRecord] Cleaned up recording for closed tab ${targetId}`);
+          }
+        }
+      }
+    });
+  };
+})();
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const tabId = args.tabId as string;
+  const action = args.action as string;
+  const captureBodies = args.captureBodies === true;
+  const maxEntries = (args.maxEntries as number | undefined) ?? DEFAULT_MAX_ENTRIES;
+  const maxBodyBytes = (args.maxBodyBytes as number | undefined) ?? DEFAULT_MAX_BODY_BYTES;
+  const outputPath = args.path as string | undefined;
+  const clearAfterExport = args.clear === true;
+
+  const sessionManager = getSessionManager();
+
+  // Setup cleanup listener on first use
+  setupCleanupListener();
+
+  if (!tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: tabId is required' }],
+      isError: true,
+    };
+  }
+
+  if (!action) {
+    return {
+      content: [{ type: 'text', text: 'Error: action is required' }],
+      isError: true,
+    };
+  }
+
+  try {
+    const page = await sessionManager.getPage(sessionId, tabId, undefined, 'network_record');
+    if (!page) {
+      return {
+        content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+        isError: true,
+      };
+    }
+
+    switch (action) {
+      case 'start': {
+        const existing = recordStates.get(tabId);
+        if (existing?.cdpSession) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  action: 'start',
+                  status: 'already_recording',
+                  entries: existing.recorder.size,
+                  message: 'Network recording already running for this tab',
+                }),
+              },
+            ],
+          };
+        }
+
+        const cdpSession = await withTimeout(
+          page.createCDPSession(),
+          DEFAULT_CDP_SESSION_OP_TIMEOUT_MS,
+          'createCDPSession'
+        );
+        const state: RecordState = {
+          recorder: new HarRecorder({ maxEntries }),
+          cdpSession,
+          listeners: [],
+          captureBodies,
+          maxBodyBytes,
+          pendingBodies: new Set(),
+          startedAt: Date.now(),
+        };
+
+        try {
+          state.listeners = [
+            ['Network.requestWillBeSent', (e: RequestWillBeSentEvent) => state.recorder.onRequestWillBeSent(e)],
+            ['Network.responseReceived', (e: ResponseReceivedEvent) => state.recorder.onResponseReceived(e)],
+            ['Network.loadingFailed', (e: LoadingFailedEvent) => state.recorder.onLoadingFailed(e)],
+            ['Network.loadingFinished', (e: LoadingFinishedEvent) => {
+              const entry = state.recorder.onLoadingFinished(e);
+              if (!entry || !state.captureBodies || !state.cdpSession) return;
+              const pending = state.cdpSession
+                .send('Network.getResponseBody', { requestId: e.requestId })
+                .then(({ body, base64Encoded }) => {
+                  const limit = base64Encoded ? Math.ceil(state.maxBodyBytes / 3) * 4 : state.maxBodyBytes;
+                  entry.body = body.length > limit
+                    ? { text: body.slice(0, limit), base64Encoded, truncated: true }
+                    : { text: body, base64Encoded };
+                })
+                .catch(() => {
+                  // Body evicted or not available (e.g. redirects, 204)
+                })
+                .finally(() => state.pendingBodies.delete(pending));
+              state.pendingBodies.add(pending);
+            }],
+          ];
+          for (const [event, listener] of state.listeners) {
+            cdpSession.on(event as any, listener);
+          }
+          await withTimeout(
+            cdpSession.send('Network.enable', { maxPostDataSize: 64 * 1024 }),
+            DEFAULT_CDP_SESSION_OP_TIMEOUT_MS,
+            'Network.enable'
+          );
+        } catch (error) {
+          // Do not leave a session with listeners behind on the tab
+          await detachRecorder(state);
+          throw error;
+        }
+
+        if (existing) {
+          await detachRecorder(existing);
+        }
+        recordStates.set(tabId, state);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'start',
+                status: 'recording',
+                captureBodies,
+                maxEntries,
+                message: `Network recording started for tab ${tabId}`,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'stop': {
+        const state = recordStates.get(tabId);
+        if (!state?.cdpSession) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  action: 'stop',
+                  status: 'not_running',
+                  message: 'Network recording was not running for this tab',
+                }),
+              },
+            ],
+          };
+        }
+
+        await detachRecorder(state);
+        state.stoppedAt = Date.now();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'stop',
+                status: 'stopped',
+                entries: state.recorder.size,
+                dropped: state.recorder.droppedCount,
+                durationMs: state.stoppedAt - state.startedAt,
+                message: `Network recording stopped. Use action "export" to write the HAR file`,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'export': {
+        const state = recordStates.get(tabId);
+        if (!state) {
+          return {
+            content: [{ type: 'text', text: 'Error: No network recording for this tab. Use action "start" first' }],
+            isError: true,
+          };
+        }
+
+        const workerId = sessionManager.getTargetWorkerId(tabId);
+        const resolvedPath = outputPath
+          ? resolveOutputPath(outputPath)
+          : path.join(
+              process.cwd(),
+              '.openchrome',
+              'har',
+              `${workerId ? `${workerId}-` : ''}${tabId}-${new Date().toISOString().replace(/[:.]/g, '-')}.har`
+            );
+        if (isSensitiveOutputPath(resolvedPath)) {
+          return {
+            content: [{ type: 'text', text: `Error: Cannot write HAR to sensitive directory "${path.dirname(resolvedPath)}"` }],
+            isError: true,
+          };
+        }
+
+        if (state.pendingBodies.size > 0) {
+          await withTimeout(
+            Promise.all(state.pendingBodies),
+            DEFAULT_CDP_SESSION_OP_TIMEOUT_MS,
+            'Response body capture'
+          ).catch(() => {});
+        }
+
+        const har = state.recorder.toHar(
+          `Recorded from tab ${tabId}${workerId ? ` (worker ${workerId})` : ''}`
+        );
+        await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+        await fs.writeFile(resolvedPath, JSON.stringify(har, null, 2), 'utf8');
+
+        const inFlight = state.recorder.inFlightCount;
+        if (clearAfterExport) {
+          state.recorder.clear();
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'export',
+                path: resolvedPath,
+                entries: har.log.entries.length,
+                inFlight,
+                dropped: state.recorder.droppedCount,
+                recording: state.cdpSession !== null,
+                message: `Wrote ${har.log.entries.length} HAR entries to ${resolvedPath}`,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'status': {
+        const state = recordStates.get(tabId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'status',
+                status: !state ? 'not_started' : state.cdpSession ? 'recording' : 'stopped',
+                entries: state?.recorder.size ?? 0,
+                inFlight: state?.recorder.inFlightCount ?? 0,
+                dropped: state?.recorder.droppedCount ?? 0,
+                captureBodies: state?.captureBodies ?? false,
+              }),
+            },
+          ],
+        };
+      }
+
+      default:
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Unknown action "${action}". Use: start, stop, export, or status`,
+            },
+          ],
+          isError: true,
+        };
+    }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Network record error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+};
+
+export function registerNetworkRecordTool(server: MCPServer): void {
+  server.registerTool('network_record', handler, definition);
+}
@@ -3,14 +3,18 @@
  */
 
 import * as dns from 'dns';
+import * as path from 'path';
 import { promisify } from 'util';
 import { MCPServer, getMCPServer } from '../mcp-server';
-import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { MCPToolDefinition, MCPResult, ToolContext, ToolHandler } from '../types/mcp';
 import { getWorkflowEngine, WorkflowDefinition } from '../orchestration/workflow-engine';
 import { getOrchestrationStateManager } from '../orchestration/state-manager';
 import { filterToolsForWorker, WorkerToolConfig } from '../types/tool-manifest';
 import { getPlanRegistry } from '../orchestration/plan-registry';
 import { PlanExecutor } from '../orchestration/plan-executor';
+import { SelectorHealer } from '../orchestration/selector-healer';
+import { compilePlanFromCalls, readTimelineEvents, selectTimelineCalls } from '../orchestration/plan-recorder';
+import { getActivityTracker } from '../dashboard/activity-tracker';
 import { formatError } from '../utils/format-error';
 
 const dnsResolve = promisify(dns.resolve);
@@ -306,12 +310,17 @@ const workflowCollectDefinition: MCPToolDefinition = {
 
 const workflowCollectHandler: ToolHandler = async (
   _sessionId: string,
-  _args: Record<string, unknown>
+  _args: Record<string, unknown>,
+  context?: ToolContext
 ): Promise<MCPResult> => {
   const engine = getWorkflowEngine();
 
   try {
-    const results = await engine.collectResults();
+    const results = await engine.collectResults({
+      signal: context?.signal,
+      onProgress: (collected, total) =>
+        context?.reportProgress(collected, total, `Collected ${collected}/${total} workers`),
+    });
     if (!results) {
       return {
         content: [
@@ -655,7 +664,7 @@ const workflowCollectPartialHandler: ToolHandler = async (
 
 const executePlanDefinition: MCPToolDefinition = {
   name: 'execute_plan',
-  description: 'Execute a cached plan by ID, bypassing per-step LLM calls. Falls back gracefully on failure for manual retry.',
+  description: 'Execute a cached plan by ID, bypassing per-step LLM calls. CSS selectors that no longer match are re-identified from the original element and saved back to the plan. Falls back gracefully on failure for manual retry.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -680,7 +689,8 @@ const executePlanDefinition: MCPToolDefinition = {
 
 const executePlanHandler: ToolHandler = async (
   sessionId: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context?: ToolContext
 ): Promise<MCPResult> => {
   const planId = args.planId as string;
   const tabId = args.tabId as string;
@@ -744,13 +754,21 @@ const executePlanHandler: ToolHandler = async (
       };
     }
 
-    // Create executor with MCPServer's tool resolver
+    // Create executor with MCPServer's tool resolver; healed selectors are written back to the plan file
     const mcpServer = getMCPServer();
-    const executor = new PlanExecutor((toolName: string) => mcpServer.getToolHandler(toolName));
+    const planUpdate: { version?: string } = {};
+    const executor = new PlanExecutor((toolName: string) => mcpServer.getToolHandler(toolName), {
+      healer: new SelectorHealer(),
+      onPlanUpdated: (updated) => {
+        if (registry.updatePlan(updated) && updated.version !== plan.version) {
+          planUpdate.version = updated.version;
+        }
+      },
+    });
 
     // Execute the plan
     const mergedParams = { tabId, ...runtimeParams };
-    const result = await executor.execute(plan, sessionId, mergedParams);
+    const result = await executor.execute(plan, sessionId, mergedParams, context);
 
     // Update stats
     registry.updateStats(planId, result.success, result.durationMs);
@@ -766,9 +784,12 @@ const executePlanHandler: ToolHandler = async (
           durationMs: result.durationMs,
           data: result.data,
           error: result.error,
-          message: result.success
+          ...(result.healedSelectors && { healedSelectors: result.healedSelectors }),
+          ...(planUpdate.version && { planVersion: planUpdate.version }),
+          message: (result.success
             ? `Plan "${planId}" executed successfully in ${result.durationMs}ms (${result.stepsExecuted}/${result.totalSteps} steps)`
-            : `Plan "${planId}" failed: ${result.error}. Consider manual execution.`,
+            : `Plan "${planId}" failed: ${result.error}. Consider manual execution.`) +
+            (planUpdate.version ? ` Healed ${result.healedSelectors?.length ?? 0} selector(s); plan updated to v${planUpdate.version}.` : ''),
         }, null, 2),
       }],
       isError: !result.success,
@@ -784,6 +805,138 @@ const executePlanHandler: ToolHandler = async (
   }
 };
 
+// ============================================
+// record_plan - Compile recorded tool calls into a cached plan
+// ============================================
+
+const recordPlanDefinition: MCPToolDefinition = {
+  name: 'record_plan',
+  description: 'Compile tool calls recorded in the activity timeline for a tab into a cached plan that execute_plan can replay. Refs become element descriptions, typed values become params.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      planId: {
+        type: 'string',
+        description: 'ID to register the plan under, e.g. "acme-login-v1"',
+      },
+      tabId: {
+        type: 'string',
+        description: 'Tab whose calls to record',
+      },
+      description: {
+        type: 'string',
+        description: 'Human-readable plan description',
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Task keywords used to match this plan to future tasks',
+      },
+      since: {
+        type: 'string',
+        description: 'Only record calls at or after this time (ISO 8601)',
+      },
+      until: {
+        type: 'string',
+        description: 'Only record calls at or before this time (ISO 8601)',
+      },
+      lastN: {
+        type: 'number',
+        description: 'Only record the last N calls for the tab',
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Return the compiled plan without registering it. Default: false',
+      },
+    },
+    required: ['planId', 'tabId'],
+  },
+};
+
+const recordPlanHandler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const planId = args.planId as string;
+  const tabId = args.tabId as string;
+
+  if (!planId || !tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: planId and tabId are required' }],
+      isError: true,
+    };
+  }
+  if (!/^[A-Za-z0-9._-]+$/.test(planId)) {
+    return {
+      content: [{ type: 'text', text: 'Error: planId may only contain letters, digits, ".", "_" and "-"' }],
+      isError: true,
+    };
+  }
+
+  const parseTime = (value: unknown, name: string): number | undefined => {
+    if (value === undefined) return undefined;
+    const time = Date.parse(String(value));
+    if (isNaN(time)) throw new Error(`${name} must be an ISO 8601 timestamp`);
+    return time;
+  };
+
+  try {
+    // Flushed timeline files plus in-memory history, which covers calls not yet written
+    const events = [
+      ...readTimelineEvents(path.join(process.cwd(), '.openchrome', 'timeline')),
+      ...getActivityTracker().getRecentCalls(Number.MAX_SAFE_INTEGER, sessionId),
+    ];
+    const calls = selectTimelineCalls(events, {
+      tabId,
+      sessionId,
+      since: parseTime(args.since, 'since'),
+      until: parseTime(args.until, 'until'),
+      lastN: typeof args.lastN === 'number' ? args.lastN : undefined,
+    });
+
+    if (calls.length === 0) {
+      return {
+        content: [{ type: 'text', text: `Error: No recorded calls found for tab ${tabId} in this session` }],
+        isError: true,
+      };
+    }
+
+    const { plan, pattern, warnings } = compilePlanFromCalls(calls, {
+      planId,
+      description: args.description as string | undefined,
+      taskKeywords: Array.isArray(args.keywords) ? (args.keywords as unknown[]).map(String) : undefined,
+    });
+
+    if (!args.dryRun) {
+      getPlanRegistry().registerPlan(plan, pattern);
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          status: args.dryRun ? 'COMPILED' : 'REGISTERED',
+          planId,
+          callsRecorded: calls.length,
+          steps: plan.steps.length,
+          parameters: plan.parameters,
+          pattern,
+          warnings,
+          ...(args.dryRun ? { plan } : {}),
+          message: args.dryRun
+            ? `Compiled ${plan.steps.length}-step plan "${planId}" (not registered)`
+            : `Registered plan "${planId}". Replay with execute_plan { planId: "${planId}", tabId, params }.`,
+        }, null, 2),
+      }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error recording plan "${planId}": ${formatError(error)}` }],
+      isError: true,
+    };
+  }
+};
+
 // ============================================
 // Register all orchestration tools
 // ============================================
@@ -797,6 +950,7 @@ export function registerOrchestrationTools(server: MCPServer): void {
   server.registerTool('worker_update', workerUpdateHandler, workerUpdateDefinition);
   server.registerTool('worker_complete', workerCompleteHandler, workerCompleteDefinition);
   server.registerTool('execute_plan', executePlanHandler, executePlanDefinition);
+  server.registerTool('record_plan', recordPlanHandler, recordPlanDefinition);
 
-  console.error('[Orchestration] Registered 8 orchestration tools (including execute_plan)');
+  console.error('[Orchestration] Registered 9 orchestration tools (including execute_plan, record_plan)');
 }
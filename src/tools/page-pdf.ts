@@ -3,11 +3,11 @@
  */
 
 import { promises as fs } from 'fs';
-import * as os from 'os';
 import * as path from 'path';
 import { MCPServer } from '../mcp-server';
 import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
+import { isSensitiveOutputPath, resolveOutputPath } from '../utils/output-path';
 
 const definition: MCPToolDefinition = {
   name: 'page_pdf',
@@ -161,27 +161,12 @@ const handler: ToolHandler = async (
 
     if (filePath) {
       // Resolve path (support ~ for home directory)
-      let resolvedPath = filePath;
-      if (filePath.startsWith('~')) {
-        resolvedPath = path.join(os.homedir(), filePath.slice(1));
-      } else if (process.platform === 'win32' && filePath.startsWith('%USERPROFILE%')) {
-        const rest = filePath.slice('%USERPROFILE%'.length).replace(/^[/\\]+/, '');
-        resolvedPath = path.join(os.homedir(), rest);
-      } else if (!path.isAbsolute(filePath)) {
-        resolvedPath = path.resolve(filePath);
-      }
+      const resolvedPath = resolveOutputPath(filePath);
 
       // Validate the output path — block writes to sensitive directories
-      const normalizedPath = path.resolve(resolvedPath);
-      const homeDir = os.homedir();
-      const sensitiveRoots = [
-        path.join(homeDir, '.ssh'),
-        path.join(homeDir, '.gnupg'),
-        path.join(homeDir, '.aws'),
-      ];
-      if (sensitiveRoots.some(root => normalizedPath.startsWith(root + path.sep) || normalizedPath === root)) {
+      if (isSensitiveOutputPath(resolvedPath)) {
         return {
-          content: [{ type: 'text', text: `Error: Cannot write PDF to sensitive directory "${path.dirname(normalizedPath)}"` }],
+          content: [{ type: 'text', text: `Error: Cannot write PDF to sensitive directory "${path.dirname(resolvedPath)}"` }],
           isError: true,
         };
       }
@@ -9,11 +9,12 @@
 import { MCPServer } from '../mcp-server';
 import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getChromeLauncher } from '../chrome/launcher';
+import { getSessionManager } from '../session-manager';
 import { formatAge } from '../utils/format-age';
 
 const definition: MCPToolDefinition = {
   name: 'oc_profile_status',
-  description: 'Check browser profile type (real/persistent/temporary) and capabilities. Use to diagnose auth failures.',
+  description: 'Check browser profile type (real/persistent/temporary) and capabilities, and which Chrome instance runs each profile in use. Use to diagnose auth failures.',
   inputSchema: {
     type: 'object',
     properties: {},
@@ -56,6 +57,11 @@ const handler: ToolHandler = async (
       }),
     };
 
+    const profileInstances = getSessionManager().getProfileInstances();
+    if (profileInstances.length > 0) {
+      result.profileInstances = profileInstances;
+    }
+
     const lines: string[] = [];
     const profileDirectory = state.profileDirectory;
     if (state.type === 'real') {
@@ -88,6 +94,21 @@ const handler: ToolHandler = async (
       lines.push('Profile: Unknown (Chrome may not be launched yet)');
     }
 
+    if (profileInstances.length > 0) {
+      lines.push('');
+      lines.push('Profiles in use:');
+      for (const info of profileInstances) {
+        const label = info.profileName && info.profileName !== info.profile
+          ? `${info.profile} ("${info.profileName}")`
+          : info.profile;
+        const where = info.primary ? `primary instance (port ${info.port})` : `port ${info.port}`;
+        const workers = info.workers.length > 0
+          ? info.workers.map((w) => `${w.sessionId}/${w.workerId}`).join(', ')
+          : 'idle';
+        lines.push(`  ${label}: ${where}, workers: ${workers}`);
+      }
+    }
+
     return {
       content: [
         { type: 'text', text: JSON.stringify(result, null, 2) },
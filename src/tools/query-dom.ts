@@ -1,5 +1,5 @@
 /**
- * Query DOM Tool - Unified CSS selector and XPath queries
+ * Query DOM Tool - Unified CSS selector, XPath and locator queries
  *
  * Replaces: selector_query, xpath_query
  */
@@ -8,6 +8,8 @@ import { MCPServer } from '../mcp-server';
 import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
 import { withTimeout } from '../utils/with-timeout';
+import { getRefIdManager } from '../utils/ref-id-manager';
+import { resolveLocator } from '../locator';
 
 // ---------------------------------------------------------------------------
 // Shared types
@@ -41,7 +43,7 @@ interface XPathElementInfo {
 const definition: MCPToolDefinition = {
   name: 'query_dom',
   description:
-    'Query DOM elements via CSS selectors or XPath. Returns tag, attributes, text, and position. CSS results include a ref field (el_0, el_1, ...) for referencing elements in subsequent tool calls.',
+    'Query DOM elements via CSS selectors, XPath or semantic locators. Returns tag, attributes, text, and position. CSS results include a ref field (el_0, el_1, ...) for referencing elements in subsequent tool calls; locator results include refs usable by computer and form_input.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -51,8 +53,8 @@ const definition: MCPToolDefinition = {
       },
       method: {
         type: 'string',
-        enum: ['css', 'xpath'],
-        description: 'Query method: css or xpath',
+        enum: ['css', 'xpath', 'locator'],
+        description: 'Query method: css, xpath or locator',
       },
       selector: {
         type: 'string',
@@ -62,13 +64,17 @@ const definition: MCPToolDefinition = {
         type: 'string',
         description: '(xpath) XPath expression',
       },
+      locator: {
+        type: 'string',
+        description: '(locator) Semantic locator, e.g. role=row >> has-text("Invoice 42") >> role=link',
+      },
       multiple: {
         type: 'boolean',
         description: 'Return all matches. Default: false',
       },
       limit: {
         type: 'number',
-        description: '(xpath, multiple) Max results to return',
+        description: '(xpath/locator, multiple) Max results to return',
       },
     },
     required: ['tabId', 'method'],
@@ -76,10 +82,10 @@ const definition: MCPToolDefinition = {
 };
 
 // ---------------------------------------------------------------------------
-// Diagnostics helper (reuses getPageDiagnostics from page-diagnostics.ts)
+// Diagnostics helper (reuses getPageDiagnostics from page-diagnostics.ts; shared with extract)
 // ---------------------------------------------------------------------------
 
-interface QueryDomDiagnostics {
+export interface QueryDomDiagnostics {
   url: string;
   readyState: string;
   totalElements: number;
@@ -87,7 +93,7 @@ interface QueryDomDiagnostics {
   closestMatch: string | null;
 }
 
-async function gatherDiagnostics(
+export async function gatherDiagnostics(
   page: import('puppeteer-core').Page,
   selector: string
 ): Promise<QueryDomDiagnostics | null> {
@@ -135,7 +141,7 @@ async function gatherDiagnostics(
   }
 }
 
-function formatDiagnosticsMessage(selector: string, diag: QueryDomDiagnostics | null, plural: boolean): string {
+export function formatDiagnosticsMessage(selector: string, diag: QueryDomDiagnostics | null, plural: boolean): string {
   const base = plural
     ? `No elements found matching "${selector}"`
     : `No element found matching "${selector}"`;
@@ -542,6 +548,69 @@ async function handleXPath(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Locator handler
+// ---------------------------------------------------------------------------
+
+async function handleLocator(
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> {
+  const tabId = args.tabId as string;
+  const locator = args.locator as string;
+  const multiple = (args.multiple as boolean) ?? false;
+  const limit = multiple ? Math.min((args.limit as number) || 50, 50) : 1;
+
+  if (!locator) {
+    return {
+      content: [{ type: 'text', text: 'Error: locator is required for locator method' }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+  const page = await sessionManager.getPage(sessionId, tabId, undefined, 'query_dom');
+  if (!page) {
+    return {
+      content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+      isError: true,
+    };
+  }
+
+  const { elements, total } = await resolveLocator(page, sessionManager.getCDPClient(), locator, limit);
+
+  // Real refs (ref_N), so matches can be acted on with computer / form_input
+  const refIdManager = getRefIdManager();
+  const infos = elements.map((el) => ({
+    ref: refIdManager.generateRef(sessionId, tabId, el.backendDOMNodeId, el.role, el.name, el.tagName, el.textContent),
+    role: el.role,
+    name: el.name,
+    tagName: el.tagName,
+    text: el.textContent,
+    boundingBox: el.rect,
+  }));
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          action: 'query_dom',
+          method: 'locator',
+          locator,
+          multiple,
+          elements: infos,
+          count: infos.length,
+          totalCount: total,
+          message: infos.length === 0
+            ? `No visible element matches locator ${locator}`
+            : `Found ${total} element(s) matching locator${total > infos.length ? ` (showing ${infos.length})` : ''}`,
+        }),
+      },
+    ],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Router
 // ---------------------------------------------------------------------------
@@ -566,12 +635,14 @@ const handler: ToolHandler = async (
         return await handleCSS(sessionId, args);
       case 'xpath':
         return await handleXPath(sessionId, args);
+      case 'locator':
+        return await handleLocator(sessionId, args);
       default:
         return {
           content: [
             {
               type: 'text',
-              text: `Error: Unknown method "${method}". Use "css" or "xpath".`,
+              text: `Error: Unknown method "${method}". Use "css", "xpath" or "locator".`,
             },
           ],
           isError: true,
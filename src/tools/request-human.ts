@@ -0,0 +1,129 @@
+/**
+ * Request Human Tool - Hand a tab to a person (CAPTCHA, bot check) and wait
+ *
+ * Opens a human request for the tab and returns only once the person clicks "Done"
+ * in the live view, or the wait times out. Tool calls from every session are held
+ * at the operation gate meanwhile. Starts the web dashboard on a free local port
+ * when --dashboard-http is not set.
+ */
+
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { getHumanRequests } from '../dashboard/human-requests';
+import { DEFAULT_TOOL_EXECUTION_TIMEOUT_MS } from '../config/defaults';
+
+/** Longest single wait. Stays under the global tool timeout so the call returns cleanly. */
+const MAX_WAIT_MS = DEFAULT_TOOL_EXECUTION_TIMEOUT_MS - 10000;
+const MIN_WAIT_MS = 1000;
+
+const definition: MCPToolDefinition = {
+  name: 'request_human',
+  description: 'Ask a person to take over a tab (CAPTCHA, bot check, unusual login step) via a local live view, and wait until they click Done. Other tool calls are paused meanwhile.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab the person should take over',
+      },
+      reason: {
+        type: 'string',
+        description: 'What the person needs to do, shown in the dashboard (e.g. "Solve the CAPTCHA")',
+      },
+      timeout: {
+        type: 'number',
+        description: `Max wait in ms. Default and max: ${MAX_WAIT_MS}`,
+      },
+      requestId: {
+        type: 'string',
+        description: 'Keep waiting on a request from an earlier call that timed out',
+      },
+    },
+    required: ['tabId'],
+  },
+};
+
+function createHandler(server: MCPServer): ToolHandler {
+  return async (
+    sessionId: string,
+    args: Record<string, unknown>,
+    context?
+  ): Promise<MCPResult> => {
+    const tabId = args.tabId as string;
+    const reason = (args.reason as string) || 'Help needed on this page';
+    const timeout = Math.min(Math.max((args.timeout as number) ?? MAX_WAIT_MS, MIN_WAIT_MS), MAX_WAIT_MS);
+    const requestId = args.requestId as string | undefined;
+
+    if (!tabId) {
+      return {
+        content: [{ type: 'text', text: 'Error: tabId is required' }],
+        isError: true,
+      };
+    }
+
+    const sessionManager = getSessionManager();
+    const registry = getHumanRequests();
+
+    try {
+      const page = await sessionManager.getPage(sessionId, tabId, undefined, 'request_human');
+      if (!page) {
+        return {
+          content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+          isError: true,
+        };
+      }
+
+      const request = requestId ? registry.get(requestId) : registry.open(sessionId, tabId, reason);
+      if (!request || request.tabId !== tabId) {
+        return {
+          content: [{ type: 'text', text: `Error: No human request ${requestId} for tab ${tabId}` }],
+          isError: true,
+        };
+      }
+
+      const port = await server.startWebDashboard({ port: 0 });
+      const viewUrl = `http://127.0.0.1:${port}/tabs/${encodeURIComponent(tabId)}?request=${encodeURIComponent(request.id)}`;
+      console.error(`[request_human] ${request.reason}: take over at ${viewUrl}`);
+      context?.reportProgress(0, undefined, `Waiting for a person at ${viewUrl}`);
+
+      const outcome = await registry.wait(request.id, timeout, context?.signal);
+      if (outcome === 'timeout') {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              action: 'request_human',
+              status: 'waiting',
+              requestId: request.id,
+              viewUrl,
+              message: `No one finished within ${timeout}ms. Share viewUrl with the user, then call request_human again with this requestId to keep waiting.`,
+            }),
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            action: 'request_human',
+            status: 'done',
+            requestId: request.id,
+            url: page.isClosed() ? undefined : page.url(),
+            waitedMs: (request.completedAt ?? Date.now()) - request.createdAt,
+          }),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `request_human error: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  };
+}
+
+export function registerRequestHumanTool(server: MCPServer): void {
+  server.registerTool('request_human', createHandler(server), definition);
+}
@@ -1,11 +1,16 @@
 /**
  * Request Intercept Tool - Intercept and modify network requests
+ *
+ * Replay mode serves recorded HAR responses through request.respond()
+ * (Fetch.fulfillRequest), so agent runs can be repeated without network access.
  */
 
 import { HTTPRequest, Page } from 'puppeteer-core';
 import { MCPServer } from '../mcp-server';
 import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
+import { HarMatchField, HarReplayer } from '../network/har-replay';
+import { resolveOutputPath } from '../utils/output-path';
 
 // Intercept rule definition
 interface InterceptRule {
@@ -31,6 +36,16 @@ interface RequestLogEntry {
   ruleId?: string;
 }
 
+// HAR replay state (replay action)
+interface ReplayState {
+  source: string;
+  replayer: HarReplayer;
+  strict: boolean;
+  served: number;
+  unmatchedCount: number;
+  unmatched: string[];
+}
+
 // Intercept state for each tab
 interface InterceptState {
   enabled: boolean;
@@ -38,8 +53,12 @@ interface InterceptState {
   listener: ((request: HTTPRequest) => void) | null;
   loggedRequests: RequestLogEntry[];
   maxLogs: number;
+  replay: ReplayState | null;
 }
 
+// Unmatched replay URLs kept for reporting
+const MAX_UNMATCHED_URLS = 50;
+
 // Module-level state storage
 const interceptStates: Map<string, InterceptState> = new Map();
 
@@ -69,9 +88,22 @@ const definition: MCPToolDefinition = {
       },
       action: {
         type: 'string',
-        enum: ['enable', 'disable', 'addRule', 'removeRule', 'listRules', 'getLogs', 'clearLogs'],
+        enum: ['enable', 'disable', 'addRule', 'removeRule', 'listRules', 'getLogs', 'clearLogs', 'replay', 'stopReplay'],
         description: 'Action to perform',
       },
+      har: {
+        type: 'string',
+        description: 'HAR file or directory of .har files (replay)',
+      },
+      matchOn: {
+        type: 'array',
+        items: { type: 'string', enum: ['url', 'method', 'body'] },
+        description: 'Request fields to match recorded entries on (replay). Default: ["url", "method"]',
+      },
+      strict: {
+        type: 'boolean',
+        description: 'Fail requests with no recorded match instead of hitting the network (replay). Default: false',
+      },
       rule: {
         type: 'object',
         description: 'Rule for addRule action',
@@ -114,6 +146,133 @@ const definition: MCPToolDefinition = {
   },
 };
 
+/**
+ * Turn on request interception for a page and attach the rule/replay listener.
+ */
+async function enableInterception(page: Page, state: InterceptState): Promise<void> {
+  await page.setRequestInterception(true);
+
+  // Create request listener
+  state.listener = async (request: HTTPRequest) => {
+    const url = request.url();
+    const resourceType = request.resourceType();
+
+    let matched = false;
+    let matchedRule: InterceptRule | null = null;
+
+    // Check rules in order
+    for (const rule of state.rules) {
+      if (matchesPattern(url, rule.pattern)) {
+        // Check resource type filter
+        if (rule.resourceTypes && rule.resourceTypes.length > 0) {
+          if (!rule.resourceTypes.includes(resourceType)) {
+            continue;
+          }
+        }
+
+        matched = true;
+        matchedRule = rule;
+        break;
+      }
+    }
+
+    // Log request if any log rules exist or matched
+    const shouldLog = matched || state.rules.some(r => r.action === 'log');
+    if (shouldLog) {
+      state.loggedRequests.push({
+        url: url.slice(0, 200),
+        resourceType,
+        method: request.method(),
+        headers: request.headers(),
+        timestamp: Date.now(),
+        matched,
+        ruleId: matchedRule?.id,
+      });
+
+      // Trim logs
+      if (state.loggedRequests.length > state.maxLogs) {
+        state.loggedRequests = state.loggedRequests.slice(-state.maxLogs);
+      }
+    }
+
+    // Apply rule action
+    if (matchedRule) {
+      try {
+        if (matchedRule.action === 'block') {
+          await request.abort('blockedbyclient');
+          return;
+        }
+
+        if (matchedRule.action === 'modify' && matchedRule.modifyOptions) {
+          await request.respond({
+            status: matchedRule.modifyOptions.status || 200,
+            headers: matchedRule.modifyOptions.headers || {},
+            body: matchedRule.modifyOptions.body || '',
+          });
+          return;
+        }
+      } catch (e) {
+        // Request might already be handled
+      }
+    }
+
+    // Serve recorded responses in replay mode
+    const replay = state.replay;
+    if (replay) {
+      const recorded = replay.replayer.match({
+        url,
+        method: request.method(),
+        headers: request.headers(),
+        postData: request.postData(),
+      });
+      if (recorded) {
+        replay.served++;
+        try {
+          await request.respond(recorded);
+        } catch {
+          // Request might already be handled
+        }
+        return;
+      }
+
+      replay.unmatchedCount++;
+      if (replay.unmatched.length < MAX_UNMATCHED_URLS) {
+        replay.unmatched.push(`${request.method()} ${url.slice(0, 200)}`);
+      }
+      if (replay.strict) {
+        try {
+          await request.abort('failed');
+        } catch {
+          // Request might already be handled
+        }
+        return;
+      }
+    }
+
+    // Continue with request
+    try {
+      await request.continue();
+    } catch {
+      // Request might already be handled
+    }
+  };
+
+  page.on('request', state.listener);
+  state.enabled = true;
+}
+
+function replaySummary(replay: ReplayState) {
+  return {
+    source: replay.source,
+    matchOn: replay.replayer.fields,
+    strict: replay.strict,
+    entries: replay.replayer.entryCount,
+    served: replay.served,
+    unmatchedCount: replay.unmatchedCount,
+    unmatched: replay.unmatched,
+  };
+}
+
 // Cleanup listener when session ends
 const setupCleanupListener = (() => {
   let initialized = false;
@@ -151,6 +310,9 @@ const handler: ToolHandler = async (
   } | undefined;
   const ruleId = args.ruleId as string | undefined;
   const limit = args.limit as number | undefined;
+  const harSource = args.har as string | undefined;
+  const matchOn = args.matchOn as HarMatchField[] | undefined;
+  const strict = args.strict === true;
 
   const sessionManager = getSessionManager();
 
@@ -189,6 +351,7 @@ const handler: ToolHandler = async (
         listener: null,
         loggedRequests: [],
         maxLogs: 500,
+        replay: null,
       };
       interceptStates.set(tabId, state);
     }
@@ -210,82 +373,7 @@ const handler: ToolHandler = async (
           };
         }
 
-        await page.setRequestInterception(true);
-
-        // Create request listener
-        state.listener = async (request: HTTPRequest) => {
-          const url = request.url();
-          const resourceType = request.resourceType();
-
-          let matched = false;
-          let matchedRule: InterceptRule | null = null;
-
-          // Check rules in order
-          for (const rule of state!.rules) {
-            if (matchesPattern(url, rule.pattern)) {
-              // Check resource type filter
-              if (rule.resourceTypes && rule.resourceTypes.length > 0) {
-                if (!rule.resourceTypes.includes(resourceType)) {
-                  continue;
-                }
-              }
-
-              matched = true;
-              matchedRule = rule;
-              break;
-            }
-          }
-
-          // Log request if any log rules exist or matched
-          const shouldLog = matched || state!.rules.some(r => r.action === 'log');
-          if (shouldLog) {
-            state!.loggedRequests.push({
-              url: url.slice(0, 200),
-              resourceType,
-              method: request.method(),
-              headers: request.headers(),
-              timestamp: Date.now(),
-              matched,
-              ruleId: matchedRule?.id,
-            });
-
-            // Trim logs
-            if (state!.loggedRequests.length > state!.maxLogs) {
-              state!.loggedRequests = state!.loggedRequests.slice(-state!.maxLogs);
-            }
-          }
-
-          // Apply rule action
-          if (matchedRule) {
-            try {
-              if (matchedRule.action === 'block') {
-                await request.abort('blockedbyclient');
-                return;
-              }
-
-              if (matchedRule.action === 'modify' && matchedRule.modifyOptions) {
-                await request.respond({
-                  status: matchedRule.modifyOptions.status || 200,
-                  headers: matchedRule.modifyOptions.headers || {},
-                  body: matchedRule.modifyOptions.body || '',
-                });
-                return;
-              }
-            } catch (e) {
-              // Request might already be handled
-            }
-          }
-
-          // Continue with request
-          try {
-            await request.continue();
-          } catch {
-            // Request might already be handled
-          }
-        };
-
-        page.on('request', state.listener);
-        state.enabled = true;
+        await enableInterception(page, state);
 
         return {
           content: [
@@ -324,6 +412,7 @@ const handler: ToolHandler = async (
 
         await page.setRequestInterception(false);
         state.enabled = false;
+        state.replay = null;
 
         return {
           content: [
@@ -428,6 +517,7 @@ const handler: ToolHandler = async (
                 enabled: state.enabled,
                 rules: state.rules,
                 count: state.rules.length,
+                ...(state.replay && { replay: replaySummary(state.replay) }),
               }),
             },
           ],
@@ -483,6 +573,85 @@ const handler: ToolHandler = async (
         };
       }
 
+      case 'replay': {
+        if (!harSource) {
+          return {
+            content: [{ type: 'text', text: 'Error: har (file or directory path) is required for replay' }],
+            isError: true,
+          };
+        }
+
+        const invalidField = matchOn?.find(f => !['url', 'method', 'body'].includes(f));
+        if (invalidField) {
+          return {
+            content: [{ type: 'text', text: `Error: Unknown matchOn field "${invalidField}". Use: url, method, body` }],
+            isError: true,
+          };
+        }
+
+        const source = resolveOutputPath(harSource);
+        const replayer = await HarReplayer.fromPath(source, matchOn);
+        state.replay = {
+          source,
+          replayer,
+          strict,
+          served: 0,
+          unmatchedCount: 0,
+          unmatched: [],
+        };
+
+        if (!state.enabled) {
+          await enableInterception(page, state);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'replay',
+                status: 'replaying',
+                ...replaySummary(state.replay),
+                message: `Replaying ${replayer.entryCount} recorded responses from ${source}`,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'stopReplay': {
+        if (!state.replay) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  action: 'stopReplay',
+                  status: 'not_replaying',
+                }),
+              },
+            ],
+          };
+        }
+
+        const summary = replaySummary(state.replay);
+        state.replay = null;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'stopReplay',
+                status: 'stopped',
+                ...summary,
+                message: `Replay stopped. Served ${summary.served} responses, ${summary.unmatchedCount} unmatched`,
+              }),
+            },
+          ],
+        };
+      }
+
       default:
         return {
           content: [
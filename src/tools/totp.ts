@@ -0,0 +1,186 @@
+/**
+ * TOTP Tool - Enter one-time codes from stored seeds into 2FA prompts
+ *
+ * Codes are generated server-side (RFC 6238) from seeds added with `oc totp add`
+ * and typed straight into the page. Neither the seed nor the code is returned.
+ */
+
+import { MCPServer } from '../mcp-server';
+import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { getRefIdManager } from '../utils/ref-id-manager';
+import { FILL_OTP_FUNCTION } from '../utils/otp-detector';
+import { getTotpStore } from '../security/totp';
+
+/** Wait for the next code instead of typing one that expires before it can be submitted */
+const MIN_CODE_LIFETIME_S = 3;
+
+const definition: MCPToolDefinition = {
+  name: 'totp',
+  description: 'Fill a one-time 2FA code generated from a stored TOTP seed. The code is typed into the page and never returned.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['fill', 'list'],
+        description: 'fill: type the current code into the OTP field. list: show configured seed names',
+      },
+      name: {
+        type: 'string',
+        description: 'Seed name (from oc totp add). Required for fill',
+      },
+      tabId: {
+        type: 'string',
+        description: 'Tab ID with the 2FA prompt. Required for fill',
+      },
+      ref: {
+        type: 'string',
+        description: 'OTP input ref from read_page/find. Default: detect the one-time code field (autocomplete="one-time-code", digit boxes, code-like inputs)',
+      },
+    },
+    required: ['action'],
+  },
+};
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const action = args.action as string;
+  const name = args.name as string | undefined;
+  const tabId = args.tabId as string | undefined;
+  const ref = args.ref as string | undefined;
+
+  const store = getTotpStore();
+
+  if (action === 'list') {
+    try {
+      const seeds = store.list();
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            action: 'totp_list',
+            seeds: seeds.map(s => s.name),
+            ...(seeds.length === 0 && { message: 'No TOTP seeds configured. Ask the user to run: oc totp add <name>' }),
+          }),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `TOTP error: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  }
+
+  if (action !== 'fill') {
+    return {
+      content: [{ type: 'text', text: `Error: Unknown action "${action}". Use: fill or list` }],
+      isError: true,
+    };
+  }
+
+  if (!name) {
+    return {
+      content: [{ type: 'text', text: 'Error: name is required for fill' }],
+      isError: true,
+    };
+  }
+
+  if (!tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: tabId is required for fill' }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+
+  try {
+    const page = await sessionManager.getPage(sessionId, tabId, undefined, 'totp');
+    if (!page) {
+      return {
+        content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+        isError: true,
+      };
+    }
+
+    const cdpClient = sessionManager.getCDPClient();
+    let objectId: string | undefined;
+    if (ref) {
+      const backendNodeId = getRefIdManager().resolveToBackendNodeId(sessionId, tabId, ref);
+      if (backendNodeId === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Reference '${ref}' not found. Use read_page or find first, or omit ref to detect the code field.`,
+          }],
+          isError: true,
+        };
+      }
+      const { object } = await cdpClient.send<{ object: { objectId: string } }>(page, 'DOM.resolveNode', { backendNodeId });
+      objectId = object?.objectId;
+      if (!objectId) {
+        return {
+          content: [{ type: 'text', text: `Error: Could not resolve element ${ref}. The element may no longer exist.` }],
+          isError: true,
+        };
+      }
+    }
+
+    let totp = store.generate(name);
+    if (totp.expiresIn < MIN_CODE_LIFETIME_S) {
+      await new Promise(resolve => setTimeout(resolve, totp.expiresIn * 1000));
+      totp = store.generate(name);
+    }
+
+    type FillResult = { success: boolean; error?: string; kind?: string; count?: number; description?: string };
+    const { result } = objectId
+      ? await cdpClient.send<{ result: { value: FillResult } }>(page, 'Runtime.callFunctionOn', {
+          objectId,
+          functionDeclaration: FILL_OTP_FUNCTION,
+          arguments: [{ value: totp.code }],
+          returnByValue: true,
+        })
+      : await cdpClient.send<{ result: { value: FillResult } }>(page, 'Runtime.evaluate', {
+          expression: `(${FILL_OTP_FUNCTION}).call(null, ${JSON.stringify(totp.code)})`,
+          returnByValue: true,
+        });
+
+    const response = result.value;
+    if (!response?.success) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${response?.error || 'Failed to fill the code'}. Pass ref of the code input from read_page or find.`,
+        }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          action: 'totp_fill',
+          name,
+          field: response.description,
+          ...(response.kind === 'split' && { digitInputs: response.count }),
+          expiresInSeconds: totp.expiresIn,
+          message: `Entered the current code for "${name}". Submit the form if the page does not submit automatically.`,
+        }),
+      }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `TOTP error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+};
+
+export function registerTotpTool(server: MCPServer): void {
+  server.registerTool('totp', handler, definition);
+}
@@ -0,0 +1,334 @@
+/**
+ * Visual Snapshot Tool - Visual regression testing against stored baselines
+ *
+ * Baselines are PNGs stored per snapshot name, URL and viewport under
+ * .openchrome/snapshots/<name>/. The first capture creates the baseline;
+ * later captures are pixel-diffed against it and return a diff image.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import writeFileAtomic from 'write-file-atomic';
+import { MCPServer } from '../mcp-server';
+import { MCPContent, MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
+import { getSessionManager } from '../session-manager';
+import { getScreenshotScheduler } from '../cdp/screenshot-scheduler';
+import { decodePng, encodePng } from '../utils/png';
+import { DiffRegion, diffImages } from '../utils/pixel-diff';
+
+const SNAPSHOT_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+const definition: MCPToolDefinition = {
+  name: 'visual_snapshot',
+  description: 'Visual regression: compare the page against a named baseline (created on first run). Returns mismatch % and a diff image.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tabId: {
+        type: 'string',
+        description: 'Tab ID to capture',
+      },
+      name: {
+        type: 'string',
+        description: 'Snapshot name, e.g. "checkout-page". Baselines are keyed by name + URL + viewport',
+      },
+      action: {
+        type: 'string',
+        enum: ['compare', 'update', 'list'],
+        description: 'compare (default): diff against baseline, creating it if missing. update: overwrite baseline. list: show stored baselines',
+      },
+      threshold: {
+        type: 'number',
+        description: 'Per-pixel color tolerance, 0-1. Default: 0.1',
+      },
+      maxMismatchPercent: {
+        type: 'number',
+        description: 'Mismatch % allowed before the comparison fails. Default: 0',
+      },
+      ignoreRegions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            x: { type: 'number' },
+            y: { type: 'number' },
+            width: { type: 'number' },
+            height: { type: 'number' },
+          },
+          required: ['x', 'y', 'width', 'height'],
+        },
+        description: 'Regions to ignore, in CSS pixels',
+      },
+      ignoreSelectors: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'CSS selectors of elements to ignore (e.g. timestamps, ads)',
+      },
+      includeAntialiasing: {
+        type: 'boolean',
+        description: 'Count anti-aliased edge pixels as differences. Default: false',
+      },
+      fullPage: {
+        type: 'boolean',
+        description: 'Capture the full scrollable page. Default: false',
+      },
+    },
+    required: ['tabId', 'name'],
+  },
+};
+
+interface PageGeometry {
+  url: string;
+  width: number;
+  height: number;
+  dpr: number;
+  scrollWidth: number;
+  scrollHeight: number;
+  /** Bounding boxes of ignoreSelectors matches, in CSS pixels */
+  rects: DiffRegion[];
+}
+
+function snapshotRoot(): string {
+  return path.join(process.cwd(), '.openchrome', 'snapshots');
+}
+
+/**
+ * Baseline file stem for a URL + viewport: readable host/path slug plus a short hash
+ * of the full URL (without fragment) so query strings don't collide.
+ */
+export function baselineKey(url: string, width: number, height: number, dpr: number): string {
+  let normalized = url;
+  let readable = url;
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    normalized = parsed.toString();
+    readable = parsed.host + parsed.pathname;
+  } catch {
+    // Non-URL (e.g. about:blank) — use as-is
+  }
+  const slug = readable.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'page';
+  const hash = createHash('sha256').update(normalized).digest('hex').slice(0, 8);
+  const scale = dpr !== 1 ? `@${dpr}x` : '';
+  return `${slug}-${hash}_${width}x${height}${scale}`;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const handler: ToolHandler = async (
+  sessionId: string,
+  args: Record<string, unknown>
+): Promise<MCPResult> => {
+  const tabId = args.tabId as string;
+  const name = args.name as string;
+  const action = (args.action as string | undefined) ?? 'compare';
+  const threshold = args.threshold as number | undefined;
+  const maxMismatchPercent = (args.maxMismatchPercent as number | undefined) ?? 0;
+  const ignoreRegions = (args.ignoreRegions as DiffRegion[] | undefined) ?? [];
+  const ignoreSelectors = (args.ignoreSelectors as string[] | undefined) ?? [];
+  const includeAntialiasing = (args.includeAntialiasing as boolean | undefined) ?? false;
+  const fullPage = (args.fullPage as boolean | undefined) ?? false;
+
+  if (!name || !SNAPSHOT_NAME_PATTERN.test(name)) {
+    return {
+      content: [{ type: 'text', text: 'Error: name is required and may only contain letters, digits, ".", "_" and "-"' }],
+      isError: true,
+    };
+  }
+  if (!['compare', 'update', 'list'].includes(action)) {
+    return {
+      content: [{ type: 'text', text: `Error: Unknown action "${action}". Use compare, update or list` }],
+      isError: true,
+    };
+  }
+  if (threshold !== undefined && (threshold < 0 || threshold > 1)) {
+    return {
+      content: [{ type: 'text', text: 'Error: threshold must be between 0 and 1' }],
+      isError: true,
+    };
+  }
+
+  const snapshotDir = path.join(snapshotRoot(), name);
+
+  if (action === 'list') {
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(snapshotDir)).filter(f => f.endsWith('.png') && !/\.(actual|diff)\.png$/.test(f));
+    } catch {
+      // No baselines yet
+    }
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ name, directory: snapshotDir, baselines: files.sort() }, null, 2),
+      }],
+    };
+  }
+
+  if (!tabId) {
+    return {
+      content: [{ type: 'text', text: 'Error: tabId is required' }],
+      isError: true,
+    };
+  }
+
+  const sessionManager = getSessionManager();
+
+  try {
+    const page = await sessionManager.getPage(sessionId, tabId, undefined, 'visual_snapshot');
+    if (!page) {
+      return {
+        content: [{ type: 'text', text: `Error: Tab ${tabId} not found` }],
+        isError: true,
+      };
+    }
+
+    const geometry = await page.evaluate((selectors: string[], full: boolean) => {
+      const rects: Array<{ x: number; y: number; width: number; height: number }> = [];
+      for (const selector of selectors) {
+        let elements: Element[] = [];
+        try {
+          elements = Array.from(document.querySelectorAll(selector));
+        } catch {
+          continue;
+        }
+        for (const el of elements) {
+          const r = el.getBoundingClientRect();
+          if (r.width === 0 || r.height === 0) continue;
+          rects.push({
+            x: r.left + (full ? window.scrollX : 0),
+            y: r.top + (full ? window.scrollY : 0),
+            width: r.width,
+            height: r.height,
+          });
+        }
+      }
+      return {
+        url: location.href,
+        width: window.innerWidth,
+        height: window.innerHeight,
+        dpr: window.devicePixelRatio || 1,
+        scrollWidth: document.documentElement.scrollWidth,
+        scrollHeight: document.documentElement.scrollHeight,
+        rects,
+      };
+    }, ignoreSelectors, fullPage) as PageGeometry;
+
+    const capture = await getScreenshotScheduler().capture(page, sessionManager.getCDPClient(), {
+      format: 'png',
+      optimizeForSpeed: false,
+      fullPage,
+      ...(fullPage && {
+        clip: { x: 0, y: 0, width: geometry.scrollWidth, height: geometry.scrollHeight, scale: 1 },
+      }),
+    });
+    const actualPng = Buffer.from(capture.data, 'base64');
+
+    const key = baselineKey(geometry.url, geometry.width, geometry.height, geometry.dpr) + (fullPage ? '_full' : '');
+    const baselinePath = path.join(snapshotDir, `${key}.png`);
+    const actualPath = path.join(snapshotDir, `${key}.actual.png`);
+    const diffPath = path.join(snapshotDir, `${key}.diff.png`);
+
+    const baseResult = { name, url: geometry.url, viewport: `${geometry.width}x${geometry.height}`, baseline: baselinePath };
+
+    if (action === 'update' || !(await fileExists(baselinePath))) {
+      await fs.mkdir(snapshotDir, { recursive: true });
+      await writeFileAtomic(baselinePath, actualPng);
+      await fs.rm(actualPath, { force: true });
+      await fs.rm(diffPath, { force: true });
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...baseResult,
+            status: action === 'update' ? 'baseline_updated' : 'baseline_created',
+            passed: true,
+          }, null, 2),
+        }],
+      };
+    }
+
+    const expected = decodePng(await fs.readFile(baselinePath));
+    const actual = decodePng(actualPng);
+
+    if (expected.width !== actual.width || expected.height !== actual.height) {
+      await writeFileAtomic(actualPath, actualPng);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...baseResult,
+            status: 'size_mismatch',
+            passed: false,
+            baselineSize: `${expected.width}x${expected.height}`,
+            actualSize: `${actual.width}x${actual.height}`,
+            actual: actualPath,
+            message: 'Capture size differs from the baseline. Use action "update" if the change is intended.',
+          }, null, 2),
+        }],
+      };
+    }
+
+    // Ignore regions arrive in CSS pixels; screenshots, full-page ones included, are in device pixels
+    const scale = geometry.dpr;
+    const regions = [...ignoreRegions, ...geometry.rects].map(r => ({
+      x: r.x * scale,
+      y: r.y * scale,
+      width: r.width * scale,
+      height: r.height * scale,
+    }));
+
+    const result = diffImages(expected, actual, { threshold, includeAntialiasing, ignoreRegions: regions });
+    const mismatchPercent = Math.round(result.mismatchPercent * 1000) / 1000;
+    const passed = result.mismatchPercent <= maxMismatchPercent;
+
+    const content: MCPContent[] = [];
+    if (passed) {
+      await fs.rm(actualPath, { force: true });
+      await fs.rm(diffPath, { force: true });
+    } else {
+      const diffPng = encodePng(result.diff);
+      await writeFileAtomic(actualPath, actualPng);
+      await writeFileAtomic(diffPath, diffPng);
+      content.push({ type: 'image', data: diffPng.toString('base64'), mimeType: 'image/png' });
+    }
+
+    content.unshift({
+      type: 'text',
+      text: JSON.stringify({
+        ...baseResult,
+        status: passed ? 'match' : 'mismatch',
+        passed,
+        mismatchPercent,
+        maxMismatchPercent,
+        diffPixels: result.diffPixels,
+        antialiasedPixels: result.antialiasedPixels,
+        ignoredPixels: result.ignoredPixels,
+        comparedPixels: result.comparedPixels,
+        ...(!passed && { actual: actualPath, diff: diffPath }),
+      }, null, 2),
+    });
+
+    return { content };
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Visual snapshot error: ${error instanceof Error ? error.message : String(error)}`,
+      }],
+      isError: true,
+    };
+  }
+};
+
+export function registerVisualSnapshotTool(server: MCPServer): void {
+  server.registerTool('visual_snapshot', handler, definition);
+}
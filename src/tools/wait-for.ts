@@ -6,10 +6,11 @@ import { MCPServer } from '../mcp-server';
 import { MCPToolDefinition, MCPResult, ToolHandler } from '../types/mcp';
 import { getSessionManager } from '../session-manager';
 import { safeTitle } from '../utils/safe-title';
+import { parseLocator, locatorConditionExpression } from '../locator';
 
 const definition: MCPToolDefinition = {
   name: 'wait_for',
-  description: 'Wait for a condition (selector, function, navigation, timeout) before proceeding.',
+  description: 'Wait for a condition (selector, locator, function, navigation, timeout) before proceeding.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -19,12 +20,12 @@ const definition: MCPToolDefinition = {
       },
       type: {
         type: 'string',
-        enum: ['selector', 'selector_hidden', 'function', 'navigation', 'url_match', 'timeout'],
+        enum: ['selector', 'selector_hidden', 'locator', 'locator_hidden', 'function', 'navigation', 'url_match', 'timeout'],
         description: 'Condition type to wait for',
       },
       value: {
         type: 'string',
-        description: 'CSS selector, JS function, URL pattern, or ms as string',
+        description: 'CSS selector, locator (e.g. role=dialog[name="Saved"]), JS function, URL pattern, or ms as string',
       },
       timeout: {
         type: 'number',
@@ -140,6 +141,39 @@ const handler: ToolHandler = async (
         };
       }
 
+      case 'locator':
+      case 'locator_hidden': {
+        if (!value) {
+          return {
+            content: [{ type: 'text', text: `Error: value (locator) is required for ${type} type` }],
+            isError: true,
+          };
+        }
+
+        // Parse up front so syntax errors are reported instead of waiting out the timeout
+        const present = type === 'locator';
+        await page.waitForFunction(locatorConditionExpression(parseLocator(value), present), { timeout });
+
+        const elapsed = Date.now() - startTime;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                action: 'wait_for',
+                type,
+                locator: value,
+                elapsed,
+                message: present
+                  ? `Locator "${value}" matched after ${elapsed}ms`
+                  : `Locator "${value}" no longer matches after ${elapsed}ms`,
+              }),
+            },
+          ],
+        };
+      }
+
       case 'function': {
         if (!value) {
           return {
@@ -274,7 +308,7 @@ const handler: ToolHandler = async (
           content: [
             {
               type: 'text',
-              text: `Error: Unknown type "${type}". Use: selector, selector_hidden, function, navigation, url_match, or timeout`,
+              text: `Error: Unknown type "${type}". Use: selector, selector_hidden, locator, locator_hidden, function, navigation, url_match, or timeout`,
             },
           ],
           isError: true,
@@ -11,7 +11,7 @@ import { getSessionManager } from '../session-manager';
 const definition: MCPToolDefinition = {
   name: 'worker',
   description:
-    'Manage workers. Actions: "create" (isolated context), "list" (show all), "delete" (remove and close tabs).',
+    'Manage workers. Actions: "create" (isolated context, or a Chrome profile via profile), "list" (show all), "delete" (remove and close tabs).',
   inputSchema: {
     type: 'object',
     properties: {
@@ -28,6 +28,10 @@ const definition: MCPToolDefinition = {
         type: 'string',
         description: '(create) Custom ID. Auto-generated if omitted',
       },
+      profile: {
+        type: 'string',
+        description: '(create) Chrome profile to run in, by directory or display name (see list_profiles). Launches or reuses a Chrome instance for that profile',
+      },
       workerId: {
         type: 'string',
         description: '(delete) Worker ID to delete',
@@ -48,8 +52,12 @@ async function handleCreate(
   const sessionManager = getSessionManager();
   const name = args.name as string | undefined;
   const id = args.id as string | undefined;
+  const profile = args.profile as string | undefined;
 
-  const worker = await sessionManager.createWorker(sessionId, { name, id });
+  const worker = await sessionManager.createWorker(sessionId, { name, id, profile });
+  const context = profile
+    ? `in Chrome profile "${profile}" (its cookies and logins)`
+    : 'with isolated browser context';
 
   return {
     content: [
@@ -59,7 +67,8 @@ async function handleCreate(
           {
             workerId: worker.id,
             name: worker.name,
-            message: `Worker "${worker.name}" created with isolated browser context. Use workerId "${worker.id}" with other tools to operate in this worker.`,
+            ...(worker.profile && { profile: worker.profile }),
+            message: `Worker "${worker.name}" created ${context}. Use workerId "${worker.id}" with other tools to operate in this worker.`,
             createdAt: worker.createdAt,
           },
           null,
@@ -0,0 +1,87 @@
+/**
+ * Trace Bundles - Locate, summarize and unpack the zips written by TraceRecorder
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readZip } from '../utils/zip';
+import type { TraceManifest } from './trace-recorder';
+
+export interface TraceBundleInfo {
+  path: string;
+  sessionId: string;
+  startedAt: number;
+  exportedAt: number;
+  steps: number;
+  failed: number;
+}
+
+/** Default bundle directory, next to the timeline and hint logs */
+export function getDefaultTraceDir(): string {
+  return path.join(process.cwd(), '.openchrome', 'traces');
+}
+
+/**
+ * Read a bundle's manifest
+ */
+export function readTraceManifest(bundlePath: string): TraceManifest {
+  const entry = readZip(fs.readFileSync(bundlePath)).find((e) => e.name === 'trace.json');
+  if (!entry) {
+    throw new Error(`Not a trace bundle (no trace.json): ${bundlePath}`);
+  }
+  return JSON.parse(entry.data.toString('utf8')) as TraceManifest;
+}
+
+/**
+ * Bundles in a directory, newest first. Unreadable zips are skipped.
+ */
+export function listTraceBundles(dir: string): TraceBundleInfo[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((f) => f.endsWith('.zip'));
+  } catch {
+    return [];
+  }
+
+  const bundles: TraceBundleInfo[] = [];
+  for (const file of files) {
+    const bundlePath = path.join(dir, file);
+    try {
+      const manifest = readTraceManifest(bundlePath);
+      bundles.push({
+        path: bundlePath,
+        sessionId: manifest.sessionId,
+        startedAt: manifest.startedAt,
+        exportedAt: manifest.exportedAt,
+        steps: manifest.steps.length,
+        failed: manifest.steps.filter((s) => s.status === 'error').length,
+      });
+    } catch {
+      // Not a trace bundle, or still being written
+    }
+  }
+  return bundles.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Unpack a bundle into outDir and return the path of its viewer (index.html).
+ * Entries that would land outside outDir are rejected.
+ */
+export function extractTraceBundle(bundlePath: string, outDir: string): string {
+  const root = path.resolve(outDir);
+  const entries = readZip(fs.readFileSync(bundlePath));
+  if (!entries.some((e) => e.name === 'index.html')) {
+    throw new Error(`Not a trace bundle (no index.html): ${bundlePath}`);
+  }
+
+  for (const entry of entries) {
+    const target = path.resolve(root, entry.name);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to extract ${entry.name} outside ${root}`);
+    }
+    if (entry.name.endsWith('/')) continue;
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, entry.data);
+  }
+  return path.join(root, 'index.html');
+}
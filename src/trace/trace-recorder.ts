@@ -0,0 +1,521 @@
+/**
+ * Trace Recorder - Per-session trace bundles for debugging agent runs
+ *
+ * When tracing is enabled, every tool call becomes a step holding the
+ * ActivityTracker timing, the (redacted) arguments, the result text (including any
+ * DOM delta), the hint that was emitted, and for calls on a tab: before/after DOM
+ * snapshots and screenshots, console messages and a network summary.
+ *
+ * The after snapshot is taken in the background once the result is returned,
+ * and doubles as the before snapshot of the next call on the same tab, so a tab
+ * is captured once per call instead of twice.
+ *
+ * Snapshots are staged on disk while the session runs. A session's bundle
+ * (`<dir>/<session>-<started>.zip`, with trace.json and a static index.html
+ * viewer) is written after a failed call (at most once per EXPORT_INTERVAL_MS),
+ * when the session is deleted and when the server stops. Only the most recent
+ * MAX_TRACE_STEPS steps are kept.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from 'puppeteer-core';
+import type { SessionManager } from '../session-manager';
+import type { SessionEvent } from '../types/session';
+import type { ToolCallEvent } from '../dashboard/types';
+import type { MCPResult } from '../types/mcp';
+import { getScreenshotScheduler } from '../cdp/screenshot-scheduler';
+import { isSensitiveKey } from '../security/audit-logger';
+import { redactSecrets } from '../security/secrets-vault';
+import { withTimeout } from '../utils/with-timeout';
+import { createZip, ZipEntry } from '../utils/zip';
+import { renderTraceViewer } from './trace-viewer';
+
+/** Longest a single title, screenshot or DOM capture may take */
+const CAPTURE_TIMEOUT_MS = 3000;
+const SCREENSHOT_QUALITY = 60;
+/** DOM snapshots are cut at this many characters */
+const MAX_DOM_CHARS = 2_000_000;
+const MAX_RESULT_CHARS = 8000;
+const MAX_CONSOLE_MESSAGES = 200;
+const MAX_CONSOLE_TEXT_CHARS = 1000;
+const MAX_NETWORK_FAILURES = 50;
+/** Steps kept per session; older steps and their snapshots are dropped */
+const MAX_TRACE_STEPS = 300;
+/** Failed calls rewrite the bundle at most this often */
+const EXPORT_INTERVAL_MS = 10_000;
+
+export interface TraceOptions {
+  /** Directory bundles are written to */
+  dir: string;
+}
+
+export interface TraceSnapshot {
+  url: string;
+  title: string;
+  /** Bundle-relative path of the JPEG screenshot */
+  screenshot?: string;
+  /** Bundle-relative path of the serialized DOM */
+  dom?: string;
+  /** Why part of the capture is missing */
+  error?: string;
+}
+
+export interface TraceConsoleMessage {
+  type: string;
+  text: string;
+  timestamp: number;
+}
+
+export interface TraceNetworkFailure {
+  url: string;
+  method: string;
+  resourceType: string;
+  /** HTTP status for error responses */
+  status?: number;
+  /** Network error text for requests that never got a response */
+  error?: string;
+}
+
+export interface TraceNetworkSummary {
+  requests: number;
+  byType: Record<string, number>;
+  failures: TraceNetworkFailure[];
+}
+
+export interface TraceHint {
+  text: string;
+  rule?: string;
+  severity?: string;
+}
+
+export interface TraceStep {
+  index: number;
+  callId: string;
+  toolName: string;
+  args?: Record<string, unknown>;
+  tabId?: string;
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  /** 'error' for thrown errors and for isError results */
+  status: 'success' | 'error';
+  error?: string;
+  resultText?: string;
+  hint?: TraceHint;
+  before?: TraceSnapshot;
+  after?: TraceSnapshot;
+  console: TraceConsoleMessage[];
+  network?: TraceNetworkSummary;
+}
+
+export interface TraceManifest {
+  version: 1;
+  sessionId: string;
+  startedAt: number;
+  /** Time the bundle was written */
+  exportedAt: number;
+  /** Older steps dropped to stay within the step limit */
+  droppedSteps?: number;
+  steps: TraceStep[];
+}
+
+interface PendingStep {
+  tabId?: string;
+  page?: Page;
+  before?: TraceSnapshot;
+  console: TraceConsoleMessage[];
+  network: TraceNetworkSummary;
+  detach?: () => void;
+}
+
+interface SessionTrace {
+  sessionId: string;
+  startedAt: number;
+  /** File name of the bundle, stable for the life of the session */
+  bundleName: string;
+  stagingDir: string;
+  steps: TraceStep[];
+  /** Steps recorded so far, including dropped ones */
+  stepCount: number;
+  /** Names staged snapshot files; calls on one session can overlap */
+  captureCount: number;
+  /** After captures still running; a bundle waits for them */
+  captures: Set<Promise<unknown>>;
+  /** Latest after capture per tab, reused as the next call's before snapshot */
+  lastAfter: Map<string, Promise<TraceSnapshot | undefined>>;
+  /** Serializes bundle writes */
+  exporting: Promise<string | null>;
+  lastExportAt: number;
+  /** Pending write for failures within EXPORT_INTERVAL_MS of the last one */
+  exportTimer?: ReturnType<typeof setTimeout>;
+}
+
+export class TraceRecorder {
+  private readonly dir: string;
+  private sessions: Map<string, SessionTrace> = new Map();
+  private pending: Map<string, PendingStep> = new Map();
+
+  constructor(private readonly sessionManager: SessionManager, options: TraceOptions) {
+    this.dir = path.resolve(options.dir);
+    sessionManager.addEventListener(this.onSessionEvent);
+  }
+
+  /** Directory bundles are written to */
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Capture the before state of the call's tab and start collecting console and
+   * network activity. Never throws: tracing must not fail the tool call.
+   */
+  async begin(callId: string, sessionId: string, args: Record<string, unknown>): Promise<void> {
+    const tabId = typeof args.tabId === 'string' ? args.tabId : undefined;
+    const step: PendingStep = { tabId, console: [], network: { requests: 0, byType: {}, failures: [] } };
+    this.pending.set(callId, step);
+    if (!tabId || !this.sessionManager.validateTargetOwnership(sessionId, tabId)) return;
+
+    try {
+      const page = await this.sessionManager.peekPage(tabId);
+      if (!page) return;
+      step.page = page;
+      step.detach = this.listen(page, step);
+      const trace = this.getSession(sessionId);
+      const previous = await trace.lastAfter.get(tabId);
+      step.before = previous ?? await this.capture(page, trace, 'before');
+    } catch (error) {
+      console.error(`[Trace] Before capture for ${callId} failed:`, error);
+    }
+  }
+
+  /**
+   * Record the finished call. Called after hints are attached, so the step holds
+   * exactly what the agent saw. A failed call rewrites the session's bundle.
+   */
+  async end(callId: string, event: ToolCallEvent | undefined, result: MCPResult): Promise<void> {
+    const pending = this.pending.get(callId);
+    this.pending.delete(callId);
+    pending?.detach?.();
+    if (!event) return;
+
+    const trace = this.getSession(event.sessionId);
+    const index = trace.stepCount++;
+
+    const raw = result as MCPResult & { _hint?: string; _hintMeta?: { rule?: string; severity?: string } };
+    const text = (result.content || [])
+      .filter((c) => c.type === 'text' && c.text)
+      .map((c) => c.text as string)
+      .join('\n');
+    const failed = event.result === 'error' || result.isError === true;
+
+    trace.steps.push({
+      index,
+      callId,
+      toolName: event.toolName,
+      ...(event.args && { args: redactArgs(event.args) }),
+      ...(pending?.tabId && { tabId: pending.tabId }),
+      startTime: event.startTime,
+      endTime: event.endTime,
+      durationMs: event.duration,
+      status: failed ? 'error' : 'success',
+      ...(event.error && { error: event.error }),
+      ...(text && { resultText: truncate(text, MAX_RESULT_CHARS) }),
+      ...(raw._hint && { hint: { text: raw._hint, rule: raw._hintMeta?.rule, severity: raw._hintMeta?.severity } }),
+      ...(pending?.before && { before: pending.before }),
+      console: pending?.console || [],
+      ...(pending?.page && { network: pending.network }),
+    });
+    const step = trace.steps[trace.steps.length - 1];
+    if (trace.steps.length > MAX_TRACE_STEPS) {
+      this.dropOldestSteps(trace);
+    }
+
+    if (pending?.page && pending.tabId) {
+      const after = this.capture(pending.page, trace, 'after').then(
+        (snapshot) => {
+          step.after = snapshot;
+          return snapshot;
+        },
+        (error) => {
+          console.error(`[Trace] After capture for ${callId} failed:`, error);
+          return undefined;
+        }
+      );
+      trace.lastAfter.set(pending.tabId, after);
+      trace.captures.add(after);
+      void after.then(() => trace.captures.delete(after));
+    }
+
+    if (failed) {
+      await this.exportAfterFailure(trace);
+    }
+  }
+
+  /**
+   * Write (or rewrite) the session's bundle. Returns its path, or null when the
+   * session has no steps.
+   */
+  exportSession(sessionId: string): Promise<string | null> {
+    const trace = this.sessions.get(sessionId);
+    if (!trace) return Promise.resolve(null);
+
+    trace.exporting = trace.exporting
+      .catch(() => null)
+      .then(() => this.writeBundle(trace));
+    return trace.exporting;
+  }
+
+  /**
+   * Write the session's bundle and drop its staged files
+   */
+  async closeSession(sessionId: string): Promise<string | null> {
+    const trace = this.sessions.get(sessionId);
+    if (!trace) return null;
+
+    clearTimeout(trace.exportTimer);
+    let bundlePath: string | null = null;
+    try {
+      bundlePath = await this.exportSession(sessionId);
+    } catch (error) {
+      console.error(`[Trace] Writing the bundle for session ${sessionId} failed:`, error);
+    }
+    this.sessions.delete(sessionId);
+    await fs.promises.rm(trace.stagingDir, { recursive: true, force: true }).catch(() => {});
+    return bundlePath;
+  }
+
+  /**
+   * Write every session's bundle. Call on shutdown.
+   */
+  async close(): Promise<string[]> {
+    this.sessionManager.removeEventListener(this.onSessionEvent);
+    for (const step of this.pending.values()) {
+      step.detach?.();
+    }
+    this.pending.clear();
+
+    const written: string[] = [];
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      const bundlePath = await this.closeSession(sessionId);
+      if (bundlePath) written.push(bundlePath);
+    }
+    return written;
+  }
+
+  private onSessionEvent = (event: SessionEvent): void => {
+    if (event.type === 'session:deleted') {
+      void this.closeSession(event.sessionId);
+    }
+  };
+
+  private getSession(sessionId: string): SessionTrace {
+    let trace = this.sessions.get(sessionId);
+    if (!trace) {
+      const startedAt = Date.now();
+      const bundleName = `${sanitizeFileName(sessionId)}-${new Date(startedAt).toISOString().replace(/[:.]/g, '-')}`;
+      trace = {
+        sessionId,
+        startedAt,
+        bundleName,
+        stagingDir: path.join(this.dir, '.staging', bundleName),
+        steps: [],
+        stepCount: 0,
+        captureCount: 0,
+        captures: new Set(),
+        lastAfter: new Map(),
+        exporting: Promise.resolve(null),
+        lastExportAt: 0,
+      };
+      this.sessions.set(sessionId, trace);
+    }
+    return trace;
+  }
+
+  /**
+   * Write the bundle after a failed call: right away unless one was written within
+   * EXPORT_INTERVAL_MS, in which case once that interval is up.
+   */
+  private async exportAfterFailure(trace: SessionTrace): Promise<void> {
+    if (trace.exportTimer) return;
+    const write = () => this.exportSession(trace.sessionId).catch((error) => {
+      console.error(`[Trace] Writing the bundle for session ${trace.sessionId} failed:`, error);
+    });
+
+    const wait = trace.lastExportAt + EXPORT_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      trace.lastExportAt = Date.now();
+      await write();
+      return;
+    }
+    trace.exportTimer = setTimeout(() => {
+      trace.exportTimer = undefined;
+      trace.lastExportAt = Date.now();
+      void write();
+    }, wait);
+    trace.exportTimer.unref?.();
+  }
+
+  /**
+   * Drop steps beyond MAX_TRACE_STEPS, oldest first, with the staged files no kept
+   * step refers to
+   */
+  private dropOldestSteps(trace: SessionTrace): void {
+    const dropped = trace.steps.splice(0, trace.steps.length - MAX_TRACE_STEPS);
+    const kept = new Set<string>();
+    for (const step of trace.steps) {
+      for (const file of snapshotFiles(step)) kept.add(file);
+    }
+    for (const step of dropped) {
+      for (const file of snapshotFiles(step)) {
+        if (!kept.has(file)) {
+          void fs.promises.rm(path.join(trace.stagingDir, file), { force: true }).catch(() => {});
+        }
+      }
+    }
+  }
+
+  private async writeBundle(trace: SessionTrace): Promise<string | null> {
+    await Promise.all(trace.captures);
+    if (trace.steps.length === 0) return null;
+
+    const droppedSteps = trace.stepCount - trace.steps.length;
+    const manifest: TraceManifest = {
+      version: 1,
+      sessionId: trace.sessionId,
+      startedAt: trace.startedAt,
+      exportedAt: Date.now(),
+      ...(droppedSteps > 0 && { droppedSteps }),
+      steps: trace.steps.slice(),
+    };
+    const entries: ZipEntry[] = [
+      { name: 'trace.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+      { name: 'index.html', data: Buffer.from(renderTraceViewer(manifest)) },
+    ];
+    const stepsDir = path.join(trace.stagingDir, 'steps');
+    const files = await fs.promises.readdir(stepsDir).catch(() => [] as string[]);
+    for (const file of files.sort()) {
+      entries.push({ name: `steps/${file}`, data: await fs.promises.readFile(path.join(stepsDir, file)) });
+    }
+
+    const bundlePath = path.join(this.dir, `${trace.bundleName}.zip`);
+    const tmpPath = `${bundlePath}.tmp`;
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(tmpPath, createZip(entries));
+    await fs.promises.rename(tmpPath, bundlePath);
+    console.error(`[Trace] Wrote ${trace.steps.length} step(s) for session ${trace.sessionId} to ${bundlePath}`);
+    return bundlePath;
+  }
+
+  /**
+   * Screenshot and DOM of a tab, written to the session's staging directory
+   */
+  private async capture(page: Page, trace: SessionTrace, phase: 'before' | 'after'): Promise<TraceSnapshot> {
+    const name = `${String(++trace.captureCount).padStart(4, '0')}-${phase}`;
+    const snapshot: TraceSnapshot = { url: page.url(), title: await withTimeout(page.title(), CAPTURE_TIMEOUT_MS, 'title').catch(() => '') };
+    const stepsDir = path.join(trace.stagingDir, 'steps');
+    await fs.promises.mkdir(stepsDir, { recursive: true });
+    const errors: string[] = [];
+
+    try {
+      const cdpClient = this.sessionManager.getCDPClient();
+      const shot = await withTimeout(
+        getScreenshotScheduler().capture(page, cdpClient, { format: 'jpeg', quality: SCREENSHOT_QUALITY }),
+        CAPTURE_TIMEOUT_MS,
+        'screenshot'
+      );
+      await fs.promises.writeFile(path.join(stepsDir, `${name}.jpg`), Buffer.from(shot.data, 'base64'));
+      snapshot.screenshot = `steps/${name}.jpg`;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    try {
+      const html = await withTimeout(page.content(), CAPTURE_TIMEOUT_MS, 'DOM snapshot');
+      await fs.promises.writeFile(path.join(stepsDir, `${name}.html`), truncate(html, MAX_DOM_CHARS));
+      snapshot.dom = `steps/${name}.html`;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (errors.length > 0) {
+      snapshot.error = errors.join('; ');
+    }
+    return snapshot;
+  }
+
+  /**
+   * Collect console messages and a network summary until the returned detach is called
+   */
+  private listen(page: Page, step: PendingStep): () => void {
+    const pushConsole = (type: string, text: string) => {
+      if (step.console.length < MAX_CONSOLE_MESSAGES) {
+        // Pages can log values typed from {{secret:…}} placeholders
+        step.console.push({ type, text: truncate(redactSecrets(text), MAX_CONSOLE_TEXT_CHARS), timestamp: Date.now() });
+      }
+    };
+    const pushFailure = (failure: TraceNetworkFailure) => {
+      if (step.network.failures.length < MAX_NETWORK_FAILURES) {
+        step.network.failures.push(failure);
+      }
+    };
+
+    const onConsole = (msg: ConsoleMessage) => pushConsole(msg.type(), msg.text());
+    const onPageError = (error: unknown) => pushConsole('pageerror', error instanceof Error ? error.message : String(error));
+    const onRequest = (request: HTTPRequest) => {
+      const type = request.resourceType();
+      step.network.requests++;
+      step.network.byType[type] = (step.network.byType[type] || 0) + 1;
+    };
+    const onResponse = (response: HTTPResponse) => {
+      if (response.status() >= 400) {
+        const request = response.request();
+        pushFailure({ url: response.url(), method: request.method(), resourceType: request.resourceType(), status: response.status() });
+      }
+    };
+    const onRequestFailed = (request: HTTPRequest) => {
+      pushFailure({
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        error: request.failure()?.errorText || 'failed',
+      });
+    };
+
+    page.on('console', onConsole);
+    page.on('pageerror', onPageError);
+    page.on('request', onRequest);
+    page.on('response', onResponse);
+    page.on('requestfailed', onRequestFailed);
+    return () => {
+      page.off('console', onConsole);
+      page.off('pageerror', onPageError);
+      page.off('request', onRequest);
+      page.off('response', onResponse);
+      page.off('requestfailed', onRequestFailed);
+    };
+  }
+}
+
+/** Same redaction as the audit log: values of password/token/text-like keys are dropped */
+function redactArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const safe: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    safe[key] = isSensitiveKey(key) ? '[REDACTED]' : value;
+  }
+  return safe;
+}
+
+/** Staging-relative files a step's snapshots point to */
+function snapshotFiles(step: TraceStep): string[] {
+  return [step.before, step.after].flatMap((snapshot) => [snapshot?.screenshot, snapshot?.dom])
+    .filter((file): file is string => !!file);
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'session';
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…[truncated]` : text;
+}
@@ -0,0 +1,212 @@
+/**
+ * Trace Viewer - Static HTML page bundled as index.html in every trace zip
+ *
+ * Works from file:// after unzipping: the manifest is embedded in the page, and
+ * screenshots and DOM snapshots are loaded by relative path. Page content goes in
+ * with textContent only, and DOM snapshots render in a sandboxed iframe.
+ */
+
+import type { TraceManifest } from './trace-recorder';
+
+const STYLE = `
+  body { margin: 0; font: 13px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #0f1115; color: #d8dde6; }
+  header { display: flex; align-items: center; gap: 12px; padding: 10px 16px; background: #171a21; border-bottom: 1px solid #262b36; }
+  header h1 { font-size: 15px; margin: 0; flex: 1; }
+  main { display: grid; grid-template-columns: 280px minmax(0, 1fr); height: calc(100vh - 45px); }
+  nav { overflow-y: auto; border-right: 1px solid #262b36; }
+  article { overflow-y: auto; padding: 16px; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: .05em; color: #8a93a6; margin: 16px 0 8px; }
+  button { background: #262b36; color: #d8dde6; border: 1px solid #3a4150; border-radius: 4px; padding: 3px 10px; cursor: pointer; }
+  .step { display: grid; grid-template-columns: 36px minmax(0, 1fr) auto; gap: 6px; padding: 6px 10px; cursor: pointer; border-bottom: 1px solid #1e222b; }
+  .step:hover { background: #171a21; }
+  .step.selected { background: #1e2430; }
+  .step .index, .step .duration, .muted { color: #8a93a6; font-variant-numeric: tabular-nums; }
+  .step.error .tool, .error-text { color: #f87171; }
+  .hint { background: #3b2f0b; border: 1px solid #854d0e; border-radius: 6px; padding: 8px 10px; }
+  pre { background: #171a21; border: 1px solid #262b36; border-radius: 6px; padding: 8px 10px; white-space: pre-wrap; word-break: break-word; margin: 0; }
+  .snapshots { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .snapshot img { width: 100%; border: 1px solid #262b36; border-radius: 4px; display: block; }
+  .snapshot iframe { width: 100%; height: 320px; border: 1px solid #262b36; border-radius: 4px; background: #fff; }
+  .url { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 2px 8px 2px 0; vertical-align: top; border-bottom: 1px solid #1e222b; word-break: break-all; }
+  .empty { color: #5b6375; }
+  a { color: #60a5fa; }
+`;
+
+const SCRIPT = `
+  const trace = JSON.parse(document.getElementById('trace-data').textContent);
+  const $ = (id) => document.getElementById(id);
+  let selected = -1;
+
+  function el(tag, className, text) {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function section(title, content) {
+    const wrap = el('section');
+    wrap.appendChild(el('h2', null, title));
+    wrap.appendChild(content);
+    return wrap;
+  }
+
+  function renderSnapshot(label, snapshot) {
+    const box = el('div', 'snapshot');
+    box.appendChild(el('div', 'muted', label));
+    if (!snapshot) {
+      box.appendChild(el('div', 'empty', 'Not captured'));
+      return box;
+    }
+    box.appendChild(el('div', 'url', snapshot.url));
+    if (snapshot.screenshot) {
+      const img = el('img');
+      img.src = snapshot.screenshot;
+      img.alt = label + ' screenshot';
+      box.appendChild(img);
+    }
+    if (snapshot.dom) {
+      const link = el('a', null, 'DOM snapshot');
+      link.href = snapshot.dom;
+      link.target = '_blank';
+      link.rel = 'noopener';
+      box.appendChild(link);
+      const frame = el('iframe');
+      frame.setAttribute('sandbox', '');
+      frame.src = snapshot.dom;
+      box.appendChild(frame);
+    }
+    if (snapshot.error) box.appendChild(el('div', 'error-text', snapshot.error));
+    return box;
+  }
+
+  function renderConsole(messages) {
+    if (messages.length === 0) return el('div', 'empty', 'No console output');
+    const table = el('table');
+    for (const msg of messages) {
+      const row = el('tr', msg.type === 'error' || msg.type === 'pageerror' ? 'error-text' : null);
+      row.appendChild(el('td', 'muted', msg.type));
+      row.appendChild(el('td', null, msg.text));
+      table.appendChild(row);
+    }
+    return table;
+  }
+
+  function renderNetwork(network) {
+    const wrap = el('div');
+    const types = Object.entries(network.byType).map(([type, count]) => type + ' ' + count).join(', ');
+    wrap.appendChild(el('div', null, network.requests + ' request(s)' + (types ? ' — ' + types : '')));
+    if (network.failures.length > 0) {
+      const table = el('table');
+      for (const failure of network.failures) {
+        const row = el('tr', 'error-text');
+        row.appendChild(el('td', null, failure.status ? String(failure.status) : failure.error));
+        row.appendChild(el('td', 'muted', failure.method + ' ' + failure.resourceType));
+        row.appendChild(el('td', null, failure.url));
+        table.appendChild(row);
+      }
+      wrap.appendChild(table);
+    }
+    return wrap;
+  }
+
+  function renderStep(step) {
+    const view = $('detail');
+    view.replaceChildren();
+    const title = el('h1', step.status === 'error' ? 'error-text' : null,
+      '#' + (step.index + 1) + ' ' + step.toolName + (step.durationMs !== undefined ? '  (' + step.durationMs + 'ms)' : ''));
+    view.appendChild(title);
+    view.appendChild(el('div', 'muted', new Date(step.startTime).toISOString() + (step.tabId ? '  ·  tab ' + step.tabId : '')));
+    if (step.error) view.appendChild(section('Error', el('pre', 'error-text', step.error)));
+    if (step.hint) {
+      view.appendChild(section('Hint' + (step.hint.rule ? ' · ' + step.hint.rule : ''), el('div', 'hint', step.hint.text)));
+    }
+    view.appendChild(section('Arguments', el('pre', null, JSON.stringify(step.args || {}, null, 2))));
+    if (step.resultText) view.appendChild(section('Result', el('pre', null, step.resultText)));
+    if (step.before || step.after) {
+      const snapshots = el('div', 'snapshots');
+      snapshots.appendChild(renderSnapshot('Before', step.before));
+      snapshots.appendChild(renderSnapshot('After', step.after));
+      view.appendChild(section('Page', snapshots));
+    }
+    view.appendChild(section('Console', renderConsole(step.console)));
+    if (step.network) view.appendChild(section('Network', renderNetwork(step.network)));
+  }
+
+  function select(index) {
+    if (index < 0 || index >= trace.steps.length) return;
+    selected = index;
+    const rows = $('steps').children;
+    for (let i = 0; i < rows.length; i++) rows[i].classList.toggle('selected', i === index);
+    rows[index].scrollIntoView({ block: 'nearest' });
+    renderStep(trace.steps[index]);
+  }
+
+  function nextFailure() {
+    for (let i = 1; i <= trace.steps.length; i++) {
+      const index = (selected + i) % trace.steps.length;
+      if (trace.steps[index].status === 'error') return select(index);
+    }
+  }
+
+  const failures = trace.steps.filter((s) => s.status === 'error').length;
+  $('summary').textContent = trace.sessionId + '  ·  ' + trace.steps.length + ' step(s)  ·  ' + failures + ' failed  ·  ' +
+    (trace.droppedSteps ? trace.droppedSteps + ' older step(s) dropped  ·  ' : '') +
+    new Date(trace.startedAt).toISOString();
+  trace.steps.forEach((step, position) => {
+    const row = el('div', 'step ' + step.status);
+    row.appendChild(el('span', 'index', '#' + (step.index + 1)));
+    row.appendChild(el('span', 'tool', step.toolName));
+    row.appendChild(el('span', 'duration', step.durationMs !== undefined ? step.durationMs + 'ms' : ''));
+    row.addEventListener('click', () => select(position));
+    $('steps').appendChild(row);
+  });
+  $('next-failure').disabled = failures === 0;
+  $('next-failure').addEventListener('click', nextFailure);
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'ArrowDown' || e.key === 'j') { select(selected + 1); e.preventDefault(); }
+    if (e.key === 'ArrowUp' || e.key === 'k') { select(selected - 1); e.preventDefault(); }
+    if (e.key === 'n') nextFailure();
+  });
+
+  if (trace.steps.length === 0) {
+    $('detail').appendChild(el('div', 'empty', 'No steps recorded'));
+  } else if (failures > 0) {
+    nextFailure();
+  } else {
+    select(0);
+  }
+`;
+
+/**
+ * Render the viewer for a trace. Start at the first failed step, if any.
+ */
+export function renderTraceViewer(manifest: TraceManifest): string {
+  // Keep the embedded JSON from closing the <script> element
+  const data = JSON.stringify(manifest).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>OpenChrome trace</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>OpenChrome trace</h1>
+  <span id="summary" class="muted"></span>
+  <button id="next-failure" title="Next failed step (n)">Next failure</button>
+</header>
+<main>
+  <nav id="steps"></nav>
+  <article id="detail"></article>
+</main>
+<script type="application/json" id="trace-data">${data}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,519 @@
+/**
+ * Streamable HTTP Transport - Serves the MCP JSON-RPC dispatch over HTTP
+ *
+ * Implements the MCP Streamable HTTP transport (protocol 2025-03-26):
+ * - POST   <path>  JSON-RPC message or batch. Requests are answered with either a
+ *                  JSON body or an SSE stream, depending on the client's Accept header.
+ * - GET    <path>  Long-lived SSE stream for server-initiated notifications.
+ * - DELETE <path>  Terminates the MCP session.
+ *
+ * Each client receives an `Mcp-Session-Id` on initialize. That ID doubles as the
+ * SessionManager session ID, so several remote agents sharing one server (and one
+ * logged-in Chrome) each get their own workers and tabs. Sessions a client stops
+ * using without a DELETE are closed after an idle timeout.
+ *
+ * Anyone who can reach the endpoint drives the logged-in browser, so binding beyond
+ * loopback requires a bearer token.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { MCPRequest, MCPResponse, MCPNotification, MCPRequestContext, MCPErrorCodes } from '../types/mcp';
+import type { MCPServer } from '../mcp-server';
+
+export const MCP_SESSION_HEADER = 'mcp-session-id';
+
+/** Maximum accepted request body size (bytes). Tool arguments are small; uploads go through files. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Interval for SSE keep-alive comments so proxies don't drop idle streams. */
+const SSE_KEEPALIVE_INTERVAL_MS = 15000;
+
+/** Sessions without requests or open streams for this long are closed. */
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+export interface HttpTransportOptions {
+  /** TCP port to listen on (0 = ephemeral, useful for tests) */
+  port: number;
+  /** Interface to bind (default: 127.0.0.1). Use 0.0.0.0 to share across the LAN. */
+  host?: string;
+  /** Endpoint path (default: /mcp) */
+  path?: string;
+  /** Extra browser origins allowed to call the endpoint. Loopback origins are always allowed. */
+  allowedOrigins?: string[];
+  /** Require `Authorization: Bearer <token>` on every request. Mandatory for non-loopback hosts. */
+  authToken?: string;
+  /** Close sessions idle for this long (default: 30 minutes) */
+  idleTimeoutMs?: number;
+}
+
+interface HttpSession {
+  id: string;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Open GET streams receiving server-initiated notifications */
+  streams: Set<http.ServerResponse>;
+  /** Requests being answered; a session is not idle while a tool call runs */
+  pending: number;
+}
+
+type JsonRpcMessage = Record<string, unknown>;
+
+export class StreamableHttpTransport {
+  private server: http.Server | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private readonly mcpServer: MCPServer;
+  private readonly options: Required<Omit<HttpTransportOptions, 'allowedOrigins' | 'authToken'>> & {
+    allowedOrigins: string[];
+    authToken?: string;
+  };
+
+  constructor(mcpServer: MCPServer, options: HttpTransportOptions) {
+    this.mcpServer = mcpServer;
+    this.options = {
+      port: options.port,
+      host: options.host || '127.0.0.1',
+      path: options.path || '/mcp',
+      allowedOrigins: options.allowedOrigins || [],
+      authToken: options.authToken || undefined,
+      idleTimeoutMs: options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+    };
+  }
+
+  /**
+   * Start listening. Resolves with the bound port (differs from options.port when 0).
+   */
+  async start(): Promise<number> {
+    if (this.server) {
+      return this.getPort();
+    }
+    if (!this.options.authToken && !LOOPBACK_HOSTS.has(this.options.host) && !this.options.host.startsWith('127.')) {
+      throw new Error(
+        `Refusing to serve MCP on ${this.options.host} without an auth token: anyone who can reach it would control the browser. ` +
+        'Set --http-token (or OPENCHROME_HTTP_TOKEN), or bind to 127.0.0.1.'
+      );
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[HttpTransport] Unhandled request error:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, null, MCPErrorCodes.INTERNAL_ERROR, 'Internal error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.keepAliveTimer = setInterval(() => {
+      for (const session of this.sessions.values()) {
+        for (const stream of session.streams) {
+          stream.write(': keepalive\n\n');
+        }
+      }
+      this.expireIdleSessions().catch((error) => {
+        console.error('[HttpTransport] Idle session sweep failed:', error);
+      });
+    }, SSE_KEEPALIVE_INTERVAL_MS);
+    this.keepAliveTimer.unref();
+
+    const port = this.getPort();
+    console.error(`[HttpTransport] Listening on http://${this.options.host}:${port}${this.options.path}`);
+    return port;
+  }
+
+  /**
+   * Stop listening and close all open SSE streams.
+   */
+  async stop(): Promise<void> {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+
+    for (const session of this.sessions.values()) {
+      for (const stream of session.streams) {
+        stream.end();
+      }
+      session.streams.clear();
+    }
+    this.sessions.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections?.();
+      });
+    }
+  }
+
+  /**
+   * Get the bound port (0 if not listening)
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+
+  /**
+   * Get the IDs of all active MCP sessions
+   */
+  getSessionIds(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Deliver a server-initiated notification to every open GET stream.
+   */
+  broadcast(notification: MCPNotification): void {
+    for (const session of this.sessions.values()) {
+      for (const stream of session.streams) {
+        this.writeSseEvent(stream, notification);
+      }
+    }
+  }
+
+  // ==================== REQUEST HANDLING ====================
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.options.path) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+      return;
+    }
+
+    if (!this.isOriginAllowed(req.headers.origin)) {
+      this.sendJsonRpcError(res, 403, null, MCPErrorCodes.INVALID_REQUEST, 'Origin not allowed');
+      return;
+    }
+
+    if (!this.isAuthorized(req.headers.authorization)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, null, MCPErrorCodes.INVALID_REQUEST, 'Missing or invalid bearer token');
+      return;
+    }
+
+    switch (req.method) {
+      case 'POST':
+        await this.handlePost(req, res);
+        return;
+      case 'GET':
+        this.handleGet(req, res);
+        return;
+      case 'DELETE':
+        await this.handleDelete(req, res);
+        return;
+      default:
+        res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+  }
+
+  private async handlePost(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let payload: unknown;
+    try {
+      const body = await this.readBody(req);
+      payload = JSON.parse(body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Parse error';
+      this.sendJsonRpcError(res, 400, null, MCPErrorCodes.PARSE_ERROR, message);
+      return;
+    }
+
+    const isBatch = Array.isArray(payload);
+    const messages = (isBatch ? payload : [payload]) as unknown[];
+    if (messages.length === 0 || messages.some((m) => typeof m !== 'object' || m === null)) {
+      this.sendJsonRpcError(res, 400, null, MCPErrorCodes.INVALID_REQUEST, 'Invalid JSON-RPC 2.0 message');
+      return;
+    }
+
+    const isInitialize = messages.some((m) => (m as JsonRpcMessage).method === 'initialize');
+    let session: HttpSession;
+    if (isInitialize) {
+      if (messages.length > 1) {
+        this.sendJsonRpcError(res, 400, null, MCPErrorCodes.INVALID_REQUEST, 'initialize must not be part of a batch');
+        return;
+      }
+      session = this.createSession();
+    } else {
+      const resolved = this.resolveSession(req, res);
+      if (!resolved) return;
+      session = resolved;
+    }
+    session.lastActivityAt = Date.now();
+
+    // Requests carry a method and an id; everything else (notifications, client responses) is fire-and-forget.
+    const requests: MCPRequest[] = [];
+    const invalid: MCPResponse[] = [];
+    for (const raw of messages as JsonRpcMessage[]) {
+      if (raw.jsonrpc !== '2.0') {
+        invalid.push(this.errorResponse((raw.id as string | number) ?? 0, MCPErrorCodes.INVALID_REQUEST,
+          'Invalid JSON-RPC 2.0 request: missing jsonrpc or method field'));
+        continue;
+      }
+      if (typeof raw.method !== 'string' || raw.id === undefined || raw.id === null) {
+        if (typeof raw.method === 'string') {
+          this.mcpServer.handleNotification(raw as unknown as MCPNotification, { clientId: session.id });
+        }
+        continue;
+      }
+      requests.push(this.bindSession(raw as unknown as MCPRequest, session.id));
+    }
+
+    const headers: http.OutgoingHttpHeaders = { 'Mcp-Session-Id': session.id };
+
+    if (requests.length === 0 && invalid.length === 0) {
+      res.writeHead(202, headers).end();
+      return;
+    }
+
+    if (this.acceptsEventStream(req) && requests.length > 0) {
+      res.writeHead(200, {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      for (const response of invalid) {
+        this.writeSseEvent(res, response);
+      }
+      // Progress for these requests travels on the same stream, ahead of the response
+      const context: MCPRequestContext = {
+        clientId: session.id,
+        notify: (notification) => {
+          if (!res.writableEnded) this.writeSseEvent(res, notification);
+        },
+      };
+      await Promise.all(requests.map(async (request) => {
+        this.writeSseEvent(res, await this.dispatch(request, context));
+      }));
+      res.end();
+      return;
+    }
+
+    // Plain JSON responses can't carry notifications; progress goes to the session's GET streams
+    const context: MCPRequestContext = {
+      clientId: session.id,
+      notify: (notification) => {
+        for (const stream of session.streams) {
+          this.writeSseEvent(stream, notification);
+        }
+      },
+    };
+    const responses = [...invalid, ...(await Promise.all(requests.map((r) => this.dispatch(r, context))))];
+    res.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(isBatch ? responses : responses[0]));
+  }
+
+  private handleGet(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.acceptsEventStream(req)) {
+      res.writeHead(405, { Allow: 'POST, DELETE' }).end();
+      return;
+    }
+
+    const session = this.resolveSession(req, res);
+    if (!session) return;
+
+    res.writeHead(200, {
+      'Mcp-Session-Id': session.id,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    session.streams.add(res);
+    req.on('close', () => {
+      session.streams.delete(res);
+      session.lastActivityAt = Date.now();
+    });
+  }
+
+  private async handleDelete(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const session = this.resolveSession(req, res);
+    if (!session) return;
+
+    await this.closeSession(session);
+    console.error(`[HttpTransport] Session ${session.id} terminated by client`);
+    res.writeHead(204).end();
+  }
+
+  /**
+   * Close sessions with no request in flight, no open stream and no activity within
+   * the idle timeout: clients that went away without a DELETE.
+   */
+  async expireIdleSessions(now: number = Date.now()): Promise<string[]> {
+    const expired = Array.from(this.sessions.values()).filter((session) =>
+      session.pending === 0 &&
+      session.streams.size === 0 &&
+      now - session.lastActivityAt > this.options.idleTimeoutMs
+    );
+    for (const session of expired) {
+      await this.closeSession(session);
+      console.error(`[HttpTransport] Session ${session.id} expired after ${Math.round((now - session.lastActivityAt) / 1000)}s idle`);
+    }
+    return expired.map((session) => session.id);
+  }
+
+  // ==================== HELPERS ====================
+
+  private createSession(): HttpSession {
+    const session: HttpSession = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+      streams: new Set(),
+      pending: 0,
+    };
+    this.sessions.set(session.id, session);
+    console.error(`[HttpTransport] Created session ${session.id}`);
+    return session;
+  }
+
+  /**
+   * End the session's streams and delete its browser session.
+   */
+  private async closeSession(session: HttpSession): Promise<void> {
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.streams.clear();
+    this.sessions.delete(session.id);
+
+    try {
+      await this.mcpServer.getSessionManager().deleteSession(session.id);
+    } catch (error) {
+      console.error(`[HttpTransport] Failed to delete browser session ${session.id}:`, error);
+    }
+  }
+
+  /**
+   * Look up the session named by the Mcp-Session-Id header.
+   * Writes the error response (400 missing / 404 unknown) and returns null on failure.
+   */
+  private resolveSession(req: http.IncomingMessage, res: http.ServerResponse): HttpSession | null {
+    const header = req.headers[MCP_SESSION_HEADER];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    if (!sessionId) {
+      this.sendJsonRpcError(res, 400, null, MCPErrorCodes.INVALID_REQUEST, 'Missing Mcp-Session-Id header');
+      return null;
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendJsonRpcError(res, 404, null, MCPErrorCodes.INVALID_REQUEST, `Unknown session: ${sessionId}`);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Default tool calls to the caller's MCP session so each HTTP client gets its own
+   * SessionManager session. An explicit sessionId in params or arguments still wins.
+   */
+  private bindSession(request: MCPRequest, sessionId: string): MCPRequest {
+    if (request.method !== 'tools/call') {
+      return request;
+    }
+    const params = { ...(request.params || {}) };
+    if (params.sessionId === undefined) {
+      params.sessionId = sessionId;
+    }
+    return { ...request, params };
+  }
+
+  private async dispatch(request: MCPRequest, context: MCPRequestContext): Promise<MCPResponse> {
+    const session = context.clientId ? this.sessions.get(context.clientId) : undefined;
+    if (session) session.pending++;
+    try {
+      return await this.mcpServer.handleRequest(request, context);
+    } catch (error) {
+      return this.errorResponse(request.id, MCPErrorCodes.INTERNAL_ERROR,
+        error instanceof Error ? error.message : 'Internal error');
+    } finally {
+      if (session) {
+        session.pending--;
+        session.lastActivityAt = Date.now();
+      }
+    }
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private acceptsEventStream(req: http.IncomingMessage): boolean {
+    return (req.headers.accept || '').includes('text/event-stream');
+  }
+
+  /**
+   * Guard against DNS rebinding: browser-originated requests must come from a
+   * loopback origin or one explicitly allowed. Non-browser clients send no Origin.
+   */
+  private isOriginAllowed(origin: string | undefined): boolean {
+    if (!origin) return true;
+    if (this.options.allowedOrigins.includes(origin)) return true;
+    try {
+      const hostname = new URL(origin).hostname;
+      return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check the bearer token (when one is configured) in constant time.
+   */
+  private isAuthorized(authorization: string | undefined): boolean {
+    const token = this.options.authToken;
+    if (!token) return true;
+    const match = /^Bearer\s+(.+)$/i.exec(authorization || '');
+    if (!match) return false;
+    const expected = crypto.createHash('sha256').update(token).digest();
+    const actual = crypto.createHash('sha256').update(match[1].trim()).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  private writeSseEvent(res: http.ServerResponse, message: MCPResponse | MCPNotification): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  private errorResponse(id: number | string, code: number, message: string): MCPResponse {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+
+  private sendJsonRpcError(
+    res: http.ServerResponse,
+    status: number,
+    id: number | string | null,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code, message } }));
+  }
+}
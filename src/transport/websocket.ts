@@ -0,0 +1,215 @@
+/**
+ * WebSocket - Minimal RFC 6455 server side for local browser pages
+ *
+ * Enough for the dashboard's screencast: text and binary messages, fragmentation,
+ * ping/pong and close. No extensions (permessage-deflate) and no subprotocols.
+ */
+
+import * as http from 'http';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import type { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest accepted client message. Clients only send small input events. */
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnectionEvents {
+  'message': (data: string) => void;
+  'close': () => void;
+}
+
+/**
+ * Complete the opening handshake for an HTTP upgrade request.
+ * Answers 400 and returns null when the request is not a WebSocket upgrade.
+ */
+export function acceptWebSocket(req: http.IncomingMessage, socket: Duplex): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if ((req.headers.upgrade || '').toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  return new WebSocketConnection(socket);
+}
+
+export class WebSocketConnection extends EventEmitter {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentOpcode = 0;
+  private closed = false;
+
+  constructor(private readonly socket: Duplex) {
+    super();
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    // HTTP server sockets allow half-open connections: a peer that goes away
+    // without a close frame only ends its side, so finish ours as well.
+    socket.on('end', () => {
+      socket.end();
+      this.onClose();
+    });
+    socket.on('close', () => this.onClose());
+    socket.on('error', () => this.onClose());
+  }
+
+  /** Bytes queued on the socket but not yet written (for dropping frames under backpressure) */
+  get bufferedAmount(): number {
+    return (this.socket as Duplex & { writableLength?: number }).writableLength ?? 0;
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Send a text message
+   */
+  send(data: string): void {
+    this.writeFrame(OPCODE_TEXT, Buffer.from(data, 'utf8'));
+  }
+
+  /**
+   * Start the closing handshake and end the socket
+   */
+  close(code = 1000): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.writeFrame(OPCODE_CLOSE, payload);
+    this.socket.end();
+    this.onClose();
+  }
+
+  private onClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) return;
+      this.onFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  /**
+   * Take one complete frame off the buffer, or null if more bytes are needed
+   */
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+    if (this.buffer.length < 2) return null;
+
+    const fin = (this.buffer[0] & 0x80) !== 0;
+    const opcode = this.buffer[0] & 0x0f;
+    const masked = (this.buffer[1] & 0x80) !== 0;
+    let length = this.buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (this.buffer.length < 4) return null;
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) return null;
+      const big = this.buffer.readBigUInt64BE(2);
+      length = big > BigInt(MAX_MESSAGE_BYTES) ? MAX_MESSAGE_BYTES + 1 : Number(big);
+      offset = 10;
+    }
+
+    // Clients must mask every frame (RFC 6455 section 5.1)
+    if (!masked) {
+      this.close(1002);
+      return null;
+    }
+    if (length > MAX_MESSAGE_BYTES) {
+      this.close(1009);
+      return null;
+    }
+    if (this.buffer.length < offset + 4 + length) return null;
+
+    const mask = this.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+    this.buffer = this.buffer.subarray(offset + 4 + length);
+    return { fin, opcode, payload };
+  }
+
+  private onFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.writeFrame(OPCODE_PONG, payload);
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this.close(1000);
+        return;
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        this.fragments = [payload];
+        this.fragmentOpcode = opcode;
+        break;
+      case OPCODE_CONTINUATION:
+        this.fragments.push(payload);
+        break;
+      default:
+        this.close(1002);
+        return;
+    }
+
+    const size = this.fragments.reduce((sum, part) => sum + part.length, 0);
+    if (size > MAX_MESSAGE_BYTES) {
+      this.close(1009);
+      return;
+    }
+    if (!fin) return;
+
+    const message = Buffer.concat(this.fragments);
+    this.fragments = [];
+    if (this.fragmentOpcode === OPCODE_TEXT) {
+      this.emit('message', message.toString('utf8'));
+    }
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) return;
+
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+}
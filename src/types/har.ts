@@ -0,0 +1,83 @@
+/**
+ * HAR 1.2 types (http://www.softwareishard.com/blog/har-12-spec/)
+ *
+ * Only the fields openchrome reads or writes are modelled. Custom fields use the
+ * spec's leading-underscore convention.
+ */
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPostData {
+  mimeType: string;
+  text: string;
+  params?: HarNameValue[];
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: 'base64';
+  comment?: string;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _error?: string;
+}
+
+/** Phase durations in ms; -1 means the phase does not apply */
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  _resourceType?: string;
+}
+
+export interface HarLog {
+  version: '1.2';
+  creator: { name: string; version: string };
+  entries: HarEntry[];
+  comment?: string;
+}
+
+export interface HarFile {
+  log: HarLog;
+}
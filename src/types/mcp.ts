@@ -51,11 +51,33 @@ export interface MCPToolDefinition {
   };
 }
 
+/**
+ * Per-call context passed to tool handlers.
+ * Long-running handlers should check `signal` between units of work and report progress.
+ */
+export interface ToolContext {
+  /** Aborted when the client cancels the request or the tool execution timeout fires */
+  signal: AbortSignal;
+  /** Emit notifications/progress. No-op unless the request carried a progressToken. */
+  reportProgress: (progress: number, total?: number, message?: string) => void;
+}
+
 export type ToolHandler = (
   sessionId: string,
-  params: Record<string, unknown>
+  params: Record<string, unknown>,
+  context?: ToolContext
 ) => Promise<MCPResult>;
 
+/**
+ * Transport-level context for a single inbound request
+ */
+export interface MCPRequestContext {
+  /** Scopes request IDs per client (e.g. the HTTP Mcp-Session-Id); stdio has a single client */
+  clientId?: string;
+  /** Deliver notifications tied to this request (progress). Defaults to the server-wide channel. */
+  notify?: (notification: MCPNotification) => void;
+}
+
 export interface ToolRegistry {
   name: string;
   handler: ToolHandler;
@@ -5,6 +5,35 @@
  * bypassing per-step agent LLM round-trips.
  */
 
+/** What an element looked like when a plan step last found it, for re-identifying it after a redesign */
+export interface ElementFingerprint {
+  tagName: string;
+  /** Explicit or implicit ARIA role */
+  role?: string;
+  /** Accessible name (aria-label, label, alt, title, placeholder or text) */
+  name?: string;
+  /** Normalized visible text, truncated */
+  text?: string;
+  /** Identifying attributes: id, name, type, class, href, data-testid, aria-label, placeholder, title, alt */
+  attributes: Record<string, string>;
+  /** Ancestor path, e.g. "body > main > form#login > button.primary" */
+  domPath: string;
+  /** Text of nearby elements (siblings, label, heading) */
+  neighborText: string[];
+}
+
+/** A selector replaced during execution because it no longer matched */
+export interface HealedSelector {
+  /** Step order */
+  order: number;
+  /** Step argument holding the selector (e.g. "selector") */
+  arg: string;
+  from: string;
+  to: string;
+  /** Fingerprint similarity of the element found (0.0 - 1.0) */
+  similarity: number;
+}
+
 /** A single step in a compiled plan */
 export interface CompiledStep {
   /** Execution order (1-based) */
@@ -25,6 +54,8 @@ export interface CompiledStep {
     /** Variable name to store result for later steps */
     storeAs?: string;
   };
+  /** Fingerprints of the elements behind CSS selector args, keyed by arg name */
+  fingerprints?: Record<string, ElementFingerprint>;
 }
 
 /** Error handler for a compiled plan */
@@ -125,4 +156,6 @@ export interface PlanExecutionResult {
   stepsExecuted: number;
   /** Total steps in plan */
   totalSteps: number;
+  /** Selectors re-identified from their fingerprints during this run */
+  healedSelectors?: HealedSelector[];
 }
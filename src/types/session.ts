@@ -18,6 +18,8 @@ export interface Worker {
   lastActivityAt: number;
   port?: number;         // Chrome instance port (when using pool)
   poolOrigin?: string;   // Origin used for pool allocation
+  downloadDir?: string;  // Isolated download directory (set once Chrome accepts it)
+  profile?: string;      // Chrome profile this worker runs in (multi-profile sessions)
 }
 
 export interface WorkerInfo {
@@ -26,6 +28,8 @@ export interface WorkerInfo {
   targetCount: number;
   createdAt: number;
   lastActivityAt: number;
+  profile?: string;
+  port?: number;
 }
 
 export interface WorkerCreateOptions {
@@ -33,6 +37,7 @@ export interface WorkerCreateOptions {
   name?: string;
   shareCookies?: boolean;  // If true, use default browser context (shares Chrome profile cookies) instead of isolated context
   targetUrl?: string;      // URL for origin-aware Chrome instance selection
+  profile?: string;        // Chrome profile (directory or display name); runs in that profile's own Chrome instance
 }
 
 export interface Session {
@@ -62,6 +67,18 @@ export interface SessionInfo {
 export interface SessionCreateOptions {
   id?: string;
   name?: string;
+  profile?: string;  // Chrome profile for the default worker
+}
+
+/**
+ * A Chrome profile in use by this server and the instance that runs it
+ */
+export interface ProfileInstanceInfo {
+  profile: string;
+  profileName?: string;    // Display name from Chrome's Local State
+  port: number;
+  primary: boolean;        // true when the primary Chrome instance runs this profile
+  workers: { sessionId: string; workerId: string }[];
 }
 
 export interface SessionEvent {
@@ -24,12 +24,12 @@ export interface ToolEntry {
 /** Tool categories for WorkerToolConfig filtering */
 export type ToolCategory =
   | 'navigation'      // navigate, page_reload
-  | 'interaction'     // computer, form_input, fill_form, drag_drop
-  | 'content'         // read_page, find, page_content, query_dom, memory
+  | 'interaction'     // computer, form_input, fill_form, drag_drop, request_human
+  | 'content'         // read_page, find, page_content, query_dom, extract, detect_records, a11y_audit, memory
   | 'javascript'      // javascript_tool
-  | 'network'         // network, cookies, storage, request_intercept, http_auth
+  | 'network'         // network, cookies, storage, request_intercept, http_auth, totp, network_record
   | 'tabs'            // tabs_context, tabs_create, tabs_close
-  | 'media'           // page_pdf, console_capture, performance_metrics, file_upload
+  | 'media'           // page_pdf, visual_snapshot, console_capture, performance_metrics, file_upload, downloads
   | 'emulation'       // user_agent, geolocation, emulate_device
   | 'orchestration'   // workflow_init, workflow_status, workflow_collect, etc.
   | 'worker'          // worker, worker_update, worker_complete
@@ -77,6 +77,8 @@ const INJECT_OBSERVER_SCRIPT = `(() => {
         if (el.nodeType !== 1) continue;
         if (IGNORE_TAGS.has(el.tagName)) continue;
         const attr = r.attributeName;
+        // Never report password values
+        if (attr === 'value' && el.type === 'password') continue;
         const oldVal = r.oldValue;
         const newVal = el.getAttribute(attr);
         if (oldVal === newVal) continue;
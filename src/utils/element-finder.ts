@@ -51,11 +51,13 @@ export function tokenizeQuery(query: string): string[] {
  * - Role match bonus: +30
  * - Interactive element bonus: +20
  * - Size bonuses/penalties: +10/-20
+ * - Learned per-site adjustments, when weights are given (see ElementRanker)
  */
 export function scoreElement(
   element: FoundElement,
   queryLower: string,
   queryTokens: string[],
+  learnedWeights?: LearnedWeights,
 ): number {
   let score = 0;
   const nameLower = element.name.toLowerCase();
@@ -126,9 +128,52 @@ export function scoreElement(
     score -= 20;
   }
 
+  if (learnedWeights) {
+    score += learnedAdjustment(element, queryTokens, learnedWeights);
+  }
+
   return score;
 }
 
+/**
+ * Learned weights for one site, keyed by element feature.
+ */
+export type LearnedWeights = Readonly<Record<string, number>>;
+
+/**
+ * Features of an element that learned weights attach to. Each one appears both
+ * on its own and tied to the query, so a site can learn that "search" means the
+ * header button without every query there preferring the header.
+ */
+export function elementFeatures(element: FoundElement, queryTokens: string[]): string[] {
+  const area = element.rect.width * element.rect.height;
+  const base = [
+    `role:${element.role}`,
+    `tag:${element.tagName}`,
+    `name:${element.name.toLowerCase().trim().slice(0, 40)}`,
+    `size:${area < 1000 ? 'small' : area < 10000 ? 'medium' : 'large'}`,
+    // Rects are centers for click tools and corners for find; the band is wide enough for both
+    `pos:${element.rect.y < 120 ? 'top' : 'body'}`,
+  ];
+  if (element.type) base.push(`type:${element.type}`);
+  if (element.ariaLabel) base.push(`aria:${element.ariaLabel.toLowerCase().trim().slice(0, 40)}`);
+  if (element.placeholder) base.push(`placeholder:${element.placeholder.toLowerCase().trim().slice(0, 40)}`);
+
+  const queryKey = [...queryTokens].sort().join(' ');
+  return queryKey ? [...base, ...base.map(feature => `${queryKey}|${feature}`)] : base;
+}
+
+/**
+ * Score adjustment from a site's learned weights.
+ */
+export function learnedAdjustment(element: FoundElement, queryTokens: string[], weights: LearnedWeights): number {
+  let adjustment = 0;
+  for (const feature of elementFeatures(element, queryTokens)) {
+    adjustment += weights[feature] || 0;
+  }
+  return adjustment;
+}
+
 /**
  * CSS selectors for interactive elements, used by in-page search.
  */
@@ -158,3 +203,19 @@ export const INTERACTIVE_SELECTORS = [
   '[role="alertdialog"] [aria-label]',
   '[data-testid]',
 ];
+
+/**
+ * In-page expression for every element of the document and of the open shadow
+ * roots under it. Used by CDP expressions that collect elements a search tagged.
+ */
+export const DEEP_ELEMENTS_EXPRESSION = `(() => {
+  const roots = [document];
+  const all = [];
+  for (let i = 0; i < roots.length; i++) {
+    for (const el of roots[i].querySelectorAll('*')) {
+      all.push(el);
+      if (el.shadowRoot) roots.push(el.shadowRoot);
+    }
+  }
+  return all;
+})()`;
@@ -0,0 +1,157 @@
+/**
+ * OTP Detector - Finds one-time code inputs on a page
+ *
+ * Recognizes autocomplete="one-time-code", groups of single-character boxes
+ * (one per digit), and inputs whose name/label/pattern suggest a 4-8 digit code.
+ * The same in-page function drives detection (navigate's blockingPage) and filling
+ * (totp tool), so both agree on which field is the OTP field.
+ */
+
+import type { Page } from 'puppeteer-core';
+
+export interface OtpFieldInfo {
+  /** single: one input takes the whole code; split: one input per digit */
+  kind: 'single' | 'split';
+  /** Number of inputs (1 for single) */
+  count: number;
+  description: string;
+}
+
+// In-page function: returns { kind, elements, description } or null.
+// If `scope` is an element, only that element (or the digit group it belongs to) is considered.
+const FIND_OTP_FIELDS_FN = `function findOtpFields(scope) {
+  const HINT = /one[-_ ]?time|\\botp\\b|totp|2fa|mfa|two[-_ ]?factor|verification[-_ ]?code|security[-_ ]?code|auth(entication)?[-_ ]?code|passcode|sms[-_ ]?code/i;
+  const EXCLUDED_TYPES = new Set(['hidden', 'submit', 'button', 'image', 'checkbox', 'radio', 'file', 'email']);
+
+  const visible = (el) => {
+    const r = el.getBoundingClientRect();
+    if (r.width === 0 || r.height === 0) return false;
+    const s = window.getComputedStyle(el);
+    return s.visibility !== 'hidden' && s.display !== 'none';
+  };
+  const describe = (el) => {
+    let d = el.tagName.toLowerCase();
+    if (el.id) d += '#' + el.id;
+    if (el.name) d += '[name="' + el.name + '"]';
+    const ac = el.getAttribute('autocomplete');
+    if (ac) d += '[autocomplete="' + ac + '"]';
+    return d;
+  };
+  const labelText = (el) => {
+    let text = '';
+    if (el.id) {
+      const label = document.querySelector('label[for="' + CSS.escape(el.id) + '"]');
+      if (label) text += label.textContent || '';
+    }
+    const wrapping = el.closest('label');
+    if (wrapping) text += ' ' + (wrapping.textContent || '');
+    return text;
+  };
+  const isOneTimeCode = (el) => (el.getAttribute('autocomplete') || '').toLowerCase().includes('one-time-code');
+  const isDigitBox = (el) => el.maxLength === 1;
+
+  // Single-character boxes sharing a container (directly or one wrapper deep)
+  const digitGroup = (el) => {
+    for (const container of [el.parentElement, el.parentElement && el.parentElement.parentElement]) {
+      if (!container) continue;
+      const boxes = Array.from(container.querySelectorAll('input')).filter(b => isDigitBox(b) && visible(b));
+      if (boxes.length >= 4 && boxes.length <= 8 && boxes.includes(el)) return boxes;
+    }
+    return null;
+  };
+
+  if (scope instanceof Element) {
+    const el = scope.matches('input, textarea') ? scope : scope.querySelector('input');
+    if (!el) return null;
+    const group = isDigitBox(el) ? digitGroup(el) : null;
+    if (group) return { kind: 'split', elements: group, description: group.length + ' single-digit inputs' };
+    return { kind: 'single', elements: [el], description: describe(el) };
+  }
+
+  const inputs = Array.from(document.querySelectorAll('input')).filter(el =>
+    !EXCLUDED_TYPES.has((el.type || 'text').toLowerCase()) && !el.disabled && !el.readOnly && visible(el)
+  );
+
+  // 1. Explicit autocomplete="one-time-code"
+  const marked = inputs.filter(isOneTimeCode);
+  for (const el of marked) {
+    const group = isDigitBox(el) ? digitGroup(el) : null;
+    if (group) return { kind: 'split', elements: group, description: group.length + ' single-digit inputs (one-time-code)' };
+  }
+  if (marked.length > 0) return { kind: 'single', elements: [marked[0]], description: describe(marked[0]) };
+
+  // 2. A group of single-digit boxes (tel/number/text)
+  for (const el of inputs) {
+    if (!isDigitBox(el)) continue;
+    const group = digitGroup(el);
+    if (group) return { kind: 'split', elements: group, description: group.length + ' single-digit inputs' };
+  }
+
+  // 3. Name, id, placeholder, aria-label or label text mentioning a code, with a code-like shape
+  for (const el of inputs) {
+    if ((el.type || '').toLowerCase() === 'password') continue;
+    const attrs = [el.name, el.id, el.placeholder, el.getAttribute('aria-label'), labelText(el)].join(' ');
+    const numeric = el.inputMode === 'numeric' || el.type === 'tel' || el.type === 'number' ||
+      /^(\\\\d|\\[0-9\\])/.test(el.getAttribute('pattern') || '');
+    const codeLength = el.maxLength >= 4 && el.maxLength <= 8;
+    if (HINT.test(attrs) && (numeric || codeLength || /code/i.test(attrs))) {
+      return { kind: 'single', elements: [el], description: describe(el) };
+    }
+    if (numeric && el.maxLength === 6) {
+      return { kind: 'single', elements: [el], description: describe(el) };
+    }
+  }
+
+  return null;
+}`;
+
+const DETECT_OTP_FIELD_SCRIPT = `(() => {
+  try {
+    const found = (${FIND_OTP_FIELDS_FN})(null);
+    return found ? { kind: found.kind, count: found.elements.length, description: found.description } : null;
+  } catch (e) {
+    return null;
+  }
+})()`;
+
+/**
+ * Function declaration for Runtime.callFunctionOn / Runtime.evaluate that fills a code.
+ * Called on an element (ref) it fills that field or its digit group; called on anything
+ * else it fills the detected OTP field. Values are set through the native setter so
+ * React/Vue-controlled inputs see the change.
+ */
+export const FILL_OTP_FUNCTION = `function fillOtp(code) {
+  const found = (${FIND_OTP_FIELDS_FN})(this instanceof Element ? this : null);
+  if (!found) return { success: false, error: 'No one-time code field found on the page' };
+
+  const setValue = (el, value) => {
+    el.focus();
+    const setter = Object.getOwnPropertyDescriptor(window.HTMLInputElement.prototype, 'value')?.set;
+    if (setter && el instanceof HTMLInputElement) setter.call(el, value); else el.value = value;
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    el.dispatchEvent(new KeyboardEvent('keyup', { bubbles: true, key: value.slice(-1) }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+  };
+
+  if (found.kind === 'split') {
+    if (found.elements.length < code.length) {
+      return { success: false, error: 'Found ' + found.elements.length + ' digit inputs for a ' + code.length + '-digit code' };
+    }
+    code.split('').forEach((digit, i) => setValue(found.elements[i], digit));
+  } else {
+    setValue(found.elements[0], code);
+  }
+  return { success: true, kind: found.kind, count: found.elements.length, description: found.description };
+}`;
+
+/**
+ * Detect the OTP input on the page, or null if there is none.
+ */
+export async function detectOtpField(page: Page): Promise<OtpFieldInfo | null> {
+  try {
+    const info = await page.evaluate(DETECT_OTP_FIELD_SCRIPT) as OtpFieldInfo | null;
+    return info && typeof info === 'object' && (info.kind === 'single' || info.kind === 'split') ? info : null;
+  } catch {
+    return null;
+  }
+}
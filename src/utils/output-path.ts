@@ -0,0 +1,35 @@
+/**
+ * Output path helpers for tools that write files on behalf of the caller
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Resolve a caller-supplied output path.
+ * Supports ~ and %USERPROFILE% (Windows) for the home directory; relative paths resolve against cwd.
+ */
+export function resolveOutputPath(filePath: string): string {
+  if (filePath.startsWith('~')) {
+    return path.resolve(path.join(os.homedir(), filePath.slice(1)));
+  }
+  if (process.platform === 'win32' && filePath.startsWith('%USERPROFILE%')) {
+    const rest = filePath.slice('%USERPROFILE%'.length).replace(/^[/\\]+/, '');
+    return path.resolve(path.join(os.homedir(), rest));
+  }
+  return path.resolve(filePath);
+}
+
+/**
+ * True if the resolved path falls inside a credential directory (~/.ssh, ~/.gnupg, ~/.aws).
+ */
+export function isSensitiveOutputPath(resolvedPath: string): boolean {
+  const normalizedPath = path.resolve(resolvedPath);
+  const homeDir = os.homedir();
+  const sensitiveRoots = [
+    path.join(homeDir, '.ssh'),
+    path.join(homeDir, '.gnupg'),
+    path.join(homeDir, '.aws'),
+  ];
+  return sensitiveRoots.some(root => normalizedPath.startsWith(root + path.sep) || normalizedPath === root);
+}
@@ -1,4 +1,5 @@
 import type { Page } from 'puppeteer-core';
+import { detectOtpField } from './otp-detector';
 
 export interface PageDiagnostics {
   url: string;
@@ -9,7 +10,7 @@ export interface PageDiagnostics {
 }
 
 export interface BlockingInfo {
-  type: 'captcha' | 'bot-check' | 'access-denied' | 'js-required';
+  type: 'captcha' | 'bot-check' | 'access-denied' | 'js-required' | 'otp';
   detail: string;
 }
 
@@ -45,10 +46,19 @@ export async function getPageDiagnostics(page: Page): Promise<PageDiagnostics> {
 }
 
 /**
- * Detect if the page is showing a blocking verification/captcha/access-denied page.
- * Returns null if page appears normal.
+ * Detect if the page is showing a blocking verification/captcha/access-denied page,
+ * or is asking for a one-time code. Returns null if page appears normal.
  */
 export async function detectBlockingPage(page: Page): Promise<BlockingInfo | null> {
+  const blocking = await detectBlockingContent(page);
+  if (blocking) return blocking;
+
+  // One-time code prompt (2FA step after login)
+  const otp = await detectOtpField(page);
+  return otp ? { type: 'otp', detail: otp.description } : null;
+}
+
+async function detectBlockingContent(page: Page): Promise<BlockingInfo | null> {
   try {
     return await page.evaluate(() => {
       const title = document.title.toLowerCase();
@@ -0,0 +1,260 @@
+/**
+ * Pixel Diff - Perceptual pixel comparison of two RGBA images.
+ *
+ * Colour distance is measured in YIQ space (Kotsarenko & Ramos), and pixels that
+ * differ only because of anti-aliasing are detected from their neighbourhood
+ * (Vysniauskas) so font smoothing noise does not count as a regression.
+ */
+
+import type { RGBAImage } from './png';
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelDiffOptions {
+  /** Per-pixel colour distance tolerance, 0 (exact) to 1. Default: 0.1 */
+  threshold?: number;
+  /** Count anti-aliased pixels as differences. Default: false */
+  includeAntialiasing?: boolean;
+  /** Regions (in image pixels) excluded from comparison */
+  ignoreRegions?: DiffRegion[];
+}
+
+export interface PixelDiffResult {
+  diffPixels: number;
+  antialiasedPixels: number;
+  ignoredPixels: number;
+  /** Pixels compared (total minus ignored) */
+  comparedPixels: number;
+  /** diffPixels as a percentage of comparedPixels */
+  mismatchPercent: number;
+  /** Red = different, yellow = anti-aliasing, blue = ignored, faded = identical */
+  diff: RGBAImage;
+}
+
+/** Largest possible YIQ delta between two colours */
+const MAX_YIQ_DELTA = 35215;
+const DEFAULT_THRESHOLD = 0.1;
+
+const DIFF_COLOR = [255, 0, 0];
+const AA_COLOR = [255, 255, 0];
+const IGNORE_COLOR = [120, 160, 255];
+
+/**
+ * Compare two equally sized RGBA images.
+ */
+export function diffImages(expected: RGBAImage, actual: RGBAImage, options: PixelDiffOptions = {}): PixelDiffResult {
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    throw new Error(
+      `Image sizes differ: ${expected.width}x${expected.height} vs ${actual.width}x${actual.height}`
+    );
+  }
+
+  const { width, height } = expected;
+  const threshold = Math.min(1, Math.max(0, options.threshold ?? DEFAULT_THRESHOLD));
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const ignored = buildIgnoreMask(width, height, options.ignoreRegions ?? []);
+  const img1 = expected.data;
+  const img2 = actual.data;
+  const out = Buffer.alloc(width * height * 4);
+
+  let diffPixels = 0;
+  let antialiasedPixels = 0;
+  let ignoredPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const pos = i * 4;
+
+      if (ignored && ignored[i]) {
+        ignoredPixels++;
+        paint(out, pos, IGNORE_COLOR);
+        continue;
+      }
+
+      const delta = colorDelta(img1, img2, pos, pos, false);
+      if (Math.abs(delta) > maxDelta) {
+        const aa = !options.includeAntialiasing
+          && (antialiased(img1, x, y, width, height, img2) || antialiased(img2, x, y, width, height, img1));
+        if (aa) {
+          antialiasedPixels++;
+          paint(out, pos, AA_COLOR);
+        } else {
+          diffPixels++;
+          paint(out, pos, DIFF_COLOR);
+        }
+      } else {
+        // Faded grayscale copy of the expected image for context
+        const gray = blend(grayValue(img1, pos), 0.1 * img1[pos + 3] / 255);
+        paint(out, pos, [gray, gray, gray]);
+      }
+    }
+  }
+
+  const comparedPixels = width * height - ignoredPixels;
+  return {
+    diffPixels,
+    antialiasedPixels,
+    ignoredPixels,
+    comparedPixels,
+    mismatchPercent: comparedPixels > 0 ? (diffPixels / comparedPixels) * 100 : 0,
+    diff: { width, height, data: out },
+  };
+}
+
+function buildIgnoreMask(width: number, height: number, regions: DiffRegion[]): Uint8Array | null {
+  if (regions.length === 0) return null;
+  const mask = new Uint8Array(width * height);
+  for (const r of regions) {
+    const x0 = Math.max(0, Math.floor(r.x));
+    const y0 = Math.max(0, Math.floor(r.y));
+    const x1 = Math.min(width, Math.ceil(r.x + r.width));
+    const y1 = Math.min(height, Math.ceil(r.y + r.height));
+    for (let y = y0; y < y1; y++) {
+      mask.fill(1, y * width + x0, y * width + Math.max(x0, x1));
+    }
+  }
+  return mask;
+}
+
+/**
+ * Whether the pixel at (x1, y1) looks like an anti-aliased edge: it has at most two
+ * identical neighbours, and its darkest and brightest neighbours both sit in an area
+ * of flat colour in both images.
+ */
+function antialiased(img: Buffer, x1: number, y1: number, width: number, height: number, img2: Buffer): boolean {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX = 0;
+  let minY = 0;
+  let maxX = 0;
+  let maxY = 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+
+      const delta = colorDelta(img, img, pos, (y * width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) return false;
+      } else if (delta < min) {
+        min = delta;
+        minX = x;
+        minY = y;
+      } else if (delta > max) {
+        max = delta;
+        maxX = x;
+        maxY = y;
+      }
+    }
+  }
+
+  // No darker or no brighter neighbours: not an edge
+  if (min === 0 || max === 0) return false;
+
+  return (hasManySiblings(img, minX, minY, width, height) && hasManySiblings(img2, minX, minY, width, height))
+    || (hasManySiblings(img, maxX, maxY, width, height) && hasManySiblings(img2, maxX, maxY, width, height));
+}
+
+/** Whether a pixel has at least three identical neighbours */
+function hasManySiblings(img: Buffer, x1: number, y1: number, width: number, height: number): boolean {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      const pos2 = (y * width + x) * 4;
+      if (img[pos] === img[pos2] && img[pos + 1] === img[pos2 + 1]
+        && img[pos + 2] === img[pos2 + 2] && img[pos + 3] === img[pos2 + 3]) {
+        zeroes++;
+      }
+      if (zeroes > 2) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Squared YIQ distance between two pixels (alpha-blended onto white).
+ * Negative when the second pixel is brighter; with yOnly, returns the luma difference.
+ */
+function colorDelta(img1: Buffer, img2: Buffer, k: number, m: number, yOnly: boolean): number {
+  let r1 = img1[k];
+  let g1 = img1[k + 1];
+  let b1 = img1[k + 2];
+  const a1 = img1[k + 3];
+  let r2 = img2[m];
+  let g2 = img2[m + 1];
+  let b2 = img2[m + 2];
+  const a2 = img2[m + 3];
+
+  if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) return 0;
+
+  if (a1 < 255) {
+    const a = a1 / 255;
+    r1 = blend(r1, a);
+    g1 = blend(g1, a);
+    b1 = blend(b1, a);
+  }
+  if (a2 < 255) {
+    const a = a2 / 255;
+    r2 = blend(r2, a);
+    g2 = blend(g2, a);
+    b2 = blend(b2, a);
+  }
+
+  const y1 = rgb2y(r1, g1, b1);
+  const y2 = rgb2y(r2, g2, b2);
+  const y = y1 - y2;
+  if (yOnly) return y;
+
+  const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+  return y1 > y2 ? -delta : delta;
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
+
+/** Blend a channel value with white at the given opacity */
+function blend(c: number, a: number): number {
+  return 255 + (c - 255) * a;
+}
+
+function grayValue(img: Buffer, pos: number): number {
+  return rgb2y(img[pos], img[pos + 1], img[pos + 2]);
+}
+
+function paint(out: Buffer, pos: number, [r, g, b]: number[]): void {
+  out[pos] = r;
+  out[pos + 1] = g;
+  out[pos + 2] = b;
+  out[pos + 3] = 255;
+}
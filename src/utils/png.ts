@@ -0,0 +1,184 @@
+/**
+ * PNG codec - Minimal decode/encode of 8-bit PNGs to/from RGBA pixel buffers.
+ *
+ * Covers what Chrome's Page.captureScreenshot emits (8-bit RGB/RGBA, non-interlaced)
+ * plus grayscale and palette images, so visual snapshots need no native image library.
+ */
+
+import * as zlib from 'zlib';
+import { crc32 } from './crc32';
+
+export interface RGBAImage {
+  width: number;
+  height: number;
+  /** RGBA, 4 bytes per pixel, row-major */
+  data: Buffer;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Bytes per pixel for each supported color type at 8-bit depth */
+const CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+/**
+ * Decode a PNG into RGBA pixels. Throws on unsupported or corrupt input.
+ */
+export function decodePng(buf: Buffer): RGBAImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString('ascii', offset + 4, offset + 8);
+    const chunk = buf.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9];
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0 || idat.length === 0) {
+    throw new Error('Corrupt PNG: missing IHDR or IDAT');
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Corrupt PNG: palette image without PLTE');
+  }
+
+  const bpp = CHANNELS[colorType];
+  const stride = width * bpp;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('Corrupt PNG: truncated image data');
+  }
+
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? pixels[dst + x - bpp] : 0;
+      const up = y > 0 ? pixels[dst - stride + x] : 0;
+      const upLeft = x >= bpp && y > 0 ? pixels[dst - stride + x - bpp] : 0;
+      let value = raw[src + x];
+      switch (filter) {
+        case 0: break;
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += (left + up) >> 1; break;
+        case 4: value += paeth(left, up, upLeft); break;
+        default: throw new Error(`Corrupt PNG: unknown filter ${filter}`);
+      }
+      pixels[dst + x] = value & 0xff;
+    }
+  }
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += bpp) {
+    const o = i * 4;
+    switch (colorType) {
+      case 0:
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = 255;
+        break;
+      case 2:
+        data[o] = pixels[p];
+        data[o + 1] = pixels[p + 1];
+        data[o + 2] = pixels[p + 2];
+        data[o + 3] = 255;
+        break;
+      case 3: {
+        const index = pixels[p];
+        data[o] = palette![index * 3];
+        data[o + 1] = palette![index * 3 + 1];
+        data[o + 2] = palette![index * 3 + 2];
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4:
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = pixels[p + 1];
+        break;
+      case 6:
+        pixels.copy(data, o, p, p + 4);
+        break;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit RGBA PNG.
+ */
+export function encodePng(image: RGBAImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', ihdr),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+  return Buffer.concat([header, body, crc]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
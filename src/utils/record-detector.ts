@@ -0,0 +1,331 @@
+/**
+ * Record Detector - Finds tables and repeated sibling structures (product grids,
+ * result lists) and returns them as rows with inferred column names.
+ *
+ * Every group comes with a unique selector for its records and per-column selector
+ * hints, so it can be handed to the extract tool (or batch_paginate records mode)
+ * once a schema is known.
+ */
+
+import type { Page } from 'puppeteer-core';
+import { withTimeout } from './with-timeout';
+import type { FieldHint } from './record-extractor';
+
+export type RecordFormat = 'json' | 'csv' | 'markdown';
+
+export interface RecordGroup {
+  kind: 'table' | 'list';
+  /** Matches every record (table row or list item) */
+  selector: string;
+  /** The table or list parent */
+  containerSelector: string;
+  rowCount: number;
+  columns: string[];
+  /** Hint per column, relative to a record, in extract's `fields` format */
+  fields: Record<string, FieldHint>;
+  /** Cell values aligned with columns (null: missing), at most maxRows */
+  rows: Array<Array<string | null>>;
+}
+
+export interface DetectOptions {
+  /** Only look inside this element */
+  rootSelector?: string;
+  maxGroups: number;
+  maxRows: number;
+}
+
+/**
+ * In-page detector. Must stay self-contained: it is serialized into the page.
+ * Returns null if rootSelector matches nothing.
+ */
+function detectInPage(options: DetectOptions): RecordGroup[] | null {
+  const root = options.rootSelector ? document.querySelector(options.rootSelector) : document.body;
+  if (!root) return null;
+
+  const clean = (s: string | null | undefined) => (s || '').replace(/\s+/g, ' ').trim();
+  const textOf = (el: Element) => clean((el as HTMLElement).innerText ?? el.textContent);
+  const visible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  // Classes that look generated (css-1x2y3z, sc-bdVaJa, jsx-123) or describe state change between renders
+  const isStableClass = (c: string) =>
+    /^[A-Za-z][\w-]{0,39}$/.test(c) &&
+    !/\d{3,}/.test(c) &&
+    !/^(css|sc|jsx|emotion|styled|svelte|ng)-/.test(c) &&
+    !/^(is|has)-|^(active|selected|hover|focus|open|hidden|visible|disabled|current)$/.test(c);
+  const stableClasses = (el: Element) => Array.from(el.classList).filter(isStableClass).slice(0, 2);
+  const segment = (el: Element) =>
+    el.tagName.toLowerCase() + stableClasses(el).map(c => '.' + CSS.escape(c)).join('');
+  const isUnique = (selector: string) => {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+
+  const uniqueSelector = (el: Element): string => {
+    if (el === document.body) return 'body';
+    if (el.id && !/\d{4,}|^\d|:/.test(el.id) && isUnique('#' + CSS.escape(el.id))) return '#' + CSS.escape(el.id);
+    for (const attr of ['data-testid', 'data-test', 'data-qa', 'data-cy', 'aria-label']) {
+      const value = el.getAttribute(attr);
+      if (value) {
+        const selector = `${el.tagName.toLowerCase()}[${attr}="${CSS.escape(value)}"]`;
+        if (isUnique(selector)) return selector;
+      }
+    }
+    const own = segment(el);
+    if (isUnique(own)) return own;
+    const parent = el.parentElement;
+    if (!parent) return own;
+    const sameTag = Array.from(parent.children).filter(c => c.tagName === el.tagName);
+    const step = sameTag.length > 1 ? `${own}:nth-of-type(${sameTag.indexOf(el) + 1})` : own;
+    return `${uniqueSelector(parent)} > ${step}`;
+  };
+
+  const dedupeNames = (names: string[]) => {
+    const used = new Map<string, number>();
+    return names.map(name => {
+      const n = (used.get(name) ?? 0) + 1;
+      used.set(name, n);
+      return n === 1 ? name : `${name}_${n}`;
+    });
+  };
+  const toName = (s: string) => clean(s).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 40);
+
+  const groups: Array<RecordGroup & { score: number; element: Element; items: Element[] }> = [];
+
+  // ---- Tables ----
+  const tables = Array.from(root.querySelectorAll('table'));
+  if (root instanceof HTMLTableElement) tables.unshift(root);
+  for (const table of tables) {
+    if (table.getAttribute('role') === 'presentation' || !visible(table)) continue;
+    const allRows = Array.from(table.rows);
+    const headerRow = table.tHead?.rows[table.tHead.rows.length - 1] ??
+      (allRows[0] && Array.from(allRows[0].cells).every(c => c.tagName === 'TH') ? allRows[0] : undefined);
+    const dataRows = allRows.filter(r => r !== headerRow && r.parentElement !== table.tHead && r.querySelector(':scope > td'));
+    if (dataRows.length < 2) continue;
+    // Layout tables hold other tables
+    if (table.querySelector('table')) continue;
+
+    const width = Math.max(...dataRows.map(r => r.cells.length));
+    const headers = Array.from({ length: width }, (_, i) => {
+      const cell = headerRow?.cells[i];
+      return (cell && toName(cell.textContent || '')) || `column_${i + 1}`;
+    });
+    const withLinks = dataRows.filter(r => r.querySelector('a[href]')).length;
+    const addUrl = withLinks >= dataRows.length / 2 && !headers.includes('url');
+    const columns = dedupeNames(addUrl ? [...headers, 'url'] : headers);
+
+    const fields: Record<string, FieldHint> = {};
+    headers.forEach((_, i) => { fields[columns[i]] = { selector: `:scope > :nth-child(${i + 1})` }; });
+    if (addUrl) fields[columns[columns.length - 1]] = { selector: 'a[href]', attribute: 'href' };
+
+    const rows = dataRows.slice(0, options.maxRows).map(r => {
+      const cells: Array<string | null> = headers.map((_, i) => (r.cells[i] ? textOf(r.cells[i]) || null : null));
+      if (addUrl) cells.push((r.querySelector('a[href]') as HTMLAnchorElement | null)?.href ?? null);
+      return cells;
+    });
+
+    const tableSelector = uniqueSelector(table);
+    groups.push({
+      kind: 'table',
+      // The table's own rows only, not those of a table nested in a cell
+      selector: ['> tbody >', '> tfoot >', '>'].map(path => `${tableSelector} ${path} tr:has(> td)`).join(', '),
+      containerSelector: tableSelector,
+      rowCount: dataRows.length,
+      columns,
+      fields,
+      rows,
+      score: dataRows.length * width,
+      element: table,
+      items: dataRows,
+    });
+  }
+
+  // ---- Repeated siblings ----
+  const SKIP_PARENTS = new Set(['TABLE', 'THEAD', 'TBODY', 'TFOOT', 'TR', 'COLGROUP', 'SELECT', 'DATALIST', 'OPTGROUP', 'svg', 'HEAD']);
+  const SKIP_CHILDREN = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'BR', 'HR']);
+  const signature = (el: Element) => el.tagName + '|' + stableClasses(el).sort().join('.');
+
+  // Leaf-ish values of a record: elements with their own text, images, keyed by path from the record
+  type Leaf = { key: string; el: Element; kind: 'text' | 'image' };
+  const leavesOf = (item: Element): Leaf[] => {
+    const leaves: Leaf[] = [];
+    const seen = new Set<string>();
+    const walk = (el: Element, path: string) => {
+      for (const child of Array.from(el.children)) {
+        if (SKIP_CHILDREN.has(child.tagName) || child.tagName.toLowerCase() === 'svg') continue;
+        const childPath = path ? `${path} > ${segment(child)}` : segment(child);
+        if (child.tagName === 'IMG') {
+          if (!seen.has(childPath + '@src')) {
+            seen.add(childPath + '@src');
+            leaves.push({ key: childPath + '@src', el: child, kind: 'image' });
+          }
+          continue;
+        }
+        const ownText = Array.from(child.childNodes).some(n => n.nodeType === Node.TEXT_NODE && clean(n.textContent));
+        if (ownText) {
+          if (!seen.has(childPath)) {
+            seen.add(childPath);
+            leaves.push({ key: childPath, el: child, kind: 'text' });
+          }
+          continue;
+        }
+        walk(child, childPath);
+      }
+    };
+    walk(item, '');
+    return leaves;
+  };
+
+  const nameFor = (leaf: Leaf) => {
+    const el = leaf.el;
+    const explicit = el.getAttribute('itemprop') || el.getAttribute('data-field') || el.getAttribute('data-testid');
+    if (explicit) return toName(explicit);
+    const cls = stableClasses(el)[0];
+    if (cls) return toName(cls.includes('__') ? cls.split('__').pop()! : cls);
+    if (leaf.kind === 'image') return 'image';
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) return 'title';
+    if (tag === 'a') return 'link';
+    if (tag === 'time') return 'date';
+    return 'text';
+  };
+
+  const candidates = [root, ...Array.from(root.querySelectorAll('*'))];
+  for (const parent of candidates) {
+    if (parent.children.length < 3 || SKIP_PARENTS.has(parent.tagName)) continue;
+    if (parent.closest('nav, header, footer, [role="navigation"], [role="menu"], [role="menubar"], [role="tablist"]')) continue;
+
+    const bySignature = new Map<string, Element[]>();
+    let counted = 0;
+    for (const child of Array.from(parent.children)) {
+      if (SKIP_CHILDREN.has(child.tagName)) continue;
+      counted++;
+      const sig = signature(child);
+      if (!bySignature.has(sig)) bySignature.set(sig, []);
+      bySignature.get(sig)!.push(child);
+    }
+    const largest = Array.from(bySignature.values()).sort((a, b) => b.length - a.length)[0];
+    if (!largest || largest.length < 3 || largest.length < counted / 2) continue;
+    const items = largest.filter(visible);
+    if (items.length < 3) continue;
+
+    // Columns: leaf paths present in at least half of the records, in record order
+    const perItem = items.map(leavesOf);
+    const frequency = new Map<string, { count: number; leaf: Leaf; order: number }>();
+    perItem.forEach(leaves => leaves.forEach((leaf, order) => {
+      const entry = frequency.get(leaf.key);
+      if (entry) entry.count++;
+      else frequency.set(leaf.key, { count: 1, leaf, order });
+    }));
+    const keys = Array.from(frequency.entries())
+      .filter(([, v]) => v.count >= items.length / 2)
+      .sort((a, b) => a[1].order - b[1].order)
+      .slice(0, 12)
+      .map(([key, v]) => ({ key, leaf: v.leaf }));
+    const textColumns = keys.filter(k => k.leaf.kind === 'text').length;
+    if (textColumns === 0) continue;
+
+    const avgText = items.reduce((sum, item) => sum + textOf(item).length, 0) / items.length;
+    // Menus and tag clouds: one short text per item
+    if (textColumns < 2 && avgText < 20) continue;
+
+    const withLinks = items.filter(item => item.matches('a[href]') || item.querySelector('a[href]')).length;
+    const addUrl = withLinks >= items.length / 2;
+    const columns = dedupeNames([...keys.map(k => nameFor(k.leaf)), ...(addUrl ? ['url'] : [])]);
+
+    const fields: Record<string, FieldHint> = {};
+    keys.forEach((k, i) => {
+      fields[columns[i]] = k.leaf.kind === 'image'
+        ? { selector: `:scope > ${k.key.replace(/@src$/, '')}`, attribute: 'src' }
+        : { selector: `:scope > ${k.key}` };
+    });
+    if (addUrl) fields[columns[columns.length - 1]] = { selector: 'a[href]', attribute: 'href' };
+
+    const rows = items.slice(0, options.maxRows).map((item, i) => {
+      const byKey = new Map(perItem[i].map(leaf => [leaf.key, leaf.el]));
+      const cells: Array<string | null> = keys.map(k => {
+        const el = byKey.get(k.key);
+        if (!el) return null;
+        return k.leaf.kind === 'image' ? ((el as HTMLImageElement).currentSrc || (el as HTMLImageElement).src || null) : textOf(el) || null;
+      });
+      if (addUrl) {
+        const link = (item.matches('a[href]') ? item : item.querySelector('a[href]')) as HTMLAnchorElement | null;
+        cells.push(link?.href ?? null);
+      }
+      return cells;
+    });
+
+    const containerSelector = uniqueSelector(parent);
+    groups.push({
+      kind: 'list',
+      selector: `${containerSelector} > ${segment(items[0])}`,
+      containerSelector,
+      rowCount: items.length,
+      columns,
+      fields,
+      rows,
+      score: items.length * columns.length,
+      element: parent,
+      items,
+    });
+  }
+
+  // Best groups first; drop groups nested in (or wrapping) a better one
+  groups.sort((a, b) => b.score - a.score);
+  const chosen: typeof groups = [];
+  for (const group of groups) {
+    if (chosen.length >= options.maxGroups) break;
+    const overlaps = chosen.some(c => c.element.contains(group.element) || group.element.contains(c.element));
+    if (!overlaps) chosen.push(group);
+  }
+
+  return chosen.map(({ kind, selector, containerSelector, rowCount, columns, fields, rows }) =>
+    ({ kind, selector, containerSelector, rowCount, columns, fields, rows }));
+}
+
+/**
+ * Detect tables and repeated structures, best first.
+ * @returns null if rootSelector matched nothing
+ */
+export async function detectRecordGroups(page: Page, options: DetectOptions): Promise<RecordGroup[] | null> {
+  return withTimeout(page.evaluate(detectInPage, options), 15000, 'detect_records');
+}
+
+/** Rows as objects keyed by column name (missing cells omitted) */
+export function rowsToObjects(group: RecordGroup): Record<string, string>[] {
+  return group.rows.map(row => {
+    const record: Record<string, string> = {};
+    group.columns.forEach((column, i) => {
+      if (row[i] !== null && row[i] !== undefined) record[column] = row[i]!;
+    });
+    return record;
+  });
+}
+
+function csvCell(value: string | null): string {
+  if (value === null) return '';
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** RFC 4180 CSV with a header row */
+export function toCsv(columns: string[], rows: Array<Array<string | null>>): string {
+  return [columns, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+function markdownCell(value: string | null): string {
+  return (value ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** GitHub-flavored Markdown table */
+export function toMarkdown(columns: string[], rows: Array<Array<string | null>>): string {
+  return [
+    `| ${columns.map(markdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map((_, i) => markdownCell(row[i] ?? null)).join(' | ')} |`),
+  ].join('\n');
+}
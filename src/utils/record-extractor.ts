@@ -0,0 +1,355 @@
+/**
+ * Record Extractor - Turns repeated page elements into records typed by a JSON Schema
+ *
+ * Each field of the record schema is read from a selector hint (CSS or XPath,
+ * relative to the record container unless scope is "page"). Fields without a hint
+ * are located by name: itemprop, data-field, name, class, dt/dd and th/td labels.
+ * Values are read in the page as strings, then coerced to the schema types,
+ * validated, and missing fields are counted per field.
+ */
+
+import type { Page } from 'puppeteer-core';
+import { JsonSchema, validateJsonSchema } from './json-schema-validator';
+import { withTimeout } from './with-timeout';
+
+export interface FieldHint {
+  /** CSS selector */
+  selector?: string;
+  /** XPath expression; relative paths (./, .//) start at the container */
+  xpath?: string;
+  /** Read this attribute instead of the text */
+  attribute?: string;
+  /** container (default): search inside each record; page: search the whole document */
+  scope?: 'container' | 'page';
+  /** Collect every match (default for array fields) instead of the first */
+  all?: boolean;
+}
+
+export interface ExtractionSpec {
+  /** Schema for one record (type object) */
+  schema: JsonSchema;
+  /** Element repeated once per record. Omitted: the whole page is one record */
+  container?: FieldHint;
+  fields: Record<string, FieldHint>;
+  limit: number;
+}
+
+export interface InvalidRecord {
+  index: number;
+  errors: string[];
+}
+
+export interface ExtractionResult {
+  containerCount: number;
+  records: Record<string, unknown>[];
+  /** Records in which a field was not found, per field */
+  misses: Record<string, number>;
+  /** Fields without a hint that were located by name */
+  autoDetected: string[];
+  invalid: InvalidRecord[];
+}
+
+export const DEFAULT_EXTRACT_LIMIT = 100;
+export const MAX_EXTRACT_LIMIT = 1000;
+
+type RawValue = string | string[] | null;
+
+interface InPageField {
+  name: string;
+  hint: (FieldHint & { scope: 'container' | 'page' }) | null;
+  /** How to read an element when no attribute is given */
+  kind: 'text' | 'url' | 'image';
+  all: boolean;
+}
+
+interface InPageSpec {
+  container: (FieldHint & { scope: 'container' | 'page' }) | null;
+  fields: InPageField[];
+  limit: number;
+}
+
+interface InPageResult {
+  containerCount: number;
+  rows: Array<Record<string, RawValue>>;
+  autoDetected: string[];
+}
+
+function normalizeHint(value: unknown, label: string): FieldHint {
+  const hint: FieldHint = typeof value === 'string' ? { selector: value } : { ...(value as FieldHint) };
+  if (!hint || typeof hint !== 'object' || (!hint.selector && !hint.xpath)) {
+    throw new Error(`${label} needs a selector (CSS) or xpath`);
+  }
+  if (hint.scope && hint.scope !== 'container' && hint.scope !== 'page') {
+    throw new Error(`${label} scope must be "container" or "page"`);
+  }
+  return hint;
+}
+
+function primaryType(schema: JsonSchema): string | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return types.find(t => t !== 'null');
+}
+
+/**
+ * Validate tool arguments into an ExtractionSpec. Throws with a message for the caller.
+ * An array schema is accepted and its items schema used for each record.
+ */
+export function parseExtractionSpec(args: Record<string, unknown>): ExtractionSpec {
+  let schema = args.schema as JsonSchema | undefined;
+  if (!schema || typeof schema !== 'object') {
+    throw new Error('schema is required (JSON Schema of one record, e.g. {"type":"object","properties":{"title":{"type":"string"}}})');
+  }
+  if (primaryType(schema) === 'array' && schema.items) {
+    schema = schema.items;
+  }
+  const properties = schema.properties;
+  if (!properties || typeof properties !== 'object' || Object.keys(properties).length === 0) {
+    throw new Error('schema must describe an object with properties');
+  }
+  for (const [name, property] of Object.entries(properties)) {
+    const type = primaryType(property ?? {});
+    if (type === 'object' || (type === 'array' && primaryType(property.items ?? {}) === 'object')) {
+      throw new Error(`Field "${name}": nested objects are not supported; extract them as separate fields`);
+    }
+  }
+
+  const fields: Record<string, FieldHint> = {};
+  for (const [name, value] of Object.entries((args.fields as Record<string, unknown>) ?? {})) {
+    if (!(name in properties)) {
+      throw new Error(`Field hint "${name}" is not a property of the schema`);
+    }
+    fields[name] = normalizeHint(value, `Field hint "${name}"`);
+  }
+
+  const limit = Math.min(Math.max(Math.floor((args.limit as number) ?? DEFAULT_EXTRACT_LIMIT), 1), MAX_EXTRACT_LIMIT);
+
+  return {
+    schema,
+    ...(args.container !== undefined && { container: normalizeHint(args.container, 'container') }),
+    fields,
+    limit,
+  };
+}
+
+function toInPageSpec(spec: ExtractionSpec): InPageSpec {
+  return {
+    container: spec.container ? { ...spec.container, scope: spec.container.scope ?? 'page' } : null,
+    limit: spec.limit,
+    fields: Object.entries(spec.schema.properties!).map(([name, property]) => {
+      const all = primaryType(property) === 'array';
+      const hint = spec.fields[name];
+      const kind = /image|img|photo|picture|thumbnail|avatar/i.test(name)
+        ? 'image'
+        : property.format === 'uri' || /url|link|href/i.test(name) ? 'url' : 'text';
+      return {
+        name,
+        hint: hint ? { ...hint, scope: hint.scope ?? 'container' } : null,
+        kind,
+        all: hint?.all ?? all,
+      };
+    }),
+  };
+}
+
+/**
+ * In-page collector. Must stay self-contained: it is serialized into the page.
+ */
+function collectRecords(spec: InPageSpec): InPageResult {
+  const clean = (s: string | null | undefined) => (s || '').replace(/\s+/g, ' ').trim();
+
+  const findAll = (hint: FieldHint, root: Element): Node[] => {
+    const base: Document | Element = hint.scope === 'page' ? document : root;
+    if (hint.xpath) {
+      const snapshot = document.evaluate(hint.xpath, base, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      const nodes: Node[] = [];
+      for (let i = 0; i < snapshot.snapshotLength; i++) {
+        const node = snapshot.snapshotItem(i);
+        if (node) nodes.push(node);
+      }
+      return nodes;
+    }
+    return Array.from(base.querySelectorAll(hint.selector!));
+  };
+
+  const readNode = (node: Node, field: InPageField, attribute?: string): string | null => {
+    if (!(node instanceof Element)) return clean(node.nodeValue ?? node.textContent) || null;
+    if (attribute) {
+      const property = (node as unknown as Record<string, unknown>)[attribute];
+      if ((attribute === 'href' || attribute === 'src') && typeof property === 'string' && property) return property;
+      const value = node.getAttribute(attribute);
+      return value === null ? null : clean(value) || null;
+    }
+    if (field.kind === 'url') {
+      const link = node.closest('a[href]') ?? node.querySelector('a[href]');
+      if (link) return (link as HTMLAnchorElement).href;
+    }
+    if (field.kind === 'image') {
+      const img = node instanceof HTMLImageElement ? node : node.querySelector('img');
+      if (img) return img.currentSrc || img.src || null;
+    }
+    if (node instanceof HTMLInputElement || node instanceof HTMLTextAreaElement || node instanceof HTMLSelectElement) {
+      return clean(node.value) || null;
+    }
+    return clean((node as HTMLElement).innerText ?? node.textContent) || null;
+  };
+
+  // Locate an unhinted field by its name: camelCase/snake_case -> variants
+  const autoFind = (field: InPageField, root: Element): Element[] => {
+    const words = field.name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase().trim();
+    const variants = Array.from(new Set([field.name, words.replace(/ /g, '-'), words.replace(/ /g, '_'), words.replace(/ /g, '')]));
+    const selectors: string[] = [];
+    for (const v of variants) {
+      const q = CSS.escape(v);
+      selectors.push(`[itemprop="${q}" i]`, `[data-field="${q}" i]`, `[data-testid="${q}" i]`, `[name="${q}" i]`);
+    }
+    if (words.length >= 3) {
+      for (const v of variants) selectors.push(`[class*="${CSS.escape(v)}" i]`);
+    }
+    for (const selector of selectors) {
+      try {
+        const matches = Array.from(root.querySelectorAll(selector));
+        if (matches.length > 0) return matches;
+      } catch {
+        // Unsupported selector syntax in this browser
+      }
+    }
+
+    // Label/value pairs: <dt>Price</dt><dd>…</dd> and <th>Price</th><td>…</td>
+    for (const label of Array.from(root.querySelectorAll('dt, th'))) {
+      if (clean(label.textContent).toLowerCase().replace(/:$/, '') !== words) continue;
+      if (label.tagName === 'DT') {
+        const dd = label.nextElementSibling;
+        if (dd && dd.tagName === 'DD') return [dd];
+      } else {
+        const cell = label.nextElementSibling;
+        if (cell && cell.tagName === 'TD') return [cell];
+      }
+    }
+
+    if (field.kind === 'url') {
+      const link = root.querySelector('a[href]');
+      if (link) return [link];
+    }
+    if (field.kind === 'image') {
+      const img = root.querySelector('img');
+      if (img) return [img];
+    }
+    return [];
+  };
+
+  const containers = spec.container ? findAll(spec.container, document.documentElement) : [document.body];
+  const elements = containers.filter((node): node is Element => node instanceof Element);
+  const autoDetected = new Set<string>();
+
+  const rows = elements.slice(0, spec.limit).map(root => {
+    const row: Record<string, RawValue> = {};
+    for (const field of spec.fields) {
+      let nodes: Node[];
+      if (field.hint) {
+        nodes = findAll(field.hint, root);
+      } else {
+        nodes = autoFind(field, root);
+        if (nodes.length > 0) autoDetected.add(field.name);
+      }
+      const values = nodes
+        .slice(0, field.all ? nodes.length : 1)
+        .map(node => readNode(node, field, field.hint?.attribute))
+        .filter((v): v is string => v !== null);
+      row[field.name] = field.all ? (values.length > 0 ? values : null) : values[0] ?? null;
+    }
+    return row;
+  });
+
+  return { containerCount: elements.length, rows, autoDetected: Array.from(autoDetected) };
+}
+
+/** Parse "$1,299.00", "1 299,00 €", "-3.5%" into a number; NaN if there are no digits */
+export function parseNumber(raw: string): number {
+  const match = raw.replace(/[\u00a0\u202f]/g, ' ').match(/-?\d[\d.,' ]*/);
+  if (!match) return NaN;
+  let digits = match[0].replace(/[\s']/g, '').replace(/[.,]$/, '');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma > lastDot && /,\d{1,2}$/.test(digits)) {
+    // Decimal comma: 1.299,50
+    digits = digits.replace(/\./g, '').replace(',', '.');
+  } else {
+    digits = digits.replace(/,/g, '');
+  }
+  return Number(digits);
+}
+
+/**
+ * Coerce a raw string (or list) to the field's schema type. Values that cannot be
+ * coerced are returned unchanged so validation reports them.
+ */
+export function coerceValue(raw: string | string[], schema: JsonSchema): unknown {
+  const type = primaryType(schema);
+  if (type === 'array') {
+    const items = Array.isArray(raw) ? raw : [raw];
+    return items.map(item => coerceValue(item, schema.items ?? {}));
+  }
+  const value = Array.isArray(raw) ? raw.join(', ') : raw;
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const n = parseNumber(value);
+      return Number.isNaN(n) ? value : n;
+    }
+    case 'boolean':
+      if (/^(true|yes|y|on|checked|1|✓|✔)$/i.test(value)) return true;
+      if (/^(false|no|n|off|unchecked|0|✗|✘)$/i.test(value)) return false;
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Per-field misses and schema violations for a set of records (one page or a merged dataset).
+ */
+export function summarizeRecords(
+  records: Record<string, unknown>[],
+  schema: JsonSchema
+): Pick<ExtractionResult, 'misses' | 'invalid'> {
+  const misses: Record<string, number> = {};
+  const invalid: InvalidRecord[] = [];
+  records.forEach((record, index) => {
+    for (const name of Object.keys(schema.properties ?? {})) {
+      if (record[name] === undefined) misses[name] = (misses[name] ?? 0) + 1;
+    }
+    const errors = validateJsonSchema(record, schema);
+    if (errors.length > 0) invalid.push({ index, errors });
+  });
+  return { misses, invalid };
+}
+
+/** Turn collected rows into typed, validated records */
+export function buildRecords(raw: InPageResult, schema: JsonSchema): ExtractionResult {
+  const properties = schema.properties ?? {};
+  const records = raw.rows.map(row => {
+    const record: Record<string, unknown> = {};
+    for (const name of Object.keys(properties)) {
+      const value = row[name];
+      if (value !== null && value !== undefined) {
+        record[name] = coerceValue(value, properties[name]);
+      }
+    }
+    return record;
+  });
+
+  return {
+    containerCount: raw.containerCount,
+    records,
+    ...summarizeRecords(records, schema),
+    autoDetected: raw.autoDetected,
+  };
+}
+
+/**
+ * Extract records from the current page.
+ */
+export async function extractRecords(page: Page, spec: ExtractionSpec): Promise<ExtractionResult> {
+  const raw = await withTimeout(page.evaluate(collectRecords, toInPageSpec(spec)), 15000, 'extract');
+  return buildRecords(raw, spec.schema);
+}
@@ -15,6 +15,8 @@ export interface RefEntry {
   name?: string;
   tagName?: string;
   textContent?: string;
+  /** Out-of-process iframe the element is in; node IDs are only valid on its session */
+  frameId?: string;
   createdAt: number;
 }
 
@@ -32,7 +34,8 @@ export class RefIdManager {
     role: string,
     name?: string,
     tagName?: string,
-    textContent?: string
+    textContent?: string,
+    frameId?: string
   ): string {
     let sessionRefs = this.refs.get(sessionId);
     if (!sessionRefs) {
@@ -64,6 +67,7 @@ export class RefIdManager {
       name,
       tagName,
       textContent,
+      ...(frameId && { frameId }),
       createdAt: Date.now(),
     };
 
@@ -218,6 +222,9 @@ export class RefIdManager {
 
     const { tagName, name, textContent, role } = entry;
 
+    // The search below only covers the page's own document
+    if (entry.frameId) return null;
+
     // Build a selector from stored metadata. We need at least a tagName to proceed.
     if (!tagName) return null;
 
@@ -359,6 +366,19 @@ export class RefIdManager {
 
     return undefined;
   }
+
+  /**
+   * Find the stored entry for a ref_N, raw backendNodeId or node_N identifier.
+   * Returns undefined for node IDs that were never assigned a ref.
+   */
+  findRef(sessionId: string, targetId: string, refOrNodeId: string): RefEntry | undefined {
+    const entry = this.getRef(sessionId, targetId, refOrNodeId);
+    if (entry) return entry;
+
+    const backendNodeId = this.resolveToBackendNodeId(sessionId, targetId, refOrNodeId);
+    if (backendNodeId === undefined) return undefined;
+    return this.getTargetRefs(sessionId, targetId).find(e => e.backendDOMNodeId === backendNodeId);
+  }
 }
 
 let refIdManagerInstance: RefIdManager | null = null;
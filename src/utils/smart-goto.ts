@@ -8,6 +8,7 @@
 
 import { Page, Frame, HTTPResponse } from 'puppeteer-core';
 import { DEFAULT_NAVIGATION_TIMEOUT_MS } from '../config/defaults';
+import { getTelemetry } from '../telemetry/telemetry';
 
 const AUTH_DOMAINS = [
   'accounts.google.com',
@@ -40,6 +41,33 @@ export async function smartGoto(
   page: Page,
   url: string,
   options?: { timeout?: number },
+): Promise<SmartGotoResult> {
+  const telemetry = getTelemetry();
+  if (!telemetry.isEnabled) {
+    return gotoWithRedirectDetection(page, url, options);
+  }
+
+  const startedAt = Date.now();
+  let status = 'error';
+  try {
+    const result = await telemetry.withSpan('navigate', async (span) => {
+      const navigation = await gotoWithRedirectDetection(page, url, options);
+      span?.setAttribute('http.response.status_code', navigation.response?.status() ?? 0);
+      if (navigation.authRedirect) span?.setAttribute('openchrome.auth_redirect', navigation.authRedirect.host);
+      return navigation;
+    }, { attributes: { 'url.origin': originOf(url) } });
+    status = result.authRedirect ? 'auth_redirect' : 'ok';
+    return result;
+  } finally {
+    telemetry.addCounter('openchrome.navigations', 1, { status });
+    telemetry.recordHistogram('openchrome.navigation.duration', Date.now() - startedAt);
+  }
+}
+
+async function gotoWithRedirectDetection(
+  page: Page,
+  url: string,
+  options?: { timeout?: number },
 ): Promise<SmartGotoResult> {
   const timeout = options?.timeout ?? DEFAULT_NAVIGATION_TIMEOUT_MS;
   let authRedirect: SmartGotoResult['authRedirect'] = undefined;
@@ -82,6 +110,15 @@ export async function smartGoto(
   }
 }
 
+/** Origin only: paths and queries can carry tokens */
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return 'invalid';
+  }
+}
+
 function isAuthRedirect(currentUrl: string, originalUrl: string): boolean {
   try {
     const current = new URL(currentUrl);
@@ -101,6 +101,9 @@ const EXTRACT_STATE_SCRIPT = `(() => {
           const opt = el.options[el.selectedIndex];
           const val = opt ? (opt.text || opt.value).slice(0, 30) : '';
           if (val) formState.push({ type: 'select', name, value: val });
+        } else if (type === 'password') {
+          // Never echo typed passwords back to the LLM
+          if (el.value) formState.push({ type, name, value: '[hidden]' });
         } else {
           const val = (el.value || '').slice(0, 40);
           if (val) formState.push({ type, name, value: val });
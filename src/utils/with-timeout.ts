@@ -8,3 +8,17 @@ export function withTimeout<T>(promise: Promise<T>, ms: number, label = 'Operati
   });
   return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
+
+/**
+ * Wait up to `ms` for a promise to settle, ignoring its outcome. Used after aborting
+ * a handler so its cleanup finishes before the caller moves on. Resolves false if it
+ * is still running when the time is up.
+ */
+export function waitToSettle(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  const settled = promise.then(() => true, () => true);
+  return Promise.race([settled, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,156 @@
+/**
+ * Zip archives - Minimal writer and reader for trace bundles
+ *
+ * Writes stored or deflated entries (whichever is smaller) with UTF-8 names, and
+ * reads back the same subset. No zip64, encryption or multi-disk archives, which
+ * trace bundles never need.
+ */
+
+import * as zlib from 'zlib';
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  /** Path inside the archive, '/'-separated */
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+/** General purpose flag bit 11: names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+const MAX_ZIP32 = 0xffffffff;
+
+/**
+ * Build a zip archive in memory
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modified);
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = zlib.deflateRawSync(entry.data);
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATED : METHOD_STORED;
+    const body = method === METHOD_DEFLATED ? deflated : entry.data;
+    const crc = crc32(entry.data);
+
+    if (offset + 30 + name.length + body.length > MAX_ZIP32) {
+      throw new Error('Zip archive too large (zip64 is not supported)');
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(VERSION, 4);
+    central.writeUInt16LE(VERSION, 6);
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIR_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, end]);
+}
+
+/**
+ * Read every entry of a zip archive. Throws on corrupt or unsupported archives.
+ */
+export function readZip(buf: Buffer): ZipEntry[] {
+  const endOffset = findEndOfCentralDir(buf);
+  const count = buf.readUInt16LE(endOffset + 10);
+  let pos = buf.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > buf.length || buf.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip: bad central directory');
+    }
+    const method = buf.readUInt16LE(pos + 10);
+    const crc = buf.readUInt32LE(pos + 16);
+    const compressedSize = buf.readUInt32LE(pos + 20);
+    const nameLength = buf.readUInt16LE(pos + 28);
+    const extraLength = buf.readUInt16LE(pos + 30);
+    const commentLength = buf.readUInt16LE(pos + 32);
+    const localOffset = buf.readUInt32LE(pos + 42);
+    const name = buf.subarray(pos + 46, pos + 46 + nameLength).toString('utf8');
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (localOffset + 30 > buf.length || buf.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip: bad local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const body = buf.subarray(dataStart, dataStart + compressedSize);
+    if (body.length !== compressedSize) {
+      throw new Error(`Corrupt zip: truncated data for ${name}`);
+    }
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(body);
+    } else if (method === METHOD_DEFLATED) {
+      data = zlib.inflateRawSync(body);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`Corrupt zip: CRC mismatch for ${name}`);
+    }
+    entries.push({ name, data });
+  }
+  return entries;
+}
+
+function findEndOfCentralDir(buf: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const lowest = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= lowest; i--) {
+    if (buf.readUInt32LE(i) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      return i;
+    }
+  }
+  throw new Error('Not a zip archive');
+}
+
+function toDosDateTime(d: Date): { time: number; date: number } {
+  const year = Math.max(d.getFullYear(), 1980);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
@@ -0,0 +1,204 @@
+/// <reference types="jest" />
+/**
+ * Tests for the accessibility audit rules and SARIF export
+ */
+
+import {
+  AUDIT_COMPUTED_STYLES,
+  AuditAXNode,
+  AuditDOMSnapshot,
+  contrastRatio,
+  parseColor,
+  runA11yAudit,
+} from '../../src/a11y/audit';
+import { toSarif } from '../../src/a11y/sarif';
+
+function ax(id: number, role: string, name = '', extra: Partial<AuditAXNode> = {}): AuditAXNode {
+  return { nodeId: String(id), backendDOMNodeId: id, role: { value: role }, name: { value: name }, ...extra };
+}
+
+function heading(id: number, level: number, name: string): AuditAXNode {
+  return ax(id, 'heading', name, { properties: [{ name: 'level', value: { value: level } }] });
+}
+
+interface FakeNode {
+  tag?: string;
+  text?: string;
+  parent: number;
+  backendNodeId?: number;
+  attrs?: Record<string, string>;
+  styles?: Partial<Record<(typeof AUDIT_COMPUTED_STYLES)[number], string>>;
+}
+
+/** Build a DOMSnapshot from a flat node list; nodes with styles are laid out */
+function snapshot(nodes: FakeNode[]): AuditDOMSnapshot {
+  const strings: string[] = [];
+  const intern = (s: string) => {
+    let i = strings.indexOf(s);
+    if (i === -1) i = strings.push(s) - 1;
+    return i;
+  };
+  const layout = { nodeIndex: [] as number[], styles: [] as number[][] };
+  nodes.forEach((n, i) => {
+    if (n.styles || n.text) {
+      layout.nodeIndex.push(i);
+      layout.styles.push(n.text ? [] : AUDIT_COMPUTED_STYLES.map(s => intern(n.styles?.[s] ?? '')));
+    }
+  });
+  return {
+    strings,
+    documents: [{
+      nodes: {
+        parentIndex: nodes.map(n => n.parent),
+        nodeType: nodes.map(n => (n.text ? 3 : 1)),
+        nodeName: nodes.map(n => intern(n.text ? '#text' : n.tag ?? 'DIV')),
+        nodeValue: nodes.map(n => (n.text ? intern(n.text) : -1)),
+        backendNodeId: nodes.map((n, i) => n.backendNodeId ?? 1000 + i),
+        attributes: nodes.map(n => Object.entries(n.attrs ?? {}).flatMap(([k, v]) => [intern(k), intern(v)])),
+      },
+      layout,
+    }],
+  };
+}
+
+const page = { url: 'https://example.com/' };
+const withMain = [ax(1, 'main', '')];
+
+describe('runA11yAudit', () => {
+  test('flags unnamed form controls, images, buttons and links with node refs', () => {
+    const report = runA11yAudit({
+      ...page,
+      axNodes: [
+        ...withMain,
+        ax(10, 'textbox'),
+        ax(11, 'textbox', 'Email'),
+        ax(12, 'image'),
+        ax(13, 'button'),
+        ax(14, 'link', '  '),
+        ax(15, 'button', '', { ignored: true }),
+      ],
+    });
+
+    expect(report.findings.map(f => [f.rule, f.backendNodeId])).toEqual([
+      ['missing-label', 10],
+      ['image-alt', 12],
+      ['empty-button', 13],
+      ['empty-link', 14],
+    ]);
+    expect(report.findings[0]).toMatchObject({ ref: 'node_10', severity: 'error', role: 'textbox' });
+    expect(report.summary.errors).toBe(4);
+  });
+
+  test('heading-order reports skipped levels', () => {
+    const report = runA11yAudit({
+      ...page,
+      axNodes: [...withMain, heading(2, 1, 'Title'), heading(3, 3, 'Skipped'), heading(4, 2, 'Back'), heading(5, 3, 'Fine')],
+    }, { rules: ['heading-order'] });
+
+    expect(report.findings).toHaveLength(1);
+    expect(report.findings[0]).toMatchObject({ backendNodeId: 3, severity: 'warning', message: 'Heading level jumps from h1 to h3' });
+  });
+
+  test('landmarks require a single main and flag duplicate banners', () => {
+    const none = runA11yAudit({ ...page, axNodes: [] }, { rules: ['landmarks'] });
+    expect(none.findings).toHaveLength(1);
+    expect(none.findings[0].backendNodeId).toBeUndefined();
+
+    const dupes = runA11yAudit({
+      ...page,
+      axNodes: [ax(1, 'main'), ax(2, 'main'), ax(3, 'banner'), ax(4, 'banner')],
+    }, { rules: ['landmarks'] });
+    expect(dupes.findings.map(f => f.backendNodeId)).toEqual([2, 4]);
+  });
+
+  test('color-contrast composites backgrounds and relaxes for large text', () => {
+    const dom = snapshot([
+      { tag: 'BODY', parent: -1, styles: { 'background-color': 'rgb(255, 255, 255)' } },
+      { tag: 'P', parent: 0, backendNodeId: 20, attrs: { class: 'muted' }, styles: { color: 'rgb(170, 170, 170)', 'background-color': 'rgba(0, 0, 0, 0)', 'font-size': '16px', 'font-weight': '400' } },
+      { text: 'Low contrast', parent: 1 },
+      { tag: 'H1', parent: 0, backendNodeId: 21, styles: { color: 'rgb(130, 130, 130)', 'font-size': '32px', 'font-weight': '700' } },
+      { text: 'Large heading', parent: 3 },
+      { tag: 'DIV', parent: 0, backendNodeId: 22, styles: { color: 'rgb(255, 255, 255)', 'background-image': 'url(hero.png)' } },
+      { text: 'On an image', parent: 5 },
+      { tag: 'SPAN', parent: 0, backendNodeId: 23, styles: { color: 'rgb(0, 0, 0)', 'font-size': '16px' } },
+      { text: 'Fine', parent: 7 },
+    ]);
+
+    const report = runA11yAudit({ ...page, axNodes: withMain, snapshot: dom }, { rules: ['color-contrast'] });
+    expect(report.findings).toHaveLength(1);
+    expect(report.findings[0]).toMatchObject({ backendNodeId: 20, ref: 'node_20', element: 'p.muted' });
+    expect(report.findings[0].message).toMatch(/^Contrast ratio 2\.3\d:1 is below 4\.5:1/);
+  });
+
+  test('focusable-hidden finds focusable elements under aria-hidden', () => {
+    const dom = snapshot([
+      { tag: 'DIV', parent: -1, attrs: { 'aria-hidden': 'true' }, styles: {} },
+      { tag: 'A', parent: 0, backendNodeId: 30, attrs: { href: '/x' }, styles: {} },
+      { tag: 'BUTTON', parent: 0, backendNodeId: 31, attrs: { tabindex: '-1' }, styles: {} },
+      { tag: 'INPUT', parent: 0, backendNodeId: 32, attrs: { disabled: '' }, styles: {} },
+      { tag: 'BUTTON', parent: -1, backendNodeId: 33, styles: {} },
+    ]);
+
+    const report = runA11yAudit({ ...page, axNodes: withMain, snapshot: dom }, { rules: ['focusable-hidden'] });
+    expect(report.findings.map(f => f.backendNodeId)).toEqual([30]);
+  });
+
+  test('aria-misuse checks roles, attribute names and id references', () => {
+    const dom = snapshot([
+      { tag: 'DIV', parent: -1, backendNodeId: 40, attrs: { role: 'buton' } },
+      { tag: 'DIV', parent: -1, backendNodeId: 41, attrs: { role: 'switch button', 'aria-labelled': 'x' } },
+      { tag: 'INPUT', parent: -1, backendNodeId: 42, attrs: { 'aria-describedby': 'hint missing' } },
+      { tag: 'SPAN', parent: -1, attrs: { id: 'hint' } },
+    ]);
+
+    const report = runA11yAudit({ ...page, axNodes: withMain, snapshot: dom }, { rules: ['aria-misuse'] });
+    expect(report.findings.map(f => [f.backendNodeId, f.message])).toEqual([
+      [40, 'Invalid ARIA role "buton"'],
+      [41, 'Unknown ARIA attribute "aria-labelled"'],
+      [42, 'aria-describedby references missing id: missing'],
+    ]);
+  });
+
+  test('maxFindingsPerRule caps findings and counts the rest', () => {
+    const axNodes = [...withMain, ...Array.from({ length: 5 }, (_, i) => ax(100 + i, 'button'))];
+    const report = runA11yAudit({ ...page, axNodes }, { maxFindingsPerRule: 2 });
+    expect(report.findings).toHaveLength(2);
+    expect(report.summary.byRule['empty-button']).toBe(5);
+    expect(report.summary.truncated).toBe(3);
+  });
+});
+
+describe('contrast helpers', () => {
+  test('parses computed colours and computes WCAG ratios', () => {
+    expect(parseColor('rgba(10, 20, 30, 0.5)')).toEqual([10, 20, 30, 0.5]);
+    expect(parseColor('rgb(10 20 30 / 50%)')).toEqual([10, 20, 30, 0.5]);
+    expect(parseColor('transparent')).toBeNull();
+    expect(contrastRatio([0, 0, 0, 1], [255, 255, 255, 1])).toBeCloseTo(21);
+  });
+});
+
+describe('toSarif', () => {
+  test('emits a SARIF 2.1.0 run with rules and element locations', () => {
+    const report = runA11yAudit({ ...page, axNodes: [ax(10, 'textbox')] }, { rules: ['missing-label', 'landmarks'] });
+    const sarif = toSarif(report, '1.2.3');
+
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver).toMatchObject({ name: 'openchrome-a11y', version: '1.2.3' });
+    expect(run.tool.driver.rules.map(r => r.id)).toEqual(['missing-label', 'landmarks']);
+    expect(run.tool.driver.rules[0].properties.tags).toContain('wcag412');
+
+    expect(run.results).toHaveLength(2);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'missing-label',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: 'https://example.com/' } },
+        logicalLocations: [{ name: 'node_10', kind: 'element' }],
+      }],
+    });
+    expect(run.results[1]).toMatchObject({ ruleId: 'landmarks', ruleIndex: 1, level: 'warning' });
+    expect(run.results[1].locations[0].logicalLocations).toBeUndefined();
+  });
+});
@@ -0,0 +1,209 @@
+/// <reference types="jest" />
+/**
+ * Tests for assertion checks
+ */
+
+import type { Page } from 'puppeteer-core';
+import {
+  checkConsoleErrors,
+  checkRequests,
+  describeAssertion,
+  matchesPattern,
+  runAssertion,
+  validateAssertion,
+  type AssertionContext,
+} from '../../src/assert/checks';
+import type { PageWatch } from '../../src/assert/page-watch';
+
+const createWatch = (overrides: Partial<PageWatch> = {}): PageWatch => ({
+  startedAt: Date.UTC(2026, 0, 1),
+  requests: [],
+  errors: [],
+  detach: () => {},
+  ...overrides,
+});
+
+const createContext = (page: Partial<Record<keyof Page, unknown>>, watch = createWatch()): AssertionContext => ({
+  page: page as unknown as Page,
+  watch,
+  compareSnapshot: jest.fn(async () => ({
+    content: [{ type: 'text' as const, text: JSON.stringify({ status: 'mismatch', passed: false, mismatchPercent: 2.5, diff: '/tmp/d.png' }) }],
+  })),
+});
+
+describe('validateAssertion', () => {
+  test('accepts well-formed assertions', () => {
+    expect(validateAssertion({ type: 'text_present', text: 'Welcome' })).toBeNull();
+    expect(validateAssertion({ type: 'element_count', selector: 'li', min: 1 })).toBeNull();
+    expect(validateAssertion({ type: 'element_visible', locator: 'role=button[name="Save"]' })).toBeNull();
+    expect(validateAssertion({ type: 'no_console_errors' })).toBeNull();
+  });
+
+  test('reports the missing field or bad input', () => {
+    expect(validateAssertion({ type: 'nope' })).toContain('unknown assertion type "nope"');
+    expect(validateAssertion({ type: 'text_absent' })).toBe('text_absent needs "text"');
+    expect(validateAssertion({ type: 'element_hidden' })).toBe('element_hidden needs "selector" or "locator"');
+    expect(validateAssertion({ type: 'element_count', selector: 'li' })).toBe('element_count needs "count", "min" or "max"');
+    expect(validateAssertion({ type: 'request_made' })).toBe('request_made needs "urlPattern"');
+    expect(validateAssertion({ type: 'element_visible', locator: 'nth=1' })).toContain('must start with a selector');
+    expect(validateAssertion({ type: 'text_present', text: 'Hi', locator: 'nth=1' })).toContain('must start with a selector');
+    expect(validateAssertion(null)).toContain('must be an object');
+  });
+});
+
+describe('describeAssertion', () => {
+  test('builds readable labels unless a description is given', () => {
+    expect(describeAssertion({ type: 'element_count', selector: 'li', min: 2, max: 5 })).toBe('li count is >= 2 and <= 5');
+    expect(describeAssertion({ type: 'request_made', urlPattern: '/api/cart', method: 'post', status: 201 }))
+      .toBe('POST request to /api/cart was made with status 201');
+    expect(describeAssertion({ type: 'url_matches', pattern: '/done', description: 'lands on done' })).toBe('lands on done');
+  });
+});
+
+describe('matchesPattern', () => {
+  test('uses regex, falling back to substring for invalid patterns', () => {
+    expect(matchesPattern('https://shop.test/cart/42', '/cart/\\d+$')).toBe(true);
+    expect(matchesPattern('price (USD', '(USD')).toBe(true);
+    expect(matchesPattern('https://shop.test/', '/cart')).toBe(false);
+  });
+});
+
+describe('checkRequests', () => {
+  const watch = createWatch({
+    requests: [
+      { url: 'https://shop.test/api/cart', method: 'GET', resourceType: 'fetch', status: 200, timestamp: 1 },
+      { url: 'https://shop.test/api/cart', method: 'POST', resourceType: 'fetch', status: 500, timestamp: 2 },
+    ],
+  });
+
+  test('passes when a request matches URL, method and status', () => {
+    expect(checkRequests(watch, { type: 'request_made', urlPattern: '/api/cart', method: 'post' }).passed).toBe(true);
+  });
+
+  test('explains near misses and absent requests', () => {
+    const wrongStatus = checkRequests(watch, { type: 'request_made', urlPattern: '/api/cart', method: 'POST', status: 201 });
+    expect(wrongStatus.passed).toBe(false);
+    expect(wrongStatus.message).toContain('none matched (GET 200, POST 500)');
+
+    const absent = checkRequests(watch, { type: 'request_made', urlPattern: '/api/checkout' });
+    expect(absent.passed).toBe(false);
+    expect(absent.message).toContain('among 2 request(s) since 2026-01-01');
+  });
+
+  test('fails when no test was started', () => {
+    const result = checkRequests(undefined, { type: 'request_made', urlPattern: '/api/cart' });
+    expect(result).toEqual({ passed: false, message: expect.stringContaining('action: "start" first') });
+    expect(checkConsoleErrors(undefined, { type: 'no_console_errors' }).passed).toBe(false);
+  });
+});
+
+describe('checkConsoleErrors', () => {
+  test('fails on errors that are not ignored', () => {
+    const watch = createWatch({
+      errors: [
+        { type: 'error', text: 'Failed to load favicon.ico', timestamp: 1 },
+        { type: 'pageerror', text: 'TypeError: x is undefined', timestamp: 2 },
+      ],
+    });
+
+    expect(checkConsoleErrors(watch, { type: 'no_console_errors', ignore: 'favicon|TypeError' }).passed).toBe(true);
+    const result = checkConsoleErrors(watch, { type: 'no_console_errors', ignore: 'favicon' });
+    expect(result.passed).toBe(false);
+    expect(result.message).toBe('1 console error(s): [pageerror] TypeError: x is undefined');
+  });
+});
+
+describe('runAssertion', () => {
+  test('checks element state from the in-page summary', async () => {
+    const evaluate = jest.fn().mockResolvedValue({ count: 3, visible: 2, firstEnabled: false, firstValue: 'true' });
+    const ctx = createContext({ evaluate });
+
+    expect((await runAssertion(ctx, { type: 'element_visible', selector: '.item' })).passed).toBe(true);
+    expect((await runAssertion(ctx, { type: 'element_hidden', selector: '.item' })).passed).toBe(false);
+    expect((await runAssertion(ctx, { type: 'element_disabled', selector: '.item' })).passed).toBe(true);
+    expect((await runAssertion(ctx, { type: 'element_count', selector: '.item', count: 3 })).passed).toBe(true);
+    expect((await runAssertion(ctx, { type: 'element_count', selector: '.item', max: 2 })).passed).toBe(false);
+
+    const value = await runAssertion(ctx, { type: 'form_value', selector: '#agree', value: 'false' });
+    expect(value.passed).toBe(false);
+    expect(value.message).toBe('value is "true"');
+    expect(evaluate.mock.calls[0][0]).toContain('document.querySelectorAll(".item")');
+  });
+
+  test('summarizes matched elements in the page', async () => {
+    const hidden = { tagName: 'INPUT', type: 'text', value: 'a@b.test', getBoundingClientRect: () => ({ width: 0, height: 0 }) };
+    const input = {
+      tagName: 'INPUT',
+      type: 'checkbox',
+      checked: true,
+      getBoundingClientRect: () => ({ width: 20, height: 20 }),
+      matches: () => false,
+      getAttribute: () => null,
+    };
+    const documentStub = { querySelectorAll: () => [input, hidden] };
+    const getComputedStyle = () => ({ visibility: 'visible', display: 'block', opacity: '1' });
+    const evaluate = jest.fn(async (expression: string) =>
+      new Function('document', 'getComputedStyle', `return ${expression}`)(documentStub, getComputedStyle)
+    );
+
+    const result = await runAssertion(createContext({ evaluate }), { type: 'form_value', selector: 'input', value: 'true' });
+    expect(result.passed).toBe(true);
+    expect(await evaluate.mock.results[0].value).toEqual({ count: 2, visible: 1, firstEnabled: true, firstValue: 'true' });
+  });
+
+  test('resolves locators in the page', async () => {
+    const evaluate = jest.fn().mockResolvedValue({ count: 1, visible: 1, firstEnabled: true, firstValue: null });
+    const result = await runAssertion(createContext({ evaluate }), { type: 'element_enabled', locator: 'role=button[name="Pay"]' });
+
+    expect(result.passed).toBe(true);
+    expect(evaluate.mock.calls[0][0]).toContain('"kind":"role"');
+  });
+
+  test('checks text, URL and title', async () => {
+    const ctx = createContext({
+      evaluate: jest.fn().mockResolvedValue(true),
+      url: jest.fn().mockReturnValue('https://shop.test/order/99'),
+      title: jest.fn().mockResolvedValue('Order confirmed'),
+    });
+
+    expect((await runAssertion(ctx, { type: 'text_present', text: 'Thanks' })).passed).toBe(true);
+    expect((await runAssertion(ctx, { type: 'text_absent', text: 'Error' })).passed).toBe(false);
+    expect((await runAssertion(ctx, { type: 'url_matches', pattern: '/order/\\d+' })).passed).toBe(true);
+
+    const scoped = await runAssertion(ctx, { type: 'text_present', text: 'Total', locator: 'role=region[name="Summary"]' });
+    expect(scoped.description).toBe('text "Total" is present in role=region[name="Summary"]');
+    expect((ctx.page.evaluate as jest.Mock).mock.calls[2][0]).toContain('"kind":"role"');
+
+    const title = await runAssertion(ctx, { type: 'title_matches', pattern: '^Cart' });
+    expect(title.passed).toBe(false);
+    expect(title.message).toBe('title is "Order confirmed"');
+  });
+
+  test('compares screenshots through visual_snapshot', async () => {
+    const ctx = createContext({});
+    const result = await runAssertion(ctx, { type: 'screenshot_matches', snapshot: 'home', maxMismatchPercent: 1 });
+
+    expect(ctx.compareSnapshot).toHaveBeenCalledWith({ name: 'home', maxMismatchPercent: 1 });
+    expect(result.passed).toBe(false);
+    expect(result.message).toBe('mismatch (2.5% mismatch), diff: /tmp/d.png');
+  });
+
+  test('fails a screenshot check that only created the baseline', async () => {
+    const ctx = createContext({});
+    (ctx.compareSnapshot as jest.Mock).mockResolvedValueOnce({
+      content: [{ type: 'text', text: JSON.stringify({ status: 'baseline_created', passed: true }) }],
+    });
+    const result = await runAssertion(ctx, { type: 'screenshot_matches', snapshot: 'home' });
+
+    expect(result.passed).toBe(false);
+    expect(result.message).toContain('no baseline "home" existed');
+  });
+
+  test('turns page errors into failures', async () => {
+    const ctx = createContext({ evaluate: jest.fn().mockRejectedValue(new Error("'##' is not a valid selector")) });
+    const result = await runAssertion(ctx, { type: 'element_visible', selector: '##' });
+
+    expect(result.passed).toBe(false);
+    expect(result.message).toBe("error: '##' is not a valid selector");
+  });
+});
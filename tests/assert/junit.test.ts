@@ -0,0 +1,90 @@
+/// <reference types="jest" />
+/**
+ * Tests for JUnit XML rendering and test result collection
+ */
+
+import { escapeXml, renderJUnitXml } from '../../src/assert/junit';
+import { TestResults } from '../../src/assert/test-results';
+import type { AssertionOutcome } from '../../src/assert/checks';
+
+const outcome = (description: string, passed: boolean, message = passed ? 'ok' : 'not found'): AssertionOutcome => ({
+  type: 'text_present',
+  description,
+  passed,
+  message,
+  durationMs: 5,
+});
+
+describe('escapeXml', () => {
+  test('escapes markup characters and drops control characters', () => {
+    expect(escapeXml('<a href="x">Tom & Jerry\'s</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+    expect(escapeXml('bell\u0007 tab\t newline\n')).toBe('bell tab\t newline\n');
+  });
+});
+
+describe('TestResults', () => {
+  test('adds checks to the started test until another starts', () => {
+    const results = new TestResults();
+    results.startTest('login', 'auth');
+    results.record([outcome('a', true)], 0);
+    results.record([outcome('b', false)], 2);
+    results.startTest('logout', 'auth');
+    results.record([outcome('c', true)], 0);
+
+    const cases = results.getCases();
+    expect(cases.map((c) => c.name)).toEqual(['login', 'logout']);
+    expect(cases[0].assertions).toHaveLength(2);
+    expect(cases[0].skipped).toBe(2);
+    expect(results.summary()).toEqual({ tests: 2, failures: 1, assertions: 3, failedAssertions: 1 });
+  });
+
+  test('creates one case per check without a started test, or joins a named one', () => {
+    const results = new TestResults();
+    results.record([outcome('first', true)], 0);
+    results.record([outcome('second', true)], 0, { test: 'named' });
+    results.record([outcome('third', false)], 0, { test: 'named' });
+
+    const cases = results.getCases();
+    expect(cases.map((c) => c.name)).toEqual(['first', 'named']);
+    expect(cases[0].suite).toBe('openchrome');
+    expect(cases[1].assertions).toHaveLength(2);
+
+    results.clear();
+    expect(results.getCases()).toEqual([]);
+  });
+});
+
+describe('renderJUnitXml', () => {
+  test('groups cases into suites and lists failed assertions', () => {
+    const results = new TestResults();
+    results.startTest('checkout <happy path>', 'shop');
+    results.record([outcome('total shown', true), outcome('"Thanks" present', false, 'text not found')], 0);
+    results.startTest('search', 'catalog');
+    results.record([outcome('results listed', true)], 0);
+
+    const xml = renderJUnitXml(results.getCases(), { name: 'nightly', timestamp: new Date('2026-01-02T03:04:05.678Z') });
+
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n')).toBe(true);
+    expect(xml).toContain('<testsuites name="nightly" tests="2" failures="1" errors="0"');
+    expect(xml).toContain('<testsuite name="shop" tests="1" failures="1" errors="0" skipped="0"');
+    expect(xml).toContain('timestamp="2026-01-02T03:04:05"');
+    expect(xml).toContain('<testcase classname="shop" name="checkout &lt;happy path&gt;"');
+    expect(xml).toContain('<failure message="&quot;Thanks&quot; present: text not found" type="AssertionError">');
+    expect(xml).toContain('<testsuite name="catalog" tests="1" failures="0"');
+    expect(xml).toContain('✓ results listed (ok)');
+    expect(xml.match(/<failure /g)).toHaveLength(1);
+  });
+
+  test('summarizes several failures in one case', () => {
+    const results = new TestResults();
+    results.record([outcome('a', false), outcome('b', false), outcome('c', true)], 1, { test: 'many' });
+
+    const xml = renderJUnitXml(results.getCases());
+    expect(xml).toContain('<failure message="2 of 3 assertions failed" type="AssertionError">a: not found\nb: not found</failure>');
+    expect(xml).toContain('- 1 assertion(s) skipped after a failure');
+  });
+
+  test('renders an empty report', () => {
+    expect(renderJUnitXml([])).toContain('<testsuites name="openchrome" tests="0" failures="0" errors="0" time="0.000">\n</testsuites>');
+  });
+});
@@ -0,0 +1,142 @@
+/// <reference types="jest" />
+/**
+ * Tests for out-of-process iframe sessions and node scopes
+ */
+
+import type { Page } from 'puppeteer-core';
+import { getFrameSessions, getNodeScope } from '../../src/cdp/frame-sessions';
+
+interface FakeTarget {
+  sessionId: string;
+  targetId: string;
+  type: string;
+  url: string;
+}
+
+type Handler = (event: any) => void;
+
+/**
+ * A session that reports `targets` as attached when auto-attach is turned on,
+ * and answers other commands from `responses`
+ */
+function createFakeSession(
+  sessions: Map<string, any>,
+  id: string,
+  targets: FakeTarget[] = [],
+  responses: Record<string, unknown> = {}
+) {
+  const handlers: Map<string, Handler[]> = new Map();
+  const session = {
+    id: () => id,
+    on: jest.fn((event: string, handler: Handler) => {
+      handlers.set(event, [...(handlers.get(event) || []), handler]);
+    }),
+    emit: (event: string, payload: unknown) => {
+      for (const handler of handlers.get(event) || []) handler(payload);
+    },
+    connection: () => ({ session: (sessionId: string) => sessions.get(sessionId) || null }),
+    send: jest.fn(async (method: string) => {
+      if (method === 'Target.setAutoAttach') {
+        for (const { sessionId, targetId, type, url } of targets) {
+          session.emit('Target.attachedToTarget', { sessionId, targetInfo: { targetId, type, url } });
+        }
+      }
+      return responses[method] || {};
+    }),
+  };
+  sessions.set(id, session);
+  return session;
+}
+
+describe('frame sessions', () => {
+  let sessions: Map<string, any>;
+  let page: Page;
+  let root: ReturnType<typeof createFakeSession>;
+  let frameA: ReturnType<typeof createFakeSession>;
+  let frameB: ReturnType<typeof createFakeSession>;
+  let cdpClient: { send: jest.Mock };
+
+  beforeEach(() => {
+    sessions = new Map();
+    frameB = createFakeSession(sessions, 'session-b', [], { 'DOM.getBoxModel': { model: { content: [5, 5, 25, 5, 25, 15, 5, 15] } } });
+    frameA = createFakeSession(
+      sessions,
+      'session-a',
+      [{ sessionId: 'session-b', targetId: 'frame-b', type: 'iframe', url: 'https://pay.example/field' }],
+      {
+        'DOM.getFrameOwner': { backendNodeId: 7 },
+        'DOM.getBoxModel': { model: { content: [10, 20, 310, 20, 310, 120, 10, 120] } },
+      }
+    );
+    root = createFakeSession(sessions, 'session-root', [
+      { sessionId: 'session-a', targetId: 'frame-a', type: 'iframe', url: 'https://pay.example/' },
+      { sessionId: 'session-w', targetId: 'worker-1', type: 'worker', url: 'https://example.com/worker.js' },
+    ]);
+    page = { createCDPSession: jest.fn().mockResolvedValue(root) } as unknown as Page;
+    cdpClient = {
+      send: jest.fn(async (_page: Page, method: string) => {
+        if (method === 'DOM.getFrameOwner') return { backendNodeId: 3 };
+        if (method === 'DOM.getBoxModel') return { model: { content: [100, 50, 500, 50, 500, 350, 100, 350] } };
+        return {};
+      }),
+    };
+  });
+
+  test('attaches to out-of-process iframes, nested ones included', async () => {
+    const frames = await getFrameSessions(page);
+
+    expect(frames.map((f) => [f.frameId, f.url, f.parent?.frameId || null])).toEqual([
+      ['frame-a', 'https://pay.example/', null],
+      ['frame-b', 'https://pay.example/field', 'frame-a'],
+    ]);
+    expect(root.send).toHaveBeenCalledWith('Target.setAutoAttach', { autoAttach: true, waitForDebuggerOnStart: false, flatten: true });
+    expect(frameA.send).toHaveBeenCalledWith('Page.enable');
+
+    // Attaching happens once per page
+    await getFrameSessions(page);
+    expect(page.createCDPSession).toHaveBeenCalledTimes(1);
+  });
+
+  test('tracks navigations and drops detached frames with their children', async () => {
+    await getFrameSessions(page);
+
+    frameA.emit('Page.frameNavigated', { frame: { id: 'frame-a', url: 'https://pay.example/step-2' } });
+    frameA.emit('Page.frameNavigated', { frame: { id: 'child', parentId: 'frame-a', url: 'https://ads.example/' } });
+    expect((await getFrameSessions(page))[0].url).toBe('https://pay.example/step-2');
+
+    root.emit('Target.detachedFromTarget', { sessionId: 'session-a' });
+    expect(await getFrameSessions(page)).toEqual([]);
+  });
+
+  test('scopes node commands to the frame session, offset by every enclosing iframe', async () => {
+    const scope = await getNodeScope(page, cdpClient, 'frame-b');
+    await scope.send('DOM.describeNode', { backendNodeId: 42 });
+
+    expect(frameB.send).toHaveBeenCalledWith('DOM.describeNode', { backendNodeId: 42 });
+    expect(cdpClient.send).not.toHaveBeenCalledWith(page, 'DOM.describeNode', expect.anything());
+    expect(await scope.offset()).toEqual({ x: 110, y: 70 });
+    expect(frameA.send).toHaveBeenCalledWith('DOM.getFrameOwner', { frameId: 'frame-b' });
+    expect(cdpClient.send).toHaveBeenCalledWith(page, 'DOM.getFrameOwner', { frameId: 'frame-a' });
+  });
+
+  test('scopes to the page without a frame and fails for a frame that is gone', async () => {
+    const scope = await getNodeScope(page, cdpClient);
+    await scope.send('DOM.getBoxModel', { backendNodeId: 1 });
+
+    expect(scope.frame).toBeNull();
+    expect(cdpClient.send).toHaveBeenCalledWith(page, 'DOM.getBoxModel', { backendNodeId: 1 });
+    expect(await scope.offset()).toEqual({ x: 0, y: 0 });
+    expect(page.createCDPSession).not.toHaveBeenCalled();
+
+    await expect(getNodeScope(page, cdpClient, 'frame-gone')).rejects.toThrow('Frame frame-gone is no longer attached');
+  });
+
+  test('returns no frames when the page session cannot be created', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (page.createCDPSession as jest.Mock).mockRejectedValueOnce(new Error('Target closed'));
+
+    expect(await getFrameSessions(page)).toEqual([]);
+    expect(await getFrameSessions(page)).toHaveLength(2);
+    errorSpy.mockRestore();
+  });
+});
@@ -821,4 +821,58 @@ describe('ProfileManager', () => {
       expect(result.profileDirectory).toBe('Profile 1');
     });
   });
+
+  // =========================================================================
+  // dedicated profile instances (multi-profile sessions)
+  // =========================================================================
+
+  describe('resolveProfileInstance()', () => {
+    let realDir: string;
+
+    beforeEach(() => {
+      Object.defineProperty(ProfileManager, 'PROFILE_INSTANCES_DIR', {
+        value: path.join(tmpDir, 'profiles'),
+        configurable: true,
+      });
+      realDir = path.join(tmpDir, 'real');
+      fs.mkdirSync(path.join(realDir, 'Profile 2'), { recursive: true });
+      fs.writeFileSync(path.join(realDir, 'Profile 2', 'Cookies'), 'work-cookies');
+      fs.writeFileSync(path.join(realDir, 'Local State'), JSON.stringify({
+        profile: { info_cache: { 'Default': { name: 'Personal' }, 'Profile 2': { name: 'Work' } } },
+      }));
+      mockExecFileSync.mockImplementation(() => { throw new Error('sqlite3 not found'); });
+    });
+
+    it('syncs the Chrome profile into its own directory with per-instance metadata', () => {
+      const pm = new ProfileManager();
+      const result = pm.resolveProfileInstance({ instanceName: 'Profile 2', realProfileDir: realDir, profileDirectory: 'Profile 2' });
+
+      const instanceDir = path.join(tmpDir, 'profiles', 'Profile-2');
+      expect(result).toEqual({ userDataDir: instanceDir, profileType: 'persistent', syncPerformed: true, profileDirectory: 'Profile 2' });
+      expect(fs.readFileSync(path.join(instanceDir, 'Profile 2', 'Cookies'), 'utf8')).toBe('work-cookies');
+      expect(fs.existsSync(path.join(instanceDir, 'sync-metadata.json'))).toBe(true);
+      // The primary persistent profile's sync state is untouched
+      expect(fs.existsSync(ProfileManager.SYNC_METADATA_PATH)).toBe(false);
+
+      // Fresh on the second launch
+      expect(pm.resolveProfileInstance({ instanceName: 'Profile 2', realProfileDir: realDir, profileDirectory: 'Profile 2' }).syncPerformed).toBe(false);
+    });
+
+    it('starts custom-named instances empty', () => {
+      const pm = new ProfileManager();
+      const result = pm.resolveProfileInstance({ instanceName: '../client a', realProfileDir: realDir });
+
+      expect(result.userDataDir).toBe(path.join(tmpDir, 'profiles', '-client-a'));
+      expect(result.syncPerformed).toBe(false);
+      expect(result.profileDirectory).toBeUndefined();
+      expect(fs.existsSync(path.join(result.userDataDir, 'Default'))).toBe(true);
+    });
+
+    it('findProfile matches directory names exactly and display names case-insensitively', () => {
+      const pm = new ProfileManager();
+      expect(pm.findProfile('Profile 2', realDir)?.directory).toBe('Profile 2');
+      expect(pm.findProfile('work', realDir)?.directory).toBe('Profile 2');
+      expect(pm.findProfile('profile 2', realDir)).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,102 @@
+/// <reference types="jest" />
+/**
+ * Tests for per-profile Chrome instances in ChromePool (multi-profile sessions)
+ */
+
+jest.mock('http', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return {
+    request: jest.fn(() => {
+      const req = new EventEmitter();
+      req.end = () => process.nextTick(() => req.emit('error', new Error('ECONNREFUSED')));
+      req.destroy = jest.fn();
+      return req;
+    }),
+  };
+});
+
+const mockLaunchers = new Map<number, { ensureChrome: jest.Mock; close: jest.Mock }>();
+
+jest.mock('../../src/chrome/launcher', () => ({
+  ChromeLauncher: jest.fn(),
+  getChromeLauncher: jest.fn((port: number) => {
+    if (!mockLaunchers.has(port)) {
+      mockLaunchers.set(port, {
+        ensureChrome: jest.fn().mockResolvedValue({ wsEndpoint: `ws://127.0.0.1:${port}`, httpEndpoint: `http://127.0.0.1:${port}` }),
+        close: jest.fn().mockResolvedValue(undefined),
+      });
+    }
+    return mockLaunchers.get(port);
+  }),
+}));
+
+jest.mock('../../src/chrome/profile-manager', () => ({
+  ProfileManager: jest.fn().mockImplementation(() => ({
+    findProfile: (name: string) => {
+      const profiles = [{ directory: 'Default', name: 'Personal' }, { directory: 'Profile 2', name: 'Work' }];
+      return profiles.find((p) => p.directory === name || p.name.toLowerCase() === name.toLowerCase());
+    },
+  })),
+}));
+
+import { ChromePool } from '../../src/chrome/pool';
+import { setGlobalConfig } from '../../src/config/global';
+
+describe('ChromePool profile instances', () => {
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockLaunchers.clear();
+    setGlobalConfig({ port: 9222, userDataDir: undefined, profileDirectory: undefined });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('launches one instance per profile and reuses it by directory or display name', async () => {
+    const pool = new ChromePool({ autoLaunch: true, basePort: 9222 });
+
+    const [work, again] = await Promise.all([
+      pool.acquireProfileInstance('Work'),
+      pool.acquireProfileInstance('Profile 2'),
+    ]);
+
+    expect(work).toBe(again);
+    expect(work).toEqual(expect.objectContaining({ port: 9223, profile: 'Profile 2', profileName: 'Work', tabCount: 2 }));
+    expect(mockLaunchers.get(9223)!.ensureChrome).toHaveBeenCalledTimes(1);
+    expect(mockLaunchers.get(9223)!.ensureChrome).toHaveBeenCalledWith({
+      port: 9223, autoLaunch: true, instanceName: 'Profile 2', profileDirectory: 'Profile 2',
+    });
+
+    const client = await pool.acquireProfileInstance('client-a');
+    expect(client).toEqual(expect.objectContaining({ port: 9224, profile: 'client-a' }));
+    expect(mockLaunchers.get(9224)!.ensureChrome).toHaveBeenCalledWith({ port: 9224, autoLaunch: true, instanceName: 'client-a' });
+
+    pool.releaseProfileInstance(9223);
+    expect(work!.tabCount).toBe(1);
+  });
+
+  test('returns null for the profile the primary instance already runs', async () => {
+    const pool = new ChromePool({ autoLaunch: true });
+    expect(await pool.acquireProfileInstance('Personal')).toBeNull();
+
+    setGlobalConfig({ profileDirectory: 'Profile 2' });
+    expect(await pool.acquireProfileInstance('work')).toBeNull();
+    expect(mockLaunchers.size).toBe(0);
+  });
+
+  test('origin acquisition never lands on a profile instance', async () => {
+    const pool = new ChromePool({ autoLaunch: true, maxInstances: 1 });
+    await pool.acquireProfileInstance('Work');
+
+    await expect(pool.acquireProfileInstance('client-a')).rejects.toThrow('At max capacity (1)');
+    await expect(pool.acquireInstance('https://example.com')).rejects.toThrow('No instances available');
+  });
+
+  test('requires auto-launch', async () => {
+    const pool = new ChromePool({ autoLaunch: false });
+    await expect(pool.acquireProfileInstance('Work')).rejects.toThrow('Start the server with --auto-launch');
+  });
+});
@@ -0,0 +1,58 @@
+/// <reference types="jest" />
+/**
+ * Tests for human hand-off requests and the operation gate
+ */
+
+import { HumanRequestRegistry } from '../../src/dashboard/human-requests';
+import { OperationController } from '../../src/dashboard/operation-controller';
+
+describe('HumanRequestRegistry', () => {
+  let controller: OperationController;
+  let registry: HumanRequestRegistry;
+
+  beforeEach(() => {
+    controller = new OperationController();
+    registry = new HumanRequestRegistry(controller);
+  });
+
+  test('holds the gate paused until the request is completed', async () => {
+    const changed = jest.fn();
+    registry.on('changed', changed);
+
+    const request = registry.open('s1', 'tab-1', 'Solve the CAPTCHA');
+    expect(registry.open('s1', 'tab-1', 'again')).toBe(request);
+    expect(changed).toHaveBeenCalledWith([request]);
+
+    const waiting = registry.wait(request.id, 60000);
+    expect(controller.isPaused).toBe(true);
+
+    expect(registry.complete(request.id)).toBe(true);
+    await expect(waiting).resolves.toBe('done');
+    expect(controller.isPaused).toBe(false);
+    expect(registry.getOpen()).toEqual([]);
+    expect(registry.complete(request.id)).toBe(false);
+
+    // A retry after completion returns at once, without touching the gate
+    await expect(registry.wait(request.id, 60000)).resolves.toBe('done');
+  });
+
+  test('times out and leaves a gate paused by someone else alone', async () => {
+    controller.pause();
+    const request = registry.open('s1', 'tab-1', 'Bot check');
+
+    await expect(registry.wait(request.id, 10)).resolves.toBe('timeout');
+    expect(controller.isPaused).toBe(true);
+    expect(registry.getOpen()).toEqual([request]);
+  });
+
+  test('rejects and releases the gate when the call is aborted', async () => {
+    const request = registry.open('s1', 'tab-1', 'Bot check');
+    const abort = new AbortController();
+
+    const waiting = registry.wait(request.id, 60000, abort.signal);
+    abort.abort(new Error('Operation cancelled from the dashboard'));
+
+    await expect(waiting).rejects.toThrow('Operation cancelled from the dashboard');
+    expect(controller.isPaused).toBe(false);
+  });
+});
@@ -0,0 +1,362 @@
+/// <reference types="jest" />
+/**
+ * Tests for the web dashboard (SSE activity, sessions, thumbnails, pause/resume/kill, screencast)
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { Duplex } from 'stream';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/cdp/client', () => ({
+  getCDPClient: jest.fn(() => ({
+    forceReconnect: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/cdp/connection-pool', () => ({
+  getCDPConnectionPool: jest.fn(() => ({
+    shutdown: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { getOperationController } from '../../src/dashboard/operation-controller';
+import { HumanRequestRegistry, getHumanRequests, setHumanRequests } from '../../src/dashboard/human-requests';
+
+interface HttpReply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+function request(port: number, method: string, path: string, headers: Record<string, string> = {}): Promise<HttpReply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method, headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks) }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/** Open /events and hand out SSE events in arrival order */
+function openEvents(port: number): { next: (event: string) => Promise<any>; close: () => void } {
+  const received: Array<{ event: string; data: any }> = [];
+  const waiters: Array<() => void> = [];
+  let buffer = '';
+  const req = http.get({ host: '127.0.0.1', port, path: '/events' }, (res) => {
+    res.setEncoding('utf8');
+    res.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event = block.match(/^event: (.*)$/m);
+        const data = block.match(/^data: (.*)$/m);
+        if (event && data) {
+          received.push({ event: event[1], data: JSON.parse(data[1]) });
+          waiters.splice(0).forEach((wake) => wake());
+        }
+      }
+    });
+  });
+  req.on('error', () => {});
+
+  const next = async (event: string): Promise<any> => {
+    for (;;) {
+      const index = received.findIndex((e) => e.event === event);
+      if (index !== -1) {
+        return received.splice(0, index + 1)[index].data;
+      }
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  };
+  return { next, close: () => req.destroy() };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+/** Open a WebSocket and hand out parsed JSON messages in arrival order */
+function openWebSocket(port: number, path: string): Promise<{ next: () => Promise<any>; send: (data: unknown) => void; socket: Duplex }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64'),
+      },
+    });
+    req.on('response', (res) => reject(new Error(`Upgrade refused: ${res.statusCode}`)));
+    req.on('error', reject);
+    req.on('upgrade', (_res, socket: Duplex) => {
+      const received: any[] = [];
+      const waiters: Array<() => void> = [];
+      let buffer = Buffer.alloc(0);
+      socket.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        for (;;) {
+          if (buffer.length < 2) return;
+          let length = buffer[1] & 0x7f;
+          let offset = 2;
+          if (length === 126) {
+            if (buffer.length < 4) return;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+          } else if (length === 127) {
+            if (buffer.length < 10) return;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+          }
+          if (buffer.length < offset + length) return;
+          if ((buffer[0] & 0x0f) === 0x1) {
+            received.push(JSON.parse(buffer.subarray(offset, offset + length).toString('utf8')));
+            waiters.splice(0).forEach((wake) => wake());
+          }
+          buffer = buffer.subarray(offset + length);
+        }
+      });
+
+      const send = (data: unknown): void => {
+        const payload = Buffer.from(JSON.stringify(data));
+        const mask = crypto.randomBytes(4);
+        const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+        socket.write(Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]));
+      };
+      const next = async (): Promise<any> => {
+        while (received.length === 0) {
+          await new Promise<void>((wake) => waiters.push(wake));
+        }
+        return received.shift();
+      };
+      resolve({ next, send, socket });
+    });
+    req.end();
+  });
+}
+
+describe('WebDashboard', () => {
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let server: MCPServer;
+  let port: number;
+  let releaseSlowTool: () => void;
+
+  beforeEach(async () => {
+    setHumanRequests(new HumanRequestRegistry());
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    server = new MCPServer(mockSessionManager as any);
+    server.registerTool('navigate', async () => ({ content: [{ type: 'text', text: 'ok' }] }), {
+      name: 'navigate',
+      description: 'navigate',
+      inputSchema: { type: 'object', properties: { url: { type: 'string' }, text: { type: 'string' } } },
+    });
+    server.registerTool('wait_for', () => new Promise((resolve) => {
+      releaseSlowTool = () => resolve({ content: [{ type: 'text', text: 'done' }] });
+    }), {
+      name: 'wait_for',
+      description: 'slow',
+      inputSchema: { type: 'object', properties: {} },
+    });
+    port = await server.startWebDashboard({ port: 0 });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    getOperationController().reset();
+  });
+
+  const callTool = (name: string, args: Record<string, unknown> = {}): Promise<any> =>
+    server.handleRequest({ jsonrpc: '2.0', id: Math.random(), method: 'tools/call', params: { name, arguments: args, sessionId: 'web' } })
+      .then((response) => response.result);
+
+  test('serves the page and lists sessions, workers and tabs without touching session TTLs', async () => {
+    await mockSessionManager.createSession({ id: 'alpha' });
+    const { targetId } = await mockSessionManager.createTarget('alpha', 'https://example.com/a');
+    mockSessionManager.touchSession.mockClear();
+
+    const page = await request(port, 'GET', '/');
+    expect(page.status).toBe(200);
+    expect(page.headers['content-type']).toContain('text/html');
+    expect(page.body.toString()).toContain('new EventSource(\'/events\')');
+
+    const reply = await request(port, 'GET', '/api/sessions');
+    const { sessions } = JSON.parse(reply.body.toString());
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].workers[0].tabs).toEqual([{ targetId, url: 'https://example.com/a' }]);
+    expect(mockSessionManager.touchSession).not.toHaveBeenCalled();
+    expect(mockSessionManager.getPage).not.toHaveBeenCalled();
+  });
+
+  test('streams a snapshot, then call:start and call:end without typed text', async () => {
+    const events = openEvents(port);
+    try {
+      const snapshot = await events.next('snapshot');
+      expect(snapshot.status.isPaused).toBe(false);
+      expect(snapshot.active).toEqual([]);
+
+      await callTool('navigate', { url: 'https://example.com', text: 'hunter2' });
+
+      const started = await events.next('call:start');
+      expect(started).toEqual(expect.objectContaining({ toolName: 'navigate', sessionId: 'web', result: 'pending', detail: 'https://example.com' }));
+      const ended = await events.next('call:end');
+      expect(ended).toEqual(expect.objectContaining({ id: started.id, result: 'success' }));
+      expect(JSON.stringify([started, ended])).not.toContain('hunter2');
+    } finally {
+      events.close();
+    }
+  });
+
+  test('pause holds new calls until resume, and broadcasts the status', async () => {
+    const events = openEvents(port);
+    try {
+      await events.next('snapshot');
+
+      const paused = await request(port, 'POST', '/api/pause');
+      expect(JSON.parse(paused.body.toString()).isPaused).toBe(true);
+      expect((await events.next('status')).isPaused).toBe(true);
+
+      let finished = false;
+      const call = callTool('navigate', { url: 'https://example.com' }).then((result) => {
+        finished = true;
+        return result;
+      });
+      await events.next('call:start');
+      expect(finished).toBe(false);
+
+      await request(port, 'POST', '/api/resume');
+      expect((await events.next('status')).isPaused).toBe(false);
+      expect((await call).isError).toBeUndefined();
+    } finally {
+      events.close();
+    }
+  });
+
+  test('kill aborts a running call', async () => {
+    const events = openEvents(port);
+    try {
+      await events.next('snapshot');
+      const call = callTool('wait_for');
+      const started = await events.next('call:start');
+
+      const reply = await request(port, 'POST', `/api/calls/${started.id}/cancel`);
+      expect(reply.status).toBe(200);
+
+      const result = await call;
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Operation cancelled from the dashboard');
+      expect((await events.next('call:end')).result).toBe('error');
+      expect(getOperationController().isCancelled(started.id)).toBe(false);
+
+      expect((await request(port, 'POST', `/api/calls/${started.id}/cancel`)).status).toBe(404);
+    } finally {
+      releaseSlowTool();
+      events.close();
+    }
+  });
+
+  test('captures a scaled JPEG thumbnail of the tab viewport', async () => {
+    await mockSessionManager.createSession({ id: 'alpha' });
+    const { targetId } = await mockSessionManager.createTarget('alpha', 'https://example.com/a');
+    const cdpClient = mockSessionManager.getCDPClient();
+    cdpClient.send.mockImplementation(async (_page: unknown, method: string) => (
+      method === 'Page.getLayoutMetrics'
+        ? { cssVisualViewport: { pageX: 0, pageY: 400, clientWidth: 1280, clientHeight: 800 } }
+        : { data: Buffer.from('jpeg-bytes').toString('base64') }
+    ));
+
+    const reply = await request(port, 'GET', `/api/tabs/${targetId}/thumbnail`);
+    expect(reply.status).toBe(200);
+    expect(reply.headers['content-type']).toBe('image/jpeg');
+    expect(reply.body.toString()).toBe('jpeg-bytes');
+    expect(cdpClient.send).toHaveBeenCalledWith(expect.anything(), 'Page.captureScreenshot', expect.objectContaining({
+      format: 'jpeg',
+      clip: { x: 0, y: 400, width: 1280, height: 800, scale: 0.25 },
+    }));
+
+    expect((await request(port, 'GET', '/api/tabs/unknown/thumbnail')).status).toBe(404);
+  });
+
+  test('rejects foreign origins and non-loopback hosts', async () => {
+    expect((await request(port, 'POST', '/api/pause', { Origin: 'https://evil.example' })).status).toBe(403);
+    expect((await request(port, 'GET', '/api/sessions', { Host: 'rebind.example:80' })).status).toBe(403);
+    // Another app on a different loopback port
+    expect((await request(port, 'POST', '/api/pause', { Origin: `http://localhost:${port + 1}` })).status).toBe(403);
+    expect((await request(port, 'GET', '/api/sessions', { Host: `127.0.0.1:${port + 1}` })).status).toBe(403);
+    expect(getOperationController().isPaused).toBe(false);
+
+    expect((await request(port, 'POST', '/api/pause', { Origin: `http://127.0.0.1:${port}` })).status).toBe(200);
+  });
+
+  test('streams screencast frames over a WebSocket and replays input in the tab', async () => {
+    await mockSessionManager.createSession({ id: 'alpha' });
+    const { targetId, page } = await mockSessionManager.createTarget('alpha', 'https://example.com/a');
+    const cdpSession = Object.assign(new EventEmitter(), {
+      send: jest.fn().mockResolvedValue({}),
+      detach: jest.fn().mockResolvedValue(undefined),
+    });
+    (page.createCDPSession as jest.Mock).mockResolvedValue(cdpSession);
+
+    expect((await request(port, 'GET', `/tabs/${targetId}`)).status).toBe(200);
+
+    const viewer = await openWebSocket(port, `/api/tabs/${targetId}/screencast`);
+    await waitFor(() => cdpSession.send.mock.calls.some(([method]) => method === 'Page.startScreencast'));
+
+    cdpSession.emit('Page.screencastFrame', {
+      data: 'frame-bytes',
+      sessionId: 7,
+      metadata: { deviceWidth: 1000, deviceHeight: 500 },
+    });
+    expect(await viewer.next()).toEqual({ type: 'frame', data: 'frame-bytes', width: 1000, height: 500 });
+    expect(cdpSession.send).toHaveBeenCalledWith('Page.screencastFrameAck', { sessionId: 7 });
+
+    viewer.send({ type: 'mouse', action: 'down', x: 0.5, y: 0.25 });
+    viewer.send({ type: 'key', action: 'down', key: 'a' });
+    await waitFor(() => cdpSession.send.mock.calls.some(([method]) => method === 'Input.dispatchKeyEvent'));
+    expect(cdpSession.send).toHaveBeenCalledWith('Input.dispatchMouseEvent', expect.objectContaining({
+      type: 'mousePressed', x: 500, y: 125, button: 'left', clickCount: 1,
+    }));
+    expect(cdpSession.send).toHaveBeenCalledWith('Input.dispatchKeyEvent', expect.objectContaining({
+      type: 'keyDown', key: 'a', text: 'a',
+    }));
+
+    viewer.socket.destroy();
+    await waitFor(() => cdpSession.send.mock.calls.some(([method]) => method === 'Page.stopScreencast'));
+    expect(cdpSession.detach).toHaveBeenCalled();
+
+    await expect(openWebSocket(port, '/api/tabs/unknown/screencast')).rejects.toThrow('404');
+  });
+
+  test('lists open human requests and completes them', async () => {
+    const events = openEvents(port);
+    const snapshot = await events.next('snapshot');
+    expect(snapshot.humanRequests).toEqual([]);
+
+    const humanRequest = getHumanRequests().open('alpha', 'tab-1', 'Solve the CAPTCHA');
+    expect(await events.next('human')).toEqual([expect.objectContaining({ id: humanRequest.id, reason: 'Solve the CAPTCHA' })]);
+
+    expect((await request(port, 'POST', `/api/human/${humanRequest.id}/done`)).status).toBe(200);
+    expect(await events.next('human')).toEqual([]);
+    expect((await request(port, 'POST', `/api/human/${humanRequest.id}/done`)).status).toBe(404);
+    events.close();
+  });
+});
+
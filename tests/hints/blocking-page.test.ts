@@ -84,4 +84,22 @@ describe('Blocking Page Rules', () => {
       expect(accessDeniedRule.match(ctx)).toContain('Access denied');
     });
   });
+
+  describe('otp-detected', () => {
+    const otpRule = blockingPageRules.find(r => r.name === 'otp-detected')!;
+
+    it('should suggest the totp tool when an OTP field is detected', () => {
+      const ctx = makeCtx({
+        resultText: JSON.stringify({
+          blockingPage: { type: 'otp', detail: 'input#code[autocomplete="one-time-code"]' },
+        }),
+      });
+      expect(otpRule.match(ctx)).toContain('call totp with action "fill"');
+    });
+
+    it('should not fire on errors', () => {
+      const ctx = makeCtx({ isError: true, resultText: '"blockingPage":{"type":"otp"}' });
+      expect(otpRule.match(ctx)).toBeNull();
+    });
+  });
 });
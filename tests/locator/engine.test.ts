@@ -0,0 +1,91 @@
+/// <reference types="jest" />
+/**
+ * Tests for the locator engine (CDP resolution pipeline)
+ */
+
+import type { Page } from 'puppeteer-core';
+import { LOCATOR_FUNCTION, locatorConditionExpression, parseLocator, resolveLocator } from '../../src/locator';
+
+const page = {} as Page;
+
+function info(name: string) {
+  return { backendDOMNodeId: 0, role: 'button', name, tagName: 'button', textContent: name, rect: { x: 0, y: 0, width: 80, height: 30 } };
+}
+
+function mockClient(responses: Record<string, unknown>) {
+  const send = jest.fn(async (_page: Page, method: string, params?: Record<string, unknown>) => {
+    const response = responses[method];
+    return typeof response === 'function' ? response(params) : response ?? {};
+  });
+  return { send };
+}
+
+describe('resolveLocator', () => {
+  test('returns matches with backend node IDs and the total before the limit', async () => {
+    const client = mockClient({
+      'Runtime.evaluate': { result: { objectId: 'matches' } },
+      'Runtime.callFunctionOn': { result: { value: { infos: [info('Save'), info('Save draft')], total: 5 } } },
+      'Runtime.getProperties': {
+        result: [
+          { name: '0', value: { objectId: 'el-0' } },
+          { name: '1', value: { objectId: 'el-1' } },
+          { name: 'infos', value: { objectId: 'infos' } },
+        ],
+      },
+      'DOM.describeNode': (params: { objectId: string }) => ({ node: { backendNodeId: params.objectId === 'el-0' ? 11 : 12 } }),
+    });
+
+    const { elements, total } = await resolveLocator(page, client, 'role=button[name=save]', 2);
+
+    expect(elements.map((el) => [el.backendDOMNodeId, el.name])).toEqual([[11, 'Save'], [12, 'Save draft']]);
+    expect(total).toBe(5);
+    expect(client.send).toHaveBeenCalledWith(page, 'Runtime.evaluate', expect.objectContaining({
+      expression: `(${LOCATOR_FUNCTION})(${JSON.stringify(parseLocator('role=button[name=save]'))}, 2)`,
+      objectGroup: 'openchrome-locator',
+    }));
+    expect(client.send).toHaveBeenCalledWith(page, 'Runtime.releaseObjectGroup', { objectGroup: 'openchrome-locator' });
+  });
+
+  test('drops elements that went away while resolving', async () => {
+    const client = mockClient({
+      'Runtime.evaluate': { result: { objectId: 'matches' } },
+      'Runtime.callFunctionOn': { result: { value: { infos: [info('A'), info('B')], total: 2 } } },
+      'Runtime.getProperties': { result: [{ name: '0', value: { objectId: 'el-0' } }, { name: '1', value: { objectId: 'el-1' } }] },
+      'DOM.describeNode': (params: { objectId: string }) => {
+        if (params.objectId === 'el-0') throw new Error('No node with given id found');
+        return { node: { backendNodeId: 21 } };
+      },
+    });
+
+    const { elements } = await resolveLocator(page, client, 'role=button');
+    expect(elements.map((el) => el.backendDOMNodeId)).toEqual([21]);
+  });
+
+  test('reports in-page errors with the locator and still releases its objects', async () => {
+    const client = mockClient({
+      'Runtime.evaluate': {
+        result: {},
+        exceptionDetails: { exception: { description: "SyntaxError: '##' is not a valid selector\n    at <anonymous>" } },
+      },
+    });
+
+    await expect(resolveLocator(page, client, 'css=##')).rejects.toThrow(
+      `Locator "css=##" failed: SyntaxError: '##' is not a valid selector`
+    );
+    expect(client.send).toHaveBeenCalledWith(page, 'Runtime.releaseObjectGroup', { objectGroup: 'openchrome-locator' });
+  });
+
+  test('rejects bad syntax before touching the page', async () => {
+    const client = mockClient({});
+    await expect(resolveLocator(page, client, 'role=button >> nth=x')).rejects.toThrow('Invalid locator');
+    expect(client.send).not.toHaveBeenCalled();
+  });
+});
+
+describe('locatorConditionExpression', () => {
+  test('checks for presence or absence of a match', () => {
+    const steps = parseLocator('role=dialog');
+    expect(locatorConditionExpression(steps, true)).toMatch(/, 1\)\.total > 0$/);
+    expect(locatorConditionExpression(steps, false)).toMatch(/, 1\)\.total === 0$/);
+  });
+});
@@ -0,0 +1,101 @@
+/// <reference types="jest" />
+/**
+ * Tests for the locator parser
+ */
+
+import { buildRoleLocator, isLocator, parseLocator, quoteLocatorText } from '../../src/locator';
+
+describe('parseLocator', () => {
+  test('parses role steps with name and state attributes', () => {
+    expect(parseLocator('role=button[name="Save"][disabled=false]')).toEqual([
+      { kind: 'role', role: 'button', name: { value: 'Save', exact: true }, disabled: false },
+    ]);
+    expect(parseLocator('role=heading[level=2][name=invoices]')).toEqual([
+      { kind: 'role', role: 'heading', level: 2, name: { value: 'invoices', exact: false } },
+    ]);
+    expect(parseLocator('role=checkbox[checked]')).toEqual([{ kind: 'role', role: 'checkbox', checked: true }]);
+  });
+
+  test('chains steps and keeps separators inside quotes and parentheses', () => {
+    expect(parseLocator('role=button[name="a >> b"] >> near(text="Billing", 150px) >> nth=-1')).toEqual([
+      { kind: 'role', role: 'button', name: { value: 'a >> b', exact: true } },
+      { kind: 'near', locator: [{ kind: 'text', match: { value: 'Billing', exact: true } }], maxDistance: 150 },
+      { kind: 'nth', index: -1 },
+    ]);
+    expect(parseLocator('role=row >> has(role=link >> has-text(Pay)) >> within(css=table.bills)')).toEqual([
+      { kind: 'role', role: 'row' },
+      { kind: 'has', locator: [{ kind: 'role', role: 'link' }, { kind: 'has-text', match: { value: 'Pay', exact: false } }] },
+      { kind: 'within', locator: [{ kind: 'css', selector: 'table.bills' }] },
+    ]);
+  });
+
+  test('keeps apostrophes in bare text as text', () => {
+    expect(parseLocator("text=Don't save >> nth=0")).toEqual([
+      { kind: 'text', match: { value: "Don't save", exact: false } },
+      { kind: 'nth', index: 0 },
+    ]);
+    expect(parseLocator("role=listitem >> has-text(Don't) >> role=button[name=Won't fix]")).toEqual([
+      { kind: 'role', role: 'listitem' },
+      { kind: 'has-text', match: { value: "Don't", exact: false } },
+      { kind: 'role', role: 'button', name: { value: "Won't fix", exact: false } },
+    ]);
+    // Quotes at the start of a value still protect separators
+    expect(parseLocator(`css=a[title='x >> y'] >> has-text("it's")`)).toEqual([
+      { kind: 'css', selector: "a[title='x >> y']" },
+      { kind: 'has-text', match: { value: "it's", exact: true } },
+    ]);
+  });
+
+  test('treats bare steps as CSS or XPath and unescapes quoted text', () => {
+    expect(parseLocator('form.signup input[type=email]')).toEqual([{ kind: 'css', selector: 'form.signup input[type=email]' }]);
+    expect(parseLocator('//button[1]')).toEqual([{ kind: 'xpath', expression: '//button[1]' }]);
+    expect(parseLocator('label="Say \\"hi\\""')).toEqual([{ kind: 'label', match: { value: 'Say "hi"', exact: true } }]);
+    expect(parseLocator('testid=checkout')).toEqual([{ kind: 'testid', value: 'checkout' }]);
+    expect(parseLocator('text=Total >> near(text=Billing)')[1]).toMatchObject({ maxDistance: 200 });
+  });
+
+  test.each([
+    ['', 'empty step'],
+    ['role=button >>', 'empty step'],
+    ['nth=0', 'must start with a selector'],
+    ['role=button[name]', '[name] needs a value'],
+    ['role=button[foo=1]', 'unknown role attribute "foo"'],
+    ['text="unterminated', 'unterminated quote'],
+    ['bogus=1', 'unknown engine "bogus="'],
+    ['css=a >> near(text=x, far)', 'bad distance "far"'],
+    ['css=a >> nth=first', 'nth needs an integer'],
+  ])('rejects %j', (source, reason) => {
+    expect(() => parseLocator(source)).toThrow(reason);
+  });
+});
+
+describe('locator helpers', () => {
+  test('isLocator recognizes engine prefixes only', () => {
+    expect(isLocator('role=button[name="Save"]')).toBe(true);
+    expect(isLocator('  label=Email')).toBe(true);
+    expect(isLocator('Save button')).toBe(false);
+  });
+
+  test('buildRoleLocator quotes names and skips elements without a stable identity', () => {
+    expect(buildRoleLocator('button', '  Sign \n in ')).toBe('role=button[name="Sign in"]');
+    expect(buildRoleLocator('link', 'The "best" deal')).toBe(`role=link[name=${quoteLocatorText('The "best" deal')}]`);
+    expect(parseLocator(buildRoleLocator('link', 'The "best" deal')!)).toEqual([
+      { kind: 'role', role: 'link', name: { value: 'The "best" deal', exact: true } },
+    ]);
+    expect(buildRoleLocator('link', "Don't miss")).toBe('role=link[name="Don\'t miss"]');
+    expect(buildRoleLocator('generic', 'Menu')).toBeNull();
+    expect(buildRoleLocator('button', '')).toBeNull();
+    expect(buildRoleLocator(undefined, 'Menu')).toBeNull();
+  });
+
+  test('buildRoleLocator matches long names by their start', () => {
+    const long = `Read the full article about ${'very '.repeat(20)}long titles`;
+    const locator = buildRoleLocator('link', long)!;
+    expect(locator).toBe(`role=link[name=${long.slice(0, 80).trim()}]`);
+    expect(parseLocator(locator)[0]).toMatchObject({ name: { value: long.slice(0, 80).trim(), exact: false } });
+
+    // Without a safe unquoted prefix the whole name is kept
+    const bracketed = `[Sponsored] ${'x'.repeat(100)}`;
+    expect(buildRoleLocator('link', bracketed)).toBe(`role=link[name=${quoteLocatorText(bracketed)}]`);
+  });
+});
@@ -212,7 +212,11 @@ describe('MCPServer', () => {
 
       await server.handleRequest(request);
 
-      expect(handler).toHaveBeenCalledWith('test-session', { foo: 'bar' });
+      expect(handler).toHaveBeenCalledWith(
+        'test-session',
+        { foo: 'bar' },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
     });
 
     test('returns tool result', async () => {
@@ -331,6 +335,96 @@ describe('MCPServer', () => {
     });
   });
 
+  describe('Progress and Cancellation', () => {
+    const definition: MCPToolDefinition = {
+      name: 'slow_tool',
+      description: 'Test tool',
+      inputSchema: { type: 'object', properties: {} },
+    };
+
+    const callRequest = (id: number, meta?: Record<string, unknown>): MCPRequest => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'slow_tool', arguments: {}, sessionId: 'test-session', ...(meta && { _meta: meta }) },
+    });
+
+    test('emits notifications/progress when the request carries a progressToken', async () => {
+      server.registerTool('slow_tool', async (_sessionId, _args, context) => {
+        context?.reportProgress(1, 2, 'half');
+        context?.reportProgress(2, 2);
+        return { content: [{ type: 'text', text: 'done' }] };
+      }, definition);
+      const notify = jest.fn();
+
+      await server.handleRequest(callRequest(1, { progressToken: 'tok-1' }), { notify });
+
+      expect(notify.mock.calls.map((call) => call[0])).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'tok-1', progress: 1, total: 2, message: 'half' } },
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'tok-1', progress: 2, total: 2 } },
+      ]);
+    });
+
+    test('does not emit progress without a progressToken', async () => {
+      server.registerTool('slow_tool', async (_sessionId, _args, context) => {
+        context?.reportProgress(1, 1);
+        return { content: [{ type: 'text', text: 'done' }] };
+      }, definition);
+      const notify = jest.fn();
+
+      await server.handleRequest(callRequest(2), { notify });
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    test('notifications/cancelled aborts the in-flight handler signal and waits for it to stop', async () => {
+      let signal: AbortSignal | undefined;
+      let stopped = false;
+      server.registerTool('slow_tool', (_sessionId, _args, context) => {
+        signal = context?.signal;
+        return new Promise((_, reject) => {
+          signal?.addEventListener('abort', () => setTimeout(() => {
+            stopped = true;
+            reject(new Error('aborted'));
+          }, 20));
+        });
+      }, definition);
+
+      const pending = server.handleRequest(callRequest(3), { clientId: 'client-a' });
+      await new Promise((resolve) => setImmediate(resolve));
+      server.handleNotification(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 3, reason: 'user abort' } },
+        { clientId: 'client-a' }
+      );
+      const response = (await pending) as MCPResultResponse;
+
+      expect(signal?.aborted).toBe(true);
+      expect(stopped).toBe(true);
+      expect(response.result.isError).toBe(true);
+      expect(response.result.content?.[0].text).toContain('Request cancelled by client: user abort');
+    });
+
+    test('cancellation is scoped to the requesting client', async () => {
+      let signal: AbortSignal | undefined;
+      server.registerTool('slow_tool', async (_sessionId, _args, context) => {
+        signal = context?.signal;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return { content: [{ type: 'text', text: 'done' }] };
+      }, definition);
+
+      const pending = server.handleRequest(callRequest(4), { clientId: 'client-a' });
+      await new Promise((resolve) => setImmediate(resolve));
+      server.handleNotification(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 4 } },
+        { clientId: 'client-b' }
+      );
+      const response = (await pending) as MCPResultResponse;
+
+      expect(signal?.aborted).toBe(false);
+      expect(response.result.isError).toBeFalsy();
+    });
+  });
+
   describe('Session Management APIs', () => {
     describe('sessions/list', () => {
       test('returns list of sessions', async () => {
@@ -0,0 +1,132 @@
+/**
+ * ElementRanker unit tests
+ * Verifies learning from retries, ref follow-ups, undo and moving on, and persistence.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ElementRanker } from '../../src/memory/element-ranker';
+import { FoundElement, scoreElement, tokenizeQuery } from '../../src/utils/element-finder';
+
+const URL = 'https://shop.example.com/catalog';
+
+function button(id: number, ariaLabel: string, y: number, width: number): FoundElement {
+  return {
+    backendDOMNodeId: id,
+    role: 'button',
+    name: 'Search',
+    tagName: 'button',
+    ariaLabel,
+    textContent: 'Search',
+    rect: { x: 100, y, width, height: 30 },
+    score: 0,
+  };
+}
+
+function rank(ranker: ElementRanker, query: string, elements: FoundElement[]): FoundElement[] {
+  const weights = ranker.weightsFor(URL);
+  return elements
+    .map((el) => ({ ...el, score: scoreElement(el, query.toLowerCase(), tokenizeQuery(query), weights) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+describe('ElementRanker', () => {
+  // The header search wins on the heuristic (size bonus); the catalog search is the one that works
+  const headerSearch = button(1, 'Search site', 40, 120);
+  const catalogSearch = button(2, 'Search products', 400, 40);
+  let ranker: ElementRanker;
+
+  beforeEach(() => {
+    ranker = new ElementRanker();
+  });
+
+  it('learns from a retry of the same query on another element', () => {
+    expect(rank(ranker, 'search', [catalogSearch, headerSearch])[0].backendDOMNodeId).toBe(1);
+
+    ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], headerSearch, true);
+    ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], catalogSearch, true);
+
+    expect(rank(ranker, 'search', [catalogSearch, headerSearch])[0].backendDOMNodeId).toBe(2);
+    expect(ranker.weightsFor(URL)['search|aria:search products']).toBeGreaterThan(0);
+    expect(ranker.weightsFor(URL)['search|aria:search site']).toBeLessThan(0);
+    // Features both buttons share are left alone
+    expect(ranker.weightsFor(URL)['search|name:search']).toBeUndefined();
+    expect(ranker.weightsFor('https://other.example.org/')).toEqual({});
+  });
+
+  it('learns from which find result is acted on by ref, once per find', () => {
+    ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], headerSearch, false);
+    ranker.recordRefAction('s1', 'tab1', 2);
+    const learned = { ...ranker.weightsFor(URL) };
+    expect(learned['aria:search products']).toBe(ElementRanker.LEARNING_RATE);
+
+    // The next action is the next step, not a verdict on the ranking
+    ranker.recordRefAction('s1', 'tab1', 1);
+    expect(ranker.weightsFor(URL)).toEqual(learned);
+    // Other tabs and unknown elements are not affected
+    ranker.recordRefAction('s1', 'tab2', 2);
+    ranker.recordRefAction('s1', 'tab1', 99);
+    expect(ranker.getAll()[0].updates).toBe(1);
+  });
+
+  it('reinforces a pick when the agent moves on, and penalizes it on undo', () => {
+    ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], headerSearch, true);
+    ranker.recordChoice('s1', 'tab1', URL, 'add to cart', [headerSearch], headerSearch, true);
+    expect(ranker.weightsFor(URL)['search|aria:search site']).toBe(ElementRanker.CONFIRM_RATE);
+
+    ranker.recordChoice('s1', 'tab2', URL, 'search', [headerSearch, catalogSearch], headerSearch, true);
+    ranker.recordUndo('s1', 'tab2');
+    expect(ranker.weightsFor(URL)['search|aria:search site']).toBe(ElementRanker.CONFIRM_RATE - ElementRanker.LEARNING_RATE / 2);
+
+    // Only a pick that was acted on can be undone
+    const before = { ...ranker.weightsFor(URL) };
+    ranker.recordChoice('s1', 'tab3', URL, 'search', [headerSearch, catalogSearch], headerSearch, false);
+    ranker.recordUndo('s1', 'tab3');
+    expect(ranker.weightsFor(URL)).toEqual(before);
+  });
+
+  it('ignores follow-ups after the window and pages without a site', () => {
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], headerSearch, true);
+    spy.mockReturnValue(now + ElementRanker.FOLLOW_UP_WINDOW_MS + 1);
+    ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], catalogSearch, true);
+    spy.mockRestore();
+
+    ranker.recordChoice('s1', 'tab2', 'about:blank', 'search', [headerSearch, catalogSearch], headerSearch, true);
+    ranker.recordChoice('s1', 'tab2', 'about:blank', 'search', [headerSearch, catalogSearch], catalogSearch, true);
+
+    expect(ranker.getAll()).toEqual([]);
+  });
+
+  it('persists weights and drops stale sites on load', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'element-ranker-'));
+    try {
+      ranker.enablePersistence(dir);
+      ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], headerSearch, true);
+      ranker.recordChoice('s1', 'tab1', URL, 'search', [headerSearch, catalogSearch], catalogSearch, true);
+      // Learning does not write; the debounced save does
+      expect(fs.existsSync(path.join(dir, 'element-ranking.json'))).toBe(false);
+      await ranker.save();
+
+      const reloaded = new ElementRanker();
+      reloaded.enablePersistence(dir);
+      expect(reloaded.weightsFor(URL)).toEqual(ranker.weightsFor(URL));
+
+      const file = path.join(dir, 'element-ranking.json');
+      const store = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      store.domains[0].updatedAt = Date.now() - (ElementRanker.STALE_DAYS + 1) * 24 * 60 * 60 * 1000;
+      fs.writeFileSync(file, JSON.stringify(store));
+
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const compressed = new ElementRanker();
+      compressed.enablePersistence(dir);
+      errorSpy.mockRestore();
+      expect(compressed.getAll()).toEqual([]);
+      await compressed.save();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
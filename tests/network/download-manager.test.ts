@@ -0,0 +1,216 @@
+/// <reference types="jest" />
+/**
+ * Tests for DownloadManager: per-worker directories, renaming and file metadata
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CDPClient } from '../../src/cdp/client';
+import { DownloadManager, getDownloadManager, guessMimeType } from '../../src/network/download-manager';
+import type { Worker } from '../../src/types/session';
+
+type Handler = (event: any) => unknown;
+
+function createFakeBrowser() {
+  const handlers = new Map<string, Handler>();
+  const session = {
+    on: jest.fn((event: string, handler: Handler) => handlers.set(event, handler)),
+    send: jest.fn().mockResolvedValue({}),
+  };
+  const browser = { target: () => ({ createCDPSession: jest.fn().mockResolvedValue(session) }) };
+  return { browser: browser as any, session, emit: (event: string, payload: unknown) => handlers.get(event)!(payload) };
+}
+
+function createWorker(id: string, contextId?: string, targets: string[] = []): Worker {
+  return {
+    id,
+    name: id,
+    targets: new Set(targets),
+    context: contextId ? ({ id: contextId } as any) : null,
+    createdAt: Date.now(),
+    lastActivityAt: Date.now(),
+  };
+}
+
+describe('DownloadManager', () => {
+  let root: string;
+  let manager: DownloadManager;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'downloads-'));
+    manager = new DownloadManager(root);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  /** Simulate Chrome saving a GUID-named file and reporting completion */
+  async function download(fake: ReturnType<typeof createFakeBrowser>, dir: string, guid: string, frameId: string, content: string, filename = 'report.csv') {
+    fake.emit('Browser.downloadWillBegin', { frameId, guid, url: `https://example.com/${filename}`, suggestedFilename: filename });
+    fs.writeFileSync(path.join(dir, guid), content);
+    await fake.emit('Browser.downloadProgress', { guid, totalBytes: content.length, receivedBytes: content.length, state: 'completed' });
+  }
+
+  test('gives each worker its own directory scoped to its browser context', async () => {
+    const fake = createFakeBrowser();
+    const a = createWorker('worker-a', 'ctx-a', ['tab-a']);
+    const b = createWorker('worker-b', 'ctx-b', ['tab-b']);
+
+    const dirA = await manager.configureWorker(fake.browser, 's1', a);
+    const dirB = await manager.configureWorker(fake.browser, 's1', b);
+
+    expect(dirA).toBe(path.join(root, 's1', 'worker-a'));
+    expect(a.downloadDir).toBe(dirA);
+    expect(dirB).not.toBe(dirA);
+    expect(fake.session.send).toHaveBeenCalledWith('Browser.setDownloadBehavior', {
+      behavior: 'allowAndName',
+      downloadPath: dirA,
+      eventsEnabled: true,
+      browserContextId: 'ctx-a',
+    });
+    // One browser session and one set of listeners for all workers
+    expect(fake.session.on).toHaveBeenCalledTimes(2);
+
+    // Both workers export the same report at the same time
+    await download(fake, dirA!, 'guid-a', 'tab-a', 'id,total\n1,10\n');
+    await download(fake, dirB!, 'guid-b', 'tab-b', 'id,total\n2,20\n');
+
+    const [recordA] = manager.list({ sessionId: 's1', workerId: 'worker-a' });
+    expect(recordA).toMatchObject({
+      state: 'completed',
+      tabId: 'tab-a',
+      path: path.join(dirA!, 'report.csv'),
+      size: 14,
+      mimeType: 'text/csv',
+      sha256: createHash('sha256').update('id,total\n1,10\n').digest('hex'),
+    });
+    expect(fs.readFileSync(path.join(dirB!, 'report.csv'), 'utf8')).toBe('id,total\n2,20\n');
+  });
+
+  test('keeps earlier files when the same name is downloaded twice', async () => {
+    const fake = createFakeBrowser();
+    const worker = createWorker('default', undefined, ['tab-1']);
+    const dir = (await manager.configureWorker(fake.browser, 's1', worker))!;
+    expect(fake.session.send.mock.calls[0][1]).not.toHaveProperty('browserContextId');
+
+    await download(fake, dir, 'g1', 'tab-1', 'first');
+    await download(fake, dir, 'g2', 'tab-1', 'second');
+    // Subframe downloads are attributed by the directory Chrome saved them to
+    await download(fake, dir, 'g3', 'iframe-1', 'third', '../../evil.pdf');
+
+    expect(manager.list({ sessionId: 's1' }).map(r => r.path)).toEqual([
+      path.join(dir, 'report.csv'),
+      path.join(dir, 'report (1).csv'),
+      path.join(dir, 'evil.pdf'),
+    ]);
+    expect(manager.list({ sessionId: 's1', tabId: 'tab-1' })).toHaveLength(2);
+  });
+
+  test('workers without a browser context share one directory instead of moving the browser-wide path', async () => {
+    const fake = createFakeBrowser();
+    const a = createWorker('worker-a', undefined, ['tab-a']);
+    const b = createWorker('worker-b', undefined, ['tab-b']);
+
+    const dirA = await manager.configureWorker(fake.browser, 's1', a);
+    const dirB = await manager.configureWorker(fake.browser, 's2', b);
+
+    expect(dirA).toBe(path.join(root, '_default-context'));
+    expect(dirB).toBe(dirA);
+    // The browser-wide path is set once, not re-pointed by every worker
+    expect(fake.session.send).toHaveBeenCalledTimes(1);
+    await expect(manager.configureWorker(fake.browser, 's1', a, path.join(root, 'mine')))
+      .rejects.toThrow('uses Chrome\'s default browser context');
+
+    // Downloads are still told apart by the tab that started them
+    await download(fake, dirA!, 'guid-a', 'tab-a', 'a');
+    await download(fake, dirA!, 'guid-b', 'tab-b', 'b');
+    expect(manager.list({ sessionId: 's1', workerId: 'worker-a' }).map(r => r.path)).toEqual([path.join(dirA!, 'report.csv')]);
+    expect(manager.list({ sessionId: 's2', workerId: 'worker-b' }).map(r => r.path)).toEqual([path.join(dirA!, 'report (1).csv')]);
+  });
+
+  test('creates directories on the first download', async () => {
+    const fake = createFakeBrowser();
+    const worker = createWorker('worker-a', 'ctx-a', ['tab-a']);
+    const dir = (await manager.configureWorker(fake.browser, 's1', worker))!;
+    expect(fs.existsSync(dir)).toBe(false);
+
+    fake.emit('Browser.downloadWillBegin', { frameId: 'tab-a', guid: 'g1', url: 'https://example.com/a', suggestedFilename: 'a' });
+    expect(fs.existsSync(dir)).toBe(true);
+  });
+
+  test('wait returns each finished download once', async () => {
+    const fake = createFakeBrowser();
+    const worker = createWorker('default', undefined, ['tab-1']);
+    const dir = (await manager.configureWorker(fake.browser, 's1', worker))!;
+
+    const waiting = manager.wait({ sessionId: 's1', workerId: 'default' }, 1000);
+    fake.emit('Browser.downloadWillBegin', { frameId: 'tab-1', guid: 'g1', url: 'https://example.com/a.zip', suggestedFilename: 'a.zip' });
+    await fake.emit('Browser.downloadProgress', { guid: 'g1', totalBytes: 10, receivedBytes: 5, state: 'inProgress' });
+    expect(manager.pending({ sessionId: 's1' })).toHaveLength(1);
+    fs.writeFileSync(path.join(dir, 'g1'), '0123456789');
+    await fake.emit('Browser.downloadProgress', { guid: 'g1', totalBytes: 10, receivedBytes: 10, state: 'completed' });
+
+    expect(await waiting).toMatchObject({ guid: 'g1', state: 'completed', mimeType: 'application/zip' });
+    expect(await manager.wait({ sessionId: 's1' }, 10)).toBeNull();
+
+    fake.emit('Browser.downloadWillBegin', { frameId: 'tab-1', guid: 'g2', url: 'https://example.com/b', suggestedFilename: 'b' });
+    await fake.emit('Browser.downloadProgress', { guid: 'g2', totalBytes: 0, receivedBytes: 0, state: 'canceled' });
+    expect(await manager.wait({ sessionId: 's1' }, 10)).toMatchObject({ guid: 'g2', state: 'canceled' });
+    expect(await manager.wait({ sessionId: 'other' }, 10)).toBeNull();
+  });
+
+  test('leaves workers on Chrome defaults when the browser session is unavailable', async () => {
+    const worker = createWorker('default');
+    const browser = { target: () => { throw new Error('no browser target'); } } as any;
+
+    expect(await manager.configureWorker(browser, 's1', worker)).toBeNull();
+    expect(worker.downloadDir).toBeUndefined();
+  });
+
+  test('guesses MIME types from the extension', () => {
+    expect(guessMimeType('Report.XLSX')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(guessMimeType('data.bin')).toBe('application/octet-stream');
+  });
+
+  test('new pages do not deny downloads in a context that saves them to a worker directory', async () => {
+    const calls: string[] = [];
+    const fake = createFakeBrowser();
+    fake.session.send.mockImplementation(async (method: string, params: { behavior: string }) => {
+      calls.push(`${method} ${params.behavior}`);
+      return {};
+    });
+    const client = new CDPClient();
+    jest.spyOn(client, 'send').mockImplementation(async (_page: unknown, method: string, params?: any) => {
+      calls.push(`${method} ${params?.behavior ?? ''}`.trim());
+      return undefined as never;
+    });
+    const openPage = async (contextId: string) => {
+      const page = {
+        on: jest.fn(),
+        target: () => ({ _targetId: `tab-${contextId}` }),
+        mainFrame: jest.fn(),
+        evaluateOnNewDocument: jest.fn().mockResolvedValue(undefined),
+        browser: () => fake.browser,
+        browserContext: () => ({ id: contextId }),
+      };
+      await (client as any).configurePageDefenses(page);
+    };
+
+    // Workers are set up before their first tab is created
+    const worker = createWorker('worker-a', 'ctx-worker', ['tab-ctx-worker']);
+    await getDownloadManager().configureWorker(fake.browser, 's1', worker);
+    await openPage('ctx-worker');
+    await openPage('ctx-other');
+
+    expect(calls).toEqual([
+      'Browser.setDownloadBehavior allowAndName',
+      'Page.setDownloadBehavior deny',
+    ]);
+    getDownloadManager().releaseWorker('s1', worker);
+  });
+});
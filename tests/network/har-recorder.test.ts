@@ -0,0 +1,171 @@
+/// <reference types="jest" />
+/**
+ * Tests for HarRecorder (CDP Network events → HAR 1.2)
+ */
+
+import { HarRecorder, CdpResponse, redactUrl } from '../../src/network/har-recorder';
+
+function response(overrides: Partial<CdpResponse> = {}): CdpResponse {
+  return {
+    url: 'https://example.com/',
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'text/html' },
+    mimeType: 'text/html',
+    protocol: 'h2',
+    ...overrides,
+  };
+}
+
+describe('HarRecorder', () => {
+  test('builds a HAR 1.2 entry from request/response/finished events', () => {
+    const recorder = new HarRecorder();
+    recorder.onRequestWillBeSent({
+      requestId: '1',
+      request: { url: 'https://example.com/?q=1', method: 'GET', headers: { Accept: 'text/html' } },
+      timestamp: 100,
+      wallTime: 1700000000,
+      type: 'Document',
+    });
+    recorder.onResponseReceived({
+      requestId: '1',
+      timestamp: 100.2,
+      response: response({
+        remoteIPAddress: '93.184.216.34',
+        timing: {
+          requestTime: 100,
+          dnsStart: 1, dnsEnd: 11,
+          connectStart: 11, connectEnd: 41,
+          sslStart: 21, sslEnd: 41,
+          sendStart: 41, sendEnd: 42,
+          receiveHeadersEnd: 142,
+        },
+      }),
+    });
+    recorder.onLoadingFinished({ requestId: '1', timestamp: 100.2, encodedDataLength: 512 });
+
+    const har = recorder.toHar('test run');
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.creator.name).toBe('openchrome');
+    expect(har.log.comment).toBe('test run');
+    expect(har.log.entries).toHaveLength(1);
+
+    const entry = har.log.entries[0];
+    expect(entry.startedDateTime).toBe(new Date(1700000000 * 1000).toISOString());
+    expect(entry.request.method).toBe('GET');
+    expect(entry.request.httpVersion).toBe('HTTP/2');
+    expect(entry.request.queryString).toEqual([{ name: 'q', value: '1' }]);
+    expect(entry.response.status).toBe(200);
+    expect(entry.response.bodySize).toBe(512);
+    expect(entry.serverIPAddress).toBe('93.184.216.34');
+    expect(entry._resourceType).toBe('Document');
+    expect(entry.timings).toEqual({ blocked: 1, dns: 10, connect: 30, ssl: 20, send: 1, wait: 100, receive: 58 });
+    expect(entry.time).toBe(200);
+  });
+
+  test('records each redirect hop as its own entry', () => {
+    const recorder = new HarRecorder();
+    recorder.onRequestWillBeSent({
+      requestId: '1',
+      request: { url: 'http://example.com/', method: 'GET', headers: {} },
+      timestamp: 1,
+      wallTime: 1700000000,
+    });
+    recorder.onRequestWillBeSent({
+      requestId: '1',
+      request: { url: 'https://example.com/', method: 'GET', headers: {} },
+      timestamp: 2,
+      wallTime: 1700000001,
+      redirectResponse: response({ status: 301, statusText: 'Moved Permanently', headers: { Location: 'https://example.com/' } }),
+    });
+    recorder.onResponseReceived({ requestId: '1', timestamp: 3, response: response() });
+    recorder.onLoadingFinished({ requestId: '1', timestamp: 3, encodedDataLength: 10 });
+
+    const entries = recorder.toHar().log.entries;
+    expect(entries.map(e => e.response.status)).toEqual([301, 200]);
+    expect(entries[0].response.redirectURL).toBe('https://example.com/');
+    expect(entries[1].request.url).toBe('https://example.com/');
+  });
+
+  test('redacts sensitive headers, cookies, query params and body fields', () => {
+    const recorder = new HarRecorder();
+    recorder.onRequestWillBeSent({
+      requestId: '1',
+      request: {
+        url: 'https://example.com/login?access_token=abc&page=2',
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer secret',
+          Cookie: 'sid=123; theme=dark',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        postData: 'username=alice&password=hunter2',
+      },
+      timestamp: 1,
+      wallTime: 1700000000,
+    });
+    recorder.onResponseReceived({
+      requestId: '1',
+      timestamp: 2,
+      response: response({ headers: { 'Set-Cookie': 'sid=456; HttpOnly', 'Content-Type': 'application/json' }, mimeType: 'application/json' }),
+    });
+    const entry = recorder.onLoadingFinished({ requestId: '1', timestamp: 2, encodedDataLength: 20 });
+    entry!.body = { text: JSON.stringify({ user: 'alice', token: 'xyz' }), base64Encoded: false };
+
+    const har = recorder.toHar();
+    const serialized = JSON.stringify(har);
+    for (const secret of ['Bearer secret', 'sid=123', 'hunter2', 'abc', 'sid=456', 'xyz']) {
+      expect(serialized).not.toContain(secret);
+    }
+
+    const harEntry = har.log.entries[0];
+    expect(harEntry.request.url).toContain('page=2');
+    expect(harEntry.request.cookies.map(c => c.name)).toEqual(['sid', 'theme']);
+    expect(harEntry.request.postData?.params).toEqual([
+      { name: 'username', value: 'alice' },
+      { name: 'password', value: '[REDACTED]' },
+    ]);
+    expect(JSON.parse(harEntry.response.content.text!)).toEqual({ user: 'alice', token: '[REDACTED]' });
+  });
+
+  test('failed and in-flight requests get status 0', () => {
+    const recorder = new HarRecorder();
+    recorder.onRequestWillBeSent({
+      requestId: '1',
+      request: { url: 'https://blocked.example/', method: 'GET', headers: {} },
+      timestamp: 1,
+      wallTime: 1700000000,
+    });
+    recorder.onLoadingFailed({ requestId: '1', timestamp: 1.5, errorText: 'net::ERR_BLOCKED_BY_CLIENT' });
+    recorder.onRequestWillBeSent({
+      requestId: '2',
+      request: { url: 'https://slow.example/', method: 'GET', headers: {} },
+      timestamp: 2,
+      wallTime: 1700000001,
+    });
+
+    const entries = recorder.toHar().log.entries;
+    expect(entries.map(e => e.response.status)).toEqual([0, 0]);
+    expect(entries[0].response._error).toBe('net::ERR_BLOCKED_BY_CLIENT');
+    expect(recorder.inFlightCount).toBe(1);
+  });
+
+  test('drops requests beyond maxEntries', () => {
+    const recorder = new HarRecorder({ maxEntries: 2 });
+    for (let i = 0; i < 5; i++) {
+      recorder.onRequestWillBeSent({
+        requestId: String(i),
+        request: { url: `https://example.com/${i}`, method: 'GET', headers: {} },
+        timestamp: i,
+        wallTime: 1700000000 + i,
+      });
+    }
+    expect(recorder.size).toBe(2);
+    expect(recorder.droppedCount).toBe(3);
+  });
+
+  test('redactUrl leaves URLs without sensitive params untouched', () => {
+    expect(redactUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+    expect(redactUrl('not a url')).toBe('not a url');
+  });
+});
@@ -0,0 +1,150 @@
+/// <reference types="jest" />
+/**
+ * Tests for HarReplayer
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HarReplayer, loadHarEntries } from '../../src/network/har-replay';
+import { HarEntry, HarFile } from '../../src/types/har';
+
+function entry(
+  url: string,
+  body: string,
+  overrides: { method?: string; postData?: string; status?: number; headers?: Array<{ name: string; value: string }> } = {}
+): HarEntry {
+  return {
+    startedDateTime: new Date(0).toISOString(),
+    time: 0,
+    request: {
+      method: overrides.method ?? 'GET',
+      url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: [],
+      queryString: [],
+      ...(overrides.postData !== undefined && { postData: { mimeType: 'application/json', text: overrides.postData } }),
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: overrides.status ?? 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: overrides.headers ?? [{ name: 'Content-Type', value: 'text/plain' }],
+      content: { size: body.length, mimeType: 'text/plain', text: body },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: body.length,
+    },
+    cache: {},
+    timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 },
+  };
+}
+
+function harFile(entries: HarEntry[]): HarFile {
+  return { log: { version: '1.2', creator: { name: 'test', version: '0' }, entries } };
+}
+
+describe('HarReplayer', () => {
+  test('matches on URL and method by default, ignoring query order and fragments', () => {
+    const replayer = new HarReplayer([entry('https://api.example.com/items?a=1&b=2', 'items')]);
+
+    const hit = replayer.match({ url: 'https://api.example.com/items?b=2&a=1#top', method: 'get' });
+    expect(hit?.status).toBe(200);
+    expect(hit?.body.toString()).toBe('items');
+    expect(replayer.match({ url: 'https://api.example.com/items?a=1&b=2', method: 'POST' })).toBeNull();
+    expect(replayer.match({ url: 'https://api.example.com/other', method: 'GET' })).toBeNull();
+  });
+
+  test('plays back repeated requests in recorded order, then repeats the last', () => {
+    const replayer = new HarReplayer([
+      entry('https://example.com/poll', 'first'),
+      entry('https://example.com/poll', 'second'),
+    ]);
+    const req = { url: 'https://example.com/poll', method: 'GET' };
+
+    expect(replayer.match(req)?.body.toString()).toBe('first');
+    expect(replayer.match(req)?.body.toString()).toBe('second');
+    expect(replayer.match(req)?.body.toString()).toBe('second');
+
+    replayer.reset();
+    expect(replayer.match(req)?.body.toString()).toBe('first');
+  });
+
+  test('body matching compares hashes of the redacted request body', () => {
+    const replayer = new HarReplayer(
+      [
+        entry('https://example.com/login', 'ok', { method: 'POST', postData: '{"user":"alice","password":"[REDACTED]"}' }),
+        entry('https://example.com/login', 'other', { method: 'POST', postData: '{"user":"bob","password":"[REDACTED]"}' }),
+      ],
+      ['url', 'method', 'body']
+    );
+
+    const hit = replayer.match({
+      url: 'https://example.com/login',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      postData: JSON.stringify({ user: 'alice', password: 'hunter2' }),
+    });
+    expect(hit?.body.toString()).toBe('ok');
+  });
+
+  test('live URLs with sensitive params still match redacted recordings', () => {
+    const replayer = new HarReplayer([entry('https://example.com/cb?token=%5BREDACTED%5D&x=1', 'cb')]);
+    expect(replayer.match({ url: 'https://example.com/cb?x=1&token=live-value', method: 'GET' })?.body.toString()).toBe('cb');
+  });
+
+  test('strips encoding headers and redacted values, decodes base64 bodies', () => {
+    const recorded = entry('https://example.com/img', '', {
+      headers: [
+        { name: 'Content-Encoding', value: 'gzip' },
+        { name: 'Content-Length', value: '999' },
+        { name: 'Set-Cookie', value: '[REDACTED]' },
+        { name: 'X-Trace', value: 'a' },
+        { name: 'X-Trace', value: 'b' },
+      ],
+    });
+    recorded.response.content = { size: 3, mimeType: 'image/png', text: Buffer.from([1, 2, 3]).toString('base64'), encoding: 'base64' };
+    const replayer = new HarReplayer([recorded]);
+
+    const hit = replayer.match({ url: 'https://example.com/img', method: 'GET' })!;
+    expect(hit.headers).toEqual({ 'x-trace': ['a', 'b'] });
+    expect(hit.contentType).toBe('image/png');
+    expect(Array.from(hit.body)).toEqual([1, 2, 3]);
+  });
+
+  test('skips entries without a response', () => {
+    const replayer = new HarReplayer([entry('https://example.com/fail', '', { status: 0 })]);
+    expect(replayer.entryCount).toBe(0);
+  });
+
+  describe('loadHarEntries', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-replay-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('loads a single file or every .har file in a directory', async () => {
+      fs.writeFileSync(path.join(dir, 'a.har'), JSON.stringify(harFile([entry('https://example.com/a', 'a')])));
+      fs.writeFileSync(path.join(dir, 'b.har'), JSON.stringify(harFile([entry('https://example.com/b', 'b')])));
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+      expect(await loadHarEntries(path.join(dir, 'a.har'))).toHaveLength(1);
+      const all = await loadHarEntries(dir);
+      expect(all.map(e => e.request.url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+    });
+
+    test('rejects files that are not HAR', async () => {
+      fs.writeFileSync(path.join(dir, 'bad.har'), '{"foo": 1}');
+      await expect(loadHarEntries(path.join(dir, 'bad.har'))).rejects.toThrow('missing log.entries');
+    });
+  });
+});
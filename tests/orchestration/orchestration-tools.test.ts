@@ -132,13 +132,14 @@ describe('Orchestration MCP Tools', () => {
 
   describe('Tool Registration', () => {
     test('should register all 6 orchestration tools', () => {
-      expect(mockServer.registerTool).toHaveBeenCalledTimes(8);
+      expect(mockServer.registerTool).toHaveBeenCalledTimes(9);
       expect(toolHandlers.has('workflow_init')).toBe(true);
       expect(toolHandlers.has('workflow_status')).toBe(true);
       expect(toolHandlers.has('workflow_collect')).toBe(true);
       expect(toolHandlers.has('workflow_cleanup')).toBe(true);
       expect(toolHandlers.has('worker_update')).toBe(true);
       expect(toolHandlers.has('worker_complete')).toBe(true);
+      expect(toolHandlers.has('record_plan')).toBe(true);
     });
   });
 
@@ -5,6 +5,7 @@
  * Tests cover:
  *   - PlanRegistry: matching, registration, stats, default plans
  *   - PlanExecutor: step execution, param substitution, error handling, success criteria
+ *   - Selector healing: fingerprint capture, re-identification, write-back with version bump
  *   - Integration: register → match → (mock) execute
  */
 
@@ -16,13 +17,14 @@ import { PlanRegistry } from '../../src/orchestration/plan-registry';
 import type {
   CompiledPlan,
   CompiledStep,
+  ElementFingerprint,
   PlanEntry,
   PlanExecutionResult,
   TaskPattern,
 } from '../../src/types/plan-cache';
 import type { MCPResult, ToolHandler } from '../../src/types/mcp';
 
-import { PlanExecutor } from '../../src/orchestration/plan-executor';
+import { HealedElement, PlanExecutor, bumpPlanVersion } from '../../src/orchestration/plan-executor';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -369,6 +371,25 @@ describe('PlanRegistry', () => {
       expect(result).toBeNull();
     });
   });
+
+  // -------------------------------------------------------------------------
+  // updatePlan
+  // -------------------------------------------------------------------------
+
+  describe('updatePlan', () => {
+    test('overwrites the plan file and keeps stats', () => {
+      const entry = registry.registerPlan(buildPlan({ id: 'healable' }), buildPattern());
+      registry.updateStats('healable', true, 100);
+
+      expect(registry.updatePlan(buildPlan({ id: 'healable', version: '1.0.1' }))).toBe(true);
+      expect(registry.loadPlan(entry)!.version).toBe('1.0.1');
+      expect(registry.getEntry('healable')!.stats.successCount).toBe(1);
+    });
+
+    test('returns false for an unregistered plan', () => {
+      expect(registry.updatePlan(buildPlan({ id: 'unknown' }))).toBe(false);
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -434,7 +455,11 @@ describePlanExecutor('PlanExecutor', () => {
 
     await executor.execute(plan, SESSION_ID, {});
 
-    expect(handler).toHaveBeenCalledWith(SESSION_ID, expect.any(Object));
+    expect(handler).toHaveBeenCalledWith(
+      SESSION_ID,
+      expect.any(Object),
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
   });
 
   // -----------------------------------------------------------------------
@@ -691,6 +716,244 @@ describePlanExecutor('PlanExecutor', () => {
     expect(typeof result.durationMs).toBe('number');
     expect(result.durationMs).toBeGreaterThanOrEqual(0);
   });
+
+  // -----------------------------------------------------------------------
+  // Progress and cancellation
+  // -----------------------------------------------------------------------
+
+  test('reports progress after each step', async () => {
+    const handler = makeMockHandler(makeMCPResult('ok'));
+    const executor = new PlanExecutor(makeResolverWith({ mock_tool: handler }));
+    const reportProgress = jest.fn();
+    const plan = buildPlan({
+      id: 'progress-plan',
+      steps: [
+        buildStep({ order: 1, tool: 'mock_tool', args: {} }),
+        buildStep({ order: 2, tool: 'mock_tool', args: {} }),
+      ],
+      successCriteria: {},
+    });
+
+    await executor.execute(plan, SESSION_ID, {}, { signal: new AbortController().signal, reportProgress });
+
+    expect(reportProgress.mock.calls.map((call) => [call[0], call[1]])).toEqual([[1, 2], [2, 2]]);
+  });
+
+  test('stops before the next step once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const first = jest.fn(async () => {
+      controller.abort();
+      return makeMCPResult('ok');
+    });
+    const second = makeMockHandler(makeMCPResult('ok'));
+    const executor = new PlanExecutor(makeResolverWith({ first_tool: first, second_tool: second }));
+    const plan = buildPlan({
+      id: 'cancel-plan',
+      steps: [
+        buildStep({ order: 1, tool: 'first_tool', args: {} }),
+        buildStep({ order: 2, tool: 'second_tool', args: {} }),
+      ],
+      successCriteria: {},
+    });
+
+    const result = await executor.execute(plan, SESSION_ID, {}, {
+      signal: controller.signal,
+      reportProgress: jest.fn(),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Cancelled before step 2');
+    expect(result.stepsExecuted).toBe(1);
+    expect(second).not.toHaveBeenCalled();
+  });
+  test('aborts a step that times out and waits for it to stop', async () => {
+    let stopped = false;
+    const slow: ToolHandler = (_sessionId, _args, context) => new Promise((resolve) => {
+      context!.signal.addEventListener('abort', () => setTimeout(() => {
+        stopped = true;
+        resolve(makeMCPResult('late'));
+      }, 30));
+    });
+    const executor = new PlanExecutor(makeResolverWith({ slow_tool: slow }));
+    const plan = buildPlan({
+      id: 'timeout-plan',
+      steps: [buildStep({ order: 1, tool: 'slow_tool', args: {}, timeout: 20 })],
+      successCriteria: {},
+    });
+
+    const result = await executor.execute(plan, SESSION_ID, {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('timed out after 20ms');
+    expect(stopped).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Selector healing
+// ---------------------------------------------------------------------------
+
+describe('PlanExecutor selector healing', () => {
+  const SESSION_ID = 'test-session-002';
+  const submitFingerprint: ElementFingerprint = {
+    tagName: 'button',
+    role: 'button',
+    name: 'Submit order',
+    text: 'Submit order',
+    attributes: { id: 'submit', class: 'btn primary' },
+    domPath: 'body > main > form#checkout > button#submit',
+    neighborText: ['Total: $42'],
+  };
+
+  /** Fake page: selectors in `present` match that many elements */
+  function makeHealer(present: Record<string, number>, healTo: string | null = null) {
+    return {
+      count: jest.fn(async (_s: string, _t: string, selector: string) => present[selector] ?? 0),
+      capture: jest.fn(async (): Promise<ElementFingerprint | null> => submitFingerprint),
+      heal: jest.fn(async (): Promise<HealedElement | null> => healTo
+        ? { selector: healTo, fingerprint: { ...submitFingerprint, attributes: { class: 'btn primary' } }, similarity: 0.8312 }
+        : null),
+    };
+  }
+
+  function makeResolverWith(handlers: Record<string, ToolHandler>) {
+    return (toolName: string): ToolHandler | null => handlers[toolName] ?? null;
+  }
+
+  function clickPlan(step: Partial<CompiledStep> = {}): CompiledPlan {
+    return buildPlan({
+      id: 'checkout-v1',
+      steps: [
+        buildStep({ order: 1, tool: 'navigate', args: { tabId: '${tabId}', url: 'https://shop.test' } }),
+        buildStep({ order: 2, tool: 'query_dom', args: { tabId: '${tabId}', method: 'css', selector: '#submit' }, ...step }),
+      ],
+    });
+  }
+
+  test('fingerprints a selector the first time it matches one element', async () => {
+    const healer = makeHealer({ '#submit': 1 });
+    const onPlanUpdated = jest.fn();
+    const tool = jest.fn(async () => makeMCPResult('ok'));
+    const executor = new PlanExecutor(() => tool, { healer, onPlanUpdated, healGraceMs: 0 });
+
+    const result = await executor.execute(clickPlan(), SESSION_ID, { tabId: 'TAB1' });
+
+    expect(result.success).toBe(true);
+    expect(result.healedSelectors).toBeUndefined();
+    expect(healer.count).toHaveBeenCalledWith(SESSION_ID, 'TAB1', '#submit');
+    const updated: CompiledPlan = onPlanUpdated.mock.calls[0][0];
+    expect(updated.version).toBe('1.0.0');
+    expect(updated.steps[1].fingerprints).toEqual({ selector: submitFingerprint });
+    expect(updated.steps[0]).toEqual(clickPlan().steps[0]);
+  });
+
+  test('does not fingerprint list selectors or change a plan that is already fingerprinted', async () => {
+    const onPlanUpdated = jest.fn();
+    const tool = jest.fn(async () => makeMCPResult('ok'));
+
+    const listHealer = makeHealer({ '.item': 12 });
+    await new PlanExecutor(() => tool, { healer: listHealer, onPlanUpdated, healGraceMs: 0 })
+      .execute(clickPlan({ args: { tabId: '${tabId}', method: 'css', selector: '.item', multiple: true } }), SESSION_ID, { tabId: 'TAB1' });
+    expect(listHealer.capture).not.toHaveBeenCalled();
+
+    const healer = makeHealer({ '#submit': 1 });
+    await new PlanExecutor(() => tool, { healer, onPlanUpdated, healGraceMs: 0 })
+      .execute(clickPlan({ fingerprints: { selector: submitFingerprint } }), SESSION_ID, { tabId: 'TAB1' });
+    expect(healer.capture).not.toHaveBeenCalled();
+    expect(onPlanUpdated).not.toHaveBeenCalled();
+  });
+
+  test('heals a selector that no longer matches and bumps the plan version', async () => {
+    const healer = makeHealer({}, 'button[aria-label="Submit order"]');
+    const onPlanUpdated = jest.fn();
+    const tool = jest.fn(async () => makeMCPResult('ok'));
+    const executor = new PlanExecutor(() => tool, { healer, onPlanUpdated, healGraceMs: 0 });
+
+    const result = await executor.execute(clickPlan({ fingerprints: { selector: submitFingerprint } }), SESSION_ID, { tabId: 'TAB1' });
+
+    expect(result.success).toBe(true);
+    expect(healer.heal).toHaveBeenCalledWith(SESSION_ID, 'TAB1', submitFingerprint);
+    expect(tool).toHaveBeenLastCalledWith(
+      SESSION_ID,
+      { tabId: 'TAB1', method: 'css', selector: 'button[aria-label="Submit order"]' },
+      expect.anything()
+    );
+    expect(result.healedSelectors).toEqual([
+      { order: 2, arg: 'selector', from: '#submit', to: 'button[aria-label="Submit order"]', similarity: 0.83 },
+    ]);
+
+    const updated: CompiledPlan = onPlanUpdated.mock.calls[0][0];
+    expect(updated.version).toBe('1.0.1');
+    expect(updated.steps[1].args.selector).toBe('button[aria-label="Submit order"]');
+    expect(updated.steps[1].fingerprints!.selector.attributes).toEqual({ class: 'btn primary' });
+  });
+
+  test('keeps the stored selector when the healed step fails or nothing is close enough', async () => {
+    const onPlanUpdated = jest.fn();
+    const failing = jest.fn(async (): Promise<MCPResult> => ({ content: [{ type: 'text', text: 'Error: not clickable' }], isError: true }));
+    const navigate = jest.fn(async () => makeMCPResult('ok'));
+    const healer = makeHealer({}, '#other');
+    const healed = await new PlanExecutor(makeResolverWith({ navigate, query_dom: failing }), { healer, onPlanUpdated, healGraceMs: 0 })
+      .execute(clickPlan({ fingerprints: { selector: submitFingerprint } }), SESSION_ID, { tabId: 'TAB1' });
+    expect(healer.heal).toHaveBeenCalled();
+    expect(failing).toHaveBeenCalledWith(SESSION_ID, expect.objectContaining({ selector: '#other' }), expect.anything());
+    expect(healed.success).toBe(false);
+    expect(healed.healedSelectors).toBeUndefined();
+
+    const tool = jest.fn(async () => makeMCPResult('ok'));
+    const unhealed = await new PlanExecutor(() => tool, { healer: makeHealer({}, null), onPlanUpdated, healGraceMs: 0 })
+      .execute(clickPlan({ fingerprints: { selector: submitFingerprint } }), SESSION_ID, { tabId: 'TAB1' });
+    expect(tool).toHaveBeenLastCalledWith(SESSION_ID, expect.objectContaining({ selector: '#submit' }), expect.anything());
+    expect(unhealed.healedSelectors).toBeUndefined();
+    expect(onPlanUpdated).not.toHaveBeenCalled();
+  });
+
+  test('saves a new fingerprint only when the step succeeds', async () => {
+    const onPlanUpdated = jest.fn();
+    const navigate = jest.fn(async () => makeMCPResult('ok'));
+    const failing = jest.fn(async (): Promise<MCPResult> => ({ content: [{ type: 'text', text: 'Error: not clickable' }], isError: true }));
+    const healer = makeHealer({ '#submit': 1 });
+
+    const result = await new PlanExecutor(makeResolverWith({ navigate, query_dom: failing }), { healer, onPlanUpdated, healGraceMs: 0 })
+      .execute(clickPlan(), SESSION_ID, { tabId: 'TAB1' });
+
+    expect(result.success).toBe(false);
+    expect(healer.capture).toHaveBeenCalled();
+    expect(onPlanUpdated).not.toHaveBeenCalled();
+  });
+
+  test('does not wait for a missing selector that has no fingerprint to heal from', async () => {
+    const healer = makeHealer({});
+    const tool = jest.fn(async () => makeMCPResult('ok'));
+    const startedAt = Date.now();
+
+    const result = await new PlanExecutor(() => tool, { healer, healGraceMs: 5000 }).execute(clickPlan(), SESSION_ID, { tabId: 'TAB1' });
+
+    expect(result.success).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(healer.count).toHaveBeenCalledTimes(1);
+    expect(healer.heal).not.toHaveBeenCalled();
+  });
+
+  test('leaves templated selectors and wait_for steps alone', async () => {
+    const healer = makeHealer({});
+    const tool = jest.fn(async () => makeMCPResult('ok'));
+    const plan = buildPlan({
+      steps: [
+        buildStep({ order: 1, tool: 'query_dom', args: { tabId: '${tabId}', selector: '${rowSelector}' } }),
+        buildStep({ order: 2, tool: 'wait_for', args: { tabId: '${tabId}', type: 'selector', value: '#done', selector: '#done' } }),
+      ],
+    });
+
+    await new PlanExecutor(() => tool, { healer, healGraceMs: 0 }).execute(plan, SESSION_ID, { tabId: 'TAB1', rowSelector: 'tr' });
+    expect(healer.count).not.toHaveBeenCalled();
+  });
+
+  test('bumpPlanVersion increments the patch number', () => {
+    expect(bumpPlanVersion('1.0.0')).toBe('1.0.1');
+    expect(bumpPlanVersion('2.3.9')).toBe('2.3.10');
+    expect(bumpPlanVersion('v1')).toBe('v1.1');
+  });
 });
 
 // ---------------------------------------------------------------------------
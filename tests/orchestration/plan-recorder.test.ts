@@ -0,0 +1,172 @@
+/// <reference types="jest" />
+/**
+ * Tests for PlanRecorder (timeline → CompiledPlan)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ToolCallEvent } from '../../src/dashboard/types';
+import {
+  compilePlanFromCalls,
+  readTimelineEvents,
+  selectTimelineCalls,
+} from '../../src/orchestration/plan-recorder';
+
+let counter = 0;
+function call(toolName: string, args: Record<string, unknown>, overrides: Partial<ToolCallEvent> = {}): ToolCallEvent {
+  counter++;
+  return {
+    id: `call-${counter}`,
+    toolName,
+    sessionId: 'sess',
+    args: { tabId: 'TAB1', ...args },
+    startTime: 1000 + counter,
+    duration: 500,
+    result: 'success',
+    ...overrides,
+  };
+}
+
+describe('readTimelineEvents', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-recorder-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reads timeline files in date order and skips malformed lines', () => {
+    const a = call('navigate', { url: 'https://example.com' });
+    const b = call('interact', { query: 'Save button' });
+    fs.writeFileSync(path.join(dir, 'timeline-2026-01-02.jsonl'), JSON.stringify(b) + '\n{"partial":');
+    fs.writeFileSync(path.join(dir, 'timeline-2026-01-01.jsonl'), JSON.stringify(a) + '\n');
+    fs.writeFileSync(path.join(dir, 'other.jsonl'), JSON.stringify(a) + '\n');
+
+    expect(readTimelineEvents(dir).map(e => e.id)).toEqual([a.id, b.id]);
+  });
+
+  test('returns an empty list when the directory does not exist', () => {
+    expect(readTimelineEvents(path.join(dir, 'missing'))).toEqual([]);
+  });
+});
+
+describe('selectTimelineCalls', () => {
+  test('keeps successful calls for the tab and session, deduplicated and ordered', () => {
+    const nav = call('navigate', { url: 'https://example.com' });
+    const click = call('interact', { query: 'Go' });
+    const failed = call('interact', { query: 'Nope' }, { result: 'error' });
+    const otherTab = call('interact', { query: 'Elsewhere', tabId: 'TAB2' });
+    const otherSession = call('interact', { query: 'Theirs' }, { sessionId: 'other' });
+
+    const selected = selectTimelineCalls(
+      [click, nav, failed, otherTab, otherSession, click],
+      { tabId: 'TAB1', sessionId: 'sess' }
+    );
+    expect(selected.map(c => c.id)).toEqual([nav.id, click.id]);
+  });
+
+  test('applies time range and lastN', () => {
+    const calls = [call('navigate', { url: 'https://a.test' }), call('interact', { query: 'A' }), call('interact', { query: 'B' })];
+    expect(selectTimelineCalls(calls, { tabId: 'TAB1', since: calls[1].startTime }).length).toBe(2);
+    expect(selectTimelineCalls(calls, { tabId: 'TAB1', lastN: 1 })[0].id).toBe(calls[2].id);
+  });
+});
+
+describe('compilePlanFromCalls', () => {
+  test('rewrites refs into element descriptions and parameterizes typed values', () => {
+    const { plan, pattern, warnings } = compilePlanFromCalls([
+      call('navigate', { url: 'https://app.example.com/login?next=/' }),
+      call('read_page', { mode: 'ax' }),
+      call('form_input', { ref: 'ref_3', value: 'ada@example.com' }, { refTarget: { role: 'textbox', name: 'Email' } }),
+      call('form_input', { ref: 'ref_4', value: 'hunter2' }, { refTarget: { role: 'textbox', name: 'Password' } }),
+      call('computer', { action: 'screenshot' }),
+      call('computer', { action: 'left_click', ref: 'ref_5' }, { refTarget: { role: 'button', name: 'Sign in' } }),
+    ], { planId: 'login-v1', taskKeywords: ['login'] });
+
+    expect(plan.steps).toEqual([
+      { order: 1, tool: 'navigate', args: { tabId: '${tabId}', url: 'https://app.example.com/login?next=/' }, timeout: 10000 },
+      { order: 2, tool: 'fill_form', args: { tabId: '${tabId}', fields: { Email: '${email}' } }, timeout: 10000 },
+      { order: 3, tool: 'fill_form', args: { tabId: '${tabId}', fields: { Password: '${password}' } }, timeout: 10000 },
+      { order: 4, tool: 'interact', args: { tabId: '${tabId}', locator: 'role=button[name="Sign in"]', query: 'Sign in button', action: 'click' }, timeout: 10000 },
+    ]);
+    expect(plan.parameters).toEqual({
+      email: { source: 'task_args', default: 'ada@example.com' },
+      password: { source: 'task_args' },
+    });
+    expect(JSON.stringify(plan)).not.toContain('hunter2');
+    expect(warnings).toEqual([expect.stringContaining('"password" has no default')]);
+    expect(pattern).toEqual({
+      urlPattern: '^https://app\\.example\\.com/',
+      taskKeywords: ['login'],
+      toolSequence: ['navigate', 'fill_form', 'fill_form', 'interact'],
+    });
+    expect(new RegExp(pattern.urlPattern!).test('https://app.example.com/dashboard')).toBe(true);
+  });
+
+  test('keeps a final extraction step and requires its result', () => {
+    const { plan } = compilePlanFromCalls([
+      call('navigate', { url: 'https://example.com' }),
+      call('fill_form', { fields: { Search: 'laptops', 'Max price': 900 } }),
+      call('javascript_tool', { code: 'document.title' }, { duration: 20000 }),
+    ], { planId: 'search-v1' });
+
+    expect(plan.steps[1].args.fields).toEqual({ Search: '${search}', 'Max price': 900 });
+    expect(plan.steps[2]).toMatchObject({
+      tool: 'javascript_tool',
+      timeout: 60000,
+      parseResult: { format: 'json', storeAs: 'result' },
+    });
+    expect(plan.successCriteria).toEqual({ requiredFields: ['result'] });
+  });
+
+  test('deduplicates parameter names', () => {
+    const { plan } = compilePlanFromCalls([
+      call('computer', { action: 'type', text: 'first' }),
+      call('computer', { action: 'type', text: 'second' }),
+    ], { planId: 'typing' });
+
+    expect(plan.steps.map(s => s.args.text)).toEqual(['${text}', '${text_2}']);
+  });
+
+  test('keeps typed text as a default only for fields known not to hold secrets', () => {
+    const { plan, warnings } = compilePlanFromCalls([
+      call('computer', { action: 'type', text: 'ada' }, { refTarget: { role: 'textbox', tagName: 'INPUT', name: 'login', inputType: 'text' } }),
+      call('computer', { action: 'type', text: 'hunter2' }, { refTarget: { role: 'textbox', tagName: 'INPUT', name: 'login', inputType: 'password' } }),
+      call('computer', { action: 'type', text: '123456' }, { refTarget: { role: 'textbox', tagName: 'INPUT', autocomplete: 'one-time-code' } }),
+      call('computer', { action: 'type', text: 'unknown' }),
+    ], { planId: 'typing' });
+
+    expect(plan.parameters).toEqual({
+      text: { source: 'task_args', default: 'ada' },
+      text_2: { source: 'task_args' },
+      text_3: { source: 'task_args' },
+      text_4: { source: 'task_args' },
+    });
+    expect(JSON.stringify(plan)).not.toContain('hunter2');
+    expect(warnings).toHaveLength(3);
+  });
+
+  test('falls back to an element description when a ref has no accessible name', () => {
+    const { plan } = compilePlanFromCalls([
+      call('computer', { action: 'hover', ref: 'ref_2' }, { refTarget: { role: 'generic', tagName: 'DIV', textContent: 'Account menu' } }),
+    ], { planId: 'hover' });
+
+    expect(plan.steps[0].args).toEqual({ tabId: '${tabId}', query: 'Account menu div', action: 'hover' });
+  });
+
+  test('fails when a ref has no recorded element description', () => {
+    expect(() => compilePlanFromCalls([
+      call('navigate', { url: 'https://example.com' }),
+      call('computer', { action: 'left_click', ref: 'ref_9' }),
+    ], { planId: 'broken' })).toThrow('computer left_click (ref ref_9)');
+  });
+
+  test('fails when nothing in the range is replayable', () => {
+    expect(() => compilePlanFromCalls([call('read_page', {}), call('find', { query: 'x' })], { planId: 'empty' }))
+      .toThrow('No replayable tool calls');
+  });
+});
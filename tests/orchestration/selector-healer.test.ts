@@ -0,0 +1,89 @@
+/// <reference types="jest" />
+/**
+ * Tests for SelectorHealer fingerprint matching
+ */
+
+import type { ElementFingerprint } from '../../src/types/plan-cache';
+import {
+  fingerprintSimilarity,
+  HealCandidate,
+  MIN_SIMILARITY,
+  pickHealedCandidate,
+  textSimilarity,
+} from '../../src/orchestration/selector-healer';
+
+function fingerprint(overrides: Partial<ElementFingerprint> = {}): ElementFingerprint {
+  return {
+    tagName: 'button',
+    role: 'button',
+    name: 'Add to cart',
+    text: 'Add to cart',
+    attributes: { id: 'add-to-cart', class: 'btn btn-primary', type: 'submit' },
+    domPath: 'body > main.product > form#buy > button#add-to-cart',
+    neighborText: ['Quantity', '$19.99'],
+    ...overrides,
+  };
+}
+
+function candidate(selector: string, overrides: Partial<ElementFingerprint>): HealCandidate {
+  return { selector, fingerprint: fingerprint(overrides) };
+}
+
+describe('textSimilarity', () => {
+  test('compares normalized text, then token overlap', () => {
+    expect(textSimilarity('  Add to\n cart ', 'add to cart')).toBe(1);
+    expect(textSimilarity('Add to cart', 'Add to basket')).toBe(0.5);
+    expect(textSimilarity('Add to cart', '')).toBe(0);
+    expect(textSimilarity(undefined, '')).toBe(1);
+  });
+});
+
+describe('fingerprintSimilarity', () => {
+  test('is 1 for the same element and drops as it changes', () => {
+    const original = fingerprint();
+    expect(fingerprintSimilarity(original, fingerprint())).toBe(1);
+
+    // Redesign: new id and classes, same label and place
+    const redesigned = fingerprint({
+      attributes: { id: 'buy-now-2024', class: 'cta cta--large', type: 'submit' },
+      domPath: 'body > main.product-page > form#buy > button#buy-now-2024',
+    });
+    const unrelated = fingerprint({
+      name: 'Sign in',
+      text: 'Sign in',
+      attributes: { class: 'link' },
+      domPath: 'body > header > nav > button.link',
+      neighborText: ['Help'],
+    });
+    expect(fingerprintSimilarity(original, redesigned)).toBeGreaterThan(MIN_SIMILARITY);
+    expect(fingerprintSimilarity(original, unrelated)).toBeLessThan(MIN_SIMILARITY);
+  });
+
+  test('only compares what the stored element had', () => {
+    const bare = fingerprint({ role: undefined, name: undefined, text: undefined, attributes: {}, neighborText: [] });
+    expect(fingerprintSimilarity(bare, fingerprint())).toBe(1);
+  });
+});
+
+describe('pickHealedCandidate', () => {
+  const original = fingerprint();
+
+  test('picks the closest candidate', () => {
+    const best = pickHealedCandidate(original, [
+      candidate('nav > button.link', { name: 'Sign in', text: 'Sign in', attributes: { class: 'link' }, domPath: 'body > header > nav > button.link' }),
+      candidate('button[name="buy"]', { attributes: { name: 'buy', class: 'cta', type: 'submit' } }),
+    ]);
+    expect(best?.candidate.selector).toBe('button[name="buy"]');
+    expect(best?.similarity).toBeGreaterThan(MIN_SIMILARITY);
+  });
+
+  test('gives up when nothing is close enough or two candidates tie', () => {
+    expect(pickHealedCandidate(original, [])).toBeNull();
+    expect(pickHealedCandidate(original, [
+      candidate('a.help', { tagName: 'a', role: 'link', name: 'Help', text: 'Help', attributes: {}, domPath: 'body > footer > a', neighborText: [] }),
+    ])).toBeNull();
+
+    const twin = { attributes: { class: 'cta', type: 'submit' } };
+    expect(pickHealedCandidate(original, [candidate('#a', twin), candidate('#b', twin)])).toBeNull();
+  });
+});
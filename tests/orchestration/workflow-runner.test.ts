@@ -0,0 +1,206 @@
+/// <reference types="jest" />
+/**
+ * Tests for workflow files and WorkflowRunner (oc run)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPResult, ToolHandler } from '../../src/types/mcp';
+import { loadWorkflowFile, parseCsv, validateWorkflow } from '../../src/orchestration/workflow-file';
+import { WorkflowRunner } from '../../src/orchestration/workflow-runner';
+
+const text = (value: unknown): MCPResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value) }],
+});
+
+describe('workflow files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('loads YAML and defaults the name to the file name', async () => {
+    const file = path.join(dir, 'login.yaml');
+    fs.writeFileSync(file, [
+      'vars:',
+      '  url: https://example.com',
+      'steps:',
+      '  - tool: navigate',
+      '    args: { url: "${url}" }',
+    ].join('\n'));
+
+    const loaded = await loadWorkflowFile(file);
+    expect(loaded.definition.name).toBe('login');
+    expect(loaded.definition.steps).toEqual([{ tool: 'navigate', args: { url: '${url}' } }]);
+    expect(loaded.baseDir).toBe(dir);
+  });
+
+  test('validation errors name the offending step', () => {
+    expect(() => validateWorkflow({ steps: [] })).toThrow('steps must be a non-empty array');
+    expect(() => validateWorkflow({ steps: [{ tool: 'navigate', assert: { value: 1, equals: 1 } }] }))
+      .toThrow('steps[0] must have exactly one of');
+    expect(() => validateWorkflow({ steps: [{ forEach: [1], steps: [{ assert: { value: 1 } }] }] }))
+      .toThrow('steps[0].steps[0].assert needs one of');
+    expect(() => validateWorkflow({ steps: [{ assert: { value: 'x', matches: '(unclosed' } }] }))
+      .toThrow('steps[0].assert.matches is not a valid regular expression');
+  });
+
+  test('parseCsv handles quoted fields, escaped quotes and CRLF', () => {
+    const rows = parseCsv('name,note\r\n"Doe, Jane","said ""hi"""\r\nBob,\r\n');
+    expect(rows).toEqual([
+      { name: 'Doe, Jane', note: 'said "hi"' },
+      { name: 'Bob', note: '' },
+    ]);
+  });
+});
+
+describe('WorkflowRunner', () => {
+  let handlers: Record<string, jest.Mock>;
+  let runner: WorkflowRunner;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-run-'));
+    handlers = {
+      navigate: jest.fn(async (_s: string, args: Record<string, unknown>) => text({ tabId: 'tab-1', url: args.url })),
+      read_page: jest.fn(async () => text({ title: 'Welcome back', items: 3 })),
+      fill_form: jest.fn(async () => text({ filled: 1 })),
+      broken: jest.fn(async () => ({ content: [{ type: 'text', text: 'Element not found' }], isError: true })),
+    };
+    runner = new WorkflowRunner(name => (handlers[name] as unknown as ToolHandler) ?? null);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('substitutes vars, captures tabId and saves results', async () => {
+    const report = await runner.run({
+      name: 'basic',
+      vars: { site: 'https://example.com' },
+      steps: [
+        { tool: 'navigate', args: { url: '${site}/login' } },
+        { tool: 'read_page', args: { tabId: '${tabId}' }, save: { as: 'title', field: 'title' } },
+        { assert: { value: '${title}', contains: 'Welcome' } },
+      ],
+    }, { sessionId: 's1' });
+
+    expect(report.success).toBe(true);
+    expect(handlers.navigate).toHaveBeenCalledWith('s1', { url: 'https://example.com/login' }, expect.objectContaining({
+      signal: expect.any(AbortSignal),
+    }));
+    expect(handlers.read_page.mock.calls[0][1]).toEqual({ tabId: 'tab-1' });
+    expect(report.vars.title).toBe('Welcome back');
+    expect(report.steps.map(s => [s.path, s.status])).toEqual([['1', 'passed'], ['2', 'passed'], ['3', 'passed']]);
+    expect(report.steps[1].saved).toBe('title');
+  });
+
+  test('loops over CSV rows relative to the workflow file', async () => {
+    fs.writeFileSync(path.join(dir, 'people.csv'), 'name,email\nAda,ada@example.com\nBob,bob@example.com\n');
+    const file = path.join(dir, 'signup.yaml');
+    fs.writeFileSync(file, [
+      'steps:',
+      '  - forEach: people.csv',
+      '    as: person',
+      '    steps:',
+      '      - tool: fill_form',
+      '        args: { fields: { Name: "${person.name}", Email: "${person.email}" } }',
+    ].join('\n'));
+
+    const report = await runner.run(await loadWorkflowFile(file), { sessionId: 's1' });
+
+    expect(report.success).toBe(true);
+    expect(report.file).toBe(file);
+    expect(handlers.fill_form.mock.calls.map(c => c[1])).toEqual([
+      { fields: { Name: 'Ada', Email: 'ada@example.com' } },
+      { fields: { Name: 'Bob', Email: 'bob@example.com' } },
+    ]);
+    expect(report.steps.map(s => s.path)).toEqual(['1[0].1', '1[1].1', '1']);
+    expect(report.steps[2].iterations).toBe(2);
+  });
+
+  test('stops on the first failure and reports it', async () => {
+    const report = await runner.run({
+      name: 'fails',
+      steps: [
+        { tool: 'broken' },
+        { tool: 'navigate', args: { url: 'https://example.com' } },
+      ],
+    }, { sessionId: 's1' });
+
+    expect(report.success).toBe(false);
+    expect(report.error).toBe('Step 1 (broken) failed: Element not found');
+    expect(handlers.navigate).not.toHaveBeenCalled();
+    expect(report.steps).toHaveLength(1);
+  });
+
+  test('continueOnError records failures without stopping', async () => {
+    const report = await runner.run({
+      name: 'soft',
+      steps: [
+        { tool: 'missing_tool', continueOnError: true },
+        { assert: { value: 2, equals: 3, message: 'count mismatch' }, continueOnError: true },
+        { tool: 'navigate', args: { url: 'https://example.com' } },
+      ],
+    }, { sessionId: 's1' });
+
+    expect(report.success).toBe(true);
+    expect(report.steps[0].error).toBe('No handler found for tool "missing_tool"');
+    expect(report.steps[1].error).toBe('count mismatch (expected 3, got 2)');
+    expect(handlers.navigate).toHaveBeenCalled();
+  });
+
+  test('redacts sensitive vars in the report', async () => {
+    const report = await runner.run({
+      name: 'secrets',
+      vars: { password: 'hunter2', user: 'ada' },
+      steps: [{ tool: 'fill_form', args: { fields: { Password: '${password}' } } }],
+    }, { sessionId: 's1' });
+
+    expect(handlers.fill_form.mock.calls[0][1]).toEqual({ fields: { Password: 'hunter2' } });
+    expect(report.vars).toEqual({ password: '[REDACTED]', user: 'ada' });
+  });
+
+  test('honours cancellation between steps', async () => {
+    const controller = new AbortController();
+    handlers.navigate.mockImplementationOnce(async () => {
+      controller.abort();
+      return text({ tabId: 'tab-1' });
+    });
+
+    const report = await runner.run({
+      name: 'cancel',
+      steps: [{ tool: 'navigate' }, { tool: 'read_page' }],
+    }, { sessionId: 's1', signal: controller.signal });
+
+    expect(report.success).toBe(false);
+    expect(report.error).toBe('Cancelled before step 2');
+    expect(handlers.read_page).not.toHaveBeenCalled();
+  });
+  test('aborts a step that times out and waits for it to stop', async () => {
+    let stopped = false;
+    handlers.navigate.mockImplementationOnce((_s: string, _args: unknown, context: { signal: AbortSignal }) =>
+      new Promise((resolve) => {
+        context.signal.addEventListener('abort', () => setTimeout(() => {
+          stopped = true;
+          resolve(text('late'));
+        }, 30));
+      }));
+
+    const report = await runner.run({
+      name: 'timeout',
+      steps: [{ tool: 'navigate', timeout: 20 }, { tool: 'read_page' }],
+    }, { sessionId: 's1' });
+
+    expect(stopped).toBe(true);
+    expect(report.success).toBe(false);
+    expect(report.error).toBe('Step 1 (navigate) failed: Step 1 (navigate) timed out after 20ms');
+    expect(handlers.read_page).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,202 @@
+/// <reference types="jest" />
+/**
+ * Tests for the hash-chained audit log: writer, rotation, verification and queries
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getGlobalConfig, setGlobalConfig } from '../../src/config/global';
+import { MCPServer } from '../../src/mcp-server';
+import { AuditLogWriter, getAuditLogWriter, logAuditEntry } from '../../src/security/audit-logger';
+import {
+  GENESIS_HASH,
+  listAuditLogFiles,
+  parseAuditTime,
+  queryAuditLog,
+  verifyAuditLog,
+} from '../../src/security/audit-chain';
+
+function fields(tool: string, overrides: Record<string, unknown> = {}) {
+  return {
+    timestamp: '2026-03-01T10:00:00.000Z',
+    tool,
+    domain: 'example.com',
+    sessionId: 's1',
+    outcome: 'success' as const,
+    duration_ms: 5,
+    args_summary: '{}',
+    ...overrides,
+  };
+}
+
+describe('audit log', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    logPath = path.join(dir, 'audit.log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writer = (maxBytes = 1024 * 1024, rotateDaily = true) => new AuditLogWriter(logPath, { maxBytes, rotateDaily });
+  const lines = (file = logPath) => fs.readFileSync(file, 'utf8').trim().split('\n');
+
+  test('chains entries and verifies them', async () => {
+    const w = writer();
+    const first = w.append(fields('navigate'));
+    const second = w.append(fields('read_page'));
+    await w.flush();
+
+    expect(first.seq).toBe(1);
+    expect(first.prev_hash).toBe(GENESIS_HASH);
+    expect(second.prev_hash).toBe(first.hash);
+    expect(verifyAuditLog(logPath)).toMatchObject({ valid: true, entries: 2, anchored: true, legacyEntries: 0 });
+  });
+
+  test('detects modified, removed and reordered entries', async () => {
+    const w = writer();
+    for (const tool of ['navigate', 'interact', 'read_page']) w.append(fields(tool));
+    await w.flush();
+    const original = lines();
+
+    fs.writeFileSync(logPath, [original[0], original[1].replace('interact', 'find'), original[2]].join('\n'));
+    expect(verifyAuditLog(logPath)).toMatchObject({ valid: false, error: { line: 2, reason: expect.stringContaining('hash mismatch') } });
+
+    fs.writeFileSync(logPath, [original[0], original[2]].join('\n'));
+    expect(verifyAuditLog(logPath).error?.reason).toContain('entries were removed, reordered or inserted');
+
+    fs.writeFileSync(logPath, [original[1], original[0], original[2]].join('\n'));
+    expect(verifyAuditLog(logPath).valid).toBe(false);
+
+    fs.writeFileSync(logPath, [original[0], 'not json'].join('\n'));
+    expect(verifyAuditLog(logPath).error).toMatchObject({ line: 2, reason: 'malformed JSON' });
+  });
+
+  test('rotates by size and day and keeps the chain across files', async () => {
+    const w = writer(400);
+    w.append(fields('navigate'));
+    w.append(fields('interact')); // exceeds 400 bytes -> rotate
+    w.append(fields('read_page', { timestamp: '2026-03-02T00:00:01.000Z' })); // new day -> rotate
+    await w.flush();
+
+    const files = listAuditLogFiles(logPath);
+    expect(files).toHaveLength(3);
+    expect(files[2]).toBe(logPath);
+    expect(path.basename(files[0])).toMatch(/^audit\.\d{4}-\d{2}-\d{2}T[\d-]+Z\.log$/);
+    expect(verifyAuditLog(logPath)).toMatchObject({ valid: true, entries: 3 });
+
+    // Dropping the oldest file leaves a valid but unanchored chain
+    fs.rmSync(files[0]);
+    expect(verifyAuditLog(logPath)).toMatchObject({ valid: true, entries: 2, anchored: false });
+  });
+
+  test('a new writer continues an existing chain after legacy entries', async () => {
+    fs.writeFileSync(logPath, JSON.stringify({ timestamp: '2026-02-01T00:00:00.000Z', tool: 'old', domain: null, sessionId: 's0', args_summary: '{}' }) + '\n');
+
+    const w1 = writer();
+    w1.append(fields('navigate'));
+    await w1.flush();
+    const w2 = writer();
+    expect(w2.append(fields('find')).seq).toBe(2);
+    await w2.flush();
+
+    expect(verifyAuditLog(logPath)).toMatchObject({ valid: true, entries: 2, legacyEntries: 1 });
+  });
+
+  test('queries by session, tool, domain glob, outcome and time range', async () => {
+    const w = writer();
+    w.append(fields('navigate', { domain: 'www.bank.com', timestamp: '2026-03-01T09:00:00.000Z' }));
+    w.append(fields('javascript_tool', { domain: 'login.bank.com', outcome: 'denied', timestamp: '2026-03-01T10:00:00.000Z' }));
+    w.append(fields('navigate', { domain: 'news.com', sessionId: 's2', timestamp: '2026-03-01T11:00:00.000Z' }));
+    await w.flush();
+
+    expect(queryAuditLog(logPath, { domain: '**.bank.com' }).map(e => e.tool)).toEqual(['navigate', 'javascript_tool']);
+    expect(queryAuditLog(logPath, { sessionId: 's2' })).toHaveLength(1);
+    expect(queryAuditLog(logPath, { tool: 'navigate', outcome: 'success' })).toHaveLength(2);
+    expect(queryAuditLog(logPath, { outcome: 'denied' })[0].domain).toBe('login.bank.com');
+    expect(queryAuditLog(logPath, {
+      since: new Date('2026-03-01T09:30:00Z'),
+      until: new Date('2026-03-01T10:30:00Z'),
+    }).map(e => e.tool)).toEqual(['javascript_tool']);
+  });
+
+  test('parseAuditTime accepts ISO and relative times', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    expect(parseAuditTime('2h', now).toISOString()).toBe('2026-03-01T10:00:00.000Z');
+    expect(parseAuditTime('7d', now).toISOString()).toBe('2026-02-22T12:00:00.000Z');
+    expect(parseAuditTime('2026-01-31T00:00:00Z').toISOString()).toBe('2026-01-31T00:00:00.000Z');
+    expect(() => parseAuditTime('yesterday')).toThrow('Invalid time "yesterday"');
+  });
+
+  describe('tool calls', () => {
+    const originalSecurity = getGlobalConfig().security;
+
+    beforeEach(() => {
+      setGlobalConfig({ security: { audit_log: true, audit_log_path: logPath } });
+    });
+
+    afterEach(() => {
+      setGlobalConfig({ security: originalSecurity });
+    });
+
+    test('logAuditEntry records outcome, duration and redacted args', async () => {
+      logAuditEntry('form_input', 's1', { tabId: 't1', ref: 'ref_1', value: 'hunter2' }, 'https://app.example.com/login', {
+        outcome: 'error',
+        durationMs: 42,
+        error: 'x'.repeat(500),
+      });
+      await getAuditLogWriter().flush();
+
+      const entry = JSON.parse(lines()[0]);
+      expect(entry).toMatchObject({ tool: 'form_input', domain: 'app.example.com', outcome: 'error', duration_ms: 42 });
+      expect(entry.error).toHaveLength(200);
+      expect(entry.args_summary).toContain('"value":"[REDACTED]"');
+    });
+
+    test('MCPServer logs success, handler errors and policy denials', async () => {
+      setGlobalConfig({
+        security: {
+          audit_log: true,
+          audit_log_path: logPath,
+          policy: { rules: [{ domains: ['**.bank.com'], deny_tools: ['probe'] }] },
+        },
+      });
+      const mockSessionManager = createMockSessionManager();
+      const server = new MCPServer(mockSessionManager as any);
+      const handler = jest.fn()
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'ok' }] })
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'Error: element not found' }], isError: true });
+      server.registerTool('probe', handler, { name: 'probe', description: 'probe', inputSchema: { type: 'object', properties: {} } });
+      await mockSessionManager.createSession({ id: 's1' });
+      const news = await mockSessionManager.createTarget('s1', 'https://news.com/');
+      const bank = await mockSessionManager.createTarget('s1', 'https://www.bank.com/');
+
+      const call = (tabId: string) => (server as any).handleToolsCall({ name: 'probe', arguments: { sessionId: 's1', tabId } });
+      await call(news.targetId);
+      await call(news.targetId);
+      await call(bank.targetId);
+      await getAuditLogWriter().flush();
+
+      const entries = lines().map(l => JSON.parse(l));
+      expect(entries.map(e => [e.outcome, e.domain])).toEqual([
+        ['success', 'news.com'],
+        ['error', 'news.com'],
+        ['denied', 'www.bank.com'],
+      ]);
+      expect(typeof entries[0].duration_ms).toBe('number');
+      expect(entries[1].error).toBe('Error: element not found');
+      expect(verifyAuditLog(logPath).valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/// <reference types="jest" />
+/**
+ * Tests for policy enforcement: domain guard, tool rules in MCPServer,
+ * and the CDP navigation guard for clicks and redirects
+ */
+
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getGlobalConfig, setGlobalConfig } from '../../src/config/global';
+import { MCPServer } from '../../src/mcp-server';
+import { CDPClient } from '../../src/cdp/client';
+import { PlanExecutor } from '../../src/orchestration/plan-executor';
+import { WorkflowRunner } from '../../src/orchestration/workflow-runner';
+import {
+  assertDomainAllowed,
+  assertToolAllowed,
+  isDomainBlocked,
+  PolicyDeniedError,
+  recordBlockedNavigation,
+  takeBlockedNavigations,
+} from '../../src/security/domain-guard';
+
+describe('domain guard', () => {
+  const originalSecurity = getGlobalConfig().security;
+
+  afterEach(() => {
+    setGlobalConfig({ security: originalSecurity });
+  });
+
+  test('allows everything when nothing is configured', () => {
+    setGlobalConfig({ security: undefined });
+    expect(isDomainBlocked('https://www.bank.com')).toBe(false);
+    expect(() => assertToolAllowed('javascript_tool', 'https://www.bank.com')).not.toThrow();
+  });
+
+  test('merges legacy blocked_domains with the policy allowlist', () => {
+    setGlobalConfig({
+      security: {
+        blocked_domains: ['*.bank.com'],
+        policy: { mode: 'allowlist', allow: ['**.example.com', '**.bank.com'] },
+      },
+    });
+
+    expect(isDomainBlocked('https://app.example.com/x')).toBe(false);
+    expect(isDomainBlocked('about:blank')).toBe(false);
+    expect(() => assertDomainAllowed('https://www.bank.com')).toThrow(
+      'Access to domain "www.bank.com" is blocked by security policy (matched pattern: "*.bank.com")'
+    );
+    expect(() => assertDomainAllowed('https://other.org')).toThrow(
+      'Access to domain "other.org" is blocked by security policy: domain is not on the allowlist.'
+    );
+  });
+
+  test('assertToolAllowed reports the rule reason', () => {
+    setGlobalConfig({
+      security: { policy: { rules: [{ domains: ['**.bank.com'], deny_tools: ['javascript_tool'], reason: 'No scripting on banks' }] } },
+    });
+    expect(() => assertToolAllowed('javascript_tool', 'https://login.bank.com/')).toThrow(
+      'Tool "javascript_tool" is blocked by security policy on "login.bank.com": No scripting on banks'
+    );
+    expect(() => assertToolAllowed('read_page', 'https://login.bank.com/')).not.toThrow();
+  });
+
+  test('blocked navigations are reported once', () => {
+    recordBlockedNavigation('tab-x', 'https://evil.com', 'blocked');
+    expect(takeBlockedNavigations('tab-x')).toEqual([expect.objectContaining({ url: 'https://evil.com', reason: 'blocked' })]);
+    expect(takeBlockedNavigations('tab-x')).toEqual([]);
+  });
+});
+
+describe('tool policy in MCPServer', () => {
+  const originalSecurity = getGlobalConfig().security;
+  let server: MCPServer;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  const toolHandler = jest.fn();
+
+  const call = (name: string, args: Record<string, unknown>) =>
+    (server as any).handleToolsCall({ name, arguments: { sessionId: 's1', ...args } });
+
+  beforeEach(async () => {
+    setGlobalConfig({
+      security: {
+        policy: {
+          rules: [
+            { domains: ['**.bank.com'], deny_tools: ['probe', 'javascript_tool'], reason: 'No probing banks' },
+            { domains: ['admin.example.com'], allow_tools: ['@read-only'] },
+          ],
+        },
+      },
+    });
+    mockSessionManager = createMockSessionManager();
+    server = new MCPServer(mockSessionManager as any);
+    toolHandler.mockReset().mockResolvedValue({ content: [{ type: 'text', text: 'ran' }] });
+    for (const name of ['probe', 'navigate']) {
+      server.registerTool(name, toolHandler, { name, description: name, inputSchema: { type: 'object', properties: {} } });
+    }
+    await mockSessionManager.createSession({ id: 's1' });
+  });
+
+  afterEach(() => {
+    setGlobalConfig({ security: originalSecurity });
+  });
+
+  test('denies tools on matching pages without running the handler', async () => {
+    const { targetId } = await mockSessionManager.createTarget('s1', 'https://login.bank.com/');
+    const result = await call('probe', { tabId: targetId });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Tool "probe" is blocked by security policy on "login.bank.com": No probing banks');
+    expect(toolHandler).not.toHaveBeenCalled();
+
+    const other = await mockSessionManager.createTarget('s1', 'https://news.com/');
+    expect((await call('probe', { tabId: other.targetId })).isError).toBeUndefined();
+  });
+
+  test('checks navigate against its destination', async () => {
+    // navigate is read-only, so it may reach the admin site even from a tab elsewhere
+    expect((await call('navigate', { url: 'https://admin.example.com/users' })).isError).toBeUndefined();
+
+    const { targetId } = await mockSessionManager.createTarget('s1', 'https://admin.example.com/');
+    expect((await call('probe', { tabId: targetId })).content[0].text).toContain('only @read-only may run');
+  });
+
+  test('appends navigations cancelled during the call', async () => {
+    const { targetId } = await mockSessionManager.createTarget('s1', 'https://news.com/');
+    toolHandler.mockImplementationOnce(async () => {
+      recordBlockedNavigation(targetId, 'https://www.bank.com/login', 'Access to domain "www.bank.com" is blocked by security policy.');
+      return { content: [{ type: 'text', text: 'clicked' }] };
+    });
+
+    const result = await call('probe', { tabId: targetId });
+    expect(result.content.map((c: any) => c.text)).toContain(
+      'Navigation to https://www.bank.com/login was cancelled. Access to domain "www.bank.com" is blocked by security policy.'
+    );
+  });
+
+  test('checks batch_execute as javascript_tool on every task tab', async () => {
+    server.registerTool('batch_execute', toolHandler, { name: 'batch_execute', description: 'b', inputSchema: { type: 'object', properties: {} } });
+    const news = await mockSessionManager.createTarget('s1', 'https://news.com/');
+    const bank = await mockSessionManager.createTarget('s1', 'https://login.bank.com/');
+
+    const result = await call('batch_execute', {
+      tasks: [{ tabId: news.targetId, script: '1' }, { tabId: bank.targetId, script: 'document.cookie' }],
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Tool "batch_execute" is blocked by security policy on "login.bank.com": No probing banks');
+    expect(toolHandler).not.toHaveBeenCalled();
+
+    expect((await call('batch_execute', { tasks: [{ tabId: news.targetId, script: '1' }] })).isError).toBeUndefined();
+  });
+
+  test('applies to handlers called by other tools', async () => {
+    const { targetId } = await mockSessionManager.createTarget('s1', 'https://login.bank.com/');
+
+    await expect(server.getToolHandler('probe')!('s1', { tabId: targetId })).rejects.toBeInstanceOf(PolicyDeniedError);
+    expect(toolHandler).not.toHaveBeenCalled();
+  });
+
+  test('applies to execute_plan steps', async () => {
+    const { targetId } = await mockSessionManager.createTarget('s1', 'https://login.bank.com/');
+    const executor = new PlanExecutor(name => server.getToolHandler(name));
+
+    const result = await executor.execute({
+      id: 'p', version: '1.0.0', description: 'p', parameters: {}, errorHandlers: [], successCriteria: {},
+      steps: [{ order: 1, tool: 'probe', args: { tabId: '${tabId}' }, timeout: 1000 }],
+    }, 's1', { tabId: targetId });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('blocked by security policy');
+    expect(toolHandler).not.toHaveBeenCalled();
+  });
+
+  test('applies to oc run workflow steps', async () => {
+    const { targetId } = await mockSessionManager.createTarget('s1', 'https://login.bank.com/');
+    const runner = new WorkflowRunner(name => server.getToolHandler(name));
+
+    const report = await runner.run({ name: 'w', steps: [{ tool: 'probe', args: { tabId: targetId } }] }, { sessionId: 's1' });
+
+    expect(report.success).toBe(false);
+    expect(report.steps[0].error).toContain('Tool "probe" is blocked by security policy');
+    expect(toolHandler).not.toHaveBeenCalled();
+  });
+});
+
+describe('CDP navigation guard', () => {
+  const originalSecurity = getGlobalConfig().security;
+
+  afterEach(() => {
+    setGlobalConfig({ security: originalSecurity });
+  });
+
+  function createPage(targetId: string) {
+    const sessionListeners: Record<string, (event: any) => void> = {};
+    const session = {
+      on: jest.fn((event: string, fn: (event: any) => void) => { sessionListeners[event] = fn; }),
+      send: jest.fn().mockResolvedValue(undefined),
+    };
+    const page = {
+      on: jest.fn(),
+      target: () => ({ _targetId: targetId }),
+      mainFrame: jest.fn(),
+      evaluateOnNewDocument: jest.fn().mockResolvedValue(undefined),
+      createCDPSession: jest.fn().mockResolvedValue(session),
+    };
+    return { page, session, paused: (event: any) => sessionListeners['Fetch.requestPaused'](event) };
+  }
+
+  async function configure(page: unknown) {
+    const client = new CDPClient();
+    jest.spyOn(client, 'send').mockResolvedValue(undefined as never);
+    (client as any).configurePageDefenses(page);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  test('fails main-frame document requests to denied domains', async () => {
+    setGlobalConfig({ security: { policy: { mode: 'allowlist', allow: ['**.example.com'] } } });
+    const { page, session, paused } = createPage('T1');
+    await configure(page);
+
+    expect(session.send).toHaveBeenCalledWith('Fetch.enable', {
+      patterns: [{ urlPattern: '*', resourceType: 'Document', requestStage: 'Request' }],
+    });
+
+    // Redirect or link click to a domain outside the allowlist
+    paused({ requestId: 'r1', frameId: 'T1', request: { url: 'https://evil.com/' } });
+    expect(session.send).toHaveBeenCalledWith('Fetch.failRequest', { requestId: 'r1', errorReason: 'BlockedByClient' });
+    expect(takeBlockedNavigations('T1')).toEqual([expect.objectContaining({ url: 'https://evil.com/' })]);
+
+    paused({ requestId: 'r2', frameId: 'T1', request: { url: 'https://www.example.com/' } });
+    paused({ requestId: 'r3', frameId: 'child-frame', request: { url: 'https://ads.other.net/' } });
+    expect(session.send).toHaveBeenCalledWith('Fetch.continueRequest', { requestId: 'r2' });
+    expect(session.send).toHaveBeenCalledWith('Fetch.continueRequest', { requestId: 'r3' });
+  });
+
+  test('pages are handed out only once the guard is installed', async () => {
+    setGlobalConfig({ security: { policy: { mode: 'allowlist', allow: ['**.example.com'] } } });
+    const { page, session } = createPage('T3');
+    let enable!: () => void;
+    session.send.mockImplementation((method: string) =>
+      method === 'Fetch.enable' ? new Promise<void>(resolve => { enable = resolve; }) : Promise.resolve());
+    const client = new CDPClient();
+    jest.spyOn(client, 'send').mockResolvedValue(undefined as never);
+    (page as any).isClosed = () => false;
+    (client as any).targetIdIndex.set('T3', page);
+
+    let ready = false;
+    const defenses = (client as any).configurePageDefenses(page).then(() => { ready = true; });
+    const lookup = client.getPageByTargetId('T3');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(ready).toBe(false);
+
+    enable();
+    await defenses;
+    expect(await lookup).toBe(page);
+  });
+
+  test('is not installed without navigation restrictions', async () => {
+    setGlobalConfig({ security: { policy: { rules: [{ domains: ['a.com'], deny_tools: ['x'] }] } } });
+    const { page } = createPage('T2');
+    await configure(page);
+    expect(page.createCDPSession).not.toHaveBeenCalled();
+  });
+});
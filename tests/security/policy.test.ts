@@ -0,0 +1,122 @@
+/// <reference types="jest" />
+/**
+ * Tests for the security policy engine
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SecurityPolicy,
+  domainGlobToRegex,
+  evaluateDomain,
+  evaluateTool,
+  loadPolicyFile,
+  validatePolicy,
+} from '../../src/security/policy';
+
+describe('domainGlobToRegex', () => {
+  test('"*" matches a single label', () => {
+    const re = domainGlobToRegex('*.bank.com');
+    expect(re.test('www.bank.com')).toBe(true);
+    expect(re.test('a.b.bank.com')).toBe(false);
+    expect(re.test('bank.com')).toBe(false);
+    expect(re.test('evilbank.com')).toBe(false);
+  });
+
+  test('"**." matches any number of labels, including none', () => {
+    const re = domainGlobToRegex('**.bank.com');
+    expect(re.test('bank.com')).toBe(true);
+    expect(re.test('www.bank.com')).toBe(true);
+    expect(re.test('a.b.bank.com')).toBe(true);
+    expect(re.test('evilbank.com')).toBe(false);
+    expect(domainGlobToRegex('admin.**').test('admin.prod.example.com')).toBe(true);
+  });
+
+  test('is case-insensitive and rejects overlong patterns', () => {
+    expect(domainGlobToRegex('Mail.Google.com').test('mail.google.com')).toBe(true);
+    expect(() => domainGlobToRegex('a'.repeat(254))).toThrow('Domain pattern too long');
+  });
+});
+
+describe('evaluateDomain', () => {
+  test('allowlist mode only admits listed domains; block wins over allow', () => {
+    const policy: SecurityPolicy = { mode: 'allowlist', allow: ['**.example.com'], block: ['secret.example.com'] };
+    expect(evaluateDomain(policy, 'app.example.com').allowed).toBe(true);
+    expect(evaluateDomain(policy, 'other.com')).toEqual({ allowed: false, reason: 'domain is not on the allowlist' });
+    expect(evaluateDomain(policy, 'secret.example.com')).toMatchObject({ allowed: false, matched: 'secret.example.com' });
+  });
+
+  test('blocklist mode admits everything not blocked', () => {
+    expect(evaluateDomain({ block: ['*.bank.com'] }, 'news.com').allowed).toBe(true);
+    expect(evaluateDomain({ block: ['*.bank.com'] }, 'www.bank.com').allowed).toBe(false);
+  });
+});
+
+describe('evaluateTool', () => {
+  const policy: SecurityPolicy = {
+    rules: [
+      { domains: ['**.bank.com'], deny_tools: ['javascript_tool', 'file_upload'], reason: 'No scripting on banks' },
+      { domains: ['admin.prod.example.com'], allow_tools: ['@read-only'] },
+    ],
+  };
+
+  test('deny_tools blocks listed tools with the rule reason', () => {
+    expect(evaluateTool(policy, 'javascript_tool', 'login.bank.com')).toEqual({
+      allowed: false,
+      matched: '**.bank.com',
+      reason: 'No scripting on banks',
+    });
+    expect(evaluateTool(policy, 'read_page', 'login.bank.com').allowed).toBe(true);
+    expect(evaluateTool(policy, 'javascript_tool', 'example.com').allowed).toBe(true);
+  });
+
+  test('allow_tools restricts to the listed tools and expands @read-only', () => {
+    expect(evaluateTool(policy, 'read_page', 'admin.prod.example.com').allowed).toBe(true);
+    const denied = evaluateTool(policy, 'form_input', 'admin.prod.example.com');
+    expect(denied.allowed).toBe(false);
+    expect(denied.reason).toBe('only @read-only may run on domains matching "admin.prod.example.com"');
+  });
+
+  test('@read-only admits observation-only computer actions', () => {
+    expect(evaluateTool(policy, 'computer', 'admin.prod.example.com', { action: 'screenshot' }).allowed).toBe(true);
+    expect(evaluateTool(policy, 'computer', 'admin.prod.example.com', { action: 'left_click' }).allowed).toBe(false);
+  });
+});
+
+describe('validatePolicy / loadPolicyFile', () => {
+  test('rejects malformed policies with the offending field', () => {
+    expect(() => validatePolicy([])).toThrow('Policy must be an object');
+    expect(() => validatePolicy({ mode: 'deny' })).toThrow('"mode"');
+    expect(() => validatePolicy({ mode: 'allowlist' })).toThrow('at least one "allow" pattern');
+    expect(() => validatePolicy({ allowed: [] })).toThrow('Unknown policy field(s): allowed');
+    expect(() => validatePolicy({ rules: [{ domains: ['a.com'] }] })).toThrow('rules[0] needs allow_tools or deny_tools');
+    expect(() => validatePolicy({ rules: [{ domains: ['a.com'], allow_tools: ['@admin'] }] })).toThrow('unknown tool group "@admin"');
+    expect(() => validatePolicy({ block: ['a'.repeat(300)] })).toThrow('Domain pattern too long');
+  });
+
+  test('loads YAML and JSON files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+    try {
+      const yamlPath = path.join(dir, 'policy.yaml');
+      fs.writeFileSync(yamlPath, [
+        'mode: allowlist',
+        'allow: ["**.example.com"]',
+        'rules:',
+        '  - domains: ["**.bank.com"]',
+        '    deny_tools: [javascript_tool]',
+      ].join('\n'));
+      expect(loadPolicyFile(yamlPath)).toEqual({
+        mode: 'allowlist',
+        allow: ['**.example.com'],
+        rules: [{ domains: ['**.bank.com'], deny_tools: ['javascript_tool'] }],
+      });
+
+      const jsonPath = path.join(dir, 'policy.json');
+      fs.writeFileSync(jsonPath, '{"mode": "sometimes"}');
+      expect(() => loadPolicyFile(jsonPath)).toThrow(`Invalid policy file ${jsonPath}`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
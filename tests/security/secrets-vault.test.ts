@@ -0,0 +1,124 @@
+/// <reference types="jest" />
+/**
+ * Tests for the secrets vault: encryption, placeholders and result redaction
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getGlobalConfig, setGlobalConfig } from '../../src/config/global';
+import { MCPServer } from '../../src/mcp-server';
+import { getActivityTracker } from '../../src/dashboard/activity-tracker';
+import {
+  SecretsVault,
+  clearRevealedSecrets,
+  containsSecretPlaceholder,
+  redactSecrets,
+  resolveSecretPlaceholders,
+} from '../../src/security/secrets-vault';
+
+describe('secrets vault', () => {
+  const originalSecurity = getGlobalConfig().security;
+  let dir: string;
+  let vaultPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+    vaultPath = path.join(dir, 'secrets.json');
+    setGlobalConfig({ security: { secrets_path: vaultPath } });
+  });
+
+  afterEach(() => {
+    setGlobalConfig({ security: originalSecurity });
+    clearRevealedSecrets();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('stores values encrypted with a generated key file', () => {
+    const vault = new SecretsVault(vaultPath, undefined);
+    vault.set('prod_password', 'hunter2-correct-horse');
+
+    const raw = fs.readFileSync(vaultPath, 'utf8');
+    expect(raw).not.toContain('hunter2');
+    expect(JSON.parse(raw).kdf).toBe('keyfile');
+    expect(fs.existsSync(path.join(dir, 'secrets.key'))).toBe(true);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(vaultPath).mode & 0o777).toBe(0o600);
+      expect(fs.statSync(path.join(dir, 'secrets.key')).mode & 0o777).toBe(0o600);
+    }
+
+    expect(new SecretsVault(vaultPath, undefined).get('prod_password')).toBe('hunter2-correct-horse');
+    expect(vault.list()).toEqual([{ name: 'prod_password', updatedAt: expect.any(String) }]);
+    expect(vault.remove('prod_password')).toBe(true);
+    expect(vault.remove('prod_password')).toBe(false);
+    expect(vault.get('prod_password')).toBeUndefined();
+  });
+
+  test('passphrase vaults need the same passphrase', () => {
+    new SecretsVault(vaultPath, 'pass-one').set('api', 'sk-123');
+    expect(JSON.parse(fs.readFileSync(vaultPath, 'utf8')).kdf).toBe('scrypt');
+    expect(new SecretsVault(vaultPath, 'pass-one').get('api')).toBe('sk-123');
+    expect(() => new SecretsVault(vaultPath, 'pass-two').get('api')).toThrow('wrong key or the vault was modified');
+    expect(() => new SecretsVault(vaultPath, undefined).get('api')).toThrow('set OPENCHROME_SECRETS_KEY');
+  });
+
+  test('rejects tampered entries and invalid names', () => {
+    const vault = new SecretsVault(vaultPath, undefined);
+    vault.set('a', 'one');
+    vault.set('b', 'two');
+    // Swapping ciphertexts between names fails authentication
+    const file = JSON.parse(fs.readFileSync(vaultPath, 'utf8'));
+    [file.secrets.a, file.secrets.b] = [file.secrets.b, file.secrets.a];
+    fs.writeFileSync(vaultPath, JSON.stringify(file));
+    expect(() => vault.get('a')).toThrow('Cannot decrypt secret "a"');
+
+    expect(() => vault.set('has space', 'x')).toThrow('Invalid secret name');
+  });
+
+  test('resolves placeholders and redacts resolved values', () => {
+    const vault = new SecretsVault(vaultPath, undefined);
+    vault.set('user', 'alice');
+    vault.set('pw', 'a-long-production-password');
+
+    expect(containsSecretPlaceholder('{{secret:pw}}')).toBe(true);
+    expect(containsSecretPlaceholder('plain')).toBe(false);
+    expect(redactSecrets('a-long-production-password')).toBe('a-long-production-password'); // not revealed yet
+
+    expect(resolveSecretPlaceholders('{{secret:user}}:{{ secret:pw }}')).toBe('alice:a-long-production-password');
+    expect(() => resolveSecretPlaceholders('{{secret:missing}}')).toThrow('Secret "missing" not found. Add it with: oc secrets set missing');
+
+    expect(redactSecrets('Set value to "a-long-production-password"')).toBe('Set value to "{{secret:pw}}"');
+    // Truncated echoes (DOM deltas, visual summaries) are caught from 12 chars on
+    expect(redactSecrets('~ input#pw: value null→a-long-produc')).toBe('~ input#pw: value null→{{secret:pw}}');
+    expect(redactSecrets('Logged in as alice')).toBe('Logged in as {{secret:user}}');
+  });
+
+  test('MCPServer redacts results while the timeline keeps the placeholder', async () => {
+    new SecretsVault(vaultPath, undefined).set('pw', 's3cret-value');
+    const mockSessionManager = createMockSessionManager();
+    const server = new MCPServer(mockSessionManager as any);
+    const handler = jest.fn(async (_sessionId: string, args: Record<string, unknown>) => {
+      const value = resolveSecretPlaceholders(args.value as string);
+      if (args.fail) throw new Error(`Could not type ${value}`);
+      return { content: [{ type: 'text' as const, text: `Typed "${value}"` }] };
+    });
+    server.registerTool('probe', handler, { name: 'probe', description: 'probe', inputSchema: { type: 'object', properties: {} } });
+    await mockSessionManager.createSession({ id: 's1' });
+
+    const call = (args: Record<string, unknown>) =>
+      (server as any).handleToolsCall({ name: 'probe', arguments: { sessionId: 's1', value: '{{secret:pw}}', ...args } });
+
+    expect((await call({})).content[0].text).toBe('Typed "{{secret:pw}}"');
+    expect((await call({ fail: true })).content[0].text).toBe('Error: Could not type {{secret:pw}}');
+
+    const timeline = JSON.stringify(getActivityTracker().getRecentCalls(10, 's1'));
+    expect(timeline).toContain('{{secret:pw}}');
+    expect(timeline).not.toContain('s3cret-value');
+  });
+});
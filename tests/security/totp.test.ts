@@ -0,0 +1,69 @@
+/// <reference types="jest" />
+/**
+ * Tests for TOTP generation, seed parsing and the encrypted seed store
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TotpConfig, TotpStore, decodeBase32, generateTotp, parseTotpSeed } from '../../src/security/totp';
+
+// RFC 6238 Appendix B seeds ("12345678901234567890" etc. in base32)
+const SHA1_SEED = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const SHA256_SEED = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA';
+const SHA512_SEED = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA';
+
+describe('TOTP', () => {
+  const config = (secret: string, algorithm: TotpConfig['algorithm']): TotpConfig => ({ secret, digits: 8, period: 30, algorithm });
+
+  test('matches the RFC 6238 test vectors', () => {
+    const vectors: Array<[number, string, string, string]> = [
+      [59, '94287082', '46119246', '90693936'],
+      [1111111109, '07081804', '68084774', '25091201'],
+      [1234567890, '89005924', '91819424', '93441116'],
+      [20000000000, '65353130', '77737706', '47863826'],
+    ];
+    for (const [time, sha1, sha256, sha512] of vectors) {
+      expect(generateTotp(config(SHA1_SEED, 'SHA1'), time * 1000).code).toBe(sha1);
+      expect(generateTotp(config(SHA256_SEED, 'SHA256'), time * 1000).code).toBe(sha256);
+      expect(generateTotp(config(SHA512_SEED, 'SHA512'), time * 1000).code).toBe(sha512);
+    }
+    expect(generateTotp(config(SHA1_SEED, 'SHA1'), 59_000).expiresIn).toBe(1);
+  });
+
+  test('decodes base32 leniently', () => {
+    expect(decodeBase32('gezd gnbv-gy3t====').toString()).toBe('1234567');
+    expect(() => decodeBase32('GEZ1')).toThrow('Invalid base32 character "1"');
+  });
+
+  test('parses otpauth URIs and bare seeds', () => {
+    expect(parseTotpSeed(`otpauth://totp/ACME%20Corp:bot@acme.io?secret=${SHA1_SEED.toLowerCase()}&digits=8&period=60&algorithm=sha256`)).toEqual({
+      secret: SHA1_SEED,
+      digits: 8,
+      period: 60,
+      algorithm: 'SHA256',
+      issuer: 'ACME Corp',
+      account: 'bot@acme.io',
+    });
+    expect(parseTotpSeed(' jbsw y3dp ehpk 3pxp ')).toEqual({ secret: 'JBSWY3DPEHPK3PXP', digits: 6, period: 30, algorithm: 'SHA1' });
+    expect(() => parseTotpSeed('otpauth://hotp/x?secret=JBSWY3DPEHPK3PXP')).toThrow('Only TOTP');
+    expect(() => parseTotpSeed('JBSWY3DP')).toThrow('too short');
+    expect(() => parseTotpSeed(`otpauth://totp/x?secret=${SHA1_SEED}&digits=4`)).toThrow('Invalid TOTP digits 4');
+  });
+
+  test('stores seeds encrypted and generates codes by name', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'totp-'));
+    try {
+      const store = new TotpStore(path.join(dir, 'totp.json'), undefined);
+      store.add('github', config(SHA1_SEED, 'SHA1'));
+
+      expect(fs.readFileSync(path.join(dir, 'totp.json'), 'utf8')).not.toContain(SHA1_SEED);
+      expect(store.list().map(s => s.name)).toEqual(['github']);
+      expect(store.generate('github', 59_000).code).toBe('94287082');
+      expect(() => store.generate('gitlab')).toThrow('TOTP seed "gitlab" not found. Add it with: oc totp add gitlab');
+      expect(store.remove('github')).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/// <reference types="jest" />
+/**
+ * Tests for the Prometheus text exposition of telemetry metrics
+ */
+
+import * as http from 'http';
+import { renderPrometheus, PrometheusServer } from '../../src/telemetry/prometheus';
+import { Telemetry } from '../../src/telemetry/telemetry';
+
+function get(port: number, path: string): Promise<{ status: number; type?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode || 0, type: res.headers['content-type'], body }));
+    }).on('error', reject);
+  });
+}
+
+describe('renderPrometheus', () => {
+  test('renders counters, cumulative histogram buckets and gauges', () => {
+    const telemetry = new Telemetry();
+    telemetry.enable({ metrics: true });
+    telemetry.addCounter('openchrome.tool.calls', 1, { tool: 'navigate', status: 'ok' });
+    telemetry.addCounter('openchrome.tool.calls', 2, { status: 'ok', tool: 'navigate' });
+    telemetry.recordHistogram('openchrome.screenshot.queue_wait', 3);
+    telemetry.recordHistogram('openchrome.screenshot.queue_wait', 40);
+    telemetry.recordHistogram('openchrome.screenshot.queue_wait', 120000);
+    telemetry.addGaugeProvider(() => [
+      { name: 'openchrome.pool.utilization', description: 'Share of pooled pages in use', unit: '1', value: 0.5 },
+      { name: 'openchrome.router.requests', description: 'Requests "by" backend', unit: '1', value: 7, labels: { backend: 'chrome' }, monotonic: true },
+    ]);
+
+    const text = renderPrometheus(telemetry.collectMetrics());
+
+    expect(text).toContain('# TYPE openchrome_tool_calls counter\nopenchrome_tool_calls_total{tool="navigate",status="ok"} 3\n');
+    expect(text).toContain('# TYPE openchrome_screenshot_queue_wait_milliseconds histogram\n');
+    expect(text).toContain('openchrome_screenshot_queue_wait_milliseconds_bucket{le="5"} 1\n');
+    expect(text).toContain('openchrome_screenshot_queue_wait_milliseconds_bucket{le="50"} 2\n');
+    expect(text).toContain('openchrome_screenshot_queue_wait_milliseconds_bucket{le="60000"} 2\n');
+    expect(text).toContain('openchrome_screenshot_queue_wait_milliseconds_bucket{le="+Inf"} 3\n');
+    expect(text).toContain('openchrome_screenshot_queue_wait_milliseconds_sum 120043\n');
+    expect(text).toContain('openchrome_screenshot_queue_wait_milliseconds_count 3\n');
+    expect(text).toContain('# TYPE openchrome_pool_utilization gauge\nopenchrome_pool_utilization 0.5\n');
+    expect(text).toContain('openchrome_router_requests_total{backend="chrome"} 7\n');
+  });
+
+  test('serves /metrics and nothing else', async () => {
+    const telemetry = new Telemetry();
+    telemetry.enable({ metrics: true });
+    telemetry.addGaugeProvider(() => [{ name: 'openchrome.tabs.open', description: 'Tabs', unit: '1', value: 2 }]);
+    const server = new PrometheusServer(telemetry, { port: 0 });
+    const port = await server.start();
+    try {
+      const metrics = await get(port, '/metrics');
+      expect(metrics.status).toBe(200);
+      expect(metrics.type).toContain('version=0.0.4');
+      expect(metrics.body).toContain('openchrome_tabs_open 2\n');
+      expect((await get(port, '/')).status).toBe(404);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+/// <reference types="jest" />
+/**
+ * Tests for telemetry spans and metrics around tool calls, and the OTLP/JSON export
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/cdp/client', () => ({
+  ...jest.requireActual('../../src/cdp/client'),
+  getCDPClient: jest.fn(() => ({
+    forceReconnect: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/cdp/connection-pool', () => ({
+  getCDPConnectionPool: jest.fn(() => ({
+    shutdown: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { CDPClient } from '../../src/cdp/client';
+import { smartGoto } from '../../src/utils/smart-goto';
+import { getTelemetry, SpanData } from '../../src/telemetry/telemetry';
+
+describe('telemetry', () => {
+  let dir: string;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let server: MCPServer;
+
+  const callTool = (name: string, args: Record<string, unknown> = {}): Promise<any> =>
+    server.handleRequest({ jsonrpc: '2.0', id: Math.random(), method: 'tools/call', params: { name, arguments: args, sessionId: 'otel' } });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'otel-'));
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const { page } = await mockSessionManager.createTarget('otel', 'https://example.com/');
+    const cdp = new CDPClient();
+
+    server = new MCPServer(mockSessionManager as any);
+    server.registerTool('navigate', async () => {
+      await smartGoto(page, 'https://example.com/account?token=abc');
+      await cdp.send(page, 'Page.getFrameTree');
+      return { content: [{ type: 'text', text: 'ok' }] };
+    }, { name: 'navigate', description: 'navigate', inputSchema: { type: 'object', properties: {} } });
+    server.registerTool('find', async () => ({ content: [{ type: 'text', text: 'No match' }], isError: true }), {
+      name: 'find', description: 'find', inputSchema: { type: 'object', properties: {} },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    getTelemetry().reset();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('records a span per tool call with CDP and navigation child spans', async () => {
+    const file = path.join(dir, 'otlp', 'telemetry.jsonl');
+    expect(server.startOtlpExport({ target: file })).toBe(file);
+
+    await callTool('navigate');
+    await callTool('find');
+    await callTool('no_such_tool');
+    await server.stop();
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    const spans: any[] = lines.filter((l) => l.resourceSpans).flatMap((l) => l.resourceSpans[0].scopeSpans[0].spans);
+    const byName = (name: string) => spans.find((s) => s.name === name);
+
+    const call = byName('tools/call navigate');
+    expect(call).toMatchObject({ kind: 2, status: { code: 0 } });
+    expect(call.parentSpanId).toBeUndefined();
+    expect(call.attributes).toEqual(expect.arrayContaining([{ key: 'mcp.tool.name', value: { stringValue: 'navigate' } }]));
+    for (const child of ['session.init', 'navigate', 'cdp Page.getFrameTree']) {
+      expect(byName(child)).toMatchObject({ traceId: call.traceId, parentSpanId: call.spanId });
+    }
+    expect(byName('navigate').attributes).toEqual(expect.arrayContaining([{ key: 'url.origin', value: { stringValue: 'https://example.com' } }]));
+    expect(byName('cdp Page.getFrameTree').kind).toBe(3);
+    expect(BigInt(call.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(call.startTimeUnixNano));
+
+    expect(byName('tools/call find').status).toEqual({ code: 2, message: 'No match' });
+    expect(byName('tools/call unknown').status.code).toBe(2);
+
+    const metrics: any[] = lines.filter((l) => l.resourceMetrics).pop().resourceMetrics[0].scopeMetrics[0].metrics;
+    const calls = metrics.find((m) => m.name === 'openchrome.tool.calls');
+    expect(calls.sum).toMatchObject({ isMonotonic: true, aggregationTemporality: 2 });
+    expect(calls.sum.dataPoints).toEqual(expect.arrayContaining([
+      expect.objectContaining({ asInt: '1', attributes: expect.arrayContaining([{ key: 'tool', value: { stringValue: 'find' } }, { key: 'status', value: { stringValue: 'error' } }]) }),
+    ]));
+    expect(metrics.find((m) => m.name === 'openchrome.tool.duration').histogram.dataPoints).toHaveLength(3);
+    expect(metrics.find((m) => m.name === 'openchrome.sessions.active').gauge.dataPoints[0].asInt).toBe('1');
+  });
+
+  test('records nothing while disabled and no CDP spans outside a tool call', async () => {
+    const telemetry = getTelemetry();
+    const { page } = await mockSessionManager.createTarget('otel', 'https://example.com/');
+
+    await callTool('navigate');
+    expect(telemetry.drainSpans()).toEqual([]);
+    expect(telemetry.collectMetrics()).toEqual([]);
+
+    telemetry.enable({ spans: true, metrics: true });
+    await new CDPClient().send(page, 'Runtime.evaluate');
+    await telemetry.withSpan('outer', async () => {
+      await expect(telemetry.withSpan('inner', async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+    });
+
+    const spans: SpanData[] = telemetry.drainSpans();
+    expect(spans.map((s) => s.name)).toEqual(['inner', 'outer']);
+    expect(spans[0]).toMatchObject({ parentSpanId: spans[1].spanId, status: 'error', statusMessage: 'boom' });
+    const commands = telemetry.collectMetrics().find((m) => m.name === 'openchrome.cdp.commands');
+    expect(commands?.points).toEqual([{ labels: { method: 'Runtime.evaluate', status: 'ok' }, value: 1 }]);
+  });
+});
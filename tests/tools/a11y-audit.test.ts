@@ -0,0 +1,100 @@
+/// <reference types="jest" />
+/**
+ * Tests for a11y_audit tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerA11yAuditTool } from '../../src/tools/a11y-audit';
+
+describe('a11y_audit', () => {
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let page: any;
+  let tabId: string;
+  const sessionId = 'a11y-session';
+
+  const parse = (result: any) => JSON.parse(result.content[0].text);
+
+  beforeEach(async () => {
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerA11yAuditTool(server);
+    handler = server.getToolHandler('a11y_audit')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const target = await mockSessionManager.createTarget(sessionId, 'https://example.com/signup');
+    tabId = target.targetId;
+    page = target.page;
+
+    mockSessionManager.mockCDPClient.send.mockImplementation(async (_page: unknown, method: string) => {
+      if (method === 'Accessibility.getFullAXTree') {
+        return {
+          nodes: [
+            { nodeId: '1', backendDOMNodeId: 1, role: { value: 'main' }, name: { value: '' } },
+            { nodeId: '2', backendDOMNodeId: 42, role: { value: 'textbox' }, name: { value: '' } },
+          ],
+        };
+      }
+      if (method === 'DOMSnapshot.captureSnapshot') {
+        return { strings: [], documents: [] };
+      }
+      return {};
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('returns a JSON report with refs usable by form_input', async () => {
+    const result = await handler(sessionId, { tabId });
+    expect(result.isError).toBeUndefined();
+
+    const report = parse(result);
+    expect(report.url).toBe(page.url());
+    expect(report.findings).toEqual([
+      expect.objectContaining({ rule: 'missing-label', backendNodeId: 42, ref: 'node_42' }),
+    ]);
+    expect(mockSessionManager.mockCDPClient.send).toHaveBeenCalledWith(
+      page,
+      'DOMSnapshot.captureSnapshot',
+      expect.objectContaining({ computedStyles: expect.arrayContaining(['color', 'background-color']) })
+    );
+  });
+
+  test('writes SARIF reports to a file', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'a11y-audit-'));
+    try {
+      const file = path.join(tmpDir, 'reports', 'a11y.sarif');
+      const summary = parse(await handler(sessionId, { tabId, format: 'sarif', path: file }));
+      expect(summary.path).toBe(file);
+      expect(summary.summary.errors).toBe(1);
+
+      const sarif = JSON.parse(fs.readFileSync(file, 'utf8'));
+      expect(sarif.version).toBe('2.1.0');
+      expect(sarif.runs[0].results[0].ruleId).toBe('missing-label');
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test('validates arguments', async () => {
+    expect((await handler(sessionId, {})).isError).toBe(true);
+    expect((await handler(sessionId, { tabId, format: 'html' })).isError).toBe(true);
+    const unknown = await handler(sessionId, { tabId, rules: ['nope'] });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toContain('Unknown rule(s): nope');
+    expect((await handler(sessionId, { tabId: 'missing-tab' })).isError).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+/// <reference types="jest" />
+/**
+ * Tests for the assert tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerAssertTool } from '../../src/tools/assert';
+
+describe('assert tool', () => {
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let page: any;
+  let pageEvents: EventEmitter;
+  let tabId: string;
+  let tmpDir: string;
+  const sessionId = 'assert-session';
+  // Listeners outlive a test: modules subscribe once, to whichever mock is current then
+  const sessionListeners: Array<(event: unknown) => void> = [];
+
+  const parse = (result: any) => JSON.parse(result.content[0].text);
+
+  beforeEach(async () => {
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    mockSessionManager.addEventListener.mockImplementation((fn: (event: unknown) => void) => sessionListeners.push(fn));
+    const server = new MCPServer(mockSessionManager as any);
+    registerAssertTool(server);
+    handler = server.getToolHandler('assert')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const target = await mockSessionManager.createTarget(sessionId, 'https://shop.test/cart');
+    tabId = target.targetId;
+    page = target.page;
+    pageEvents = new EventEmitter();
+    page.on.mockImplementation((event: string, fn: (...args: unknown[]) => void) => pageEvents.on(event, fn));
+    page.off.mockImplementation((event: string, fn: (...args: unknown[]) => void) => pageEvents.off(event, fn));
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'assert-test-'));
+  });
+
+  afterEach(async () => {
+    await handler(sessionId, { action: 'clear' });
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  test('stops at the first failed assertion and fails the call', async () => {
+    page.evaluate.mockResolvedValueOnce(false);
+
+    const result = await handler(sessionId, {
+      tabId,
+      assertions: [
+        { type: 'text_present', text: 'Thanks for your order' },
+        { type: 'url_matches', pattern: '/cart' },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    const body = parse(result);
+    expect(body.passed).toBe(false);
+    expect(body.results).toHaveLength(1);
+    expect(body.skipped).toBe(1);
+    expect(body.message).toBe('Assertion failed: text "Thanks for your order" is present (text not found); 1 not run');
+  });
+
+  test('soft mode runs every assertion and reports all failures', async () => {
+    page.evaluate.mockResolvedValueOnce(false);
+
+    const result = await handler(sessionId, {
+      tabId,
+      soft: true,
+      assertions: [
+        { type: 'text_present', text: 'Thanks for your order' },
+        { type: 'url_matches', pattern: '/cart' },
+        { type: 'title_matches', pattern: 'Checkout' },
+      ],
+    });
+
+    expect(result.isError).toBeUndefined();
+    const body = parse(result);
+    expect(body.passedCount).toBe(1);
+    expect(body.failedCount).toBe(2);
+    expect(body.results.map((r: { passed: boolean }) => r.passed)).toEqual([false, true, false]);
+  });
+
+  test('request and console checks look back to the started test', async () => {
+    await handler(sessionId, { tabId, action: 'start', test: 'add to cart', suite: 'shop' });
+
+    const request = { url: () => 'https://shop.test/api/cart', method: () => 'POST', resourceType: () => 'fetch' };
+    pageEvents.emit('request', request);
+    pageEvents.emit('response', { request: () => request, status: () => 201 });
+    pageEvents.emit('console', { type: () => 'error', text: () => 'Failed to load resource: 404 (favicon.ico)' });
+
+    const result = await handler(sessionId, {
+      tabId,
+      soft: true,
+      assertions: [
+        { type: 'request_made', urlPattern: '/api/cart', method: 'POST', status: 201 },
+        { type: 'no_console_errors', ignore: 'favicon' },
+        { type: 'no_console_errors' },
+      ],
+    });
+
+    const body = parse(result);
+    expect(body.test).toBe('add to cart');
+    expect(body.results.map((r: { passed: boolean }) => r.passed)).toEqual([true, true, false]);
+
+    // Starting again begins a fresh watch
+    await handler(sessionId, { tabId, action: 'start', test: 'second' });
+    const fresh = parse(await handler(sessionId, { tabId, assertions: [{ type: 'no_console_errors' }] }));
+    expect(fresh.passed).toBe(true);
+  });
+
+  test('request and console checks fail before a test is started', async () => {
+    const result = await handler(sessionId, { tabId, soft: true, assertions: [{ type: 'no_console_errors' }] });
+
+    const body = parse(result);
+    expect(body.passed).toBe(false);
+    expect(body.results[0].message).toContain('action: "start" first');
+    expect(page.on).not.toHaveBeenCalled();
+  });
+
+  test('drops recorded results when the session is deleted', async () => {
+    await handler(sessionId, { tabId, action: 'start', test: 'cart page' });
+    sessionListeners.forEach(fn => fn({ type: 'session:deleted', sessionId, timestamp: Date.now() }));
+
+    const outPath = path.join(tmpDir, 'junit.xml');
+    expect(parse(await handler(sessionId, { action: 'report', path: outPath })).tests).toBe(0);
+  });
+
+  test('report writes JUnit XML of the recorded tests', async () => {
+    await handler(sessionId, { tabId, action: 'start', test: 'cart page', suite: 'shop' });
+    await handler(sessionId, { tabId, soft: true, assertions: [{ type: 'url_matches', pattern: '/cart' }, { type: 'url_matches', pattern: '/done' }] });
+
+    const outPath = path.join(tmpDir, 'junit.xml');
+    const result = await handler(sessionId, { action: 'report', path: outPath, clear: true });
+
+    expect(result.isError).toBeUndefined();
+    expect(parse(result)).toMatchObject({ path: outPath, tests: 1, failures: 1, assertions: 2, failedAssertions: 1 });
+    const xml = fs.readFileSync(outPath, 'utf8');
+    expect(xml).toContain('<testcase classname="shop" name="cart page"');
+    expect(xml).toContain('<failure message="URL matches /done: URL is https://shop.test/cart"');
+
+    const empty = parse(await handler(sessionId, { action: 'report', path: outPath }));
+    expect(empty.tests).toBe(0);
+  });
+
+  test('rejects malformed assertions before touching the page', async () => {
+    const result = await handler(sessionId, { tabId, assertions: [{ type: 'element_visible' }] });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error: assertions[0]: element_visible needs "selector" or "locator"');
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  test('start requires a test name and check requires a tab', async () => {
+    expect((await handler(sessionId, { tabId, action: 'start' })).content[0].text).toBe('Error: test is required to start a test');
+    expect((await handler(sessionId, { assertions: [{ type: 'no_console_errors' }] })).content[0].text).toBe('Error: tabId is required');
+  });
+});
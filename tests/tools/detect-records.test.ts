@@ -0,0 +1,83 @@
+/// <reference types="jest" />
+/**
+ * Tests for the detect_records tool
+ */
+
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerDetectRecordsTool } from '../../src/tools/detect-records';
+
+const tableGroup = {
+  kind: 'table',
+  selector: '#prices > tbody > tr:has(> td), #prices > tfoot > tr:has(> td), #prices > tr:has(> td)',
+  containerSelector: '#prices',
+  rowCount: 40,
+  columns: ['store', 'price'],
+  fields: { store: { selector: ':scope > :nth-child(1)' }, price: { selector: ':scope > :nth-child(2)' } },
+  rows: [['Amazon', '$249.00'], ['eBay', '$231.50']],
+};
+
+describe('detect_records tool', () => {
+  const sessionId = 'detect-session';
+  let call: (args: Record<string, unknown>) => Promise<any>;
+  let tabId: string;
+  let page: any;
+
+  beforeEach(async () => {
+    const mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerDetectRecordsTool(server);
+    call = (args) => server.getToolHandler('detect_records')!(sessionId, args);
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const created = await mockSessionManager.createTarget(sessionId, 'https://compare.example.com/airpods');
+    tabId = created.targetId;
+    page = created.page;
+  });
+
+  test('returns rows as objects with a reusable extract spec', async () => {
+    page.evaluate.mockResolvedValueOnce([tableGroup]);
+    const result = await call({ tabId, maxRows: 2 });
+
+    expect(page.evaluate.mock.calls[0][1]).toEqual({ rootSelector: undefined, maxGroups: 3, maxRows: 2 });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.groups[0]).toEqual({
+      kind: 'table',
+      selector: '#prices > tbody > tr:has(> td), #prices > tfoot > tr:has(> td), #prices > tr:has(> td)',
+      rowCount: 40,
+      columns: ['store', 'price'],
+      rows: [{ store: 'Amazon', price: '$249.00' }, { store: 'eBay', price: '$231.50' }],
+      extract: { container: { selector: '#prices > tbody > tr:has(> td), #prices > tfoot > tr:has(> td), #prices > tr:has(> td)' }, fields: tableGroup.fields },
+    });
+  });
+
+  test('formats CSV and Markdown with a group header', async () => {
+    page.evaluate.mockResolvedValue([tableGroup]);
+
+    expect((await call({ tabId, format: 'csv' })).content[0].text).toBe(
+      '# Group 1: table, 40 rows, showing 2. Selector: #prices > tbody > tr:has(> td), #prices > tfoot > tr:has(> td), #prices > tr:has(> td)\nstore,price\nAmazon,$249.00\neBay,$231.50'
+    );
+    expect((await call({ tabId, format: 'markdown' })).content[0].text).toContain(
+      '### Group 1: table, 40 rows, showing 2. Selector: `#prices > tbody > tr:has(> td), #prices > tfoot > tr:has(> td), #prices > tr:has(> td)`\n\n| store | price |'
+    );
+  });
+
+  test('reports a missing scope element, empty pages and bad formats', async () => {
+    page.evaluate.mockResolvedValueOnce(null);
+    const missing = await call({ tabId, selector: '#main' });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toBe('Error: No element found matching "#main"');
+
+    page.evaluate.mockResolvedValueOnce([]);
+    expect((await call({ tabId })).content[0].text).toContain('No tables or repeated items found');
+
+    expect((await call({ tabId, format: 'xml' })).isError).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+/// <reference types="jest" />
+/**
+ * Tests for the downloads tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerDownloadsTool } from '../../src/tools/downloads';
+import { getDownloadManager } from '../../src/network/download-manager';
+
+describe('downloads tool', () => {
+  const sessionId = 'downloads-session';
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let tabId: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'downloads-tool-'));
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerDownloadsTool(server);
+    handler = server.getToolHandler('downloads')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    tabId = (await mockSessionManager.createTarget(sessionId, 'https://example.com/reports')).targetId;
+    const worker = await mockSessionManager.getOrCreateWorker(sessionId);
+    (mockSessionManager as any).configureWorkerDownloads = jest.fn(async (_sid: string, _wid: string, directory: string) => {
+      (worker as any).downloadDir = directory;
+      return directory;
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Register the tab's worker directory with the manager and complete one download into it */
+  async function completeDownload(guid: string, content: string) {
+    const handlers = new Map<string, (event: any) => unknown>();
+    const browser = {
+      target: () => ({
+        createCDPSession: async () => ({ on: (event: string, fn: any) => handlers.set(event, fn), send: async () => ({}) }),
+      }),
+    };
+    const worker = await mockSessionManager.getOrCreateWorker(sessionId);
+    // A directory of its own needs a browser context of its own
+    (worker as any).context = { id: 'ctx-1' };
+    await getDownloadManager().configureWorker(browser as any, sessionId, worker as any, dir);
+
+    handlers.get('Browser.downloadWillBegin')!({ frameId: tabId, guid, url: 'https://example.com/export', suggestedFilename: 'export.csv' });
+    fs.writeFileSync(path.join(dir, guid), content);
+    await handlers.get('Browser.downloadProgress')!({ guid, totalBytes: content.length, receivedBytes: content.length, state: 'completed' });
+  }
+
+  test('wait returns the saved file with size, MIME type and hash', async () => {
+    const waiting = handler(sessionId, { action: 'wait', tabId, timeout: 2000 });
+    await completeDownload('guid-1', 'a,b\n1,2\n');
+    const result = await waiting;
+
+    expect(result.isError).toBeUndefined();
+    const data = JSON.parse(result.content[0].text);
+    expect(data).toMatchObject({
+      action: 'downloads_wait',
+      filename: 'export.csv',
+      state: 'completed',
+      path: path.join(dir, 'export.csv'),
+      size: 8,
+      mimeType: 'text/csv',
+      tabId,
+    });
+    expect(data.sha256).toMatch(/^[0-9a-f]{64}$/);
+
+    const list = JSON.parse((await handler(sessionId, { action: 'list', tabId })).content[0].text);
+    expect(list.directory).toBe(dir);
+    expect(list.downloads.map((d: any) => d.filename)).toContain('export.csv');
+  });
+
+  test('wait reports a timeout when nothing was downloaded', async () => {
+    const result = await handler(sessionId, { action: 'wait', timeout: 10 });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No download finished within 10ms');
+  });
+
+  test('configure validates the directory', async () => {
+    expect((await handler(sessionId, { action: 'configure' })).content[0].text).toContain('directory is required');
+    expect((await handler(sessionId, { action: 'configure', directory: '~/.ssh/x' })).isError).toBe(true);
+
+    const result = await handler(sessionId, { action: 'configure', directory: dir });
+    expect(JSON.parse(result.content[0].text)).toEqual({ action: 'downloads_configure', workerId: 'default', directory: dir });
+  });
+
+  test('rejects unknown tabs and actions', async () => {
+    expect((await handler(sessionId, { action: 'wait', tabId: 'missing' })).content[0].text).toBe('Error: Tab missing not found');
+    expect((await handler(sessionId, { action: 'delete' })).isError).toBe(true);
+  });
+});
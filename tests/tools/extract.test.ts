@@ -0,0 +1,181 @@
+/// <reference types="jest" />
+/**
+ * Tests for the extract tool and batch_paginate records mode
+ */
+
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerExtractTool } from '../../src/tools/extract';
+import { registerBatchPaginateTool } from '../../src/tools/batch-paginate';
+
+const schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    price: { type: 'number' },
+    url: { type: 'string', format: 'uri' },
+  },
+  required: ['title', 'price'],
+};
+
+describe('extract tool', () => {
+  const sessionId = 'extract-session';
+  let server: MCPServer;
+  const call = (tool: string, args: Record<string, unknown>): Promise<any> => server.getToolHandler(tool)!(sessionId, args);
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let tabId: string;
+  let page: any;
+
+  beforeEach(async () => {
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    server = new MCPServer(mockSessionManager as any);
+    registerExtractTool(server);
+    registerBatchPaginateTool(server);
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const created = await mockSessionManager.createTarget(sessionId, 'https://shop.example.com/list');
+    tabId = created.targetId;
+    page = created.page;
+  });
+
+  test('returns typed records with misses, passing the hints into the page', async () => {
+    page.evaluate.mockResolvedValueOnce({
+      containerCount: 2,
+      rows: [
+        { title: 'Kettle', price: '$39.90', url: 'https://shop.example.com/kettle' },
+        { title: 'Toaster', price: '$24.00', url: null },
+      ],
+      autoDetected: [],
+    });
+
+    const result = await call('extract', {
+      tabId,
+      schema,
+      container: { selector: '.product' },
+      fields: { title: 'h2', price: { xpath: './/span[@data-price]' } },
+    });
+
+    expect(result.isError).toBeUndefined();
+    const data = JSON.parse(result.content[0].text);
+    expect(data).toEqual({
+      action: 'extract',
+      count: 2,
+      records: [
+        { title: 'Kettle', price: 39.9, url: 'https://shop.example.com/kettle' },
+        { title: 'Toaster', price: 24 },
+      ],
+      misses: { url: 1 },
+    });
+
+    const inPageSpec = page.evaluate.mock.calls[0][1];
+    expect(inPageSpec.container).toEqual({ selector: '.product', scope: 'page' });
+    expect(inPageSpec.fields).toEqual([
+      { name: 'title', hint: { selector: 'h2', scope: 'container' }, kind: 'text', all: false },
+      { name: 'price', hint: { xpath: './/span[@data-price]', scope: 'container' }, kind: 'text', all: false },
+      { name: 'url', hint: null, kind: 'url', all: false },
+    ]);
+  });
+
+  test('explains a container that matches nothing', async () => {
+    page.evaluate
+      .mockResolvedValueOnce({ containerCount: 0, rows: [], autoDetected: [] })
+      .mockResolvedValueOnce({ url: 'https://shop.example.com/list', readyState: 'complete', totalElements: 120, framework: 'react', closestMatch: null });
+
+    const result = await call('extract', { tabId, schema, container: { selector: '.product' } });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.count).toBe(0);
+    expect(data.message).toContain('No elements found matching ".product". Page: shop.example.com (complete, react), 120 elements');
+  });
+
+  test('rejects invalid schemas before touching the page', async () => {
+    const result = await call('extract', { tabId, schema: { type: 'string' } });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Error: schema must describe an object with properties');
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  test('batch_paginate merges records from every page into one dataset', async () => {
+    page.evaluate
+      .mockResolvedValueOnce({
+        containerCount: 2,
+        rows: [{ title: 'A', price: '1', url: null }, { title: 'B', price: '2', url: null }],
+        autoDetected: [],
+      })
+      .mockResolvedValueOnce({
+        containerCount: 2,
+        rows: [{ title: 'C', price: 'n/a', url: null }, { title: 'B', price: '2', url: null }],
+        autoDetected: [],
+      });
+
+    const result = await call('batch_paginate', {
+      tabId,
+      strategy: 'keyboard',
+      totalPages: 2,
+      waitBetweenPages: 0,
+      captureMode: 'records',
+      extract: { schema, container: { selector: '.product' } },
+      dedupeKey: 'title',
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.pages).toEqual([{ pageNumber: 1, recordCount: 2 }, { pageNumber: 2, recordCount: 2 }]);
+    expect(data.dataset).toEqual({
+      count: 3,
+      records: [{ title: 'A', price: 1 }, { title: 'B', price: 2 }, { title: 'C', price: 'n/a' }],
+      misses: { url: 3 },
+      invalidCount: 1,
+      invalid: [{ index: 2, errors: ['$.price: expected number, got string'] }],
+    });
+  });
+
+  test('batch_paginate keeps equal records on different pages without a dedupeKey', async () => {
+    const rows = (titles: string[]) => ({ containerCount: titles.length, rows: titles.map(title => ({ title, price: '1', url: null })), autoDetected: [] });
+    page.evaluate
+      .mockResolvedValueOnce(rows(['Sock', 'Hat']))
+      .mockResolvedValueOnce(rows(['Sock', 'Scarf']))
+      // The next-page key did nothing
+      .mockResolvedValueOnce(rows(['Sock', 'Scarf']));
+
+    const result = await call('batch_paginate', {
+      tabId, strategy: 'keyboard', totalPages: 3, waitBetweenPages: 0, captureMode: 'records',
+      extract: { schema, container: { selector: '.product' } },
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.dataset.records.map((r: { title: string }) => r.title)).toEqual(['Sock', 'Hat', 'Sock', 'Scarf']);
+  });
+
+  test('batch_paginate drops records until the dataset fits the output limit', async () => {
+    const rows = Array.from({ length: 50 }, (_, i) => ({ title: `${i}-${'x'.repeat(500)}`, price: '1', url: null }));
+    page.evaluate
+      .mockResolvedValueOnce({ containerCount: 50, rows, autoDetected: [] })
+      .mockResolvedValueOnce({ containerCount: 50, rows: rows.map(r => ({ ...r, title: `b${r.title}` })), autoDetected: [] });
+
+    const result = await call('batch_paginate', {
+      tabId, strategy: 'keyboard', totalPages: 2, waitBetweenPages: 0, captureMode: 'records',
+      extract: { schema, container: { selector: '.product' } },
+    });
+
+    const text = result.content[0].text;
+    expect(text.length).toBeLessThanOrEqual(50000);
+    const data = JSON.parse(text);
+    expect(data.dataset.count).toBe(data.dataset.records.length);
+    expect(data.dataset.count).toBeLessThan(100);
+    expect(data.dataset.truncated).toContain(`of 100 records`);
+  });
+
+  test('batch_paginate records mode requires an extract schema', async () => {
+    const result = await call('batch_paginate', {
+      tabId, strategy: 'keyboard', totalPages: 2, captureMode: 'records',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Error: extract: schema is required');
+  });
+});
@@ -371,9 +371,72 @@ describe('FindTool', () => {
         'button',
         'Submit',
         'button',
+        undefined,
         undefined
       );
     });
+
+    test('searches iframes only when the page has no match or deep is set', async () => {
+      const handler = await getFindHandler();
+      const page = (await mockSessionManager.getPage(testSessionId, testTargetId))!;
+      (page.evaluate as jest.Mock).mockResolvedValue([
+        { backendDOMNodeId: 0, role: 'button', name: 'Submit', tagName: 'button', rect: { x: 100, y: 100, width: 80, height: 30 } },
+      ]);
+      const send = mockSessionManager.mockCDPClient.send;
+      const piercedSearches = () => send.mock.calls.filter(([, method]: unknown[]) => method === 'DOM.getDocument').length;
+
+      await handler(testSessionId, { tabId: testTargetId, query: 'submit' });
+      expect(piercedSearches()).toBe(0);
+
+      await handler(testSessionId, { tabId: testTargetId, query: 'submit', deep: true });
+      expect(piercedSearches()).toBe(1);
+    });
+
+    test('includes elements inside iframes, labelled with the frame URL', async () => {
+      const handler = await getFindHandler();
+
+      mockSessionManager.mockCDPClient.send.mockImplementation(async (_page: unknown, method: string, params?: Record<string, unknown>) => {
+        switch (method) {
+          case 'DOM.getDocument':
+            return {
+              root: {
+                backendNodeId: 1,
+                nodeName: '#document',
+                children: [{
+                  backendNodeId: 2,
+                  nodeName: 'IFRAME',
+                  contentDocument: { backendNodeId: 3, nodeName: '#document', documentURL: 'https://example.com/checkout' },
+                }],
+              },
+            };
+          case 'DOM.resolveNode':
+            return { object: { objectId: 'iframe-doc' } };
+          case 'Runtime.callFunctionOn':
+            return params?.returnByValue
+              ? { result: { value: [{ backendDOMNodeId: 0, role: 'button', name: 'Pay now', tagName: 'button', rect: { x: 5, y: 5, width: 100, height: 30 }, score: 0 }] } }
+              : { result: { objectId: 'matches' } };
+          case 'Runtime.getProperties':
+            return { result: [{ name: '0', value: { objectId: 'el-obj-0' } }] };
+          case 'DOM.describeNode':
+            return { node: { backendNodeId: 777 } };
+          case 'DOM.getBoxModel':
+            return { model: { border: [40, 60, 140, 60, 140, 90, 40, 90], width: 100, height: 30 } };
+          default:
+            return { result: {} };
+        }
+      });
+
+      const result = await handler(testSessionId, {
+        tabId: testTargetId,
+        query: 'pay',
+      }) as { content: Array<{ type: string; text: string }> };
+
+      expect(mockRefIdManager.generateRef).toHaveBeenCalledWith(
+        testSessionId, testTargetId, 777, 'button', 'Pay now', 'button', undefined, undefined
+      );
+      expect(result.content[0].text).toContain('button: "Pay now" at (40, 60)');
+      expect(result.content[0].text).toContain('(in iframe https://example.com/checkout)');
+    });
   });
 
   describe('Session Isolation', () => {
@@ -3,6 +3,9 @@
  * Tests for Form Input Tool
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { createMockSessionManager, createMockRefIdManager } from '../utils/mock-session';
 
 jest.mock('../../src/session-manager', () => ({
@@ -132,6 +135,74 @@ describe('FormInputTool', () => {
     });
   });
 
+  describe('Locators', () => {
+    test('sets value in the element a locator resolves to', async () => {
+      const handler = await getFormInputHandler();
+
+      mockSessionManager.mockCDPClient.send
+        .mockResolvedValueOnce({ result: { objectId: 'matches-1' } }) // Runtime.evaluate
+        .mockResolvedValueOnce({
+          result: {
+            value: {
+              infos: [{ backendDOMNodeId: 0, role: 'textbox', name: 'Email', tagName: 'input', textContent: '', rect: { x: 10, y: 20, width: 200, height: 30 } }],
+              total: 1,
+            },
+          },
+        }) // Runtime.callFunctionOn (summary)
+        .mockResolvedValueOnce({ result: [{ name: '0', value: { objectId: 'el-0' } }, { name: 'length' }] }) // Runtime.getProperties
+        .mockResolvedValueOnce({ node: { backendNodeId: 777 } }) // DOM.describeNode
+        .mockResolvedValueOnce({}) // Runtime.releaseObjectGroup
+        .mockResolvedValueOnce({ object: { objectId: 'obj-1' } }) // DOM.resolveNode
+        .mockResolvedValueOnce({
+          result: { value: { success: true, message: 'Set value to "ada@example.com"' } },
+        });
+
+      const result = await handler(testSessionId, {
+        tabId: testTargetId,
+        locator: 'label="Email"',
+        value: 'ada@example.com',
+      }) as { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('ada@example.com');
+      expect(mockSessionManager.mockCDPClient.send).toHaveBeenCalledWith(
+        expect.anything(),
+        'DOM.resolveNode',
+        expect.objectContaining({ backendNodeId: 777 })
+      );
+    });
+
+    test('returns error when nothing matches the locator', async () => {
+      const handler = await getFormInputHandler();
+
+      mockSessionManager.mockCDPClient.send
+        .mockResolvedValueOnce({ result: { objectId: 'matches-1' } })
+        .mockResolvedValueOnce({ result: { value: { infos: [], total: 0 } } });
+
+      const result = await handler(testSessionId, {
+        tabId: testTargetId,
+        locator: 'role=textbox[name="Email"]',
+        value: 'ada@example.com',
+      }) as { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No visible element matches locator role=textbox[name="Email"]');
+    });
+
+    test('reports locator syntax errors', async () => {
+      const handler = await getFormInputHandler();
+
+      const result = await handler(testSessionId, {
+        tabId: testTargetId,
+        locator: 'nth=0',
+        value: 'x',
+      }) as { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('must start with a selector');
+    });
+  });
+
   describe('Checkboxes/Radios', () => {
     test('checks checkbox with true', async () => {
       const handler = await getFormInputHandler();
@@ -416,6 +487,39 @@ describe('FormInputTool', () => {
     });
   });
 
+  describe('Secret Placeholders', () => {
+    test('types the stored secret, not the placeholder', async () => {
+      const handler = await getFormInputHandler();
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+      const { setGlobalConfig } = await import('../../src/config/global');
+      const { getSecretsVault } = await import('../../src/security/secrets-vault');
+      setGlobalConfig({ security: { secrets_path: path.join(dir, 'secrets.json') } });
+
+      try {
+        getSecretsVault().set('db_password', 'pa55word!');
+        const refId = mockRefIdManager.generateRef(testSessionId, testTargetId, 12350, 'textbox', 'Password');
+        mockSessionManager.mockCDPClient.send
+          .mockResolvedValueOnce({ object: { objectId: 'obj-1' } })
+          .mockResolvedValueOnce({ result: { value: { success: true, message: 'Set value' } } });
+
+        await handler(testSessionId, { tabId: testTargetId, ref: refId, value: '{{secret:db_password}}' });
+
+        expect(mockSessionManager.mockCDPClient.send).toHaveBeenCalledWith(
+          expect.anything(),
+          'Runtime.callFunctionOn',
+          expect.objectContaining({ arguments: [{ value: 'pa55word!' }] })
+        );
+
+        const missing = await handler(testSessionId, { tabId: testTargetId, ref: refId, value: '{{secret:nope}}' }) as { content: Array<{ text: string }>; isError?: boolean };
+        expect(missing.isError).toBe(true);
+        expect(missing.content[0].text).toContain('Secret "nope" not found');
+      } finally {
+        setGlobalConfig({ security: undefined });
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('Session Isolation', () => {
     test('rejects form input on tab from another session', async () => {
       const handler = await getFormInputHandler();
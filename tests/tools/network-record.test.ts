@@ -0,0 +1,153 @@
+/// <reference types="jest" />
+/**
+ * Tests for network_record tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerNetworkRecordTool } from '../../src/tools/network-record';
+
+function createFakeCdpSession() {
+  const emitter = new EventEmitter();
+  return {
+    emitter,
+    on: jest.fn((event: string, fn: (e: unknown) => void) => emitter.on(event, fn)),
+    off: jest.fn((event: string, fn: (e: unknown) => void) => emitter.off(event, fn)),
+    send: jest.fn(async (method: string) => {
+      if (method === 'Network.getResponseBody') {
+        return { body: '<html>ok</html>', base64Encoded: false };
+      }
+      return {};
+    }),
+    detach: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('network_record tool', () => {
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let cdpSession: ReturnType<typeof createFakeCdpSession>;
+  let tabId: string;
+  let tmpDir: string;
+  const sessionId = 'har-session';
+
+  const emitPageLoad = () => {
+    cdpSession.emitter.emit('Network.requestWillBeSent', {
+      requestId: 'r1',
+      request: { url: 'https://example.com/', method: 'GET', headers: { Authorization: 'Bearer t0k' } },
+      timestamp: 1,
+      wallTime: 1700000000,
+      type: 'Document',
+    });
+    cdpSession.emitter.emit('Network.responseReceived', {
+      requestId: 'r1',
+      timestamp: 1.1,
+      response: { url: 'https://example.com/', status: 200, statusText: 'OK', headers: {}, mimeType: 'text/html' },
+    });
+    cdpSession.emitter.emit('Network.loadingFinished', { requestId: 'r1', timestamp: 1.2, encodedDataLength: 15 });
+  };
+
+  beforeEach(async () => {
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerNetworkRecordTool(server);
+    handler = server.getToolHandler('network_record')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const target = await mockSessionManager.createTarget(sessionId, 'https://example.com');
+    tabId = target.targetId;
+    cdpSession = createFakeCdpSession();
+    (target.page.createCDPSession as jest.Mock).mockResolvedValue(cdpSession);
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  test('start enables the Network domain and subscribes to events', async () => {
+    const result = await handler(sessionId, { tabId, action: 'start' });
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text).status).toBe('recording');
+    expect(cdpSession.send).toHaveBeenCalledWith('Network.enable', expect.any(Object));
+    expect(cdpSession.on).toHaveBeenCalledWith('Network.requestWillBeSent', expect.any(Function));
+
+    const again = await handler(sessionId, { tabId, action: 'start' });
+    expect(JSON.parse(again.content[0].text).status).toBe('already_recording');
+
+    await handler(sessionId, { tabId, action: 'stop' });
+  });
+
+  test('a failed start detaches its session and removes its listeners', async () => {
+    cdpSession.send.mockRejectedValueOnce(new Error('Target closed'));
+
+    const result = await handler(sessionId, { tabId, action: 'start' });
+
+    expect(result.isError).toBe(true);
+    expect(cdpSession.detach).toHaveBeenCalled();
+    expect(cdpSession.emitter.listenerCount('Network.requestWillBeSent')).toBe(0);
+    expect(JSON.parse((await handler(sessionId, { tabId, action: 'status' })).content[0].text).status).toBe('not_started');
+  });
+
+  test('stop detaches and export writes a redacted HAR file', async () => {
+    await handler(sessionId, { tabId, action: 'start', captureBodies: true });
+    emitPageLoad();
+
+    const stopped = JSON.parse((await handler(sessionId, { tabId, action: 'stop' })).content[0].text);
+    expect(stopped.status).toBe('stopped');
+    expect(stopped.entries).toBe(1);
+    expect(cdpSession.detach).toHaveBeenCalled();
+    expect(cdpSession.emitter.listenerCount('Network.requestWillBeSent')).toBe(0);
+
+    const outPath = path.join(tmpDir, 'run.har');
+    const exported = await handler(sessionId, { tabId, action: 'export', path: outPath });
+    expect(exported.isError).toBeUndefined();
+    expect(JSON.parse(exported.content[0].text).path).toBe(outPath);
+
+    const har = JSON.parse(fs.readFileSync(outPath, 'utf8'));
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.comment).toContain(tabId);
+    expect(har.log.entries).toHaveLength(1);
+    expect(har.log.entries[0].response.content.text).toBe('<html>ok</html>');
+    expect(har.log.entries[0].request.headers).toEqual([{ name: 'Authorization', value: '[REDACTED]' }]);
+  });
+
+  test('export without a recording returns an error', async () => {
+    const result = await handler(sessionId, { tabId, action: 'export', path: path.join(tmpDir, 'x.har') });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No network recording');
+  });
+
+  test('export refuses sensitive directories', async () => {
+    await handler(sessionId, { tabId, action: 'start' });
+    const result = await handler(sessionId, { tabId, action: 'export', path: '~/.ssh/out.har' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('sensitive directory');
+    await handler(sessionId, { tabId, action: 'stop' });
+  });
+
+  test('status reports entry counts', async () => {
+    expect(JSON.parse((await handler(sessionId, { tabId, action: 'status' })).content[0].text).status).toBe('not_started');
+
+    await handler(sessionId, { tabId, action: 'start' });
+    emitPageLoad();
+    const status = JSON.parse((await handler(sessionId, { tabId, action: 'status' })).content[0].text);
+    expect(status.status).toBe('recording');
+    expect(status.entries).toBe(1);
+    await handler(sessionId, { tabId, action: 'stop' });
+  });
+});
@@ -106,6 +106,22 @@ describe('oc_profile_status tool', () => {
     expect(result.content[0].text).toContain('Error checking profile status');
   });
 
+  test('lists the instance running each profile in use', async () => {
+    const mockSessionManager = getSessionManager() as any;
+    mockSessionManager.getProfileInstances.mockReturnValue([
+      { profile: 'Default', port: 9222, primary: true, workers: [{ sessionId: 'agent', workerId: 'default' }] },
+      { profile: 'Profile 2', profileName: 'Work', port: 9223, primary: false, workers: [{ sessionId: 'agent', workerId: 'work' }] },
+    ]);
+    mockGetProfileState.mockReturnValue({ type: 'persistent', extensionsAvailable: false });
+
+    const result = await handler('default', {});
+    const data = JSON.parse(result.content[0].text);
+    expect(data.profileInstances).toHaveLength(2);
+    expect(data.profileInstances[1]).toEqual(expect.objectContaining({ profile: 'Profile 2', port: 9223 }));
+    expect(result.content[1].text).toContain('Default: primary instance (port 9222), workers: agent/default');
+    expect(result.content[1].text).toContain('Profile 2 ("Work"): port 9223, workers: agent/work');
+  });
+
   test('tool is registered with correct name', () => {
     expect(server.getToolNames()).toContain('oc_profile_status');
   });
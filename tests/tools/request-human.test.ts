@@ -0,0 +1,108 @@
+/// <reference types="jest" />
+/**
+ * Tests for the request_human tool
+ */
+
+import * as http from 'http';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/cdp/client', () => ({
+  getCDPClient: jest.fn(() => ({
+    forceReconnect: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/cdp/connection-pool', () => ({
+  getCDPConnectionPool: jest.fn(() => ({
+    shutdown: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerRequestHumanTool } from '../../src/tools/request-human';
+import { HumanRequestRegistry, setHumanRequests } from '../../src/dashboard/human-requests';
+import { getOperationController } from '../../src/dashboard/operation-controller';
+
+function post(port: number, path: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method: 'POST' }, (res) => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode || 0));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('request_human tool', () => {
+  const sessionId = 'human-session';
+  let registry: HumanRequestRegistry;
+  let server: MCPServer;
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let tabId: string;
+
+  beforeEach(async () => {
+    registry = new HumanRequestRegistry();
+    setHumanRequests(registry);
+    const mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    server = new MCPServer(mockSessionManager as any);
+    registerRequestHumanTool(server);
+    handler = server.getToolHandler('request_human')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    tabId = (await mockSessionManager.createTarget(sessionId, 'https://example.com/captcha')).targetId;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    getOperationController().reset();
+  });
+
+  test('pauses the gate until the person clicks Done in the dashboard', async () => {
+    const pending = handler(sessionId, { tabId, reason: 'Solve the CAPTCHA' });
+    while (registry.getOpen().length === 0 || !getOperationController().isPaused) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    const [humanRequest] = registry.getOpen();
+    expect(humanRequest).toMatchObject({ sessionId, tabId, reason: 'Solve the CAPTCHA' });
+
+    const port = await server.startWebDashboard({ port: 0 });
+    expect(await post(port, `/api/human/${humanRequest.id}/done`)).toBe(200);
+
+    const result = await pending;
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      action: 'request_human',
+      status: 'done',
+      requestId: humanRequest.id,
+      url: 'https://example.com/captcha',
+    });
+    expect(getOperationController().isPaused).toBe(false);
+  });
+
+  test('returns the request id and live view URL when the wait times out', async () => {
+    const result = await handler(sessionId, { tabId, timeout: 1000 });
+    const parsed = JSON.parse(result.content[0].text);
+    const port = await server.startWebDashboard({ port: 0 });
+
+    expect(parsed).toMatchObject({ status: 'waiting', requestId: expect.any(String) });
+    expect(parsed.viewUrl).toBe(`http://127.0.0.1:${port}/tabs/${tabId}?request=${parsed.requestId}`);
+    expect(getOperationController().isPaused).toBe(false);
+
+    registry.complete(parsed.requestId);
+    const retry = await handler(sessionId, { tabId, requestId: parsed.requestId });
+    expect(JSON.parse(retry.content[0].text)).toMatchObject({ status: 'done', requestId: parsed.requestId });
+  });
+
+  test('rejects unknown tabs and requests for another tab', async () => {
+    expect((await handler(sessionId, { tabId: 'missing' })).isError).toBe(true);
+    expect((await handler(sessionId, { tabId, requestId: 'human-unknown' })).content[0].text)
+      .toContain('No human request human-unknown');
+  });
+});
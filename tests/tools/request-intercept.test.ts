@@ -0,0 +1,146 @@
+/// <reference types="jest" />
+/**
+ * Tests for request_intercept tool (HAR replay mode)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { registerRequestInterceptTool } from '../../src/tools/request-intercept';
+
+function createRequest(url: string, method = 'GET') {
+  return {
+    url: jest.fn().mockReturnValue(url),
+    method: jest.fn().mockReturnValue(method),
+    resourceType: jest.fn().mockReturnValue('fetch'),
+    headers: jest.fn().mockReturnValue({}),
+    postData: jest.fn().mockReturnValue(undefined),
+    respond: jest.fn().mockResolvedValue(undefined),
+    abort: jest.fn().mockResolvedValue(undefined),
+    continue: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('request_intercept replay', () => {
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let page: any;
+  let tabId: string;
+  let harPath: string;
+  let tmpDir: string;
+  const sessionId = 'replay-session';
+
+  const dispatch = async (request: ReturnType<typeof createRequest>) => {
+    const listener = page.on.mock.calls.find((call: unknown[]) => call[0] === 'request')[1];
+    await listener(request);
+  };
+
+  beforeEach(async () => {
+    const mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerRequestInterceptTool(server);
+    handler = server.getToolHandler('request_intercept')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const target = await mockSessionManager.createTarget(sessionId, 'https://example.com');
+    tabId = target.targetId;
+    page = target.page;
+    page.setRequestInterception = jest.fn().mockResolvedValue(undefined);
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'intercept-replay-'));
+    harPath = path.join(tmpDir, 'site.har');
+    fs.writeFileSync(harPath, JSON.stringify({
+      log: {
+        version: '1.2',
+        creator: { name: 'test', version: '0' },
+        entries: [{
+          startedDateTime: new Date(0).toISOString(),
+          time: 0,
+          request: { method: 'GET', url: 'https://api.example.com/data', httpVersion: 'HTTP/1.1', cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: 0 },
+          response: {
+            status: 200, statusText: 'OK', httpVersion: 'HTTP/1.1', cookies: [],
+            headers: [{ name: 'Content-Type', value: 'application/json' }],
+            content: { size: 11, mimeType: 'application/json', text: '{"ok":true}' },
+            redirectURL: '', headersSize: -1, bodySize: 11,
+          },
+          cache: {},
+          timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 },
+        }],
+      },
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  test('replay enables interception and fulfills matching requests', async () => {
+    const result = await handler(sessionId, { tabId, action: 'replay', har: harPath });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.status).toBe('replaying');
+    expect(data.entries).toBe(1);
+    expect(data.matchOn).toEqual(['url', 'method']);
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+
+    const request = createRequest('https://api.example.com/data');
+    await dispatch(request);
+
+    expect(request.respond).toHaveBeenCalledWith(expect.objectContaining({
+      status: 200,
+      contentType: 'application/json',
+      body: Buffer.from('{"ok":true}'),
+    }));
+    expect(request.continue).not.toHaveBeenCalled();
+  });
+
+  test('unmatched requests hit the network unless strict', async () => {
+    await handler(sessionId, { tabId, action: 'replay', har: harPath });
+    const request = createRequest('https://api.example.com/unknown');
+    await dispatch(request);
+
+    expect(request.continue).toHaveBeenCalled();
+    const summary = JSON.parse((await handler(sessionId, { tabId, action: 'stopReplay' })).content[0].text);
+    expect(summary.unmatchedCount).toBe(1);
+    expect(summary.unmatched).toEqual(['GET https://api.example.com/unknown']);
+  });
+
+  test('strict mode fails unmatched requests', async () => {
+    await handler(sessionId, { tabId, action: 'replay', har: harPath, strict: true });
+    const request = createRequest('https://api.example.com/unknown');
+    await dispatch(request);
+
+    expect(request.abort).toHaveBeenCalledWith('failed');
+    expect(request.continue).not.toHaveBeenCalled();
+  });
+
+  test('block rules take precedence over replay', async () => {
+    await handler(sessionId, { tabId, action: 'addRule', rule: { pattern: '*api.example.com*', action: 'block' } });
+    await handler(sessionId, { tabId, action: 'replay', har: harPath });
+    const request = createRequest('https://api.example.com/data');
+    await dispatch(request);
+
+    expect(request.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(request.respond).not.toHaveBeenCalled();
+  });
+
+  test('replay validates its arguments', async () => {
+    const missing = await handler(sessionId, { tabId, action: 'replay' });
+    expect(missing.isError).toBe(true);
+
+    const badField = await handler(sessionId, { tabId, action: 'replay', har: harPath, matchOn: ['headers'] });
+    expect(badField.isError).toBe(true);
+    expect(badField.content[0].text).toContain('Unknown matchOn field');
+
+    const badPath = await handler(sessionId, { tabId, action: 'replay', har: path.join(tmpDir, 'missing.har') });
+    expect(badPath.isError).toBe(true);
+  });
+});
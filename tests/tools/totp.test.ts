@@ -0,0 +1,101 @@
+/// <reference types="jest" />
+/**
+ * Tests for the totp tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { getGlobalConfig, setGlobalConfig } from '../../src/config/global';
+import { MCPServer } from '../../src/mcp-server';
+import { registerTotpTool } from '../../src/tools/totp';
+import { generateTotp, getTotpStore } from '../../src/security/totp';
+import { getRefIdManager } from '../../src/utils/ref-id-manager';
+
+const NOW = 1_700_000_020_000; // 20s left in the 30s window
+const SEED = { secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', digits: 6, period: 30, algorithm: 'SHA1' as const };
+
+describe('totp tool', () => {
+  const originalSecurity = getGlobalConfig().security;
+  const sessionId = 'totp-session';
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let tabId: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'totp-tool-'));
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    setGlobalConfig({ security: { secrets_path: path.join(dir, 'secrets.json') } });
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerTotpTool(server);
+    handler = server.getToolHandler('totp')!;
+
+    await mockSessionManager.createSession({ id: sessionId });
+    tabId = (await mockSessionManager.createTarget(sessionId, 'https://github.com/sessions/two-factor')).targetId;
+    mockSessionManager.mockCDPClient.send.mockImplementation(async (_page: unknown, method: string) => {
+      if (method === 'DOM.resolveNode') return { object: { objectId: 'otp-input' } };
+      return { result: { value: { success: true, kind: 'split', count: 6, description: '6 single-digit inputs' } } };
+    });
+  });
+
+  afterEach(() => {
+    setGlobalConfig({ security: originalSecurity });
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('lists seed names from the store next to the secrets vault', async () => {
+    getTotpStore().add('github', SEED);
+    expect(getTotpStore().storePath).toBe(path.join(dir, 'totp.json'));
+    const result = await handler(sessionId, { action: 'list' });
+    expect(JSON.parse(result.content[0].text).seeds).toEqual(['github']);
+  });
+
+  test('types the current code into the detected field without returning it', async () => {
+    getTotpStore().add('github', SEED);
+    const { code } = generateTotp(SEED, NOW);
+
+    const result = await handler(sessionId, { action: 'fill', name: 'github', tabId });
+
+    const evaluate = mockSessionManager.mockCDPClient.send.mock.calls.find(c => c[1] === 'Runtime.evaluate')!;
+    expect(evaluate[2].expression).toContain(`.call(null, "${code}")`);
+    expect(result.content[0].text).not.toContain(code);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ action: 'totp_fill', digitInputs: 6, expiresInSeconds: 20 });
+  });
+
+  test('fills a given ref through Runtime.callFunctionOn', async () => {
+    getTotpStore().add('github', SEED);
+    const ref = getRefIdManager().generateRef(sessionId, tabId, 77, 'textbox', 'Code');
+
+    await handler(sessionId, { action: 'fill', name: 'github', tabId, ref });
+
+    expect(mockSessionManager.mockCDPClient.send).toHaveBeenCalledWith(
+      expect.anything(), 'DOM.resolveNode', { backendNodeId: 77 }
+    );
+    expect(mockSessionManager.mockCDPClient.send).toHaveBeenCalledWith(
+      expect.anything(), 'Runtime.callFunctionOn', expect.objectContaining({ objectId: 'otp-input', returnByValue: true })
+    );
+  });
+
+  test('reports missing seeds and fields', async () => {
+    const missing = await handler(sessionId, { action: 'fill', name: 'nope', tabId });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toContain('TOTP seed "nope" not found');
+
+    getTotpStore().add('github', SEED);
+    mockSessionManager.mockCDPClient.send.mockResolvedValue({ result: { value: { success: false, error: 'No one-time code field found on the page' } } });
+    const noField = await handler(sessionId, { action: 'fill', name: 'github', tabId });
+    expect(noField.isError).toBe(true);
+    expect(noField.content[0].text).toContain('No one-time code field found');
+  });
+});
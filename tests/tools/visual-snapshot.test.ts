@@ -0,0 +1,171 @@
+/// <reference types="jest" />
+/**
+ * Tests for visual_snapshot tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+import { RGBAImage, encodePng } from '../../src/utils/png';
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { baselineKey, registerVisualSnapshotTool } from '../../src/tools/visual-snapshot';
+
+function solidPng(width: number, height: number, rgb: number[], mark?: { x: number; y: number }): string {
+  const image: RGBAImage = { width, height, data: Buffer.alloc(width * height * 4) };
+  for (let i = 0; i < width * height; i++) image.data.set([...rgb, 255], i * 4);
+  if (mark) image.data.set([0, 0, 0, 255], (mark.y * width + mark.x) * 4);
+  return encodePng(image).toString('base64');
+}
+
+describe('visual_snapshot', () => {
+  let handler: (sessionId: string, args: Record<string, unknown>) => Promise<any>;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let page: any;
+  let tabId: string;
+  let tmpDir: string;
+  let nextCapture: string;
+  let cwdSpy: jest.SpyInstance;
+  const sessionId = 'snapshot-session';
+
+  const parse = (result: any) => JSON.parse(result.content[0].text);
+
+  beforeEach(async () => {
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    const server = new MCPServer(mockSessionManager as any);
+    registerVisualSnapshotTool(server);
+    handler = server.getToolHandler('visual_snapshot')!;
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-snapshot-'));
+    cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+
+    await mockSessionManager.createSession({ id: sessionId });
+    const target = await mockSessionManager.createTarget(sessionId, 'https://example.com/pricing');
+    tabId = target.targetId;
+    page = target.page;
+    page.evaluate.mockResolvedValue({
+      url: 'https://example.com/pricing#plans',
+      width: 10,
+      height: 10,
+      dpr: 1,
+      scrollWidth: 10,
+      scrollHeight: 40,
+      rects: [],
+    });
+
+    nextCapture = solidPng(10, 10, [255, 255, 255]);
+    mockSessionManager.mockCDPClient.send.mockImplementation(async (_page: unknown, method: string) => {
+      if (method === 'Page.captureScreenshot') return { data: nextCapture };
+      return {};
+    });
+  });
+
+  afterEach(() => {
+    cwdSpy.mockRestore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  test('first capture creates the baseline, second matches it', async () => {
+    const created = parse(await handler(sessionId, { tabId, name: 'pricing' }));
+    expect(created.status).toBe('baseline_created');
+    expect(created.baseline).toBe(path.join(tmpDir, '.openchrome', 'snapshots', 'pricing', `${baselineKey('https://example.com/pricing', 10, 10, 1)}.png`));
+    expect(fs.existsSync(created.baseline)).toBe(true);
+    expect(mockSessionManager.mockCDPClient.send).toHaveBeenCalledWith(page, 'Page.captureScreenshot', expect.objectContaining({ format: 'png' }));
+
+    const result = await handler(sessionId, { tabId, name: 'pricing' });
+    const matched = parse(result);
+    expect(matched.status).toBe('match');
+    expect(matched.passed).toBe(true);
+    expect(matched.mismatchPercent).toBe(0);
+    expect(result.content).toHaveLength(1);
+  });
+
+  test('mismatch returns a diff image and writes actual/diff files', async () => {
+    await handler(sessionId, { tabId, name: 'pricing' });
+    nextCapture = solidPng(10, 10, [255, 255, 255], { x: 5, y: 5 });
+
+    const result = await handler(sessionId, { tabId, name: 'pricing' });
+    const data = parse(result);
+    expect(data.status).toBe('mismatch');
+    expect(data.passed).toBe(false);
+    expect(data.diffPixels).toBe(1);
+    expect(data.mismatchPercent).toBe(1);
+    expect(fs.existsSync(data.diff)).toBe(true);
+    expect(fs.existsSync(data.actual)).toBe(true);
+    expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+
+    // Within tolerance → passes and cleans up stale artifacts
+    const tolerated = parse(await handler(sessionId, { tabId, name: 'pricing', maxMismatchPercent: 2 }));
+    expect(tolerated.passed).toBe(true);
+    expect(fs.existsSync(data.diff)).toBe(false);
+  });
+
+  test('ignoreRegions and ignoreSelectors mask dynamic content', async () => {
+    await handler(sessionId, { tabId, name: 'pricing' });
+    nextCapture = solidPng(10, 10, [255, 255, 255], { x: 5, y: 5 });
+
+    const byRegion = parse(await handler(sessionId, {
+      tabId, name: 'pricing', ignoreRegions: [{ x: 4, y: 4, width: 2, height: 2 }],
+    }));
+    expect(byRegion.passed).toBe(true);
+    expect(byRegion.ignoredPixels).toBe(4);
+
+    page.evaluate.mockResolvedValueOnce({
+      url: 'https://example.com/pricing', width: 10, height: 10, dpr: 1, scrollWidth: 10, scrollHeight: 10,
+      rects: [{ x: 5, y: 5, width: 1, height: 1 }],
+    });
+    const bySelector = parse(await handler(sessionId, { tabId, name: 'pricing', ignoreSelectors: ['.clock'] }));
+    expect(bySelector.passed).toBe(true);
+    expect(page.evaluate).toHaveBeenLastCalledWith(expect.any(Function), ['.clock'], false);
+  });
+
+  test('full-page ignore regions are scaled to device pixels', async () => {
+    page.evaluate.mockResolvedValue({
+      url: 'https://example.com/pricing', width: 5, height: 5, dpr: 2, scrollWidth: 5, scrollHeight: 10, rects: [],
+    });
+    nextCapture = solidPng(10, 20, [255, 255, 255]);
+    await handler(sessionId, { tabId, name: 'pricing', fullPage: true });
+    nextCapture = solidPng(10, 20, [255, 255, 255], { x: 8, y: 16 });
+
+    const result = parse(await handler(sessionId, {
+      tabId, name: 'pricing', fullPage: true, ignoreRegions: [{ x: 4, y: 8, width: 1, height: 1 }],
+    }));
+    expect(result.passed).toBe(true);
+    expect(result.ignoredPixels).toBe(4);
+  });
+
+  test('size changes fail without diffing; update replaces the baseline', async () => {
+    await handler(sessionId, { tabId, name: 'pricing' });
+    nextCapture = solidPng(12, 10, [255, 255, 255]);
+
+    const mismatch = parse(await handler(sessionId, { tabId, name: 'pricing' }));
+    expect(mismatch.status).toBe('size_mismatch');
+    expect(mismatch.actualSize).toBe('12x10');
+
+    expect(parse(await handler(sessionId, { tabId, name: 'pricing', action: 'update' })).status).toBe('baseline_updated');
+    expect(parse(await handler(sessionId, { tabId, name: 'pricing' })).status).toBe('match');
+
+    const listed = parse(await handler(sessionId, { name: 'pricing', action: 'list' }));
+    expect(listed.baselines).toEqual([`${baselineKey('https://example.com/pricing', 10, 10, 1)}.png`]);
+  });
+
+  test('validates arguments', async () => {
+    expect((await handler(sessionId, { tabId, name: '../escape' })).isError).toBe(true);
+    expect((await handler(sessionId, { tabId, name: 'ok', threshold: 2 })).isError).toBe(true);
+    expect((await handler(sessionId, { name: 'ok' })).isError).toBe(true);
+  });
+
+  test('baseline keys separate viewports and device scale, ignore fragments', () => {
+    expect(baselineKey('https://example.com/a#x', 800, 600, 1)).toBe(baselineKey('https://example.com/a', 800, 600, 1));
+    expect(baselineKey('https://example.com/a', 800, 600, 1)).not.toBe(baselineKey('https://example.com/a', 390, 844, 1));
+    expect(baselineKey('https://example.com/a', 800, 600, 2)).toMatch(/^example-com-a-[0-9a-f]{8}_800x600@2x$/);
+  });
+});
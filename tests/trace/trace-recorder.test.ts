@@ -0,0 +1,210 @@
+/// <reference types="jest" />
+/**
+ * Tests for trace bundles (per-call snapshots, console/network, zip + viewer)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/cdp/client', () => ({
+  getCDPClient: jest.fn(() => ({
+    forceReconnect: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/cdp/connection-pool', () => ({
+  getCDPConnectionPool: jest.fn(() => ({
+    shutdown: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { readZip, createZip } from '../../src/utils/zip';
+import { extractTraceBundle, listTraceBundles, readTraceManifest } from '../../src/trace/trace-bundle';
+import { getGlobalConfig, setGlobalConfig } from '../../src/config/global';
+import { SecretsVault, clearRevealedSecrets, resolveSecretPlaceholders } from '../../src/security/secrets-vault';
+
+describe('trace bundles', () => {
+  let dir: string;
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let server: MCPServer;
+  let tabId: string;
+  let page: any;
+
+  /** Invoke the listener the recorder registered on the page for an event */
+  const emitPageEvent = (event: string, payload: unknown): void => {
+    const calls = (page.on as jest.Mock).mock.calls.filter(([name]) => name === event);
+    calls[calls.length - 1][1](payload);
+  };
+
+  const callTool = (name: string, args: Record<string, unknown>): Promise<any> =>
+    server.handleRequest({ jsonrpc: '2.0', id: Math.random(), method: 'tools/call', params: { name, arguments: args, sessionId: 'traced' } })
+      .then((response) => response.result);
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trace-'));
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    mockSessionManager.mockCDPClient.send.mockImplementation(async (_page: unknown, method: string) => (
+      method === 'Page.captureScreenshot' ? { data: Buffer.from('jpeg-bytes').toString('base64') } : {}
+    ));
+
+    await mockSessionManager.createSession({ id: 'traced' });
+    ({ targetId: tabId, page } = await mockSessionManager.createTarget('traced', 'https://example.com/login'));
+    page.content.mockResolvedValue('<html><body><form>login</form></body></html>');
+
+    server = new MCPServer(mockSessionManager as any);
+    server.registerTool('interact', async () => {
+      emitPageEvent('console', { type: () => 'error', text: () => 'Uncaught TypeError: x is undefined' });
+      emitPageEvent('request', { resourceType: () => 'xhr' });
+      emitPageEvent('requestfailed', {
+        url: () => 'https://example.com/api/login',
+        method: () => 'POST',
+        resourceType: () => 'xhr',
+        failure: () => ({ errorText: 'net::ERR_CONNECTION_RESET' }),
+      });
+      return { content: [{ type: 'text', text: 'Element not found: Sign in' }], isError: true };
+    }, {
+      name: 'interact',
+      description: 'interact',
+      inputSchema: { type: 'object', properties: { tabId: { type: 'string' }, text: { type: 'string' } } },
+    });
+    server.registerTool('read_page', async () => ({ content: [{ type: 'text', text: 'page text' }] }), {
+      name: 'read_page',
+      description: 'read_page',
+      inputSchema: { type: 'object', properties: { tabId: { type: 'string' } } },
+    });
+    expect(server.enableTracing({ dir })).toBe(dir);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('writes a bundle with snapshots, console and network as soon as a call fails', async () => {
+    await callTool('read_page', { tabId });
+    expect(listTraceBundles(dir)).toEqual([]);
+
+    await callTool('interact', { tabId, text: 'hunter2' });
+
+    const [bundle] = listTraceBundles(dir);
+    expect(bundle).toMatchObject({ sessionId: 'traced', steps: 2, failed: 1 });
+
+    const entries = readZip(fs.readFileSync(bundle.path));
+    const names = entries.map((e) => e.name);
+    expect(names).toEqual(expect.arrayContaining(['trace.json', 'index.html', 'steps/0002-after.jpg', 'steps/0003-after.html']));
+    // The tab's state after read_page is interact's before snapshot
+    expect(names).not.toContain('steps/0003-before.jpg');
+
+    const failed = readTraceManifest(bundle.path).steps[1];
+    expect(failed).toMatchObject({
+      index: 1,
+      toolName: 'interact',
+      tabId,
+      status: 'error',
+      args: { tabId, text: '[REDACTED]' },
+      resultText: expect.stringContaining('Element not found: Sign in'),
+      before: { url: 'https://example.com/login', screenshot: 'steps/0002-after.jpg', dom: 'steps/0002-after.html' },
+      after: { screenshot: 'steps/0003-after.jpg', dom: 'steps/0003-after.html' },
+      console: [expect.objectContaining({ type: 'error', text: 'Uncaught TypeError: x is undefined' })],
+      network: {
+        requests: 1,
+        byType: { xhr: 1 },
+        failures: [{ url: 'https://example.com/api/login', method: 'POST', resourceType: 'xhr', error: 'net::ERR_CONNECTION_RESET' }],
+      },
+    });
+    expect(entries.find((e) => e.name === 'steps/0002-after.jpg')!.data.toString()).toBe('jpeg-bytes');
+    expect(page.off).toHaveBeenCalledWith('console', expect.any(Function));
+
+    const html = entries.find((e) => e.name === 'index.html')!.data.toString();
+    expect(html).toContain('<script type="application/json" id="trace-data">');
+    expect(html).not.toContain('hunter2');
+  });
+
+  test('rewrites the bundle at most once per interval while calls keep failing', async () => {
+    await callTool('interact', { tabId });
+    const [bundle] = listTraceBundles(dir);
+    const written = fs.statSync(bundle.path).mtimeMs;
+
+    await callTool('interact', { tabId });
+    await callTool('interact', { tabId });
+    expect(readTraceManifest(bundle.path).steps).toHaveLength(1);
+    expect(fs.statSync(bundle.path).mtimeMs).toBe(written);
+
+    await server.stop();
+    expect(readTraceManifest(bundle.path).steps).toHaveLength(3);
+  });
+
+  test('keeps only the most recent steps', async () => {
+    for (let i = 0; i < 302; i++) {
+      await callTool('read_page', {});
+    }
+    await server.stop();
+
+    const manifest = readTraceManifest(listTraceBundles(dir)[0].path);
+    expect(manifest.steps).toHaveLength(300);
+    expect(manifest.droppedSteps).toBe(2);
+    expect(manifest.steps[0].index).toBe(2);
+  });
+
+  test('redacts secret values from console messages', async () => {
+    const originalSecurity = getGlobalConfig().security;
+    const vaultPath = path.join(dir, 'secrets.json');
+    setGlobalConfig({ security: { secrets_path: vaultPath } });
+    try {
+      new SecretsVault(vaultPath, undefined).set('pw', 'a-long-production-password');
+      const typed = resolveSecretPlaceholders('{{secret:pw}}');
+      server.registerTool('log_value', async () => {
+        emitPageEvent('console', { type: () => 'log', text: () => `value: ${typed}` });
+        return { content: [{ type: 'text', text: 'logged' }], isError: true };
+      }, { name: 'log_value', description: 'log_value', inputSchema: { type: 'object', properties: { tabId: { type: 'string' } } } });
+
+      await callTool('log_value', { tabId });
+
+      const [bundle] = listTraceBundles(dir);
+      expect(readTraceManifest(bundle.path).steps[0].console[0].text).toBe('value: {{secret:pw}}');
+      const html = readZip(fs.readFileSync(bundle.path)).find((e) => e.name === 'index.html')!.data.toString();
+      expect(html).not.toContain('a-long-production-password');
+    } finally {
+      setGlobalConfig({ security: originalSecurity });
+      clearRevealedSecrets();
+    }
+  });
+
+  test('writes the bundle on shutdown and unpacks it next to the viewer', async () => {
+    await callTool('read_page', { tabId });
+    await callTool('read_page', {});
+    await server.stop();
+
+    const [bundle] = listTraceBundles(dir);
+    expect(bundle).toMatchObject({ steps: 2, failed: 0 });
+    expect(fs.existsSync(path.join(dir, '.staging', path.basename(bundle.path, '.zip')))).toBe(false);
+
+    const viewer = extractTraceBundle(bundle.path, path.join(dir, 'out'));
+    expect(viewer).toBe(path.join(dir, 'out', 'index.html'));
+    expect(fs.readFileSync(path.join(dir, 'out', 'steps', '0001-before.jpg'), 'utf8')).toBe('jpeg-bytes');
+
+    const manifest = readTraceManifest(bundle.path);
+    expect(manifest.steps[1].before).toBeUndefined();
+    expect(manifest.steps[1].network).toBeUndefined();
+  });
+
+  test('refuses to unpack entries outside the target directory', () => {
+    const bundlePath = path.join(dir, 'evil.zip');
+    fs.writeFileSync(bundlePath, createZip([
+      { name: 'index.html', data: Buffer.from('<html></html>') },
+      { name: '../escaped.txt', data: Buffer.from('nope') },
+    ]));
+
+    expect(() => extractTraceBundle(bundlePath, path.join(dir, 'out'))).toThrow('Refusing to extract ../escaped.txt');
+    expect(fs.existsSync(path.join(dir, 'escaped.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,355 @@
+/// <reference types="jest" />
+/**
+ * Tests for the Streamable HTTP transport
+ */
+
+import * as http from 'http';
+import { createMockSessionManager } from '../utils/mock-session';
+
+jest.mock('../../src/cdp/client', () => ({
+  getCDPClient: jest.fn(() => ({
+    forceReconnect: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/cdp/connection-pool', () => ({
+  getCDPConnectionPool: jest.fn(() => ({
+    shutdown: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../src/session-manager', () => ({
+  getSessionManager: jest.fn(),
+}));
+
+import { getSessionManager } from '../../src/session-manager';
+import { MCPServer } from '../../src/mcp-server';
+import { StreamableHttpTransport } from '../../src/transport/streamable-http';
+
+interface HttpReply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+function request(
+  port: number,
+  method: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {}
+): Promise<HttpReply> {
+  return new Promise((resolve, reject) => {
+    const payload = options.body === undefined ? undefined : JSON.stringify(options.body);
+    const req = http.request(
+      {
+        host: '127.0.0.1',
+        port,
+        path: '/mcp',
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...options.headers,
+        },
+      },
+      (res) => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body }));
+      }
+    );
+    req.on('error', reject);
+    if (payload) req.write(payload);
+    req.end();
+  });
+}
+
+function parseSseMessages(body: string): Array<Record<string, unknown>> {
+  return body
+    .split('\n')
+    .filter((line) => line.startsWith('data: '))
+    .map((line) => JSON.parse(line.slice('data: '.length)));
+}
+
+describe('StreamableHttpTransport', () => {
+  let mockSessionManager: ReturnType<typeof createMockSessionManager>;
+  let server: MCPServer;
+  let port: number;
+  const echoHandler = jest.fn();
+
+  const initialize = async (): Promise<string> => {
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+    });
+    expect(reply.status).toBe(200);
+    return reply.headers['mcp-session-id'] as string;
+  };
+
+  beforeEach(async () => {
+    mockSessionManager = createMockSessionManager();
+    (getSessionManager as jest.Mock).mockReturnValue(mockSessionManager);
+    server = new MCPServer(mockSessionManager as any);
+    echoHandler.mockImplementation(async (sessionId: string, args: Record<string, unknown>) => ({
+      content: [{ type: 'text', text: JSON.stringify({ sessionId, args }) }],
+    }));
+    server.registerTool('navigate', echoHandler, {
+      name: 'navigate',
+      description: 'echo',
+      inputSchema: { type: 'object', properties: { url: { type: 'string' } } },
+    });
+    port = await server.startHttp({ port: 0 });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('initialize assigns an Mcp-Session-Id', async () => {
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+    });
+
+    expect(reply.status).toBe(200);
+    expect(reply.headers['mcp-session-id']).toMatch(/^[0-9a-f-]{36}$/);
+    const body = JSON.parse(reply.body);
+    expect(body.id).toBe(1);
+    expect(body.result.serverInfo.name).toBe('openchrome');
+  });
+
+  test('rejects requests without a session header', async () => {
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+    });
+    expect(reply.status).toBe(400);
+  });
+
+  test('rejects requests for unknown sessions', async () => {
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      headers: { 'Mcp-Session-Id': 'does-not-exist' },
+    });
+    expect(reply.status).toBe(404);
+  });
+
+  test('maps tool calls onto the MCP session ID', async () => {
+    const sessionId = await initialize();
+
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'navigate', arguments: { url: 'https://example.com' } } },
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+
+    expect(reply.status).toBe(200);
+    expect(echoHandler).toHaveBeenCalledWith(sessionId, { url: 'https://example.com' }, expect.anything());
+    expect(mockSessionManager.getOrCreateSession).toHaveBeenCalledWith(sessionId);
+  });
+
+  test('separate clients get separate browser sessions', async () => {
+    const first = await initialize();
+    const second = await initialize();
+    expect(first).not.toBe(second);
+
+    for (const sessionId of [first, second]) {
+      await request(port, 'POST', {
+        body: { jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'navigate', arguments: {} } },
+        headers: { 'Mcp-Session-Id': sessionId },
+      });
+    }
+
+    expect(echoHandler.mock.calls.map((call) => call[0])).toEqual([first, second]);
+  });
+
+  test('explicit sessionId argument overrides the MCP session', async () => {
+    const sessionId = await initialize();
+
+    await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'navigate', arguments: { sessionId: 'shared' } } },
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+
+    expect(echoHandler).toHaveBeenCalledWith('shared', { sessionId: 'shared' }, expect.anything());
+  });
+
+  test('notifications are accepted with 202 and no body', async () => {
+    const sessionId = await initialize();
+
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', method: 'notifications/initialized' },
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+
+    expect(reply.status).toBe(202);
+    expect(reply.body).toBe('');
+  });
+
+  test('batches return an array of responses', async () => {
+    const sessionId = await initialize();
+
+    const reply = await request(port, 'POST', {
+      body: [
+        { jsonrpc: '2.0', id: 10, method: 'tools/list' },
+        { jsonrpc: '2.0', id: 11, method: 'resources/list' },
+      ],
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+
+    const body = JSON.parse(reply.body);
+    expect(Array.isArray(body)).toBe(true);
+    expect(body.map((r: { id: number }) => r.id).sort()).toEqual([10, 11]);
+  });
+
+  test('responds with an SSE stream when the client accepts it', async () => {
+    const sessionId = await initialize();
+
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 6, method: 'tools/list' },
+      headers: { 'Mcp-Session-Id': sessionId, Accept: 'application/json, text/event-stream' },
+    });
+
+    expect(reply.headers['content-type']).toBe('text/event-stream');
+    const messages = parseSseMessages(reply.body);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].id).toBe(6);
+  });
+
+  test('streams progress notifications before the response on SSE', async () => {
+    echoHandler.mockImplementation(async (_sessionId: string, _args: Record<string, unknown>, context) => {
+      context.reportProgress(1, 1, 'halfway');
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+    const sessionId = await initialize();
+
+    const reply = await request(port, 'POST', {
+      body: {
+        jsonrpc: '2.0',
+        id: 8,
+        method: 'tools/call',
+        params: { name: 'navigate', arguments: {}, _meta: { progressToken: 'p-1' } },
+      },
+      headers: { 'Mcp-Session-Id': sessionId, Accept: 'application/json, text/event-stream' },
+    });
+
+    const messages = parseSseMessages(reply.body);
+    expect(messages[0]).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 'p-1', progress: 1, total: 1, message: 'halfway' },
+    });
+    expect(messages[messages.length - 1].id).toBe(8);
+  });
+
+  test('returns a parse error for malformed JSON', async () => {
+    const reply = await new Promise<HttpReply>((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, path: '/mcp', method: 'POST' }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body }));
+      });
+      req.on('error', reject);
+      req.end('{not json');
+    });
+
+    expect(reply.status).toBe(400);
+    expect(JSON.parse(reply.body).error.code).toBe(-32700);
+  });
+
+  test('rejects non-loopback browser origins', async () => {
+    const reply = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 1, method: 'initialize' },
+      headers: { Origin: 'https://evil.example' },
+    });
+    expect(reply.status).toBe(403);
+  });
+
+  test('DELETE terminates the MCP and browser session', async () => {
+    const sessionId = await initialize();
+
+    const reply = await request(port, 'DELETE', { headers: { 'Mcp-Session-Id': sessionId } });
+    expect(reply.status).toBe(204);
+    expect(mockSessionManager.deleteSession).toHaveBeenCalledWith(sessionId);
+
+    const after = await request(port, 'POST', {
+      body: { jsonrpc: '2.0', id: 7, method: 'tools/list' },
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+    expect(after.status).toBe(404);
+  });
+
+  test('closes sessions that stay idle past the timeout', async () => {
+    const idle = await initialize();
+    const transport: StreamableHttpTransport = (server as any).httpTransport;
+
+    expect(await transport.expireIdleSessions(Date.now() + 60_000)).toEqual([]);
+    expect(await transport.expireIdleSessions(Date.now() + 31 * 60_000)).toEqual([idle]);
+    expect(mockSessionManager.deleteSession).toHaveBeenCalledWith(idle);
+    expect(transport.getSessionIds()).toEqual([]);
+  });
+
+  test('requires the bearer token when one is set', async () => {
+    const transport = new StreamableHttpTransport(server, { port: 0, authToken: 's3cret' });
+    const tokenPort = await transport.start();
+    try {
+      const body = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+      const missing = await request(tokenPort, 'POST', { body });
+      expect(missing.status).toBe(401);
+      expect(missing.headers['www-authenticate']).toBe('Bearer');
+      expect((await request(tokenPort, 'POST', { body, headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+      expect((await request(tokenPort, 'POST', { body, headers: { Authorization: 'Bearer s3cret' } })).status).toBe(200);
+    } finally {
+      await transport.stop();
+    }
+  });
+
+  test('refuses to bind beyond loopback without a token', async () => {
+    const transport = new StreamableHttpTransport(server, { port: 0, host: '0.0.0.0' });
+    await expect(transport.start()).rejects.toThrow('without an auth token');
+    expect(transport.getPort()).toBe(0);
+  });
+
+  test('GET stream receives server notifications', async () => {
+    const sessionId = await initialize();
+
+    const received = new Promise<string>((resolve, reject) => {
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          method: 'GET',
+          headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+        },
+        (res) => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk) => {
+            body += chunk;
+            if (body.includes('list_changed')) {
+              req.destroy();
+              resolve(body);
+            } else if (body.includes(': connected')) {
+              server.expandToolTier(2);
+            }
+          });
+        }
+      );
+      req.on('error', (err) => {
+        if ((err as NodeJS.ErrnoException).code !== 'ECONNRESET') reject(err);
+      });
+      req.end();
+    });
+
+    const body = await received;
+    expect(parseSseMessages(body)[0]).toEqual({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+  });
+
+  test('unknown paths return 404', async () => {
+    const transport = new StreamableHttpTransport(server, { port: 0, path: '/custom' });
+    const customPort = await transport.start();
+    try {
+      const reply = await request(customPort, 'POST', { body: { jsonrpc: '2.0', id: 1, method: 'initialize' } });
+      expect(reply.status).toBe(404);
+    } finally {
+      await transport.stop();
+    }
+  });
+});
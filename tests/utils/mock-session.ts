@@ -222,6 +222,10 @@ export function createMockSessionManager(options: MockSessionManagerOptions = {}
       return pages.get(targetId) || null;
     }),
 
+    peekPage: jest.fn().mockImplementation(async (targetId: string) => {
+      return targetToWorker.has(targetId) ? pages.get(targetId) || null : null;
+    }),
+
     getSessionPages: jest.fn().mockImplementation(async (sessionId: string) => {
       const session = sessions.get(sessionId);
       if (!session) return [];
@@ -280,6 +284,25 @@ export function createMockSessionManager(options: MockSessionManagerOptions = {}
 
     getCDPClient: jest.fn().mockReturnValue(mockCDPClient),
 
+    getStats: jest.fn().mockImplementation(() => {
+      let totalWorkers = 0;
+      for (const session of sessions.values()) {
+        totalWorkers += session.workers.size;
+      }
+      return {
+        activeSessions: sessions.size,
+        totalTargets: targetToWorker.size,
+        totalWorkers,
+        totalSessionsCreated: sessions.size,
+        totalSessionsCleaned: 0,
+        uptime: 0,
+        lastCleanup: null,
+        memoryUsage: 0,
+      };
+    }),
+
+    getBrowserRouter: jest.fn().mockReturnValue(null),
+
     getSessionInfo: jest.fn().mockImplementation((sessionId: string) => {
       const session = sessions.get(sessionId);
       if (!session) return undefined;
@@ -313,6 +336,8 @@ export function createMockSessionManager(options: MockSessionManagerOptions = {}
       return Array.from(sessions.keys()).map((id) => manager.getSessionInfo(id));
     }),
 
+    getProfileInstances: jest.fn().mockReturnValue([]),
+
     get sessionCount() {
       return sessions.size;
     },
@@ -347,12 +372,12 @@ export function createMockSessionManager(options: MockSessionManagerOptions = {}
  * Creates a simple mock RefIdManager for testing
  */
 export function createMockRefIdManager() {
-  const refs: Map<string, Map<string, Map<string, { refId: string; backendDOMNodeId: number; role: string; name?: string; tagName?: string; textContent?: string; createdAt: number }>>> = new Map();
+  const refs: Map<string, Map<string, Map<string, { refId: string; backendDOMNodeId: number; role: string; name?: string; tagName?: string; textContent?: string; frameId?: string; createdAt: number }>>> = new Map();
   const counters: Map<string, Map<string, number>> = new Map();
 
   return {
     generateRef: jest.fn().mockImplementation(
-      (sessionId: string, targetId: string, backendDOMNodeId: number, role: string, name?: string, tagName?: string, textContent?: string) => {
+      (sessionId: string, targetId: string, backendDOMNodeId: number, role: string, name?: string, tagName?: string, textContent?: string, frameId?: string) => {
         if (!refs.has(sessionId)) {
           refs.set(sessionId, new Map());
         }
@@ -377,6 +402,7 @@ export function createMockRefIdManager() {
           name,
           tagName,
           textContent,
+          ...(frameId && { frameId }),
           createdAt: Date.now(),
         });
 
@@ -0,0 +1,125 @@
+/// <reference types="jest" />
+/**
+ * Tests for the PNG codec and pixel diff
+ */
+
+import * as zlib from 'zlib';
+import { RGBAImage, decodePng, encodePng } from '../../src/utils/png';
+import { diffImages } from '../../src/utils/pixel-diff';
+
+function solid(width: number, height: number, rgba: number[]): RGBAImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(rgba, i * 4);
+  }
+  return { width, height, data };
+}
+
+function setPixel(image: RGBAImage, x: number, y: number, rgba: number[]): void {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+describe('png', () => {
+  test('round-trips RGBA pixels', () => {
+    const image = solid(3, 2, [10, 20, 30, 255]);
+    setPixel(image, 1, 1, [200, 100, 50, 128]);
+
+    const decoded = decodePng(encodePng(image));
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(decoded.data.equals(image.data)).toBe(true);
+  });
+
+  test('decodes filtered RGB scanlines', () => {
+    // 2x2 RGB image; row 0 uses Sub filter, row 1 uses Up filter
+    const raw = Buffer.from([
+      1, 10, 20, 30, 5, 5, 5, // Sub: second pixel = (15, 25, 35)
+      2, 1, 1, 1, 1, 1, 1,    // Up: (11, 21, 31), (16, 26, 36)
+    ]);
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(2, 0);
+    ihdr.writeUInt32BE(2, 4);
+    ihdr[8] = 8;
+    ihdr[9] = 2;
+    const chunk = (type: string, body: Buffer) => {
+      const len = Buffer.alloc(4);
+      len.writeUInt32BE(body.length, 0);
+      return Buffer.concat([len, Buffer.from(type, 'ascii'), body, Buffer.alloc(4)]);
+    };
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', ihdr),
+      chunk('IDAT', zlib.deflateSync(raw)),
+      chunk('IEND', Buffer.alloc(0)),
+    ]);
+
+    const { data } = decodePng(png);
+    expect(Array.from(data)).toEqual([
+      10, 20, 30, 255, 15, 25, 35, 255,
+      11, 21, 31, 255, 16, 26, 36, 255,
+    ]);
+  });
+
+  test('rejects non-PNG input', () => {
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('Not a PNG image');
+  });
+});
+
+describe('diffImages', () => {
+  test('identical images have no mismatch', () => {
+    const result = diffImages(solid(4, 4, [255, 255, 255, 255]), solid(4, 4, [255, 255, 255, 255]));
+    expect(result.diffPixels).toBe(0);
+    expect(result.mismatchPercent).toBe(0);
+  });
+
+  test('counts changed pixels and paints them red', () => {
+    const expected = solid(10, 10, [255, 255, 255, 255]);
+    const actual = solid(10, 10, [255, 255, 255, 255]);
+    for (let x = 2; x < 6; x++) {
+      for (let y = 2; y < 6; y++) setPixel(actual, x, y, [0, 0, 0, 255]);
+    }
+
+    const result = diffImages(expected, actual);
+    expect(result.diffPixels).toBe(16);
+    expect(result.mismatchPercent).toBeCloseTo(16);
+    expect(Array.from(result.diff.data.subarray((3 * 10 + 3) * 4, (3 * 10 + 3) * 4 + 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  test('threshold tolerates small colour shifts', () => {
+    const expected = solid(4, 4, [100, 100, 100, 255]);
+    const actual = solid(4, 4, [104, 104, 104, 255]);
+    expect(diffImages(expected, actual, { threshold: 0 }).diffPixels).toBe(16);
+    expect(diffImages(expected, actual, { threshold: 0.1 }).diffPixels).toBe(0);
+  });
+
+  test('ignore regions are excluded from the comparison', () => {
+    const expected = solid(10, 10, [255, 255, 255, 255]);
+    const actual = solid(10, 10, [255, 255, 255, 255]);
+    setPixel(actual, 1, 1, [0, 0, 0, 255]);
+    setPixel(actual, 8, 8, [0, 0, 0, 255]);
+
+    const result = diffImages(expected, actual, { ignoreRegions: [{ x: 0, y: 0, width: 5, height: 5 }] });
+    expect(result.ignoredPixels).toBe(25);
+    expect(result.comparedPixels).toBe(75);
+    expect(result.diffPixels).toBe(1);
+  });
+
+  test('anti-aliased edge pixels are reported separately', () => {
+    // Hard black/white edge in the baseline; the capture has a gray pixel on the edge
+    const expected = solid(8, 8, [255, 255, 255, 255]);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 4; x < 8; x++) setPixel(expected, x, y, [0, 0, 0, 255]);
+    }
+    const actual: RGBAImage = { ...expected, data: Buffer.from(expected.data) };
+    setPixel(actual, 4, 4, [128, 128, 128, 255]);
+
+    const tolerant = diffImages(expected, actual);
+    expect(tolerant.diffPixels).toBe(0);
+    expect(tolerant.antialiasedPixels).toBe(1);
+    expect(diffImages(expected, actual, { includeAntialiasing: true }).diffPixels).toBe(1);
+  });
+
+  test('rejects images of different sizes', () => {
+    expect(() => diffImages(solid(2, 2, [0, 0, 0, 255]), solid(3, 2, [0, 0, 0, 255]))).toThrow('Image sizes differ');
+  });
+});
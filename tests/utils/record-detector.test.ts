@@ -0,0 +1,45 @@
+/// <reference types="jest" />
+/**
+ * Tests for record detector output formats
+ */
+
+import { rowsToObjects, toCsv, toMarkdown, RecordGroup } from '../../src/utils/record-detector';
+
+const group: RecordGroup = {
+  kind: 'list',
+  selector: '#results > li.result',
+  containerSelector: '#results',
+  rowCount: 2,
+  columns: ['title', 'price', 'url'],
+  fields: {},
+  rows: [
+    ['Desk, oak', '$199', 'https://shop.example.com/desk'],
+    ['Chair "Ergo" | black', null, 'https://shop.example.com/chair'],
+  ],
+};
+
+describe('record detector formats', () => {
+  test('rowsToObjects omits missing cells', () => {
+    expect(rowsToObjects(group)).toEqual([
+      { title: 'Desk, oak', price: '$199', url: 'https://shop.example.com/desk' },
+      { title: 'Chair "Ergo" | black', url: 'https://shop.example.com/chair' },
+    ]);
+  });
+
+  test('toCsv quotes separators and quotes', () => {
+    expect(toCsv(group.columns, group.rows)).toBe([
+      'title,price,url',
+      '"Desk, oak",$199,https://shop.example.com/desk',
+      '"Chair ""Ergo"" | black",,https://shop.example.com/chair',
+    ].join('\n'));
+  });
+
+  test('toMarkdown escapes pipes', () => {
+    expect(toMarkdown(group.columns, group.rows)).toBe([
+      '| title | price | url |',
+      '| --- | --- | --- |',
+      '| Desk, oak | $199 | https://shop.example.com/desk |',
+      '| Chair "Ergo" \\| black |  | https://shop.example.com/chair |',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,126 @@
+/// <reference types="jest" />
+/**
+ * Tests for record extraction: spec parsing, type coercion and schema validation
+ */
+
+import {
+  buildRecords,
+  coerceValue,
+  parseExtractionSpec,
+  parseNumber,
+} from '../../src/utils/record-extractor';
+import { validateJsonSchema } from '../../src/utils/json-schema-validator';
+
+const productSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string' as const },
+    price: { type: 'number' as const, minimum: 0 },
+    inStock: { type: 'boolean' as const },
+    tags: { type: 'array' as const, items: { type: 'string' as const } },
+  },
+  required: ['name', 'price'],
+};
+
+describe('parseNumber', () => {
+  test.each([
+    ['$1,299.00', 1299],
+    ['1.299,50 €', 1299.5],
+    ['12,5', 12.5],
+    ['1 234 567', 1234567],
+    ['-3.5%', -3.5],
+    ['4.8 out of 5', 4.8],
+  ])('%s -> %d', (raw, expected) => {
+    expect(parseNumber(raw)).toBe(expected);
+  });
+
+  test('NaN without digits', () => {
+    expect(parseNumber('Call for price')).toBeNaN();
+  });
+});
+
+describe('coerceValue', () => {
+  test('coerces to the schema type and leaves unparseable values for validation', () => {
+    expect(coerceValue('$19.99', { type: 'number' })).toBe(19.99);
+    expect(coerceValue('Sold out', { type: 'number' })).toBe('Sold out');
+    expect(coerceValue('Yes', { type: 'boolean' })).toBe(true);
+    expect(coerceValue(['1', '2'], { type: 'array', items: { type: 'integer' } })).toEqual([1, 2]);
+    expect(coerceValue('solo', { type: 'array', items: { type: 'string' } })).toEqual(['solo']);
+    expect(coerceValue(['a', 'b'], { type: 'string' })).toBe('a, b');
+  });
+});
+
+describe('parseExtractionSpec', () => {
+  test('normalizes hints and unwraps array schemas', () => {
+    const spec = parseExtractionSpec({
+      schema: { type: 'array', items: productSchema },
+      container: '.card',
+      fields: { name: 'h3', price: { xpath: './/span[@class="price"]' } },
+      limit: 5000,
+    });
+    expect(spec.schema).toBe(productSchema);
+    expect(spec.container).toEqual({ selector: '.card' });
+    expect(spec.fields).toEqual({ name: { selector: 'h3' }, price: { xpath: './/span[@class="price"]' } });
+    expect(spec.limit).toBe(1000);
+  });
+
+  test('rejects unusable schemas and hints', () => {
+    expect(() => parseExtractionSpec({})).toThrow('schema is required');
+    expect(() => parseExtractionSpec({ schema: { type: 'object' } })).toThrow('object with properties');
+    expect(() => parseExtractionSpec({
+      schema: { type: 'object', properties: { seller: { type: 'object', properties: {} } } },
+    })).toThrow('nested objects are not supported');
+    expect(() => parseExtractionSpec({ schema: productSchema, fields: { sku: '.sku' } })).toThrow('"sku" is not a property');
+    expect(() => parseExtractionSpec({ schema: productSchema, fields: { name: { attribute: 'title' } } })).toThrow('needs a selector');
+  });
+});
+
+describe('buildRecords', () => {
+  test('types records, counts misses and reports invalid records', () => {
+    const result = buildRecords({
+      containerCount: 3,
+      rows: [
+        { name: 'Mug', price: '$12.00', inStock: 'In stock', tags: ['kitchen'] },
+        { name: 'Lamp', price: '1.299,00 €', inStock: 'yes', tags: null },
+        { name: null, price: 'Sold out', inStock: null, tags: null },
+      ],
+      autoDetected: ['inStock'],
+    }, productSchema);
+
+    expect(result.records).toEqual([
+      { name: 'Mug', price: 12, inStock: 'In stock', tags: ['kitchen'] },
+      { name: 'Lamp', price: 1299, inStock: true },
+      { price: 'Sold out' },
+    ]);
+    expect(result.misses).toEqual({ name: 1, inStock: 1, tags: 2 });
+    expect(result.invalid).toEqual([
+      { index: 0, errors: ['$.inStock: expected boolean, got string'] },
+      { index: 2, errors: ['$.name: required', '$.price: expected number, got string'] },
+    ]);
+    expect(result.autoDetected).toEqual(['inStock']);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  test('checks formats, enums, lengths and nested items', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        url: { type: 'string' as const, format: 'uri' },
+        status: { enum: ['open', 'closed'] },
+        code: { type: 'string' as const, pattern: '^[A-Z]{3}$', maxLength: 3 },
+        scores: { type: 'array' as const, maxItems: 2, items: { type: 'integer' as const } },
+      },
+    };
+    expect(validateJsonSchema({ url: 'https://example.com/a', status: 'open', code: 'ABC', scores: [1, 2] }, schema)).toEqual([]);
+    expect(validateJsonSchema({ url: '/relative', status: 'pending', code: 'abcd', scores: [1.5, 2, 3] }, schema)).toEqual([
+      '$.url: not a valid uri',
+      '$.status: must be one of "open", "closed"',
+      '$.code: longer than 3 characters',
+      '$.code: does not match ^[A-Z]{3}$',
+      '$.scores: more than 2 items',
+      '$.scores[0]: expected integer, got number',
+    ]);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+  });
+});
@@ -135,3 +135,18 @@ describe('RefIdManager.resolveToBackendNodeId', () => {
     expect(manager.resolveToBackendNodeId(SESSION, TARGET, 'node_42')).toBe(42);
   });
 });
+
+describe('RefIdManager.findRef', () => {
+  const SESSION = 'session-A';
+  const TARGET = 'target-1';
+
+  it('finds entries by ref_N, raw backendNodeId or node_N', () => {
+    const manager = new RefIdManager();
+    manager.generateRef(SESSION, TARGET, 100, 'button', 'Submit');
+
+    expect(manager.findRef(SESSION, TARGET, 'ref_1')?.name).toBe('Submit');
+    expect(manager.findRef(SESSION, TARGET, '100')?.role).toBe('button');
+    expect(manager.findRef(SESSION, TARGET, 'node_100')?.refId).toBe('ref_1');
+    expect(manager.findRef(SESSION, TARGET, '142')).toBeUndefined();
+  });
+});
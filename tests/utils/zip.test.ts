@@ -0,0 +1,31 @@
+/// <reference types="jest" />
+/**
+ * Tests for the minimal zip writer/reader
+ */
+
+import * as crypto from 'crypto';
+import { createZip, readZip } from '../../src/utils/zip';
+
+describe('zip', () => {
+  test('round-trips deflated and stored entries with UTF-8 names', () => {
+    const entries = [
+      { name: 'trace.json', data: Buffer.from(JSON.stringify({ steps: new Array(50).fill('repeat') })) },
+      { name: 'steps/0001-before.jpg', data: crypto.randomBytes(2048) },
+      { name: 'notes/überprüfung.txt', data: Buffer.from('ok') },
+      { name: 'empty.txt', data: Buffer.alloc(0) },
+    ];
+
+    const archive = createZip(entries);
+    expect(archive.length).toBeLessThan(entries.reduce((sum, e) => sum + e.data.length, 0) + 1000);
+    expect(readZip(archive)).toEqual(entries);
+  });
+
+  test('rejects corrupt data and non-zip input', () => {
+    const archive = createZip([{ name: 'a.bin', data: crypto.randomBytes(64) }]);
+    // Flip a byte of the stored payload (local header is 30 bytes + the 5-byte name)
+    archive[40] ^= 0xff;
+
+    expect(() => readZip(archive)).toThrow('CRC mismatch for a.bin');
+    expect(() => readZip(Buffer.from('definitely not a zip archive'))).toThrow('Not a zip archive');
+  });
+});